@@ -1,4 +1,4 @@
-import { Pool, PoolClient } from "pg";
+import { Client, ClientConfig, Pool, PoolClient } from "pg";
 import { Logger } from "@/utils/Logger";
 
 export interface ConnectionInfo {
@@ -20,6 +20,23 @@ export interface ConnectionHandle {
 	release: () => void;
 }
 
+/**
+ * Lets a caller ask for the statements it started to be cancelled; vscode.CancellationToken has this shape
+ */
+export interface QueryCancellationToken {
+	readonly isCancellationRequested: boolean;
+	onCancellationRequested(listener: () => void): { dispose(): void };
+}
+
+/**
+ * Raised in place of a statement's error when the statement failed because the user cancelled it
+ */
+export class QueryCancelledError extends Error {
+	constructor(readonly statementError?: Error) {
+		super("Query cancelled by user");
+	}
+}
+
 // Native metadata interfaces to replace DotNet types
 export interface NativeColumnMetadata {
 	name: string;
@@ -114,6 +131,8 @@ export class PostgreSqlConnectionManager {
 	private pools: Map<string, Pool> = new Map();
 	private healthStatus: Map<string, ConnectionHealthStatus> = new Map();
 	private healthCheckInterval: NodeJS.Timeout | null = null;
+	/** Server process of each pooled client, looked up once per client */
+	private backendPids = new WeakMap<PoolClient, number>();
 
 	private constructor() {
 		const constructorStart = Date.now();
@@ -177,6 +196,87 @@ export class PostgreSqlConnectionManager {
 		}
 	}
 
+	/**
+	 * Run work on a client so that cancelling the token stops the statement the client is running at that moment,
+	 * through pg_cancel_backend from a separate connection. A cancel that arrives between statements has nothing
+	 * to stop, so callers running several statements check the token between them.
+	 * @throws QueryCancelledError if the token was already cancelled, or the work failed after it was cancelled
+	 */
+	async runCancellable<T>(
+		connectionInfo: ConnectionInfo,
+		client: PoolClient,
+		cancellationToken: QueryCancellationToken | undefined,
+		work: () => Promise<T>,
+	): Promise<T> {
+		if (!cancellationToken) {
+			return work();
+		}
+		if (cancellationToken.isCancellationRequested) {
+			throw new QueryCancelledError();
+		}
+
+		const processId = await this.getBackendPid(client);
+		let cancelling: Promise<boolean> | undefined;
+		const subscription = cancellationToken.onCancellationRequested(() => {
+			if (!cancelling) {
+				cancelling = this.cancelBackend(connectionInfo, processId);
+			}
+		});
+		try {
+			return await work();
+		} catch (error) {
+			if (cancellationToken.isCancellationRequested) {
+				throw new QueryCancelledError(error as Error);
+			}
+			throw error;
+		} finally {
+			subscription.dispose();
+			// The client must not return to the pool, and start someone else's statement, before the cancel lands
+			await cancelling;
+		}
+	}
+
+	/**
+	 * Cancel the statement a server process is running. The request goes over a new connection outside the
+	 * pool, so a pool with every client busy cannot hold it up.
+	 * @returns Whether the server found the process and signalled it
+	 */
+	async cancelBackend(connectionInfo: ConnectionInfo, processId: number): Promise<boolean> {
+		const client = new Client(this.getClientConfig(connectionInfo));
+		client.on("error", (error) => {
+			Logger.warn("Cancel connection error", "cancelBackend", { error: error.message });
+		});
+		try {
+			await client.connect();
+			const result = await client.query("SELECT pg_cancel_backend($1) AS cancelled", [processId]);
+			const cancelled = result.rows[0]?.cancelled === true;
+			Logger.info("Sent cancel to backend", "cancelBackend", {
+				connectionId: connectionInfo.id,
+				processId,
+				cancelled,
+			});
+			return cancelled;
+		} catch (error) {
+			Logger.error("Failed to cancel backend", error as Error, "cancelBackend", {
+				connectionId: connectionInfo.id,
+				processId,
+			});
+			return false;
+		} finally {
+			await client.end().catch(() => undefined);
+		}
+	}
+
+	private async getBackendPid(client: PoolClient): Promise<number> {
+		let processId = this.backendPids.get(client);
+		if (processId === undefined) {
+			const result = await client.query("SELECT pg_backend_pid() AS pid");
+			processId = result.rows[0].pid as number;
+			this.backendPids.set(client, processId);
+		}
+		return processId;
+	}
+
 	async testConnection(connectionInfo: ConnectionInfo): Promise<boolean> {
 		try {
 			const handle = await this.createConnection(connectionInfo);
@@ -195,14 +295,11 @@ export class PostgreSqlConnectionManager {
 		}
 	}
 
-	private getOrCreatePool(connectionInfo: ConnectionInfo): Pool {
-		const poolKey = `${connectionInfo.host}:${connectionInfo.port}:${connectionInfo.database}`;
-
-		if (this.pools.has(poolKey)) {
-			return this.pools.get(poolKey)!;
-		}
-
-		const pool = new Pool({
+	/**
+	 * Connection settings shared by pooled clients and the one-off clients that send cancel requests
+	 */
+	private getClientConfig(connectionInfo: ConnectionInfo): ClientConfig {
+		return {
 			host: connectionInfo.host,
 			port: connectionInfo.port,
 			database: connectionInfo.database,
@@ -211,6 +308,18 @@ export class PostgreSqlConnectionManager {
 			ssl: connectionInfo.ssl ?? false,
 			connectionTimeoutMillis: connectionInfo.connectionTimeoutMillis ?? 10000,
 			query_timeout: connectionInfo.query_timeout ?? 30000,
+		};
+	}
+
+	private getOrCreatePool(connectionInfo: ConnectionInfo): Pool {
+		const poolKey = `${connectionInfo.host}:${connectionInfo.port}:${connectionInfo.database}`;
+
+		if (this.pools.has(poolKey)) {
+			return this.pools.get(poolKey)!;
+		}
+
+		const pool = new Pool({
+			...this.getClientConfig(connectionInfo),
 			max: 10, // Maximum number of clients in the pool
 			idleTimeoutMillis: 30000, // Close idle clients after 30 seconds
 		});
@@ -158,6 +158,11 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 			Logger.warn(`Tree view registration took ${treeViewDuration}ms - this might be slow!`, "activate");
 		}
 
+		// SQL completion, hover and diagnostics are optional; activation continues without them
+		components.sqlLanguageProvider = ExtensionInitializer.initializeComponent("SqlLanguageProvider", () =>
+			ExtensionInitializer.registerSqlLanguageProvider(components!, context),
+		);
+
 		// Register commands synchronously
 		const commandsStart = Date.now();
 		Logger.info("🔄 Checkpoint 12: Starting command registration", "activate", {
@@ -1,8 +1,23 @@
 import * as vscode from "vscode";
 import { DatabaseConnection } from "@/managers/ConnectionManager";
+import { ComparisonRulesStore } from "@/managers/schema/ComparisonRulesStore";
+import {
+	MIGRATION_EXPORT_FORMATS,
+	MigrationExporter,
+	MigrationExportFormat,
+} from "@/managers/schema/MigrationExporter";
 import { MigrationManagement } from "@/managers/schema/MigrationManagement";
-import { DetailedSchemaComparisonResult, SchemaComparisonOptions } from "@/managers/schema/SchemaComparison";
+import { MigrationRollout, MigrationRolloutPlan } from "@/managers/schema/MigrationRollout";
+import { EnhancedMigrationScript, MigrationDdlProfile } from "@/managers/schema/MigrationTypes";
+import {
+	DetailedSchemaComparisonResult,
+	SchemaComparison,
+	SchemaComparisonOptions,
+	SchemaDifference,
+} from "@/managers/schema/SchemaComparison";
 import { SchemaOperations } from "@/managers/schema/SchemaOperations";
+import { SchemaSnapshotStore } from "@/managers/schema/SchemaSnapshotStore";
+import { SqlSchemaDirectory } from "@/managers/schema/SqlSchemaDirectory";
 import { ExtensionComponents } from "@/utils/ExtensionInitializer";
 import { Logger } from "@/utils/Logger";
 import { PostgreSqlExtension } from "../PostgreSqlExtension";
@@ -17,6 +32,13 @@ export class CommandHandlers {
 	private components: ExtensionComponents;
 	private migrationManager: MigrationManagement;
 	private schemaOperations: SchemaOperations;
+	private snapshotStore: SchemaSnapshotStore;
+	private rulesStore: ComparisonRulesStore;
+	private sqlDirectory: SqlSchemaDirectory;
+	private migrationExporter: MigrationExporter;
+	private migrationRollout: MigrationRollout;
+	private lastGeneratedScript?: EnhancedMigrationScript;
+	private activeRollout?: MigrationRolloutPlan;
 
 	constructor(
 		extension: PostgreSqlExtension,
@@ -28,6 +50,14 @@ export class CommandHandlers {
 		this.components = components;
 		this.migrationManager = migrationManager;
 		this.schemaOperations = schemaOperations;
+		this.snapshotStore = new SchemaSnapshotStore();
+		this.rulesStore = new ComparisonRulesStore();
+		this.sqlDirectory = new SqlSchemaDirectory(schemaOperations);
+		this.migrationExporter = new MigrationExporter();
+		this.migrationRollout = new MigrationRollout(
+			migrationManager,
+			new SchemaComparison(schemaOperations, components.migrationLedger.getLocation),
+		);
 	}
 
 	// Connection Management Handlers
@@ -59,8 +89,10 @@ export class CommandHandlers {
 	}
 
 	/**
-	 * Handles executing a database migration.
-	 * @param migration The migration to execute.
+	 * Handles executing a database migration. A generated migration, or the preview of one, runs through the
+	 * migration manager, which checks the data again before applying it.
+	 * @param migration The migration to execute; acknowledgePreflight set by the preview applies it even though
+	 * pre-flight checks found offending rows or could not run.
 	 */
 	async handleExecuteMigration(migration?: any): Promise<void> {
 		if (!migration) {
@@ -68,9 +100,97 @@ export class CommandHandlers {
 			return;
 		}
 
+		const script: EnhancedMigrationScript | undefined = migration.migrationSteps
+			? migration
+			: this.lastGeneratedScript?.id === migration.id
+				? this.lastGeneratedScript
+				: undefined;
+		if (script) {
+			await this.executeGeneratedMigration(script, migration.acknowledgePreflight === true);
+			return;
+		}
+
 		await this.extension.executeMigration(migration);
 	}
 
+	/**
+	 * Whether migrations run in one transaction with a savepoint per step, rolled back as a whole on failure
+	 */
+	private isTransactionalExecution(): boolean {
+		return vscode.workspace.getConfiguration("postgresql-schema-sync").get<boolean>("migration.transactional", true);
+	}
+
+	/**
+	 * Applies a generated migration to the database it was generated to change, after a confirmation
+	 */
+	private async executeGeneratedMigration(
+		migration: EnhancedMigrationScript,
+		acknowledgePreflight: boolean,
+	): Promise<void> {
+		try {
+			// The migration brings the source in line with the target, so it is the source that is changed
+			const connection =
+				this.components.connectionManager.getConnection(migration.sourceSchema.connectionId) ??
+				(await this.pickConnection("Select the database to apply the migration to"));
+			if (!connection) {
+				return;
+			}
+
+			const execute = "Execute";
+			const confirmation = await vscode.window.showWarningMessage(
+				`Execute ${migration.name} on ${connection.name}?`,
+				{
+					modal: true,
+					detail: acknowledgePreflight
+						? "Pre-flight checks are skipped; you acknowledged the rows they found or that they could not run."
+						: "Pre-flight checks run again first, and any offending rows stop the migration.",
+				},
+				execute,
+			);
+			if (confirmation !== execute) {
+				return;
+			}
+
+			const result = await vscode.window.withProgress(
+				{
+					location: vscode.ProgressLocation.Notification,
+					title: `Executing ${migration.name} on ${connection.name}`,
+					cancellable: true,
+				},
+				(_progress, token) =>
+					this.migrationManager.executeMigrationScript(migration, connection.id, {
+						stopOnError: true,
+						transactional: this.isTransactionalExecution(),
+						acknowledgePreflight,
+						cancellationToken: token,
+					}),
+			);
+
+			if (result.status === "completed") {
+				vscode.window.showInformationMessage(
+					`Migration ${migration.name} executed: ${result.completedSteps} step(s) applied`,
+				);
+			} else if (result.status === "cancelled") {
+				vscode.window.showWarningMessage(
+					`Migration ${migration.name} cancelled: ${result.executionLog[result.executionLog.length - 1]?.message}`,
+				);
+			} else {
+				vscode.window.showErrorMessage(
+					`Migration ${migration.name} failed after ${result.completedSteps} step(s)${
+						result.transactionOutcome === "rolled_back"
+							? " and was rolled back"
+							: result.transactionOutcome === "partially_committed"
+								? "; steps committed before the failing transaction remain applied"
+								: ""
+					}: ${result.errors?.[0] ?? "unknown error"}`,
+				);
+			}
+		} catch (error) {
+			Logger.error("Failed to execute migration", error as Error, "CommandHandlers");
+			vscode.window.showErrorMessage(`Failed to execute migration: ${(error as Error).message}`);
+		}
+	}
+
 	/**
 	 * Handles removing a database connection.
 	 * @param connection The connection to remove.
@@ -235,21 +355,23 @@ export class CommandHandlers {
 				return;
 			}
 
-			const notificationManager = this.components.notificationManager;
-			const reportingService = this.components.reportingService;
-			const driftReportView = this.components.driftReportView;
-
 			operationId = `schema-compare-${Date.now()}`;
 			statusProvider?.startOperation(operationId, `Schema drift: ${sourceConnection.name} → ${targetConnection.name}`, {
 				message: "Collecting metadata",
 				progress: 0,
 			});
 
-			const comparisonOptions: SchemaComparisonOptions = {
-				mode: "strict",
-				includeSystemObjects: false,
-				ignoreSchemas: ["pg_catalog", "information_schema"],
-			};
+			const comparisonOptions = await this.applyWorkspaceRules(
+				{
+					mode: "strict",
+					includeSystemObjects: false,
+					ignoreSchemas: ["pg_catalog", "information_schema"],
+					includePrivileges: vscode.workspace
+						.getConfiguration("postgresql-schema-sync")
+						.get<boolean>("compare.includePrivileges", true),
+				},
+				[targetConnection, sourceConnection],
+			);
 
 			let comparisonResult: DetailedSchemaComparisonResult | undefined;
 
@@ -313,48 +435,12 @@ export class CommandHandlers {
 				});
 			}
 
-			let recordedEntryId: string | undefined;
-			if (reportingService) {
-				const recordedEntry = await reportingService.recordComparison(comparisonResult, {
-					sourceConnectionId: sourceConnection.id,
-					targetConnectionId: targetConnection.id,
-					sourceName: sourceConnection.name,
-					targetName: targetConnection.name,
-				});
-				recordedEntryId = recordedEntry.id;
-			}
-
-			const differenceCount = comparisonResult.differences?.length || 0;
-			const detailMessage =
-				differenceCount === 0
-					? "No drift detected between the selected environments."
-					: `${differenceCount} difference${differenceCount === 1 ? "" : "s"} detected.`;
-
-			notificationManager?.showInformation("Schema comparison completed", detailMessage, "schema-comparison", {
-				actions: recordedEntryId
-					? [
-							{
-								id: "view-report",
-								label: "View Drift Report",
-								primary: true,
-								action: () => {
-									void vscode.commands.executeCommand("postgresql.showSchemaDriftReport", recordedEntryId);
-								},
-							},
-						]
-					: undefined,
-				category: "Schema Drift",
+			await this.reportComparisonResult(comparisonResult, {
+				sourceConnectionId: sourceConnection.id,
+				targetConnectionId: targetConnection.id,
+				sourceName: sourceConnection.name,
+				targetName: targetConnection.name,
 			});
-
-			const openReport = "View drift report";
-			const userChoice = await vscode.window.showInformationMessage(
-				`Schema comparison finished. ${detailMessage}`,
-				openReport,
-			);
-
-			if (userChoice === openReport && driftReportView) {
-				await driftReportView.showReport(recordedEntryId);
-			}
 		} catch (error) {
 			Logger.error("Failed to compare schemas", error as Error, "CommandHandlers");
 			vscode.window.showErrorMessage(`Failed to compare schemas: ${(error as Error).message}`);
@@ -365,6 +451,465 @@ export class CommandHandlers {
 		}
 	}
 
+	/**
+	 * Records a comparison result and offers to open the drift report.
+	 * @param comparisonResult The completed comparison.
+	 * @param metadata Display names and IDs for both comparison sides.
+	 */
+	private async reportComparisonResult(
+		comparisonResult: DetailedSchemaComparisonResult,
+		metadata: { sourceConnectionId: string; targetConnectionId: string; sourceName: string; targetName: string },
+	): Promise<void> {
+		const notificationManager = this.components.notificationManager;
+		const reportingService = this.components.reportingService;
+		const driftReportView = this.components.driftReportView;
+
+		let recordedEntryId: string | undefined;
+		if (reportingService) {
+			const recordedEntry = await reportingService.recordComparison(comparisonResult, metadata);
+			recordedEntryId = recordedEntry.id;
+		}
+
+		const differenceCount = comparisonResult.differences?.length || 0;
+		const detailMessage =
+			differenceCount === 0
+				? "No drift detected between the selected environments."
+				: `${differenceCount} difference${differenceCount === 1 ? "" : "s"} detected.`;
+
+		notificationManager?.showInformation("Schema comparison completed", detailMessage, "schema-comparison", {
+			actions: recordedEntryId
+				? [
+						{
+							id: "view-report",
+							label: "View Drift Report",
+							primary: true,
+							action: () => {
+								void vscode.commands.executeCommand("postgresql.showSchemaDriftReport", recordedEntryId);
+							},
+						},
+					]
+				: undefined,
+			category: "Schema Drift",
+		});
+
+		const openReport = "View drift report";
+		const userChoice = await vscode.window.showInformationMessage(
+			`Schema comparison finished. ${detailMessage}`,
+			openReport,
+		);
+
+		if (userChoice === openReport && driftReportView) {
+			await driftReportView.showReport(recordedEntryId);
+		}
+	}
+
+	/**
+	 * Handles saving a connection's schema to an offline snapshot file.
+	 * @param connection The connection to snapshot.
+	 */
+	async handleSaveSchemaSnapshot(connection?: DatabaseConnection): Promise<void> {
+		try {
+			const connectionManager = this.components.connectionManager;
+			const selectedConnection = connection?.id
+				? connectionManager.getConnection(connection.id)
+				: await this.pickConnection("Select connection to snapshot");
+			if (!selectedConnection) {
+				return;
+			}
+
+			const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+			const fileName = `${selectedConnection.name.replace(/[^a-zA-Z0-9_-]+/g, "_")}-${new Date()
+				.toISOString()
+				.slice(0, 10)}.snapshot.json`;
+			const uri = await vscode.window.showSaveDialog({
+				defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, "schema-snapshots", fileName) : undefined,
+				filters: { "Schema Snapshot": ["json"] },
+				saveLabel: "Save Snapshot",
+			});
+			if (!uri) {
+				return;
+			}
+
+			const snapshot = await vscode.window.withProgress(
+				{
+					location: vscode.ProgressLocation.Notification,
+					title: `Capturing schema snapshot of ${selectedConnection.name}`,
+					cancellable: false,
+				},
+				async () => {
+					const objects = await this.schemaOperations.getDatabaseObjects(selectedConnection.id);
+					return this.snapshotStore.saveSnapshot(uri.fsPath, objects, {
+						connectionId: selectedConnection.id,
+						connectionName: selectedConnection.name,
+						database: selectedConnection.database,
+					});
+				},
+			);
+
+			Logger.info("Schema snapshot saved", "CommandHandlers", {
+				connectionId: selectedConnection.id,
+				filePath: uri.fsPath,
+				objectCount: snapshot.objectCount,
+			});
+			vscode.window.showInformationMessage(
+				`Saved ${snapshot.objectCount} objects from "${selectedConnection.name}" to ${vscode.workspace.asRelativePath(uri)}`,
+			);
+		} catch (error) {
+			Logger.error("Failed to save schema snapshot", error as Error, "CommandHandlers");
+			vscode.window.showErrorMessage(`Failed to save schema snapshot: ${(error as Error).message}`);
+		}
+	}
+
+	/**
+	 * Handles comparing a saved schema snapshot against a live connection.
+	 * @param snapshotUri The snapshot file to use as the comparison source.
+	 */
+	async handleCompareWithSnapshot(snapshotUri?: vscode.Uri): Promise<void> {
+		try {
+			const schemaManager = this.components.schemaManager;
+			if (!schemaManager) {
+				vscode.window.showErrorMessage("Schema comparison services unavailable");
+				return;
+			}
+
+			let snapshotFile = snapshotUri;
+			if (!snapshotFile) {
+				const selection = await vscode.window.showOpenDialog({
+					canSelectMany: false,
+					defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+					filters: { "Schema Snapshot": ["json"] },
+					openLabel: "Use Snapshot",
+				});
+				snapshotFile = selection?.[0];
+			}
+			if (!snapshotFile) {
+				return;
+			}
+
+			const targetConnection = await this.pickConnection("Select live connection to compare against the snapshot");
+			if (!targetConnection) {
+				vscode.window.showWarningMessage("Schema comparison cancelled: target environment not selected");
+				return;
+			}
+
+			const comparisonOptions = await this.applyWorkspaceRules(
+				{
+					mode: "strict",
+					includeSystemObjects: false,
+					ignoreSchemas: ["pg_catalog", "information_schema"],
+					includePrivileges: vscode.workspace
+						.getConfiguration("postgresql-schema-sync")
+						.get<boolean>("compare.includePrivileges", true),
+				},
+				[targetConnection],
+			);
+
+			const snapshotName = vscode.workspace.asRelativePath(snapshotFile);
+			const comparisonResult = await vscode.window.withProgress(
+				{
+					location: vscode.ProgressLocation.Notification,
+					title: `Comparing ${snapshotName} to ${targetConnection.name}`,
+					cancellable: false,
+				},
+				() =>
+					schemaManager.compareSchemasDetailed(
+						{ snapshotPath: snapshotFile.fsPath },
+						targetConnection.id,
+						comparisonOptions,
+					),
+			);
+
+			await this.reportComparisonResult(comparisonResult, {
+				sourceConnectionId: comparisonResult.sourceConnectionId,
+				targetConnectionId: targetConnection.id,
+				sourceName: `Snapshot ${snapshotName}`,
+				targetName: targetConnection.name,
+			});
+		} catch (error) {
+			Logger.error("Failed to compare with snapshot", error as Error, "CommandHandlers");
+			vscode.window.showErrorMessage(`Failed to compare with snapshot: ${(error as Error).message}`);
+		}
+	}
+
+	/**
+	 * Handles comparing two connections against a common baseline snapshot.
+	 * Conflicts are shown separately so the migration never reverts a change made only on the source.
+	 * @param snapshotUri The snapshot file to use as the baseline.
+	 */
+	async handleCompareThreeWay(snapshotUri?: vscode.Uri): Promise<void> {
+		try {
+			const comparisonView = this.components.schemaComparisonView;
+			if (!comparisonView) {
+				vscode.window.showErrorMessage("Schema comparison view unavailable");
+				return;
+			}
+
+			let baselineFile = snapshotUri;
+			if (!baselineFile) {
+				const selection = await vscode.window.showOpenDialog({
+					canSelectMany: false,
+					defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+					filters: { "Schema Snapshot": ["json"] },
+					openLabel: "Use as Baseline",
+				});
+				baselineFile = selection?.[0];
+			}
+			if (!baselineFile) {
+				return;
+			}
+
+			const sourceConnection = await this.pickConnection("Select source environment (the one the migration changes)");
+			if (!sourceConnection) {
+				vscode.window.showWarningMessage("Schema comparison cancelled: source environment not selected");
+				return;
+			}
+			const targetConnection = await this.pickConnection("Select target environment");
+			if (!targetConnection) {
+				vscode.window.showWarningMessage("Schema comparison cancelled: target environment not selected");
+				return;
+			}
+			if (sourceConnection.id === targetConnection.id) {
+				vscode.window.showErrorMessage("Select two different connections to run a schema comparison");
+				return;
+			}
+
+			const comparisonOptions = await this.applyWorkspaceRules(
+				{
+					mode: "strict",
+					includeSystemObjects: false,
+					ignoreSchemas: ["pg_catalog", "information_schema"],
+					includePrivileges: vscode.workspace
+						.getConfiguration("postgresql-schema-sync")
+						.get<boolean>("compare.includePrivileges", true),
+				},
+				[targetConnection, sourceConnection],
+			);
+
+			await comparisonView.performThreeWayComparison(
+				{ snapshotPath: baselineFile.fsPath },
+				vscode.workspace.asRelativePath(baselineFile),
+				sourceConnection,
+				targetConnection,
+				comparisonOptions,
+			);
+		} catch (error) {
+			Logger.error("Failed to run three-way comparison", error as Error, "CommandHandlers");
+			vscode.window.showErrorMessage(`Failed to run three-way comparison: ${(error as Error).message}`);
+		}
+	}
+
+	/**
+	 * Handles comparing a live connection against a folder of SQL DDL files.
+	 * The folder is the desired state, so the generated migration brings the database in line with it.
+	 * @param folderUri The folder of SQL files to use as the comparison target.
+	 */
+	async handleCompareWithSqlFolder(folderUri?: vscode.Uri): Promise<void> {
+		try {
+			const schemaManager = this.components.schemaManager;
+			if (!schemaManager) {
+				vscode.window.showErrorMessage("Schema comparison services unavailable");
+				return;
+			}
+
+			const folder = folderUri || (await this.pickSqlFolder("Use SQL Folder"));
+			if (!folder) {
+				return;
+			}
+
+			const sourceConnection = await this.pickConnection("Select live connection to compare against the SQL folder");
+			if (!sourceConnection) {
+				vscode.window.showWarningMessage("Schema comparison cancelled: source environment not selected");
+				return;
+			}
+
+			const comparisonOptions = await this.applyWorkspaceRules(
+				{
+					mode: "strict",
+					includeSystemObjects: false,
+					ignoreSchemas: ["pg_catalog", "information_schema"],
+				},
+				[sourceConnection],
+			);
+
+			const folderName = vscode.workspace.asRelativePath(folder);
+			const comparisonResult = await vscode.window.withProgress(
+				{
+					location: vscode.ProgressLocation.Notification,
+					title: `Comparing ${sourceConnection.name} to ${folderName}`,
+					cancellable: false,
+				},
+				() =>
+					schemaManager.compareSchemasDetailed(sourceConnection.id, { sqlDirectory: folder.fsPath }, comparisonOptions),
+			);
+
+			await this.reportComparisonResult(comparisonResult, {
+				sourceConnectionId: sourceConnection.id,
+				targetConnectionId: sourceConnection.id,
+				sourceName: sourceConnection.name,
+				targetName: `SQL folder ${folderName}`,
+			});
+
+			if (comparisonResult.differences.length > 0) {
+				const generate = "Generate Migration";
+				const choice = await vscode.window.showInformationMessage(
+					`Generate a migration that brings ${sourceConnection.name} in line with ${folderName}?`,
+					generate,
+				);
+				if (choice === generate) {
+					await this.handleGenerateMigration(comparisonResult);
+				}
+			}
+		} catch (error) {
+			Logger.error("Failed to compare with SQL folder", error as Error, "CommandHandlers");
+			vscode.window.showErrorMessage(`Failed to compare with SQL folder: ${(error as Error).message}`);
+		}
+	}
+
+	/**
+	 * Handles writing a connection's schema into a folder of SQL DDL files, one file per object.
+	 * Only objects that differ are touched; files that define them are rewritten in place.
+	 * @param folderUri The folder of SQL files to update.
+	 */
+	async handleWriteSqlFolderFromDatabase(folderUri?: vscode.Uri): Promise<void> {
+		try {
+			const schemaManager = this.components.schemaManager;
+			if (!schemaManager) {
+				vscode.window.showErrorMessage("Schema comparison services unavailable");
+				return;
+			}
+
+			const folder = folderUri || (await this.pickSqlFolder("Write to Folder"));
+			if (!folder) {
+				return;
+			}
+
+			const connection = await this.pickConnection("Select connection to write into the SQL folder");
+			if (!connection) {
+				return;
+			}
+
+			const comparisonOptions = await this.applyWorkspaceRules(
+				{
+					mode: "lenient",
+					includeSystemObjects: false,
+					ignoreSchemas: ["pg_catalog", "information_schema"],
+					detectRenames: true,
+				},
+				[connection],
+			);
+
+			const folderName = vscode.workspace.asRelativePath(folder);
+			const comparisonResult = await vscode.window.withProgress(
+				{
+					location: vscode.ProgressLocation.Notification,
+					title: `Comparing ${folderName} to ${connection.name}`,
+					cancellable: false,
+				},
+				() => schemaManager.compareSchemasDetailed({ sqlDirectory: folder.fsPath }, connection.id, comparisonOptions),
+			);
+
+			const differences = comparisonResult.differences || [];
+			if (differences.length === 0) {
+				vscode.window.showInformationMessage(`${folderName} already matches ${connection.name}`);
+				return;
+			}
+
+			const confirm = "Write Files";
+			const choice = await vscode.window.showWarningMessage(
+				`Update ${folderName} with ${differences.length} object change${differences.length === 1 ? "" : "s"} from ${connection.name}?`,
+				{ modal: true, detail: "Files that only define removed objects are deleted." },
+				confirm,
+			);
+			if (choice !== confirm) {
+				return;
+			}
+
+			const result = await vscode.window.withProgress(
+				{
+					location: vscode.ProgressLocation.Notification,
+					title: `Writing ${folderName}`,
+					cancellable: false,
+				},
+				async () => {
+					const databaseObjects = await this.schemaOperations.getDatabaseObjects(connection.id);
+					return this.sqlDirectory.applyDifferences(folder.fsPath, differences, databaseObjects);
+				},
+			);
+
+			const skipped = result.skipped.length > 0 ? `, skipped ${result.skipped.length} unsupported objects` : "";
+			vscode.window.showInformationMessage(
+				`Updated ${result.written.length} files and deleted ${result.deleted.length} in ${folderName}${skipped}`,
+			);
+		} catch (error) {
+			Logger.error("Failed to write SQL folder", error as Error, "CommandHandlers");
+			vscode.window.showErrorMessage(`Failed to write SQL folder: ${(error as Error).message}`);
+		}
+	}
+
+	/**
+	 * Prompts the user to pick a folder of SQL files.
+	 * @param openLabel Label for the dialog's confirm button.
+	 * @returns The selected folder, or undefined when cancelled.
+	 */
+	private async pickSqlFolder(openLabel: string): Promise<vscode.Uri | undefined> {
+		const selection = await vscode.window.showOpenDialog({
+			canSelectFiles: false,
+			canSelectFolders: true,
+			canSelectMany: false,
+			defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+			openLabel,
+		});
+		return selection?.[0];
+	}
+
+	/**
+	 * Merges the workspace comparison rules file, when present, into comparison options.
+	 * @param options Base comparison options.
+	 * @param connections Connections taking part, in priority order for picking an environment override.
+	 * @returns Comparison options with the shared rules applied.
+	 */
+	private async applyWorkspaceRules(
+		options: SchemaComparisonOptions,
+		connections: DatabaseConnection[],
+	): Promise<SchemaComparisonOptions> {
+		const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+		if (!workspaceRoot) {
+			return options;
+		}
+
+		const rules = await this.rulesStore.loadRules(workspaceRoot);
+		if (!rules) {
+			return options;
+		}
+
+		const environment = this.rulesStore.resolveEnvironment(rules, connections);
+		Logger.info("Applying workspace comparison rules", "CommandHandlers", { environment });
+		return this.rulesStore.applyRules(options, rules, environment);
+	}
+
+	/**
+	 * Prompts the user to pick one of the configured connections.
+	 * @param placeholder Quick pick placeholder text.
+	 * @returns The selected connection, or undefined when cancelled.
+	 */
+	private async pickConnection(placeholder: string): Promise<DatabaseConnection | undefined> {
+		const connections = this.components.connectionManager.getConnections();
+		if (connections.length === 0) {
+			vscode.window.showErrorMessage("No database connections configured");
+			return undefined;
+		}
+
+		const selection = await vscode.window.showQuickPick(
+			connections.map((conn) => ({
+				label: conn.name,
+				description: `${conn.host}:${conn.port}/${conn.database}`,
+				connection: conn,
+			})),
+			{ placeHolder: placeholder },
+		);
+		return selection?.connection;
+	}
+
 	/**
 	 * Handles generating a migration script from schema comparison.
 	 * @param comparison The schema comparison result.
@@ -376,23 +921,64 @@ export class CommandHandlers {
 				return;
 			}
 
+			// Three-way comparisons leave out source-only changes and unresolved conflicts
+			const differences: SchemaDifference[] = SchemaComparison.selectMigratedDifferences(comparison.differences || []);
+			if (differences.length === 0) {
+				vscode.window.showInformationMessage("No differences left to migrate");
+				return;
+			}
+
 			if (this.components.migrationPreviewView) {
 				const enhancedScript = await this.migrationManager.generateEnhancedMigrationScript(
 					comparison.sourceConnectionId,
 					comparison.targetConnectionId,
-					comparison.differences || [],
+					differences,
+					{
+						includeRollback: true,
+						ddlProfile: vscode.workspace
+							.getConfiguration("postgresql-schema-sync")
+							.get<MigrationDdlProfile>("migration.ddlProfile", "standard"),
+					},
 				);
+				this.lastGeneratedScript = enhancedScript;
+
+				// Offending rows show in the preview; applying the migration runs the checks again
+				await this.migrationManager.runPreflightChecks(enhancedScript, comparison.sourceConnectionId);
 
 				const migrationScript = {
 					id: enhancedScript.id,
 					sqlScript: enhancedScript.migrationSteps.map((step) => step.sqlScript).join(";\n"),
-					rollbackScript: enhancedScript.rollbackScript.steps.map((step) => step.description).join(";\n") || undefined,
+					rollbackScript:
+						enhancedScript.rollbackScript.steps
+							.map((step) => step.sqlScript || `-- ${step.description}: manual rollback required`)
+							.join("\n") || undefined,
 					description: enhancedScript.description,
 					createdAt: enhancedScript.generatedAt.toISOString(),
 				};
 
-				await this.components.migrationPreviewView.showPreview(migrationScript);
+				// The migration runs against the source, so its locks and table sizes are the source's
+				await this.components.migrationPreviewView.showPreview(
+					migrationScript,
+					this.components.connectionManager.getConnection(comparison.sourceConnectionId),
+					enhancedScript.migrationSteps,
+				);
 				Logger.info("Migration script generated and preview shown with real-time validation", "CommandHandlers");
+
+				const dryRunAction = "Dry Run";
+				const exportAction = "Export for Migration Tool";
+				vscode.window
+					.showInformationMessage(
+						`Migration generated with ${enhancedScript.migrationSteps.length} steps`,
+						dryRunAction,
+						exportAction,
+					)
+					.then((selection) => {
+						if (selection === dryRunAction) {
+							this.handleDryRunMigration(enhancedScript);
+						} else if (selection === exportAction) {
+							this.handleExportMigration(enhancedScript);
+						}
+					});
 			} else {
 				vscode.window.showErrorMessage("Migration preview view not available");
 			}
@@ -402,6 +988,433 @@ export class CommandHandlers {
 		}
 	}
 
+	/**
+	 * Handles exporting a generated migration in the file layout of Flyway, Liquibase, dbmate or sqitch.
+	 * @param script The migration to export; defaults to the most recently generated one.
+	 */
+	async handleExportMigration(script?: EnhancedMigrationScript): Promise<void> {
+		try {
+			const migration = script?.migrationSteps ? script : this.lastGeneratedScript;
+			if (!migration) {
+				vscode.window.showErrorMessage("Generate a migration before exporting it");
+				return;
+			}
+
+			const formatPick = await vscode.window.showQuickPick(
+				(Object.entries(MIGRATION_EXPORT_FORMATS) as Array<[MigrationExportFormat, string]>).map(
+					([format, detail]) => ({ label: format, detail, format }),
+				),
+				{ placeHolder: "Select the migration tool to export for" },
+			);
+			if (!formatPick) {
+				return;
+			}
+
+			const folder = await this.pickSqlFolder(
+				formatPick.format === "sqitch" ? "Export to sqitch Project" : "Export to Migrations Folder",
+			);
+			if (!folder) {
+				return;
+			}
+
+			const result = await this.migrationExporter.exportScript(migration, formatPick.format, folder.fsPath);
+			for (const warning of result.warnings) {
+				Logger.warn(warning, "CommandHandlers");
+			}
+
+			const openFile = "Open";
+			const choice = await vscode.window.showInformationMessage(
+				`Exported ${result.files.length} file(s) for ${formatPick.format}${result.warnings.length > 0 ? `; ${result.warnings.join("; ")}` : ""}`,
+				openFile,
+			);
+			if (choice === openFile) {
+				const document = await vscode.workspace.openTextDocument(vscode.Uri.joinPath(folder, result.files[0]));
+				await vscode.window.showTextDocument(document);
+			}
+		} catch (error) {
+			Logger.error("Failed to export migration", error as Error, "CommandHandlers");
+			vscode.window.showErrorMessage(`Failed to export migration: ${(error as Error).message}`);
+		}
+	}
+
+	/**
+	 * Handles dry-running a generated migration: its steps run against the database it migrates inside a
+	 * transaction that is always rolled back, and the outcome of each step opens in a report.
+	 * @param script The migration to dry-run; defaults to the most recently generated one.
+	 */
+	async handleDryRunMigration(script?: EnhancedMigrationScript): Promise<void> {
+		try {
+			const migration = script?.migrationSteps ? script : this.lastGeneratedScript;
+			if (!migration) {
+				vscode.window.showErrorMessage("Generate a migration before dry-running it");
+				return;
+			}
+
+			// The migration brings the source in line with the target, so it is the source that is tried
+			const connection =
+				this.components.connectionManager.getConnection(migration.sourceSchema.connectionId) ??
+				(await this.pickConnection("Select the database to dry-run the migration against"));
+			if (!connection) {
+				return;
+			}
+
+			const result = await vscode.window.withProgress(
+				{
+					location: vscode.ProgressLocation.Notification,
+					title: `Dry-running ${migration.name} on ${connection.name}`,
+					cancellable: true,
+				},
+				(_progress, token) =>
+					this.migrationManager.executeMigrationScript(migration, connection.id, {
+						dryRun: true,
+						cancellationToken: token,
+					}),
+			);
+
+			if (result.status === "cancelled") {
+				vscode.window.showInformationMessage(
+					`Dry run of ${migration.name} cancelled after ${result.completedSteps} step(s); nothing was changed`,
+				);
+				return;
+			}
+
+			const steps = result.dryRunSteps || [];
+			const skipped = steps.filter((step) => step.status === "skipped");
+			const lines = [
+				`Dry run of ${migration.name} on ${connection.name}`,
+				"Every step ran in one transaction that was rolled back; nothing was changed.",
+				"",
+			];
+			for (const step of steps) {
+				const timing = step.status === "skipped" ? "" : ` ${step.elapsedMs}ms, ${step.rowCount} row(s)`;
+				lines.push(`Step ${step.stepOrder} ${step.status.toUpperCase()}${timing} - ${step.name}`);
+				if (step.skipReason) {
+					lines.push(`    ${step.skipReason}; run it for real to verify it`);
+				}
+				if (step.failure) {
+					lines.push(
+						`    ${step.failure.message}${step.failure.sqlState ? ` (SQLSTATE ${step.failure.sqlState})` : ""}`,
+					);
+					if (step.failure.statement) {
+						lines.push(`    ${step.failure.statement.trim().split("\n").join("\n    ")}`);
+					}
+					const skippedBefore = skipped.filter((other) => other.stepOrder < step.stepOrder);
+					if (skippedBefore.length > 0) {
+						lines.push(`    May depend on skipped step(s) ${skippedBefore.map((other) => other.stepOrder).join(", ")}`);
+					}
+				}
+			}
+			lines.push(
+				"",
+				`${result.completedSteps} passed, ${result.failedSteps} failed, ${skipped.length} skipped in ${result.performanceMetrics.totalExecutionTime}ms`,
+			);
+			const document = await vscode.workspace.openTextDocument({ content: lines.join("\n"), language: "log" });
+			await vscode.window.showTextDocument(document, { preview: true, viewColumn: vscode.ViewColumn.Beside });
+
+			if (result.failedSteps > 0) {
+				vscode.window.showErrorMessage(
+					`Dry run found ${result.failedSteps} failing step(s) in ${migration.name}: ${result.errors?.[0] ?? "unknown error"}`,
+				);
+			} else {
+				vscode.window.showInformationMessage(
+					`Dry run passed: ${result.completedSteps} step(s) applied and rolled back${skipped.length > 0 ? `, ${skipped.length} could not be dry-run` : ""}`,
+				);
+			}
+		} catch (error) {
+			Logger.error("Failed to dry-run migration", error as Error, "CommandHandlers");
+			vscode.window.showErrorMessage(`Failed to dry-run migration: ${(error as Error).message}`);
+		}
+	}
+
+	/**
+	 * Handles promoting a generated migration through an ordered list of databases, such as dev, staging and prod.
+	 * Each stage is checked against the migration's target afterwards, the next stage waits for approval, and a
+	 * failed or drifted stage halts the rollout. Running the command again resumes a paused or halted rollout.
+	 * @param script The migration to roll out; defaults to the most recently generated one.
+	 */
+	async handleRolloutMigration(script?: EnhancedMigrationScript): Promise<void> {
+		try {
+			const migration = script?.migrationSteps ? script : this.lastGeneratedScript;
+			if (!migration) {
+				vscode.window.showErrorMessage("Generate a migration before rolling it out");
+				return;
+			}
+
+			const connectionManager = this.components.connectionManager;
+			let plan = this.activeRollout;
+			if (plan && plan.script.id === migration.id && (plan.status === "paused" || plan.status === "halted")) {
+				const resume = "Resume";
+				const startOver = "Start Over";
+				const next = plan.stages.find((stage) => stage.status !== "completed");
+				const choice = await vscode.window.showInformationMessage(
+					`The rollout of ${migration.name} is ${plan.status} before ${next?.environment.name}`,
+					resume,
+					startOver,
+				);
+				if (!choice) {
+					return;
+				}
+				if (choice === startOver) {
+					plan = undefined;
+				}
+			} else {
+				plan = undefined;
+			}
+
+			if (!plan) {
+				// Every stage must end up matching the database the migration was generated to reach
+				const reference =
+					connectionManager.getConnection(migration.targetSchema.connectionId) ??
+					(await this.pickConnection("Select the database every stage must match after the rollout"));
+				if (!reference) {
+					return;
+				}
+
+				const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+				const rules = workspaceRoot ? await this.rulesStore.loadRules(workspaceRoot) : undefined;
+				const chosen: DatabaseConnection[] = [];
+				while (true) {
+					const remaining = connectionManager
+						.getConnections()
+						.filter((conn) => conn.id !== reference.id && !chosen.some((other) => other.id === conn.id));
+					if (remaining.length === 0) {
+						break;
+					}
+					const selection = await vscode.window.showQuickPick(
+						remaining.map((conn) => ({
+							label: conn.name,
+							description: `${conn.host}:${conn.port}/${conn.database}`,
+							connection: conn,
+						})),
+						{
+							placeHolder:
+								chosen.length === 0
+									? "Select the first database to migrate"
+									: `Select stage ${chosen.length + 1} after ${chosen.map((conn) => conn.name).join(" → ")}, or press Escape to finish`,
+						},
+					);
+					if (!selection) {
+						break;
+					}
+					chosen.push(selection.connection);
+				}
+				if (chosen.length === 0) {
+					return;
+				}
+
+				plan = this.migrationRollout.createPlan(
+					migration,
+					chosen.map((conn, index) => ({
+						connectionId: conn.id,
+						environment: MigrationRollout.describeEnvironment(
+							conn,
+							index + 1,
+							rules ? this.rulesStore.resolveEnvironment(rules, [conn]) : undefined,
+						),
+					})),
+					reference.id,
+				);
+
+				const start = "Start Rollout";
+				const confirmation = await vscode.window.showWarningMessage(
+					`Roll out ${migration.name} to ${plan.stages.map((stage) => stage.environment.name).join(" → ")}?`,
+					{
+						modal: true,
+						detail: `Each stage is compared with ${reference.name} after it runs, and you approve every stage before it starts. A failed or drifted stage halts the rollout.`,
+					},
+					start,
+				);
+				if (confirmation !== start) {
+					return;
+				}
+			}
+			this.activeRollout = plan;
+
+			const rolloutPlan = plan;
+			const reference = connectionManager.getConnection(rolloutPlan.referenceConnectionId);
+			await vscode.window.withProgress(
+				{
+					location: vscode.ProgressLocation.Notification,
+					title: `Rolling out ${migration.name}`,
+					cancellable: true,
+				},
+				(progress, token) =>
+					this.migrationRollout.executeRollout(rolloutPlan, {
+						transactional: this.isTransactionalExecution(),
+						cancellationToken: token,
+						approve: async (next, previous) => {
+							const proceed = "Continue";
+							const choice = await vscode.window.showWarningMessage(
+								`${previous.environment.name} migrated and matches ${reference?.name ?? "the reference"}. Continue to ${next.environment.name}?`,
+								{
+									modal: true,
+									detail:
+										next.environment.type === "production"
+											? `${next.environment.name} is a production database.`
+											: `Stage ${next.order} of ${rolloutPlan.stages.length}.`,
+								},
+								proceed,
+							);
+							return choice === proceed;
+						},
+						getComparisonOptions: async (stage) => {
+							const stageConnection = connectionManager.getConnection(stage.connectionId);
+							return this.applyWorkspaceRules(
+								{
+									mode: "strict",
+									includeSystemObjects: false,
+									ignoreSchemas: ["pg_catalog", "information_schema"],
+									includePrivileges: vscode.workspace
+										.getConfiguration("postgresql-schema-sync")
+										.get<boolean>("compare.includePrivileges", true),
+								},
+								[stageConnection, reference].filter((conn): conn is DatabaseConnection => !!conn),
+							);
+						},
+						onStageUpdate: (stage) => {
+							progress.report({
+								message: `Stage ${stage.order}/${rolloutPlan.stages.length} ${stage.environment.name}: ${stage.status}`,
+							});
+						},
+					}),
+			);
+
+			const lines = [
+				`Rollout of ${migration.name}`,
+				`Reference database: ${reference?.name ?? rolloutPlan.referenceConnectionId}`,
+				"",
+			];
+			for (const stage of rolloutPlan.stages) {
+				const elapsed =
+					stage.startedAt && stage.completedAt
+						? ` in ${stage.completedAt.getTime() - stage.startedAt.getTime()}ms`
+						: "";
+				lines.push(
+					`Stage ${stage.order} ${stage.status.toUpperCase()}${elapsed} - ${stage.environment.name} (${stage.environment.type})`,
+				);
+				if (stage.executionResult) {
+					lines.push(
+						`    ${stage.executionResult.completedSteps} step(s) applied, ${stage.executionResult.failedSteps} failed`,
+					);
+				}
+				for (const difference of stage.drift || []) {
+					lines.push(
+						`    Drift: ${difference.type} ${difference.objectType} ${difference.schema}.${difference.objectName}`,
+					);
+				}
+				if (stage.unrelatedDifferenceCount) {
+					lines.push(`    ${stage.unrelatedDifferenceCount} difference(s) on objects outside the migration`);
+				}
+				if (stage.error) {
+					lines.push(`    ${stage.error}`);
+				}
+			}
+			const document = await vscode.workspace.openTextDocument({ content: lines.join("\n"), language: "log" });
+			await vscode.window.showTextDocument(document, { preview: true, viewColumn: vscode.ViewColumn.Beside });
+
+			if (rolloutPlan.status === "completed") {
+				vscode.window.showInformationMessage(
+					`Rollout of ${migration.name} completed on ${rolloutPlan.stages.length} database(s)`,
+				);
+			} else if (rolloutPlan.stages.some((stage) => stage.status === "cancelled")) {
+				vscode.window.showWarningMessage(
+					`Rollout cancelled: ${rolloutPlan.haltReason}; run Roll Out Migration again to resume ${migration.name}`,
+				);
+			} else if (rolloutPlan.status === "halted") {
+				vscode.window.showErrorMessage(`Rollout halted: ${rolloutPlan.haltReason}`);
+			} else {
+				vscode.window.showInformationMessage(
+					`Rollout paused; run Roll Out Migration again to resume ${migration.name}`,
+				);
+			}
+		} catch (error) {
+			Logger.error("Failed to roll out migration", error as Error, "CommandHandlers");
+			vscode.window.showErrorMessage(`Failed to roll out migration: ${(error as Error).message}`);
+		}
+	}
+
+	/**
+	 * Handles rolling back a migration the ledger records as applied, replaying the rollback SQL stored with it.
+	 * @param item The applied migration's tree item; without it the connection and migration are picked.
+	 */
+	async handleRollbackMigration(item?: { connectionId?: string; objectName?: string }): Promise<void> {
+		try {
+			const ledger = this.components.migrationLedger;
+			if (!ledger) {
+				vscode.window.showErrorMessage("Migration ledger not available");
+				return;
+			}
+
+			const connection = item?.connectionId
+				? this.components.connectionManager.getConnection(item.connectionId)
+				: await this.pickConnection("Select the database to roll a migration back on");
+			if (!connection) {
+				return;
+			}
+
+			const history = await ledger.getHistory(connection.id);
+			let applied = history.find((entry) => entry.scriptId === item?.objectName);
+			if (!applied) {
+				const candidates = history.filter((entry) => entry.outcome === "completed" && entry.rollbackSteps?.length);
+				if (candidates.length === 0) {
+					vscode.window.showInformationMessage(`No applied migration on ${connection.name} can be rolled back`);
+					return;
+				}
+				const pick = await vscode.window.showQuickPick(
+					candidates.map((entry) => ({
+						label: entry.name,
+						description: `${entry.startedAt.toLocaleString()} • ${entry.appliedBy}`,
+						detail: `${entry.rollbackSteps?.length} rollback step(s)`,
+						entry,
+					})),
+					{ placeHolder: "Select the migration to roll back" },
+				);
+				if (!pick) {
+					return;
+				}
+				applied = pick.entry;
+			}
+
+			const irreversible = (applied.rollbackSteps || []).filter((step) => step.irreversibleReason);
+			const rollbackAction = "Roll Back";
+			const confirmation = await vscode.window.showWarningMessage(
+				`Roll back ${applied.name} on ${connection.name}? ${applied.rollbackSteps?.length ?? 0} step(s) run in one transaction.`,
+				{
+					modal: true,
+					detail:
+						irreversible.length > 0
+							? `The structure is restored, but this data is not:\n${irreversible.map((step) => `• ${step.irreversibleReason}`).join("\n")}`
+							: undefined,
+				},
+				rollbackAction,
+			);
+			if (confirmation !== rollbackAction) {
+				return;
+			}
+
+			const result = await vscode.window.withProgress(
+				{
+					location: vscode.ProgressLocation.Notification,
+					title: `Rolling back ${applied.name}`,
+					cancellable: false,
+				},
+				() => this.migrationManager.rollbackAppliedMigration(connection.id, applied.scriptId),
+			);
+			this.components.treeProvider?.refresh();
+
+			if (result.status === "completed") {
+				vscode.window.showInformationMessage(`Rolled back ${applied.name} (${result.completedSteps} step(s))`);
+			} else {
+				vscode.window.showErrorMessage(
+					`Rollback of ${applied.name} failed${result.transactionOutcome === "rolled_back" ? " and was undone" : ""}: ${result.errors?.[0] ?? "unknown error"}`,
+				);
+			}
+		} catch (error) {
+			Logger.error("Failed to roll back migration", error as Error, "CommandHandlers");
+			vscode.window.showErrorMessage(`Failed to roll back migration: ${(error as Error).message}`);
+		}
+	}
+
 	/**
 	 * Handles previewing a migration script.
 	 * @param migration The migration to preview.
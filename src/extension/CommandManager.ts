@@ -2,6 +2,7 @@ import * as vscode from "vscode";
 import { ValidationFramework } from "@/core/ValidationFramework";
 import { DatabaseConnection } from "@/managers/ConnectionManager";
 import { MigrationManagement } from "@/managers/schema/MigrationManagement";
+import { EnhancedMigrationScript } from "@/managers/schema/MigrationTypes";
 import { SchemaOperations } from "@/managers/schema/SchemaOperations";
 import { ExtensionComponents } from "@/utils/ExtensionInitializer";
 import { Logger } from "@/utils/Logger";
@@ -37,7 +38,25 @@ export class CommandManager {
 		this.components = components;
 
 		// Initialize managers
-		const migrationManager = new MigrationManagement(this.components.queryExecutionService!, new ValidationFramework());
+		const migrationManager = new MigrationManagement(
+			this.components.queryExecutionService!,
+			new ValidationFramework(),
+			this.components.migrationLedger,
+			() => {
+				const config = vscode.workspace.getConfiguration("postgresql-schema-sync.migration");
+				const lockTimeoutMs = config.get<number>("lockTimeoutMs", 3000);
+				const statementTimeoutMs = config.get<number>("statementTimeoutMs", 0);
+				if (lockTimeoutMs <= 0 && statementTimeoutMs <= 0) {
+					return undefined;
+				}
+				return {
+					lockTimeoutMs,
+					statementTimeoutMs,
+					retries: config.get<number>("lockRetries", 3),
+					retryDelayMs: config.get<number>("lockRetryDelayMs", 1000),
+				};
+			},
+		);
 		const schemaOperations = new SchemaOperations(this.components.connectionManager);
 
 		// Initialize specialized handlers
@@ -186,11 +205,57 @@ export class CommandManager {
 					this.commandHandlers.handleCompareSchemas(source, target),
 				description: "Compare database schemas",
 			},
+			{
+				command: "postgresql.saveSchemaSnapshot",
+				handler: (connection?: DatabaseConnection) => this.commandHandlers.handleSaveSchemaSnapshot(connection),
+				description: "Save schema snapshot to a file",
+			},
+			{
+				command: "postgresql.compareWithSnapshot",
+				handler: (snapshotUri?: vscode.Uri) => this.commandHandlers.handleCompareWithSnapshot(snapshotUri),
+				description: "Compare schema snapshot with a live connection",
+			},
+			{
+				command: "postgresql.compareThreeWay",
+				handler: (snapshotUri?: vscode.Uri) => this.commandHandlers.handleCompareThreeWay(snapshotUri),
+				description: "Compare two connections against a baseline snapshot",
+			},
+			{
+				command: "postgresql.compareWithSqlFolder",
+				handler: (folderUri?: vscode.Uri) => this.commandHandlers.handleCompareWithSqlFolder(folderUri),
+				description: "Compare a live connection with a folder of SQL DDL files",
+			},
+			{
+				command: "postgresql.writeSqlFolderFromDatabase",
+				handler: (folderUri?: vscode.Uri) => this.commandHandlers.handleWriteSqlFolderFromDatabase(folderUri),
+				description: "Write changed database objects into a folder of SQL DDL files",
+			},
 			{
 				command: "postgresql.generateMigration",
 				handler: (comparison?: any) => this.commandHandlers.handleGenerateMigration(comparison),
 				description: "Generate migration script",
 			},
+			{
+				command: "postgresql.exportMigration",
+				handler: (script?: EnhancedMigrationScript) => this.commandHandlers.handleExportMigration(script),
+				description: "Export the generated migration for Flyway, Liquibase, dbmate or sqitch",
+			},
+			{
+				command: "postgresql.dryRunMigration",
+				handler: (script?: EnhancedMigrationScript) => this.commandHandlers.handleDryRunMigration(script),
+				description: "Run the generated migration in a transaction that is rolled back and report each step",
+			},
+			{
+				command: "postgresql.rolloutMigration",
+				handler: (script?: EnhancedMigrationScript) => this.commandHandlers.handleRolloutMigration(script),
+				description: "Apply the generated migration to an ordered list of databases with an approval gate per stage",
+			},
+			{
+				command: "postgresql.rollbackMigration",
+				handler: (item?: { connectionId?: string; objectName?: string }) =>
+					this.commandHandlers.handleRollbackMigration(item),
+				description: "Roll back a migration recorded as applied in the ledger",
+			},
 			{
 				command: "postgresql.previewMigration",
 				handler: (migration?: any) => this.commandHandlers.handlePreviewMigration(migration),
@@ -291,6 +356,9 @@ export class CommandManager {
 		this.commandRegistry.registerCommand("postgresql.formatCurrentFile", () =>
 			this.sqlFileHandlers.formatCurrentSQLFile(),
 		);
+		this.commandRegistry.registerCommand("postgresql.selectSqlFileConnection", () =>
+			this.sqlFileHandlers.selectConnectionForCurrentSQLFile(),
+		);
 	}
 	/**
 	 * Disposes of the CommandManager and cleans up resources.
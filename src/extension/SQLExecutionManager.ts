@@ -1,6 +1,8 @@
 import * as vscode from "vscode";
+import { QueryParameter, QueryParameters, QueryParameterValue } from "@/services/QueryParameters";
 import { ExtensionComponents } from "@/utils/ExtensionInitializer";
 import { Logger } from "@/utils/Logger";
+import { QueryParameterPrompt } from "@/views/legacy/QueryParameterPrompt";
 
 interface QueryExecutionState {
 	isExecuting: boolean;
@@ -44,10 +46,16 @@ let performanceMetrics: PerformanceMetrics = {
 	averageResponseTime: 0,
 	lastResetTime: Date.now(),
 };
+/**
+ * Execute the statements of a SQL file one by one. Bind parameters of all statements are asked for once,
+ * remembered under sourceKey, and bound by node-postgres.
+ * @param sourceKey - The file's URI, so parameter values are remembered per file
+ */
 export async function executeSQLContent(
 	sqlContent: string,
 	connectionId: string,
 	components?: ExtensionComponents,
+	sourceKey: string = "untitled",
 ): Promise<void> {
 	if (queryExecutionState.isExecuting) {
 		vscode.window.showWarningMessage("A query execution is already in progress. Please wait for it to complete.");
@@ -72,6 +80,27 @@ export async function executeSQLContent(
 			return;
 		}
 
+		// Placeholders are numbered per statement; statements using the same placeholder share its value
+		const statementParameters = statements.map((statement) => QueryParameters.detect(statement));
+		const fileParameters = new Map<string, QueryParameter>();
+		statementParameters.flat().forEach((parameter) => {
+			if (!fileParameters.has(parameter.placeholder)) {
+				fileParameters.set(parameter.placeholder, parameter);
+			}
+		});
+		let parameterValues: Record<string, QueryParameterValue> = {};
+		if (fileParameters.size > 0) {
+			const prompt = components?.queryParameterPrompt ?? new QueryParameterPrompt();
+			const entered = await prompt.promptForValues(
+				sourceKey,
+				Array.from(fileParameters.values()).sort((a, b) => a.style.localeCompare(b.style) || a.index - b.index),
+			);
+			if (!entered) {
+				return;
+			}
+			parameterValues = entered;
+		}
+
 		// Initialize execution state
 		queryExecutionState.isExecuting = true;
 		queryExecutionState.currentStatement = 0;
@@ -88,14 +117,15 @@ export async function executeSQLContent(
 			async (progress, token) => {
 				queryExecutionState.progressItem = progress;
 
+				// The running statement is cancelled on the server by executeQuery; the loop stops before the next one
 				token.onCancellationRequested(() => {
 					Logger.info("SQL execution cancelled by user", "executeSQLContent");
 					queryExecutionState.isExecuting = false;
-					vscode.window.showInformationMessage("SQL execution cancelled");
 				});
 
 				let successCount = 0;
 				let errorCount = 0;
+				let cancelledAt: number | undefined;
 
 				for (let i = 0; i < statements.length; i++) {
 					if (!queryExecutionState.isExecuting) {
@@ -119,13 +149,24 @@ export async function executeSQLContent(
 					const statementStartTime = Date.now();
 
 					try {
-						const result = await queryExecutionService.executeQuery(connectionId, trimmedStatement, {
-							timeout: 30000,
-							maxRows: 1000,
-						});
+						const result = await queryExecutionService.executeQuery(
+							connectionId,
+							trimmedStatement,
+							{
+								timeout: 30000,
+								maxRows: 1000,
+								parameters: statementParameters[i].length > 0 ? parameterValues : undefined,
+							},
+							token,
+						);
 
 						const duration = Date.now() - statementStartTime;
 
+						if (result.cancelled) {
+							cancelledAt = i + 1;
+							break;
+						}
+
 						if (result.error) {
 							errorCount++;
 							queryExecutionState.executionResults.push({
@@ -171,6 +212,23 @@ export async function executeSQLContent(
 					await new Promise((resolve) => setTimeout(resolve, 100));
 				}
 
+				// Cancelled between statements: the next statement never started
+				if (
+					cancelledAt === undefined &&
+					token.isCancellationRequested &&
+					queryExecutionState.currentStatement < statements.length
+				) {
+					cancelledAt = queryExecutionState.currentStatement + 1;
+				}
+				if (cancelledAt !== undefined) {
+					// Each statement commits on its own, so the ones before the cancelled statement stay applied
+					progress.report({ message: "Execution cancelled", increment: 100 });
+					vscode.window.showWarningMessage(
+						`SQL execution cancelled at statement ${cancelledAt} of ${statements.length}: ${successCount} statement(s) completed before it${errorCount > 0 ? `, ${errorCount} failed` : ""}`,
+					);
+					return;
+				}
+
 				progress.report({ message: "Execution completed", increment: 100 });
 				showExecutionResults(successCount, errorCount, statements.length);
 			},
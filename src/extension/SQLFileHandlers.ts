@@ -95,7 +95,7 @@ export class SQLFileHandlers {
 		try {
 			// Import and use SQL execution logic
 			const { executeSQLContent } = await import("./SQLExecutionManager");
-			await executeSQLContent(sqlContent, targetConnection.id, this.components);
+			await executeSQLContent(sqlContent, targetConnection.id, this.components, document.uri.toString());
 			Logger.info("SQL file executed successfully", "SQLFileHandlers", {
 				fileName: document.fileName,
 				connectionId: targetConnection.id,
@@ -152,6 +152,61 @@ export class SQLFileHandlers {
 		}
 	}
 
+	/**
+	 * Chooses the connection whose catalog drives completion, hover and diagnostics for the active SQL file.
+	 */
+	async selectConnectionForCurrentSQLFile(): Promise<void> {
+		const activeEditor = vscode.window.activeTextEditor;
+		if (
+			!activeEditor ||
+			!vscode.languages.match([{ language: "sql" }, { language: "postgresql" }], activeEditor.document)
+		) {
+			vscode.window.showErrorMessage("Open a SQL file to select its connection");
+			return;
+		}
+
+		const provider = this.components.sqlLanguageProvider;
+		if (!provider) {
+			vscode.window.showErrorMessage("SQL language support is not available");
+			return;
+		}
+
+		const connections = this.components.connectionManager.getConnections();
+		if (connections.length === 0) {
+			vscode.window.showErrorMessage("No database connections available. Please add a connection first.");
+			return;
+		}
+
+		const currentConnectionId = provider.getDocumentConnectionId(activeEditor.document);
+		const selected = await vscode.window.showQuickPick(
+			connections.map((conn) => ({
+				label: conn.name,
+				description: conn.id === currentConnectionId ? "current" : undefined,
+				detail: `${conn.host}:${conn.port}/${conn.database}`,
+				connection: conn,
+			})),
+			{ placeHolder: "Select the connection to check this SQL file against" },
+		);
+		if (!selected) {
+			return;
+		}
+
+		try {
+			await vscode.window.withProgress(
+				{ location: vscode.ProgressLocation.Window, title: `Loading catalog of ${selected.connection.name}` },
+				() => provider.setDocumentConnection(activeEditor.document, selected.connection.id),
+			);
+			Logger.info("SQL file connection selected", "SQLFileHandlers", {
+				connectionId: selected.connection.id,
+			});
+		} catch (error) {
+			Logger.error("Failed to load SQL catalog", error as Error, "SQLFileHandlers");
+			vscode.window.showErrorMessage(
+				`Failed to load the catalog of ${selected.connection.name}: ${(error as Error).message}`,
+			);
+		}
+	}
+
 	/**
 	 * Selects a database connection from available connections.
 	 * @returns The selected connection or undefined if cancelled.
@@ -0,0 +1,690 @@
+import {
+	DatabaseObject,
+	ForeignTableColumnDefinition,
+	ObjectType,
+	PrivilegeGrant,
+	TableColumnDefinition,
+	TableConstraintDefinition,
+	ViewColumnDefinition,
+} from "./SchemaOperations";
+
+export type AttributeChangeKind =
+	| "owner"
+	| "comment"
+	| "column_added"
+	| "column_dropped"
+	| "column_type"
+	| "column_nullability"
+	| "column_default"
+	| "column_identity"
+	| "column_generated"
+	| "column_collation"
+	| "constraint_added"
+	| "constraint_dropped"
+	| "constraint_changed"
+	| "table_tablespace"
+	| "table_storage_parameters"
+	| "table_partition_key"
+	| "table_row_security"
+	| "table_force_row_security"
+	| "index_method"
+	| "index_unique"
+	| "index_columns"
+	| "index_include_columns"
+	| "index_predicate"
+	| "function_return_type"
+	| "function_language"
+	| "function_volatility"
+	| "function_security"
+	| "function_strict"
+	| "function_parallel"
+	| "function_body"
+	| "view_columns"
+	| "view_query"
+	| "trigger_timing"
+	| "trigger_events"
+	| "trigger_level"
+	| "trigger_function"
+	| "trigger_enabled"
+	| "sequence_data_type"
+	| "sequence_increment"
+	| "sequence_min_value"
+	| "sequence_max_value"
+	| "sequence_start"
+	| "sequence_cache"
+	| "sequence_cycle"
+	| "aggregate_transition_function"
+	| "aggregate_state_type"
+	| "aggregate_final_function"
+	| "aggregate_combine_function"
+	| "aggregate_initial_condition"
+	| "aggregate_sort_operator"
+	| "operator_function"
+	| "operator_result_type"
+	| "operator_commutator"
+	| "operator_negator"
+	| "operator_restrict"
+	| "operator_join"
+	| "operator_hashes"
+	| "operator_merges"
+	| "domain_base_type"
+	| "domain_not_null"
+	| "domain_default"
+	| "domain_collation"
+	| "enum_values"
+	| "collation_provider"
+	| "collation_locale"
+	| "collation_deterministic"
+	| "extension_version"
+	| "policy_command"
+	| "policy_permissive"
+	| "policy_roles"
+	| "policy_using"
+	| "policy_with_check"
+	| "rule_definition"
+	| "rule_enabled"
+	| "foreign_table_server"
+	| "foreign_table_options"
+	| "foreign_table_columns"
+	| "foreign_server_wrapper"
+	| "foreign_server_type"
+	| "foreign_server_version"
+	| "foreign_server_options"
+	| "publication_all_tables"
+	| "publication_tables"
+	| "publication_operations"
+	| "subscription_publications"
+	| "subscription_enabled"
+	| "event_trigger_event"
+	| "event_trigger_tags"
+	| "event_trigger_function"
+	| "event_trigger_enabled"
+	| "privilege_granted"
+	| "privilege_revoked"
+	| "definition";
+
+/**
+ * Attribute changes that describe ACL entries rather than the object's structure
+ */
+export const PRIVILEGE_ATTRIBUTE_KINDS: AttributeChangeKind[] = ["privilege_granted", "privilege_revoked"];
+
+export type AttributeValue = string | number | boolean | string[] | null | undefined;
+
+/**
+ * A single catalog-level change between the source and target version of an object
+ */
+export interface AttributeChange {
+	kind: AttributeChangeKind;
+	/** Column or constraint the change applies to, when it is not the object itself */
+	subObject?: string;
+	sourceValue?: AttributeValue;
+	targetValue?: AttributeValue;
+	/** Target-side column for column_* changes */
+	column?: TableColumnDefinition;
+	/** Source-side column for column_* changes, so rollbacks can restore a dropped or altered column */
+	sourceColumn?: TableColumnDefinition;
+	/** Target-side table or domain constraint for constraint_added and constraint_changed */
+	constraint?: TableConstraintDefinition;
+	/** ACL entry for privilege_granted and privilege_revoked */
+	privilege?: PrivilegeGrant;
+	description: string;
+}
+
+/**
+ * AttributeDiffer - Builds typed attribute-level changes for objects present on both sides
+ * Works from the catalog metadata in DatabaseObject.properties rather than definition text
+ */
+export class AttributeDiffer {
+	/**
+	 * List every attribute that differs between two versions of the same object.
+	 * columnRenames maps source column names to target names so renamed columns are compared, not dropped and added.
+	 */
+	diff(
+		source: DatabaseObject,
+		target: DatabaseObject,
+		columnRenames: Map<string, string> = new Map(),
+	): AttributeChange[] {
+		const changes: AttributeChange[] = [];
+
+		if (source.owner !== target.owner) {
+			changes.push(this.valueChange("owner", source.owner, target.owner, "Owner"));
+		}
+		if ((source.properties?.description || null) !== (target.properties?.description || null)) {
+			changes.push(
+				this.valueChange("comment", source.properties?.description, target.properties?.description, "Comment"),
+			);
+		}
+
+		// Objects read from SQL files keep their statement text instead of catalog properties
+		if (source.properties?.definitionOnly || target.properties?.definitionOnly) {
+			changes.push(...this.diffDefinitions(source, target));
+			return changes;
+		}
+
+		switch (source.type) {
+			case ObjectType.Table:
+				changes.push(...this.diffTable(source, target, columnRenames));
+				break;
+			case ObjectType.Index:
+				changes.push(...this.diffIndex(source, target));
+				break;
+			case ObjectType.Function:
+			case ObjectType.Procedure:
+				changes.push(...this.diffFunction(source, target));
+				break;
+			case ObjectType.View:
+				changes.push(...this.diffView(source, target));
+				break;
+			case ObjectType.MaterializedView:
+				changes.push(...this.diffMaterializedView(source, target));
+				break;
+			case ObjectType.Trigger:
+				changes.push(...this.diffTrigger(source, target));
+				break;
+			case ObjectType.Sequence:
+				changes.push(...this.diffSequence(source, target));
+				break;
+			case ObjectType.Aggregate:
+				changes.push(...this.diffAggregate(source, target));
+				break;
+			case ObjectType.Operator:
+				changes.push(...this.diffOperator(source, target));
+				break;
+			case ObjectType.Domain:
+				changes.push(...this.diffDomain(source, target));
+				break;
+			case ObjectType.Enum:
+				changes.push(...this.compareProperties(source, target, [["enum_values", "values", "Enum values"]]));
+				break;
+			case ObjectType.Collation:
+				changes.push(
+					...this.compareProperties(source, target, [
+						["collation_provider", "provider", "Provider"],
+						["collation_locale", "locale", "Locale"],
+						["collation_deterministic", "deterministic", "Deterministic"],
+					]),
+				);
+				break;
+			case ObjectType.Extension:
+				changes.push(...this.compareProperties(source, target, [["extension_version", "version", "Version"]]));
+				break;
+			case ObjectType.Policy:
+				changes.push(...this.diffPolicy(source, target));
+				break;
+			case ObjectType.Rule:
+				changes.push(...this.diffRule(source, target));
+				break;
+			case ObjectType.ForeignTable:
+				changes.push(...this.diffForeignTable(source, target));
+				break;
+			case ObjectType.ForeignServer:
+				changes.push(
+					...this.compareProperties(source, target, [
+						["foreign_server_wrapper", "wrapperName", "Foreign data wrapper"],
+						["foreign_server_type", "serverType", "Server type"],
+						["foreign_server_version", "version", "Server version"],
+						["foreign_server_options", "options", "Options"],
+					]),
+				);
+				break;
+			case ObjectType.Publication:
+				changes.push(
+					...this.compareProperties(source, target, [
+						["publication_all_tables", "allTables", "FOR ALL TABLES"],
+						["publication_tables", "tables", "Published tables"],
+						["publication_operations", "operations", "Published operations"],
+					]),
+				);
+				break;
+			case ObjectType.Subscription:
+				changes.push(
+					...this.compareProperties(source, target, [
+						["subscription_publications", "publications", "Publications"],
+						["subscription_enabled", "enabled", "Enabled"],
+					]),
+				);
+				break;
+			case ObjectType.EventTrigger:
+				changes.push(
+					...this.compareProperties(source, target, [
+						["event_trigger_event", "event", "Event"],
+						["event_trigger_tags", "tags", "Command tags"],
+						["event_trigger_function", "functionName", "Trigger function"],
+						["event_trigger_enabled", "enabled", "Enabled"],
+					]),
+				);
+				break;
+		}
+
+		changes.push(...this.diffPrivileges(source.properties?.privileges || [], target.properties?.privileges || []));
+
+		return changes;
+	}
+
+	/**
+	 * List the ACL entries to revoke and grant so the source privileges match the target.
+	 * A change of grant option shows up as a revoke of the old entry plus a grant of the new one.
+	 */
+	diffPrivileges(sourcePrivileges: PrivilegeGrant[], targetPrivileges: PrivilegeGrant[]): AttributeChange[] {
+		const key = (grant: PrivilegeGrant) =>
+			`${grant.column || ""}|${grant.grantee}|${grant.privilege}|${grant.grantable ? "grantable" : ""}`;
+		const describe = (grant: PrivilegeGrant) =>
+			`${grant.privilege}${grant.column ? ` (${grant.column})` : ""} ${grant.grantee}${grant.grantable ? " WITH GRANT OPTION" : ""}`;
+		const sourceKeys = new Set(sourcePrivileges.map(key));
+		const targetKeys = new Set(targetPrivileges.map(key));
+
+		return [
+			...sourcePrivileges
+				.filter((grant) => !targetKeys.has(key(grant)))
+				.map(
+					(grant): AttributeChange => ({
+						kind: "privilege_revoked",
+						subObject: grant.column,
+						sourceValue: grant.grantee,
+						privilege: grant,
+						description: `Privilege revoked: ${describe(grant)}`,
+					}),
+				),
+			...targetPrivileges
+				.filter((grant) => !sourceKeys.has(key(grant)))
+				.map(
+					(grant): AttributeChange => ({
+						kind: "privilege_granted",
+						subObject: grant.column,
+						targetValue: grant.grantee,
+						privilege: grant,
+						description: `Privilege granted: ${describe(grant)}`,
+					}),
+				),
+		];
+	}
+
+	/**
+	 * Privileges PostgreSQL gives a newly created object before any GRANT runs, excluding the owner's own
+	 */
+	builtInPrivileges(type: string): PrivilegeGrant[] {
+		switch (type) {
+			case ObjectType.Function:
+			case ObjectType.Procedure:
+			case ObjectType.Aggregate:
+				return [{ grantee: "PUBLIC", privilege: "EXECUTE", grantable: false }];
+			case ObjectType.Type:
+			case ObjectType.Domain:
+			case ObjectType.Enum:
+				return [{ grantee: "PUBLIC", privilege: "USAGE", grantable: false }];
+			default:
+				return [];
+		}
+	}
+
+	private diffTable(
+		source: DatabaseObject,
+		target: DatabaseObject,
+		columnRenames: Map<string, string>,
+	): AttributeChange[] {
+		const changes: AttributeChange[] = [];
+		const sourceColumns: TableColumnDefinition[] = source.properties?.columns || [];
+		const targetColumns: TableColumnDefinition[] = target.properties?.columns || [];
+		const targetName = (col: TableColumnDefinition) => columnRenames.get(col.name) || col.name;
+		const sourceColumnMap = new Map(sourceColumns.map((col) => [targetName(col), col]));
+		const targetColumnMap = new Map(targetColumns.map((col) => [col.name, col]));
+
+		for (const sourceCol of sourceColumns) {
+			const targetCol = targetColumnMap.get(targetName(sourceCol));
+			if (!targetCol) {
+				changes.push({
+					kind: "column_dropped",
+					subObject: sourceCol.name,
+					sourceValue: sourceCol.dataType,
+					sourceColumn: sourceCol,
+					description: `Column ${sourceCol.name} dropped`,
+				});
+				continue;
+			}
+			changes.push(...this.diffColumn(sourceCol, targetCol));
+		}
+		for (const targetCol of targetColumns) {
+			if (!sourceColumnMap.has(targetCol.name)) {
+				changes.push({
+					kind: "column_added",
+					subObject: targetCol.name,
+					targetValue: targetCol.dataType,
+					column: targetCol,
+					description: `Column ${targetCol.name} added (${targetCol.dataType})`,
+				});
+			}
+		}
+
+		changes.push(...this.diffConstraints(source, target));
+
+		changes.push(
+			...this.compareProperties(source, target, [
+				["table_tablespace", "tablespace", "Tablespace"],
+				["table_storage_parameters", "storageParameters", "Storage parameters"],
+				["table_partition_key", "partitionKey", "Partition key"],
+				["table_row_security", "rowSecurity", "Row level security"],
+				["table_force_row_security", "forceRowSecurity", "Forced row level security"],
+			]),
+		);
+
+		return changes;
+	}
+
+	/**
+	 * Compare named constraints of a table or domain
+	 */
+	private diffConstraints(source: DatabaseObject, target: DatabaseObject): AttributeChange[] {
+		const changes: AttributeChange[] = [];
+		const sourceConstraints: TableConstraintDefinition[] = source.properties?.constraints || [];
+		const targetConstraints: TableConstraintDefinition[] = target.properties?.constraints || [];
+		const targetConstraintMap = new Map(targetConstraints.map((con) => [con.name, con]));
+		const sourceConstraintNames = new Set(sourceConstraints.map((con) => con.name));
+
+		for (const sourceCon of sourceConstraints) {
+			const targetCon = targetConstraintMap.get(sourceCon.name);
+			if (!targetCon) {
+				changes.push({
+					kind: "constraint_dropped",
+					subObject: sourceCon.name,
+					sourceValue: sourceCon.definition,
+					description: `Constraint ${sourceCon.name} dropped`,
+				});
+			} else if (sourceCon.definition !== targetCon.definition) {
+				changes.push({
+					kind: "constraint_changed",
+					subObject: sourceCon.name,
+					sourceValue: sourceCon.definition,
+					targetValue: targetCon.definition,
+					constraint: targetCon,
+					description: `Constraint ${sourceCon.name} changed: ${sourceCon.definition} -> ${targetCon.definition}`,
+				});
+			}
+		}
+		for (const targetCon of targetConstraints) {
+			if (!sourceConstraintNames.has(targetCon.name)) {
+				changes.push({
+					kind: "constraint_added",
+					subObject: targetCon.name,
+					targetValue: targetCon.definition,
+					constraint: targetCon,
+					description: `Constraint ${targetCon.name} added: ${targetCon.definition}`,
+				});
+			}
+		}
+
+		return changes;
+	}
+
+	private diffColumn(sourceCol: TableColumnDefinition, targetCol: TableColumnDefinition): AttributeChange[] {
+		const changes: AttributeChange[] = [];
+		const columnChange = (
+			kind: AttributeChangeKind,
+			sourceValue: AttributeValue,
+			targetValue: AttributeValue,
+			label: string,
+		): AttributeChange => ({
+			...this.valueChange(kind, sourceValue, targetValue, `Column ${targetCol.name} ${label}`),
+			subObject: targetCol.name,
+			column: targetCol,
+			sourceColumn: sourceCol,
+		});
+
+		if (sourceCol.dataType !== targetCol.dataType) {
+			changes.push(columnChange("column_type", sourceCol.dataType, targetCol.dataType, "type"));
+		}
+		if (sourceCol.notNull !== targetCol.notNull) {
+			changes.push(columnChange("column_nullability", sourceCol.notNull, targetCol.notNull, "NOT NULL"));
+		}
+		if ((sourceCol.generated || null) !== (targetCol.generated || null)) {
+			changes.push(columnChange("column_generated", sourceCol.generated, targetCol.generated, "generation"));
+		} else if ((sourceCol.defaultValue || null) !== (targetCol.defaultValue || null)) {
+			changes.push(
+				columnChange(
+					"column_default",
+					sourceCol.defaultValue,
+					targetCol.defaultValue,
+					targetCol.generated ? "generation expression" : "default",
+				),
+			);
+		}
+		if ((sourceCol.identity || null) !== (targetCol.identity || null)) {
+			changes.push(columnChange("column_identity", sourceCol.identity, targetCol.identity, "identity"));
+		}
+		if ((sourceCol.collation || null) !== (targetCol.collation || null)) {
+			changes.push(columnChange("column_collation", sourceCol.collation, targetCol.collation, "collation"));
+		}
+
+		return changes;
+	}
+
+	private diffIndex(source: DatabaseObject, target: DatabaseObject): AttributeChange[] {
+		return this.compareProperties(source, target, [
+			["index_method", "method", "Index method"],
+			["index_unique", "isUnique", "Uniqueness"],
+			["index_columns", "keyColumns", "Key columns"],
+			["index_include_columns", "includeColumns", "INCLUDE columns"],
+			["index_predicate", "predicate", "Partial index predicate"],
+		]);
+	}
+
+	private diffFunction(source: DatabaseObject, target: DatabaseObject): AttributeChange[] {
+		const changes = this.compareProperties(source, target, [
+			["function_return_type", "returnType", "Return type"],
+			["function_language", "language", "Language"],
+			["function_volatility", "volatility", "Volatility"],
+			["function_security", "securityDefiner", "SECURITY DEFINER"],
+			["function_strict", "strict", "STRICT"],
+			["function_parallel", "parallel", "Parallel safety"],
+		]);
+		if (source.properties?.bodyHash !== target.properties?.bodyHash) {
+			changes.push({
+				kind: "function_body",
+				description: `${source.type === ObjectType.Procedure ? "Procedure" : "Function"} body changed`,
+			});
+		}
+		return changes;
+	}
+
+	/**
+	 * Compare two definitions as text, ignoring formatting and OR REPLACE.
+	 * An extension without a pinned version matches any installed version.
+	 */
+	diffDefinitions(source: DatabaseObject, target: DatabaseObject): AttributeChange[] {
+		const normalize = (obj: DatabaseObject, other: DatabaseObject) => {
+			let definition = this.normalizeQuery(obj.definition).replace(/^CREATE\s+OR\s+REPLACE\s+/i, "CREATE ");
+			if (obj.type === ObjectType.Extension && other.properties?.definitionOnly) {
+				definition = definition.replace(/\s+VERSION\s+'(?:[^']|'')*'/i, "");
+			}
+			return definition;
+		};
+
+		if (normalize(source, target) === normalize(target, source)) {
+			return [];
+		}
+		return [{ kind: "definition", description: "Definition changed" }];
+	}
+
+	private diffView(source: DatabaseObject, target: DatabaseObject): AttributeChange[] {
+		const changes: AttributeChange[] = [];
+		const describe = (columns: ViewColumnDefinition[] = []) => columns.map((col) => `${col.name} ${col.dataType}`);
+		const sourceColumns = describe(source.properties?.columns);
+		const targetColumns = describe(target.properties?.columns);
+
+		if (!this.valuesEqual(sourceColumns, targetColumns)) {
+			changes.push(this.valueChange("view_columns", sourceColumns, targetColumns, "View columns"));
+		}
+		if (this.normalizeQuery(source.definition) !== this.normalizeQuery(target.definition)) {
+			changes.push({ kind: "view_query", description: "View query changed" });
+		}
+		return changes;
+	}
+
+	private diffMaterializedView(source: DatabaseObject, target: DatabaseObject): AttributeChange[] {
+		const changes: AttributeChange[] = [];
+		const describe = (columns: ViewColumnDefinition[] = []) => columns.map((col) => `${col.name} ${col.dataType}`);
+		const sourceColumns = describe(source.properties?.columns);
+		const targetColumns = describe(target.properties?.columns);
+
+		if (!this.valuesEqual(sourceColumns, targetColumns)) {
+			changes.push(this.valueChange("view_columns", sourceColumns, targetColumns, "View columns"));
+		}
+		if (this.normalizeQuery(source.properties?.query) !== this.normalizeQuery(target.properties?.query)) {
+			changes.push({ kind: "view_query", description: "Materialized view query changed" });
+		}
+		changes.push(
+			...this.compareProperties(source, target, [
+				["table_tablespace", "tablespace", "Tablespace"],
+				["table_storage_parameters", "storageParameters", "Storage parameters"],
+			]),
+		);
+		return changes;
+	}
+
+	private diffTrigger(source: DatabaseObject, target: DatabaseObject): AttributeChange[] {
+		return this.compareProperties(source, target, [
+			["trigger_timing", "timing", "Timing"],
+			["trigger_events", "events", "Events"],
+			["trigger_level", "level", "Level"],
+			["trigger_function", "functionName", "Trigger function"],
+			["trigger_enabled", "enabled", "Enabled"],
+		]);
+	}
+
+	private diffSequence(source: DatabaseObject, target: DatabaseObject): AttributeChange[] {
+		return this.compareProperties(source, target, [
+			["sequence_data_type", "dataType", "Data type"],
+			["sequence_increment", "increment", "Increment"],
+			["sequence_min_value", "minValue", "Minimum value"],
+			["sequence_max_value", "maxValue", "Maximum value"],
+			["sequence_start", "startValue", "Start value"],
+			["sequence_cache", "cacheSize", "Cache size"],
+			["sequence_cycle", "cycle", "CYCLE"],
+		]);
+	}
+
+	private diffAggregate(source: DatabaseObject, target: DatabaseObject): AttributeChange[] {
+		return this.compareProperties(source, target, [
+			["aggregate_transition_function", "transitionFunction", "Transition function"],
+			["aggregate_state_type", "stateType", "State type"],
+			["aggregate_final_function", "finalFunction", "Final function"],
+			["aggregate_combine_function", "combineFunction", "Combine function"],
+			["aggregate_initial_condition", "initialCondition", "Initial condition"],
+			["aggregate_sort_operator", "sortOperator", "Sort operator"],
+		]);
+	}
+
+	private diffOperator(source: DatabaseObject, target: DatabaseObject): AttributeChange[] {
+		return this.compareProperties(source, target, [
+			["operator_function", "functionName", "Operator function"],
+			["operator_result_type", "resultType", "Result type"],
+			["operator_commutator", "commutator", "Commutator"],
+			["operator_negator", "negator", "Negator"],
+			["operator_restrict", "restrictFunction", "Restriction estimator"],
+			["operator_join", "joinFunction", "Join estimator"],
+			["operator_hashes", "hashes", "HASHES"],
+			["operator_merges", "merges", "MERGES"],
+		]);
+	}
+
+	private diffDomain(source: DatabaseObject, target: DatabaseObject): AttributeChange[] {
+		return [
+			...this.compareProperties(source, target, [
+				["domain_base_type", "baseType", "Base type"],
+				["domain_not_null", "notNull", "NOT NULL"],
+				["domain_default", "defaultValue", "Default"],
+				["domain_collation", "collation", "Collation"],
+			]),
+			...this.diffConstraints(source, target),
+		];
+	}
+
+	private diffPolicy(source: DatabaseObject, target: DatabaseObject): AttributeChange[] {
+		return this.compareProperties(source, target, [
+			["policy_command", "command", "Command"],
+			["policy_permissive", "permissive", "Permissive"],
+			["policy_roles", "roles", "Roles"],
+			["policy_using", "usingExpression", "USING expression"],
+			["policy_with_check", "checkExpression", "WITH CHECK expression"],
+		]);
+	}
+
+	private diffRule(source: DatabaseObject, target: DatabaseObject): AttributeChange[] {
+		const changes = this.compareProperties(source, target, [["rule_enabled", "enabled", "Enabled"]]);
+		if (this.normalizeQuery(source.definition) !== this.normalizeQuery(target.definition)) {
+			changes.push({ kind: "rule_definition", description: "Rule definition changed" });
+		}
+		return changes;
+	}
+
+	private diffForeignTable(source: DatabaseObject, target: DatabaseObject): AttributeChange[] {
+		const describe = (columns: ForeignTableColumnDefinition[] = []) =>
+			columns.map(
+				(col) =>
+					`${col.name} ${col.dataType}${col.notNull ? " NOT NULL" : ""}${col.options?.length ? ` OPTIONS (${col.options.join(", ")})` : ""}`,
+			);
+		const changes = this.compareProperties(source, target, [
+			["foreign_table_server", "serverName", "Server"],
+			["foreign_table_options", "options", "Options"],
+		]);
+		const sourceColumns = describe(source.properties?.columns);
+		const targetColumns = describe(target.properties?.columns);
+		if (!this.valuesEqual(sourceColumns, targetColumns)) {
+			changes.push(this.valueChange("foreign_table_columns", sourceColumns, targetColumns, "Columns"));
+		}
+		return changes;
+	}
+
+	/**
+	 * Compare a list of scalar or array properties, emitting a change for each one that differs
+	 */
+	private compareProperties(
+		source: DatabaseObject,
+		target: DatabaseObject,
+		properties: Array<[AttributeChangeKind, string, string]>,
+	): AttributeChange[] {
+		const changes: AttributeChange[] = [];
+		for (const [kind, property, label] of properties) {
+			const sourceValue = source.properties?.[property];
+			const targetValue = target.properties?.[property];
+			if (!this.valuesEqual(sourceValue, targetValue)) {
+				changes.push(this.valueChange(kind, sourceValue, targetValue, label));
+			}
+		}
+		return changes;
+	}
+
+	private valueChange(
+		kind: AttributeChangeKind,
+		sourceValue: AttributeValue,
+		targetValue: AttributeValue,
+		label: string,
+	): AttributeChange {
+		return {
+			kind,
+			sourceValue,
+			targetValue,
+			description: `${label}: ${this.formatValue(sourceValue)} -> ${this.formatValue(targetValue)}`,
+		};
+	}
+
+	private valuesEqual(a: AttributeValue, b: AttributeValue): boolean {
+		if (Array.isArray(a) || Array.isArray(b)) {
+			return JSON.stringify(a || []) === JSON.stringify(b || []);
+		}
+		return (a ?? null) === (b ?? null);
+	}
+
+	private formatValue(value: AttributeValue): string {
+		if (value === undefined || value === null || value === "") {
+			return "(none)";
+		}
+		if (Array.isArray(value)) {
+			return value.length > 0 ? value.join(", ") : "(none)";
+		}
+		return String(value);
+	}
+
+	private normalizeQuery(definition: string): string {
+		return (definition || "").replace(/\s+/g, " ").replace(/;\s*$/, "").trim();
+	}
+}
@@ -0,0 +1,296 @@
+import { Logger } from "@/utils/Logger";
+import { AttributeChangeKind, PRIVILEGE_ATTRIBUTE_KINDS } from "./AttributeDiffer";
+import { SchemaComparisonOptions } from "./SchemaComparison";
+import { SchemaMapper, SchemaMapping } from "./SchemaMapper";
+import { DatabaseObject } from "./SchemaOperations";
+
+/**
+ * Name of the workspace rules file, looked up at the workspace root
+ */
+export const COMPARISON_RULES_FILE_NAME = ".pgschemasync.json";
+
+export type IgnorableAttribute = "owner" | "comment" | "grants" | "tablespace" | "columnOrder" | "size";
+
+/**
+ * Attribute changes dropped from Modified differences when the attribute is ignored.
+ * columnOrder and size never surface as attribute changes; they only affect objectsDiffer.
+ */
+export const IGNORED_ATTRIBUTE_KINDS: Record<IgnorableAttribute, AttributeChangeKind[]> = {
+	owner: ["owner"],
+	comment: ["comment"],
+	grants: PRIVILEGE_ATTRIBUTE_KINDS,
+	tablespace: ["table_tablespace"],
+	columnOrder: [],
+	size: [],
+};
+
+/**
+ * Object name pattern. Globs (`tmp_*`, `*_backup`) match the object name, or `schema.name`
+ * when the pattern contains a dot. Patterns written as `/regex/flags` match either form.
+ */
+export type ObjectIgnorePattern = string | { pattern: string; objectTypes?: string[] };
+
+export interface ComparisonIgnoreRules {
+	objects?: ObjectIgnorePattern[];
+	schemas?: string[];
+	objectTypes?: string[];
+	attributes?: IgnorableAttribute[];
+}
+
+export interface ComparisonEnvironmentRules {
+	/** Connection names or IDs that belong to this environment */
+	connections?: string[];
+	mode?: "strict" | "lenient";
+	ignore?: ComparisonIgnoreRules;
+	/** Replaces the base schema mapping for this environment */
+	schemaMapping?: SchemaMapping;
+}
+
+export interface ComparisonRulesFile {
+	version?: number;
+	mode?: "strict" | "lenient";
+	includeSystemObjects?: boolean;
+	detectRenames?: boolean;
+	includePrivileges?: boolean;
+	ignore?: ComparisonIgnoreRules;
+	schemaMapping?: SchemaMapping;
+	environments?: Record<string, ComparisonEnvironmentRules>;
+}
+
+const IGNORABLE_ATTRIBUTES = Object.keys(IGNORED_ATTRIBUTE_KINDS) as IgnorableAttribute[];
+
+/**
+ * ComparisonRulesStore - Loads the shared workspace comparison rules and merges them into comparison options
+ * The rules file lives in source control so every developer gets identical comparison results
+ */
+export class ComparisonRulesStore {
+	/**
+	 * Load the rules file from a workspace directory
+	 * @returns The parsed rules, or undefined when the workspace has no rules file
+	 */
+	async loadRules(workspaceRoot: string): Promise<ComparisonRulesFile | undefined> {
+		const fs = require("fs").promises;
+		const path = require("path");
+		const filePath = path.join(workspaceRoot, COMPARISON_RULES_FILE_NAME);
+
+		let content: string;
+		try {
+			content = await fs.readFile(filePath, "utf8");
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+				return undefined;
+			}
+			throw error;
+		}
+
+		let rules: ComparisonRulesFile;
+		try {
+			rules = JSON.parse(content);
+		} catch (error) {
+			throw new Error(`${COMPARISON_RULES_FILE_NAME} is not valid JSON: ${(error as Error).message}`);
+		}
+
+		this.validateRules(rules);
+		Logger.info("Comparison rules loaded", "loadRules", {
+			filePath,
+			environments: Object.keys(rules.environments || {}),
+		});
+		return rules;
+	}
+
+	/**
+	 * Find the environment a set of connections belongs to; the first connection that matches wins
+	 */
+	resolveEnvironment(rules: ComparisonRulesFile, connections: Array<{ id: string; name: string }>): string | undefined {
+		const environments = Object.entries(rules.environments || {});
+		for (const connection of connections) {
+			const match = environments.find(([, env]) =>
+				(env.connections || []).some((entry) => entry === connection.id || entry === connection.name),
+			);
+			if (match) {
+				return match[0];
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Merge the base rules and one environment's overrides into comparison options.
+	 * Ignore lists accumulate; scalar settings from the environment replace the base value.
+	 */
+	applyRules(
+		options: SchemaComparisonOptions,
+		rules: ComparisonRulesFile,
+		environment?: string,
+	): SchemaComparisonOptions {
+		const environmentRules = environment ? rules.environments?.[environment] : undefined;
+		if (environment && !environmentRules) {
+			throw new Error(`Environment "${environment}" is not defined in ${COMPARISON_RULES_FILE_NAME}`);
+		}
+		const ignoreSets = [rules.ignore || {}, environmentRules?.ignore || {}];
+		const unique = <T>(items: T[]) => Array.from(new Set(items));
+
+		return {
+			...options,
+			mode: environmentRules?.mode || rules.mode || options.mode,
+			includeSystemObjects: rules.includeSystemObjects ?? options.includeSystemObjects,
+			detectRenames: rules.detectRenames ?? options.detectRenames,
+			includePrivileges: rules.includePrivileges ?? options.includePrivileges,
+			ignoreSchemas: unique([...(options.ignoreSchemas || []), ...ignoreSets.flatMap((set) => set.schemas || [])]),
+			excludeObjectTypes: unique([
+				...(options.excludeObjectTypes || []),
+				...ignoreSets.flatMap((set) => set.objectTypes || []),
+			]),
+			ignoreObjects: [...(options.ignoreObjects || []), ...ignoreSets.flatMap((set) => set.objects || [])],
+			ignoreAttributes: unique([
+				...(options.ignoreAttributes || []),
+				...ignoreSets.flatMap((set) => set.attributes || []),
+			]),
+			schemaMapping: environmentRules?.schemaMapping || rules.schemaMapping || options.schemaMapping,
+			environment: environment ?? options.environment,
+		};
+	}
+
+	/**
+	 * Compile ignore patterns into a single predicate
+	 */
+	static compileObjectPatterns(patterns: ObjectIgnorePattern[]): (obj: DatabaseObject) => boolean {
+		const matchers = patterns.map((entry) => {
+			const pattern = typeof entry === "string" ? entry : entry.pattern;
+			const objectTypes = typeof entry === "string" ? undefined : entry.objectTypes;
+			const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+			const qualified = !regexMatch && pattern.includes(".");
+			const regex = regexMatch ? new RegExp(regexMatch[1], regexMatch[2]) : ComparisonRulesStore.globToRegExp(pattern);
+
+			return (obj: DatabaseObject) => {
+				if (objectTypes && objectTypes.length > 0 && !objectTypes.includes(obj.type)) {
+					return false;
+				}
+				const qualifiedName = `${obj.schema}.${obj.name}`;
+				if (regexMatch) {
+					return regex.test(obj.name) || regex.test(qualifiedName);
+				}
+				return regex.test(qualified ? qualifiedName : obj.name);
+			};
+		});
+
+		return (obj: DatabaseObject) => matchers.some((matches) => matches(obj));
+	}
+
+	/**
+	 * Translate a glob (`*` and `?`) into an anchored regular expression
+	 */
+	private static globToRegExp(glob: string): RegExp {
+		const source = glob
+			.split("")
+			.map((char) => {
+				if (char === "*") {
+					return ".*";
+				}
+				if (char === "?") {
+					return ".";
+				}
+				return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+			})
+			.join("");
+		return new RegExp(`^${source}$`);
+	}
+
+	/**
+	 * Reject malformed rules up front so a typo never silently changes comparison results
+	 */
+	private validateRules(rules: ComparisonRulesFile): void {
+		if (!rules || typeof rules !== "object" || Array.isArray(rules)) {
+			throw new Error(`${COMPARISON_RULES_FILE_NAME} must contain a JSON object`);
+		}
+
+		this.validateIgnoreRules(rules.ignore, "ignore");
+		this.validateMode(rules.mode, "mode");
+		this.validateSchemaMapping(rules.schemaMapping, "schemaMapping");
+
+		for (const [name, env] of Object.entries(rules.environments || {})) {
+			if (!env || typeof env !== "object") {
+				throw new Error(`${COMPARISON_RULES_FILE_NAME}: environments.${name} must be an object`);
+			}
+			if (env.connections !== undefined && !Array.isArray(env.connections)) {
+				throw new Error(`${COMPARISON_RULES_FILE_NAME}: environments.${name}.connections must be an array`);
+			}
+			this.validateIgnoreRules(env.ignore, `environments.${name}.ignore`);
+			this.validateMode(env.mode, `environments.${name}.mode`);
+			this.validateSchemaMapping(env.schemaMapping, `environments.${name}.schemaMapping`);
+		}
+	}
+
+	private validateIgnoreRules(ignore: ComparisonIgnoreRules | undefined, location: string): void {
+		if (ignore === undefined) {
+			return;
+		}
+
+		for (const key of ["objects", "schemas", "objectTypes", "attributes"] as const) {
+			if (ignore[key] !== undefined && !Array.isArray(ignore[key])) {
+				throw new Error(`${COMPARISON_RULES_FILE_NAME}: ${location}.${key} must be an array`);
+			}
+		}
+
+		for (const attribute of ignore.attributes || []) {
+			if (!IGNORABLE_ATTRIBUTES.includes(attribute)) {
+				throw new Error(
+					`${COMPARISON_RULES_FILE_NAME}: unknown attribute "${attribute}" in ${location}.attributes (expected one of ${IGNORABLE_ATTRIBUTES.join(", ")})`,
+				);
+			}
+		}
+
+		for (const entry of ignore.objects || []) {
+			const pattern = typeof entry === "string" ? entry : entry?.pattern;
+			if (typeof pattern !== "string" || pattern.length === 0) {
+				throw new Error(`${COMPARISON_RULES_FILE_NAME}: ${location}.objects entries need a pattern`);
+			}
+			const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+			if (regexMatch) {
+				try {
+					new RegExp(regexMatch[1], regexMatch[2]);
+				} catch (error) {
+					throw new Error(
+						`${COMPARISON_RULES_FILE_NAME}: invalid regular expression ${pattern} in ${location}.objects: ${(error as Error).message}`,
+					);
+				}
+			}
+		}
+	}
+
+	private validateSchemaMapping(mapping: SchemaMapping | undefined, location: string): void {
+		if (mapping === undefined) {
+			return;
+		}
+		if (!mapping || typeof mapping !== "object" || Array.isArray(mapping)) {
+			throw new Error(`${COMPARISON_RULES_FILE_NAME}: ${location} must map source schemas to target schemas`);
+		}
+
+		for (const [sourceSchema, targets] of Object.entries(mapping)) {
+			const targetList = Array.isArray(targets) ? targets : [targets];
+			if (targetList.length === 0 || targetList.some((target) => typeof target !== "string" || target.length === 0)) {
+				throw new Error(
+					`${COMPARISON_RULES_FILE_NAME}: ${location}.${sourceSchema} must be a schema name or a non-empty array of schema names`,
+				);
+			}
+		}
+
+		// Each target schema can only be compared against one source schema
+		const seenTargets = new Map<string, string>();
+		for (const pair of SchemaMapper.toPairs(mapping)) {
+			const previous = seenTargets.get(pair.targetSchema);
+			if (previous !== undefined && previous !== pair.sourceSchema) {
+				throw new Error(
+					`${COMPARISON_RULES_FILE_NAME}: ${location} maps target schema "${pair.targetSchema}" from both "${previous}" and "${pair.sourceSchema}"`,
+				);
+			}
+			seenTargets.set(pair.targetSchema, pair.sourceSchema);
+		}
+	}
+
+	private validateMode(mode: string | undefined, location: string): void {
+		if (mode !== undefined && mode !== "strict" && mode !== "lenient") {
+			throw new Error(`${COMPARISON_RULES_FILE_NAME}: ${location} must be "strict" or "lenient"`);
+		}
+	}
+}
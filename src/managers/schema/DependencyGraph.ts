@@ -0,0 +1,662 @@
+import { QueryExecutionService } from "@/services/QueryExecutionService";
+import { Logger } from "@/utils/Logger";
+import { SchemaDifference } from "./SchemaComparison";
+
+/**
+ * Where a dependency was read from. PostgreSQL enforces catalog dependencies, so ordering must honour
+ * them; foreign keys and references parsed from definitions can legitimately form cycles, so ordering
+ * breaks those when it has to
+ */
+export type DependencySource = "catalog" | "foreign_key" | "definition";
+
+export interface ObjectDependency {
+	/** Key of the object that uses the other one, as built by DependencyGraph.objectKey */
+	dependent: string;
+	dependentType: string;
+	dependentSchema: string;
+	dependentName: string;
+	referenced: string;
+	/** Column of the referenced relation the dependent reads, when the catalog records one */
+	referencedColumn?: string;
+	source: DependencySource;
+}
+
+/**
+ * Dependencies of the database as it is and as the migration leaves it. Drops and changes to existing
+ * objects are ordered by the first, creates and changes that produce the final objects by the second.
+ */
+export interface MigrationDependencies {
+	existing: ObjectDependency[];
+	final: ObjectDependency[];
+}
+
+/**
+ * Changes with drop-and-recreate pairs for the views and routines blocking a column change, plus the
+ * ordering those pairs need beyond what the catalog records
+ */
+export interface DependentRebuildPlan {
+	changes: SchemaDifference[];
+	/** Pairs of changes where the first must run before the second */
+	edges: [SchemaDifference, SchemaDifference][];
+}
+
+/**
+ * Object types PostgreSQL refuses to keep while a column they read changes type, and that can be
+ * recreated from their catalog definition
+ */
+const REBUILDABLE_TYPES = ["view", "materialized_view", "function", "procedure"];
+
+/**
+ * Object types that share a catalog namespace, so a reference by name matches any of them
+ */
+const KEY_NAMESPACES: Record<string, string> = {
+	table: "relation",
+	column: "relation",
+	view: "relation",
+	materialized_view: "relation",
+	foreign_table: "relation",
+	sequence: "relation",
+	index: "relation",
+	function: "routine",
+	procedure: "routine",
+	aggregate: "routine",
+	type: "type",
+	enum: "type",
+	domain: "type",
+};
+
+/**
+ * Reads the dependencies between a database's objects from pg_depend, pg_rewrite and the constraint and
+ * trigger catalogs. Relations are reported by kind; routines by prokind; row types of relations resolve
+ * to the relation itself.
+ */
+const CATALOG_DEPENDENCIES_QUERY = `
+	WITH deps AS (
+		-- Views and materialized views depend on whatever their rewrite rule reads
+		SELECT CASE v.relkind WHEN 'm' THEN 'materialized_view' ELSE 'view' END AS dependent_type,
+			vn.nspname AS dependent_schema, v.relname AS dependent_name, NULL::text AS dependent_table,
+			d.refclassid, d.refobjid, d.refobjsubid, 'catalog' AS source
+		FROM pg_depend d
+		JOIN pg_rewrite rw ON d.classid = 'pg_rewrite'::regclass AND rw.oid = d.objid
+		JOIN pg_class v ON v.oid = rw.ev_class
+		JOIN pg_namespace vn ON vn.oid = v.relnamespace
+		WHERE d.deptype = 'n' AND NOT (d.refclassid = 'pg_class'::regclass AND d.refobjid = v.oid)
+		UNION ALL
+		-- Routines depend on their argument and result types, and SQL-standard bodies on what they read
+		SELECT CASE p.prokind WHEN 'p' THEN 'procedure' WHEN 'a' THEN 'aggregate' ELSE 'function' END,
+			pn.nspname, p.proname, NULL, d.refclassid, d.refobjid, d.refobjsubid, 'catalog'
+		FROM pg_depend d
+		JOIN pg_proc p ON d.classid = 'pg_proc'::regclass AND p.oid = d.objid
+		JOIN pg_namespace pn ON pn.oid = p.pronamespace
+		WHERE d.deptype = 'n'
+		UNION ALL
+		-- Triggers depend on their table and their function
+		SELECT 'trigger', tn.nspname, t.tgname, tc.relname, ref.classid, ref.objid, 0, 'catalog'
+		FROM pg_trigger t
+		JOIN pg_class tc ON tc.oid = t.tgrelid
+		JOIN pg_namespace tn ON tn.oid = tc.relnamespace
+		CROSS JOIN LATERAL (VALUES ('pg_class'::regclass, t.tgrelid), ('pg_proc'::regclass, t.tgfoid)) AS ref(classid, objid)
+		WHERE NOT t.tgisinternal
+		UNION ALL
+		-- Indexes depend on their table
+		SELECT 'index', n.nspname, ic.relname, NULL, 'pg_class'::regclass, i.indrelid, 0, 'catalog'
+		FROM pg_index i
+		JOIN pg_class ic ON ic.oid = i.indexrelid
+		JOIN pg_namespace n ON n.oid = ic.relnamespace
+		UNION ALL
+		-- Referencing tables depend on the tables their foreign keys point at
+		SELECT 'table', n.nspname, c.relname, NULL, 'pg_class'::regclass, con.confrelid, 0, 'foreign_key'
+		FROM pg_constraint con
+		JOIN pg_class c ON c.oid = con.conrelid
+		JOIN pg_namespace n ON n.oid = c.relnamespace
+		WHERE con.contype = 'f' AND con.confrelid <> con.conrelid
+	), resolved AS (
+		SELECT deps.*, COALESCE(rc.oid, rowtype.oid) AS relation_oid, rp.oid AS routine_oid, rt.oid AS type_oid
+		FROM deps
+		LEFT JOIN pg_type rt ON deps.refclassid = 'pg_type'::regclass AND rt.oid = deps.refobjid
+		LEFT JOIN pg_class rowtype ON rowtype.oid = rt.typrelid AND rowtype.relkind <> 'c'
+		LEFT JOIN pg_class rc ON deps.refclassid = 'pg_class'::regclass AND rc.oid = deps.refobjid
+		LEFT JOIN pg_proc rp ON deps.refclassid = 'pg_proc'::regclass AND rp.oid = deps.refobjid
+	)
+	SELECT DISTINCT r.dependent_type, r.dependent_schema, r.dependent_name, r.dependent_table, r.source,
+		CASE
+			WHEN c.oid IS NOT NULL THEN CASE c.relkind WHEN 'v' THEN 'view' WHEN 'm' THEN 'materialized_view'
+				WHEN 'S' THEN 'sequence' WHEN 'f' THEN 'foreign_table' WHEN 'i' THEN 'index' ELSE 'table' END
+			WHEN p.oid IS NOT NULL THEN CASE p.prokind WHEN 'p' THEN 'procedure' WHEN 'a' THEN 'aggregate' ELSE 'function' END
+			ELSE CASE t.typtype WHEN 'e' THEN 'enum' WHEN 'd' THEN 'domain' ELSE 'type' END
+		END AS referenced_type,
+		COALESCE(cn.nspname, pn.nspname, tn.nspname) AS referenced_schema,
+		COALESCE(c.relname, p.proname, t.typname) AS referenced_name,
+		CASE WHEN r.refclassid = 'pg_class'::regclass AND r.refobjsubid > 0 THEN a.attname END AS referenced_column
+	FROM resolved r
+	LEFT JOIN pg_class c ON c.oid = r.relation_oid
+	LEFT JOIN pg_namespace cn ON cn.oid = c.relnamespace
+	LEFT JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum = r.refobjsubid
+	LEFT JOIN pg_proc p ON p.oid = r.routine_oid
+	LEFT JOIN pg_namespace pn ON pn.oid = p.pronamespace
+	LEFT JOIN pg_type t ON t.oid = r.type_oid AND c.oid IS NULL
+	LEFT JOIN pg_namespace tn ON tn.oid = t.typnamespace
+	WHERE COALESCE(c.oid, p.oid, t.oid) IS NOT NULL
+		AND r.dependent_schema NOT IN ('pg_catalog', 'information_schema')
+		AND r.dependent_schema NOT LIKE 'pg_toast%'
+		AND COALESCE(cn.nspname, pn.nspname, tn.nspname) NOT IN ('pg_catalog', 'information_schema')
+		AND COALESCE(cn.nspname, pn.nspname, tn.nspname) NOT LIKE 'pg_toast%'
+`;
+
+/**
+ * DependencyGraph - Orders migration changes so every object is created after what it uses and dropped
+ * before it, from the dependencies PostgreSQL records in its catalogs and those parsed from definitions
+ * of objects no catalog holds yet. Views and routines that block a column type change are dropped before
+ * it and recreated after it.
+ */
+export class DependencyGraph {
+	constructor(private queryService: QueryExecutionService) {}
+
+	/**
+	 * Key identifying an object by namespace rather than exact type, so a view and a table read by it
+	 * match whichever way each side names the relation kind. Columns key to their table.
+	 */
+	static objectKey(objectType: string, schema: string, name: string, tableName?: string): string {
+		if (objectType === "column") {
+			return `relation:${schema}.${tableName || ""}`;
+		}
+		const namespace = KEY_NAMESPACES[objectType] || objectType;
+		return namespace === "trigger" || namespace === "policy" || namespace === "rule"
+			? `${namespace}:${schema}.${tableName || ""}.${name}`
+			: `${namespace}:${schema}.${name}`;
+	}
+
+	/**
+	 * Key of the object a change alters or drops, as the database knows it before the migration
+	 * @returns Undefined for changes that create the object
+	 */
+	static existingKey(change: SchemaDifference): string | undefined {
+		if (change.type === "Added") {
+			return undefined;
+		}
+		const name = change.objectType !== "column" && change.previousName ? change.previousName : change.objectName;
+		return DependencyGraph.objectKey(change.objectType, change.schema, name, change.tableName);
+	}
+
+	/**
+	 * Key of the object a change creates or alters, as the target names it
+	 * @returns Undefined for changes that drop the object
+	 */
+	static finalKey(change: SchemaDifference): string | undefined {
+		if (change.type === "Removed") {
+			return undefined;
+		}
+		return DependencyGraph.objectKey(
+			change.objectType,
+			change.targetSchema || change.schema,
+			change.objectName,
+			change.tableName,
+		);
+	}
+
+	/**
+	 * Dependencies recorded in a database's catalogs; an empty list when they cannot be read, leaving
+	 * ordering to definitions and object types
+	 */
+	async loadDependencies(connectionId: string): Promise<ObjectDependency[]> {
+		try {
+			return await this.queryService.withPinnedClient(connectionId, async (client) => {
+				const result = await client.query(CATALOG_DEPENDENCIES_QUERY);
+				return result.rows.map((row: any) => ({
+					dependent: DependencyGraph.objectKey(
+						row.dependent_type,
+						row.dependent_schema,
+						row.dependent_name,
+						row.dependent_table || undefined,
+					),
+					dependentType: row.dependent_type,
+					dependentSchema: row.dependent_schema,
+					dependentName: row.dependent_name,
+					referenced: DependencyGraph.objectKey(row.referenced_type, row.referenced_schema, row.referenced_name),
+					referencedColumn: row.referenced_column || undefined,
+					source: row.source as DependencySource,
+				}));
+			});
+		} catch (error) {
+			Logger.warn("Could not read catalog dependencies", "loadDependencies", {
+				connectionId,
+				error: (error as Error).message,
+			});
+			return [];
+		}
+	}
+
+	/**
+	 * Replaces each view and routine that reads a column changing type or being dropped, and everything
+	 * built on top of them, with a drop before the column change and a create after it. Objects the
+	 * migration changes anyway are recreated from their target definition, the others from the definition
+	 * read from the database being migrated.
+	 * @param dependencies - Catalog dependencies of the database being migrated
+	 */
+	async planDependentRebuilds(
+		connectionId: string,
+		changes: SchemaDifference[],
+		dependencies: ObjectDependency[],
+	): Promise<DependentRebuildPlan> {
+		const columnChanges = this.getBlockingColumnChanges(changes);
+		if (columnChanges.size === 0) {
+			return { changes, edges: [] };
+		}
+
+		// Direct dependents of the changed columns, then whatever depends on those in turn
+		const rebuilds = new Map<string, ObjectDependency>();
+		const queue: ObjectDependency[] = dependencies.filter(
+			(dependency) =>
+				REBUILDABLE_TYPES.includes(dependency.dependentType) &&
+				dependency.referencedColumn !== undefined &&
+				columnChanges.get(dependency.referenced)?.has(dependency.referencedColumn),
+		);
+		while (queue.length > 0) {
+			const dependency = queue.shift() as ObjectDependency;
+			if (rebuilds.has(dependency.dependent)) {
+				continue;
+			}
+			rebuilds.set(dependency.dependent, dependency);
+			for (const next of dependencies) {
+				if (next.referenced !== dependency.dependent || rebuilds.has(next.dependent)) {
+					continue;
+				}
+				if (REBUILDABLE_TYPES.includes(next.dependentType)) {
+					queue.push(next);
+				} else if (next.dependentType !== "index" || dependency.dependentType !== "materialized_view") {
+					Logger.warn("Dependent object cannot be recreated automatically", "planDependentRebuilds", {
+						object: next.dependent,
+						dependsOn: dependency.dependent,
+					});
+				}
+			}
+		}
+		if (rebuilds.size === 0) {
+			return { changes, edges: [] };
+		}
+
+		const changesByKey = new Map<string, SchemaDifference>();
+		for (const change of changes) {
+			const key = DependencyGraph.existingKey(change);
+			if (key) {
+				changesByKey.set(key, change);
+			}
+		}
+		const definitions = await this.loadDefinitions(
+			connectionId,
+			[...rebuilds.values()].filter((dependency) => {
+				const change = changesByKey.get(dependency.dependent);
+				return !change || !change.sourceDefinition;
+			}),
+		);
+
+		const replaced = new Set<SchemaDifference>();
+		const drops = new Map<string, SchemaDifference[]>();
+		const creates = new Map<string, SchemaDifference[]>();
+		for (const [key, dependency] of rebuilds) {
+			const change = changesByKey.get(key);
+			// Dropped objects are ordered before the column change through the catalog dependency alone
+			if (change?.type === "Removed") {
+				continue;
+			}
+			const reason = `Recreated around a type change or drop of a column it reads (${dependency.referenced.replace(/^\w+:/, "")})`;
+			const pairs = change
+				? [
+						{
+							drop: {
+								type: "Removed" as const,
+								objectType: change.objectType,
+								objectName: change.previousName || change.objectName,
+								schema: change.schema,
+								signature: change.signature,
+								sourceDefinition: change.sourceDefinition || definitions.get(key)?.[0]?.definition,
+								differenceDetails: [reason],
+							},
+							create: {
+								...change,
+								type: "Added" as const,
+								previousName: undefined,
+								attributeChanges: undefined,
+								differenceDetails: [...change.differenceDetails, reason],
+							},
+						},
+					]
+				: (definitions.get(key) || []).map((definition) => {
+						const base = {
+							objectType: definition.objectType,
+							objectName: dependency.dependentName,
+							schema: dependency.dependentSchema,
+							signature: definition.signature,
+							differenceDetails: [reason],
+						};
+						return {
+							drop: { ...base, type: "Removed" as const, sourceDefinition: definition.definition },
+							create: { ...base, type: "Added" as const, targetDefinition: definition.definition },
+						};
+					});
+			if (!change && pairs.length === 0) {
+				Logger.warn("Definition of dependent object not found; it is not recreated", "planDependentRebuilds", {
+					object: key,
+				});
+				continue;
+			}
+			if (change) {
+				replaced.add(change);
+			}
+			drops.set(
+				key,
+				pairs.map((pair) => pair.drop),
+			);
+			creates.set(
+				key,
+				pairs.map((pair) => pair.create),
+			);
+		}
+
+		// Each recreate follows its own drop, the column changes it was dropped for and the recreated objects it reads
+		const edges: [SchemaDifference, SchemaDifference][] = [];
+		for (const [key, created] of creates) {
+			for (const create of created) {
+				edges.push(...(drops.get(key) || []).map((drop): [SchemaDifference, SchemaDifference] => [drop, create]));
+				for (const dependency of dependencies) {
+					if (dependency.dependent !== key) {
+						continue;
+					}
+					const producers = creates.get(dependency.referenced) || [];
+					const columnChange = columnChanges.has(dependency.referenced)
+						? changes.filter((change) => DependencyGraph.existingKey(change) === dependency.referenced)
+						: [];
+					edges.push(
+						...[...producers, ...columnChange].map((before): [SchemaDifference, SchemaDifference] => [before, create]),
+					);
+				}
+			}
+		}
+
+		return {
+			changes: [
+				...changes.filter((change) => !replaced.has(change)),
+				...[...drops.values()].flat(),
+				...[...creates.values()].flat(),
+			],
+			edges,
+		};
+	}
+
+	/**
+	 * Orders changes so dependencies are honoured, keeping the given order wherever they allow
+	 * @param changes - Changes in their preferred order
+	 * @param dependencies - Catalog dependencies before and after the migration
+	 * @param extraEdges - Further pairs of changes where the first must run before the second
+	 * @throws Error naming the objects involved when catalog dependencies form a cycle
+	 */
+	orderChanges(
+		changes: SchemaDifference[],
+		dependencies: MigrationDependencies,
+		extraEdges: [SchemaDifference, SchemaDifference][] = [],
+	): SchemaDifference[] {
+		const parsed = this.parseDefinitionDependencies(changes);
+		const existingIndex = this.indexChanges(changes, DependencyGraph.existingKey);
+		const finalIndex = this.indexChanges(changes, DependencyGraph.finalKey);
+
+		// predecessors.get(after) maps each change that must run first to whether that edge may be broken
+		const predecessors = new Map<number, Map<number, boolean>>(changes.map((_, index) => [index, new Map()]));
+		const addEdge = (before: number, after: number, soft: boolean) => {
+			if (before === after) {
+				return;
+			}
+			const edges = predecessors.get(after) as Map<number, boolean>;
+			edges.set(before, soft && edges.get(before) !== false);
+		};
+
+		// An object is dropped, or changed to stop using something, before what it uses is dropped
+		for (const dependency of [...dependencies.existing, ...parsed.existing]) {
+			for (const dependent of existingIndex.get(dependency.dependent) || []) {
+				for (const referenced of existingIndex.get(dependency.referenced) || []) {
+					if (changes[dependent].type === "Removed" || changes[referenced].type === "Removed") {
+						addEdge(dependent, referenced, dependency.source !== "catalog");
+					}
+				}
+			}
+		}
+		// An object is created or changed after what it will use exists in its final form
+		for (const dependency of [...dependencies.final, ...parsed.final]) {
+			for (const dependent of finalIndex.get(dependency.dependent) || []) {
+				for (const referenced of finalIndex.get(dependency.referenced) || []) {
+					addEdge(referenced, dependent, dependency.source !== "catalog");
+				}
+			}
+		}
+		for (const [before, after] of extraEdges) {
+			const beforeIndex = changes.indexOf(before);
+			const afterIndex = changes.indexOf(after);
+			if (beforeIndex !== -1 && afterIndex !== -1) {
+				addEdge(beforeIndex, afterIndex, false);
+			}
+		}
+
+		const ordered: SchemaDifference[] = [];
+		const remaining = new Set(changes.map((_, index) => index));
+		while (remaining.size > 0) {
+			const ready = [...remaining].filter(
+				(index) =>
+					![...(predecessors.get(index) as Map<number, boolean>).keys()].some((before) => remaining.has(before)),
+			);
+			if (ready.length === 0) {
+				this.breakCycle(changes, remaining, predecessors);
+				continue;
+			}
+			const next = Math.min(...ready);
+			ordered.push(changes[next]);
+			remaining.delete(next);
+		}
+
+		return ordered;
+	}
+
+	/**
+	 * Removes the breakable edges of one cycle among the remaining changes
+	 * @throws Error when every edge of the cycle is a catalog dependency
+	 */
+	private breakCycle(
+		changes: SchemaDifference[],
+		remaining: Set<number>,
+		predecessors: Map<number, Map<number, boolean>>,
+	): void {
+		// Every remaining change waits on another remaining one, so walking back from any of them must repeat
+		const path: number[] = [];
+		let current = remaining.values().next().value as number;
+		while (!path.includes(current)) {
+			path.push(current);
+			current = [...(predecessors.get(current) as Map<number, boolean>).keys()].find((before) =>
+				remaining.has(before),
+			) as number;
+		}
+		const cycle = path.slice(path.indexOf(current));
+		const describe = (index: number) =>
+			`${changes[index].type} ${changes[index].objectType} ${changes[index].schema}.${changes[index].objectName}`;
+		const softEdges = cycle.filter((after, position) => {
+			const before = cycle[(position + 1) % cycle.length];
+			return (predecessors.get(after) as Map<number, boolean>).get(before);
+		});
+
+		if (softEdges.length === 0) {
+			throw new Error(
+				`Circular dependency between migration steps: ${[...cycle, cycle[0]].map(describe).join(" needs ")}`,
+			);
+		}
+		Logger.warn("Breaking foreign key or parsed dependency cycle between migration steps", "orderChanges", {
+			cycle: cycle.map(describe),
+		});
+		for (const after of softEdges) {
+			const position = cycle.indexOf(after);
+			(predecessors.get(after) as Map<number, boolean>).delete(cycle[(position + 1) % cycle.length]);
+		}
+	}
+
+	/**
+	 * References between the changed objects found in their definitions, for objects no catalog holds on
+	 * the side being read: source definitions give the existing dependencies, target definitions the final ones
+	 */
+	private parseDefinitionDependencies(changes: SchemaDifference[]): MigrationDependencies {
+		const parsed: MigrationDependencies = { existing: [], final: [] };
+		const referenceable = changes.filter(
+			(change) => change.objectType !== "column" && KEY_NAMESPACES[change.objectType] !== undefined,
+		);
+
+		for (const change of changes) {
+			const sides = [
+				{ definition: change.sourceDefinition, key: DependencyGraph.existingKey(change), into: parsed.existing },
+				{ definition: change.targetDefinition, key: DependencyGraph.finalKey(change), into: parsed.final },
+			];
+			for (const side of sides) {
+				if (!side.definition || !side.key) {
+					continue;
+				}
+				for (const other of referenceable) {
+					const otherKey =
+						side.into === parsed.existing ? DependencyGraph.existingKey(other) : DependencyGraph.finalKey(other);
+					if (!otherKey || otherKey === side.key) {
+						continue;
+					}
+					const schema = side.into === parsed.existing ? other.schema : other.targetSchema || other.schema;
+					const name = side.into === parsed.existing && other.previousName ? other.previousName : other.objectName;
+					if (this.referencesObject(side.definition, schema, name, KEY_NAMESPACES[other.objectType])) {
+						side.into.push({
+							dependent: side.key,
+							dependentType: change.objectType,
+							dependentSchema: change.schema,
+							dependentName: change.objectName,
+							referenced: otherKey,
+							source: "definition",
+						});
+					}
+				}
+			}
+		}
+
+		return parsed;
+	}
+
+	/**
+	 * Whether SQL text names an object: schema-qualified anywhere, or unqualified where a relation, routine
+	 * or type name is expected
+	 */
+	private referencesObject(definition: string, schema: string, name: string, namespace: string): boolean {
+		const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+		const identifier = (value: string) => {
+			const quoted = `"${escape(value.replace(/"/g, '""'))}"`;
+			// Unquoted identifiers fold to lower case, so only lower-case names can appear without quotes
+			return /^[a-z_][a-z0-9_$]*$/.test(value) ? `(?:${quoted}|(?<![\\w$"])${escape(value)}(?![\\w$"]))` : quoted;
+		};
+		const unqualified =
+			namespace === "routine"
+				? `(?<!\\.\\s*)${identifier(name)}\\s*\\(`
+				: namespace === "type"
+					? `::\\s*${identifier(name)}`
+					: `\\b(?:FROM|JOIN|REFERENCES|UPDATE|INTO|TABLE|ON)\\s+(?:ONLY\\s+)?${identifier(name)}(?!\\s*\\.)`;
+		const qualified = `${identifier(schema)}\\s*\\.\\s*${identifier(name)}`;
+
+		return new RegExp(`${qualified}|${unqualified}`, "i").test(definition);
+	}
+
+	/**
+	 * Columns of each relation that change type or collation, or are dropped, keyed by the relation's key
+	 */
+	private getBlockingColumnChanges(changes: SchemaDifference[]): Map<string, Set<string>> {
+		const columns = new Map<string, Set<string>>();
+		for (const change of changes) {
+			const key = DependencyGraph.existingKey(change);
+			if (!key || change.objectType !== "table") {
+				continue;
+			}
+			for (const attribute of change.attributeChanges || []) {
+				if (
+					attribute.kind !== "column_type" &&
+					attribute.kind !== "column_collation" &&
+					attribute.kind !== "column_dropped"
+				) {
+					continue;
+				}
+				const column = attribute.sourceColumn?.name || attribute.subObject;
+				if (column) {
+					columns.set(key, (columns.get(key) || new Set()).add(column));
+				}
+			}
+		}
+		return columns;
+	}
+
+	/**
+	 * CREATE statements of existing views and routines, keyed like the dependencies naming them; overloaded
+	 * routines give one entry per argument list
+	 */
+	private async loadDefinitions(
+		connectionId: string,
+		objects: ObjectDependency[],
+	): Promise<Map<string, { objectType: string; definition: string; signature?: string }[]>> {
+		const definitions = new Map<string, { objectType: string; definition: string; signature?: string }[]>();
+		if (objects.length === 0) {
+			return definitions;
+		}
+
+		try {
+			await this.queryService.withPinnedClient(connectionId, async (client) => {
+				const result = await client.query(
+					`SELECT o.schema_name, o.object_name, c.relkind AS kind,
+						format('CREATE %sVIEW %I.%I AS %s', CASE c.relkind WHEN 'm' THEN 'MATERIALIZED ' ELSE '' END,
+							n.nspname, c.relname, rtrim(pg_get_viewdef(c.oid, true), ';' || chr(10) || ' ')) || ';' AS definition,
+						NULL AS signature
+					FROM unnest($1::text[], $2::text[]) AS o(schema_name, object_name)
+					JOIN pg_namespace n ON n.nspname = o.schema_name
+					JOIN pg_class c ON c.relnamespace = n.oid AND c.relname = o.object_name AND c.relkind IN ('v', 'm')
+					UNION ALL
+					SELECT o.schema_name, o.object_name, p.prokind, pg_get_functiondef(p.oid),
+						pg_get_function_identity_arguments(p.oid)
+					FROM unnest($1::text[], $2::text[]) AS o(schema_name, object_name)
+					JOIN pg_namespace n ON n.nspname = o.schema_name
+					JOIN pg_proc p ON p.pronamespace = n.oid AND p.proname = o.object_name AND p.prokind IN ('f', 'p')`,
+					[objects.map((object) => object.dependentSchema), objects.map((object) => object.dependentName)],
+				);
+				for (const row of result.rows) {
+					const objectType =
+						row.kind === "m"
+							? "materialized_view"
+							: row.kind === "v"
+								? "view"
+								: row.kind === "p"
+									? "procedure"
+									: "function";
+					const key = DependencyGraph.objectKey(objectType, row.schema_name, row.object_name);
+					definitions.set(key, [
+						...(definitions.get(key) || []),
+						{ objectType, definition: row.definition, signature: row.signature ?? undefined },
+					]);
+				}
+			});
+		} catch (error) {
+			Logger.warn("Could not read definitions of dependent objects", "loadDefinitions", {
+				connectionId,
+				error: (error as Error).message,
+			});
+		}
+		return definitions;
+	}
+
+	/**
+	 * Positions of the changes under each key
+	 */
+	private indexChanges(
+		changes: SchemaDifference[],
+		keyOf: (change: SchemaDifference) => string | undefined,
+	): Map<string, number[]> {
+		const index = new Map<string, number[]>();
+		changes.forEach((change, position) => {
+			const key = keyOf(change);
+			if (key) {
+				index.set(key, [...(index.get(key) || []), position]);
+			}
+		});
+		return index;
+	}
+}
@@ -0,0 +1,358 @@
+import { QueryExecutionService } from "@/services/QueryExecutionService";
+import { Logger } from "@/utils/Logger";
+import { PostgresLockMode, RelationSizeEstimate, StatementLockImpact, StepLockImpact } from "./MigrationTypes";
+
+/**
+ * Lock modes ordered from weakest to strongest
+ */
+const LOCK_MODE_ORDER: PostgresLockMode[] = [
+	"ACCESS SHARE",
+	"ROW SHARE",
+	"ROW EXCLUSIVE",
+	"SHARE UPDATE EXCLUSIVE",
+	"SHARE",
+	"SHARE ROW EXCLUSIVE",
+	"EXCLUSIVE",
+	"ACCESS EXCLUSIVE",
+];
+
+/**
+ * Relations at least this large make a blocking rewrite or scan high risk, and ten times that critical
+ */
+const LARGE_RELATION_BYTES = 100 * 1024 * 1024;
+
+const IDENTIFIER = `(?:"(?:[^"]|"")+"|[A-Za-z_][\\w$]*)`;
+const NAME = `(${IDENTIFIER}(?:\\s*\\.\\s*${IDENTIFIER})?)`;
+
+/**
+ * Defaults that make ADD COLUMN rewrite the table because they are evaluated per row
+ */
+const VOLATILE_DEFAULT =
+	/\bDEFAULT\b[\s\S]*\b(random|clock_timestamp|timeofday|gen_random_uuid|uuid_generate_v\w*|nextval)\s*\(/i;
+
+type LockRule = Omit<StatementLockImpact, "statement">;
+
+/**
+ * LockImpactAnalyzer - Works out which table locks migration statements take, whether they rewrite or
+ * scan the table, and how large the locked relations are, following the lock levels documented for
+ * each command in the PostgreSQL reference
+ */
+export class LockImpactAnalyzer {
+	constructor(private queryService: QueryExecutionService) {}
+
+	/**
+	 * Lock impact of each statement of each step, with relation sizes read from pg_class on the database
+	 * the migration runs against
+	 * @param splitStatements - Splits a step's SQL into statements the way the executor does
+	 */
+	async analyzeSteps(
+		connectionId: string,
+		steps: { sqlScript: string }[],
+		splitStatements: (sql: string) => string[],
+	): Promise<StepLockImpact[]> {
+		const statementImpacts = steps.map((step) =>
+			splitStatements(step.sqlScript || "").map((statement) => this.analyzeStatement(statement)),
+		);
+		const relationNames = [...new Set(statementImpacts.flat().flatMap((impact) => impact.relations))];
+		const sizes = await this.getRelationSizes(connectionId, relationNames);
+
+		return statementImpacts.map((statements) => this.summarize(statements, sizes));
+	}
+
+	/**
+	 * Lock taken by a single statement; statements that only create new objects take none
+	 */
+	analyzeStatement(statement: string): StatementLockImpact {
+		const code = statement
+			.replace(/^(\s+|--[^\n]*\n?|\/\*[\s\S]*?\*\/)+/, "")
+			.replace(/\s+/g, " ")
+			.trim();
+		const rule = this.matchRule(code);
+		return {
+			statement,
+			...rule,
+			relations: rule.relations.map((relation) => relation.replace(/\s*\.\s*/, ".")),
+		};
+	}
+
+	/**
+	 * Lowest risk level a step should carry given what its locks block and the size of what they lock
+	 */
+	getRiskFloor(impact: StepLockImpact): "low" | "medium" | "high" | "critical" {
+		if (!impact.blocksWrites || (!impact.rewritesTable && !impact.scansTable)) {
+			return "low";
+		}
+		const largest = Math.max(0, ...impact.relations.map((relation) => relation.totalBytes ?? 0));
+		if (largest >= LARGE_RELATION_BYTES * 10) {
+			return "critical";
+		}
+		return largest >= LARGE_RELATION_BYTES ? "high" : "medium";
+	}
+
+	/**
+	 * Whether lock mode a is stronger than lock mode b; a missing mode is weaker than any lock
+	 */
+	static isStronger(a: PostgresLockMode | undefined, b: PostgresLockMode | undefined): boolean {
+		return (a ? LOCK_MODE_ORDER.indexOf(a) : -1) > (b ? LOCK_MODE_ORDER.indexOf(b) : -1);
+	}
+
+	private summarize(statements: StatementLockImpact[], sizes: Map<string, RelationSizeEstimate>): StepLockImpact {
+		let lockMode: PostgresLockMode | undefined;
+		for (const statement of statements) {
+			if (LockImpactAnalyzer.isStronger(statement.lockMode, lockMode)) {
+				lockMode = statement.lockMode;
+			}
+		}
+
+		// Relations spelled differently in different statements resolve to the same pg_class entry
+		const relations = new Map<string, RelationSizeEstimate>();
+		for (const name of statements.flatMap((statement) => statement.relations)) {
+			const size = sizes.get(name) ?? { name };
+			relations.set(size.name, size);
+		}
+
+		return {
+			lockMode,
+			blocksReads: lockMode === "ACCESS EXCLUSIVE",
+			blocksWrites: !!lockMode && !LockImpactAnalyzer.isStronger("SHARE", lockMode),
+			rewritesTable: statements.some((statement) => statement.rewritesTable),
+			scansTable: statements.some((statement) => statement.scansTable),
+			relations: [...relations.values()],
+			statements,
+		};
+	}
+
+	private matchRule(code: string): LockRule {
+		const none: LockRule = { relations: [], rewritesTable: false, scansTable: false };
+		const lock = (lockMode: PostgresLockMode, relations: (string | undefined)[], extra: Partial<LockRule> = {}) => ({
+			...none,
+			lockMode,
+			relations: relations.filter((relation): relation is string => !!relation),
+			...extra,
+		});
+		let match: RegExpExecArray | null;
+
+		if ((match = new RegExp(`^CREATE (?:UNIQUE )?INDEX CONCURRENTLY .*?\\bON (?:ONLY )?${NAME}`, "i").exec(code))) {
+			return lock("SHARE UPDATE EXCLUSIVE", [match[1]], {
+				scansTable: true,
+				note: "Builds without blocking writes, but waits for transactions already running",
+			});
+		}
+		if ((match = new RegExp(`^CREATE (?:UNIQUE )?INDEX .*?\\bON (?:ONLY )?${NAME}`, "i").exec(code))) {
+			return lock("SHARE", [match[1]], { scansTable: true, note: "Writes wait until the index is built" });
+		}
+		if ((match = new RegExp(`^DROP INDEX CONCURRENTLY (?:IF EXISTS )?${NAME}`, "i").exec(code))) {
+			return lock("SHARE UPDATE EXCLUSIVE", [match[1]]);
+		}
+		if ((match = new RegExp(`^DROP INDEX (?:IF EXISTS )?${NAME}`, "i").exec(code))) {
+			return lock("ACCESS EXCLUSIVE", [match[1]], { note: "Locks the table the index belongs to" });
+		}
+		if ((match = new RegExp(`^REINDEX (?:\\(.*?\\) )?(?:INDEX|TABLE) (CONCURRENTLY )?${NAME}`, "i").exec(code))) {
+			return match[1]
+				? lock("SHARE UPDATE EXCLUSIVE", [match[2]], { scansTable: true })
+				: lock("ACCESS EXCLUSIVE", [match[2]], { scansTable: true });
+		}
+		if ((match = new RegExp(`^ALTER TABLE (?:IF EXISTS )?(?:ONLY )?${NAME} (.*)$`, "i").exec(code))) {
+			return this.matchAlterTableRule(match[1], match[2]);
+		}
+		if ((match = new RegExp(`^ALTER INDEX (?:IF EXISTS )?${NAME} (.*)$`, "i").exec(code))) {
+			return /^SET TABLESPACE\b/i.test(match[2])
+				? lock("ACCESS EXCLUSIVE", [match[1]], { rewritesTable: true })
+				: lock("SHARE UPDATE EXCLUSIVE", [match[1]]);
+		}
+		if ((match = new RegExp(`^CREATE (?:OR REPLACE )?(?:CONSTRAINT )?TRIGGER .*?\\bON ${NAME}`, "i").exec(code))) {
+			return lock("SHARE ROW EXCLUSIVE", [match[1]]);
+		}
+		if ((match = new RegExp(`^DROP TRIGGER (?:IF EXISTS )?${IDENTIFIER} ON ${NAME}`, "i").exec(code))) {
+			return lock("ACCESS EXCLUSIVE", [match[1]]);
+		}
+		if (
+			(match = new RegExp(
+				`^DROP (?:TABLE|VIEW|MATERIALIZED VIEW|FOREIGN TABLE|SEQUENCE) (?:IF EXISTS )?${NAME}`,
+				"i",
+			).exec(code))
+		) {
+			return lock("ACCESS EXCLUSIVE", [match[1]]);
+		}
+		if ((match = new RegExp(`^TRUNCATE (?:TABLE )?(?:ONLY )?${NAME}`, "i").exec(code))) {
+			return lock("ACCESS EXCLUSIVE", [match[1]]);
+		}
+		if ((match = new RegExp(`^CREATE OR REPLACE (?:TEMP(?:ORARY)? )?(?:RECURSIVE )?VIEW ${NAME}`, "i").exec(code))) {
+			return lock("ACCESS EXCLUSIVE", [match[1]]);
+		}
+		if ((match = new RegExp(`^REFRESH MATERIALIZED VIEW (CONCURRENTLY )?${NAME}`, "i").exec(code))) {
+			return match[1]
+				? lock("EXCLUSIVE", [match[2]], { scansTable: true })
+				: lock("ACCESS EXCLUSIVE", [match[2]], { rewritesTable: true });
+		}
+		if ((match = new RegExp(`^(?:UPDATE (?:ONLY )?|DELETE FROM (?:ONLY )?)${NAME}`, "i").exec(code))) {
+			return lock("ROW EXCLUSIVE", [match[1]], { scansTable: !/\bWHERE\b/i.test(code) });
+		}
+		if ((match = new RegExp(`^INSERT INTO ${NAME}`, "i").exec(code))) {
+			return lock("ROW EXCLUSIVE", [match[1]]);
+		}
+		if (/^DO\b/i.test(code)) {
+			const updated = new RegExp(`\\bUPDATE (?:ONLY )?${NAME} SET\\b`, "i").exec(code);
+			return updated
+				? lock("ROW EXCLUSIVE", [updated[1]], {
+						scansTable: true,
+						note: /\bCOMMIT\b/i.test(code) ? "Updates rows in batches, committing after each" : undefined,
+					})
+				: none;
+		}
+		if ((match = /^VACUUM (?:\(([^)]*)\)|(FULL))/i.exec(code)) && (match[2] || /\bFULL\b/i.test(match[1] || ""))) {
+			const table = new RegExp(`${NAME}\\s*;?$`, "i").exec(code);
+			return lock("ACCESS EXCLUSIVE", [table?.[1]], { rewritesTable: true });
+		}
+		if (/^(VACUUM|ANALYZE)\b/i.test(code)) {
+			const table = new RegExp(`^(?:VACUUM|ANALYZE)(?: \\([^)]*\\))?(?: VERBOSE)? ${NAME}`, "i").exec(code);
+			return lock("SHARE UPDATE EXCLUSIVE", [table?.[1]], { scansTable: true });
+		}
+		if ((match = new RegExp(`^CLUSTER (?:VERBOSE )?${NAME}`, "i").exec(code))) {
+			return lock("ACCESS EXCLUSIVE", [match[1]], { rewritesTable: true });
+		}
+		if ((match = new RegExp(`^LOCK (?:TABLE )?(?:ONLY )?${NAME}(?: IN ([A-Z ]+?) MODE)?`, "i").exec(code))) {
+			const mode = (match[2] || "ACCESS EXCLUSIVE").toUpperCase() as PostgresLockMode;
+			return lock(LOCK_MODE_ORDER.includes(mode) ? mode : "ACCESS EXCLUSIVE", [match[1]]);
+		}
+		return none;
+	}
+
+	/**
+	 * ALTER TABLE takes the strongest lock any of its subcommands needs
+	 */
+	private matchAlterTableRule(table: string, actions: string): LockRule {
+		const rule: LockRule = { lockMode: undefined, relations: [table], rewritesTable: false, scansTable: false };
+		const notes: string[] = [];
+		const take = (lockMode: PostgresLockMode, extra: { rewrites?: boolean; scans?: boolean; note?: string } = {}) => {
+			if (LockImpactAnalyzer.isStronger(lockMode, rule.lockMode)) {
+				rule.lockMode = lockMode;
+			}
+			rule.rewritesTable ||= !!extra.rewrites;
+			rule.scansTable ||= !!extra.scans;
+			if (extra.note) {
+				notes.push(extra.note);
+			}
+		};
+
+		for (const action of this.splitTopLevel(actions)) {
+			const notValid = /\bNOT VALID\b/i.test(action);
+			let match: RegExpExecArray | null;
+
+			if (/^VALIDATE CONSTRAINT\b/i.test(action)) {
+				take("SHARE UPDATE EXCLUSIVE", { scans: true });
+			} else if (/^ADD (?:CONSTRAINT \S+ )?FOREIGN KEY\b/i.test(action)) {
+				take("SHARE ROW EXCLUSIVE", { scans: !notValid });
+				const referenced = new RegExp(`\\bREFERENCES ${NAME}`, "i").exec(action);
+				if (referenced) {
+					rule.relations.push(referenced[1]);
+				}
+			} else if (/^ADD (?:CONSTRAINT \S+ )?CHECK\b/i.test(action)) {
+				take("ACCESS EXCLUSIVE", { scans: !notValid });
+			} else if (/^ADD (?:CONSTRAINT \S+ )?(?:PRIMARY KEY|UNIQUE|EXCLUDE)\b/i.test(action)) {
+				take("ACCESS EXCLUSIVE", { scans: !/\bUSING INDEX \S+$/i.test(action) });
+			} else if ((match = /^ADD (?:COLUMN )?(?:IF NOT EXISTS )?(.*)$/i.exec(action))) {
+				const rewrites =
+					/\bGENERATED ALWAYS AS \(.*\) STORED\b/i.test(match[1]) ||
+					/\bAS IDENTITY\b/i.test(match[1]) ||
+					/^\S+ (?:small|big)?serial\b/i.test(match[1]) ||
+					VOLATILE_DEFAULT.test(match[1]);
+				take("ACCESS EXCLUSIVE", {
+					rewrites,
+					note: rewrites ? "The new column's value is computed for every row" : undefined,
+				});
+			} else if (/^ALTER (?:COLUMN )?\S+ (?:SET DATA )?TYPE\b/i.test(action)) {
+				take("ACCESS EXCLUSIVE", {
+					rewrites: true,
+					note: "Rewrites the table unless the change only relaxes a length or precision limit",
+				});
+			} else if (/^ALTER (?:COLUMN )?\S+ SET NOT NULL\b/i.test(action)) {
+				take("ACCESS EXCLUSIVE", {
+					scans: true,
+					note: "The scan is skipped when a validated CHECK (column IS NOT NULL) exists",
+				});
+			} else if (/^SET (?:TABLESPACE|LOGGED|UNLOGGED|WITHOUT OIDS)\b/i.test(action)) {
+				take("ACCESS EXCLUSIVE", { rewrites: true });
+			} else if (/^(?:ENABLE|DISABLE) (?:ALWAYS |REPLICA )?TRIGGER\b/i.test(action)) {
+				take("SHARE ROW EXCLUSIVE");
+			} else if (
+				/^(?:ALTER (?:COLUMN )?\S+ SET STATISTICS|SET \(|RESET \(|CLUSTER ON|SET WITHOUT CLUSTER)/i.test(action) ||
+				/^ATTACH PARTITION\b/i.test(action) ||
+				/^DETACH PARTITION\b.*\bCONCURRENTLY\b/i.test(action)
+			) {
+				take("SHARE UPDATE EXCLUSIVE");
+			} else {
+				take("ACCESS EXCLUSIVE");
+			}
+		}
+
+		return { ...rule, note: notes.length > 0 ? notes.join("; ") : undefined };
+	}
+
+	/**
+	 * Splits ALTER TABLE subcommands on commas outside parentheses and quotes
+	 */
+	private splitTopLevel(actions: string): string[] {
+		const parts: string[] = [];
+		let depth = 0;
+		let quote = "";
+		let current = "";
+		for (const char of actions.replace(/;\s*$/, "")) {
+			if (quote) {
+				quote = char === quote ? "" : quote;
+			} else if (char === "'" || char === '"') {
+				quote = char;
+			} else if (char === "(") {
+				depth++;
+			} else if (char === ")") {
+				depth--;
+			} else if (char === "," && depth === 0) {
+				parts.push(current.trim());
+				current = "";
+				continue;
+			}
+			current += char;
+		}
+		parts.push(current.trim());
+		return parts.filter((part) => part.length > 0);
+	}
+
+	/**
+	 * Row estimates and on-disk sizes from pg_class, keyed by the relation names as written in the statements
+	 */
+	private async getRelationSizes(connectionId: string, names: string[]): Promise<Map<string, RelationSizeEstimate>> {
+		const sizes = new Map<string, RelationSizeEstimate>();
+		if (names.length === 0) {
+			return sizes;
+		}
+
+		try {
+			await this.queryService.withPinnedClient(connectionId, async (client) => {
+				const result = await client.query(
+					`SELECT r.name, format('%I.%I', n.nspname, c.relname) AS qualified_name,
+						c.reltuples::bigint AS estimated_rows, pg_total_relation_size(c.oid) AS total_bytes
+					FROM unnest($1::text[]) AS r(name)
+					JOIN pg_class c ON c.oid = to_regclass(r.name)
+					JOIN pg_namespace n ON n.oid = c.relnamespace`,
+					[names],
+				);
+				for (const row of result.rows) {
+					const estimatedRows = Number(row.estimated_rows);
+					sizes.set(row.name, {
+						name: row.qualified_name,
+						// reltuples is -1 until the relation is first vacuumed or analyzed
+						estimatedRows: estimatedRows >= 0 ? estimatedRows : undefined,
+						totalBytes: Number(row.total_bytes),
+					});
+				}
+			});
+		} catch (error) {
+			// Sizes only refine the analysis; the lock levels stand without them
+			Logger.warn("Could not read relation sizes for lock impact analysis", "getRelationSizes", {
+				connectionId,
+				error: (error as Error).message,
+			});
+		}
+		return sizes;
+	}
+}
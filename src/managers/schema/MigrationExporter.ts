@@ -0,0 +1,510 @@
+import { Logger } from "@/utils/Logger";
+import { EnhancedMigrationScript, MigrationStep } from "./MigrationTypes";
+
+export type MigrationExportFormat = "flyway" | "liquibase-xml" | "liquibase-yaml" | "dbmate" | "sqitch";
+
+export const MIGRATION_EXPORT_FORMATS: Record<MigrationExportFormat, string> = {
+	flyway: "Flyway versioned migration (V<n>__name.sql, plus U<n>__name.sql undo)",
+	"liquibase-xml": "Liquibase XML changelog with rollback blocks",
+	"liquibase-yaml": "Liquibase YAML changelog with rollback blocks",
+	dbmate: "dbmate migration with up and down sections",
+	sqitch: "sqitch deploy/revert/verify scripts and plan entries",
+};
+
+export interface MigrationExportOptions {
+	/** Author recorded in Liquibase change sets and the sqitch plan; defaults to the OS user */
+	author?: string;
+	/** Short description used in file and change names; defaults to the script name */
+	description?: string;
+}
+
+export interface ExportedMigrationFile {
+	/** Path relative to the export directory, using forward slashes */
+	relativePath: string;
+	content: string;
+	/** Appended to an existing file instead of creating a new one */
+	append?: boolean;
+}
+
+export interface MigrationExportResult {
+	format: MigrationExportFormat;
+	directory: string;
+	files: string[];
+	warnings: string[];
+}
+
+/**
+ * Statements that cannot run inside the transaction dbmate and sqitch wrap each migration in
+ */
+const NON_TRANSACTIONAL_SQL =
+	/^\s*(CREATE\s+(UNIQUE\s+)?INDEX\s+CONCURRENTLY|DROP\s+INDEX\s+CONCURRENTLY|REINDEX\b.*\bCONCURRENTLY|VACUUM)\b/im;
+
+/**
+ * MigrationExporter - Writes a generated migration script in the on-disk layout of a migration tool
+ * Existing files are never overwritten; the sqitch plan is appended to
+ */
+export class MigrationExporter {
+	/**
+	 * Export a script into a directory: the Flyway/dbmate migrations folder, the Liquibase changelog folder
+	 * or the sqitch project root
+	 */
+	async exportScript(
+		script: EnhancedMigrationScript,
+		format: MigrationExportFormat,
+		directory: string,
+		options: MigrationExportOptions = {},
+	): Promise<MigrationExportResult> {
+		const fs = require("fs").promises;
+		const path = require("path");
+
+		try {
+			const { files, warnings } = await this.buildFiles(script, format, directory, options);
+
+			for (const file of files) {
+				const filePath = path.join(directory, ...file.relativePath.split("/"));
+				if (!file.append && (await this.pathExists(filePath))) {
+					throw new Error(`${file.relativePath} already exists in ${directory}`);
+				}
+			}
+
+			for (const file of files) {
+				const filePath = path.join(directory, ...file.relativePath.split("/"));
+				await fs.mkdir(path.dirname(filePath), { recursive: true });
+				if (file.append) {
+					await fs.appendFile(filePath, file.content, "utf8");
+				} else {
+					await fs.writeFile(filePath, file.content, "utf8");
+				}
+			}
+
+			Logger.info("Migration exported", "exportScript", {
+				scriptId: script.id,
+				format,
+				directory,
+				fileCount: files.length,
+				warnings: warnings.length,
+			});
+
+			return { format, directory, files: files.map((file) => file.relativePath), warnings };
+		} catch (error) {
+			Logger.error("Failed to export migration", error as Error, "exportScript", {
+				scriptId: script.id,
+				format,
+				directory,
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Build the files for an export without writing them; the directory is read for existing
+	 * Flyway versions and the sqitch plan
+	 */
+	async buildFiles(
+		script: EnhancedMigrationScript,
+		format: MigrationExportFormat,
+		directory: string,
+		options: MigrationExportOptions = {},
+	): Promise<{ files: ExportedMigrationFile[]; warnings: string[] }> {
+		if (script.migrationSteps.length === 0) {
+			throw new Error("The migration has no steps to export");
+		}
+
+		switch (format) {
+			case "flyway":
+				return this.buildFlywayFiles(script, directory, options);
+			case "liquibase-xml":
+				return this.buildLiquibaseXml(script, options);
+			case "liquibase-yaml":
+				return this.buildLiquibaseYaml(script, options);
+			case "dbmate":
+				return this.buildDbmateFiles(script, options);
+			case "sqitch":
+				return this.buildSqitchFiles(script, directory, options);
+			default:
+				throw new Error(`Unsupported migration export format: ${format}`);
+		}
+	}
+
+	private async buildFlywayFiles(
+		script: EnhancedMigrationScript,
+		directory: string,
+		options: MigrationExportOptions,
+	): Promise<{ files: ExportedMigrationFile[]; warnings: string[] }> {
+		// Continue an existing numbering, otherwise version by generation time so parallel branches rarely collide
+		const existingVersions = (await this.readDirectory(directory))
+			.map((name) => /^V(\d+)(?:[._]\d+)*__/.exec(name)?.[1])
+			.filter((version): version is string => !!version)
+			.map((version) => BigInt(version));
+		const version =
+			existingVersions.length > 0
+				? (existingVersions.reduce((max, value) => (value > max ? value : max)) + 1n).toString()
+				: this.formatTimestamp(script);
+		const name = this.slugify(options.description || script.name);
+
+		const files: ExportedMigrationFile[] = [
+			{
+				relativePath: `V${version}__${name}.sql`,
+				content: this.joinSections([
+					this.formatHeader(script),
+					...script.migrationSteps.map((step) => this.formatStep(step)),
+				]),
+			},
+		];
+		const warnings: string[] = [];
+
+		const missingRollback = this.getStepsWithoutRollback(script);
+		if (missingRollback.length === 0) {
+			files.push({
+				relativePath: `U${version}__${name}.sql`,
+				content: this.joinSections([
+					`-- Undo for V${version}__${name}.sql`,
+					...this.reversedSteps(script).map((step) => this.formatStep(step, step.rollbackSql)),
+				]),
+			});
+		} else {
+			warnings.push(
+				`No undo migration written: ${missingRollback.length} step(s) have no rollback SQL (${this.describeSteps(missingRollback)})`,
+			);
+		}
+
+		return { files, warnings };
+	}
+
+	private buildLiquibaseXml(
+		script: EnhancedMigrationScript,
+		options: MigrationExportOptions,
+	): { files: ExportedMigrationFile[]; warnings: string[] } {
+		const author = this.getAuthor(options);
+		const changeSets = script.migrationSteps.map((step) => {
+			const lines = [
+				`    <changeSet id="${this.escapeXml(`${script.id}-${step.order}`)}" author="${this.escapeXml(author)}"${this.runsOutsideTransaction(step) ? ' runInTransaction="false"' : ""}>`,
+				`        <comment>${this.escapeXml(step.description)}</comment>`,
+				`        <sql splitStatements="false" stripComments="false"><![CDATA[${this.escapeCData(step.sqlScript.trim())}]]></sql>`,
+			];
+			if (this.hasExecutableSql(step.rollbackSql)) {
+				lines.push(
+					"        <rollback>",
+					`            <sql splitStatements="false" stripComments="false"><![CDATA[${this.escapeCData(step.rollbackSql!.trim())}]]></sql>`,
+					"        </rollback>",
+				);
+			}
+			lines.push("    </changeSet>");
+			return lines.join("\n");
+		});
+
+		const content = [
+			'<?xml version="1.0" encoding="UTF-8"?>',
+			"<databaseChangeLog",
+			'    xmlns="http://www.liquibase.org/xml/ns/dbchangelog"',
+			'    xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+			'    xsi:schemaLocation="http://www.liquibase.org/xml/ns/dbchangelog http://www.liquibase.org/xml/ns/dbchangelog/dbchangelog-latest.xsd">',
+			`    <!-- ${this.escapeXml(script.description).replace(/--/g, "- -")} -->`,
+			...changeSets,
+			"</databaseChangeLog>",
+			"",
+		].join("\n");
+
+		return {
+			files: [{ relativePath: `${this.getChangelogName(script, options)}.xml`, content }],
+			warnings: this.getLiquibaseWarnings(script),
+		};
+	}
+
+	private buildLiquibaseYaml(
+		script: EnhancedMigrationScript,
+		options: MigrationExportOptions,
+	): { files: ExportedMigrationFile[]; warnings: string[] } {
+		const author = this.getAuthor(options);
+		const sqlChange = (sql: string, indent: string) => [
+			`${indent}- sql:`,
+			`${indent}    splitStatements: false`,
+			`${indent}    stripComments: false`,
+			`${indent}    sql: |-`,
+			...sql
+				.trim()
+				.split("\n")
+				.map((line) => (line.trim() ? `${indent}      ${line}` : "")),
+		];
+
+		const lines = [`# ${script.description}`, "databaseChangeLog:"];
+		for (const step of script.migrationSteps) {
+			lines.push(
+				"  - changeSet:",
+				`      id: ${JSON.stringify(`${script.id}-${step.order}`)}`,
+				`      author: ${JSON.stringify(author)}`,
+				...(this.runsOutsideTransaction(step) ? ["      runInTransaction: false"] : []),
+				`      comment: ${JSON.stringify(step.description)}`,
+				"      changes:",
+				...sqlChange(step.sqlScript, "        "),
+			);
+			if (this.hasExecutableSql(step.rollbackSql)) {
+				lines.push("      rollback:", ...sqlChange(step.rollbackSql!, "        "));
+			}
+		}
+		lines.push("");
+
+		return {
+			files: [{ relativePath: `${this.getChangelogName(script, options)}.yaml`, content: lines.join("\n") }],
+			warnings: this.getLiquibaseWarnings(script),
+		};
+	}
+
+	private buildDbmateFiles(
+		script: EnhancedMigrationScript,
+		options: MigrationExportOptions,
+	): { files: ExportedMigrationFile[]; warnings: string[] } {
+		const warnings: string[] = [];
+		const upNeedsNoTransaction = script.migrationSteps.some((step) => this.runsOutsideTransaction(step));
+		const downNeedsNoTransaction = script.migrationSteps.some((step) =>
+			NON_TRANSACTIONAL_SQL.test(step.rollbackSql || ""),
+		);
+		if (upNeedsNoTransaction) {
+			warnings.push(
+				"The up migration runs without a transaction because it contains steps that cannot run in one (CONCURRENTLY, VACUUM or batched backfills)",
+			);
+		}
+
+		const missingRollback = this.getStepsWithoutRollback(script);
+		const down =
+			missingRollback.length === 0
+				? this.reversedSteps(script).map((step) => this.formatStep(step, step.rollbackSql))
+				: [`-- No rollback SQL for: ${this.describeSteps(missingRollback)}`];
+		if (missingRollback.length > 0) {
+			warnings.push(`The down section is empty: ${missingRollback.length} step(s) have no rollback SQL`);
+		}
+
+		// dbmate expects the file to open with the up marker
+		const content = this.joinSections([
+			`-- migrate:up${upNeedsNoTransaction ? " transaction:false" : ""}\n${this.formatHeader(script)}`,
+			...script.migrationSteps.map((step) => this.formatStep(step)),
+			`-- migrate:down${downNeedsNoTransaction ? " transaction:false" : ""}`,
+			...down,
+		]);
+
+		return {
+			files: [
+				{
+					relativePath: `${this.formatTimestamp(script)}_${this.slugify(options.description || script.name)}.sql`,
+					content,
+				},
+			],
+			warnings,
+		};
+	}
+
+	private async buildSqitchFiles(
+		script: EnhancedMigrationScript,
+		directory: string,
+		options: MigrationExportOptions,
+	): Promise<{ files: ExportedMigrationFile[]; warnings: string[] }> {
+		const fs = require("fs").promises;
+		const path = require("path");
+		const os = require("os");
+		const warnings: string[] = [];
+
+		const planPath = path.join(directory, "sqitch.plan");
+		const existingPlan: string | undefined = (await this.pathExists(planPath))
+			? await fs.readFile(planPath, "utf8")
+			: undefined;
+		const project =
+			/^%project=(\S+)/m.exec(existingPlan || "")?.[1] || this.slugify(path.basename(directory)) || "migrations";
+		if (!(await this.pathExists(path.join(directory, "sqitch.conf")))) {
+			warnings.push(`No sqitch.conf in ${directory}; run "sqitch init ${project} --engine pg" there before deploying`);
+		}
+
+		// Change names must be unique within the plan
+		const usedNames = new Set(
+			(existingPlan || "")
+				.split("\n")
+				.map((line) => /^([A-Za-z_][^\s[@]*)\s/.exec(line)?.[1])
+				.filter((name): name is string => !!name),
+		);
+
+		const planner = `${this.getAuthor(options)} <${os.userInfo().username}@${os.hostname()}>`;
+		const plannedAt = new Date(script.generatedAt).toISOString().replace(/\.\d{3}Z$/, "Z");
+		const files: ExportedMigrationFile[] = [];
+		const planLines: string[] = [];
+		const revertless: MigrationStep[] = [];
+
+		for (const step of script.migrationSteps) {
+			const baseName = this.slugify(`${step.operation}_${step.objectType}_${step.schema}_${step.objectName}`);
+			let change = /^[A-Za-z_]/.test(baseName) ? baseName : `change_${baseName}`;
+			for (let suffix = 2; usedNames.has(change); suffix++) {
+				change = `${baseName}_${suffix}`;
+			}
+			usedNames.add(change);
+
+			const transactional = !this.runsOutsideTransaction(step);
+			files.push({
+				relativePath: `deploy/${change}.sql`,
+				content: this.formatSqitchScript(
+					`-- Deploy ${project}:${change} to pg`,
+					step.sqlScript,
+					transactional ? "COMMIT" : undefined,
+				),
+			});
+
+			if (this.hasExecutableSql(step.rollbackSql)) {
+				files.push({
+					relativePath: `revert/${change}.sql`,
+					content: this.formatSqitchScript(
+						`-- Revert ${project}:${change} from pg`,
+						step.rollbackSql!,
+						NON_TRANSACTIONAL_SQL.test(step.rollbackSql!) ? undefined : "COMMIT",
+					),
+				});
+			} else {
+				revertless.push(step);
+				files.push({
+					relativePath: `revert/${change}.sql`,
+					content: this.formatSqitchScript(
+						`-- Revert ${project}:${change} from pg`,
+						`DO $$ BEGIN RAISE EXCEPTION 'No rollback SQL was generated for ${step.name.replace(/'/g, "''")}'; END $$;`,
+						"COMMIT",
+					),
+				});
+			}
+
+			// Verify scripts must fail when the change is missing; 1/count(*) divides by zero on an empty result
+			const verifyQuery = this.hasExecutableSql(step.verificationQuery)
+				? `SELECT 1/count(*) FROM (${step.verificationQuery!.trim().replace(/;\s*$/, "")}) AS verified;`
+				: "-- No verification query was generated for this change";
+			files.push({
+				relativePath: `verify/${change}.sql`,
+				content: this.formatSqitchScript(`-- Verify ${project}:${change} on pg`, verifyQuery, "ROLLBACK"),
+			});
+
+			planLines.push(`${change} ${plannedAt} ${planner} # ${step.description.replace(/\n/g, " ")}`);
+		}
+
+		if (revertless.length > 0) {
+			warnings.push(`Revert scripts raise an error for steps without rollback SQL: ${this.describeSteps(revertless)}`);
+		}
+
+		const planHeader = existingPlan === undefined ? `%syntax-version=1.0.0\n%project=${project}\n\n` : "";
+		const separator = existingPlan && !existingPlan.endsWith("\n") ? "\n" : "";
+		files.push({
+			relativePath: "sqitch.plan",
+			content: `${separator}${planHeader}${planLines.join("\n")}\n`,
+			append: existingPlan !== undefined,
+		});
+
+		return { files, warnings };
+	}
+
+	private formatSqitchScript(header: string, sql: string, terminator: "COMMIT" | "ROLLBACK" | undefined): string {
+		return terminator
+			? `${header}\n\nBEGIN;\n\n${sql.trim()}\n\n${terminator};\n`
+			: `${header}\n-- Runs outside a transaction: PostgreSQL does not allow these statements in one\n\n${sql.trim()}\n`;
+	}
+
+	private formatHeader(script: EnhancedMigrationScript): string {
+		return [
+			`-- ${script.name}`,
+			`-- ${script.description}`,
+			`-- Script ID: ${script.id}`,
+			`-- Generated: ${new Date(script.generatedAt).toISOString()}`,
+		].join("\n");
+	}
+
+	private formatStep(step: MigrationStep, sql: string = step.sqlScript): string {
+		return `-- Step ${step.order}: ${step.name}\n${sql.trim()}`;
+	}
+
+	private joinSections(sections: string[]): string {
+		return `${sections.join("\n\n")}\n`;
+	}
+
+	private reversedSteps(script: EnhancedMigrationScript): MigrationStep[] {
+		return [...script.migrationSteps].sort((a, b) => b.order - a.order);
+	}
+
+	private getStepsWithoutRollback(script: EnhancedMigrationScript): MigrationStep[] {
+		return script.migrationSteps.filter((step) => !this.hasExecutableSql(step.rollbackSql));
+	}
+
+	private getLiquibaseWarnings(script: EnhancedMigrationScript): string[] {
+		const missingRollback = this.getStepsWithoutRollback(script);
+		return missingRollback.length > 0
+			? [`Change sets without a rollback block: ${this.describeSteps(missingRollback)}`]
+			: [];
+	}
+
+	private describeSteps(steps: MigrationStep[]): string {
+		return steps.map((step) => `step ${step.order} ${step.name}`).join(", ");
+	}
+
+	/**
+	 * True for steps the generator marked as non-transactional and steps with statements PostgreSQL
+	 * refuses inside a transaction block
+	 */
+	private runsOutsideTransaction(step: MigrationStep): boolean {
+		return step.transactional === false || NON_TRANSACTIONAL_SQL.test(step.sqlScript);
+	}
+
+	/**
+	 * True when SQL contains something other than comments, such as the placeholder comments
+	 * the generator emits when it cannot produce rollback SQL
+	 */
+	private hasExecutableSql(sql: string | undefined): boolean {
+		return (
+			!!sql &&
+			sql
+				.replace(/\/\*[\s\S]*?\*\//g, "")
+				.replace(/--[^\n]*/g, "")
+				.trim().length > 0
+		);
+	}
+
+	private getChangelogName(script: EnhancedMigrationScript, options: MigrationExportOptions): string {
+		return `changelog-${this.formatTimestamp(script)}-${this.slugify(options.description || script.name)}`;
+	}
+
+	private getAuthor(options: MigrationExportOptions): string {
+		return options.author || require("os").userInfo().username;
+	}
+
+	/**
+	 * UTC generation time as YYYYMMDDHHMMSS, the version format dbmate uses
+	 */
+	private formatTimestamp(script: EnhancedMigrationScript): string {
+		return new Date(script.generatedAt).toISOString().replace(/\D/g, "").slice(0, 14);
+	}
+
+	private slugify(value: string): string {
+		return value
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, "_")
+			.replace(/^_+|_+$/g, "")
+			.slice(0, 60);
+	}
+
+	private escapeXml(value: string): string {
+		return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+	}
+
+	private escapeCData(value: string): string {
+		return value.replace(/]]>/g, "]]]]><![CDATA[>");
+	}
+
+	private async readDirectory(directory: string): Promise<string[]> {
+		try {
+			return await require("fs").promises.readdir(directory);
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+				return [];
+			}
+			throw error;
+		}
+	}
+
+	private async pathExists(filePath: string): Promise<boolean> {
+		try {
+			await require("fs").promises.access(filePath);
+			return true;
+		} catch {
+			return false;
+		}
+	}
+}
@@ -0,0 +1,349 @@
+import { createHash } from "crypto";
+import { PoolClient } from "pg";
+import { QueryExecutionService } from "@/services/QueryExecutionService";
+import { Logger } from "@/utils/Logger";
+import { EnhancedMigrationScript, MigrationExecutionResult, RollbackStep } from "./MigrationTypes";
+
+/**
+ * Where the ledger table lives in each target database
+ */
+export interface MigrationLedgerLocation {
+	schema: string;
+	table: string;
+}
+
+export const DEFAULT_MIGRATION_LEDGER_LOCATION: MigrationLedgerLocation = {
+	schema: "public",
+	table: "pgschemasync_migrations",
+};
+
+export type LedgerOutcome = "running" | "completed" | "failed" | "rolled_back" | "rolling_back";
+
+/**
+ * One row of the ledger: a migration script run against the database
+ */
+export interface AppliedMigration {
+	scriptId: string;
+	name: string;
+	checksum: string;
+	appliedBy: string;
+	databaseUser: string;
+	startedAt: Date;
+	finishedAt?: Date;
+	executionTimeMs?: number;
+	outcome: LedgerOutcome;
+	stepCount: number;
+	failedSteps: number;
+	errorMessage?: string;
+	sqlScript: string;
+	/** Reverse steps recorded with the run, in execution order; absent for runs recorded without them */
+	rollbackSteps?: RollbackStep[];
+	/** When the Rollback Migration command reverted the run */
+	rolledBackAt?: Date;
+}
+
+/**
+ * A run registered in the ledger, returned by beginRun and handed back to finishRun
+ */
+export interface LedgerRun {
+	scriptId: string;
+	checksum: string;
+	/** The earlier failed or rolled back run this one retries */
+	previous?: AppliedMigration;
+	warnings: string[];
+}
+
+/**
+ * MigrationLedger - Records applied migration scripts in a table inside the target database
+ * A script ID can be applied once; later attempts are refused, and a changed checksum is reported
+ */
+export class MigrationLedger {
+	constructor(
+		private queryService: QueryExecutionService,
+		readonly getLocation: () => MigrationLedgerLocation = () => DEFAULT_MIGRATION_LEDGER_LOCATION,
+	) {}
+
+	/**
+	 * Checksum of the SQL a script runs, so an edited script can be told apart from the one that was applied
+	 */
+	static computeChecksum(script: EnhancedMigrationScript): string {
+		return createHash("sha256").update(MigrationLedger.getScriptSql(script)).digest("hex");
+	}
+
+	/**
+	 * Claim a script for execution: refuses scripts already applied or currently running,
+	 * and records a running row that finishRun later completes
+	 * @throws Error if the script ID was already applied or is being applied
+	 */
+	async beginRun(connectionId: string, script: EnhancedMigrationScript): Promise<LedgerRun> {
+		const checksum = MigrationLedger.computeChecksum(script);
+		const os = require("os");
+
+		return this.queryService.withPinnedClient(connectionId, async (client) => {
+			await this.ensureTable(client);
+			const tableName = this.getQualifiedTableName();
+			const existing = await this.findRun(client, script.id);
+			const warnings: string[] = [];
+
+			if (existing && existing.checksum !== checksum) {
+				const warning = `Migration ${script.id} changed since it was last run (checksum ${existing.checksum.slice(0, 12)} is now ${checksum.slice(0, 12)})`;
+				Logger.warn(warning, "beginRun", { connectionId, scriptId: script.id, outcome: existing.outcome });
+				warnings.push(warning);
+			}
+			if (existing?.outcome === "completed") {
+				throw new Error(
+					`Migration ${script.id} was already applied on ${existing.startedAt.toISOString()} by ${existing.appliedBy}${warnings.length > 0 ? `; ${warnings[0]}` : ""}`,
+				);
+			}
+
+			// Only failed and rolled back runs may be retried; the WHERE clause keeps concurrent claims exclusive
+			const claimed = await client.query(
+				`INSERT INTO ${tableName} (script_id, name, checksum, applied_by, started_at, outcome, step_count, sql_script, rollback_steps)
+				VALUES ($1, $2, $3, $4, now(), 'running', $5, $6, $7)
+				ON CONFLICT (script_id) DO UPDATE SET
+					name = EXCLUDED.name, checksum = EXCLUDED.checksum, applied_by = EXCLUDED.applied_by,
+					database_user = current_user, started_at = now(), finished_at = NULL, execution_time_ms = NULL,
+					outcome = 'running', step_count = EXCLUDED.step_count, failed_steps = 0, error_message = NULL,
+					sql_script = EXCLUDED.sql_script, rollback_steps = EXCLUDED.rollback_steps, rolled_back_at = NULL
+				WHERE ${tableName}.outcome IN ('failed', 'rolled_back')
+				RETURNING script_id`,
+				[
+					script.id,
+					script.name,
+					checksum,
+					os.userInfo().username,
+					script.migrationSteps.length,
+					MigrationLedger.getScriptSql(script),
+					JSON.stringify(script.rollbackScript?.steps.filter((step) => step.sqlScript) || []),
+				],
+			);
+			if (claimed.rowCount === 0) {
+				const current = await this.findRun(client, script.id);
+				throw new Error(
+					current?.outcome === "completed"
+						? `Migration ${script.id} was already applied on ${current.startedAt.toISOString()} by ${current.appliedBy}`
+						: `Migration ${script.id} is already running since ${current?.startedAt.toISOString()} (started by ${current?.appliedBy}); if that run was interrupted, delete its row from ${tableName}`,
+				);
+			}
+
+			Logger.info("Migration run recorded in ledger", "beginRun", {
+				connectionId,
+				scriptId: script.id,
+				checksum,
+				retry: !!existing,
+			});
+			return { scriptId: script.id, checksum, previous: existing, warnings };
+		});
+	}
+
+	/**
+	 * Record how a run claimed with beginRun ended
+	 * @param error - Set when execution threw before producing a final result
+	 */
+	async finishRun(
+		connectionId: string,
+		run: LedgerRun,
+		result: MigrationExecutionResult | undefined,
+		error?: Error,
+	): Promise<void> {
+		const outcome: LedgerOutcome = error
+			? "failed"
+			: result?.status === "completed"
+				? "completed"
+				: result?.transactionOutcome === "rolled_back"
+					? "rolled_back"
+					: "failed";
+		const errorMessage =
+			error?.message ?? (result?.status === "cancelled" ? "Cancelled by user" : result?.errors?.join("\n"));
+
+		try {
+			await this.queryService.withPinnedClient(connectionId, async (client) => {
+				await client.query(
+					`UPDATE ${this.getQualifiedTableName()} SET
+						finished_at = now(),
+						execution_time_ms = (extract(epoch FROM now() - started_at) * 1000)::integer,
+						outcome = $2, failed_steps = $3, error_message = $4
+					WHERE script_id = $1`,
+					[run.scriptId, outcome, result?.failedSteps ?? 0, errorMessage || null],
+				);
+			});
+			Logger.info("Migration outcome recorded in ledger", "finishRun", {
+				connectionId,
+				scriptId: run.scriptId,
+				outcome,
+			});
+		} catch (updateError) {
+			// The migration itself already ran; a ledger write failure must not mask its result
+			Logger.error("Failed to record migration outcome in ledger", updateError as Error, "finishRun", {
+				connectionId,
+				scriptId: run.scriptId,
+				outcome,
+			});
+		}
+	}
+
+	/**
+	 * Claim a completed run for rolling back, so it cannot be rolled back twice or concurrently
+	 * @returns The run with the rollback steps recorded when it was applied
+	 * @throws Error if the script was not applied, is being applied or rolled back, or has no rollback steps
+	 */
+	async beginRollback(connectionId: string, scriptId: string): Promise<AppliedMigration> {
+		return this.queryService.withPinnedClient(connectionId, async (client) => {
+			await this.ensureTable(client);
+			const run = await this.findRun(client, scriptId);
+			if (!run) {
+				throw new Error(`Migration ${scriptId} is not recorded in ${this.getQualifiedTableName()}`);
+			}
+			if (run.outcome !== "completed") {
+				throw new Error(
+					`Migration ${scriptId} cannot be rolled back while its outcome is ${run.outcome.replace("_", " ")}`,
+				);
+			}
+			if (!run.rollbackSteps?.length) {
+				throw new Error(`Migration ${scriptId} was recorded without rollback SQL`);
+			}
+
+			const claimed = await client.query(
+				`UPDATE ${this.getQualifiedTableName()} SET outcome = 'rolling_back'
+				WHERE script_id = $1 AND outcome = 'completed'`,
+				[scriptId],
+			);
+			if (claimed.rowCount === 0) {
+				throw new Error(`Migration ${scriptId} is already being rolled back`);
+			}
+
+			Logger.info("Migration rollback recorded in ledger", "beginRollback", { connectionId, scriptId });
+			return run;
+		});
+	}
+
+	/**
+	 * Record how a rollback claimed with beginRollback ended. A rollback that undid nothing leaves the
+	 * run completed; one that stopped after committing some steps marks it failed.
+	 * @param error - Set when the rollback threw before producing a final result
+	 */
+	async finishRollback(
+		connectionId: string,
+		scriptId: string,
+		result: MigrationExecutionResult | undefined,
+		error?: Error,
+	): Promise<void> {
+		const outcome: LedgerOutcome =
+			!error && result?.status === "completed"
+				? "rolled_back"
+				: error || result?.transactionOutcome === "rolled_back"
+					? "completed"
+					: "failed";
+		const errorMessage =
+			outcome === "rolled_back" ? null : `Rollback failed: ${error?.message ?? result?.errors?.join("\n")}`;
+
+		try {
+			await this.queryService.withPinnedClient(connectionId, async (client) => {
+				await client.query(
+					`UPDATE ${this.getQualifiedTableName()} SET
+						outcome = $2, error_message = $3,
+						rolled_back_at = CASE WHEN $2 = 'rolled_back' THEN now() END
+					WHERE script_id = $1`,
+					[scriptId, outcome, errorMessage],
+				);
+			});
+			Logger.info("Migration rollback outcome recorded in ledger", "finishRollback", {
+				connectionId,
+				scriptId,
+				outcome,
+			});
+		} catch (updateError) {
+			Logger.error("Failed to record migration rollback in ledger", updateError as Error, "finishRollback", {
+				connectionId,
+				scriptId,
+				outcome,
+			});
+		}
+	}
+
+	/**
+	 * Ledger rows for a database, newest first; empty when the ledger table does not exist yet
+	 */
+	async getHistory(connectionId: string, limit = 100): Promise<AppliedMigration[]> {
+		return this.queryService.withPinnedClient(connectionId, async (client) => {
+			const exists = await client.query("SELECT to_regclass($1) IS NOT NULL AS exists", [this.getQualifiedTableName()]);
+			if (!exists.rows[0]?.exists) {
+				return [];
+			}
+
+			const result = await client.query(
+				`SELECT * FROM ${this.getQualifiedTableName()} ORDER BY started_at DESC LIMIT $1`,
+				[limit],
+			);
+			return result.rows.map((row) => this.toAppliedMigration(row));
+		});
+	}
+
+	private async ensureTable(client: PoolClient): Promise<void> {
+		const location = this.getLocation();
+		await client.query(`CREATE SCHEMA IF NOT EXISTS ${this.quoteIdentifier(location.schema)}`);
+		await client.query(
+			`CREATE TABLE IF NOT EXISTS ${this.getQualifiedTableName()} (
+				script_id text PRIMARY KEY,
+				name text NOT NULL,
+				checksum text NOT NULL,
+				applied_by text NOT NULL,
+				database_user text NOT NULL DEFAULT current_user,
+				started_at timestamptz NOT NULL,
+				finished_at timestamptz,
+				execution_time_ms integer,
+				outcome text NOT NULL,
+				step_count integer NOT NULL,
+				failed_steps integer NOT NULL DEFAULT 0,
+				error_message text,
+				sql_script text NOT NULL,
+				rollback_steps jsonb,
+				rolled_back_at timestamptz
+			)`,
+		);
+		// Ledgers created before rollbacks were recorded
+		await client.query(
+			`ALTER TABLE ${this.getQualifiedTableName()}
+				ADD COLUMN IF NOT EXISTS rollback_steps jsonb,
+				ADD COLUMN IF NOT EXISTS rolled_back_at timestamptz`,
+		);
+	}
+
+	private async findRun(client: PoolClient, scriptId: string): Promise<AppliedMigration | undefined> {
+		const result = await client.query(`SELECT * FROM ${this.getQualifiedTableName()} WHERE script_id = $1`, [scriptId]);
+		return result.rows[0] ? this.toAppliedMigration(result.rows[0]) : undefined;
+	}
+
+	private toAppliedMigration(row: any): AppliedMigration {
+		return {
+			scriptId: row.script_id,
+			name: row.name,
+			checksum: row.checksum,
+			appliedBy: row.applied_by,
+			databaseUser: row.database_user,
+			startedAt: new Date(row.started_at),
+			finishedAt: row.finished_at ? new Date(row.finished_at) : undefined,
+			executionTimeMs: row.execution_time_ms ?? undefined,
+			outcome: row.outcome,
+			stepCount: row.step_count,
+			failedSteps: row.failed_steps,
+			errorMessage: row.error_message ?? undefined,
+			sqlScript: row.sql_script,
+			rollbackSteps: row.rollback_steps ?? undefined,
+			rolledBackAt: row.rolled_back_at ? new Date(row.rolled_back_at) : undefined,
+		};
+	}
+
+	private static getScriptSql(script: EnhancedMigrationScript): string {
+		return script.migrationSteps.map((step) => step.sqlScript.trim()).join("\n\n");
+	}
+
+	private getQualifiedTableName(): string {
+		const location = this.getLocation();
+		return `${this.quoteIdentifier(location.schema)}.${this.quoteIdentifier(location.table)}`;
+	}
+
+	private quoteIdentifier(identifier: string): string {
+		return `"${identifier.replace(/"/g, '""')}"`;
+	}
+}
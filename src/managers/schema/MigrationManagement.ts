@@ -1,20 +1,305 @@
+import { PoolClient } from "pg";
+import { QueryCancellationToken, QueryCancelledError } from "@/core/PostgreSqlConnectionManager";
 import { QueryExecutionService } from "@/services/QueryExecutionService";
 import { Logger } from "@/utils/Logger";
 import { ValidationFramework } from "../../core/ValidationFramework";
 import {
+	DryRunStepResult,
 	EnhancedMigrationScript,
+	MigrationDdlProfile,
 	MigrationDependency,
 	MigrationExecutionResult,
+	MigrationLockGuardOptions,
+	MigrationStatementFailure,
 	MigrationStep,
 	PostCondition,
 	PreCondition,
+	PreflightCheck,
 	RollbackScript,
 	RollbackStep,
 	SchemaSnapshot,
 	ValidationResult,
 	ValidationStep,
 } from "./MigrationTypes";
+import { AttributeChange } from "./AttributeDiffer";
+import { DependencyGraph } from "./DependencyGraph";
+import { LockImpactAnalyzer } from "./LockImpactAnalyzer";
+import { MigrationLedger } from "./MigrationLedger";
 import { SchemaDifference } from "./SchemaComparison";
+import { SchemaMapper } from "./SchemaMapper";
+import { TableColumnDefinition } from "./SchemaOperations";
+
+/**
+ * Object types in the order they can be created; each type only depends on types listed before it.
+ * Drops run in the reverse order.
+ */
+const OBJECT_CREATION_ORDER: string[] = [
+	"schema",
+	"default_privileges",
+	"extension",
+	"collation",
+	"enum",
+	"type",
+	"domain",
+	"sequence",
+	"function",
+	"procedure",
+	"aggregate",
+	"operator",
+	"foreign_server",
+	"table",
+	"foreign_table",
+	"column",
+	"view",
+	"materialized_view",
+	"index",
+	"constraint",
+	"trigger",
+	"rule",
+	"policy",
+	"publication",
+	"subscription",
+	"event_trigger",
+];
+
+/**
+ * DDL keywords for object types whose keyword is not simply the upper-cased type name
+ */
+const OBJECT_TYPE_KEYWORDS: Record<string, string> = {
+	materialized_view: "MATERIALIZED VIEW",
+	foreign_table: "FOREIGN TABLE",
+	foreign_server: "SERVER",
+	event_trigger: "EVENT TRIGGER",
+	enum: "TYPE",
+};
+
+/**
+ * Object types that hold no data of their own, so a rollback can drop one and recreate it from its
+ * earlier definition
+ */
+const RECREATABLE_OBJECT_TYPES = [
+	"view",
+	"materialized_view",
+	"function",
+	"procedure",
+	"aggregate",
+	"index",
+	"trigger",
+	"policy",
+	"rule",
+];
+
+/**
+ * Object class named in GRANT and REVOKE for each object type
+ */
+const GRANT_OBJECT_KEYWORDS: Record<string, string> = {
+	table: "TABLE",
+	view: "TABLE",
+	materialized_view: "TABLE",
+	foreign_table: "TABLE",
+	sequence: "SEQUENCE",
+	function: "FUNCTION",
+	procedure: "PROCEDURE",
+	aggregate: "FUNCTION",
+	schema: "SCHEMA",
+	domain: "DOMAIN",
+	type: "TYPE",
+	enum: "TYPE",
+	foreign_server: "FOREIGN SERVER",
+};
+
+/**
+ * Statements PostgreSQL refuses to run inside a transaction block, plus transaction control
+ * that would end the transaction a migration run holds open
+ */
+const NON_TRANSACTIONAL_STATEMENT_PATTERNS: RegExp[] = [
+	/^CREATE\s+(UNIQUE\s+)?INDEX\s+CONCURRENTLY\b/i,
+	/^DROP\s+INDEX\s+CONCURRENTLY\b/i,
+	/^REINDEX\b[\s\S]*\bCONCURRENTLY\b/i,
+	/^VACUUM\b/i,
+	/^(CREATE|DROP)\s+(DATABASE|TABLESPACE)\b/i,
+	/^ALTER\s+SYSTEM\b/i,
+	/^(BEGIN|START\s+TRANSACTION|COMMIT|END|ROLLBACK|ABORT|SAVEPOINT|RELEASE)\b/i,
+	// DO blocks that commit between batches
+	/^DO\b[\s\S]*\bCOMMIT\s*;/i,
+];
+
+/**
+ * VALIDATE CONSTRAINT scans the table under a SHARE UPDATE EXCLUSIVE lock, so the online profile
+ * runs it in its own transaction after the NOT VALID constraint has committed
+ */
+const VALIDATE_CONSTRAINT_PATTERN = /^ALTER\s+TABLE\b[\s\S]*\bVALIDATE\s+CONSTRAINT\b/i;
+
+/**
+ * Enum values added in a transaction cannot be used until it commits, so a dry run that never commits
+ * would report every later step using the value as failed
+ */
+const ENUM_ADD_VALUE_PATTERN = /^ALTER\s+TYPE\b[\s\S]*\bADD\s+VALUE\b/i;
+
+/**
+ * Rows the online backfill of an expand/contract type change updates per committed batch, walked in
+ * primary key order so each batch reads only its own key range
+ */
+const ONLINE_BACKFILL_BATCH_ROWS = 10000;
+
+/**
+ * What an expand/contract type change has to carry over from the old column to the new one: the indexes
+ * and constraints on the column, its comment and owned sequences, and the table's primary key the backfill
+ * walks. Anything else that depends on the column blocks the swap, since dropping the column would drop it.
+ */
+interface OnlineColumnDependents {
+	/** quote_ident form of the column name, as pg_get_indexdef prints it */
+	quotedName: string;
+	primaryKey: string[];
+	comment?: string;
+	ownedSequences: string[];
+	indexes: {
+		name: string;
+		method: string;
+		definition: string;
+		/** The column uses a non-default operator class, which may not exist for the new type */
+		customOpclass: boolean;
+		replicaIdentity: boolean;
+		clustered: boolean;
+		constraint?: { name: string; type: string; deferrable: boolean; deferred: boolean };
+	}[];
+	/** CHECK, FOREIGN KEY, exclusion and trigger constraints; incoming is a foreign key of another table */
+	constraints: { name: string; type: string; definition: string; validated: boolean; incoming: boolean }[];
+	/** Triggers, policies, rules, statistics, generated columns and other dependents that are not recreated */
+	otherDependents: string[];
+	/** Partitioned, partition, parent or child table, where the column cannot be dropped on its own */
+	inherited: boolean;
+}
+
+/**
+ * Reads the dependents of one column ($1 schema, $2 table, $3 column) for an expand/contract type change.
+ * Views and routines reading the column are left out: they are dropped and recreated around the change.
+ */
+const ONLINE_COLUMN_DEPENDENTS_QUERY = `
+	SELECT
+		quote_ident(a.attname) AS quoted_name,
+		c.relkind = 'p' OR c.relispartition OR c.relhassubclass
+			OR EXISTS (SELECT 1 FROM pg_inherits i WHERE i.inhrelid = c.oid) AS inherited,
+		col_description(c.oid, a.attnum) AS comment,
+		ARRAY(
+			SELECT pa.attname::text FROM pg_index pi
+			JOIN pg_attribute pa ON pa.attrelid = pi.indrelid AND pa.attnum = ANY (pi.indkey)
+			WHERE pi.indrelid = c.oid AND pi.indisprimary
+			ORDER BY array_position(pi.indkey::int2[], pa.attnum)
+		) AS primary_key,
+		ARRAY(
+			SELECT format('%I.%I', sn.nspname, s.relname) FROM pg_depend d
+			JOIN pg_class s ON s.oid = d.objid AND s.relkind = 'S'
+			JOIN pg_namespace sn ON sn.oid = s.relnamespace
+			WHERE d.classid = 'pg_class'::regclass AND d.refclassid = 'pg_class'::regclass
+				AND d.refobjid = c.oid AND d.refobjsubid = a.attnum
+		) AS owned_sequences,
+		(
+			SELECT coalesce(json_agg(json_build_object(
+				'name', i.relname,
+				'method', am.amname,
+				'definition', pg_get_indexdef(x.indexrelid),
+				'customOpclass', EXISTS (
+					SELECT 1 FROM generate_subscripts(x.indclass::oid[], 1) k
+					JOIN pg_opclass o ON o.oid = (x.indclass::oid[])[k]
+					WHERE (x.indkey::int2[])[k] = a.attnum AND NOT o.opcdefault
+				),
+				'replicaIdentity', x.indisreplident,
+				'clustered', x.indisclustered,
+				'constraint', CASE WHEN con.oid IS NOT NULL THEN json_build_object(
+					'name', con.conname, 'type', con.contype,
+					'deferrable', con.condeferrable, 'deferred', con.condeferred
+				) END
+			)), '[]'::json)
+			FROM pg_index x
+			JOIN pg_class i ON i.oid = x.indexrelid
+			JOIN pg_am am ON am.oid = i.relam
+			LEFT JOIN pg_constraint con ON con.conindid = x.indexrelid AND con.conrelid = c.oid
+				AND con.contype IN ('p', 'u', 'x')
+			WHERE x.indrelid = c.oid AND (
+				a.attnum = ANY (x.indkey) OR EXISTS (
+					SELECT 1 FROM pg_depend d
+					WHERE d.classid = 'pg_class'::regclass AND d.objid = x.indexrelid
+						AND d.refclassid = 'pg_class'::regclass AND d.refobjid = c.oid AND d.refobjsubid = a.attnum
+				)
+			)
+		) AS indexes,
+		(
+			SELECT coalesce(json_agg(json_build_object(
+				'name', con.conname,
+				'type', con.contype,
+				'definition', pg_get_constraintdef(con.oid),
+				'validated', con.convalidated,
+				'incoming', con.confrelid = c.oid AND a.attnum = ANY (con.confkey)
+			)), '[]'::json)
+			FROM pg_constraint con
+			WHERE con.contype NOT IN ('p', 'u', 'n') AND (
+				(con.conrelid = c.oid AND a.attnum = ANY (con.conkey))
+				OR (con.confrelid = c.oid AND a.attnum = ANY (con.confkey))
+			)
+		) AS constraints,
+		ARRAY(
+			SELECT pg_describe_object(d.classid, d.objid, d.objsubid) FROM pg_depend d
+			WHERE d.refclassid = 'pg_class'::regclass AND d.refobjid = c.oid AND d.refobjsubid = a.attnum
+				AND d.deptype IN ('n', 'a')
+				AND d.classid NOT IN ('pg_constraint'::regclass, 'pg_proc'::regclass)
+				AND NOT (d.classid = 'pg_class'::regclass
+					AND EXISTS (SELECT 1 FROM pg_class r WHERE r.oid = d.objid AND r.relkind IN ('i', 'I', 'S')))
+				AND NOT (d.classid = 'pg_attrdef'::regclass
+					AND EXISTS (SELECT 1 FROM pg_attrdef ad WHERE ad.oid = d.objid AND ad.adnum = a.attnum))
+				AND NOT (d.classid = 'pg_rewrite'::regclass AND EXISTS (
+					SELECT 1 FROM pg_rewrite rw JOIN pg_class v ON v.oid = rw.ev_class
+					WHERE rw.oid = d.objid AND rw.ev_class <> c.oid AND v.relkind IN ('v', 'm')
+				))
+		) AS other_dependents
+	FROM pg_class c
+	JOIN pg_namespace n ON n.oid = c.relnamespace
+	JOIN pg_attribute a ON a.attrelid = c.oid AND NOT a.attisdropped
+	WHERE n.nspname = $1 AND c.relname = $2 AND a.attname = $3
+`;
+
+/**
+ * SQLSTATE lock_not_available, raised when lock_timeout expires
+ */
+const LOCK_NOT_AVAILABLE = "55P03";
+
+/**
+ * Runs one statement and throws on any error; rows are returned as value arrays
+ */
+type StatementRunner = (sql: string) => Promise<{ rows: any[][]; rowCount: number }>;
+
+/**
+ * Rows shown for a pre-flight check that finds offending data
+ */
+const PREFLIGHT_SAMPLE_ROWS = 5;
+
+/**
+ * Raised when a statement inside a migration step fails, carrying the failure report
+ */
+class MigrationStatementError extends Error {
+	constructor(readonly failure: MigrationStatementFailure) {
+		super(
+			`Statement ${failure.statementIndex} of step ${failure.stepOrder} failed: ${failure.message}${failure.sqlState ? ` (SQLSTATE ${failure.sqlState})` : ""}`,
+		);
+	}
+}
+
+/**
+ * Raised before a migration is applied when pre-flight checks find rows its steps would fail on
+ */
+class PreflightViolationError extends Error {
+	constructor(readonly checks: PreflightCheck[]) {
+		super(
+			`${checks.length} pre-flight check(s) found rows the migration would fail on, or could not run: ${checks
+				.map((check) =>
+					check.result?.error
+						? `${check.description} (could not run: ${check.result.error})`
+						: `${check.description} (${check.result?.violationCount} row(s))`,
+				)
+				.join("; ")}. Fix the data or acknowledge the checks to apply the migration anyway`,
+		);
+	}
+}
 
 /**
  * MigrationManagement - Handles migration script generation, execution, and validation
@@ -23,15 +308,30 @@ import { SchemaDifference } from "./SchemaComparison";
 export class MigrationManagement {
 	private queryService: QueryExecutionService;
 	private validationFramework: ValidationFramework;
+	private ledger?: MigrationLedger;
+	private lockImpactAnalyzer: LockImpactAnalyzer;
+	private dependencyGraph: DependencyGraph;
+	private getLockGuard: () => MigrationLockGuardOptions | undefined;
 
 	/**
 	 * Creates a new MigrationManagement instance
 	 * @param queryService - Service for executing database queries
 	 * @param validationFramework - Framework for validating migration operations
+	 * @param ledger - Records applied scripts in the target database; without it scripts are not tracked
+	 * @param getLockGuard - Lock and statement timeouts applied to each step when executing; none by default
 	 */
-	constructor(queryService: QueryExecutionService, validationFramework: ValidationFramework) {
+	constructor(
+		queryService: QueryExecutionService,
+		validationFramework: ValidationFramework,
+		ledger?: MigrationLedger,
+		getLockGuard: () => MigrationLockGuardOptions | undefined = () => undefined,
+	) {
 		this.queryService = queryService;
 		this.validationFramework = validationFramework;
+		this.ledger = ledger;
+		this.lockImpactAnalyzer = new LockImpactAnalyzer(queryService);
+		this.dependencyGraph = new DependencyGraph(queryService);
+		this.getLockGuard = getLockGuard;
 	}
 	/**
 	 * Generates an enhanced migration script with comprehensive analysis and rollback capabilities
@@ -43,6 +343,8 @@ export class MigrationManagement {
 	 * @param options.includeValidation - Whether to include validation steps
 	 * @param options.includePerformanceOptimization - Whether to include performance optimizations
 	 * @param options.businessJustification - Business justification for the migration
+	 * @param options.ddlProfile - "online" generates lock-friendly DDL split into transactional and
+	 * non-transactional steps; defaults to "standard"
 	 * @returns Promise resolving to an enhanced migration script
 	 * @throws Error if migration script generation fails
 	 */
@@ -55,6 +357,7 @@ export class MigrationManagement {
 			includeValidation?: boolean;
 			includePerformanceOptimization?: boolean;
 			businessJustification?: string;
+			ddlProfile?: MigrationDdlProfile;
 		} = {},
 	): Promise<EnhancedMigrationScript> {
 		// Input validation
@@ -73,6 +376,10 @@ export class MigrationManagement {
 		if (options.businessJustification && typeof options.businessJustification !== "string") {
 			throw new Error("businessJustification must be a string if provided");
 		}
+		if (options.ddlProfile && options.ddlProfile !== "standard" && options.ddlProfile !== "online") {
+			throw new Error(`Unknown DDL profile: ${options.ddlProfile}`);
+		}
+		const ddlProfile = options.ddlProfile || "standard";
 
 		try {
 			Logger.info("Generating enhanced migration script", "generateEnhancedMigrationScript", {
@@ -82,8 +389,20 @@ export class MigrationManagement {
 				options,
 			});
 
+			// Captured before any step is generated: rollbacks restore dropped objects from it
+			const sourceSchema = await this.createSchemaSnapshot(sourceConnectionId);
+
 			// Generate migration steps
-			const migrationSteps = await this.generateMigrationSteps(schemaChanges, sourceConnectionId, targetConnectionId);
+			const migrationSteps = await this.generateMigrationSteps(
+				schemaChanges,
+				sourceConnectionId,
+				targetConnectionId,
+				ddlProfile,
+				sourceSchema,
+			);
+
+			// The migration brings the source in line with the target, so locks are taken on the source
+			await this.annotateLockImpact(migrationSteps, sourceConnectionId);
 
 			// Generate validation steps if requested
 			const validationSteps = options.includeValidation
@@ -107,7 +426,7 @@ export class MigrationManagement {
 				name: `Migration_${sourceConnectionId}_to_${targetConnectionId}_${new Date().toISOString().slice(0, 19).replace(/:/g, "-")}`,
 				description: `Schema migration from ${sourceConnectionId} to ${targetConnectionId} with ${schemaChanges.length} changes`,
 				version: "1.0.0",
-				sourceSchema: await this.createSchemaSnapshot(sourceConnectionId),
+				sourceSchema,
 				targetSchema: await this.createSchemaSnapshot(targetConnectionId),
 				migrationSteps,
 				rollbackScript,
@@ -121,6 +440,7 @@ export class MigrationManagement {
 					environment: "production",
 					testingRequired: true,
 					documentationUpdated: false,
+					ddlProfile,
 				},
 				generatedAt: new Date(),
 				estimatedExecutionTime,
@@ -147,11 +467,25 @@ export class MigrationManagement {
 	 * @param script - The enhanced migration script to execute
 	 * @param connectionId - Connection ID for the target database
 	 * @param options - Execution options
-	 * @param options.dryRun - If true, only simulate execution without making changes
+	 * @param options.dryRun - If true, run every step on one pinned client inside a transaction that is always
+	 * rolled back, reporting each step's outcome, elapsed time and row count in dryRunSteps. Steps that cannot
+	 * run inside a transaction, or add enum values, are skipped. The ledger is not touched.
 	 * @param options.validateOnly - If true, only run validation without executing migration
 	 * @param options.stopOnError - If true, stop execution on first error
+	 * @param options.transactional - If true, run every step on one pinned client inside BEGIN/COMMIT with a
+	 * savepoint per step. A failed step is rolled back to its savepoint; the whole transaction is then rolled
+	 * back unless stopOnError is explicitly false, in which case the remaining steps run and the rest commits.
+	 * Steps marked transactional: false run between transactions, so earlier batches are already committed.
+	 * @param options.lockGuard - lock_timeout and statement_timeout set for each step, which is retried with
+	 * growing delays while it times out waiting for a lock, unless it runs in a transaction that already holds
+	 * earlier steps' locks; defaults to the guard the manager was created with
+	 * @param options.acknowledgePreflight - Apply the migration without running its pre-flight checks; otherwise
+	 * they run first and any offending rows, or a check that could not run, stop the migration before it starts
+	 * @param options.cancellationToken - Cancels the running statement on the server and stops the run; the result
+	 * then has status "cancelled", with the transaction rolled back as it would be after a failed step
 	 * @returns Promise resolving to migration execution result
-	 * @throws Error if migration execution fails
+	 * @throws Error if migration execution fails, pre-flight checks find offending rows or cannot run, or the ledger shows
+	 * the script was already applied
 	 */
 	async executeMigrationScript(
 		script: EnhancedMigrationScript,
@@ -160,6 +494,10 @@ export class MigrationManagement {
 			dryRun?: boolean;
 			validateOnly?: boolean;
 			stopOnError?: boolean;
+			transactional?: boolean;
+			lockGuard?: MigrationLockGuardOptions;
+			acknowledgePreflight?: boolean;
+			cancellationToken?: QueryCancellationToken;
 		} = {},
 	): Promise<MigrationExecutionResult> {
 		// Input validation
@@ -173,35 +511,228 @@ export class MigrationManagement {
 			throw new Error("connectionId must be a non-empty string");
 		}
 
+		if (options.dryRun || options.validateOnly) {
+			return this.runMigrationScript(script, connectionId, options);
+		}
+
+		// Data can change after the preview, so the checks run again right before applying. A check that could
+		// not run has not verified anything, so it blocks like one that found rows.
+		if (!options.acknowledgePreflight) {
+			const violations = (await this.runPreflightChecks(script, connectionId)).filter(
+				(check) => (check.result?.violationCount ?? 0) > 0 || !!check.result?.error,
+			);
+			if (violations.length > 0) {
+				throw new PreflightViolationError(violations);
+			}
+		}
+
+		if (!this.ledger) {
+			return this.runMigrationScript(script, connectionId, options);
+		}
+
+		// Applying for real: claim the script in the ledger first so it cannot be applied twice
+		const ledgerRun = await this.ledger.beginRun(connectionId, script);
+		let executionResult: MigrationExecutionResult;
+		try {
+			executionResult = await this.runMigrationScript(script, connectionId, options);
+		} catch (error) {
+			await this.ledger.finishRun(connectionId, ledgerRun, undefined, error as Error);
+			throw error;
+		}
+		await this.ledger.finishRun(connectionId, ledgerRun, executionResult);
+
+		if (ledgerRun.warnings.length > 0) {
+			executionResult.warnings = [...(executionResult.warnings || []), ...ledgerRun.warnings];
+		}
+		return executionResult;
+	}
+	/**
+	 * Runs the pre-flight checks of every step, each in its own transaction that is rolled back, and stores
+	 * the number of offending rows and a sample of them on the check
+	 * @param connectionId - Connection ID for the database the migration would be applied to
+	 * @returns The checks that ran, in step order
+	 */
+	async runPreflightChecks(script: EnhancedMigrationScript, connectionId: string): Promise<PreflightCheck[]> {
+		const checks = script.migrationSteps.flatMap((step) => step.preflightChecks || []);
+		if (checks.length === 0) {
+			return checks;
+		}
+
+		await this.queryService.withPinnedClient(connectionId, async (client) => {
+			for (const check of checks) {
+				await client.query("BEGIN");
+				try {
+					for (const statement of check.setupSql || []) {
+						await client.query(statement);
+					}
+					const count = await client.query({ text: check.countQuery, rowMode: "array" });
+					const violationCount = Number(count.rows[0]?.[0] ?? 0);
+					const sample =
+						violationCount > 0 ? await client.query(`${check.sampleQuery} LIMIT ${PREFLIGHT_SAMPLE_ROWS}`) : undefined;
+					check.result = { violationCount, sampleRows: sample?.rows ?? [], checkedAt: new Date() };
+				} catch (error) {
+					check.result = { violationCount: 0, sampleRows: [], checkedAt: new Date(), error: (error as Error).message };
+					Logger.warn("Pre-flight check could not run", "runPreflightChecks", {
+						checkId: check.id,
+						error: (error as Error).message,
+					});
+				} finally {
+					await client.query("ROLLBACK");
+				}
+			}
+		});
+
+		Logger.info("Pre-flight checks completed", "runPreflightChecks", {
+			scriptId: script.id,
+			checkCount: checks.length,
+			violations: checks.filter((check) => (check.result?.violationCount ?? 0) > 0).length,
+		});
+		return checks;
+	}
+	/**
+	 * Rolls back a migration the ledger records as applied by replaying the rollback steps stored with it,
+	 * in one transaction with a savepoint per step
+	 * @param connectionId - Connection ID for the database the migration was applied to
+	 * @param scriptId - ID of the applied migration script
+	 * @param options.lockGuard - Timeouts and lock retries for each step; defaults to the manager's guard
+	 * @returns Promise resolving to the execution result of the rollback steps
+	 * @throws Error if there is no ledger, or the ledger refuses the rollback
+	 */
+	async rollbackAppliedMigration(
+		connectionId: string,
+		scriptId: string,
+		options: { lockGuard?: MigrationLockGuardOptions } = {},
+	): Promise<MigrationExecutionResult> {
+		if (!connectionId || typeof connectionId !== "string") {
+			throw new Error("connectionId must be a non-empty string");
+		}
+		if (!this.ledger) {
+			throw new Error("Rolling back a migration requires the migration ledger");
+		}
+
+		const applied = await this.ledger.beginRollback(connectionId, scriptId);
+		const rollbackSteps = applied.rollbackSteps || [];
+		const capturedAt = new Date();
+		const emptySnapshot: SchemaSnapshot = {
+			connectionId,
+			schemaHash: "",
+			objectCount: 0,
+			capturedAt,
+			objects: [],
+			relationships: [],
+		};
+		const migrationSteps: MigrationStep[] = rollbackSteps.map((step, index) => ({
+			id: `rollback_${index + 1}`,
+			order: index + 1,
+			name: step.description,
+			description: step.description,
+			sqlScript: step.sqlScript || "",
+			objectType: "rollback",
+			objectName: step.migrationStepId || `rollback_${index + 1}`,
+			schema: "",
+			operation: "ROLLBACK",
+			riskLevel: step.riskLevel,
+			dependencies: [],
+			estimatedDuration: step.estimatedDuration,
+			transactional: step.transactional,
+			irreversibleReason: step.irreversibleReason,
+		}));
+		const rollbackScript: EnhancedMigrationScript = {
+			id: `${scriptId}_rollback`,
+			name: `Rollback of ${applied.name}`,
+			description: `Reverts migration ${scriptId} applied on ${applied.startedAt.toISOString()}`,
+			version: "1.0.0",
+			sourceSchema: emptySnapshot,
+			targetSchema: emptySnapshot,
+			migrationSteps,
+			rollbackScript: {
+				isComplete: false,
+				steps: [],
+				estimatedRollbackTime: 0,
+				successRate: 0,
+				warnings: [],
+				limitations: [],
+			},
+			validationSteps: [],
+			dependencies: [],
+			metadata: {
+				author: "MigrationManagement",
+				tags: ["schema-migration", "rollback"],
+				changeType: "rollback",
+			},
+			generatedAt: capturedAt,
+			estimatedExecutionTime: migrationSteps.reduce((total, step) => total + step.estimatedDuration, 0),
+			riskLevel: this.assessMigrationRiskLevel(migrationSteps),
+		};
+
+		Logger.info("Rolling back applied migration", "rollbackAppliedMigration", {
+			connectionId,
+			scriptId,
+			stepCount: rollbackSteps.length,
+		});
+
+		let executionResult: MigrationExecutionResult;
+		try {
+			executionResult = await this.runMigrationScript(rollbackScript, connectionId, {
+				transactional: true,
+				stopOnError: true,
+				lockGuard: options.lockGuard,
+			});
+		} catch (error) {
+			await this.ledger.finishRollback(connectionId, scriptId, undefined, error as Error);
+			throw error;
+		}
+		await this.ledger.finishRollback(connectionId, scriptId, executionResult);
+		return executionResult;
+	}
+	/**
+	 * Runs the steps of a validated migration script; see executeMigrationScript for the options
+	 * @private
+	 */
+	private async runMigrationScript(
+		script: EnhancedMigrationScript,
+		connectionId: string,
+		options: {
+			dryRun?: boolean;
+			validateOnly?: boolean;
+			stopOnError?: boolean;
+			transactional?: boolean;
+			lockGuard?: MigrationLockGuardOptions;
+			cancellationToken?: QueryCancellationToken;
+		},
+	): Promise<MigrationExecutionResult> {
+		const lockGuard = options.lockGuard ?? this.getLockGuard();
+		const cancellationToken = options.cancellationToken;
+		const executionId = this.generateId();
+		const startTime = new Date();
+
+		// Initialize execution result
+		const executionResult: MigrationExecutionResult = {
+			scriptId: script.id,
+			executionId,
+			startTime,
+			status: "running",
+			completedSteps: 0,
+			failedSteps: 0,
+			executionLog: [],
+			performanceMetrics: {
+				totalExecutionTime: 0,
+				averageStepTime: 0,
+				peakMemoryUsage: 0,
+				databaseLoad: 0,
+			},
+			validationResults: [],
+		};
+
 		try {
 			Logger.info("Executing enhanced migration script", "executeMigrationScript", {
 				scriptId: script.id,
 				stepCount: script.migrationSteps.length,
 				dryRun: options.dryRun || false,
 				validateOnly: options.validateOnly || false,
+				transactional: options.transactional || false,
 			});
 
-			const executionId = this.generateId();
-			const startTime = new Date();
-
-			// Initialize execution result
-			const executionResult: MigrationExecutionResult = {
-				scriptId: script.id,
-				executionId,
-				startTime,
-				status: "running",
-				completedSteps: 0,
-				failedSteps: 0,
-				executionLog: [],
-				performanceMetrics: {
-					totalExecutionTime: 0,
-					averageStepTime: 0,
-					peakMemoryUsage: 0,
-					databaseLoad: 0,
-				},
-				validationResults: [],
-			};
-
 			// If validateOnly, run validation steps only
 			if (options.validateOnly) {
 				Logger.info("Running validation only", "executeMigrationScript", {
@@ -213,62 +744,105 @@ export class MigrationManagement {
 				return executionResult;
 			}
 
-			// Execute migration steps
-			let stepIndex = 0;
-			for (const step of script.migrationSteps) {
-				try {
-					executionResult.currentStep = stepIndex + 1;
+			if (options.dryRun) {
+				await this.dryRunSteps(script, connectionId, executionResult, lockGuard, cancellationToken);
+				executionResult.endTime = new Date();
+				executionResult.performanceMetrics.totalExecutionTime = executionResult.endTime.getTime() - startTime.getTime();
+				executionResult.status = executionResult.failedSteps === 0 ? "completed" : "failed";
+				return executionResult;
+			}
 
-					Logger.info("Executing migration step", "executeMigrationScript", {
-						scriptId: script.id,
-						stepId: step.id,
-						stepOrder: step.order,
-						operation: step.operation,
-					});
+			if (options.transactional) {
+				await this.executeStepsInTransaction(
+					script,
+					connectionId,
+					executionResult,
+					options.stopOnError !== false,
+					lockGuard,
+					cancellationToken,
+				);
+				if (executionResult.transactionOutcome !== "committed") {
+					// The transaction has already been rolled back; report the run as cancelled rather than failed
+					this.throwIfCancelled(cancellationToken);
+					executionResult.status = "failed";
+					executionResult.endTime = new Date();
+					return executionResult;
+				}
+			} else {
+				// Execute migration steps; returns false when stopOnError ended the run
+				const runSteps = async (runStatement: StatementRunner, guard?: MigrationLockGuardOptions) => {
+					let stepIndex = 0;
+					for (const step of script.migrationSteps) {
+						this.throwIfCancelled(cancellationToken);
+						try {
+							executionResult.currentStep = stepIndex + 1;
 
-					const stepStartTime = Date.now();
+							Logger.info("Executing migration step", "executeMigrationScript", {
+								scriptId: script.id,
+								stepId: step.id,
+								stepOrder: step.order,
+								operation: step.operation,
+							});
 
-					// Execute the step
-					if (!options.dryRun) {
-						await this.executeMigrationStep(step, connectionId);
-					}
+							const stepStartTime = Date.now();
 
-					const stepDuration = Date.now() - stepStartTime;
+							// Execute the step
+							await this.executeGuardedStep(step, runStatement, runStatement, guard, executionResult, "session");
 
-					// Log successful step execution
-					executionResult.executionLog.push({
-						timestamp: new Date(),
-						stepId: step.id,
-						level: "info",
-						message: `Step ${step.order} completed successfully`,
-						duration: stepDuration,
-					});
+							const stepDuration = Date.now() - stepStartTime;
 
-					executionResult.completedSteps++;
-				} catch (stepError) {
-					Logger.error("Migration step failed", stepError as Error, "executeMigrationScript", {
-						scriptId: script.id,
-						stepId: step.id,
-						stepOrder: step.order,
-					});
+							// Log successful step execution
+							executionResult.executionLog.push({
+								timestamp: new Date(),
+								stepId: step.id,
+								level: "info",
+								message: `Step ${step.order} completed successfully`,
+								duration: stepDuration,
+							});
 
-					executionResult.failedSteps++;
-					executionResult.executionLog.push({
-						timestamp: new Date(),
-						stepId: step.id,
-						level: "error",
-						message: `Step ${step.order} failed: ${(stepError as Error).message}`,
-					});
+							executionResult.completedSteps++;
+						} catch (stepError) {
+							this.throwIfCancelled(cancellationToken, stepError as Error);
+							Logger.error("Migration step failed", stepError as Error, "executeMigrationScript", {
+								scriptId: script.id,
+								stepId: step.id,
+								stepOrder: step.order,
+							});
+
+							executionResult.failedSteps++;
+							this.recordStepFailure(executionResult, step, stepError as Error);
+
+							// Stop on first error if configured
+							if (options.stopOnError) {
+								return false;
+							}
+						}
 
-					// Stop on first error if configured
-					if (options.stopOnError) {
-						executionResult.status = "failed";
-						executionResult.endTime = new Date();
-						return executionResult;
+						stepIndex++;
 					}
+					return true;
+				};
+
+				// Session timeouts have to stay on one connection, so a guarded run pins a client
+				const finished = lockGuard
+					? await this.queryService.withPinnedClient(
+							connectionId,
+							async (client) => {
+								const runStatement = this.createClientRunner(client);
+								try {
+									return await runSteps(runStatement, lockGuard);
+								} finally {
+									await this.resetLockGuard(runStatement);
+								}
+							},
+							cancellationToken,
+						)
+					: await runSteps(this.createQueryServiceRunner(connectionId, cancellationToken));
+				if (!finished) {
+					executionResult.status = "failed";
+					executionResult.endTime = new Date();
+					return executionResult;
 				}
-
-				stepIndex++;
 			}
 
 			// Run validation steps if available
@@ -310,10 +884,59 @@ export class MigrationManagement {
 
 			return executionResult;
 		} catch (error) {
+			if (error instanceof QueryCancelledError) {
+				return this.recordCancellation(script, executionResult, options.transactional || options.dryRun || false);
+			}
 			Logger.error("Migration script execution failed", error as Error);
 			throw error;
 		}
 	}
+	/**
+	 * Marks a run the user cancelled as such, noting what happened to the steps that had completed
+	 * @param transactional - Whether the cancelled step ran inside a transaction, which was rolled back
+	 * @private
+	 */
+	private recordCancellation(
+		script: EnhancedMigrationScript,
+		executionResult: MigrationExecutionResult,
+		transactional: boolean,
+	): MigrationExecutionResult {
+		const endTime = new Date();
+		executionResult.status = "cancelled";
+		executionResult.endTime = endTime;
+		executionResult.performanceMetrics.totalExecutionTime = endTime.getTime() - executionResult.startTime.getTime();
+
+		let outcome = `${executionResult.completedSteps} completed step(s) remain applied`;
+		if (transactional && executionResult.transactionOutcome === "partially_committed") {
+			outcome = "the open transaction was rolled back; steps committed before it remain applied";
+		} else if (transactional) {
+			outcome = "the transaction was rolled back";
+		}
+		executionResult.executionLog.push({
+			timestamp: endTime,
+			level: "warn",
+			message: `Cancelled by user during step ${executionResult.currentStep ?? 1} of ${script.migrationSteps.length}; ${outcome}`,
+		});
+
+		Logger.info("Migration execution cancelled", "executeMigrationScript", {
+			scriptId: script.id,
+			currentStep: executionResult.currentStep,
+			completedSteps: executionResult.completedSteps,
+			transactionOutcome: executionResult.transactionOutcome,
+		});
+		return executionResult;
+	}
+	/**
+	 * Stops a run once the user has cancelled it
+	 * @param error - The error the cancelled statement failed with, if any
+	 * @throws QueryCancelledError if the token is cancelled
+	 * @private
+	 */
+	private throwIfCancelled(cancellationToken?: QueryCancellationToken, error?: Error): void {
+		if (cancellationToken?.isCancellationRequested) {
+			throw new QueryCancelledError(error);
+		}
+	}
 	/**
 	 * Validates a migration script using both framework validation and legacy validation steps
 	 * @param script - The enhanced migration script to validate
@@ -378,21 +1001,26 @@ export class MigrationManagement {
 
 			const tablesResult = await this.queryService.executeQuery(connectionId, tablesQuery);
 
-			// Get all columns for each table
+			// Get all columns for each table, with full type modifiers so definitions can be replayed
 			const columnsQuery = `
                 SELECT
-                    table_schema,
-                    table_name,
-                    column_name,
-                    data_type,
-                    is_nullable,
-                    column_default,
-                    character_maximum_length,
-                    numeric_precision,
-                    numeric_scale
-                FROM information_schema.columns
-                WHERE table_schema NOT IN ('information_schema', 'pg_catalog')
-                ORDER BY table_schema, table_name, ordinal_position
+                    n.nspname AS table_schema,
+                    c.relname AS table_name,
+                    a.attname AS column_name,
+                    format_type(a.atttypid, a.atttypmod) AS data_type,
+                    CASE WHEN a.attnotnull THEN 'NO' ELSE 'YES' END AS is_nullable,
+                    pg_get_expr(d.adbin, d.adrelid) AS column_default,
+                    a.attidentity AS identity,
+                    a.attgenerated AS generated
+                FROM pg_attribute a
+                JOIN pg_class c ON c.oid = a.attrelid
+                JOIN pg_namespace n ON n.oid = c.relnamespace
+                LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+                WHERE c.relkind IN ('r', 'p')
+                AND a.attnum > 0
+                AND NOT a.attisdropped
+                AND n.nspname NOT IN ('information_schema', 'pg_catalog')
+                ORDER BY n.nspname, c.relname, a.attnum
             `;
 
 			const columnsResult = await this.queryService.executeQuery(connectionId, columnsQuery);
@@ -417,6 +1045,23 @@ export class MigrationManagement {
 
 			const constraintsResult = await this.queryService.executeQuery(connectionId, constraintsQuery);
 
+			// Constraint definitions, replayed inside the CREATE TABLE of a restored table
+			const tableConstraintsQuery = `
+                SELECT
+                    n.nspname AS table_schema,
+                    c.relname AS table_name,
+                    con.conname AS constraint_name,
+                    pg_get_constraintdef(con.oid) AS constraint_definition
+                FROM pg_constraint con
+                JOIN pg_class c ON c.oid = con.conrelid
+                JOIN pg_namespace n ON n.oid = c.relnamespace
+                WHERE con.contype IN ('p', 'u', 'c', 'f', 'x')
+                AND n.nspname NOT IN ('information_schema', 'pg_catalog')
+                ORDER BY n.nspname, c.relname, con.contype DESC, con.conname
+            `;
+
+			const tableConstraintsResult = await this.queryService.executeQuery(connectionId, tableConstraintsQuery);
+
 			// Get all indexes
 			const indexesQuery = `
                 SELECT
@@ -446,20 +1091,34 @@ export class MigrationManagement {
 				});
 			});
 
-			// Add columns to table definitions
+			// Add columns and constraints to table definitions
 			objects.forEach((table) => {
 				if (table.type === "table") {
 					const tableColumns = columnsResult.rows.filter(
 						(col: any) => col[0] === table.schema && col[1] === table.name,
 					);
+					const tableConstraints = tableConstraintsResult.rows.filter(
+						(con: any) => con[0] === table.schema && con[1] === table.name,
+					);
 
 					const columnDefs = tableColumns.map((col: any) => {
-						const nullable = col[3] === "YES" ? "NULL" : "NOT NULL";
-						const defaultValue = col[5] ? ` DEFAULT ${col[5]}` : "";
-						return `  ${col[2]} ${col[3]}${defaultValue}${nullable}`;
+						const nullable = col[4] === "YES" ? "" : " NOT NULL";
+						let valueClause = "";
+						if (col[7] === "s") {
+							valueClause = ` GENERATED ALWAYS AS (${col[5]}) STORED`;
+						} else if (col[6] === "a" || col[6] === "d") {
+							valueClause = ` GENERATED ${col[6] === "a" ? "ALWAYS" : "BY DEFAULT"} AS IDENTITY`;
+						} else if (col[5]) {
+							valueClause = ` DEFAULT ${col[5]}`;
+						}
+						return `  ${this.quoteIdentifier(col[2])} ${col[3]}${nullable}${valueClause}`;
 					});
+					const constraintDefs = tableConstraints.map(
+						(con: any) => `  CONSTRAINT ${this.quoteIdentifier(con[2])} ${con[3]}`,
+					);
 
-					table.definition = `CREATE TABLE ${table.schema}.${table.name} (\n${columnDefs.join(",\n")}\n);`;
+					table.constraintNames = tableConstraints.map((con: any) => con[2]);
+					table.definition = `CREATE TABLE ${this.quoteIdentifier(table.schema)}.${this.quoteIdentifier(table.name)} (\n${[...columnDefs, ...constraintDefs].join(",\n")}\n);`;
 				}
 			});
 
@@ -571,6 +1230,8 @@ export class MigrationManagement {
 	 * @param schemaChanges - Array of schema differences to convert to steps
 	 * @param sourceConnectionId - Connection ID for source database
 	 * @param targetConnectionId - Connection ID for target database
+	 * @param ddlProfile - DDL generation profile; "online" splits each change into execution phases
+	 * @param sourceSnapshot - Source schema as captured before the migration, used to restore dropped objects
 	 * @returns Promise resolving to array of migration steps
 	 * @private
 	 */
@@ -578,6 +1239,8 @@ export class MigrationManagement {
 		schemaChanges: SchemaDifference[],
 		sourceConnectionId: string,
 		targetConnectionId: string,
+		ddlProfile: MigrationDdlProfile = "standard",
+		sourceSnapshot?: SchemaSnapshot,
 	): Promise<MigrationStep[]> {
 		// Input validation
 		if (!Array.isArray(schemaChanges)) {
@@ -591,19 +1254,49 @@ export class MigrationManagement {
 		}
 		const steps: MigrationStep[] = [];
 
-		// Sort changes by dependency order (DROP first, then CREATE/ALTER)
-		const orderedChanges = this.orderChangesByDependency(schemaChanges);
+		// Views and routines reading a column that changes type are dropped and recreated around the change
+		const existingDependencies = await this.dependencyGraph.loadDependencies(sourceConnectionId);
+		const finalDependencies = await this.dependencyGraph.loadDependencies(targetConnectionId);
+		const rebuildPlan = await this.dependencyGraph.planDependentRebuilds(
+			sourceConnectionId,
+			schemaChanges,
+			existingDependencies,
+		);
+
+		// Start from DROP, RENAME, CREATE, ALTER order and move steps only where dependencies require it
+		const orderedChanges = this.dependencyGraph.orderChanges(
+			this.orderChangesByDependency(rebuildPlan.changes),
+			{ existing: existingDependencies, final: finalDependencies },
+			rebuildPlan.edges,
+		);
+
+		// Tables the script creates do not exist yet when the pre-flight checks run
+		const addedTables = new Set(
+			orderedChanges
+				.filter((change) => change.type === "Added" && change.objectType === "table")
+				.flatMap((change) =>
+					[change.schema, change.targetSchema || change.schema].map((schema) => `${schema}.${change.objectName}`),
+				),
+		);
 
-		for (let i = 0; i < orderedChanges.length; i++) {
-			const change = orderedChanges[i];
-			const step = await this.generateMigrationStep(change, i + 1, sourceConnectionId, targetConnectionId);
-			steps.push(step);
+		for (const change of orderedChanges) {
+			const step = await this.generateMigrationStep(
+				change,
+				steps.length + 1,
+				sourceConnectionId,
+				targetConnectionId,
+				ddlProfile,
+				sourceSnapshot,
+				addedTables,
+			);
+			steps.push(...(ddlProfile === "online" ? this.splitStepIntoPhases(step) : [step]));
 		}
 
 		return steps;
 	}
 	/**
-	 * Orders schema changes by dependency to ensure safe migration execution
+	 * Orders schema changes by operation and object type; the dependency graph refines this order
+	 * where objects depend on each other
 	 * @param changes - Array of schema differences to order
 	 * @returns Ordered array of schema differences
 	 * @private
@@ -613,12 +1306,26 @@ export class MigrationManagement {
 		if (!Array.isArray(changes)) {
 			throw new Error("changes must be an array");
 		}
-		// Order: DROP operations first, then CREATE, then ALTER
-		const dropOperations = changes.filter((c) => c.type === "Removed");
-		const createOperations = changes.filter((c) => c.type === "Added");
-		const modifyOperations = changes.filter((c) => c.type === "Modified");
-
-		return [...dropOperations, ...createOperations, ...modifyOperations];
+		// Order: DROP operations first, then RENAME, then CREATE, then ALTER.
+		// Drops free up names a rename may take; table renames run before column renames on the renamed table.
+		// Within drops, creates and alters, object types follow OBJECT_CREATION_ORDER (reversed for drops).
+		const rank = (change: SchemaDifference) => {
+			const index = OBJECT_CREATION_ORDER.indexOf(change.objectType);
+			return index === -1 ? OBJECT_CREATION_ORDER.length : index;
+		};
+		const dropOperations = changes.filter((c) => c.type === "Removed").sort((a, b) => rank(b) - rank(a));
+		const renameOperations = changes.filter((c) => c.type === "Renamed" && c.objectType !== "column");
+		const columnRenameOperations = changes.filter((c) => c.type === "Renamed" && c.objectType === "column");
+		const createOperations = changes.filter((c) => c.type === "Added").sort((a, b) => rank(a) - rank(b));
+		const modifyOperations = changes.filter((c) => c.type === "Modified").sort((a, b) => rank(a) - rank(b));
+
+		return [
+			...dropOperations,
+			...renameOperations,
+			...columnRenameOperations,
+			...createOperations,
+			...modifyOperations,
+		];
 	}
 	/**
 	 * Generates a single migration step from a schema difference
@@ -626,6 +1333,9 @@ export class MigrationManagement {
 	 * @param order - Order number for the migration step
 	 * @param sourceConnectionId - Connection ID for source database
 	 * @param targetConnectionId - Connection ID for target database
+	 * @param ddlProfile - DDL generation profile
+	 * @param sourceSnapshot - Source schema as captured before the migration
+	 * @param addedTables - Tables created by earlier steps of the script, as unquoted schema.table
 	 * @returns Promise resolving to migration step
 	 * @private
 	 */
@@ -634,12 +1344,16 @@ export class MigrationManagement {
 		order: number,
 		sourceConnectionId: string,
 		targetConnectionId: string,
+		ddlProfile: MigrationDdlProfile = "standard",
+		sourceSnapshot?: SchemaSnapshot,
+		addedTables: Set<string> = new Set(),
 	): Promise<MigrationStep> {
 		// Input validation
 		if (!change || typeof change !== "object") {
 			throw new Error("change must be a valid SchemaDifference object");
 		}
-		if (!change.objectType || !change.objectName || !change.schema) {
+		// Database-level objects such as publications carry an empty schema
+		if (!change.objectType || !change.objectName || typeof change.schema !== "string") {
 			throw new Error("change must have valid objectType, objectName, and schema properties");
 		}
 		if (typeof order !== "number" || order < 1) {
@@ -654,10 +1368,17 @@ export class MigrationManagement {
 		const stepId = `step_${order}`;
 
 		// Generate SQL based on change type
-		const sqlScript = await this.generateChangeSQL(change, sourceConnectionId, targetConnectionId);
+		const sqlScript = await this.generateChangeSQL(change, sourceConnectionId, targetConnectionId, ddlProfile);
 
 		// Determine operation type
-		const operation = change.type === "Added" ? "CREATE" : change.type === "Removed" ? "DROP" : "ALTER";
+		const operation =
+			change.type === "Added"
+				? "CREATE"
+				: change.type === "Removed"
+					? "DROP"
+					: change.type === "Renamed"
+						? "RENAME"
+						: "ALTER";
 
 		// Assess risk level
 		const riskLevel = this.assessChangeRiskLevel(change);
@@ -670,7 +1391,7 @@ export class MigrationManagement {
 			id: stepId,
 			order,
 			name: `${operation} ${change.objectType} ${change.objectName}`,
-			description: `${change.type} ${change.objectType} ${change.schema}.${change.objectName}`,
+			description: `${change.type} ${change.objectType} ${change.schema}.${change.objectName}${change.targetSchema ? ` (to match ${change.targetSchema})` : ""}`,
 			sqlScript,
 			objectType: change.objectType,
 			objectName: change.objectName,
@@ -679,55 +1400,424 @@ export class MigrationManagement {
 			riskLevel,
 			dependencies: [], // Would be populated from dependency analysis
 			estimatedDuration: this.estimateStepDuration(change),
-			rollbackSql: await this.generateRollbackSQL(change, sourceConnectionId, targetConnectionId),
+			rollbackSql: await this.generateRollbackSQL(change, sourceConnectionId, targetConnectionId, sourceSnapshot),
 			verificationQuery: this.generateVerificationQuery(change),
 			preConditions,
 			postConditions,
+			transactional: this.splitSQLStatements(sqlScript).every((statement) => this.canRunInTransaction(statement)),
+			irreversibleReason: this.describeDataLoss(sqlScript),
+			preflightChecks: this.generatePreflightChecks(change, stepId, addedTables),
 		};
 	}
 	/**
-	 * Generates SQL statement for a schema change based on change type
-	 * @param change - Schema difference to generate SQL for
-	 * @param sourceConnectionId - Connection ID for source database
-	 * @param targetConnectionId - Connection ID for target database
-	 * @returns Promise resolving to SQL statement string
-	 * @throws Error if SQL generation fails
+	 * Builds queries that count the existing rows a table change would fail on: values that do not convert
+	 * to a column's new type (or would be truncated), NULLs in a column becoming NOT NULL, duplicates under
+	 * a new unique key, rows violating a new CHECK and rows without a parent under a new foreign key.
+	 * Constraints on columns the same change adds, and foreign keys to tables the script creates, get no
+	 * check: the checks run against the database as it is, where those do not exist yet.
+	 * @param stepId - Step the checks belong to
+	 * @param addedTables - Tables the script creates, as unquoted schema.table
+	 * @returns Undefined when the change cannot fail on existing data
 	 * @private
 	 */
-	private async generateChangeSQL(
+	private generatePreflightChecks(
 		change: SchemaDifference,
-		sourceConnectionId: string,
-		targetConnectionId: string,
-	): Promise<string> {
-		// Input validation
-		if (!change || typeof change !== "object") {
-			throw new Error("change must be a valid SchemaDifference object");
-		}
-		if (!sourceConnectionId || typeof sourceConnectionId !== "string") {
-			throw new Error("sourceConnectionId must be a non-empty string");
-		}
-		if (!targetConnectionId || typeof targetConnectionId !== "string") {
-			throw new Error("targetConnectionId must be a non-empty string");
-		}
-		try {
-			switch (change.type) {
-				case "Added":
-					return await this.generateCreateSQL(change, targetConnectionId);
+		stepId: string,
+		addedTables: Set<string> = new Set(),
+	): PreflightCheck[] | undefined {
+		if (change.objectType !== "table" || (change.type !== "Modified" && change.type !== "Renamed")) {
+			return undefined;
+		}
+		// Checks run before the migration, so the table still has its source-side name
+		const table = `${this.quoteIdentifier(change.schema)}.${this.quoteIdentifier(change.previousName || change.objectName)}`;
+		const checks: Omit<PreflightCheck, "id" | "stepId" | "table">[] = [];
+		const addedColumns = (change.attributeChanges || [])
+			.filter((attr) => attr.kind === "column_added" && attr.subObject)
+			.map((attr) => attr.subObject as string);
+
+		for (const attr of change.attributeChanges || []) {
+			const columnName = attr.sourceColumn?.name || attr.subObject || "";
+			const column = this.quoteIdentifier(columnName);
+
+			switch (attr.kind) {
+				case "column_type": {
+					const sourceType = String(attr.sourceValue);
+					const targetType = String(attr.targetValue);
+					// The cast in the USING clause is tried per row, so one bad value does not abort the count
+					const length = /^(?:character varying|varchar|character|char|bit varying|varbit|bit)\s*\((\d+)\)$/i.exec(
+						targetType,
+					)?.[1];
+					const probe = `pg_temp.migration_preflight_cast(${column})`;
+					checks.push({
+						kind: "type_cast",
+						description: `Values of ${change.objectName}.${columnName} that do not convert from ${sourceType} to ${targetType}${length ? ` or are longer than ${length}` : ""}`,
+						setupSql: [
+							`CREATE FUNCTION pg_temp.migration_preflight_cast(value ${sourceType}) RETURNS boolean LANGUAGE plpgsql AS $preflight$
+BEGIN
+	${length ? `IF length(value::text) > ${length} THEN RETURN false; END IF;\n\t` : ""}PERFORM ${this.generateUsingClause(sourceType, targetType, "value")};
+	RETURN true;
+EXCEPTION WHEN others THEN
+	RETURN false;
+END $preflight$`,
+						],
+						countQuery: `SELECT count(*) FROM ${table} WHERE ${column} IS NOT NULL AND NOT ${probe}`,
+						sampleQuery: `SELECT * FROM ${table} WHERE ${column} IS NOT NULL AND NOT ${probe}`,
+					});
+					break;
+				}
 
-				case "Removed":
-					return this.generateDropSQL(change);
+				case "column_nullability":
+					if (attr.targetValue) {
+						checks.push({
+							kind: "not_null",
+							description: `NULLs in ${change.objectName}.${columnName}, which becomes NOT NULL`,
+							countQuery: `SELECT count(*) FROM ${table} WHERE ${column} IS NULL`,
+							sampleQuery: `SELECT * FROM ${table} WHERE ${column} IS NULL`,
+						});
+					}
+					break;
 
-				case "Modified":
-					return await this.generateAlterSQL(change, sourceConnectionId, targetConnectionId);
+				case "column_added":
+					// Existing rows get NULL for a new column without a default, which NOT NULL rejects
+					if (attr.column?.notNull && !attr.column.defaultValue && !attr.column.identity && !attr.column.generated) {
+						checks.push({
+							kind: "not_null",
+							description: `Existing rows of ${change.objectName}, which get NULL in the new NOT NULL column ${attr.subObject} as it has no default`,
+							countQuery: `SELECT count(*) FROM ${table}`,
+							sampleQuery: `SELECT * FROM ${table}`,
+						});
+					}
+					break;
 
-				default:
-					return `-- Unknown change type: ${change.type}`;
+				case "constraint_added":
+				case "constraint_changed": {
+					const definition = String(attr.targetValue);
+					if (addedColumns.some((added) => this.mentionsIdentifier(definition, added))) {
+						break;
+					}
+					const referenced = this.parseQualifiedName(
+						/\bREFERENCES\s+((?:"(?:[^"]|"")+"|[\w$]+)(?:\.(?:"(?:[^"]|"")+"|[\w$]+))?)/i.exec(definition)?.[1],
+					);
+					// An unqualified reference is a table on the search path, normally the change's own schema or public
+					const referencedSchemas = referenced?.schema
+						? [referenced.schema]
+						: [change.schema, change.targetSchema || change.schema, "public"];
+					if (referenced && referencedSchemas.some((schema) => addedTables.has(`${schema}.${referenced.name}`))) {
+						break;
+					}
+					checks.push(...this.generateConstraintPreflightChecks(table, change.objectName, definition));
+					break;
+				}
 			}
-		} catch (error) {
-			Logger.error("Failed to generate change SQL", error as Error, "generateChangeSQL", {
-				changeType: change.type,
-				objectType: change.objectType,
-				objectName: change.objectName,
+		}
+		if (checks.length === 0) {
+			return undefined;
+		}
+
+		// Mapped comparisons name referenced tables by the target schema; the checks run on the source
+		const mapNames = (sql: string) =>
+			change.targetSchema && change.targetSchema !== change.schema
+				? SchemaMapper.rewriteQualifiedNames(sql, change.targetSchema, change.schema)
+				: sql;
+		return checks.map((check, index) => ({
+			...check,
+			id: `${stepId}_preflight_${index + 1}`,
+			stepId,
+			table,
+			countQuery: mapNames(check.countQuery),
+			sampleQuery: mapNames(check.sampleQuery),
+		}));
+	}
+	/**
+	 * Whether SQL text refers to an identifier, as pg_get_constraintdef prints it: bare when it needs no quotes,
+	 * otherwise double-quoted. String literals do not count.
+	 * @param name - Unquoted identifier
+	 * @private
+	 */
+	private mentionsIdentifier(sql: string, name: string): boolean {
+		const quoted = this.quoteIdentifier(name).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+		const bare = /^[a-z_][a-z0-9_$]*$/.test(name) ? `|${name.replace(/\$/g, "\\$")}` : "";
+		const reference = new RegExp(`(?<![\\w$"])(?:${quoted}${bare})(?![\\w$"])`);
+		return sql.split(/'(?:[^']|'')*'/).some((part) => reference.test(part));
+	}
+	/**
+	 * Splits a possibly schema-qualified, possibly quoted name as pg_get_constraintdef prints it
+	 * @returns Unquoted parts; schema is undefined for an unqualified name
+	 * @private
+	 */
+	private parseQualifiedName(name: string | undefined): { schema?: string; name: string } | undefined {
+		const parts = name?.match(/"(?:[^"]|"")+"|[^."]+/g);
+		if (!parts || parts.length === 0) {
+			return undefined;
+		}
+		const unquote = (part: string) => (part.startsWith('"') ? part.slice(1, -1).replace(/""/g, '"') : part);
+		return parts.length > 1 ? { schema: unquote(parts[0]), name: unquote(parts[1]) } : { name: unquote(parts[0]) };
+	}
+	/**
+	 * Pre-flight checks for a constraint added to a table; NOT VALID constraints skip existing rows and need none
+	 * @param definition - Constraint definition as pg_get_constraintdef renders it
+	 * @private
+	 */
+	private generateConstraintPreflightChecks(
+		table: string,
+		tableName: string,
+		definition: string,
+	): Omit<PreflightCheck, "id" | "stepId" | "table">[] {
+		if (/\bNOT\s+VALID\s*$/i.test(definition)) {
+			return [];
+		}
+		const splitColumns = (list: string) => list.split(",").map((column) => column.trim());
+
+		const key = /^\s*(PRIMARY\s+KEY|UNIQUE)\s*(NULLS\s+NOT\s+DISTINCT\s*)?\(([^()]*)\)/i.exec(definition);
+		if (key) {
+			const columns = splitColumns(key[3]);
+			const primaryKey = /^PRIMARY/i.test(key[1]);
+			// Rows with a NULL key never collide, unless NULLs are treated as equal
+			const filter =
+				primaryKey || key[2] ? "" : ` WHERE ${columns.map((column) => `${column} IS NOT NULL`).join(" AND ")}`;
+			const duplicates = `FROM ${table}${filter} GROUP BY ${columns.join(", ")} HAVING count(*) > 1`;
+			const checks: Omit<PreflightCheck, "id" | "stepId" | "table">[] = [
+				{
+					kind: "unique",
+					description: `Rows of ${tableName} sharing a value of (${columns.join(", ")}) under ${primaryKey ? "the new primary key" : "a new unique constraint"}`,
+					countQuery: `SELECT coalesce(sum(duplicates), 0) FROM (SELECT count(*) AS duplicates ${duplicates}) AS duplicate_keys`,
+					sampleQuery: `SELECT ${columns.join(", ")}, count(*) AS duplicates ${duplicates} ORDER BY count(*) DESC`,
+				},
+			];
+			if (primaryKey) {
+				const nulls = columns.map((column) => `${column} IS NULL`).join(" OR ");
+				checks.push({
+					kind: "not_null",
+					description: `NULLs in the new primary key (${columns.join(", ")}) of ${tableName}`,
+					countQuery: `SELECT count(*) FROM ${table} WHERE ${nulls}`,
+					sampleQuery: `SELECT * FROM ${table} WHERE ${nulls}`,
+				});
+			}
+			return checks;
+		}
+
+		const check = /^\s*CHECK\s*\(([\s\S]*)\)(\s+NO\s+INHERIT)?\s*$/i.exec(definition);
+		if (check) {
+			// A CHECK only rejects rows where it is false; NULL passes
+			return [
+				{
+					kind: "check",
+					description: `Rows of ${tableName} violating ${definition.trim()}`,
+					countQuery: `SELECT count(*) FROM ${table} WHERE NOT (${check[1]})`,
+					sampleQuery: `SELECT * FROM ${table} WHERE NOT (${check[1]})`,
+				},
+			];
+		}
+
+		const foreignKey = /^\s*FOREIGN\s+KEY\s*\(([^()]*)\)\s*REFERENCES\s+(.+?)\s*\(([^()]*)\)/i.exec(definition);
+		if (foreignKey) {
+			const columns = splitColumns(foreignKey[1]);
+			const referencedColumns = splitColumns(foreignKey[3]);
+			// With the default MATCH SIMPLE a row with any NULL key column is not checked
+			const orphans = `FROM ${table} AS child WHERE ${columns.map((column) => `child.${column} IS NOT NULL`).join(" AND ")} AND NOT EXISTS (SELECT 1 FROM ${foreignKey[2]} AS parent WHERE ${columns.map((column, index) => `parent.${referencedColumns[index]} = child.${column}`).join(" AND ")})`;
+			return [
+				{
+					kind: "foreign_key",
+					description: `Rows of ${tableName} whose (${columns.join(", ")}) has no match in ${foreignKey[2]}`,
+					countQuery: `SELECT count(*) ${orphans}`,
+					sampleQuery: `SELECT child.* ${orphans}`,
+				},
+			];
+		}
+		return [];
+	}
+	/**
+	 * Describes the data a step's statements destroy; rolling such a step back restores the objects
+	 * but not their contents
+	 * @param changeSql - SQL of the whole change when sqlScript is one phase of it
+	 * @returns Undefined when no statement drops or empties stored data
+	 * @private
+	 */
+	private describeDataLoss(sqlScript: string, changeSql: string = sqlScript): string | undefined {
+		const name = `((?:"(?:[^"]|"")+"|[\\w$]+)(?:\\.(?:"(?:[^"]|"")+"|[\\w$]+))?)`;
+		const losses: string[] = [];
+		// Expand/contract type changes drop the old column only after copying it into its replacement
+		const replaced = new Set(
+			[...changeSql.matchAll(new RegExp(`\\bRENAME COLUMN ${name} TO ${name}`, "gi"))].map((rename) => rename[2]),
+		);
+
+		for (const statement of this.splitSQLStatements(sqlScript)) {
+			const code = this.stripLeadingComments(statement).replace(/\s+/g, " ");
+			let match: RegExpExecArray | null;
+			if ((match = new RegExp(`^DROP TABLE (?:IF EXISTS )?${name}`, "i").exec(code))) {
+				losses.push(`drops table ${match[1]} with its rows`);
+			} else if ((match = new RegExp(`^TRUNCATE (?:TABLE )?(?:ONLY )?${name}`, "i").exec(code))) {
+				losses.push(`deletes every row of ${match[1]}`);
+			} else if ((match = new RegExp(`^DROP SEQUENCE (?:IF EXISTS )?${name}`, "i").exec(code))) {
+				losses.push(`drops sequence ${match[1]} with its current value`);
+			} else if ((match = new RegExp(`^DROP SCHEMA (?:IF EXISTS )?${name}.* CASCADE`, "i").exec(code))) {
+				losses.push(`drops schema ${match[1]} with everything in it`);
+			} else if ((match = new RegExp(`^ALTER TABLE (?:IF EXISTS )?(?:ONLY )?${name} (.*)$`, "i").exec(code))) {
+				const dropped = [
+					...match[2].matchAll(
+						new RegExp(
+							`\\bDROP (?:COLUMN )?(?:IF EXISTS )?(?!CONSTRAINT\\b|DEFAULT\\b|NOT\\b|IDENTITY\\b|EXPRESSION\\b)${name}`,
+							"gi",
+						),
+					),
+				]
+					.map((column) => column[1])
+					.filter((column) => !replaced.has(column));
+				if (dropped.length > 0) {
+					losses.push(
+						`drops column${dropped.length > 1 ? "s" : ""} ${dropped.join(", ")} of ${match[1]} with ${dropped.length > 1 ? "their" : "its"} values`,
+					);
+				}
+			}
+		}
+
+		return losses.length > 0 ? `${losses.join("; ")}; rolling back restores the structure but not the data` : undefined;
+	}
+	/**
+	 * Splits an online-profile step into execution phases: statements that cannot run in a transaction
+	 * block, VALIDATE CONSTRAINT statements and the remaining statements each get their own step, so
+	 * a NOT VALID constraint commits before its validation scan starts
+	 * @param step - Step generated for one schema change
+	 * @returns The step itself when it has a single phase, otherwise one step per phase
+	 * @private
+	 */
+	private splitStepIntoPhases(step: MigrationStep): MigrationStep[] {
+		const phases: { kind: "transactional" | "validate" | "nonTransactional"; statements: string[] }[] = [];
+		const statements = this.splitSQLStatements(step.sqlScript);
+		for (const statement of statements) {
+			const code = this.stripLeadingComments(statement);
+			const kind = !this.canRunInTransaction(statement)
+				? "nonTransactional"
+				: VALIDATE_CONSTRAINT_PATTERN.test(code)
+					? "validate"
+					: "transactional";
+			const current = phases[phases.length - 1];
+			if (current?.kind === kind) {
+				current.statements.push(statement);
+			} else {
+				phases.push({ kind, statements: [statement] });
+			}
+		}
+		if (phases.length <= 1) {
+			return [step];
+		}
+
+		// Trailing comment lines (warnings) are not statements; keep them with the last phase
+		const lastStatement = statements[statements.length - 1];
+		const trailingComments = step.sqlScript
+			.slice(step.sqlScript.lastIndexOf(lastStatement) + lastStatement.length)
+			.trim();
+		const phaseLabels = {
+			transactional: "",
+			validate: " (validate constraints)",
+			nonTransactional: " (outside transaction)",
+		};
+
+		return phases.map((phase, index) => {
+			const isFirst = index === 0;
+			const isLast = index === phases.length - 1;
+			const sqlScript = phase.statements.join("\n");
+			return {
+				...step,
+				id: `step_${step.order + index}`,
+				order: step.order + index,
+				name: `${step.name}${phaseLabels[phase.kind]}`,
+				description: `${step.description} - phase ${index + 1} of ${phases.length}`,
+				sqlScript: isLast && trailingComments ? `${sqlScript}\n${trailingComments}` : sqlScript,
+				dependencies: isFirst ? step.dependencies : [`step_${step.order + index - 1}`],
+				estimatedDuration: Math.ceil(step.estimatedDuration / phases.length),
+				// Rolling back the first phase undoes the whole change, whichever phases had run
+				rollbackSql: isFirst ? step.rollbackSql : "",
+				verificationQuery: isLast ? step.verificationQuery : undefined,
+				// The checks look at the data as it is before the change starts
+				preflightChecks: isFirst ? step.preflightChecks : undefined,
+				preConditions: isFirst ? step.preConditions : [],
+				postConditions: isLast ? step.postConditions : [],
+				transactional: phase.kind !== "nonTransactional",
+				irreversibleReason: this.describeDataLoss(sqlScript, step.sqlScript),
+			};
+		});
+	}
+	/**
+	 * Generates SQL statement for a schema change based on change type
+	 * @param change - Schema difference to generate SQL for
+	 * @param sourceConnectionId - Connection ID for source database
+	 * @param targetConnectionId - Connection ID for target database
+	 * @param ddlProfile - DDL generation profile
+	 * @returns Promise resolving to SQL statement string
+	 * @throws Error if SQL generation fails
+	 * @private
+	 */
+	private async generateChangeSQL(
+		change: SchemaDifference,
+		sourceConnectionId: string,
+		targetConnectionId: string,
+		ddlProfile: MigrationDdlProfile = "standard",
+	): Promise<string> {
+		// Input validation
+		if (!change || typeof change !== "object") {
+			throw new Error("change must be a valid SchemaDifference object");
+		}
+		if (!sourceConnectionId || typeof sourceConnectionId !== "string") {
+			throw new Error("sourceConnectionId must be a non-empty string");
+		}
+		if (!targetConnectionId || typeof targetConnectionId !== "string") {
+			throw new Error("targetConnectionId must be a non-empty string");
+		}
+		try {
+			// The online profile rebuilds columns whose type changes; what they carry is read before any step runs
+			const columnDependents =
+				ddlProfile === "online" && change.objectType === "table"
+					? await this.loadOnlineColumnDependents(
+							sourceConnectionId,
+							change.schema,
+							change.previousName || change.objectName,
+							(change.attributeChanges || [])
+								.filter((attr) => attr.kind === "column_type")
+								.map((attr) => attr.sourceColumn?.name || attr.subObject || ""),
+						)
+					: undefined;
+			let sql: string;
+			switch (change.type) {
+				case "Added":
+					sql = await this.generateCreateSQL(change, targetConnectionId, ddlProfile);
+					break;
+
+				case "Removed":
+					sql = this.generateDropSQL(change, ddlProfile);
+					break;
+
+				case "Modified":
+					sql = await this.generateAlterSQL(
+						change,
+						sourceConnectionId,
+						targetConnectionId,
+						ddlProfile,
+						columnDependents,
+					);
+					break;
+
+				case "Renamed":
+					// Apply any changes beyond the name to the object under its new name
+					sql =
+						change.objectType !== "column" && change.attributeChanges && change.attributeChanges.length > 0
+							? `${this.generateRenameSQL(change)}\n${this.generateAttributeAlterSQL(change, ddlProfile, columnDependents)}`
+							: this.generateRenameSQL(change);
+					break;
+
+				default:
+					return `-- Unknown change type: ${change.type}`;
+			}
+
+			// Mapped comparisons read from the target schema but the migration applies to the source schema
+			return change.targetSchema && change.targetSchema !== change.schema
+				? SchemaMapper.rewriteQualifiedNames(sql, change.targetSchema, change.schema)
+				: sql;
+		} catch (error) {
+			Logger.error("Failed to generate change SQL", error as Error, "generateChangeSQL", {
+				changeType: change.type,
+				objectType: change.objectType,
+				objectName: change.objectName,
 			});
 			return `-- Error generating SQL for ${change.type} ${change.objectType} ${change.objectName}: ${(error as Error).message}`;
 		}
@@ -736,11 +1826,16 @@ export class MigrationManagement {
 	 * Generates CREATE SQL statement for added objects
 	 * @param change - Schema difference representing the added object
 	 * @param targetConnectionId - Connection ID for target database
+	 * @param ddlProfile - DDL generation profile; "online" builds indexes concurrently
 	 * @returns Promise resolving to CREATE SQL statement
 	 * @throws Error if CREATE SQL generation fails
 	 * @private
 	 */
-	private async generateCreateSQL(change: SchemaDifference, targetConnectionId: string): Promise<string> {
+	private async generateCreateSQL(
+		change: SchemaDifference,
+		targetConnectionId: string,
+		ddlProfile: MigrationDdlProfile = "standard",
+	): Promise<string> {
 		// Input validation
 		if (!change || typeof change !== "object") {
 			throw new Error("change must be a valid SchemaDifference object");
@@ -749,23 +1844,35 @@ export class MigrationManagement {
 			throw new Error("targetConnectionId must be a non-empty string");
 		}
 		if (change.targetDefinition) {
+			// View definitions hold only the query
+			if (change.objectType === "view" && !/^\s*CREATE\b/i.test(change.targetDefinition)) {
+				const schema = change.targetSchema || change.schema;
+				const query = change.targetDefinition.trim().replace(/;\s*$/, "");
+				return `CREATE VIEW ${this.quoteIdentifier(schema)}.${this.quoteIdentifier(change.objectName)} AS ${query};`;
+			}
+			if (change.objectType === "index" && ddlProfile === "online") {
+				return this.toConcurrentIndexSQL(change.targetDefinition);
+			}
 			return change.targetDefinition;
 		}
 
 		// Generate CREATE statement by querying target database for actual definitions
+		const lookup = change.targetSchema ? { ...change, schema: change.targetSchema } : change;
 		try {
 			switch (change.objectType) {
 				case "table":
-					return await this.generateTableCreateSQL(change, targetConnectionId);
+					return await this.generateTableCreateSQL(lookup, targetConnectionId);
 
-				case "index":
-					return await this.generateIndexCreateSQL(change, targetConnectionId);
+				case "index": {
+					const indexSQL = await this.generateIndexCreateSQL(lookup, targetConnectionId);
+					return ddlProfile === "online" ? this.toConcurrentIndexSQL(indexSQL) : indexSQL;
+				}
 
 				case "view":
-					return await this.generateViewCreateSQL(change, targetConnectionId);
+					return await this.generateViewCreateSQL(lookup, targetConnectionId);
 
 				case "function":
-					return await this.generateFunctionCreateSQL(change, targetConnectionId);
+					return await this.generateFunctionCreateSQL(lookup, targetConnectionId);
 
 				default:
 					return `-- CREATE statement for ${change.objectType} ${change.objectName} needs manual definition`;
@@ -822,166 +1929,1517 @@ export class MigrationManagement {
 				const precision = col[5];
 				const scale = col[6];
 
-				let typeDef = dataType;
-				if (maxLength && (dataType === "varchar" || dataType === "character")) {
-					typeDef = `${dataType}(${maxLength})`;
-				} else if (precision && scale && (dataType === "numeric" || dataType === "decimal")) {
-					typeDef = `${dataType}(${precision},${scale})`;
-				}
+				let typeDef = dataType;
+				if (maxLength && (dataType === "varchar" || dataType === "character")) {
+					typeDef = `${dataType}(${maxLength})`;
+				} else if (precision && scale && (dataType === "numeric" || dataType === "decimal")) {
+					typeDef = `${dataType}(${precision},${scale})`;
+				}
+
+				const nullableDef = isNullable ? "" : " NOT NULL";
+				const defaultDef = defaultValue ? ` DEFAULT ${defaultValue}` : "";
+
+				return `  ${columnName} ${typeDef}${nullableDef}${defaultDef}`;
+			});
+
+			return `CREATE TABLE ${change.schema}.${change.objectName} (\n${columnDefs.join(",\n")}\n);`;
+		} catch (error) {
+			Logger.error("Failed to generate table CREATE SQL", error as Error, "generateTableCreateSQL", {
+				schema: change.schema,
+				tableName: change.objectName,
+			});
+			return `-- Error generating CREATE TABLE: ${(error as Error).message}`;
+		}
+	}
+
+	/**
+	 * Generates CREATE INDEX SQL by querying target database index definition
+	 * @param change - Schema difference for the index to create
+	 * @param targetConnectionId - Connection ID for target database
+	 * @returns Promise resolving to CREATE INDEX SQL statement
+	 * @throws Error if index creation SQL generation fails
+	 * @private
+	 */
+	private async generateIndexCreateSQL(change: SchemaDifference, targetConnectionId: string): Promise<string> {
+		try {
+			// Get index definition from target database
+			const indexQuery = `
+                SELECT indexdef
+                FROM pg_indexes
+                WHERE schemaname = '${change.schema}'
+                AND indexname = '${change.objectName}'
+            `;
+
+			const indexResult = await this.queryService.executeQuery(targetConnectionId, indexQuery);
+
+			if (indexResult.rows.length === 0) {
+				return `-- Index ${change.schema}.${change.objectName} not found in target database`;
+			}
+
+			return indexResult.rows[0][0]; // Return the index definition
+		} catch (error) {
+			Logger.error("Failed to generate index CREATE SQL", error as Error, "generateIndexCreateSQL", {
+				schema: change.schema,
+				indexName: change.objectName,
+			});
+			return `-- Error generating CREATE INDEX: ${(error as Error).message}`;
+		}
+	}
+
+	/**
+	 * Generates CREATE VIEW SQL by querying target database view definition
+	 * @param change - Schema difference for the view to create
+	 * @param targetConnectionId - Connection ID for target database
+	 * @returns Promise resolving to CREATE VIEW SQL statement
+	 * @throws Error if view creation SQL generation fails
+	 * @private
+	 */
+	private async generateViewCreateSQL(change: SchemaDifference, targetConnectionId: string): Promise<string> {
+		try {
+			// Get view definition from target database
+			const viewQuery = `
+                SELECT definition
+                FROM pg_views
+                WHERE schemaname = '${change.schema}'
+                AND viewname = '${change.objectName}'
+            `;
+
+			const viewResult = await this.queryService.executeQuery(targetConnectionId, viewQuery);
+
+			if (viewResult.rows.length === 0) {
+				return `-- View ${change.schema}.${change.objectName} not found in target database`;
+			}
+
+			return `CREATE VIEW ${change.schema}.${change.objectName} AS\n${viewResult.rows[0][0]}`;
+		} catch (error) {
+			Logger.error("Failed to generate view CREATE SQL", error as Error, "generateViewCreateSQL", {
+				schema: change.schema,
+				viewName: change.objectName,
+			});
+			return `-- Error generating CREATE VIEW: ${(error as Error).message}`;
+		}
+	}
+
+	/**
+	 * Generates CREATE FUNCTION SQL by querying target database function definition
+	 * @param change - Schema difference for the function to create
+	 * @param targetConnectionId - Connection ID for target database
+	 * @returns Promise resolving to CREATE FUNCTION SQL statement
+	 * @throws Error if function creation SQL generation fails
+	 * @private
+	 */
+	private async generateFunctionCreateSQL(change: SchemaDifference, targetConnectionId: string): Promise<string> {
+		try {
+			// Get function definition from target database
+			const functionQuery = `
+                SELECT pg_get_functiondef(p.oid) as function_definition
+                FROM pg_proc p
+                JOIN pg_namespace n ON p.pronamespace = n.oid
+                WHERE n.nspname = '${change.schema}'
+                AND p.proname = '${change.objectName}'
+                ORDER BY p.oid
+                LIMIT 1
+            `;
+
+			const functionResult = await this.queryService.executeQuery(targetConnectionId, functionQuery);
+
+			if (functionResult.rows.length === 0) {
+				return `-- Function ${change.schema}.${change.objectName} not found in target database`;
+			}
+
+			return functionResult.rows[0][0]; // Return the function definition
+		} catch (error) {
+			Logger.error("Failed to generate function CREATE SQL", error as Error, "generateFunctionCreateSQL", {
+				schema: change.schema,
+				functionName: change.objectName,
+			});
+			return `-- Error generating CREATE FUNCTION: ${(error as Error).message}`;
+		}
+	}
+
+	/**
+	 * Generates DROP SQL statement for removed objects
+	 * @param change - Schema difference representing the removed object
+	 * @param ddlProfile - DDL generation profile; "online" drops indexes concurrently
+	 * @returns DROP SQL statement string
+	 * @private
+	 */
+	private generateDropSQL(change: SchemaDifference, ddlProfile: MigrationDdlProfile = "standard"): string {
+		const objectType = change.objectType.toUpperCase();
+
+		// Handle different object types with appropriate DROP statements
+		switch (change.objectType) {
+			case "table":
+				return `DROP TABLE IF EXISTS ${change.schema}.${change.objectName} CASCADE;`;
+
+			case "index":
+				// DROP INDEX CONCURRENTLY does not accept CASCADE
+				return ddlProfile === "online"
+					? `DROP INDEX CONCURRENTLY IF EXISTS ${change.schema}.${change.objectName};`
+					: `DROP INDEX IF EXISTS ${change.schema}.${change.objectName} CASCADE;`;
+
+			case "view":
+				return `DROP VIEW IF EXISTS ${change.schema}.${change.objectName} CASCADE;`;
+
+			case "function":
+				return `DROP FUNCTION IF EXISTS ${change.schema}.${change.objectName} CASCADE;`;
+
+			case "trigger":
+				return `DROP TRIGGER IF EXISTS ${change.objectName} ON ${change.schema} CASCADE;`;
+
+			case "sequence":
+				return `DROP SEQUENCE IF EXISTS ${change.schema}.${change.objectName} CASCADE;`;
+
+			case "materialized_view":
+			case "procedure":
+			case "aggregate":
+			case "operator":
+			case "domain":
+			case "enum":
+			case "collation":
+			case "extension":
+			case "policy":
+			case "rule":
+			case "foreign_table":
+			case "foreign_server":
+			case "publication":
+			case "subscription":
+			case "event_trigger": {
+				const reference = this.getObjectReference(change);
+				return `DROP ${reference.keyword} IF EXISTS ${reference.name} CASCADE;`;
+			}
+
+			case "default_privileges":
+				return this.generateDefaultPrivilegesRevokeSQL(change);
+
+			default:
+				return `DROP ${objectType} IF EXISTS ${change.schema}.${change.objectName} CASCADE;`;
+		}
+	}
+
+	/**
+	 * Builds the DDL keyword and quoted reference for an object, including the argument list
+	 * for routines and operators and the owning table for triggers, policies and rules
+	 * @param change - Schema difference describing the object
+	 * @returns Keyword (e.g. MATERIALIZED VIEW) and the name to use after it
+	 * @private
+	 */
+	private getObjectReference(change: SchemaDifference): { keyword: string; name: string } {
+		const keyword = OBJECT_TYPE_KEYWORDS[change.objectType] || change.objectType.toUpperCase();
+		const schema = this.quoteIdentifier(change.schema);
+		const objectName = this.quoteIdentifier(change.objectName);
+
+		switch (change.objectType) {
+			case "function":
+			case "procedure":
+				return { keyword, name: `${schema}.${objectName}(${change.signature || ""})` };
+
+			case "aggregate":
+				return { keyword, name: `${schema}.${objectName}(${change.signature || "*"})` };
+
+			case "operator":
+				return { keyword, name: `${schema}.${change.objectName} (${change.signature || "NONE, NONE"})` };
+
+			case "trigger":
+			case "policy":
+			case "rule":
+				return { keyword, name: `${objectName} ON ${schema}.${this.quoteIdentifier(change.tableName || "")}` };
+
+			case "schema":
+			case "extension":
+			case "foreign_server":
+			case "publication":
+			case "subscription":
+			case "event_trigger":
+				return { keyword, name: objectName };
+
+			default:
+				return { keyword, name: `${schema}.${objectName}` };
+		}
+	}
+
+	/**
+	 * Generates ALTER ... RENAME SQL statement for renamed objects
+	 * @param change - Schema difference representing the renamed object
+	 * @param reverse - When true, renames the object back to its previous name (for rollback)
+	 * @returns RENAME SQL statement string
+	 * @private
+	 */
+	private generateRenameSQL(change: SchemaDifference, reverse: boolean = false): string {
+		if (!change.previousName) {
+			throw new Error("Renamed change must have a previousName");
+		}
+		const fromName = this.quoteIdentifier(reverse ? change.objectName : change.previousName);
+		const toName = this.quoteIdentifier(reverse ? change.previousName : change.objectName);
+		const schema = this.quoteIdentifier(change.schema);
+
+		switch (change.objectType) {
+			case "table":
+				return `ALTER TABLE ${schema}.${fromName} RENAME TO ${toName};`;
+
+			case "view":
+				return `ALTER VIEW ${schema}.${fromName} RENAME TO ${toName};`;
+
+			case "index":
+				return `ALTER INDEX ${schema}.${fromName} RENAME TO ${toName};`;
+
+			case "materialized_view":
+				return `ALTER MATERIALIZED VIEW ${schema}.${fromName} RENAME TO ${toName};`;
+
+			case "function":
+			case "procedure":
+				return `ALTER ${change.objectType.toUpperCase()} ${schema}.${fromName}(${change.signature || ""}) RENAME TO ${toName};`;
+
+			case "column":
+				if (!change.tableName) {
+					throw new Error("Renamed column change must have a tableName");
+				}
+				return `ALTER TABLE ${schema}.${this.quoteIdentifier(change.tableName)} RENAME COLUMN ${fromName} TO ${toName};`;
+
+			default:
+				return `ALTER ${change.objectType.toUpperCase()} ${schema}.${fromName} RENAME TO ${toName};`;
+		}
+	}
+
+	/**
+	 * Quotes an identifier for use in generated SQL
+	 * @param identifier - Identifier to quote
+	 * @returns Double-quoted identifier
+	 * @private
+	 */
+	private quoteIdentifier(identifier: string): string {
+		return `"${identifier.replace(/"/g, '""')}"`;
+	}
+
+	/**
+	 * Quotes a string literal for use in generated SQL
+	 * @param value - Value to quote, or null/undefined for SQL NULL
+	 * @returns Quoted literal or NULL
+	 * @private
+	 */
+	private quoteLiteral(value: unknown): string {
+		if (value === null || value === undefined || value === "") {
+			return "NULL";
+		}
+		return `'${String(value).replace(/'/g, "''")}'`;
+	}
+
+	/**
+	 * Generates targeted ALTER statements from a difference's structured attribute changes
+	 * @param change - Modified or Renamed schema difference carrying attributeChanges
+	 * @param ddlProfile - DDL generation profile
+	 * @param columnDependents - Dependents of table columns whose type changes, for the online profile
+	 * @returns SQL statements applying exactly the listed changes
+	 * @private
+	 */
+	private generateAttributeAlterSQL(
+		change: SchemaDifference,
+		ddlProfile: MigrationDdlProfile = "standard",
+		columnDependents?: Map<string, OnlineColumnDependents>,
+	): string {
+		const attributeChanges = change.attributeChanges || [];
+		if (change.category === "privileges") {
+			return this.generatePrivilegeStatements(change, attributeChanges).join("\n");
+		}
+		const qualifiedName = `${this.quoteIdentifier(change.schema)}.${this.quoteIdentifier(change.objectName)}`;
+		const statements: string[] = [];
+
+		// Objects read from SQL files only carry their definition text
+		if (attributeChanges.some((attr) => attr.kind === "definition")) {
+			statements.push(...this.generateDefinitionReplayStatements(change, qualifiedName));
+			statements.push(...this.generateOwnershipStatements(change, attributeChanges));
+			return statements.filter((statement) => statement.length > 0).join("\n");
+		}
+
+		switch (change.objectType) {
+			case "table":
+				statements.push(
+					...this.generateTableAttributeStatements(
+						change,
+						qualifiedName,
+						attributeChanges,
+						ddlProfile,
+						columnDependents,
+					),
+				);
+				break;
+
+			case "index":
+				if (attributeChanges.some((attr) => attr.kind !== "owner" && attr.kind !== "comment")) {
+					statements.push(
+						...(ddlProfile === "online"
+							? [
+									`DROP INDEX CONCURRENTLY IF EXISTS ${qualifiedName};`,
+									this.toConcurrentIndexSQL(change.targetDefinition || ""),
+								]
+							: [`DROP INDEX IF EXISTS ${qualifiedName};`, change.targetDefinition || ""]),
+					);
+				}
+				break;
+
+			case "function":
+				statements.push(...this.generateFunctionAttributeStatements(change, qualifiedName, attributeChanges));
+				break;
+
+			case "view":
+				statements.push(...this.generateViewAttributeStatements(change, qualifiedName, attributeChanges));
+				break;
+
+			case "trigger": {
+				const tableName = `${this.quoteIdentifier(change.schema)}.${this.quoteIdentifier(change.tableName || "")}`;
+				const structural = attributeChanges.filter(
+					(attr) => attr.kind.startsWith("trigger_") && attr.kind !== "trigger_enabled",
+				);
+				if (structural.length > 0) {
+					statements.push(
+						`DROP TRIGGER IF EXISTS ${this.quoteIdentifier(change.objectName)} ON ${tableName};`,
+						change.targetDefinition || "",
+					);
+				} else {
+					const enabled = attributeChanges.find((attr) => attr.kind === "trigger_enabled");
+					if (enabled) {
+						statements.push(
+							`ALTER TABLE ${tableName} ${enabled.targetValue ? "ENABLE" : "DISABLE"} TRIGGER ${this.quoteIdentifier(change.objectName)};`,
+						);
+					}
+				}
+				break;
+			}
+
+			case "sequence": {
+				const clauses = attributeChanges
+					.map((attr) => this.generateSequenceClause(attr))
+					.filter((clause): clause is string => clause !== null);
+				if (clauses.length > 0) {
+					statements.push(`ALTER SEQUENCE ${qualifiedName} ${clauses.join(" ")};`);
+				}
+				break;
+			}
+
+			case "procedure":
+				statements.push(...this.generateFunctionAttributeStatements(change, qualifiedName, attributeChanges));
+				break;
+
+			case "materialized_view":
+				statements.push(...this.generateMaterializedViewAttributeStatements(change, qualifiedName, attributeChanges));
+				break;
+
+			case "domain":
+				statements.push(...this.generateDomainAttributeStatements(qualifiedName, attributeChanges));
+				break;
+
+			case "enum":
+				statements.push(...this.generateEnumAttributeStatements(qualifiedName, attributeChanges));
+				break;
+
+			case "extension": {
+				const version = attributeChanges.find((attr) => attr.kind === "extension_version");
+				if (version) {
+					statements.push(
+						`ALTER EXTENSION ${this.quoteIdentifier(change.objectName)} UPDATE TO ${this.quoteLiteral(version.targetValue)};`,
+					);
+				}
+				break;
+			}
+
+			case "policy":
+				statements.push(...this.generatePolicyAttributeStatements(change, attributeChanges));
+				break;
+
+			case "rule": {
+				if (attributeChanges.some((attr) => attr.kind === "rule_definition")) {
+					statements.push((change.targetDefinition || "").replace(/^\s*CREATE\s+RULE\b/i, "CREATE OR REPLACE RULE"));
+				}
+				const enabled = attributeChanges.find((attr) => attr.kind === "rule_enabled");
+				if (enabled) {
+					statements.push(
+						`ALTER TABLE ${this.quoteIdentifier(change.schema)}.${this.quoteIdentifier(change.tableName || "")} ${enabled.targetValue ? "ENABLE" : "DISABLE"} RULE ${this.quoteIdentifier(change.objectName)};`,
+					);
+				}
+				break;
+			}
+
+			case "foreign_server":
+				statements.push(...this.generateForeignServerAttributeStatements(change, attributeChanges));
+				break;
+
+			case "publication":
+				statements.push(...this.generatePublicationAttributeStatements(change, attributeChanges));
+				break;
+
+			case "subscription": {
+				const subscription = `ALTER SUBSCRIPTION ${this.quoteIdentifier(change.objectName)}`;
+				for (const attr of attributeChanges) {
+					if (attr.kind === "subscription_publications") {
+						const publications = Array.isArray(attr.targetValue) ? attr.targetValue : [];
+						statements.push(
+							`${subscription} SET PUBLICATION ${publications.map((pub) => this.quoteIdentifier(pub)).join(", ")};`,
+						);
+					}
+					if (attr.kind === "subscription_enabled") {
+						statements.push(`${subscription} ${attr.targetValue ? "ENABLE" : "DISABLE"};`);
+					}
+				}
+				break;
+			}
+
+			case "event_trigger": {
+				const structural = attributeChanges.filter(
+					(attr) => attr.kind.startsWith("event_trigger_") && attr.kind !== "event_trigger_enabled",
+				);
+				const enabled = attributeChanges.find((attr) => attr.kind === "event_trigger_enabled");
+				if (structural.length > 0) {
+					statements.push(...this.generateRecreateStatements(change));
+				} else if (enabled) {
+					statements.push(
+						`ALTER EVENT TRIGGER ${this.quoteIdentifier(change.objectName)} ${enabled.targetValue ? "ENABLE" : "DISABLE"};`,
+					);
+				}
+				break;
+			}
+
+			case "operator": {
+				const estimators = attributeChanges.filter(
+					(attr) => attr.kind === "operator_restrict" || attr.kind === "operator_join",
+				);
+				const structural = attributeChanges.filter(
+					(attr) => attr.kind.startsWith("operator_") && !estimators.includes(attr),
+				);
+				if (structural.length > 0) {
+					statements.push(...this.generateRecreateStatements(change));
+				} else if (estimators.length > 0) {
+					const clauses = estimators.map(
+						(attr) => `${attr.kind === "operator_restrict" ? "RESTRICT" : "JOIN"} = ${attr.targetValue || "NONE"}`,
+					);
+					statements.push(`ALTER OPERATOR ${this.getObjectReference(change).name} SET (${clauses.join(", ")});`);
+				}
+				break;
+			}
+
+			// These cannot be altered in place; dropping fails rather than cascading if other objects depend on them
+			case "aggregate":
+			case "collation":
+			case "foreign_table":
+				if (attributeChanges.some((attr) => attr.kind !== "owner" && attr.kind !== "comment")) {
+					statements.push(...this.generateRecreateStatements(change));
+				}
+				break;
+		}
+
+		statements.push(...this.generateOwnershipStatements(change, attributeChanges));
+
+		const sql = statements.filter((statement) => statement.length > 0);
+		if (sql.length === 0) {
+			return `-- No automatic migration for ${change.objectType} ${change.schema}.${change.objectName}: ${attributeChanges.map((attr) => attr.description).join("; ")}`;
+		}
+		return sql.join("\n");
+	}
+
+	/**
+	 * Generates ALTER TABLE statements for column, constraint and storage attribute changes.
+	 * Constraint drops run first and constraint adds last so column changes never conflict with them.
+	 * The online profile swaps blocking statements for the sequences built by the generateOnline* helpers.
+	 * @param columnDependents - Dependents of the columns whose type changes, keyed by current column name;
+	 * a column without them is altered in place
+	 * @private
+	 */
+	private generateTableAttributeStatements(
+		change: SchemaDifference,
+		qualifiedName: string,
+		attributeChanges: AttributeChange[],
+		ddlProfile: MigrationDdlProfile = "standard",
+		columnDependents?: Map<string, OnlineColumnDependents>,
+	): string[] {
+		const constraintDrops: string[] = [];
+		const statements: string[] = [];
+		const constraintAdds: string[] = [];
+		const warnings: string[] = [];
+		const alterTable = `ALTER TABLE ${qualifiedName}`;
+		const online = ddlProfile === "online";
+
+		// Columns rebuilt by expand/contract get their target nullability and default with the new column;
+		// a column with dependents the swap would lose is altered in place, and the reason is noted
+		const rebuiltColumns = new Map<string | undefined, OnlineColumnDependents>();
+		const inPlaceReasons = new Map<string | undefined, string>();
+		for (const attr of attributeChanges) {
+			if (
+				!online ||
+				attr.kind !== "column_type" ||
+				!attr.column ||
+				attr.column.identity ||
+				attr.column.generated ||
+				this.isRewriteFreeTypeChange(String(attr.sourceValue), String(attr.targetValue))
+			) {
+				continue;
+			}
+			const dependents = columnDependents?.get(attr.sourceColumn?.name || attr.subObject || "");
+			const blocker = this.getOnlineTypeChangeBlocker(dependents);
+			if (blocker) {
+				inPlaceReasons.set(attr.subObject, blocker);
+			} else if (dependents) {
+				rebuiltColumns.set(attr.subObject, dependents);
+			}
+		}
+
+		for (const attr of attributeChanges) {
+			const column = attr.subObject ? this.quoteIdentifier(attr.subObject) : "";
+			const rebuilt = rebuiltColumns.get(attr.subObject);
+
+			switch (attr.kind) {
+				case "column_added":
+					if (attr.column) {
+						statements.push(`${alterTable} ADD COLUMN ${this.buildColumnDefinitionSQL(attr.column)};`);
+					}
+					break;
+
+				case "column_dropped":
+					statements.push(`${alterTable} DROP COLUMN ${column};`);
+					warnings.push(`WARNING: Dropping column ${attr.subObject} may cause data loss`);
+					break;
+
+				case "column_type":
+					if (rebuilt && attr.column) {
+						statements.push(
+							...this.generateOnlineTypeChangeStatements(
+								change.schema,
+								change.objectName,
+								attr.column,
+								String(attr.sourceValue),
+								rebuilt,
+							),
+						);
+					} else {
+						statements.push(
+							`${alterTable} ALTER COLUMN ${column} TYPE ${attr.targetValue} USING ${this.generateUsingClause(String(attr.sourceValue), String(attr.targetValue), column)};`,
+						);
+						if (inPlaceReasons.has(attr.subObject)) {
+							warnings.push(
+								`WARNING: ${attr.subObject} is changed in place, rewriting the table under ACCESS EXCLUSIVE: ${inPlaceReasons.get(attr.subObject)}`,
+							);
+						}
+					}
+					warnings.push(`WARNING: Data type change for ${attr.subObject} may cause data loss`);
+					break;
+
+				case "column_nullability":
+					if (rebuilt) {
+						break;
+					}
+					if (online && attr.targetValue) {
+						statements.push(
+							...this.generateOnlineNotNullStatements(qualifiedName, change.objectName, column, attr.subObject || ""),
+						);
+					} else {
+						statements.push(`${alterTable} ALTER COLUMN ${column} ${attr.targetValue ? "SET" : "DROP"} NOT NULL;`);
+					}
+					break;
+
+				case "column_default":
+					if (rebuilt) {
+						break;
+					}
+					if (attr.column?.generated) {
+						statements.push(`${alterTable} ALTER COLUMN ${column} SET EXPRESSION AS (${attr.targetValue});`);
+					} else if (attr.targetValue) {
+						statements.push(`${alterTable} ALTER COLUMN ${column} SET DEFAULT ${attr.targetValue};`);
+					} else {
+						statements.push(`${alterTable} ALTER COLUMN ${column} DROP DEFAULT;`);
+					}
+					break;
+
+				case "column_identity":
+					if (!attr.targetValue) {
+						statements.push(`${alterTable} ALTER COLUMN ${column} DROP IDENTITY IF EXISTS;`);
+					} else if (!attr.sourceValue) {
+						statements.push(`${alterTable} ALTER COLUMN ${column} ADD GENERATED ${attr.targetValue} AS IDENTITY;`);
+					} else {
+						statements.push(`${alterTable} ALTER COLUMN ${column} SET GENERATED ${attr.targetValue};`);
+					}
+					break;
+
+				case "column_collation":
+					if (attr.column) {
+						const collation = attr.targetValue ? ` COLLATE ${this.quoteIdentifier(String(attr.targetValue))}` : "";
+						statements.push(`${alterTable} ALTER COLUMN ${column} TYPE ${attr.column.dataType}${collation};`);
+					}
+					break;
+
+				case "constraint_dropped":
+					constraintDrops.push(`${alterTable} DROP CONSTRAINT IF EXISTS ${column};`);
+					break;
+
+				case "constraint_changed":
+					constraintDrops.push(`${alterTable} DROP CONSTRAINT IF EXISTS ${column};`);
+					constraintAdds.push(...this.generateConstraintAddStatements(qualifiedName, column, attr, ddlProfile));
+					break;
+
+				case "constraint_added":
+					constraintAdds.push(...this.generateConstraintAddStatements(qualifiedName, column, attr, ddlProfile));
+					break;
+
+				case "table_tablespace":
+					statements.push(
+						`${alterTable} SET TABLESPACE ${this.quoteIdentifier(String(attr.targetValue || "pg_default"))};`,
+					);
+					break;
+
+				case "table_storage_parameters":
+					statements.push(...this.generateStorageParameterStatements(alterTable, attr));
+					break;
+
+				case "table_row_security":
+					statements.push(`${alterTable} ${attr.targetValue ? "ENABLE" : "DISABLE"} ROW LEVEL SECURITY;`);
+					break;
+
+				case "table_force_row_security":
+					statements.push(`${alterTable} ${attr.targetValue ? "FORCE" : "NO FORCE"} ROW LEVEL SECURITY;`);
+					break;
+
+				case "column_generated":
+				case "table_partition_key":
+					statements.push(`-- ${attr.description}: requires recreating the ${attr.subObject ? "column" : "table"}`);
+					break;
+			}
+		}
+
+		return [...constraintDrops, ...statements, ...constraintAdds, ...warnings.map((warning) => `-- ${warning}`)];
+	}
+
+	/**
+	 * Generates the ADD CONSTRAINT statements for a constraint_added or constraint_changed attribute
+	 * @private
+	 */
+	private generateConstraintAddStatements(
+		qualifiedName: string,
+		constraintName: string,
+		attr: AttributeChange,
+		ddlProfile: MigrationDdlProfile,
+	): string[] {
+		return ddlProfile === "online"
+			? this.generateOnlineConstraintStatements(qualifiedName, constraintName, String(attr.targetValue))
+			: [`ALTER TABLE ${qualifiedName} ADD CONSTRAINT ${constraintName} ${attr.targetValue};`];
+	}
+
+	/**
+	 * Rewrites CREATE INDEX so the index is built without blocking writes to the table
+	 * @private
+	 */
+	private toConcurrentIndexSQL(sql: string): string {
+		return sql.replace(/^(\s*CREATE\s+(?:UNIQUE\s+)?INDEX)\s+(?!CONCURRENTLY\b)/i, "$1 CONCURRENTLY ");
+	}
+
+	/**
+	 * Adds a constraint without holding a long lock. Foreign keys and checks are added NOT VALID and
+	 * validated afterwards; primary keys and unique constraints take over a unique index built concurrently.
+	 * @param table - Table reference as rendered in the surrounding statements
+	 * @param constraintName - Constraint name as rendered in the surrounding statements
+	 * @param definition - Constraint definition, e.g. FOREIGN KEY (a) REFERENCES b(c)
+	 * @private
+	 */
+	private generateOnlineConstraintStatements(table: string, constraintName: string, definition: string): string[] {
+		const alterTable = `ALTER TABLE ${table}`;
+		if (/^\s*(FOREIGN\s+KEY|CHECK)\b/i.test(definition) && !/\bNOT\s+VALID\s*$/i.test(definition)) {
+			return [
+				`${alterTable} ADD CONSTRAINT ${constraintName} ${definition} NOT VALID;`,
+				`${alterTable} VALIDATE CONSTRAINT ${constraintName};`,
+			];
+		}
+
+		// Only plain column lists; INCLUDE, WITH and deferrable keys keep the blocking form
+		const keyConstraint = /^\s*(PRIMARY\s+KEY|UNIQUE)\s*(\([^()]*\))\s*$/i.exec(definition);
+		if (keyConstraint) {
+			return [
+				`CREATE UNIQUE INDEX CONCURRENTLY ${constraintName} ON ${table} ${keyConstraint[2]};`,
+				`${alterTable} ADD CONSTRAINT ${constraintName} ${keyConstraint[1].toUpperCase()} USING INDEX ${constraintName};`,
+			];
+		}
+		return [`${alterTable} ADD CONSTRAINT ${constraintName} ${definition};`];
+	}
+
+	/**
+	 * Sets NOT NULL without scanning the table under ACCESS EXCLUSIVE: a validated
+	 * CHECK (column IS NOT NULL) lets SET NOT NULL skip its scan (PostgreSQL 12+)
+	 * @param table - Table reference as rendered in the surrounding statements
+	 * @param tableName - Unquoted table name, used to name the temporary check
+	 * @param column - Column reference as rendered in the surrounding statements
+	 * @param columnName - Unquoted column name
+	 * @private
+	 */
+	private generateOnlineNotNullStatements(
+		table: string,
+		tableName: string,
+		column: string,
+		columnName: string,
+	): string[] {
+		const alterTable = `ALTER TABLE ${table}`;
+		const checkName = this.quoteIdentifier(this.truncateIdentifier(`${tableName}_${columnName}_not_null`));
+		return [
+			`${alterTable} ADD CONSTRAINT ${checkName} CHECK (${column} IS NOT NULL) NOT VALID;`,
+			`${alterTable} VALIDATE CONSTRAINT ${checkName};`,
+			`${alterTable} ALTER COLUMN ${column} SET NOT NULL;`,
+			`${alterTable} DROP CONSTRAINT ${checkName};`,
+		];
+	}
+
+	/**
+	 * Reads the dependents an expand/contract type change has to carry over, per column
+	 * @param connectionId - Database the migration applies to
+	 * @param schema - Unquoted schema name
+	 * @param tableName - Unquoted table name as it is before the migration
+	 * @param columnNames - Columns whose type changes
+	 * @returns Dependents keyed by column name; empty when the catalog cannot be read
+	 * @private
+	 */
+	private async loadOnlineColumnDependents(
+		connectionId: string,
+		schema: string,
+		tableName: string,
+		columnNames: string[],
+	): Promise<Map<string, OnlineColumnDependents>> {
+		const dependents = new Map<string, OnlineColumnDependents>();
+		if (columnNames.length === 0) {
+			return dependents;
+		}
+		try {
+			await this.queryService.withPinnedClient(connectionId, async (client) => {
+				for (const columnName of columnNames) {
+					const result = await client.query(ONLINE_COLUMN_DEPENDENTS_QUERY, [schema, tableName, columnName]);
+					const row = result.rows[0];
+					if (!row) {
+						continue;
+					}
+					dependents.set(columnName, {
+						quotedName: row.quoted_name,
+						primaryKey: row.primary_key,
+						comment: row.comment ?? undefined,
+						ownedSequences: row.owned_sequences,
+						indexes: row.indexes,
+						constraints: row.constraints,
+						otherDependents: row.other_dependents,
+						inherited: row.inherited,
+					});
+				}
+			});
+		} catch (error) {
+			Logger.warn("Could not read column dependents for online type changes", "loadOnlineColumnDependents", {
+				schema,
+				tableName,
+				error: (error as Error).message,
+			});
+		}
+		return dependents;
+	}
+
+	/**
+	 * Why a column cannot be rebuilt by expand/contract without losing something dropped with the old column
+	 * @param dependents - Dependents read by loadOnlineColumnDependents, if any
+	 * @returns The reason, or undefined when the rebuild carries everything over
+	 * @private
+	 */
+	private getOnlineTypeChangeBlocker(dependents?: OnlineColumnDependents): string | undefined {
+		if (!dependents) {
+			return "its indexes and constraints could not be read from the catalog";
+		}
+		if (dependents.inherited) {
+			return "the table is partitioned or part of an inheritance tree";
+		}
+		if (dependents.primaryKey.length === 0) {
+			return "the table has no primary key to batch the backfill by";
+		}
+		if (dependents.otherDependents.length > 0) {
+			return `${dependents.otherDependents.join(", ")} depend(s) on it`;
+		}
+		const incoming = dependents.constraints.find((constraint) => constraint.incoming);
+		if (incoming) {
+			return `foreign key ${incoming.name} of another table references it`;
+		}
+		const unsupported = dependents.constraints.find((constraint) => constraint.type !== "c" && constraint.type !== "f");
+		if (unsupported) {
+			return `constraint ${unsupported.name} cannot be recreated on the new column`;
+		}
+		const opclass = dependents.indexes.find((index) => index.customOpclass);
+		if (opclass) {
+			return `index ${opclass.name} uses an operator class chosen for the current type`;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Changes a column type by expand/contract instead of rewriting the table under ACCESS EXCLUSIVE:
+	 * a new column kept in sync by a trigger, a backfill that commits per batch, indexes built concurrently
+	 * on the new column, then a short swap that recreates the constraints, comment and sequence ownership
+	 * the old column took with it. The swapped column moves to the end of the table's column order.
+	 * @param schema - Unquoted schema name
+	 * @param tableName - Unquoted table name
+	 * @param column - Target-side column definition
+	 * @param sourceType - Current type of the column
+	 * @param dependents - What the old column carries, checked with getOnlineTypeChangeBlocker first
+	 * @private
+	 */
+	private generateOnlineTypeChangeStatements(
+		schema: string,
+		tableName: string,
+		column: TableColumnDefinition,
+		sourceType: string,
+		dependents: OnlineColumnDependents,
+	): string[] {
+		const table = `${this.quoteIdentifier(schema)}.${this.quoteIdentifier(tableName)}`;
+		const alterTable = `ALTER TABLE ${table}`;
+		const oldColumn = this.quoteIdentifier(column.name);
+		const newColumn = this.quoteIdentifier(this.truncateIdentifier(`${column.name}__new`));
+		const syncName = this.quoteIdentifier(this.truncateIdentifier(`${tableName}_${column.name}_sync`));
+		const syncFunction = `${this.quoteIdentifier(schema)}.${syncName}`;
+		const checkName = this.quoteIdentifier(this.truncateIdentifier(`${tableName}_${column.name}_not_null`));
+		const collation = column.collation ? ` COLLATE ${this.quoteIdentifier(column.collation)}` : "";
+		const convert = (value: string) => this.generateUsingClause(sourceType, column.dataType, value);
+		const batch = ONLINE_BACKFILL_BATCH_ROWS;
+
+		// Row comparisons over the primary key; the key stays valid while the old column still exists
+		const key = dependents.primaryKey.map((name) => this.quoteIdentifier(name));
+		const keyOf = (record: string) => `(${key.map((name) => `${record}.${name}`).join(", ")})`;
+		const keyColumns = `(${key.join(", ")})`;
+
+		const statements = [
+			`-- Expand: ${column.name} is copied into ${column.name}__new (${column.dataType}) and kept in sync by a trigger`,
+			`${alterTable} ADD COLUMN ${newColumn} ${column.dataType}${collation};`,
+			`CREATE OR REPLACE FUNCTION ${syncFunction}() RETURNS trigger LANGUAGE plpgsql AS $$\nBEGIN\n\tNEW.${newColumn} := ${convert(`NEW.${oldColumn}`)};\n\tRETURN NEW;\nEND;\n$$;`,
+			`CREATE TRIGGER ${syncName} BEFORE INSERT OR UPDATE ON ${table} FOR EACH ROW EXECUTE FUNCTION ${syncFunction}();`,
+			`-- Backfill existing rows ${batch} at a time in primary key order, committing after each batch`,
+			`DO $$\nDECLARE\n\tfirst_key record;\n\tnext_key record;\n\tlast_batch boolean;\nBEGIN\n\tSELECT ${key.join(", ")} INTO first_key FROM ${table} ORDER BY ${key.join(", ")} LIMIT 1;\n\tIF NOT FOUND THEN\n\t\tRETURN;\n\tEND IF;\n\tLOOP\n\t\tSELECT ${key.join(", ")} INTO next_key FROM ${table}\n\t\tWHERE ${keyColumns} >= ${keyOf("first_key")}\n\t\tORDER BY ${key.join(", ")} OFFSET ${batch} LIMIT 1;\n\t\tlast_batch := NOT FOUND;\n\t\tUPDATE ${table} SET ${newColumn} = ${convert(oldColumn)}\n\t\tWHERE ${keyColumns} >= ${keyOf("first_key")} AND (last_batch OR ${keyColumns} < ${keyOf("next_key")});\n\t\tCOMMIT;\n\t\tEXIT WHEN last_batch;\n\t\tfirst_key := next_key;\n\tEND LOOP;\nEND;\n$$;`,
+		];
+		if (column.notNull) {
+			statements.push(
+				`${alterTable} ADD CONSTRAINT ${checkName} CHECK (${newColumn} IS NOT NULL) NOT VALID;`,
+				`${alterTable} VALIDATE CONSTRAINT ${checkName};`,
+			);
+		}
+
+		// Indexes are built on the new column under temporary names before the swap drops the old ones
+		const indexes = dependents.indexes.map((index) => {
+			const tail = index.definition.slice(index.definition.indexOf(` USING ${index.method} (`));
+			return {
+				...index,
+				temporaryName: this.quoteIdentifier(this.truncateIdentifier(`${index.name}__new`)),
+				tail: this.replaceIndexColumn(tail, dependents.quotedName, newColumn),
+				unique: /^CREATE\s+UNIQUE\b/i.test(index.definition),
+			};
+		});
+		for (const index of indexes) {
+			statements.push(
+				`CREATE ${index.unique ? "UNIQUE " : ""}INDEX CONCURRENTLY ${index.temporaryName} ON ${table}${index.tail};`,
+			);
+		}
+
+		statements.push(
+			`-- Contract: swap the columns, then recreate the constraints, comment and sequence ownership dropped with ${column.name}`,
+			`DROP TRIGGER ${syncName} ON ${table};`,
+			`DROP FUNCTION ${syncFunction}();`,
+			...dependents.ownedSequences.map((sequence) => `ALTER SEQUENCE ${sequence} OWNED BY ${table}.${newColumn};`),
+			`${alterTable} DROP COLUMN ${oldColumn};`,
+			`${alterTable} RENAME COLUMN ${newColumn} TO ${oldColumn};`,
+		);
+		if (column.notNull) {
+			statements.push(
+				`${alterTable} ALTER COLUMN ${oldColumn} SET NOT NULL;`,
+				`${alterTable} DROP CONSTRAINT ${checkName};`,
+			);
+		}
+		if (column.defaultValue) {
+			statements.push(`${alterTable} ALTER COLUMN ${oldColumn} SET DEFAULT ${column.defaultValue};`);
+		}
+		if (dependents.comment) {
+			statements.push(`COMMENT ON COLUMN ${table}.${oldColumn} IS ${this.quoteLiteral(dependents.comment)};`);
+		}
+		for (const index of indexes) {
+			const name = this.quoteIdentifier(index.name);
+			if (index.constraint) {
+				const kind = index.constraint.type === "p" ? "PRIMARY KEY" : "UNIQUE";
+				const timing = index.constraint.deferrable
+					? ` DEFERRABLE INITIALLY ${index.constraint.deferred ? "DEFERRED" : "IMMEDIATE"}`
+					: "";
+				statements.push(
+					`${alterTable} ADD CONSTRAINT ${this.quoteIdentifier(index.constraint.name)} ${kind} USING INDEX ${index.temporaryName}${timing};`,
+				);
+			} else {
+				statements.push(`ALTER INDEX ${this.quoteIdentifier(schema)}.${index.temporaryName} RENAME TO ${name};`);
+			}
+			const finalName = index.constraint ? this.quoteIdentifier(index.constraint.name) : name;
+			if (index.replicaIdentity) {
+				statements.push(`${alterTable} REPLICA IDENTITY USING INDEX ${finalName};`);
+			}
+			if (index.clustered) {
+				statements.push(`${alterTable} CLUSTER ON ${finalName};`);
+			}
+		}
+		const validations: string[] = [];
+		for (const constraint of dependents.constraints) {
+			const name = this.quoteIdentifier(constraint.name);
+			// The definition already ends in NOT VALID when the constraint was never validated
+			statements.push(
+				`${alterTable} ADD CONSTRAINT ${name} ${constraint.definition}${constraint.validated ? " NOT VALID" : ""};`,
+			);
+			if (constraint.validated) {
+				validations.push(`${alterTable} VALIDATE CONSTRAINT ${name};`);
+			}
+		}
+		return [...statements, ...validations];
+	}
+
+	/**
+	 * Points the column references in an index definition's column list and predicate at another column,
+	 * leaving string literals and function names alone
+	 * @param definitionTail - pg_get_indexdef output from its USING clause on
+	 * @param quotedColumn - Column as pg_get_indexdef prints it
+	 * @param replacement - Quoted column to reference instead
+	 * @private
+	 */
+	private replaceIndexColumn(definitionTail: string, quotedColumn: string, replacement: string): string {
+		const escaped = quotedColumn.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+		const reference = new RegExp(`(?<![\\w$".])${escaped}(?![\\w$"(])`, "g");
+		return definitionTail
+			.split(/('(?:[^']|'')*')/)
+			.map((part, index) => (index % 2 === 1 ? part : part.replace(reference, replacement)))
+			.join("");
+	}
+
+	/**
+	 * Whether a type change only relaxes a length or precision limit, which PostgreSQL applies
+	 * without rewriting the table
+	 * @private
+	 */
+	private isRewriteFreeTypeChange(sourceType: string, targetType: string): boolean {
+		const varchar = /^(?:character varying|varchar)(?:\((\d+)\))?$/i;
+		const numeric = /^(?:numeric|decimal)(?:\((\d+)(?:,\s*(\d+))?\))?$/i;
+		const source = sourceType.trim();
+		const target = targetType.trim();
+
+		const sourceVarchar = varchar.exec(source);
+		if (sourceVarchar) {
+			const targetVarchar = varchar.exec(target);
+			if (/^text$/i.test(target) || (targetVarchar && !targetVarchar[1])) {
+				return true;
+			}
+			return !!targetVarchar && !!sourceVarchar[1] && Number(targetVarchar[1]) >= Number(sourceVarchar[1]);
+		}
+
+		const sourceNumeric = numeric.exec(source);
+		const targetNumeric = numeric.exec(target);
+		if (sourceNumeric && targetNumeric) {
+			if (!targetNumeric[1]) {
+				return true;
+			}
+			return (
+				!!sourceNumeric[1] &&
+				Number(targetNumeric[1]) >= Number(sourceNumeric[1]) &&
+				Number(targetNumeric[2] || 0) === Number(sourceNumeric[2] || 0)
+			);
+		}
+		return false;
+	}
+
+	/**
+	 * Shortens a generated name to PostgreSQL's 63-byte identifier limit
+	 * @private
+	 */
+	private truncateIdentifier(name: string): string {
+		return Buffer.from(name)
+			.subarray(0, 63)
+			.toString()
+			.replace(/\uFFFD+$/, "");
+	}
+
+	/**
+	 * Generates statements for function attribute changes.
+	 * A new return type needs DROP + CREATE; a new body or language is covered by CREATE OR REPLACE;
+	 * everything else can be altered in place.
+	 * @private
+	 */
+	private generateFunctionAttributeStatements(
+		change: SchemaDifference,
+		qualifiedName: string,
+		attributeChanges: AttributeChange[],
+	): string[] {
+		const functionName = `${qualifiedName}(${change.signature || ""})`;
+		const keyword = change.objectType === "procedure" ? "PROCEDURE" : "FUNCTION";
+		const kinds = new Set(attributeChanges.map((attr) => attr.kind));
+		const createStatement = `${(change.targetDefinition || "").trim().replace(/;\s*$/, "")};`;
+
+		if (kinds.has("function_return_type")) {
+			return [`DROP ${keyword} IF EXISTS ${functionName};`, createStatement];
+		}
+		if (kinds.has("function_body") || kinds.has("function_language")) {
+			return [createStatement];
+		}
+
+		const clauses: string[] = [];
+		for (const attr of attributeChanges) {
+			switch (attr.kind) {
+				case "function_volatility":
+					clauses.push(String(attr.targetValue));
+					break;
+				case "function_security":
+					clauses.push(attr.targetValue ? "SECURITY DEFINER" : "SECURITY INVOKER");
+					break;
+				case "function_strict":
+					clauses.push(attr.targetValue ? "STRICT" : "CALLED ON NULL INPUT");
+					break;
+				case "function_parallel":
+					clauses.push(`PARALLEL ${attr.targetValue}`);
+					break;
+			}
+		}
+		return clauses.length > 0 ? [`ALTER ${keyword} ${functionName} ${clauses.join(" ")};`] : [];
+	}
+
+	/**
+	 * Generates statements for view attribute changes.
+	 * CREATE OR REPLACE VIEW can only append columns, so any other column change drops the view first.
+	 * @private
+	 */
+	private generateViewAttributeStatements(
+		change: SchemaDifference,
+		qualifiedName: string,
+		attributeChanges: AttributeChange[],
+	): string[] {
+		if (!attributeChanges.some((attr) => attr.kind === "view_columns" || attr.kind === "view_query")) {
+			return [];
+		}
+
+		const query = (change.targetDefinition || "").trim().replace(/;\s*$/, "");
+		const columnChange = attributeChanges.find((attr) => attr.kind === "view_columns");
+		const sourceColumns = Array.isArray(columnChange?.sourceValue) ? columnChange.sourceValue : [];
+		const targetColumns = Array.isArray(columnChange?.targetValue) ? columnChange.targetValue : [];
+		const onlyAppends = !columnChange || sourceColumns.every((col, index) => targetColumns[index] === col);
+
+		return onlyAppends
+			? [`CREATE OR REPLACE VIEW ${qualifiedName} AS ${query};`]
+			: [`DROP VIEW IF EXISTS ${qualifiedName};`, `CREATE VIEW ${qualifiedName} AS ${query};`];
+	}
+
+	/**
+	 * Generates RESET and SET statements that move a relation's storage parameters to the target list
+	 * @private
+	 */
+	private generateStorageParameterStatements(alterPrefix: string, attr: AttributeChange): string[] {
+		const statements: string[] = [];
+		const sourceParams: string[] = Array.isArray(attr.sourceValue) ? attr.sourceValue : [];
+		const targetParams: string[] = Array.isArray(attr.targetValue) ? attr.targetValue : [];
+		const targetKeys = new Set(targetParams.map((param) => param.split("=")[0]));
+		const resetKeys = sourceParams.map((param) => param.split("=")[0]).filter((key) => !targetKeys.has(key));
+		if (resetKeys.length > 0) {
+			statements.push(`${alterPrefix} RESET (${resetKeys.join(", ")});`);
+		}
+		if (targetParams.length > 0) {
+			statements.push(`${alterPrefix} SET (${targetParams.join(", ")});`);
+		}
+		return statements;
+	}
+
+	/**
+	 * Generates statements for materialized view attribute changes.
+	 * There is no CREATE OR REPLACE for materialized views, so a new query or column list recreates the view.
+	 * @private
+	 */
+	private generateMaterializedViewAttributeStatements(
+		change: SchemaDifference,
+		qualifiedName: string,
+		attributeChanges: AttributeChange[],
+	): string[] {
+		if (attributeChanges.some((attr) => attr.kind === "view_columns" || attr.kind === "view_query")) {
+			return this.generateRecreateStatements(change);
+		}
+
+		const alterView = `ALTER MATERIALIZED VIEW ${qualifiedName}`;
+		const statements: string[] = [];
+		for (const attr of attributeChanges) {
+			if (attr.kind === "table_tablespace") {
+				statements.push(
+					`${alterView} SET TABLESPACE ${this.quoteIdentifier(String(attr.targetValue || "pg_default"))};`,
+				);
+			}
+			if (attr.kind === "table_storage_parameters") {
+				statements.push(...this.generateStorageParameterStatements(alterView, attr));
+			}
+		}
+		return statements;
+	}
+
+	/**
+	 * Generates ALTER DOMAIN statements. Constraint drops run before constraint adds;
+	 * a new base type or collation cannot be altered in place and is left as a note.
+	 * @private
+	 */
+	private generateDomainAttributeStatements(qualifiedName: string, attributeChanges: AttributeChange[]): string[] {
+		const constraintDrops: string[] = [];
+		const statements: string[] = [];
+		const constraintAdds: string[] = [];
+		const alterDomain = `ALTER DOMAIN ${qualifiedName}`;
+
+		for (const attr of attributeChanges) {
+			const constraint = attr.subObject ? this.quoteIdentifier(attr.subObject) : "";
 
-				const nullableDef = isNullable ? "" : " NOT NULL";
-				const defaultDef = defaultValue ? ` DEFAULT ${defaultValue}` : "";
+			switch (attr.kind) {
+				case "domain_default":
+					statements.push(
+						attr.targetValue ? `${alterDomain} SET DEFAULT ${attr.targetValue};` : `${alterDomain} DROP DEFAULT;`,
+					);
+					break;
 
-				return `  ${columnName} ${typeDef}${nullableDef}${defaultDef}`;
-			});
+				case "domain_not_null":
+					statements.push(`${alterDomain} ${attr.targetValue ? "SET" : "DROP"} NOT NULL;`);
+					break;
 
-			return `CREATE TABLE ${change.schema}.${change.objectName} (\n${columnDefs.join(",\n")}\n);`;
-		} catch (error) {
-			Logger.error("Failed to generate table CREATE SQL", error as Error, "generateTableCreateSQL", {
-				schema: change.schema,
-				tableName: change.objectName,
-			});
-			return `-- Error generating CREATE TABLE: ${(error as Error).message}`;
+				case "constraint_dropped":
+					constraintDrops.push(`${alterDomain} DROP CONSTRAINT IF EXISTS ${constraint};`);
+					break;
+
+				case "constraint_changed":
+					constraintDrops.push(`${alterDomain} DROP CONSTRAINT IF EXISTS ${constraint};`);
+					constraintAdds.push(`${alterDomain} ADD CONSTRAINT ${constraint} ${attr.targetValue};`);
+					break;
+
+				case "constraint_added":
+					constraintAdds.push(`${alterDomain} ADD CONSTRAINT ${constraint} ${attr.targetValue};`);
+					break;
+
+				case "domain_base_type":
+				case "domain_collation":
+					statements.push(`-- ${attr.description}: requires recreating the domain and the columns that use it`);
+					break;
+			}
 		}
+
+		return [...constraintDrops, ...statements, ...constraintAdds];
 	}
 
 	/**
-	 * Generates CREATE INDEX SQL by querying target database index definition
-	 * @param change - Schema difference for the index to create
-	 * @param targetConnectionId - Connection ID for target database
-	 * @returns Promise resolving to CREATE INDEX SQL statement
-	 * @throws Error if index creation SQL generation fails
+	 * Generates ALTER TYPE ... ADD VALUE statements for new enum labels.
+	 * PostgreSQL cannot remove or reorder enum labels, so those changes are left as a note.
 	 * @private
 	 */
-	private async generateIndexCreateSQL(change: SchemaDifference, targetConnectionId: string): Promise<string> {
-		try {
-			// Get index definition from target database
-			const indexQuery = `
-                SELECT indexdef
-                FROM pg_indexes
-                WHERE schemaname = '${change.schema}'
-                AND indexname = '${change.objectName}'
-            `;
+	private generateEnumAttributeStatements(qualifiedName: string, attributeChanges: AttributeChange[]): string[] {
+		const valuesChange = attributeChanges.find((attr) => attr.kind === "enum_values");
+		if (!valuesChange) {
+			return [];
+		}
 
-			const indexResult = await this.queryService.executeQuery(targetConnectionId, indexQuery);
+		const sourceValues: string[] = Array.isArray(valuesChange.sourceValue) ? valuesChange.sourceValue : [];
+		const targetValues: string[] = Array.isArray(valuesChange.targetValue) ? valuesChange.targetValue : [];
+		const keptValues = targetValues.filter((value) => sourceValues.includes(value));
+		const onlyAdditions =
+			keptValues.length === sourceValues.length && keptValues.every((value, index) => sourceValues[index] === value);
 
-			if (indexResult.rows.length === 0) {
-				return `-- Index ${change.schema}.${change.objectName} not found in target database`;
+		if (!onlyAdditions) {
+			return [`-- ${valuesChange.description}: enum labels cannot be removed or reordered; recreate the type`];
+		}
+
+		const statements: string[] = [];
+		targetValues.forEach((value, index) => {
+			if (sourceValues.includes(value)) {
+				return;
 			}
+			// Anchor on the nearest following label that already exists, or append after the previous one
+			const next = targetValues.slice(index + 1).find((candidate) => sourceValues.includes(candidate));
+			const position = next
+				? ` BEFORE ${this.quoteLiteral(next)}`
+				: index > 0
+					? ` AFTER ${this.quoteLiteral(targetValues[index - 1])}`
+					: "";
+			statements.push(`ALTER TYPE ${qualifiedName} ADD VALUE IF NOT EXISTS ${this.quoteLiteral(value)}${position};`);
+		});
+		return statements;
+	}
 
-			return indexResult.rows[0][0]; // Return the index definition
-		} catch (error) {
-			Logger.error("Failed to generate index CREATE SQL", error as Error, "generateIndexCreateSQL", {
-				schema: change.schema,
-				indexName: change.objectName,
-			});
-			return `-- Error generating CREATE INDEX: ${(error as Error).message}`;
+	/**
+	 * Generates ALTER POLICY statements. The command and permissiveness are fixed at creation time,
+	 * and ALTER POLICY cannot remove an expression, so those changes recreate the policy.
+	 * @private
+	 */
+	private generatePolicyAttributeStatements(change: SchemaDifference, attributeChanges: AttributeChange[]): string[] {
+		const needsRecreate = attributeChanges.some(
+			(attr) =>
+				attr.kind === "policy_command" ||
+				attr.kind === "policy_permissive" ||
+				((attr.kind === "policy_using" || attr.kind === "policy_with_check") && !attr.targetValue),
+		);
+		if (needsRecreate) {
+			return this.generateRecreateStatements(change);
+		}
+
+		const clauses: string[] = [];
+		for (const attr of attributeChanges) {
+			switch (attr.kind) {
+				case "policy_roles":
+					clauses.push(`TO ${(Array.isArray(attr.targetValue) ? attr.targetValue : []).join(", ")}`);
+					break;
+				case "policy_using":
+					clauses.push(`USING (${attr.targetValue})`);
+					break;
+				case "policy_with_check":
+					clauses.push(`WITH CHECK (${attr.targetValue})`);
+					break;
+			}
 		}
+		return clauses.length > 0 ? [`ALTER POLICY ${this.getObjectReference(change).name} ${clauses.join(" ")};`] : [];
 	}
 
 	/**
-	 * Generates CREATE VIEW SQL by querying target database view definition
-	 * @param change - Schema difference for the view to create
-	 * @param targetConnectionId - Connection ID for target database
-	 * @returns Promise resolving to CREATE VIEW SQL statement
-	 * @throws Error if view creation SQL generation fails
+	 * Generates ALTER SERVER statements; a different wrapper or server type recreates the server
 	 * @private
 	 */
-	private async generateViewCreateSQL(change: SchemaDifference, targetConnectionId: string): Promise<string> {
-		try {
-			// Get view definition from target database
-			const viewQuery = `
-                SELECT definition
-                FROM pg_views
-                WHERE schemaname = '${change.schema}'
-                AND viewname = '${change.objectName}'
-            `;
+	private generateForeignServerAttributeStatements(
+		change: SchemaDifference,
+		attributeChanges: AttributeChange[],
+	): string[] {
+		if (
+			attributeChanges.some((attr) => attr.kind === "foreign_server_wrapper" || attr.kind === "foreign_server_type")
+		) {
+			return this.generateRecreateStatements(change);
+		}
+
+		const alterServer = `ALTER SERVER ${this.quoteIdentifier(change.objectName)}`;
+		const statements: string[] = [];
+		for (const attr of attributeChanges) {
+			if (attr.kind === "foreign_server_version") {
+				statements.push(`${alterServer} VERSION ${attr.targetValue ? this.quoteLiteral(attr.targetValue) : "NULL"};`);
+			}
+			if (attr.kind === "foreign_server_options") {
+				const clause = this.buildAlterOptionsClause(attr);
+				if (clause) {
+					statements.push(`${alterServer} ${clause};`);
+				}
+			}
+		}
+		return statements;
+	}
 
-			const viewResult = await this.queryService.executeQuery(targetConnectionId, viewQuery);
+	/**
+	 * Builds an OPTIONS (ADD/SET/DROP ...) clause from `key=value` option lists
+	 * @private
+	 */
+	private buildAlterOptionsClause(attr: AttributeChange): string | null {
+		const toMap = (options: unknown) =>
+			new Map(
+				(Array.isArray(options) ? options : []).map((option: string) => {
+					const separator = option.indexOf("=");
+					return [option.slice(0, separator), option.slice(separator + 1)] as [string, string];
+				}),
+			);
+		const sourceOptions = toMap(attr.sourceValue);
+		const targetOptions = toMap(attr.targetValue);
+		const actions: string[] = [];
 
-			if (viewResult.rows.length === 0) {
-				return `-- View ${change.schema}.${change.objectName} not found in target database`;
+		for (const key of Array.from(sourceOptions.keys())) {
+			if (!targetOptions.has(key)) {
+				actions.push(`DROP ${this.quoteIdentifier(key)}`);
+			}
+		}
+		for (const [key, value] of Array.from(targetOptions)) {
+			if (!sourceOptions.has(key)) {
+				actions.push(`ADD ${this.quoteIdentifier(key)} ${this.quoteLiteral(value)}`);
+			} else if (sourceOptions.get(key) !== value) {
+				actions.push(`SET ${this.quoteIdentifier(key)} ${this.quoteLiteral(value)}`);
 			}
+		}
 
-			return `CREATE VIEW ${change.schema}.${change.objectName} AS\n${viewResult.rows[0][0]}`;
-		} catch (error) {
-			Logger.error("Failed to generate view CREATE SQL", error as Error, "generateViewCreateSQL", {
-				schema: change.schema,
-				viewName: change.objectName,
-			});
-			return `-- Error generating CREATE VIEW: ${(error as Error).message}`;
+		return actions.length > 0 ? `OPTIONS (${actions.join(", ")})` : null;
+	}
+
+	/**
+	 * Generates ALTER PUBLICATION statements; switching to or from FOR ALL TABLES recreates the publication
+	 * @private
+	 */
+	private generatePublicationAttributeStatements(
+		change: SchemaDifference,
+		attributeChanges: AttributeChange[],
+	): string[] {
+		if (attributeChanges.some((attr) => attr.kind === "publication_all_tables")) {
+			return this.generateRecreateStatements(change);
+		}
+
+		const alterPublication = `ALTER PUBLICATION ${this.quoteIdentifier(change.objectName)}`;
+		const statements: string[] = [];
+		for (const attr of attributeChanges) {
+			if (attr.kind === "publication_tables") {
+				const sourceTables: string[] = Array.isArray(attr.sourceValue) ? attr.sourceValue : [];
+				const targetTables: string[] = Array.isArray(attr.targetValue) ? attr.targetValue : [];
+				statements.push(
+					targetTables.length > 0
+						? `${alterPublication} SET TABLE ${targetTables.join(", ")};`
+						: `${alterPublication} DROP TABLE ${sourceTables.join(", ")};`,
+				);
+			}
+			if (attr.kind === "publication_operations") {
+				const operations: string[] = Array.isArray(attr.targetValue) ? attr.targetValue : [];
+				statements.push(`${alterPublication} SET (publish = ${this.quoteLiteral(operations.join(", "))});`);
+			}
 		}
+		return statements;
 	}
 
 	/**
-	 * Generates CREATE FUNCTION SQL by querying target database function definition
-	 * @param change - Schema difference for the function to create
-	 * @param targetConnectionId - Connection ID for target database
-	 * @returns Promise resolving to CREATE FUNCTION SQL statement
-	 * @throws Error if function creation SQL generation fails
+	 * Drops the object and creates it again from the target definition
 	 * @private
 	 */
-	private async generateFunctionCreateSQL(change: SchemaDifference, targetConnectionId: string): Promise<string> {
-		try {
-			// Get function definition from target database
-			const functionQuery = `
-                SELECT pg_get_functiondef(p.oid) as function_definition
-                FROM pg_proc p
-                JOIN pg_namespace n ON p.pronamespace = n.oid
-                WHERE n.nspname = '${change.schema}'
-                AND p.proname = '${change.objectName}'
-                ORDER BY p.oid
-                LIMIT 1
-            `;
+	private generateRecreateStatements(change: SchemaDifference): string[] {
+		const reference = this.getObjectReference(change);
+		return [
+			`DROP ${reference.keyword} IF EXISTS ${reference.name};`,
+			`${(change.targetDefinition || "").trim().replace(/;\s*$/, "")};`,
+		];
+	}
 
-			const functionResult = await this.queryService.executeQuery(targetConnectionId, functionQuery);
+	/**
+	 * Applies a changed definition: views, functions, procedures and rules are replaced in place, everything else is recreated
+	 * @private
+	 */
+	private generateDefinitionReplayStatements(change: SchemaDifference, qualifiedName: string): string[] {
+		const definition = (change.targetDefinition || "").trim().replace(/;\s*$/, "");
 
-			if (functionResult.rows.length === 0) {
-				return `-- Function ${change.schema}.${change.objectName} not found in target database`;
-			}
+		switch (change.objectType) {
+			case "view":
+				return /^CREATE\b/i.test(definition)
+					? [`${definition.replace(/^CREATE\s+(?:OR\s+REPLACE\s+)?VIEW\b/i, "CREATE OR REPLACE VIEW")};`]
+					: [`CREATE OR REPLACE VIEW ${qualifiedName} AS ${definition};`];
+			case "function":
+			case "procedure":
+			case "rule":
+				return [`${definition.replace(/^CREATE\s+(?:OR\s+REPLACE\s+)?/i, "CREATE OR REPLACE ")};`];
+			default:
+				return this.generateRecreateStatements(change);
+		}
+	}
 
-			return functionResult.rows[0][0]; // Return the function definition
-		} catch (error) {
-			Logger.error("Failed to generate function CREATE SQL", error as Error, "generateFunctionCreateSQL", {
-				schema: change.schema,
-				functionName: change.objectName,
-			});
-			return `-- Error generating CREATE FUNCTION: ${(error as Error).message}`;
+	/**
+	 * Maps a sequence attribute change to its ALTER SEQUENCE clause
+	 * @private
+	 */
+	private generateSequenceClause(attr: AttributeChange): string | null {
+		switch (attr.kind) {
+			case "sequence_data_type":
+				return `AS ${attr.targetValue}`;
+			case "sequence_increment":
+				return `INCREMENT BY ${attr.targetValue}`;
+			case "sequence_min_value":
+				return `MINVALUE ${attr.targetValue}`;
+			case "sequence_max_value":
+				return `MAXVALUE ${attr.targetValue}`;
+			case "sequence_start":
+				return `START WITH ${attr.targetValue}`;
+			case "sequence_cache":
+				return `CACHE ${attr.targetValue}`;
+			case "sequence_cycle":
+				return attr.targetValue ? "CYCLE" : "NO CYCLE";
+			default:
+				return null;
 		}
 	}
 
 	/**
-	 * Generates DROP SQL statement for removed objects
-	 * @param change - Schema difference representing the removed object
-	 * @returns DROP SQL statement string
+	 * Generates OWNER TO and COMMENT ON statements shared by all object types
 	 * @private
 	 */
-	private generateDropSQL(change: SchemaDifference): string {
-		const objectType = change.objectType.toUpperCase();
+	private generateOwnershipStatements(change: SchemaDifference, attributeChanges: AttributeChange[]): string[] {
+		const statements: string[] = [];
+		const { keyword, name: target } = this.getObjectReference(change);
+		// Index, trigger, policy and rule ownership follows the table; extensions have no owner to change
+		const hasOwnOwner = !["index", "trigger", "policy", "rule", "extension"].includes(change.objectType);
+
+		for (const attr of attributeChanges) {
+			if (attr.kind === "owner" && attr.targetValue && hasOwnOwner) {
+				statements.push(`ALTER ${keyword} ${target} OWNER TO ${this.quoteIdentifier(String(attr.targetValue))};`);
+			}
+			if (attr.kind === "comment") {
+				statements.push(`COMMENT ON ${keyword} ${target} IS ${this.quoteLiteral(attr.targetValue)};`);
+			}
+		}
 
-		// Handle different object types with appropriate DROP statements
-		switch (change.objectType) {
-			case "table":
-				return `DROP TABLE IF EXISTS ${change.schema}.${change.objectName} CASCADE;`;
+		return statements;
+	}
 
-			case "index":
-				return `DROP INDEX IF EXISTS ${change.schema}.${change.objectName} CASCADE;`;
+	/**
+	 * Generates REVOKE statements for privilege_revoked changes followed by GRANT statements for privilege_granted
+	 * changes; reverse swaps them to undo the same changes
+	 * @private
+	 */
+	private generatePrivilegeStatements(
+		change: SchemaDifference,
+		attributeChanges: AttributeChange[],
+		reverse: boolean = false,
+	): string[] {
+		const grantedKind = reverse ? "privilege_revoked" : "privilege_granted";
+		const revokedKind = reverse ? "privilege_granted" : "privilege_revoked";
+		const isDefaultPrivileges = change.objectType === "default_privileges";
+		const prefix = isDefaultPrivileges ? `${this.getDefaultPrivilegesPrefix(change)} ` : "";
+		const onClause = isDefaultPrivileges
+			? ` ON ${change.objectName.slice(change.objectName.lastIndexOf(":") + 1).toUpperCase()}`
+			: ` ON ${GRANT_OBJECT_KEYWORDS[change.objectType] || change.objectType.toUpperCase()} ${this.getObjectReference(change).name}`;
+
+		const privilegeList = (attr: AttributeChange) =>
+			`${attr.privilege?.privilege}${attr.privilege?.column ? ` (${this.quoteIdentifier(attr.privilege.column)})` : ""}`;
+		const revokes = attributeChanges
+			.filter((attr) => attr.kind === revokedKind && attr.privilege)
+			.map((attr) => `${prefix}REVOKE ${privilegeList(attr)}${onClause} FROM ${attr.privilege?.grantee};`);
+		const grants = attributeChanges
+			.filter((attr) => attr.kind === grantedKind && attr.privilege)
+			.map(
+				(attr) =>
+					`${prefix}GRANT ${privilegeList(attr)}${onClause} TO ${attr.privilege?.grantee}${attr.privilege?.grantable ? " WITH GRANT OPTION" : ""};`,
+			);
 
-			case "view":
-				return `DROP VIEW IF EXISTS ${change.schema}.${change.objectName} CASCADE;`;
+		return [...revokes, ...grants];
+	}
 
-			case "function":
-				return `DROP FUNCTION IF EXISTS ${change.schema}.${change.objectName} CASCADE;`;
+	/**
+	 * ALTER DEFAULT PRIVILEGES prefix for a default_privileges object named `role:objectclass`
+	 * @private
+	 */
+	private getDefaultPrivilegesPrefix(change: SchemaDifference): string {
+		const role = change.objectName.slice(0, change.objectName.lastIndexOf(":"));
+		const inSchema = change.schema ? ` IN SCHEMA ${this.quoteIdentifier(change.schema)}` : "";
+		return `ALTER DEFAULT PRIVILEGES FOR ROLE ${this.quoteIdentifier(role)}${inSchema}`;
+	}
 
-			case "trigger":
-				return `DROP TRIGGER IF EXISTS ${change.objectName} ON ${change.schema} CASCADE;`;
+	/**
+	 * Turns the GRANT lines of a default_privileges definition into the matching REVOKE lines
+	 * @private
+	 */
+	private generateDefaultPrivilegesRevokeSQL(change: SchemaDifference): string {
+		const definition = change.sourceDefinition || change.targetDefinition || "";
+		const revokes = definition
+			.split("\n")
+			.map((line) => /^(.*?) GRANT (.+) ON (\w+) TO (.+?)(?: WITH GRANT OPTION)?;$/.exec(line.trim()))
+			.filter((match): match is RegExpExecArray => match !== null)
+			.map(
+				([, prefix, privilege, objectClass, grantee]) =>
+					`${prefix} REVOKE ${privilege} ON ${objectClass} FROM ${grantee};`,
+			);
 
-			case "sequence":
-				return `DROP SEQUENCE IF EXISTS ${change.schema}.${change.objectName} CASCADE;`;
+		return revokes.length > 0 ? revokes.join("\n") : `-- No default privileges to revoke for ${change.objectName}`;
+	}
 
-			default:
-				return `DROP ${objectType} IF EXISTS ${change.schema}.${change.objectName} CASCADE;`;
+	/**
+	 * Builds a column definition for ADD COLUMN from catalog column metadata
+	 * @private
+	 */
+	private buildColumnDefinitionSQL(column: TableColumnDefinition): string {
+		let definition = `${this.quoteIdentifier(column.name)} ${column.dataType}`;
+
+		if (column.collation) {
+			definition += ` COLLATE ${this.quoteIdentifier(column.collation)}`;
+		}
+		if (column.generated && column.defaultValue) {
+			definition += ` GENERATED ALWAYS AS (${column.defaultValue}) ${column.generated}`;
+		} else if (column.identity) {
+			definition += ` GENERATED ${column.identity} AS IDENTITY`;
+		} else if (column.defaultValue) {
+			definition += ` DEFAULT ${column.defaultValue}`;
 		}
+		if (column.notNull) {
+			definition += " NOT NULL";
+		}
+
+		return definition;
 	}
 
 	/**
@@ -989,6 +3447,8 @@ export class MigrationManagement {
 	 * @param change - Schema difference representing the modified object
 	 * @param sourceConnectionId - Connection ID for source database
 	 * @param targetConnectionId - Connection ID for target database
+	 * @param ddlProfile - DDL generation profile
+	 * @param columnDependents - Dependents of table columns whose type changes, for the online profile
 	 * @returns Promise resolving to ALTER SQL statement
 	 * @throws Error if ALTER SQL generation fails
 	 * @private
@@ -997,14 +3457,21 @@ export class MigrationManagement {
 		change: SchemaDifference,
 		sourceConnectionId: string,
 		targetConnectionId: string,
+		ddlProfile: MigrationDdlProfile = "standard",
+		columnDependents?: Map<string, OnlineColumnDependents>,
 	): Promise<string> {
+		// Structured attribute changes let us alter exactly what changed instead of replaying the definition
+		if (change.attributeChanges && change.attributeChanges.length > 0) {
+			return this.generateAttributeAlterSQL(change, ddlProfile, columnDependents);
+		}
+
 		if (change.targetDefinition) {
 			return change.targetDefinition;
 		}
 
 		// For table modifications, we need to analyze the specific changes
 		if (change.objectType === "table") {
-			return this.generateTableAlterSQL(change, sourceConnectionId, targetConnectionId);
+			return this.generateTableAlterSQL(change, sourceConnectionId, targetConnectionId, ddlProfile);
 		}
 
 		if (change.objectType === "column") {
@@ -1019,6 +3486,7 @@ export class MigrationManagement {
 	 * @param change - Schema difference for the table modification
 	 * @param sourceConnectionId - Connection ID for source database
 	 * @param targetConnectionId - Connection ID for target database
+	 * @param ddlProfile - DDL generation profile
 	 * @returns Promise resolving to ALTER TABLE SQL statement
 	 * @throws Error if table alteration SQL generation fails
 	 * @private
@@ -1027,6 +3495,7 @@ export class MigrationManagement {
 		change: SchemaDifference,
 		sourceConnectionId: string,
 		targetConnectionId: string,
+		ddlProfile: MigrationDdlProfile = "standard",
 	): Promise<string> {
 		try {
 			Logger.info("Generating table ALTER SQL", "generateTableAlterSQL", {
@@ -1038,7 +3507,11 @@ export class MigrationManagement {
 
 			// Get column information from both source and target databases
 			const sourceColumns = await this.getTableColumns(sourceConnectionId, change.schema, change.objectName);
-			const targetColumns = await this.getTableColumns(targetConnectionId, change.schema, change.objectName);
+			const targetColumns = await this.getTableColumns(
+				targetConnectionId,
+				change.targetSchema || change.schema,
+				change.objectName,
+			);
 
 			if (!sourceColumns || !targetColumns) {
 				return `-- Cannot generate ALTER TABLE: unable to retrieve column information`;
@@ -1046,11 +3519,19 @@ export class MigrationManagement {
 
 			// Get constraint information
 			const sourceConstraints = await this.getTableConstraints(sourceConnectionId, change.schema, change.objectName);
-			const targetConstraints = await this.getTableConstraints(targetConnectionId, change.schema, change.objectName);
+			const targetConstraints = await this.getTableConstraints(
+				targetConnectionId,
+				change.targetSchema || change.schema,
+				change.objectName,
+			);
 
 			// Get index information
 			const sourceIndexes = await this.getTableIndexes(sourceConnectionId, change.schema, change.objectName);
-			const targetIndexes = await this.getTableIndexes(targetConnectionId, change.schema, change.objectName);
+			const targetIndexes = await this.getTableIndexes(
+				targetConnectionId,
+				change.targetSchema || change.schema,
+				change.objectName,
+			);
 
 			// Analyze differences and generate ALTER statements
 			const alterStatements: string[] = [];
@@ -1060,7 +3541,24 @@ export class MigrationManagement {
 			if (sourceColumns && targetColumns) {
 				const columnChanges = this.analyzeColumnChanges(sourceColumns, targetColumns);
 				for (const columnChange of columnChanges) {
-					const statement = this.generateColumnAlterStatement(change.schema, change.objectName, columnChange);
+					const columnName = columnChange.sourceColumn?.columnName;
+					const dependents =
+						ddlProfile === "online" &&
+						columnChange.type === "MODIFY" &&
+						columnChange.differences.some((d: string) => d.includes("data type"))
+							? (
+									await this.loadOnlineColumnDependents(sourceConnectionId, change.schema, change.objectName, [
+										columnName,
+									])
+								).get(columnName)
+							: undefined;
+					const statement = this.generateColumnAlterStatement(
+						change.schema,
+						change.objectName,
+						columnChange,
+						ddlProfile,
+						dependents,
+					);
 					if (statement) {
 						alterStatements.push(statement);
 					}
@@ -1074,7 +3572,12 @@ export class MigrationManagement {
 			if (sourceConstraints && targetConstraints) {
 				const constraintChanges = this.analyzeConstraintChanges(sourceConstraints, targetConstraints);
 				for (const constraintChange of constraintChanges) {
-					const statement = this.generateConstraintAlterStatement(change.schema, change.objectName, constraintChange);
+					const statement = this.generateConstraintAlterStatement(
+						change.schema,
+						change.objectName,
+						constraintChange,
+						ddlProfile,
+					);
 					if (statement) {
 						alterStatements.push(statement);
 					}
@@ -1085,7 +3588,7 @@ export class MigrationManagement {
 			if (sourceIndexes && targetIndexes) {
 				const indexChanges = this.analyzeIndexChanges(sourceIndexes, targetIndexes);
 				for (const indexChange of indexChanges) {
-					const statement = this.generateIndexAlterStatement(change.schema, change.objectName, indexChange);
+					const statement = this.generateIndexAlterStatement(change.schema, change.objectName, indexChange, ddlProfile);
 					if (statement) {
 						alterStatements.push(statement);
 					}
@@ -1342,10 +3845,19 @@ export class MigrationManagement {
 	 * @param schema - Schema name
 	 * @param tableName - Table name
 	 * @param change - Column change object
+	 * @param ddlProfile - DDL generation profile; "online" uses expand/contract for type changes and a
+	 * validated CHECK for NOT NULL
+	 * @param dependents - Dependents of the column when its type changes; without them it is altered in place
 	 * @returns ALTER TABLE statement or null if no change needed
 	 * @private
 	 */
-	private generateColumnAlterStatement(schema: string, tableName: string, change: any): string | null {
+	private generateColumnAlterStatement(
+		schema: string,
+		tableName: string,
+		change: any,
+		ddlProfile: MigrationDdlProfile = "standard",
+		dependents?: OnlineColumnDependents,
+	): string | null {
 		switch (change.type) {
 			case "ADD":
 				const nullable = change.column.isNullable === "YES" ? "" : " NOT NULL";
@@ -1357,6 +3869,33 @@ export class MigrationManagement {
 
 			case "MODIFY":
 				const statements: string[] = [];
+				const online =
+					ddlProfile === "online" &&
+					change.differences.some((d: string) => d.includes("data type")) &&
+					!this.isRewriteFreeTypeChange(change.sourceColumn.dataType, change.targetColumn.dataType);
+				const blocker = online ? this.getOnlineTypeChangeBlocker(dependents) : undefined;
+				if (online && dependents && !blocker) {
+					// The rebuilt column takes the target nullability and default with it
+					return this.generateOnlineTypeChangeStatements(
+						schema,
+						tableName,
+						{
+							name: change.sourceColumn.columnName,
+							position: 0,
+							dataType: change.targetColumn.dataType,
+							notNull: change.targetColumn.isNullable !== "YES",
+							defaultValue: change.targetColumn.columnDefault || undefined,
+							isLocal: true,
+						},
+						change.sourceColumn.dataType,
+						dependents,
+					).join("\n");
+				}
+				if (blocker) {
+					statements.push(
+						`-- WARNING: ${change.sourceColumn.columnName} is changed in place, rewriting the table under ACCESS EXCLUSIVE: ${blocker}`,
+					);
+				}
 				if (change.differences.some((d: string) => d.includes("data type"))) {
 					statements.push(
 						`ALTER TABLE ${schema}.${tableName} ALTER COLUMN ${change.sourceColumn.columnName} TYPE ${change.targetColumn.dataType};`,
@@ -1367,6 +3906,15 @@ export class MigrationManagement {
 						statements.push(
 							`ALTER TABLE ${schema}.${tableName} ALTER COLUMN ${change.sourceColumn.columnName} DROP NOT NULL;`,
 						);
+					} else if (ddlProfile === "online") {
+						statements.push(
+							...this.generateOnlineNotNullStatements(
+								`${schema}.${tableName}`,
+								tableName,
+								change.sourceColumn.columnName,
+								change.sourceColumn.columnName,
+							),
+						);
 					} else {
 						statements.push(
 							`ALTER TABLE ${schema}.${tableName} ALTER COLUMN ${change.sourceColumn.columnName} SET NOT NULL;`,
@@ -1433,25 +3981,43 @@ export class MigrationManagement {
 	 * @param schema - Schema name
 	 * @param tableName - Table name
 	 * @param change - Constraint change object
+	 * @param ddlProfile - DDL generation profile; "online" adds constraints without long locks
 	 * @returns ALTER TABLE statement or null if no change needed
 	 * @private
 	 */
-	private generateConstraintAlterStatement(schema: string, tableName: string, change: any): string | null {
+	private generateConstraintAlterStatement(
+		schema: string,
+		tableName: string,
+		change: any,
+		ddlProfile: MigrationDdlProfile = "standard",
+	): string | null {
 		switch (change.type) {
 			case "ADD":
 				const constraint = change.constraint;
+				let definition: string;
 				switch (constraint.constraintType) {
 					case "PRIMARY KEY":
-						return `ALTER TABLE ${schema}.${tableName} ADD CONSTRAINT ${constraint.constraintName} PRIMARY KEY (${constraint.columnName});`;
+						definition = `PRIMARY KEY (${constraint.columnName})`;
+						break;
 					case "FOREIGN KEY":
-						return `ALTER TABLE ${schema}.${tableName} ADD CONSTRAINT ${constraint.constraintName} FOREIGN KEY (${constraint.columnName}) REFERENCES ${constraint.foreignTableSchema}.${constraint.foreignTableName}(${constraint.foreignColumnName});`;
+						definition = `FOREIGN KEY (${constraint.columnName}) REFERENCES ${constraint.foreignTableSchema}.${constraint.foreignTableName}(${constraint.foreignColumnName})`;
+						break;
 					case "UNIQUE":
-						return `ALTER TABLE ${schema}.${tableName} ADD CONSTRAINT ${constraint.constraintName} UNIQUE (${constraint.columnName});`;
+						definition = `UNIQUE (${constraint.columnName})`;
+						break;
 					case "CHECK":
-						return `ALTER TABLE ${schema}.${tableName} ADD CONSTRAINT ${constraint.constraintName} CHECK (${constraint.checkClause});`;
+						definition = `CHECK (${constraint.checkClause})`;
+						break;
 					default:
 						return `-- Unknown constraint type: ${constraint.constraintType}`;
 				}
+				return ddlProfile === "online"
+					? this.generateOnlineConstraintStatements(
+							`${schema}.${tableName}`,
+							constraint.constraintName,
+							definition,
+						).join("\n")
+					: `ALTER TABLE ${schema}.${tableName} ADD CONSTRAINT ${constraint.constraintName} ${definition};`;
 
 			case "DROP":
 				return `ALTER TABLE ${schema}.${tableName} DROP CONSTRAINT IF EXISTS ${change.constraint.constraintName} CASCADE;`;
@@ -1503,16 +4069,24 @@ export class MigrationManagement {
 	 * @param schema - Schema name
 	 * @param tableName - Table name
 	 * @param change - Index change object
+	 * @param ddlProfile - DDL generation profile; "online" creates and drops indexes concurrently
 	 * @returns CREATE INDEX or DROP INDEX statement or null if no change needed
 	 * @private
 	 */
-	private generateIndexAlterStatement(schema: string, tableName: string, change: any): string | null {
+	private generateIndexAlterStatement(
+		schema: string,
+		tableName: string,
+		change: any,
+		ddlProfile: MigrationDdlProfile = "standard",
+	): string | null {
 		switch (change.type) {
 			case "ADD":
-				return change.index.definition;
+				return ddlProfile === "online" ? this.toConcurrentIndexSQL(change.index.definition) : change.index.definition;
 
 			case "DROP":
-				return `DROP INDEX IF EXISTS ${schema}.${change.index.indexName} CASCADE;`;
+				return ddlProfile === "online"
+					? `DROP INDEX CONCURRENTLY IF EXISTS ${schema}.${change.index.indexName};`
+					: `DROP INDEX IF EXISTS ${schema}.${change.index.indexName} CASCADE;`;
 
 			default:
 				return null;
@@ -1547,7 +4121,12 @@ export class MigrationManagement {
 
 			// Get detailed column information from both source and target databases
 			const sourceColumnInfo = await this.getColumnInfo(sourceConnectionId, change.schema, tableName, columnName);
-			const targetColumnInfo = await this.getColumnInfo(targetConnectionId, change.schema, tableName, columnName);
+			const targetColumnInfo = await this.getColumnInfo(
+				targetConnectionId,
+				change.targetSchema || change.schema,
+				tableName,
+				columnName,
+			);
 
 			if (!targetColumnInfo) {
 				return `-- Cannot generate ALTER COLUMN: column ${columnName} not found in target schema`;
@@ -1784,8 +4363,23 @@ export class MigrationManagement {
 			return "high";
 		}
 		if (change.type === "Modified" && change.objectType === "table") {
+			const destructiveKinds = [
+				"column_dropped",
+				"column_type",
+				"column_nullability",
+				"constraint_added",
+				"constraint_changed",
+			];
+			const attributeChanges = change.attributeChanges || [];
+			if (attributeChanges.length > 0 && !attributeChanges.some((attr) => destructiveKinds.includes(attr.kind))) {
+				return "medium";
+			}
 			return "high";
 		}
+		if (change.type === "Renamed") {
+			// Catalog references follow OIDs, but application SQL and function bodies refer to the old name
+			return "medium";
+		}
 		if (change.type === "Added") {
 			return "medium";
 		}
@@ -1804,7 +4398,7 @@ export class MigrationManagement {
 					id: `pre_${change.objectType}_${change.objectName}`,
 					type: "data_condition",
 					description: `Target object ${change.objectName} should not exist`,
-					sqlQuery: `SELECT COUNT(*) FROM information_schema.tables WHERE table_schema = '${change.schema}' AND table_name = '${change.objectName}'`,
+					sqlQuery: this.generateObjectExistenceQuery(change, change.objectName),
 					expectedResult: 0,
 					severity: "critical",
 				});
@@ -1815,7 +4409,7 @@ export class MigrationManagement {
 					id: `pre_${change.objectType}_${change.objectName}_exists`,
 					type: "data_condition",
 					description: `Source object ${change.objectName} should exist`,
-					sqlQuery: `SELECT COUNT(*) FROM information_schema.tables WHERE table_schema = '${change.schema}' AND table_name = '${change.objectName}'`,
+					sqlQuery: this.generateObjectExistenceQuery(change, change.objectName),
 					expectedResult: 1,
 					severity: "critical",
 				});
@@ -1826,7 +4420,18 @@ export class MigrationManagement {
 					id: `pre_${change.objectType}_${change.objectName}_modify`,
 					type: "data_condition",
 					description: `Object ${change.objectName} should exist for modification`,
-					sqlQuery: `SELECT COUNT(*) FROM information_schema.tables WHERE table_schema = '${change.schema}' AND table_name = '${change.objectName}'`,
+					sqlQuery: this.generateObjectExistenceQuery(change, change.objectName),
+					expectedResult: 1,
+					severity: "critical",
+				});
+				break;
+
+			case "Renamed":
+				conditions.push({
+					id: `pre_${change.objectType}_${change.previousName}_rename`,
+					type: "data_condition",
+					description: `Object ${change.previousName} should exist before renaming to ${change.objectName}`,
+					sqlQuery: this.generateObjectExistenceQuery(change, change.previousName || change.objectName),
 					expectedResult: 1,
 					severity: "critical",
 				});
@@ -1848,7 +4453,7 @@ export class MigrationManagement {
 					id: `post_${change.objectType}_${change.objectName}_created`,
 					type: "data_integrity",
 					description: `Object ${change.objectName} should exist after creation`,
-					sqlQuery: `SELECT COUNT(*) FROM information_schema.tables WHERE table_schema = '${change.schema}' AND table_name = '${change.objectName}'`,
+					sqlQuery: this.generateObjectExistenceQuery(change, change.objectName),
 					expectedResult: 1,
 					severity: "critical",
 				});
@@ -1859,19 +4464,33 @@ export class MigrationManagement {
 					id: `post_${change.objectType}_${change.objectName}_removed`,
 					type: "data_integrity",
 					description: `Object ${change.objectName} should not exist after removal`,
-					sqlQuery: `SELECT COUNT(*) FROM information_schema.tables WHERE table_schema = '${change.schema}' AND table_name = '${change.objectName}'`,
+					sqlQuery: this.generateObjectExistenceQuery(change, change.objectName),
 					expectedResult: 0,
 					severity: "critical",
 				});
 				break;
 
 			case "Modified":
+				// Only relations can be scanned for a row count
+				if (["table", "view", "materialized_view"].includes(change.objectType)) {
+					conditions.push({
+						id: `post_${change.objectType}_${change.objectName}_modify_integrity`,
+						type: "data_integrity",
+						description: `Modified object ${change.objectName} should maintain data integrity`,
+						sqlQuery: `SELECT COUNT(*) FROM ${change.schema}.${change.objectName}`,
+						expectedResult: ">= 0", // Row count should not be negative
+						severity: "critical",
+					});
+				}
+				break;
+
+			case "Renamed":
 				conditions.push({
-					id: `post_${change.objectType}_${change.objectName}_modify_integrity`,
+					id: `post_${change.objectType}_${change.objectName}_renamed`,
 					type: "data_integrity",
-					description: `Modified object ${change.objectName} should maintain data integrity`,
-					sqlQuery: `SELECT COUNT(*) FROM ${change.schema}.${change.objectName}`,
-					expectedResult: ">= 0", // Row count should not be negative
+					description: `Object ${change.objectName} should exist after renaming from ${change.previousName}`,
+					sqlQuery: this.generateObjectExistenceQuery(change, change.objectName),
+					expectedResult: 1,
 					severity: "critical",
 				});
 				break;
@@ -1880,6 +4499,91 @@ export class MigrationManagement {
 		return conditions;
 	}
 
+	/**
+	 * Build a COUNT(*) query checking that an object exists under the given name
+	 */
+	private generateObjectExistenceQuery(change: SchemaDifference, name: string): string {
+		switch (change.objectType) {
+			case "column":
+				return `SELECT COUNT(*) FROM information_schema.columns WHERE table_schema = '${change.schema}' AND table_name = '${change.tableName}' AND column_name = '${name}'`;
+
+			case "index":
+				return `SELECT COUNT(*) FROM pg_indexes WHERE schemaname = '${change.schema}' AND indexname = '${name}'`;
+
+			case "function":
+			case "procedure": {
+				// Overloads share a name, so match the argument list when it is known
+				const signatureFilter =
+					change.signature !== undefined
+						? ` AND pg_get_function_identity_arguments(p.oid) = '${change.signature}'`
+						: "";
+				return `SELECT COUNT(*) FROM pg_proc p JOIN pg_namespace n ON n.oid = p.pronamespace WHERE n.nspname = '${change.schema}' AND p.proname = '${name}'${signatureFilter}`;
+			}
+
+			case "materialized_view":
+				return `SELECT COUNT(*) FROM pg_matviews WHERE schemaname = '${change.schema}' AND matviewname = '${name}'`;
+
+			case "aggregate":
+				return `SELECT COUNT(*) FROM pg_aggregate a JOIN pg_proc p ON p.oid = a.aggfnoid JOIN pg_namespace n ON n.oid = p.pronamespace WHERE n.nspname = '${change.schema}' AND p.proname = '${name}'`;
+
+			case "operator":
+				return `SELECT COUNT(*) FROM pg_operator o JOIN pg_namespace n ON n.oid = o.oprnamespace WHERE n.nspname = '${change.schema}' AND o.oprname = '${name}'`;
+
+			case "domain":
+			case "enum":
+			case "type":
+				return `SELECT COUNT(*) FROM pg_type t JOIN pg_namespace n ON n.oid = t.typnamespace WHERE n.nspname = '${change.schema}' AND t.typname = '${name}'`;
+
+			case "collation":
+				return `SELECT COUNT(*) FROM pg_collation c JOIN pg_namespace n ON n.oid = c.collnamespace WHERE n.nspname = '${change.schema}' AND c.collname = '${name}'`;
+
+			case "policy":
+				return `SELECT COUNT(*) FROM pg_policies WHERE schemaname = '${change.schema}' AND tablename = '${change.tableName}' AND policyname = '${name}'`;
+
+			case "rule":
+				return `SELECT COUNT(*) FROM pg_rules WHERE schemaname = '${change.schema}' AND tablename = '${change.tableName}' AND rulename = '${name}'`;
+
+			case "trigger":
+				return `SELECT COUNT(*) FROM pg_trigger t JOIN pg_class c ON c.oid = t.tgrelid JOIN pg_namespace n ON n.oid = c.relnamespace WHERE n.nspname = '${change.schema}' AND c.relname = '${change.tableName}' AND t.tgname = '${name}'`;
+
+			case "sequence":
+				return `SELECT COUNT(*) FROM pg_sequences WHERE schemaname = '${change.schema}' AND sequencename = '${name}'`;
+
+			case "extension":
+				return `SELECT COUNT(*) FROM pg_extension WHERE extname = '${name}'`;
+
+			case "foreign_server":
+				return `SELECT COUNT(*) FROM pg_foreign_server WHERE srvname = '${name}'`;
+
+			case "publication":
+				return `SELECT COUNT(*) FROM pg_publication WHERE pubname = '${name}'`;
+
+			case "subscription":
+				return `SELECT COUNT(*) FROM pg_subscription WHERE subname = '${name}'`;
+
+			case "event_trigger":
+				return `SELECT COUNT(*) FROM pg_event_trigger WHERE evtname = '${name}'`;
+
+			case "default_privileges": {
+				const separator = name.lastIndexOf(":");
+				const objectTypeCodes: Record<string, string> = {
+					tables: "r",
+					sequences: "S",
+					functions: "f",
+					types: "T",
+					schemas: "n",
+				};
+				const namespaceFilter = change.schema
+					? `d.defaclnamespace = '${change.schema}'::regnamespace`
+					: "d.defaclnamespace = 0";
+				return `SELECT COUNT(*) FROM pg_default_acl d WHERE pg_get_userbyid(d.defaclrole) = '${name.slice(0, separator)}' AND d.defaclobjtype = '${objectTypeCodes[name.slice(separator + 1)]}' AND ${namespaceFilter}`;
+			}
+
+			default:
+				return `SELECT COUNT(*) FROM information_schema.tables WHERE table_schema = '${change.schema}' AND table_name = '${name}'`;
+		}
+	}
+
 	/**
 	 * Estimate step duration
 	 */
@@ -1902,11 +4606,13 @@ export class MigrationManagement {
 
 	/**
 	 * Generate rollback SQL
+	 * @param sourceSnapshot - Source schema as captured before the migration, used to restore dropped objects
 	 */
 	private async generateRollbackSQL(
 		change: SchemaDifference,
 		sourceConnectionId: string,
 		targetConnectionId: string,
+		sourceSnapshot?: SchemaSnapshot,
 	): Promise<string> {
 		try {
 			Logger.info("Generating rollback SQL", "generateRollbackSQL", {
@@ -1921,10 +4627,18 @@ export class MigrationManagement {
 					return this.generateRollbackForAdded(change);
 
 				case "Removed":
-					return this.generateRollbackForRemoved(change, sourceConnectionId);
+					return this.generateRollbackForRemoved(change, sourceConnectionId, sourceSnapshot);
 
 				case "Modified":
-					return this.generateRollbackForModified(change, sourceConnectionId, targetConnectionId);
+					return this.generateRollbackForModified(change, sourceConnectionId, targetConnectionId, sourceSnapshot);
+
+				case "Renamed": {
+					// Undo the changes made under the new name before renaming the object back
+					const reversed = change.objectType !== "column" ? this.reverseAttributeChanges(change) : undefined;
+					return reversed?.attributeChanges?.length
+						? `${this.generateAttributeAlterSQL(reversed)}\n${this.generateRenameSQL(change, true)}`
+						: this.generateRenameSQL(change, true);
+				}
 
 				default:
 					return `-- No rollback SQL available for change type: ${change.type}`;
@@ -1943,48 +4657,60 @@ export class MigrationManagement {
 	 * Generate rollback SQL for ADD operations
 	 */
 	private generateRollbackForAdded(change: SchemaDifference): string {
-		const objectType = change.objectType.toUpperCase();
-
 		// Generate appropriate DROP statement for rollback
 		switch (change.objectType) {
 			case "table":
-				return `DROP TABLE IF EXISTS ${change.schema}.${change.objectName} CASCADE;`;
-
 			case "index":
-				return `DROP INDEX IF EXISTS ${change.schema}.${change.objectName} CASCADE;`;
-
 			case "view":
-				return `DROP VIEW IF EXISTS ${change.schema}.${change.objectName} CASCADE;`;
-
 			case "function":
-				return `DROP FUNCTION IF EXISTS ${change.schema}.${change.objectName} CASCADE;`;
-
+			case "procedure":
 			case "trigger":
-				return `DROP TRIGGER IF EXISTS ${change.objectName} ON ${change.schema} CASCADE;`;
-
-			case "sequence":
-				return `DROP SEQUENCE IF EXISTS ${change.schema}.${change.objectName} CASCADE;`;
+			case "sequence": {
+				const reference = this.getObjectReference(change);
+				return `DROP ${reference.keyword} IF EXISTS ${reference.name} CASCADE;`;
+			}
 
 			case "column":
-				return `ALTER TABLE ${change.schema}.${change.objectName} DROP COLUMN IF EXISTS [column_name] CASCADE;`;
+				if (!change.tableName) {
+					return `-- WARNING: Cannot rollback ADD COLUMN - the owning table of column ${change.objectName} is unknown`;
+				}
+				return `ALTER TABLE ${this.quoteIdentifier(change.schema)}.${this.quoteIdentifier(change.tableName)} DROP COLUMN IF EXISTS ${this.quoteIdentifier(change.objectName)} CASCADE;`;
 
 			default:
-				return `DROP ${objectType} IF EXISTS ${change.schema}.${change.objectName} CASCADE;`;
+				return this.generateDropSQL(change);
 		}
 	}
 
 	/**
 	 * Generate rollback SQL for REMOVE operations
 	 */
-	private async generateRollbackForRemoved(change: SchemaDifference, sourceConnectionId: string): Promise<string> {
+	private async generateRollbackForRemoved(
+		change: SchemaDifference,
+		sourceConnectionId: string,
+		sourceSnapshot?: SchemaSnapshot,
+	): Promise<string> {
+		// The snapshot's table definitions carry every column and constraint, plus the table's other indexes
+		const snapshotRestore = sourceSnapshot ? this.generateSnapshotRestoreSQL(change, sourceSnapshot) : undefined;
+		if (snapshotRestore && change.objectType === "table") {
+			return snapshotRestore;
+		}
+
 		if (change.sourceDefinition) {
-			return `${change.sourceDefinition}\n-- Original definition restored from source`;
+			// Recreate the object the way an added one is created, with the source side as the definition
+			const restore = await this.generateCreateSQL(
+				{ ...change, type: "Added", targetSchema: undefined, targetDefinition: change.sourceDefinition },
+				sourceConnectionId,
+			);
+			return `${restore}\n-- Original definition restored from source`;
+		}
+		if (snapshotRestore) {
+			return snapshotRestore;
 		}
 
 		// Try to get the object definition from source database
 		try {
-			const sourceSnapshot = await this.createSchemaSnapshot(sourceConnectionId);
-			const sourceObject = sourceSnapshot.objects.find(
+			const liveSnapshot = await this.createSchemaSnapshot(sourceConnectionId);
+			const sourceObject = liveSnapshot.objects.find(
 				(obj) => obj.type === change.objectType && obj.schema === change.schema && obj.name === change.objectName,
 			);
 
@@ -2002,6 +4728,101 @@ export class MigrationManagement {
 		return `-- WARNING: Cannot rollback REMOVE operation - original definition not available\n-- Manual restoration of ${change.objectType} ${change.schema}.${change.objectName} required`;
 	}
 
+	/**
+	 * Restores a dropped table or index from the source snapshot; a table comes back with the
+	 * indexes that do not belong to one of its constraints
+	 * @returns Undefined when the snapshot does not hold the object
+	 * @private
+	 */
+	private generateSnapshotRestoreSQL(change: SchemaDifference, sourceSnapshot: SchemaSnapshot): string | undefined {
+		const sourceObject = sourceSnapshot.objects.find(
+			(obj) => obj.type === change.objectType && obj.schema === change.schema && obj.name === change.objectName,
+		);
+		if (!sourceObject?.definition) {
+			return undefined;
+		}
+
+		const statements = [`${sourceObject.definition.trim().replace(/;?$/, ";")}`];
+		if (change.objectType === "table") {
+			const constraintNames: string[] = sourceObject.constraintNames || [];
+			statements.push(
+				...sourceSnapshot.objects
+					.filter(
+						(obj) =>
+							obj.type === "index" &&
+							obj.schema === change.schema &&
+							obj.table === change.objectName &&
+							!constraintNames.includes(obj.name),
+					)
+					.map((index) => `${index.definition};`),
+			);
+		}
+		statements.push(`-- Restored from the source snapshot captured ${sourceSnapshot.capturedAt.toISOString()}`);
+		return statements.join("\n");
+	}
+
+	/**
+	 * Reverses a difference's structured attribute changes so generateAttributeAlterSQL turns the
+	 * migrated object back into its source version
+	 * @returns Undefined when the difference has no attribute changes, or one of them cannot be reversed
+	 * @private
+	 */
+	private reverseAttributeChanges(change: SchemaDifference): SchemaDifference | undefined {
+		if (!change.attributeChanges?.length) {
+			return undefined;
+		}
+
+		const reversedKinds: Partial<Record<AttributeChange["kind"], AttributeChange["kind"]>> = {
+			column_added: "column_dropped",
+			column_dropped: "column_added",
+			constraint_added: "constraint_dropped",
+			constraint_dropped: "constraint_added",
+			privilege_granted: "privilege_revoked",
+			privilege_revoked: "privilege_granted",
+		};
+		const attributeChanges: AttributeChange[] = [];
+		for (const attr of change.attributeChanges) {
+			// Restoring a dropped column needs its source definition
+			if (attr.kind === "column_dropped" && !attr.sourceColumn) {
+				return undefined;
+			}
+			attributeChanges.push({
+				...attr,
+				kind: reversedKinds[attr.kind] || attr.kind,
+				sourceValue: attr.targetValue,
+				targetValue: attr.sourceValue,
+				column: attr.sourceColumn,
+				sourceColumn: attr.column,
+				// Only the source-side definition is known, which generateConstraintAddStatements reads from targetValue
+				constraint: undefined,
+			});
+		}
+
+		// The source side's definitions already use the schema the migration ran against
+		return {
+			...change,
+			targetSchema: undefined,
+			sourceDefinition: change.targetDefinition,
+			targetDefinition: change.sourceDefinition,
+			attributeChanges,
+		};
+	}
+
+	/**
+	 * Restores a modified object to its original definition by dropping and recreating it. Objects that hold
+	 * data, or whose type other objects use, cannot be recreated, so the rollback is reported as impossible.
+	 * The DROP has no CASCADE: a dependent object makes the rollback fail rather than disappear with it.
+	 * @param origin - Where the definition was read, for the trailing comment
+	 * @private
+	 */
+	private generateDefinitionRestoreSQL(change: SchemaDifference, definition: string, origin: string): string {
+		if (!RECREATABLE_OBJECT_TYPES.includes(change.objectType)) {
+			return `-- WARNING: Cannot rollback ${change.objectType} ${change.schema}.${change.objectName}: it holds data, so it is not dropped and recreated from its original definition`;
+		}
+		const reference = this.getObjectReference(change);
+		return `DROP ${reference.keyword} IF EXISTS ${reference.name};\n${definition.trim().replace(/;?$/, ";")}\n-- Original definition restored from ${origin}`;
+	}
+
 	/**
 	 * Generate rollback SQL for MODIFY operations
 	 */
@@ -2009,6 +4830,7 @@ export class MigrationManagement {
 		change: SchemaDifference,
 		sourceConnectionId: string,
 		targetConnectionId: string,
+		sourceSnapshot?: SchemaSnapshot,
 	): Promise<string> {
 		try {
 			Logger.info("Generating rollback SQL for modified object", "generateRollbackForModified", {
@@ -2019,20 +4841,30 @@ export class MigrationManagement {
 				targetConnectionId,
 			});
 
-			// If we have source definition, use it directly
+			if (change.category === "privileges") {
+				return this.generatePrivilegeStatements(change, change.attributeChanges || [], true).join("\n");
+			}
+
+			// Reverse the structured diff: the object still exists, so it is altered back rather than recreated
+			const reversed = this.reverseAttributeChanges(change);
+			if (reversed) {
+				return this.generateAttributeAlterSQL(reversed);
+			}
+
+			// The object still exists, so its original definition can only be replayed after dropping it
 			if (change.sourceDefinition) {
-				return `${change.sourceDefinition}\n-- Original definition restored from source`;
+				return this.generateDefinitionRestoreSQL(change, change.sourceDefinition, "source");
 			}
 
 			// Try to get detailed information from source database
 			try {
-				const sourceSnapshot = await this.createSchemaSnapshot(sourceConnectionId);
-				const sourceObject = sourceSnapshot.objects.find(
+				const snapshot = sourceSnapshot || (await this.createSchemaSnapshot(sourceConnectionId));
+				const sourceObject = snapshot.objects.find(
 					(obj) => obj.type === change.objectType && obj.schema === change.schema && obj.name === change.objectName,
 				);
 
 				if (sourceObject && sourceObject.definition) {
-					return `${sourceObject.definition}\n-- Original definition restored from source database`;
+					return this.generateDefinitionRestoreSQL(change, sourceObject.definition, "source database");
 				}
 			} catch (error) {
 				Logger.warn("Could not retrieve source snapshot for rollback", "generateRollbackForModified", {
@@ -3001,7 +5833,7 @@ export class MigrationManagement {
 				return `SELECT indexname FROM pg_indexes WHERE schemaname = '${change.schema}' AND indexname = '${change.objectName}';`;
 
 			case "column":
-				return `SELECT column_name FROM information_schema.columns WHERE table_schema = '${change.schema}' AND table_name = '${change.objectName}' AND column_name = '${change.objectName}';`;
+				return `SELECT column_name FROM information_schema.columns WHERE table_schema = '${change.schema}' AND table_name = '${change.tableName || change.objectName}' AND column_name = '${change.objectName}';`;
 
 			default:
 				return `-- Verification query not available for object type: ${change.objectType}`;
@@ -3026,12 +5858,35 @@ export class MigrationManagement {
 			const rollbackSteps: RollbackStep[] = [];
 			const warnings: string[] = [];
 			const limitations: string[] = [];
+			// Data lost by later phases of an online change, reported with the phase that carries the rollback
+			let phaseDataLoss: string[] = [];
 
 			// Generate rollback steps in reverse order
 			for (let i = migrationSteps.length - 1; i >= 0; i--) {
 				const step = migrationSteps[i];
+				const irreversibleReason = [...phaseDataLoss, step.irreversibleReason].filter(Boolean).join("; ") || undefined;
+
+				// Later phases of an online change are undone by the rollback of its first phase
+				if (step.rollbackSql === "") {
+					if (step.irreversibleReason) {
+						phaseDataLoss.push(step.irreversibleReason);
+					}
+					continue;
+				}
+				phaseDataLoss = [];
+
+				const rollbackSql = step.rollbackSql || "";
+				const statements = this.splitSQLStatements(rollbackSql).filter(
+					(statement) => this.stripLeadingComments(statement).trim().length > 0,
+				);
+				const executable =
+					statements.length > 0 && !/^\s*--\s*(WARNING: Cannot rollback|ERROR:|Error generating)/im.test(rollbackSql);
 
-				if (step.rollbackSql && !step.rollbackSql.includes("WARNING: Cannot rollback")) {
+				if (irreversibleReason) {
+					warnings.push(`Step ${step.order} (${step.objectName}) ${irreversibleReason}`);
+				}
+
+				if (executable) {
 					rollbackSteps.push({
 						order: rollbackSteps.length + 1,
 						description: `Rollback: ${step.description}`,
@@ -3043,6 +5898,10 @@ export class MigrationManagement {
 							`Check data integrity after rollback`,
 							`Validate related objects are unaffected`,
 						],
+						migrationStepId: step.id,
+						sqlScript: rollbackSql,
+						transactional: statements.every((statement) => this.canRunInTransaction(statement)),
+						irreversibleReason,
 					});
 				} else {
 					warnings.push(`Step ${step.order} (${step.objectName}) cannot be fully rolled back`);
@@ -3060,6 +5919,8 @@ export class MigrationManagement {
 							`Check data consistency after partial rollback`,
 							`Document any data loss or inconsistencies`,
 						],
+						migrationStepId: step.id,
+						irreversibleReason: irreversibleReason || "cannot be reverted automatically",
 					});
 				}
 			}
@@ -3067,11 +5928,8 @@ export class MigrationManagement {
 			const estimatedRollbackTime = rollbackSteps.reduce((total, step) => total + step.estimatedDuration, 0) / 60; // Convert to minutes
 
 			// Assess rollback completeness and quality
-			const completeSteps = rollbackSteps.filter((step) => step.description.includes("Rollback:")).length;
+			const completeSteps = rollbackSteps.filter((step) => step.sqlScript).length;
 			const partialSteps = rollbackSteps.length - completeSteps;
-			const hasAllRollbackSQL = migrationSteps.every(
-				(step) => step.rollbackSql && !step.rollbackSql.includes("WARNING"),
-			);
 
 			// Calculate success rate based on rollback completeness
 			let successRate = 100;
@@ -3093,9 +5951,13 @@ export class MigrationManagement {
 			if (rollbackSteps.some((step) => step.riskLevel === "critical")) {
 				limitations.push("Critical risk operations included - ensure proper testing");
 			}
+			// Steps without SQL are not replayed at all and are already listed as limitations
+			if (rollbackSteps.some((step) => step.sqlScript && step.irreversibleReason)) {
+				limitations.push("Data destroyed by the migration is not restored; restore it from a backup if needed");
+			}
 
 			const rollbackScript: RollbackScript = {
-				isComplete: hasAllRollbackSQL && partialSteps === 0,
+				isComplete: partialSteps === 0,
 				steps: rollbackSteps,
 				estimatedRollbackTime,
 				successRate,
@@ -7625,6 +10487,25 @@ export class MigrationManagement {
 			return false;
 		}
 	}
+	/**
+	 * Annotates each step with the locks its statements take and the size of the relations they lock,
+	 * raising the step's risk level when it blocks writes while rewriting or scanning a table
+	 * @private
+	 */
+	private async annotateLockImpact(steps: MigrationStep[], connectionId: string): Promise<void> {
+		const riskOrder = ["low", "medium", "high", "critical"];
+		const impacts = await this.lockImpactAnalyzer.analyzeSteps(connectionId, steps, (sql) =>
+			this.splitSQLStatements(sql),
+		);
+
+		steps.forEach((step, index) => {
+			step.lockImpact = impacts[index];
+			const floor = this.lockImpactAnalyzer.getRiskFloor(impacts[index]);
+			if (riskOrder.indexOf(floor) > riskOrder.indexOf(step.riskLevel)) {
+				step.riskLevel = floor;
+			}
+		});
+	}
 	/**
 	 * Assesses overall risk level of a migration based on its steps
 	 * @param migrationSteps - Array of migration steps to evaluate
@@ -7646,15 +10527,495 @@ export class MigrationManagement {
 		}
 		return "low";
 	}
+	/**
+	 * Runs the migration steps on one pinned client inside a transaction, with a savepoint per step.
+	 * Steps marked transactional: false split the run into batches: the open transaction commits, the
+	 * step runs on its own, and the following steps start a new transaction.
+	 * @param script - The migration script to execute
+	 * @param connectionId - Connection ID for the target database
+	 * @param executionResult - Result to record step outcomes, failures and the transaction outcome in
+	 * @param rollbackOnFailure - If true, a failed step rolls back the open transaction and stops the run;
+	 * otherwise only the step is rolled back
+	 * @param lockGuard - Timeouts and lock retries applied to each step
+	 * @param cancellationToken - Cancels the running step and rolls back the open transaction
+	 * @throws Error if a transactional step contains a statement that cannot run inside a transaction,
+	 * or the connection fails
+	 * @private
+	 */
+	private async executeStepsInTransaction(
+		script: EnhancedMigrationScript,
+		connectionId: string,
+		executionResult: MigrationExecutionResult,
+		rollbackOnFailure: boolean,
+		lockGuard?: MigrationLockGuardOptions,
+		cancellationToken?: QueryCancellationToken,
+	): Promise<void> {
+		const blocked = this.findNonTransactionalStatement(
+			script.migrationSteps.filter((step) => step.transactional !== false),
+		);
+		if (blocked) {
+			throw new Error(
+				`Step ${blocked.step.order} cannot run inside a transaction: ${this.abbreviateStatement(blocked.statement)}`,
+			);
+		}
+
+		executionResult.transactional = true;
+		executionResult.rolledBackSteps = [];
+
+		await this.queryService.withPinnedClient(
+			connectionId,
+			async (client) => {
+				const runStatement = this.createClientRunner(client);
+				const runCheck = this.createCheckRunner(client, runStatement);
+
+				let inTransaction = false;
+				let stepsInTransaction = 0;
+				let stepFailed = false;
+				try {
+					for (const [index, step] of script.migrationSteps.entries()) {
+						this.throwIfCancelled(cancellationToken);
+						executionResult.currentStep = index + 1;
+						const savepoint = `migration_step_${index + 1}`;
+						const stepStartTime = Date.now();
+
+						if (step.transactional === false) {
+							if (inTransaction) {
+								await client.query("COMMIT");
+								inTransaction = false;
+								stepsInTransaction = 0;
+							}
+							try {
+								await this.executeGuardedStep(step, runStatement, runStatement, lockGuard, executionResult, "session");
+							} catch (stepError) {
+								this.throwIfCancelled(cancellationToken, stepError as Error);
+								executionResult.failedSteps++;
+								this.recordStepFailure(executionResult, step, stepError as Error);
+								if (/\bCONCURRENTLY\b/i.test(step.sqlScript)) {
+									executionResult.executionLog.push({
+										timestamp: new Date(),
+										stepId: step.id,
+										level: "warn",
+										message: `Step ${step.order} ran outside a transaction; a failed CREATE INDEX CONCURRENTLY leaves an INVALID index that must be dropped before retrying`,
+									});
+								}
+								if (rollbackOnFailure) {
+									stepFailed = true;
+									throw stepError;
+								}
+								continue;
+							}
+
+							executionResult.completedSteps++;
+							executionResult.executionLog.push({
+								timestamp: new Date(),
+								stepId: step.id,
+								level: "info",
+								message: `Step ${step.order} completed successfully outside the transaction`,
+								duration: Date.now() - stepStartTime,
+							});
+							continue;
+						}
+
+						if (!inTransaction) {
+							await client.query("BEGIN");
+							inTransaction = true;
+						}
+						await client.query(`SAVEPOINT ${savepoint}`);
+						try {
+							// Rolling back to the savepoint releases every lock only while no earlier step of the
+							// transaction has taken one
+							await this.executeGuardedStep(
+								step,
+								runStatement,
+								runCheck,
+								lockGuard,
+								executionResult,
+								"local",
+								stepsInTransaction === 0
+									? () => client.query(`ROLLBACK TO SAVEPOINT ${savepoint}`).then(() => undefined)
+									: undefined,
+							);
+							await client.query(`RELEASE SAVEPOINT ${savepoint}`);
+						} catch (stepError) {
+							await client.query(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+							this.throwIfCancelled(cancellationToken, stepError as Error);
+							executionResult.failedSteps++;
+							executionResult.rolledBackSteps?.push(step.id);
+							this.recordStepFailure(executionResult, step, stepError as Error);
+
+							if (rollbackOnFailure) {
+								stepFailed = true;
+								throw stepError;
+							}
+							continue;
+						}
+
+						stepsInTransaction++;
+						executionResult.completedSteps++;
+						executionResult.executionLog.push({
+							timestamp: new Date(),
+							stepId: step.id,
+							level: "info",
+							message: `Step ${step.order} completed successfully`,
+							duration: Date.now() - stepStartTime,
+						});
+					}
+
+					if (inTransaction) {
+						await client.query("COMMIT");
+					}
+					executionResult.transactionOutcome = "committed";
+				} catch (error) {
+					if (inTransaction) {
+						try {
+							await client.query("ROLLBACK");
+						} catch (rollbackError) {
+							Logger.warn(`Rollback failed: ${(rollbackError as Error).message}`, "executeStepsInTransaction");
+						}
+					}
+					const committedSteps = executionResult.completedSteps - stepsInTransaction;
+					executionResult.transactionOutcome = committedSteps > 0 ? "partially_committed" : "rolled_back";
+					executionResult.executionLog.push({
+						timestamp: new Date(),
+						level: "error",
+						message:
+							stepFailed || error instanceof QueryCancelledError
+								? `Transaction rolled back; ${stepsInTransaction} completed step(s) were undone${committedSteps > 0 ? `, ${committedSteps} step(s) committed earlier remain applied` : ""}`
+								: `Transaction rolled back: ${(error as Error).message}`,
+					});
+					Logger.error("Transactional migration rolled back", error as Error, "executeStepsInTransaction", {
+						scriptId: script.id,
+						failedStep: executionResult.failures?.[executionResult.failures.length - 1]?.stepId,
+					});
+				} finally {
+					// Timeouts set for steps that ran outside a transaction would otherwise stay on the pooled client
+					if (lockGuard) {
+						await this.resetLockGuard(runStatement);
+					}
+				}
+			},
+			cancellationToken,
+		);
+	}
+	/**
+	 * Runs the migration steps on one pinned client inside a transaction that is rolled back at the end,
+	 * with a savepoint per step so a failed step is undone and the following steps are still tried. Locks
+	 * the steps take are held until that rollback, so the lock guard applies as in a real run.
+	 * @param script - The migration script to dry-run
+	 * @param connectionId - Connection ID for the database the migration would be applied to
+	 * @param executionResult - Result to record the per-step outcomes and failures in
+	 * @param lockGuard - Timeouts and lock retries applied to each step
+	 * @param cancellationToken - Cancels the running step and ends the dry run
+	 * @throws QueryCancelledError if the dry run was cancelled
+	 * @private
+	 */
+	private async dryRunSteps(
+		script: EnhancedMigrationScript,
+		connectionId: string,
+		executionResult: MigrationExecutionResult,
+		lockGuard?: MigrationLockGuardOptions,
+		cancellationToken?: QueryCancellationToken,
+	): Promise<void> {
+		const dryRunSteps: DryRunStepResult[] = [];
+		executionResult.transactional = true;
+		executionResult.dryRunSteps = dryRunSteps;
+
+		await this.queryService.withPinnedClient(
+			connectionId,
+			async (client) => {
+				const runStatement = this.createClientRunner(client);
+				const runCheck = this.createCheckRunner(client, runStatement);
+
+				await client.query("BEGIN");
+				try {
+					for (const [index, step] of script.migrationSteps.entries()) {
+						this.throwIfCancelled(cancellationToken);
+						executionResult.currentStep = index + 1;
+						const stepResult: DryRunStepResult = {
+							stepId: step.id,
+							stepOrder: step.order,
+							name: step.name,
+							status: "passed",
+							elapsedMs: 0,
+							rowCount: 0,
+						};
+						dryRunSteps.push(stepResult);
+
+						stepResult.skipReason = this.getDryRunSkipReason(step);
+						if (stepResult.skipReason) {
+							stepResult.status = "skipped";
+							executionResult.executionLog.push({
+								timestamp: new Date(),
+								stepId: step.id,
+								level: "warn",
+								message: `Step ${step.order} was not dry-run: ${stepResult.skipReason}`,
+							});
+							continue;
+						}
+
+						const savepoint = `dry_run_step_${index + 1}`;
+						const countRows: StatementRunner = async (sql) => {
+							const result = await runStatement(sql);
+							stepResult.rowCount += result.rowCount;
+							return result;
+						};
+						const stepStartTime = Date.now();
+						await client.query(`SAVEPOINT ${savepoint}`);
+						try {
+							// Steps that passed keep their locks until the final rollback, so only retry before the first
+							await this.executeGuardedStep(
+								step,
+								countRows,
+								runCheck,
+								lockGuard,
+								executionResult,
+								"local",
+								executionResult.completedSteps === 0
+									? async () => {
+											stepResult.rowCount = 0;
+											await client.query(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+										}
+									: undefined,
+							);
+							await client.query(`RELEASE SAVEPOINT ${savepoint}`);
+							stepResult.elapsedMs = Date.now() - stepStartTime;
+							executionResult.completedSteps++;
+							executionResult.executionLog.push({
+								timestamp: new Date(),
+								stepId: step.id,
+								level: "info",
+								message: `Step ${step.order} passed the dry run (${stepResult.rowCount} row(s))`,
+								duration: stepResult.elapsedMs,
+							});
+						} catch (stepError) {
+							stepResult.elapsedMs = Date.now() - stepStartTime;
+							await client.query(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+							if (cancellationToken?.isCancellationRequested) {
+								// The step did not fail on its own, so it is not reported as a failure
+								dryRunSteps.pop();
+								throw new QueryCancelledError(stepError as Error);
+							}
+							stepResult.status = "failed";
+							executionResult.failedSteps++;
+							this.recordStepFailure(executionResult, step, stepError as Error);
+							stepResult.failure = executionResult.failures?.[executionResult.failures.length - 1];
+						}
+					}
+				} finally {
+					try {
+						await client.query("ROLLBACK");
+					} catch (rollbackError) {
+						Logger.warn(`Dry run rollback failed: ${(rollbackError as Error).message}`, "dryRunSteps");
+					}
+					executionResult.transactionOutcome = "rolled_back";
+				}
+			},
+			cancellationToken,
+		);
+	}
+	/**
+	 * Why a step cannot be tried in a dry run
+	 * @returns Undefined when every statement of the step can run, and take effect, inside the dry run's transaction
+	 * @private
+	 */
+	private getDryRunSkipReason(step: MigrationStep): string | undefined {
+		for (const statement of this.splitSQLStatements(step.sqlScript || "")) {
+			const code = this.stripLeadingComments(statement);
+			if (!this.canRunInTransaction(statement)) {
+				return `${code.split(/\s+/).slice(0, 4).join(" ")} cannot run inside a transaction block`;
+			}
+			if (ENUM_ADD_VALUE_PATTERN.test(code)) {
+				return "ALTER TYPE ... ADD VALUE only makes the value usable once it commits";
+			}
+		}
+		return undefined;
+	}
+	/**
+	 * Runs pre- and post-condition queries inside an open transaction, each under its own savepoint so a
+	 * failing query does not abort the transaction
+	 * @private
+	 */
+	private createCheckRunner(client: PoolClient, runStatement: StatementRunner): StatementRunner {
+		return async (sql) => {
+			await client.query("SAVEPOINT migration_condition");
+			try {
+				const result = await runStatement(sql);
+				await client.query("RELEASE SAVEPOINT migration_condition");
+				return result;
+			} catch (error) {
+				await client.query("ROLLBACK TO SAVEPOINT migration_condition");
+				throw error;
+			}
+		};
+	}
+	/**
+	 * Records a failed step in the execution log, the failure report and the compatibility error list
+	 * @private
+	 */
+	private recordStepFailure(executionResult: MigrationExecutionResult, step: MigrationStep, error: Error): void {
+		const failure: MigrationStatementFailure =
+			error instanceof MigrationStatementError
+				? error.failure
+				: { stepId: step.id, stepOrder: step.order, message: error.message };
+
+		executionResult.failures = [...(executionResult.failures || []), failure];
+		executionResult.errors = [...(executionResult.errors || []), error.message];
+		executionResult.executionLog.push({
+			timestamp: new Date(),
+			stepId: step.id,
+			level: "error",
+			message: failure.statement
+				? `Step ${step.order} failed: ${error.message}\n${this.abbreviateStatement(failure.statement)}`
+				: `Step ${step.order} failed: ${error.message}`,
+		});
+	}
+	/**
+	 * Finds the first statement that PostgreSQL will not run inside a transaction block
+	 * @private
+	 */
+	private findNonTransactionalStatement(
+		steps: MigrationStep[],
+	): { step: MigrationStep; statement: string } | undefined {
+		for (const step of steps) {
+			for (const statement of this.splitSQLStatements(step.sqlScript || "")) {
+				if (!this.canRunInTransaction(statement)) {
+					return { step, statement };
+				}
+			}
+		}
+		return undefined;
+	}
+	/**
+	 * Whether PostgreSQL accepts a statement inside a transaction block
+	 * @private
+	 */
+	private canRunInTransaction(statement: string): boolean {
+		const code = this.stripLeadingComments(statement);
+		return !NON_TRANSACTIONAL_STATEMENT_PATTERNS.some((pattern) => pattern.test(code));
+	}
+	/**
+	 * Removes the whitespace and comments in front of a statement's first keyword
+	 * @private
+	 */
+	private stripLeadingComments(statement: string): string {
+		return statement.replace(/^(\s+|--[^\n]*\n?|\/\*[\s\S]*?\*\/)+/, "");
+	}
+	/**
+	 * Runs statements through the query service, one pooled client per statement, without a transaction
+	 * @private
+	 */
+	private createQueryServiceRunner(connectionId: string, cancellationToken?: QueryCancellationToken): StatementRunner {
+		return async (sql) => {
+			const result = await this.queryService.executeQuery(connectionId, sql, {}, cancellationToken);
+			if (result.cancelled) {
+				throw new QueryCancelledError();
+			}
+			if (result.error) {
+				throw new Error(result.error);
+			}
+			return {
+				rows: result.rows.map((row) => (Array.isArray(row) ? row : Object.values(row))),
+				rowCount: result.rowCount,
+			};
+		};
+	}
+	/**
+	 * Runs statements on a pinned client, inside whatever transaction the client has open
+	 * @private
+	 */
+	private createClientRunner(client: PoolClient): StatementRunner {
+		return async (sql) => {
+			const result = await client.query({ text: sql, rowMode: "array" });
+			return { rows: result.rows, rowCount: result.rowCount || 0 };
+		};
+	}
+	/**
+	 * Executes a step under the lock guard's timeouts, retrying it with doubling delays while it fails
+	 * with lock_not_available; without a guard the step runs once with the server's settings
+	 * @param scope - "local" sets the timeouts for the current transaction only; "session" leaves them set
+	 * until resetLockGuard
+	 * @param undoAttempt - Reverts a failed attempt before the retry, e.g. by rolling back to a savepoint. Inside a
+	 * transaction the step is only retried with one, and callers only pass one when the undo releases every lock
+	 * the transaction holds; waiting while earlier steps' locks are held would queue other sessions behind them.
+	 * @private
+	 */
+	private async executeGuardedStep(
+		step: MigrationStep,
+		runStatement: StatementRunner,
+		runCheck: StatementRunner,
+		lockGuard: MigrationLockGuardOptions | undefined,
+		executionResult: MigrationExecutionResult,
+		scope: "local" | "session",
+		undoAttempt?: () => Promise<void>,
+	): Promise<void> {
+		for (let attempt = 0; ; attempt++) {
+			if (lockGuard) {
+				const set = scope === "local" ? "SET LOCAL" : "SET";
+				await runStatement(`${set} lock_timeout = ${Math.max(0, Math.floor(lockGuard.lockTimeoutMs))}`);
+				await runStatement(`${set} statement_timeout = ${Math.max(0, Math.floor(lockGuard.statementTimeoutMs))}`);
+			}
+			try {
+				await this.executeMigrationStep(step, runStatement, runCheck);
+				return;
+			} catch (error) {
+				// Outside a transaction the statements before the failing one stay applied, so only retry
+				// when the step's first statement timed out
+				const lockTimedOut = error instanceof MigrationStatementError && error.failure.sqlState === LOCK_NOT_AVAILABLE;
+				const retryable = lockTimedOut && (scope === "local" ? !!undoAttempt : error.failure.statementIndex === 1);
+				if (lockGuard && lockTimedOut && !retryable && scope === "local" && lockGuard.retries > 0) {
+					executionResult.executionLog.push({
+						timestamp: new Date(),
+						stepId: step.id,
+						level: "warn",
+						message: `Step ${step.order} timed out waiting for a lock; not retried because the transaction holds locks taken by earlier steps`,
+					});
+				}
+				if (!lockGuard || !retryable || attempt >= lockGuard.retries) {
+					throw error;
+				}
+
+				const delay = lockGuard.retryDelayMs * 2 ** attempt;
+				const message = `Step ${step.order} timed out waiting for a lock after ${lockGuard.lockTimeoutMs}ms; retry ${attempt + 1} of ${lockGuard.retries} in ${delay}ms`;
+				Logger.warn(message, "executeGuardedStep", { stepId: step.id, lockMode: step.lockImpact?.lockMode });
+				executionResult.executionLog.push({ timestamp: new Date(), stepId: step.id, level: "warn", message });
+				await undoAttempt?.();
+				await new Promise((resolve) => setTimeout(resolve, delay));
+			}
+		}
+	}
+	/**
+	 * Restores the server's lock and statement timeouts on a pinned client before it returns to the pool
+	 * @private
+	 */
+	private async resetLockGuard(runStatement: StatementRunner): Promise<void> {
+		try {
+			await runStatement("RESET lock_timeout");
+			await runStatement("RESET statement_timeout");
+		} catch (error) {
+			Logger.warn(`Failed to reset migration timeouts: ${(error as Error).message}`, "resetLockGuard");
+		}
+	}
+	/**
+	 * Shortens a statement for log and error messages
+	 * @private
+	 */
+	private abbreviateStatement(statement: string): string {
+		return statement.length > 200 ? `${statement.substring(0, 200)}...` : statement;
+	}
 	/**
 	 * Executes a single migration step with pre/post conditions and error handling
 	 * @param step - Migration step to execute
-	 * @param connectionId - Connection ID for the target database
+	 * @param runStatement - Runs one statement against the target database, throwing on any error
+	 * @param runCheck - Runs pre- and post-condition queries; defaults to runStatement
 	 * @returns Promise that resolves when step execution completes
-	 * @throws Error if step execution fails
+	 * @throws Error if step execution fails; statement failures throw MigrationStatementError
 	 * @private
 	 */
-	private async executeMigrationStep(step: MigrationStep, connectionId: string): Promise<void> {
+	private async executeMigrationStep(
+		step: MigrationStep,
+		runStatement: StatementRunner,
+		runCheck: StatementRunner = runStatement,
+	): Promise<void> {
 		try {
 			Logger.info("Executing migration step", "executeMigrationStep", {
 				stepId: step.id,
@@ -7666,7 +11027,7 @@ export class MigrationManagement {
 
 			// Execute pre-conditions check
 			if (step.preConditions?.length) {
-				await this.executePreConditions(step, connectionId);
+				await this.executePreConditions(step, runCheck);
 			}
 
 			// Execute the main SQL script
@@ -7674,7 +11035,7 @@ export class MigrationManagement {
 				// Split SQL script into individual statements
 				const statements = this.splitSQLStatements(step.sqlScript);
 
-				for (const statement of statements) {
+				for (const [index, statement] of statements.entries()) {
 					if (statement.trim()) {
 						try {
 							Logger.debug("Executing SQL statement", "executeMigrationStep", {
@@ -7682,19 +11043,37 @@ export class MigrationManagement {
 								statementLength: statement.length,
 							});
 
-							const result = await this.queryService.executeQuery(connectionId, statement);
+							const startTime = Date.now();
+							const result = await runStatement(statement);
 
 							Logger.debug("SQL statement executed successfully", "executeMigrationStep", {
 								stepId: step.id,
 								rowsAffected: result.rowCount,
-								executionTime: result.executionTime,
+								executionTime: Date.now() - startTime,
 							});
 						} catch (statementError) {
 							Logger.error("SQL statement execution failed", statementError as Error, "executeMigrationStep", {
 								stepId: step.id,
-								statement: statement.substring(0, 200) + (statement.length > 200 ? "..." : ""),
+								statement: this.abbreviateStatement(statement),
+							});
+							// pg errors carry the SQLSTATE and server-side detail alongside the message
+							const pgError = statementError as Error & {
+								code?: string;
+								detail?: string;
+								hint?: string;
+								position?: string;
+							};
+							throw new MigrationStatementError({
+								stepId: step.id,
+								stepOrder: step.order,
+								statementIndex: index + 1,
+								statement,
+								message: pgError.message,
+								sqlState: pgError.code,
+								detail: pgError.detail,
+								hint: pgError.hint,
+								position: pgError.position ? Number(pgError.position) : undefined,
 							});
-							throw new Error(`Failed to execute statement in step ${step.id}: ${(statementError as Error).message}`);
 						}
 					}
 				}
@@ -7702,7 +11081,7 @@ export class MigrationManagement {
 
 			// Execute post-conditions check
 			if (step.postConditions?.length) {
-				await this.executePostConditions(step, connectionId);
+				await this.executePostConditions(step, runCheck);
 			}
 
 			Logger.info("Migration step completed successfully", "executeMigrationStep", {
@@ -7722,16 +11101,16 @@ export class MigrationManagement {
 	/**
 	 * Executes pre-condition checks for a migration step
 	 * @param step - Migration step containing pre-conditions
-	 * @param connectionId - Connection ID for the database
+	 * @param runStatement - Runs one statement against the target database
 	 * @returns Promise that resolves if all pre-conditions pass
 	 * @throws Error if any pre-condition fails
 	 * @private
 	 */
-	private async executePreConditions(step: MigrationStep, connectionId: string): Promise<void> {
+	private async executePreConditions(step: MigrationStep, runStatement: StatementRunner): Promise<void> {
 		for (const condition of step.preConditions || []) {
 			try {
 				if (condition.sqlQuery) {
-					const result = await this.queryService.executeQuery(connectionId, condition.sqlQuery);
+					const result = await runStatement(condition.sqlQuery);
 
 					// Validate condition result
 					const actualResult = result.rows[0]?.[0]; // Get first column of first row
@@ -7762,15 +11141,15 @@ export class MigrationManagement {
 	/**
 	 * Executes post-condition checks for a migration step (non-blocking)
 	 * @param step - Migration step containing post-conditions
-	 * @param connectionId - Connection ID for the database
+	 * @param runStatement - Runs one statement against the target database
 	 * @returns Promise that resolves after post-condition checks (warnings logged but not thrown)
 	 * @private
 	 */
-	private async executePostConditions(step: MigrationStep, connectionId: string): Promise<void> {
+	private async executePostConditions(step: MigrationStep, runStatement: StatementRunner): Promise<void> {
 		for (const condition of step.postConditions || []) {
 			try {
 				if (condition.sqlQuery) {
-					const result = await this.queryService.executeQuery(connectionId, condition.sqlQuery);
+					const result = await runStatement(condition.sqlQuery);
 
 					// Validate condition result
 					const actualResult = result.rows[0]?.[0]; // Get first column of first row
@@ -7866,6 +11245,18 @@ export class MigrationManagement {
 				const char = sqlScript[i];
 				const nextChar = sqlScript[i + 1] || "";
 
+				// Copy dollar-quoted bodies verbatim; function bodies contain semicolons
+				if (!inString && !inComment && !inLineComment && char === "$") {
+					const tag = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sqlScript.slice(i))?.[0];
+					if (tag) {
+						const closeIndex = sqlScript.indexOf(tag, i + tag.length);
+						const end = closeIndex === -1 ? sqlScript.length : closeIndex + tag.length;
+						currentStatement += sqlScript.slice(i, end);
+						i = end - 1;
+						continue;
+					}
+				}
+
 				// Handle string literals
 				if (!inComment && !inLineComment && (char === '"' || char === "'")) {
 					if (!inString) {
@@ -7935,10 +11326,13 @@ export class MigrationManagement {
 				statements.push(remainingStatement);
 			}
 
-			// Filter out empty statements and comments
+			// Filter out empty statements and statements that are only comments
 			const filteredStatements = statements.filter((stmt) => {
-				const trimmed = stmt.trim();
-				return trimmed.length > 0 && !trimmed.startsWith("--") && !trimmed.startsWith("/*") && trimmed !== ";";
+				const code = stmt
+					.replace(/\/\*[\s\S]*?\*\//g, "")
+					.replace(/--[^\n]*/g, "")
+					.trim();
+				return code.length > 0 && code !== ";";
 			});
 
 			Logger.debug("SQL statements split", "splitSQLStatements", {
@@ -0,0 +1,328 @@
+import * as crypto from "crypto";
+import { QueryCancellationToken } from "@/core/PostgreSqlConnectionManager";
+import { Logger } from "@/utils/Logger";
+import { MigrationManagement } from "./MigrationManagement";
+import { EnhancedMigrationScript, MigrationExecutionResult, MigrationLockGuardOptions } from "./MigrationTypes";
+import { SchemaComparison, SchemaComparisonOptions, SchemaDifference } from "./SchemaComparison";
+import { EnvironmentInfo } from "./SchemaOperations";
+
+/**
+ * drifted: the script ran, but the stage still differs from the reference on objects the migration changes;
+ * cancelled: the user stopped the stage while its script ran
+ */
+export type RolloutStageStatus = "pending" | "running" | "verifying" | "completed" | "failed" | "drifted" | "cancelled";
+
+/**
+ * paused: an approval gate was declined, or the rollout was cancelled between stages; halted: a stage failed,
+ * drifted or was cancelled
+ */
+export type RolloutStatus = "pending" | "running" | "paused" | "completed" | "halted";
+
+/**
+ * One database of a rollout, migrated after every stage before it completed
+ */
+export interface RolloutStage {
+	order: number;
+	connectionId: string;
+	environment: EnvironmentInfo;
+	status: RolloutStageStatus;
+	startedAt?: Date;
+	completedAt?: Date;
+	executionResult?: MigrationExecutionResult;
+	/** Differences left on migrated objects after the stage ran; empty when the stage matches the reference */
+	drift?: SchemaDifference[];
+	/** Differences between the stage and the reference on objects the migration does not touch */
+	unrelatedDifferenceCount?: number;
+	error?: string;
+}
+
+/**
+ * One migration script promoted through an ordered list of databases
+ */
+export interface MigrationRolloutPlan {
+	id: string;
+	script: EnhancedMigrationScript;
+	/** Database whose schema every stage must match once migrated: the target the script was generated from */
+	referenceConnectionId: string;
+	stages: RolloutStage[];
+	status: RolloutStatus;
+	createdAt: Date;
+	haltReason?: string;
+}
+
+export interface RolloutTarget {
+	connectionId: string;
+	environment: EnvironmentInfo;
+}
+
+/**
+ * Asked before each stage that follows a completed one; resolving false pauses the rollout
+ */
+export type RolloutApprovalGate = (
+	next: RolloutStage,
+	previous: RolloutStage,
+	plan: MigrationRolloutPlan,
+) => Promise<boolean>;
+
+export interface RolloutExecutionOptions {
+	/** Without a gate the stages run back to back */
+	approve?: RolloutApprovalGate;
+	/** Options for the post-stage comparison with the reference; strict mode when omitted */
+	getComparisonOptions?: (stage: RolloutStage) => Promise<SchemaComparisonOptions>;
+	/** Called whenever a stage changes status */
+	onStageUpdate?: (stage: RolloutStage, plan: MigrationRolloutPlan) => void;
+	transactional?: boolean;
+	lockGuard?: MigrationLockGuardOptions;
+	acknowledgePreflight?: boolean;
+	/** Cancels the running stage's script on the server; no further stage starts */
+	cancellationToken?: QueryCancellationToken;
+}
+
+const ENVIRONMENT_TYPE_PATTERNS: Array<{ type: EnvironmentInfo["type"]; pattern: RegExp }> = [
+	{ type: "production", pattern: /\bprod(uction)?\b|\bprd\b|\blive\b/i },
+	{ type: "staging", pattern: /\bstag(e|ing)\b|\bstg\b|\bpre-?prod\b|\buat\b/i },
+	{ type: "testing", pattern: /\btest(ing)?\b|\bqa\b|\bci\b/i },
+	{ type: "development", pattern: /\bdev(elopment)?\b|\blocal\b/i },
+];
+
+/**
+ * MigrationRollout - Applies one migration script to an ordered list of databases, such as dev, staging and prod
+ * Each stage is compared with the reference database after it runs, and the first failed or drifted stage
+ * halts the rollout so later environments are never migrated past a broken one
+ */
+export class MigrationRollout {
+	constructor(
+		private migrationManager: MigrationManagement,
+		private schemaComparison: SchemaComparison,
+	) {}
+
+	/**
+	 * Describe a connection as a rollout environment; the type is guessed from the environment or connection name
+	 * @param environmentName - Rules-file environment the connection belongs to, if any
+	 */
+	static describeEnvironment(
+		connection: { id: string; name: string },
+		priority: number,
+		environmentName?: string,
+	): EnvironmentInfo {
+		const name = environmentName || connection.name;
+		const match = ENVIRONMENT_TYPE_PATTERNS.find(({ pattern }) => pattern.test(name.replace(/[_.]/g, " ")));
+		return {
+			id: connection.id,
+			name,
+			type: match?.type ?? "custom",
+			tags: environmentName ? [environmentName] : [],
+			priority,
+		};
+	}
+
+	/**
+	 * Create a rollout plan with one pending stage per target, in the order given
+	 * @param referenceConnectionId - Database the stages must match afterwards; defaults to the script's target
+	 * @throws Error if there are no targets, a target repeats or a target is the reference itself
+	 */
+	createPlan(
+		script: EnhancedMigrationScript,
+		targets: RolloutTarget[],
+		referenceConnectionId: string = script.targetSchema.connectionId,
+	): MigrationRolloutPlan {
+		if (targets.length === 0) {
+			throw new Error("A rollout needs at least one target database");
+		}
+		if (!referenceConnectionId) {
+			throw new Error("A rollout needs a reference database to compare each stage with");
+		}
+
+		const seen = new Set<string>();
+		for (const target of targets) {
+			if (target.connectionId === referenceConnectionId) {
+				throw new Error(`${target.environment.name} is the reference database and cannot be a rollout stage`);
+			}
+			if (seen.has(target.connectionId)) {
+				throw new Error(`${target.environment.name} appears more than once in the rollout`);
+			}
+			seen.add(target.connectionId);
+		}
+
+		return {
+			id: crypto.randomUUID(),
+			script,
+			referenceConnectionId,
+			stages: targets.map((target, index) => ({
+				order: index + 1,
+				connectionId: target.connectionId,
+				environment: target.environment,
+				status: "pending",
+			})),
+			status: "pending",
+			createdAt: new Date(),
+		};
+	}
+
+	/**
+	 * Run the pending stages in order. Before every stage that follows a completed one the approval gate is
+	 * asked; declining pauses the plan. A stage that fails, or still differs from the reference on the migrated
+	 * objects afterwards, halts the plan. Running a paused or halted plan again resumes at the first stage
+	 * that has not completed; a drifted stage is only compared again, not migrated twice.
+	 * @returns The same plan, updated in place
+	 */
+	async executeRollout(
+		plan: MigrationRolloutPlan,
+		options: RolloutExecutionOptions = {},
+	): Promise<MigrationRolloutPlan> {
+		if (plan.status === "running") {
+			throw new Error("This rollout is already running");
+		}
+		if (plan.status === "completed") {
+			return plan;
+		}
+
+		plan.status = "running";
+		plan.haltReason = undefined;
+		Logger.info("Starting migration rollout", "executeRollout", {
+			rolloutId: plan.id,
+			scriptId: plan.script.id,
+			stages: plan.stages.map((stage) => stage.environment.name),
+		});
+
+		for (const [index, stage] of plan.stages.entries()) {
+			if (stage.status === "completed") {
+				continue;
+			}
+
+			if (options.cancellationToken?.isCancellationRequested) {
+				plan.status = "paused";
+				Logger.info("Migration rollout cancelled before stage", "executeRollout", {
+					rolloutId: plan.id,
+					stage: stage.environment.name,
+				});
+				return plan;
+			}
+
+			const previous = plan.stages[index - 1];
+			if (previous && options.approve && !(await options.approve(stage, previous, plan))) {
+				plan.status = "paused";
+				Logger.info("Migration rollout paused at approval gate", "executeRollout", {
+					rolloutId: plan.id,
+					stage: stage.environment.name,
+				});
+				return plan;
+			}
+
+			if (!(await this.runStage(plan, stage, options))) {
+				plan.status = "halted";
+				plan.haltReason = `Stage ${stage.order} (${stage.environment.name}) ${stage.status}: ${stage.error}`;
+				Logger.warn("Migration rollout halted", "executeRollout", {
+					rolloutId: plan.id,
+					reason: plan.haltReason,
+				});
+				return plan;
+			}
+		}
+
+		plan.status = "completed";
+		Logger.info("Migration rollout completed", "executeRollout", { rolloutId: plan.id });
+		return plan;
+	}
+
+	/**
+	 * Apply the script to one stage and check that its migrated objects now match the reference
+	 * @returns Whether the stage completed
+	 */
+	private async runStage(
+		plan: MigrationRolloutPlan,
+		stage: RolloutStage,
+		options: RolloutExecutionOptions,
+	): Promise<boolean> {
+		const update = (status: RolloutStageStatus) => {
+			stage.status = status;
+			options.onStageUpdate?.(stage, plan);
+		};
+
+		// A drifted stage already applied the script; resuming it only checks again once the drift is fixed
+		const applied = stage.status === "drifted";
+		stage.startedAt = new Date();
+		stage.completedAt = undefined;
+		stage.drift = undefined;
+		stage.unrelatedDifferenceCount = undefined;
+		stage.error = undefined;
+
+		if (!applied) {
+			stage.executionResult = undefined;
+			update("running");
+			try {
+				stage.executionResult = await this.migrationManager.executeMigrationScript(plan.script, stage.connectionId, {
+					stopOnError: true,
+					transactional: options.transactional,
+					lockGuard: options.lockGuard,
+					acknowledgePreflight: options.acknowledgePreflight,
+					cancellationToken: options.cancellationToken,
+				});
+			} catch (error) {
+				stage.error = (error as Error).message;
+				stage.completedAt = new Date();
+				update("failed");
+				return false;
+			}
+
+			if (stage.executionResult.status === "cancelled") {
+				stage.error = "Cancelled by user";
+				stage.completedAt = new Date();
+				update("cancelled");
+				return false;
+			}
+			if (stage.executionResult.status !== "completed") {
+				stage.error = stage.executionResult.errors?.[0] ?? `${stage.executionResult.failedSteps} step(s) failed`;
+				stage.completedAt = new Date();
+				update("failed");
+				return false;
+			}
+		}
+
+		update("verifying");
+		try {
+			// Cached objects could miss the DDL the stage just applied, or drift fixed before resuming
+			const comparisonOptions: SchemaComparisonOptions = {
+				...(options.getComparisonOptions ? await options.getComparisonOptions(stage) : { mode: "strict" }),
+				fresh: true,
+			};
+			const comparison = await this.schemaComparison.compareSchemas(
+				stage.connectionId,
+				plan.referenceConnectionId,
+				comparisonOptions,
+			);
+			const isMigrated = this.createMigratedObjectMatcher(plan.script);
+			stage.drift = comparison.differences.filter(isMigrated);
+			stage.unrelatedDifferenceCount = comparison.differences.length - stage.drift.length;
+		} catch (error) {
+			stage.error = `Drift check failed: ${(error as Error).message}`;
+			stage.completedAt = new Date();
+			update("failed");
+			return false;
+		}
+
+		stage.completedAt = new Date();
+		if (stage.drift.length > 0) {
+			stage.error = `${stage.drift.length} migrated object(s) still differ from the reference: ${stage.drift
+				.map((difference) => `${difference.objectType} ${difference.schema}.${difference.objectName}`)
+				.join(", ")}`;
+			update("drifted");
+			return false;
+		}
+		update("completed");
+		return true;
+	}
+
+	/**
+	 * Matches differences on objects the script's steps change. Differences elsewhere are environment
+	 * differences the migration was never meant to remove, so they do not count as drift.
+	 */
+	private createMigratedObjectMatcher(script: EnhancedMigrationScript): (difference: SchemaDifference) => boolean {
+		const key = (objectType: string, schema: string, name: string) => `${objectType}:${schema}.${name}`.toLowerCase();
+		const migrated = new Set(script.migrationSteps.map((step) => key(step.objectType, step.schema, step.objectName)));
+
+		return (difference) =>
+			migrated.has(key(difference.objectType, difference.schema, difference.objectName)) ||
+			(!!difference.tableName && migrated.has(key("table", difference.schema, difference.tableName)));
+	}
+}
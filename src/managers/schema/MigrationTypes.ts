@@ -42,8 +42,121 @@ export interface MigrationStep {
 	verificationQuery?: string;
 	preConditions?: PreCondition[];
 	postConditions?: PostCondition[];
+	/**
+	 * False when the step must run outside a transaction block (CREATE INDEX CONCURRENTLY, batched backfills);
+	 * transactional execution commits the open batch before such a step and starts a new one after it
+	 */
+	transactional?: boolean;
+	/** Locks the step's statements take and the size of the relations they lock */
+	lockImpact?: StepLockImpact;
+	/** Set when the step destroys data its rollback cannot bring back, e.g. the rows of a dropped table */
+	irreversibleReason?: string;
+	/** Queries finding existing rows the step would fail on, run before the migration is applied */
+	preflightChecks?: PreflightCheck[];
 }
 
+/**
+ * A query run before a step to find existing rows the step would fail on, such as values that do not
+ * convert to a column's new type or duplicates under a new unique constraint
+ */
+export interface PreflightCheck {
+	id: string;
+	stepId: string;
+	kind: "type_cast" | "not_null" | "unique" | "check" | "foreign_key";
+	/** Schema-qualified table holding the offending rows */
+	table: string;
+	description: string;
+	/** Run before the queries, inside the same transaction, which is always rolled back */
+	setupSql?: string[];
+	/** Returns the number of offending rows in its first column */
+	countQuery: string;
+	/** Returns offending rows, or the offending key values with their counts; LIMIT is appended when run */
+	sampleQuery: string;
+	/** Set once the check has run */
+	result?: PreflightCheckResult;
+}
+
+export interface PreflightCheckResult {
+	violationCount: number;
+	sampleRows: Record<string, unknown>[];
+	checkedAt: Date;
+	/** Set when the check's own queries failed, e.g. because a table it reads is created by the migration */
+	error?: string;
+}
+
+/**
+ * Table-level lock modes, weakest first
+ */
+export type PostgresLockMode =
+	| "ACCESS SHARE"
+	| "ROW SHARE"
+	| "ROW EXCLUSIVE"
+	| "SHARE UPDATE EXCLUSIVE"
+	| "SHARE"
+	| "SHARE ROW EXCLUSIVE"
+	| "EXCLUSIVE"
+	| "ACCESS EXCLUSIVE";
+
+/**
+ * The lock one statement takes on existing relations
+ */
+export interface StatementLockImpact {
+	statement: string;
+	/** Undefined for statements that do not lock existing relations, such as CREATE TABLE */
+	lockMode?: PostgresLockMode;
+	/** Relations the lock is taken on, as written in the statement */
+	relations: string[];
+	/** The whole table is rewritten while the lock is held */
+	rewritesTable: boolean;
+	/** The whole table is read (validation or index build) while the lock is held */
+	scansTable: boolean;
+	note?: string;
+}
+
+export interface RelationSizeEstimate {
+	name: string;
+	/** pg_class.reltuples; undefined when the relation was never analyzed */
+	estimatedRows?: number;
+	/** pg_total_relation_size, including indexes and TOAST */
+	totalBytes?: number;
+}
+
+/**
+ * Lock impact of a migration step: the strongest lock its statements take and what it blocks
+ */
+export interface StepLockImpact {
+	lockMode?: PostgresLockMode;
+	/** ACCESS EXCLUSIVE blocks SELECT on the locked relations */
+	blocksReads: boolean;
+	/** SHARE and stronger modes block INSERT, UPDATE and DELETE */
+	blocksWrites: boolean;
+	rewritesTable: boolean;
+	scansTable: boolean;
+	relations: RelationSizeEstimate[];
+	statements: StatementLockImpact[];
+}
+
+/**
+ * Per-step lock_timeout and statement_timeout for migration execution, with retries for steps
+ * that time out waiting for a lock
+ */
+export interface MigrationLockGuardOptions {
+	/** lock_timeout per statement in milliseconds; 0 waits indefinitely */
+	lockTimeoutMs: number;
+	/** statement_timeout per statement in milliseconds; 0 disables it */
+	statementTimeoutMs: number;
+	/** Times a step is retried after failing with lock_not_available */
+	retries: number;
+	/** Delay before the first retry; doubled for each further retry */
+	retryDelayMs: number;
+}
+
+/**
+ * How DDL is generated: "standard" emits plain statements; "online" emits lock-friendly sequences
+ * (concurrent index builds, NOT VALID constraints validated afterwards, expand/contract type changes)
+ */
+export type MigrationDdlProfile = "standard" | "online";
+
 export interface RollbackScript {
 	isComplete: boolean;
 	steps: RollbackStep[];
@@ -60,6 +173,14 @@ export interface RollbackStep {
 	riskLevel: "low" | "medium" | "high" | "critical";
 	dependencies: string[];
 	verificationSteps: string[];
+	/** The migration step this step reverses */
+	migrationStepId?: string;
+	/** Executable reverse SQL; absent when the step has to be rolled back by hand */
+	sqlScript?: string;
+	/** False when the reverse SQL cannot run inside a transaction block */
+	transactional?: boolean;
+	/** Copied from the migration step: what the rollback restores only as structure, without the data */
+	irreversibleReason?: string;
 }
 
 export interface ValidationStep {
@@ -89,6 +210,7 @@ export interface MigrationMetadata {
 	environment?: string;
 	testingRequired?: boolean;
 	documentationUpdated?: boolean;
+	ddlProfile?: MigrationDdlProfile;
 	completedAt?: string;
 	status?: "running" | "completed" | "failed" | "cancelled";
 	verified?: boolean;
@@ -142,6 +264,49 @@ export interface MigrationExecutionResult {
 	errors?: string[]; // Added for compatibility
 	warnings?: string[]; // Added for compatibility
 	rollbackAvailable?: boolean; // Added for compatibility
+	/** True when the run used one pinned client inside a single transaction */
+	transactional?: boolean;
+	/** partially_committed: a step failed after earlier batches or non-transactional steps had committed */
+	transactionOutcome?: "committed" | "rolled_back" | "partially_committed";
+	/** Steps undone with ROLLBACK TO SAVEPOINT */
+	rolledBackSteps?: string[];
+	failures?: MigrationStatementFailure[];
+	/** Per-step outcome of a dry run, in step order */
+	dryRunSteps?: DryRunStepResult[];
+}
+
+/**
+ * Outcome of one step of a dry run, which executes the script in a transaction that is always rolled back
+ */
+export interface DryRunStepResult {
+	stepId: string;
+	stepOrder: number;
+	name: string;
+	/** skipped: the step cannot run inside a transaction, or what it does is not usable until it commits */
+	status: "passed" | "failed" | "skipped";
+	elapsedMs: number;
+	/** Rows reported by the step's statements, such as the rows a data migration updates */
+	rowCount: number;
+	skipReason?: string;
+	failure?: MigrationStatementFailure;
+}
+
+/**
+ * The statement that failed a migration step, with the reason reported by the server
+ */
+export interface MigrationStatementFailure {
+	stepId: string;
+	stepOrder: number;
+	/** 1-based position of the statement within the step; absent when a pre-condition failed */
+	statementIndex?: number;
+	statement?: string;
+	message: string;
+	/** SQLSTATE error code */
+	sqlState?: string;
+	detail?: string;
+	hint?: string;
+	/** 1-based character offset of the error within the statement */
+	position?: number;
 }
 
 export interface ExecutionLogEntry {
@@ -1,10 +1,23 @@
 import { QueryExecutionService } from "@/services/QueryExecutionService";
 import { ValidationFramework } from "../../core/ValidationFramework";
 import { ConnectionManager } from "../ConnectionManager";
+import { MigrationLedgerLocation } from "./MigrationLedger";
 import { SchemaComparison } from "./SchemaComparison";
 import { SchemaOperations } from "./SchemaOperations";
+import { SchemaComparisonSource } from "./SchemaSnapshotStore";
+export * from "./AttributeDiffer";
+export * from "./ComparisonRulesStore";
+export * from "./DependencyGraph";
+export * from "./LockImpactAnalyzer";
 export * from "./MetadataManagement";
+export * from "./MigrationExporter";
+export * from "./MigrationLedger";
+export * from "./MigrationRollout";
+export * from "./RenameDetector";
 export * from "./SchemaComparison";
+export * from "./SchemaMapper";
+export * from "./SchemaSnapshotStore";
+export * from "./SqlSchemaDirectory";
 export class ModularSchemaManager {
 	private connectionManager: ConnectionManager;
 	private queryService: QueryExecutionService;
@@ -17,18 +30,27 @@ export class ModularSchemaManager {
 		connectionManager: ConnectionManager,
 		queryService: QueryExecutionService,
 		validationFramework: ValidationFramework,
+		getLedgerLocation?: () => MigrationLedgerLocation,
 	) {
 		this.connectionManager = connectionManager;
 		this.queryService = queryService;
 		this.validationFramework = validationFramework;
 		this.schemaOperations = new SchemaOperations(connectionManager);
-		this.schemaComparison = new SchemaComparison(this.schemaOperations);
+		this.schemaComparison = new SchemaComparison(this.schemaOperations, getLedgerLocation);
 	}
 	async getDatabaseObjects(connectionId: string, schemaFilter?: string) {
 		return await this.schemaOperations.getDatabaseObjects(connectionId, schemaFilter);
 	}
 
-	async compareSchemasDetailed(sourceConnectionId: string, targetConnectionId: string, options?: any) {
-		return this.schemaComparison.compareSchemasDetailed(sourceConnectionId, targetConnectionId, options);
+	async compareSchemasDetailed(source: SchemaComparisonSource, target: SchemaComparisonSource, options?: any) {
+		return this.schemaComparison.compareSchemasDetailed(source, target, options);
+	}
+	async compareThreeWay(
+		baseline: SchemaComparisonSource,
+		source: SchemaComparisonSource,
+		target: SchemaComparisonSource,
+		options?: any,
+	) {
+		return this.schemaComparison.compareThreeWay(baseline, source, target, options);
 	}
 }
@@ -0,0 +1,245 @@
+import { DatabaseObject, ObjectType, TableColumnDefinition } from "./SchemaOperations";
+
+/**
+ * Default minimum similarity for a removed/added pair to be reported as a rename
+ */
+export const DEFAULT_RENAME_CONFIDENCE_THRESHOLD = 0.8;
+
+export interface ObjectRenameMatch {
+	source: DatabaseObject;
+	target: DatabaseObject;
+	confidence: number;
+}
+
+export interface ColumnRenameMatch {
+	source: TableColumnDefinition;
+	target: TableColumnDefinition;
+	confidence: number;
+}
+
+/**
+ * Object types whose definitions carry enough detail to tell renames apart.
+ * Sequences, types, triggers and constraints are extracted with placeholder
+ * definitions, so every pair would look identical once the name is stripped.
+ */
+const RENAMEABLE_OBJECT_TYPES: string[] = [
+	ObjectType.Table,
+	ObjectType.View,
+	ObjectType.MaterializedView,
+	ObjectType.Function,
+	ObjectType.Procedure,
+	ObjectType.Index,
+];
+
+/**
+ * RenameDetector - Pairs removed and added objects that are most likely the same object under a new name
+ * Scores are similarity values between 0 and 1; pairs are matched greedily from the highest score down
+ */
+export class RenameDetector {
+	/**
+	 * Match removed source objects to added target objects of the same type and schema
+	 */
+	detectObjectRenames(
+		removed: DatabaseObject[],
+		added: DatabaseObject[],
+		threshold: number = DEFAULT_RENAME_CONFIDENCE_THRESHOLD,
+	): ObjectRenameMatch[] {
+		const candidates: ObjectRenameMatch[] = [];
+
+		for (const source of removed) {
+			if (!RENAMEABLE_OBJECT_TYPES.includes(source.type)) {
+				continue;
+			}
+			for (const target of added) {
+				if (source.type !== target.type || source.schema !== target.schema) {
+					continue;
+				}
+				const confidence = this.scoreObjectPair(source, target);
+				if (confidence >= threshold) {
+					candidates.push({ source, target, confidence });
+				}
+			}
+		}
+
+		return this.pickBestMatches(candidates);
+	}
+
+	/**
+	 * Match dropped columns to added columns between two versions of the same table.
+	 * PostgreSQL keeps a column's position on RENAME COLUMN, so position weighs heavily.
+	 */
+	detectColumnRenames(
+		sourceTable: DatabaseObject,
+		targetTable: DatabaseObject,
+		threshold: number = DEFAULT_RENAME_CONFIDENCE_THRESHOLD,
+	): ColumnRenameMatch[] {
+		const sourceColumns: TableColumnDefinition[] = sourceTable.properties?.columns || [];
+		const targetColumns: TableColumnDefinition[] = targetTable.properties?.columns || [];
+		const targetNames = new Set(targetColumns.map((col) => col.name));
+		const sourceNames = new Set(sourceColumns.map((col) => col.name));
+
+		const dropped = sourceColumns.filter((col) => !targetNames.has(col.name));
+		const addedColumns = targetColumns.filter((col) => !sourceNames.has(col.name));
+		const candidates: ColumnRenameMatch[] = [];
+
+		for (const source of dropped) {
+			for (const target of addedColumns) {
+				if (this.columnSignature(source) !== this.columnSignature(target)) {
+					continue;
+				}
+				let confidence = 0.7;
+				if (source.position === target.position) {
+					confidence += 0.2;
+				}
+				confidence += 0.1 * this.diceCoefficient(source.name.toLowerCase(), target.name.toLowerCase());
+				if (confidence >= threshold) {
+					candidates.push({ source, target, confidence: this.roundConfidence(confidence) });
+				}
+			}
+		}
+
+		return this.pickBestMatches(candidates);
+	}
+
+	/**
+	 * Score how likely two objects of the same type are one object under two names
+	 */
+	private scoreObjectPair(source: DatabaseObject, target: DatabaseObject): number {
+		switch (source.type) {
+			case ObjectType.Table: {
+				const sourceColumns: TableColumnDefinition[] = source.properties?.columns || [];
+				const targetColumns: TableColumnDefinition[] = target.properties?.columns || [];
+				if (sourceColumns.length > 0 || targetColumns.length > 0) {
+					return this.roundConfidence(
+						this.jaccard(
+							sourceColumns.map((col) => `${col.name}|${this.columnSignature(col)}`),
+							targetColumns.map((col) => `${col.name}|${this.columnSignature(col)}`),
+						),
+					);
+				}
+				break;
+			}
+			case ObjectType.Index:
+				if (source.properties?.tableName !== target.properties?.tableName) {
+					return 0;
+				}
+				break;
+			case ObjectType.Function:
+			case ObjectType.Procedure:
+				if ((source.properties?.signature || "") !== (target.properties?.signature || "")) {
+					return 0;
+				}
+				break;
+		}
+
+		return this.roundConfidence(
+			this.diceCoefficient(
+				this.normalizeWithoutName(source.definition, source.name),
+				this.normalizeWithoutName(target.definition, target.name),
+			),
+		);
+	}
+
+	/**
+	 * Greedily keep the highest-scoring pairs so each object is used at most once
+	 */
+	private pickBestMatches<T extends { source: unknown; target: unknown; confidence: number }>(candidates: T[]): T[] {
+		const usedSources = new Set<unknown>();
+		const usedTargets = new Set<unknown>();
+		const matches: T[] = [];
+
+		for (const candidate of [...candidates].sort((a, b) => b.confidence - a.confidence)) {
+			if (usedSources.has(candidate.source) || usedTargets.has(candidate.target)) {
+				continue;
+			}
+			usedSources.add(candidate.source);
+			usedTargets.add(candidate.target);
+			matches.push(candidate);
+		}
+
+		return matches;
+	}
+
+	/**
+	 * Everything about a column except its name and position
+	 */
+	private columnSignature(column: TableColumnDefinition): string {
+		return [
+			column.dataType,
+			column.notNull ? "not null" : "null",
+			column.defaultValue || "",
+			column.identity || "",
+			column.generated || "",
+			column.collation || "",
+		].join("|");
+	}
+
+	/**
+	 * Replace the object's own name so a rename alone does not lower the score
+	 */
+	private normalizeWithoutName(definition: string, name: string): string {
+		const escapedName = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+		return (definition || "")
+			.replace(new RegExp(`"${escapedName}"|\\b${escapedName}\\b`, "gi"), "?")
+			.replace(/\s+/g, " ")
+			.replace(/;\s*$/, "")
+			.trim()
+			.toLowerCase();
+	}
+
+	/**
+	 * Jaccard similarity of two lists treated as multisets
+	 */
+	private jaccard(a: string[], b: string[]): number {
+		if (a.length === 0 && b.length === 0) {
+			return 1;
+		}
+		const counts = new Map<string, number>();
+		for (const item of a) {
+			counts.set(item, (counts.get(item) || 0) + 1);
+		}
+		let intersection = 0;
+		for (const item of b) {
+			const count = counts.get(item) || 0;
+			if (count > 0) {
+				intersection++;
+				counts.set(item, count - 1);
+			}
+		}
+		return intersection / (a.length + b.length - intersection);
+	}
+
+	/**
+	 * Sørensen–Dice coefficient over character bigrams
+	 */
+	private diceCoefficient(a: string, b: string): number {
+		if (a === b) {
+			return 1;
+		}
+		if (a.length < 2 || b.length < 2) {
+			return 0;
+		}
+
+		const bigrams = new Map<string, number>();
+		for (let i = 0; i < a.length - 1; i++) {
+			const bigram = a.substring(i, i + 2);
+			bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+		}
+
+		let intersection = 0;
+		for (let i = 0; i < b.length - 1; i++) {
+			const bigram = b.substring(i, i + 2);
+			const count = bigrams.get(bigram) || 0;
+			if (count > 0) {
+				intersection++;
+				bigrams.set(bigram, count - 1);
+			}
+		}
+
+		return (2 * intersection) / (a.length + b.length - 2);
+	}
+
+	private roundConfidence(value: number): number {
+		return Math.round(value * 100) / 100;
+	}
+}
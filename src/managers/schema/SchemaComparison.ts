@@ -8,7 +8,19 @@ import {
 } from "@/core/PostgreSqlConnectionManager";
 import { Logger } from "@/utils/Logger";
 // DatabaseObject and ObjectType are now defined in SchemaOperations
-import { DatabaseObject, ObjectType, SchemaOperations } from "./SchemaOperations";
+import { AttributeChange, AttributeDiffer, PRIVILEGE_ATTRIBUTE_KINDS } from "./AttributeDiffer";
+import { DEFAULT_MIGRATION_LEDGER_LOCATION, MigrationLedgerLocation } from "./MigrationLedger";
+import {
+	ComparisonRulesStore,
+	IGNORED_ATTRIBUTE_KINDS,
+	IgnorableAttribute,
+	ObjectIgnorePattern,
+} from "./ComparisonRulesStore";
+import { ColumnRenameMatch, DEFAULT_RENAME_CONFIDENCE_THRESHOLD, RenameDetector } from "./RenameDetector";
+import { SchemaMapper, SchemaMapping } from "./SchemaMapper";
+import { DatabaseObject, ObjectType, PrivilegeGrant, SchemaOperations } from "./SchemaOperations";
+import { SchemaComparisonSource, SchemaSnapshotStore } from "./SchemaSnapshotStore";
+import { SQL_DIRECTORY_OBJECT_TYPES, SqlSchemaDirectory } from "./SqlSchemaDirectory";
 
 // Schema comparison interfaces
 export interface SchemaComparisonOptions {
@@ -16,12 +28,29 @@ export interface SchemaComparisonOptions {
 	ignoreSchemas?: string[];
 	objectTypes?: string[];
 	includeSystemObjects?: boolean;
+	detectRenames?: boolean;
+	renameConfidenceThreshold?: number;
+	excludeObjectTypes?: string[];
+	ignoreObjects?: ObjectIgnorePattern[];
+	ignoreAttributes?: IgnorableAttribute[];
+	/** Compare source schemas against differently named target schemas */
+	schemaMapping?: SchemaMapping;
+	/** Compare ACLs and default privileges; defaults to true */
+	includePrivileges?: boolean;
+	/** Rules-file environment whose overrides were applied */
+	environment?: string;
+	/** Read live connections from the catalog instead of the schema cache, e.g. right after a migration */
+	fresh?: boolean;
 }
 
 export interface SchemaComparisonResult {
 	comparisonId: string;
 	sourceConnectionId: string;
 	targetConnectionId: string;
+	sourceSnapshotPath?: string;
+	targetSnapshotPath?: string;
+	sourceSqlDirectory?: string;
+	targetSqlDirectory?: string;
 	sourceObjectCount: number;
 	targetObjectCount: number;
 	differences: SchemaDifference[];
@@ -31,13 +60,52 @@ export interface SchemaComparisonResult {
 }
 
 export interface SchemaDifference {
-	type: "Added" | "Removed" | "Modified";
+	type: "Added" | "Removed" | "Modified" | "Renamed";
 	objectType: string;
 	objectName: string;
 	schema: string;
+	/** Target schema the object was compared against when it differs from schema; definitions use schema */
+	targetSchema?: string;
 	sourceDefinition?: string;
 	targetDefinition?: string;
 	differenceDetails: string[];
+	/** Catalog-level changes for Modified and Renamed objects */
+	attributeChanges?: AttributeChange[];
+	/** Source-side name of a renamed object; objectName holds the target-side name */
+	previousName?: string;
+	/** Rename similarity score between 0 and 1 */
+	renameConfidence?: number;
+	/** Owning table for column-level differences */
+	tableName?: string;
+	/** Identity arguments for function differences */
+	signature?: string;
+	/** "privileges" for differences that only grant or revoke ACL entries; structural differences leave it unset */
+	category?: "privileges";
+	/** Which side changed the object since the baseline, set by three-way comparisons */
+	threeWay?: ThreeWayDifferenceInfo;
+}
+
+/**
+ * source-only: only the source changed since the baseline, so migrating would revert it.
+ * target-only: only the target changed, so migrating carries the change over.
+ * conflict: both sides changed the object in different ways.
+ */
+export type ThreeWayOrigin = "source-only" | "target-only" | "conflict";
+
+export interface ThreeWayDifferenceInfo {
+	origin: ThreeWayOrigin;
+	/** Baseline definition of the object, when the baseline has it */
+	baselineDefinition?: string;
+	/** How a conflict was settled; unresolved conflicts are left out of migrations */
+	resolution?: "keep-source" | "take-target";
+}
+
+export interface ThreeWayComparisonResult extends SchemaComparisonResult {
+	baselineObjectCount: number;
+	baselineConnectionId: string;
+	baselineSnapshotPath?: string;
+	baselineSqlDirectory?: string;
+	originCounts: Record<ThreeWayOrigin, number>;
 }
 
 export interface ColumnComparisonDetail {
@@ -200,45 +268,72 @@ export interface EnvironmentRecommendation {
  */
 export class SchemaComparison {
 	private schemaOperations: SchemaOperations;
+	private snapshotStore: SchemaSnapshotStore;
+	private sqlDirectory: SqlSchemaDirectory;
+	private renameDetector: RenameDetector;
+	private attributeDiffer: AttributeDiffer;
+	private schemaMapper: SchemaMapper;
 
-	constructor(schemaOperations: SchemaOperations) {
+	/**
+	 * @param getLedgerLocation - Where migrations are recorded; the ledger table is never compared
+	 */
+	constructor(
+		schemaOperations: SchemaOperations,
+		private getLedgerLocation: () => MigrationLedgerLocation = () => DEFAULT_MIGRATION_LEDGER_LOCATION,
+	) {
 		this.schemaOperations = schemaOperations;
+		this.snapshotStore = new SchemaSnapshotStore();
+		this.sqlDirectory = new SqlSchemaDirectory(schemaOperations);
+		this.renameDetector = new RenameDetector();
+		this.attributeDiffer = new AttributeDiffer();
+		this.schemaMapper = new SchemaMapper();
 	}
 
 	/**
-	 * Compare schemas between two database connections
+	 * Compare schemas between two sources, each a connection ID, a snapshot file or a folder of SQL files
 	 */
 	async compareSchemas(
-		sourceConnectionId: string,
-		targetConnectionId: string,
+		source: SchemaComparisonSource,
+		target: SchemaComparisonSource,
 		options: SchemaComparisonOptions = { mode: "strict" },
 	): Promise<SchemaComparisonResult> {
 		try {
+			if (SqlSchemaDirectory.isSqlDirectoryReference(source) || SqlSchemaDirectory.isSqlDirectoryReference(target)) {
+				options = this.withSqlDirectoryOptions(options);
+			}
+
 			Logger.info("Comparing schemas", "compareSchemas", {
-				sourceConnectionId,
-				targetConnectionId,
+				source,
+				target,
 				mode: options.mode,
 			});
 
 			const comparisonStart = Date.now();
 
-			// Get objects from both connections
-			const [sourceObjects, targetObjects] = await Promise.all([
-				this.schemaOperations.getDatabaseObjectsWithCache(sourceConnectionId),
-				this.schemaOperations.getDatabaseObjectsWithCache(targetConnectionId),
+			// Get objects from both sides
+			const [loadedSource, loadedTarget] = await Promise.all([
+				this.loadComparisonObjects(source, options.fresh),
+				this.loadComparisonObjects(target, options.fresh),
 			]);
+			// A SQL folder has no connection of its own; it stands in for the database it is compared against
+			const sourceSide = { ...loadedSource, connectionId: loadedSource.connectionId || loadedTarget.connectionId };
+			const targetSide = { ...loadedTarget, connectionId: loadedTarget.connectionId || loadedSource.connectionId };
 
 			// Filter objects based on options
-			const filteredSource = this.filterObjects(sourceObjects, options);
-			const filteredTarget = this.filterObjects(targetObjects, options);
+			const filteredSource = this.filterObjects(sourceSide.objects, options);
+			const filteredTarget = this.filterObjects(targetSide.objects, options);
 
 			// Perform comparison
-			const differences = this.compareObjectArrays(filteredSource, filteredTarget, options.mode);
+			const differences = this.diffObjects(filteredSource, filteredTarget, options);
 
 			const result: SchemaComparisonResult = {
 				comparisonId: this.generateId(),
-				sourceConnectionId,
-				targetConnectionId,
+				sourceConnectionId: sourceSide.connectionId,
+				targetConnectionId: targetSide.connectionId,
+				sourceSnapshotPath: sourceSide.snapshotPath,
+				targetSnapshotPath: targetSide.snapshotPath,
+				sourceSqlDirectory: sourceSide.sqlDirectory,
+				targetSqlDirectory: targetSide.sqlDirectory,
 				sourceObjectCount: filteredSource.length,
 				targetObjectCount: filteredTarget.length,
 				differences,
@@ -259,23 +354,130 @@ export class SchemaComparison {
 		}
 	}
 
+	/**
+	 * Compare two sources against a common baseline. Every source/target difference is tagged with the side
+	 * that changed the object since the baseline, so a migration can leave out changes made only on the
+	 * source (which it would otherwise revert) and stop on objects both sides changed.
+	 * The baseline uses the source's schema names when a schema mapping is set.
+	 */
+	async compareThreeWay(
+		baseline: SchemaComparisonSource,
+		source: SchemaComparisonSource,
+		target: SchemaComparisonSource,
+		options: SchemaComparisonOptions = { mode: "strict" },
+	): Promise<ThreeWayComparisonResult> {
+		try {
+			Logger.info("Comparing schemas against a baseline", "compareThreeWay", {
+				baseline,
+				source,
+				target,
+				mode: options.mode,
+			});
+
+			if ([baseline, source, target].some((side) => SqlSchemaDirectory.isSqlDirectoryReference(side))) {
+				options = this.withSqlDirectoryOptions(options);
+			}
+			const comparisonStart = Date.now();
+
+			const [baselineSide, sourceSide, targetSide] = await Promise.all([
+				this.loadComparisonObjects(baseline, options.fresh),
+				this.loadComparisonObjects(source, options.fresh),
+				this.loadComparisonObjects(target, options.fresh),
+			]);
+			const filteredBaseline = this.filterObjects(baselineSide.objects, options);
+			const filteredSource = this.filterObjects(sourceSide.objects, options);
+			const filteredTarget = this.filterObjects(targetSide.objects, options);
+
+			const { schemaMapping: _schemaMapping, ...unmappedOptions } = options;
+			const sourceChanges = this.collectDifferenceKeys(
+				this.compareObjectArrays(filteredBaseline, filteredSource, unmappedOptions),
+			);
+			const targetChanges = this.collectDifferenceKeys(this.diffObjects(filteredBaseline, filteredTarget, options));
+			const baselineMap = new Map(filteredBaseline.map((obj) => [this.getObjectKey(obj), obj]));
+
+			const originCounts: Record<ThreeWayOrigin, number> = { "source-only": 0, "target-only": 0, conflict: 0 };
+			const differences = this.diffObjects(filteredSource, filteredTarget, options).map((diff) => {
+				const keys = this.getDifferenceKeys(diff);
+				const changedOnSource = keys.some((key) => sourceChanges.has(key));
+				const changedOnTarget = keys.some((key) => targetChanges.has(key));
+				// Neither side moved away from the baseline: the objects already differed when it was taken
+				const origin: ThreeWayOrigin =
+					changedOnSource && changedOnTarget ? "conflict" : changedOnSource ? "source-only" : "target-only";
+				originCounts[origin]++;
+
+				const baselineObj = keys.map((key) => baselineMap.get(key.slice(key.indexOf("|") + 1))).find(Boolean);
+				return {
+					...diff,
+					threeWay: { origin, baselineDefinition: baselineObj?.definition || undefined },
+				};
+			});
+
+			const connectionId = (side: { connectionId: string }) =>
+				side.connectionId || sourceSide.connectionId || targetSide.connectionId;
+			const result: ThreeWayComparisonResult = {
+				comparisonId: this.generateId(),
+				sourceConnectionId: connectionId(sourceSide),
+				targetConnectionId: connectionId(targetSide),
+				baselineConnectionId: connectionId(baselineSide),
+				sourceSnapshotPath: sourceSide.snapshotPath,
+				targetSnapshotPath: targetSide.snapshotPath,
+				baselineSnapshotPath: baselineSide.snapshotPath,
+				sourceSqlDirectory: sourceSide.sqlDirectory,
+				targetSqlDirectory: targetSide.sqlDirectory,
+				baselineSqlDirectory: baselineSide.sqlDirectory,
+				sourceObjectCount: filteredSource.length,
+				targetObjectCount: filteredTarget.length,
+				baselineObjectCount: filteredBaseline.length,
+				differences,
+				originCounts,
+				comparisonMode: options.mode,
+				createdAt: new Date(),
+				executionTime: Date.now() - comparisonStart,
+			};
+
+			Logger.info("Three-way schema comparison completed", "compareThreeWay", {
+				comparisonId: result.comparisonId,
+				differenceCount: differences.length,
+				...originCounts,
+			});
+
+			return result;
+		} catch (error) {
+			Logger.error("Three-way schema comparison failed", error as Error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Differences a migration should apply: everything from two-way comparisons, and from three-way
+	 * comparisons only target-side changes and conflicts settled in the target's favour
+	 */
+	static selectMigratedDifferences<T extends Pick<SchemaDifference, "threeWay">>(differences: T[]): T[] {
+		return differences.filter(
+			(diff) =>
+				!diff.threeWay ||
+				diff.threeWay.origin === "target-only" ||
+				(diff.threeWay.origin === "conflict" && diff.threeWay.resolution === "take-target"),
+		);
+	}
+
 	/**
 	 * Perform detailed schema comparison with metadata extraction
 	 */
 	async compareSchemasDetailed(
-		sourceConnectionId: string,
-		targetConnectionId: string,
+		source: SchemaComparisonSource,
+		target: SchemaComparisonSource,
 		options: SchemaComparisonOptions = { mode: "strict" },
 	): Promise<DetailedSchemaComparisonResult> {
 		try {
 			Logger.info("Starting detailed schema comparison", "compareSchemasDetailed", {
-				sourceConnectionId,
-				targetConnectionId,
+				source,
+				target,
 				mode: options.mode,
 			});
 
 			// Get basic comparison first
-			const basicResult = await this.compareSchemas(sourceConnectionId, targetConnectionId, options);
+			const basicResult = await this.compareSchemas(source, target, options);
 
 			// Initialize detailed comparison components
 			const columnComparisons = new Map<string, ColumnComparisonDetail[]>();
@@ -283,9 +485,38 @@ export class SchemaComparison {
 			const constraintComparisons = new Map<string, ConstraintDifference[]>();
 			const viewDependencies = new Map<string, ViewDependencyNode>();
 
+			// Catalog-level metadata can only be extracted when both sides are live connections
+			if (typeof source !== "string" || typeof target !== "string") {
+				Logger.info(
+					"Skipping catalog metadata comparison for snapshot or SQL folder source",
+					"compareSchemasDetailed",
+					{
+						comparisonId: basicResult.comparisonId,
+					},
+				);
+				return {
+					...basicResult,
+					columnComparisons,
+					indexComparisons,
+					constraintComparisons,
+					viewDependencies,
+				};
+			}
+			const sourceConnectionId = source;
+			const targetConnectionId = target;
+
+			// Catalog detail pairs objects by identical schema name, so mapped schemas are left to the object comparison
+			const mappedSchemas = new Set(
+				SchemaMapper.toPairs(options.schemaMapping || {}).flatMap((pair) => [pair.sourceSchema, pair.targetSchema]),
+			);
+
 			// Get all tables for detailed comparison
-			const sourceTables = await this.schemaOperations.getDatabaseObjects(sourceConnectionId, undefined);
-			const targetTables = await this.schemaOperations.getDatabaseObjects(targetConnectionId, undefined);
+			const sourceTables = (await this.schemaOperations.getDatabaseObjects(sourceConnectionId, undefined)).filter(
+				(obj) => !mappedSchemas.has(obj.schema),
+			);
+			const targetTables = (await this.schemaOperations.getDatabaseObjects(targetConnectionId, undefined)).filter(
+				(obj) => !mappedSchemas.has(obj.schema),
+			);
 
 			const allTableNames = new Set([
 				...sourceTables.filter((obj) => obj.type === ObjectType.Table).map((obj) => `${obj.schema}.${obj.name}`),
@@ -778,6 +1009,55 @@ export class SchemaComparison {
 		return differences;
 	}
 
+	/**
+	 * Load the objects for one side of a comparison from a live connection, a snapshot file or a SQL folder
+	 * @param fresh - Bypass the schema cache for a live connection; the fresh read replaces the cached one
+	 */
+	private async loadComparisonObjects(
+		source: SchemaComparisonSource,
+		fresh = false,
+	): Promise<{ objects: DatabaseObject[]; connectionId: string; snapshotPath?: string; sqlDirectory?: string }> {
+		if (SqlSchemaDirectory.isSqlDirectoryReference(source)) {
+			const { objects } = await this.sqlDirectory.loadDirectory(source.sqlDirectory);
+			return {
+				objects,
+				connectionId: "",
+				sqlDirectory: source.sqlDirectory,
+			};
+		}
+
+		if (SchemaSnapshotStore.isSnapshotReference(source)) {
+			const { snapshot, objects } = await this.snapshotStore.loadSnapshot(source.snapshotPath);
+			return {
+				objects,
+				connectionId: snapshot.connectionId,
+				snapshotPath: source.snapshotPath,
+			};
+		}
+
+		if (fresh) {
+			this.schemaOperations.invalidateCache(source);
+		}
+		return {
+			objects: await this.schemaOperations.getDatabaseObjectsWithCache(source),
+			connectionId: source,
+		};
+	}
+
+	/**
+	 * SQL files carry no owners, sizes or grants, and only describe the object types the folder reader supports,
+	 * so everything else is left out rather than reported as dropped
+	 */
+	private withSqlDirectoryOptions(options: SchemaComparisonOptions): SchemaComparisonOptions {
+		const unsupportedTypes = Object.values(ObjectType).filter((type) => !SQL_DIRECTORY_OBJECT_TYPES.includes(type));
+		return {
+			...options,
+			includePrivileges: false,
+			ignoreAttributes: Array.from(new Set([...(options.ignoreAttributes || []), "owner" as const, "size" as const])),
+			excludeObjectTypes: Array.from(new Set([...(options.excludeObjectTypes || []), ...unsupportedTypes])),
+		};
+	}
+
 	/**
 	 * Filter objects based on comparison options
 	 */
@@ -793,6 +1073,18 @@ export class SchemaComparison {
 		if (options.objectTypes && options.objectTypes.length > 0) {
 			filtered = filtered.filter((obj) => options.objectTypes!.includes(obj.type));
 		}
+		if (options.excludeObjectTypes && options.excludeObjectTypes.length > 0) {
+			filtered = filtered.filter((obj) => !options.excludeObjectTypes!.includes(obj.type));
+		}
+		if (!this.comparesPrivileges(options)) {
+			filtered = filtered.filter((obj) => obj.type !== ObjectType.DefaultPrivileges);
+		}
+
+		// Filter by name patterns from the rules file
+		if (options.ignoreObjects && options.ignoreObjects.length > 0) {
+			const isIgnored = ComparisonRulesStore.compileObjectPatterns(options.ignoreObjects);
+			filtered = filtered.filter((obj) => !isIgnored(obj));
+		}
 
 		// Filter system objects
 		if (!options.includeSystemObjects) {
@@ -800,16 +1092,98 @@ export class SchemaComparison {
 			filtered = filtered.filter((obj) => !systemSchemas.includes(obj.schema));
 		}
 
+		// The ledger only exists where migrations ran; a migration generated from it would drop the history
+		const ledger = this.getLedgerLocation();
+		filtered = filtered.filter(
+			(obj) =>
+				obj.schema !== ledger.schema ||
+				(obj.properties?.tableName !== ledger.table && !(obj.type === ObjectType.Table && obj.name === ledger.table)),
+		);
+
 		return filtered;
 	}
 
+	private diffObjects(
+		source: DatabaseObject[],
+		target: DatabaseObject[],
+		options: SchemaComparisonOptions,
+	): SchemaDifference[] {
+		return options.schemaMapping && Object.keys(options.schemaMapping).length > 0
+			? this.compareMappedSchemas(source, target, options)
+			: this.compareObjectArrays(source, target, options);
+	}
+
+	/**
+	 * Keys of every object a set of differences touches
+	 */
+	private collectDifferenceKeys(differences: SchemaDifference[]): Set<string> {
+		return new Set(differences.flatMap((diff) => this.getDifferenceKeys(diff)));
+	}
+
+	/**
+	 * Object keys for a difference, prefixed with its category so privilege and structural changes stay apart.
+	 * Renames yield both names.
+	 */
+	private getDifferenceKeys(diff: SchemaDifference): string[] {
+		const names =
+			diff.type === "Renamed" && diff.previousName ? [diff.previousName, diff.objectName] : [diff.objectName];
+		return names.map((name) => {
+			const table = diff.objectType !== ObjectType.Index && diff.tableName ? `${diff.tableName}.` : "";
+			const signature = diff.signature !== undefined ? `(${diff.signature})` : "";
+			return `${diff.category || ""}|${diff.objectType}:${diff.schema}:${table}${name}${signature}`;
+		});
+	}
+
+	/**
+	 * Compare with a schema mapping: each mapped pair is compared separately after moving the
+	 * target objects into the source schema, and unmapped schemas still match by identical name
+	 */
+	private compareMappedSchemas(
+		source: DatabaseObject[],
+		target: DatabaseObject[],
+		options: SchemaComparisonOptions,
+	): SchemaDifference[] {
+		const pairs = SchemaMapper.toPairs(options.schemaMapping || {});
+		const mappedSchemas = new Set(pairs.flatMap((pair) => [pair.sourceSchema, pair.targetSchema]));
+
+		const differences = this.compareObjectArrays(
+			source.filter((obj) => !mappedSchemas.has(obj.schema)),
+			target.filter((obj) => !mappedSchemas.has(obj.schema)),
+			options,
+		);
+
+		for (const pair of pairs) {
+			const remappedTarget = target
+				.filter((obj) => obj.schema === pair.targetSchema)
+				.map((obj) => this.schemaMapper.remapObject(obj, pair.targetSchema, pair.sourceSchema));
+			const pairDifferences = this.compareObjectArrays(
+				source.filter((obj) => obj.schema === pair.sourceSchema),
+				remappedTarget,
+				options,
+			);
+
+			if (pair.targetSchema === pair.sourceSchema) {
+				differences.push(...pairDifferences);
+				continue;
+			}
+			differences.push(...pairDifferences.map((diff) => ({ ...diff, targetSchema: pair.targetSchema })));
+		}
+
+		Logger.info("Mapped schema comparison completed", "compareMappedSchemas", {
+			mappings: pairs.map((pair) => `${pair.sourceSchema} -> ${pair.targetSchema}`),
+			differenceCount: differences.length,
+		});
+
+		return differences;
+	}
+
 	/**
 	 * Compare object arrays to find differences
 	 */
 	private compareObjectArrays(
 		source: DatabaseObject[],
 		target: DatabaseObject[],
-		mode: "strict" | "lenient",
+		options: SchemaComparisonOptions,
 	): SchemaDifference[] {
 		const differences: SchemaDifference[] = [];
 
@@ -818,51 +1192,190 @@ export class SchemaComparison {
 		const targetMap = new Map<string, DatabaseObject>();
 
 		source.forEach((obj) => {
-			const key = `${obj.type}:${obj.schema}:${obj.name}`;
-			sourceMap.set(key, obj);
+			sourceMap.set(this.getObjectKey(obj), obj);
 		});
 
 		target.forEach((obj) => {
-			const key = `${obj.type}:${obj.schema}:${obj.name}`;
-			targetMap.set(key, obj);
+			targetMap.set(this.getObjectKey(obj), obj);
 		});
 
-		// Find added, removed, and modified objects
+		const removedObjects: DatabaseObject[] = [];
+		const addedObjects: DatabaseObject[] = [];
+		const modifiedPairs: Array<{ source: DatabaseObject; target: DatabaseObject }> = [];
+		const comparePrivileges = this.comparesPrivileges(options);
+
+		// Find removed and modified objects
 		for (const [key, sourceObj] of Array.from(sourceMap)) {
 			const targetObj = targetMap.get(key);
 
 			if (!targetObj) {
-				differences.push({
-					type: "Removed",
-					objectType: sourceObj.type,
-					objectName: sourceObj.name,
-					schema: sourceObj.schema,
-					sourceDefinition: sourceObj.definition || undefined,
-					differenceDetails: ["Object exists in source but not in target"],
-				});
-			} else if (this.objectsDiffer(sourceObj, targetObj, mode)) {
-				differences.push({
-					type: "Modified",
-					objectType: sourceObj.type,
-					objectName: sourceObj.name,
-					schema: sourceObj.schema,
-					sourceDefinition: sourceObj.definition || undefined,
-					targetDefinition: targetObj.definition || undefined,
-					differenceDetails: this.getDifferenceDetails(sourceObj, targetObj, mode),
-				});
+				removedObjects.push(sourceObj);
+				continue;
+			}
+			if (sourceObj.type !== ObjectType.DefaultPrivileges && this.objectsDiffer(sourceObj, targetObj, options)) {
+				modifiedPairs.push({ source: sourceObj, target: targetObj });
+			}
+			if (comparePrivileges) {
+				differences.push(
+					...this.comparePrivileges(
+						targetObj,
+						sourceObj.properties?.privileges || [],
+						targetObj.properties?.privileges || [],
+					),
+				);
 			}
 		}
 
 		// Find added objects
 		for (const [key, targetObj] of Array.from(targetMap)) {
 			if (!sourceMap.has(key)) {
+				addedObjects.push(targetObj);
+			}
+		}
+
+		// Pair up drop+add combinations that are really renames
+		const detectRenames = options.detectRenames !== false;
+		const threshold = options.renameConfidenceThreshold ?? DEFAULT_RENAME_CONFIDENCE_THRESHOLD;
+		const objectRenames = detectRenames
+			? this.renameDetector.detectObjectRenames(removedObjects, addedObjects, threshold)
+			: [];
+		const renamedSources = new Set(objectRenames.map((match) => match.source));
+		const renamedTargets = new Set(objectRenames.map((match) => match.target));
+
+		// Column renames inside tables that exist on both sides
+		const columnRenames = new Map<DatabaseObject, ColumnRenameMatch[]>();
+		if (detectRenames) {
+			for (const pair of [...modifiedPairs, ...objectRenames]) {
+				if (pair.source.type !== ObjectType.Table) {
+					continue;
+				}
+				const matches = this.renameDetector.detectColumnRenames(pair.source, pair.target, threshold);
+				if (matches.length > 0) {
+					columnRenames.set(pair.target, matches);
+				}
+			}
+		}
+
+		for (const { source: sourceObj, target: targetObj } of modifiedPairs) {
+			const renames = columnRenames.get(targetObj) || [];
+			// Privilege changes are reported as their own difference above
+			const attributeChanges = this.filterIgnoredAttributes(
+				this.attributeDiffer.diff(sourceObj, targetObj, this.toRenameMap(renames)),
+				options,
+			).filter((change) => !PRIVILEGE_ATTRIBUTE_KINDS.includes(change.kind));
+
+			// A table whose only change is a column rename is fully described by the rename itself
+			if (attributeChanges.length === 0 && renames.length > 0) {
+				continue;
+			}
+			// SQL file text that differs from the database only in formatting
+			if (
+				attributeChanges.length === 0 &&
+				(sourceObj.properties?.definitionOnly || targetObj.properties?.definitionOnly)
+			) {
+				continue;
+			}
+
+			differences.push({
+				type: "Modified",
+				objectType: sourceObj.type,
+				objectName: sourceObj.name,
+				schema: sourceObj.schema,
+				sourceDefinition: sourceObj.definition || undefined,
+				targetDefinition: targetObj.definition || undefined,
+				differenceDetails: this.getDifferenceDetails(sourceObj, targetObj, options, attributeChanges),
+				attributeChanges,
+				tableName: sourceObj.properties?.tableName,
+				signature: sourceObj.properties?.signature,
+			});
+		}
+
+		for (const match of objectRenames) {
+			const renames = columnRenames.get(match.target) || [];
+			const attributeChanges = this.filterIgnoredAttributes(
+				this.attributeDiffer.diff(match.source, match.target, this.toRenameMap(renames)),
+				options,
+			).filter((change) => !PRIVILEGE_ATTRIBUTE_KINDS.includes(change.kind));
+			if (comparePrivileges) {
+				differences.push(
+					...this.comparePrivileges(
+						match.target,
+						match.source.properties?.privileges || [],
+						match.target.properties?.privileges || [],
+					),
+				);
+			}
+			differences.push({
+				type: "Renamed",
+				objectType: match.source.type,
+				objectName: match.target.name,
+				previousName: match.source.name,
+				schema: match.source.schema,
+				sourceDefinition: match.source.definition || undefined,
+				targetDefinition: match.target.definition || undefined,
+				renameConfidence: match.confidence,
+				tableName: match.source.properties?.tableName,
+				signature: match.source.properties?.signature,
+				attributeChanges,
+				differenceDetails: [
+					`Renamed from ${match.source.name} to ${match.target.name} (${Math.round(match.confidence * 100)}% confidence)`,
+					...attributeChanges.map((change) => change.description),
+				],
+			});
+		}
+
+		for (const sourceObj of removedObjects.filter((obj) => !renamedSources.has(obj))) {
+			differences.push({
+				type: "Removed",
+				objectType: sourceObj.type,
+				objectName: sourceObj.name,
+				schema: sourceObj.schema,
+				sourceDefinition: sourceObj.definition || undefined,
+				tableName: sourceObj.properties?.tableName,
+				signature: sourceObj.properties?.signature,
+				differenceDetails: ["Object exists in source but not in target"],
+				...(sourceObj.type === ObjectType.DefaultPrivileges ? { category: "privileges" as const } : {}),
+			});
+		}
+
+		for (const targetObj of addedObjects.filter((obj) => !renamedTargets.has(obj))) {
+			differences.push({
+				type: "Added",
+				objectType: targetObj.type,
+				objectName: targetObj.name,
+				schema: targetObj.schema,
+				targetDefinition: targetObj.definition || undefined,
+				tableName: targetObj.properties?.tableName,
+				signature: targetObj.properties?.signature,
+				differenceDetails: ["Object exists in target but not in source"],
+				...(targetObj.type === ObjectType.DefaultPrivileges ? { category: "privileges" as const } : {}),
+			});
+
+			// A new object starts with the built-in privileges; grant or revoke whatever the target has beyond them
+			if (comparePrivileges && targetObj.type !== ObjectType.DefaultPrivileges) {
+				differences.push(
+					...this.comparePrivileges(
+						targetObj,
+						this.attributeDiffer.builtInPrivileges(targetObj.type),
+						targetObj.properties?.privileges || [],
+					),
+				);
+			}
+		}
+
+		for (const [targetTable, matches] of Array.from(columnRenames)) {
+			for (const match of matches) {
 				differences.push({
-					type: "Added",
-					objectType: targetObj.type,
-					objectName: targetObj.name,
-					schema: targetObj.schema,
-					targetDefinition: targetObj.definition || undefined,
-					differenceDetails: ["Object exists in target but not in source"],
+					type: "Renamed",
+					objectType: "column",
+					objectName: match.target.name,
+					previousName: match.source.name,
+					schema: targetTable.schema,
+					tableName: targetTable.name,
+					renameConfidence: match.confidence,
+					differenceDetails: [
+						`Column ${targetTable.name}.${match.source.name} renamed to ${match.target.name} (${Math.round(match.confidence * 100)}% confidence)`,
+					],
 				});
 			}
 		}
@@ -871,23 +1384,120 @@ export class SchemaComparison {
 	}
 
 	/**
-	 * Check if two objects differ based on comparison mode
+	 * Identity used to pair objects across both sides. Triggers, policies and rules are only unique per table,
+	 * and functions, aggregates and operators per argument list, so those parts join the key.
+	 */
+	private getObjectKey(obj: DatabaseObject): string {
+		const table = obj.type !== ObjectType.Index && obj.properties?.tableName ? `${obj.properties.tableName}.` : "";
+		const signature = obj.properties?.signature !== undefined ? `(${obj.properties.signature})` : "";
+		return `${obj.type}:${obj.schema}:${table}${obj.name}${signature}`;
+	}
+
+	/**
+	 * Privileges are compared unless switched off or ignored through the rules file's "grants" attribute
+	 */
+	private comparesPrivileges(options: SchemaComparisonOptions): boolean {
+		return options.includePrivileges !== false && !options.ignoreAttributes?.includes("grants");
+	}
+
+	/**
+	 * Build the privileges difference for one object, or nothing when its ACLs already match
+	 */
+	private comparePrivileges(
+		targetObj: DatabaseObject,
+		sourcePrivileges: PrivilegeGrant[],
+		targetPrivileges: PrivilegeGrant[],
+	): SchemaDifference[] {
+		const attributeChanges = this.attributeDiffer.diffPrivileges(sourcePrivileges, targetPrivileges);
+		if (attributeChanges.length === 0) {
+			return [];
+		}
+
+		return [
+			{
+				type: "Modified",
+				category: "privileges",
+				objectType: targetObj.type,
+				objectName: targetObj.name,
+				schema: targetObj.schema,
+				tableName: targetObj.properties?.tableName,
+				signature: targetObj.properties?.signature,
+				attributeChanges,
+				differenceDetails: attributeChanges.map((change) => change.description),
+			},
+		];
+	}
+
+	/**
+	 * Drop attribute changes for attributes the rules file ignores
 	 */
-	private objectsDiffer(source: DatabaseObject, target: DatabaseObject, mode: "strict" | "lenient"): boolean {
-		if (mode === "strict") {
+	private filterIgnoredAttributes(changes: AttributeChange[], options: SchemaComparisonOptions): AttributeChange[] {
+		const ignoredKinds = new Set((options.ignoreAttributes || []).flatMap((attr) => IGNORED_ATTRIBUTE_KINDS[attr]));
+		return ignoredKinds.size > 0 ? changes.filter((change) => !ignoredKinds.has(change.kind)) : changes;
+	}
+
+	/**
+	 * Map old column names to new ones so attribute diffs line renamed columns up
+	 */
+	private toRenameMap(matches: ColumnRenameMatch[]): Map<string, string> {
+		return new Map(matches.map((match) => [match.source.name, match.target.name]));
+	}
+
+	/**
+	 * Check if two objects differ based on comparison mode and ignored attributes
+	 */
+	private objectsDiffer(source: DatabaseObject, target: DatabaseObject, options: SchemaComparisonOptions): boolean {
+		const ignored = new Set(options.ignoreAttributes || []);
+		const sourceDefinition = this.stripIgnoredAttributes(source, ignored);
+		const targetDefinition = this.stripIgnoredAttributes(target, ignored);
+
+		if (options.mode === "strict") {
 			return (
-				source.definition !== target.definition ||
-				source.owner !== target.owner ||
-				source.sizeInBytes !== target.sizeInBytes
+				sourceDefinition !== targetDefinition ||
+				(!ignored.has("owner") && source.owner !== target.owner) ||
+				(!ignored.has("size") && this.sizesDiffer(source, target))
 			);
 		} else {
 			// Lenient mode: ignore formatting and whitespace differences
-			const sourceDef = this.normalizeDefinition(source.definition || "");
-			const targetDef = this.normalizeDefinition(target.definition || "");
+			const sourceDef = this.normalizeDefinition(sourceDefinition);
+			const targetDef = this.normalizeDefinition(targetDefinition);
 			return sourceDef !== targetDef;
 		}
 	}
 
+	/**
+	 * Sizes only differ when both sides have one; snapshots do not store sizes
+	 */
+	private sizesDiffer(source: DatabaseObject, target: DatabaseObject): boolean {
+		return (
+			source.sizeInBytes !== undefined && target.sizeInBytes !== undefined && source.sizeInBytes !== target.sizeInBytes
+		);
+	}
+
+	/**
+	 * Remove ignored attributes from a definition before it is compared
+	 */
+	private stripIgnoredAttributes(obj: DatabaseObject, ignored: Set<IgnorableAttribute>): string {
+		let definition = obj.definition || "";
+
+		if (ignored.has("comment")) {
+			definition = definition.replace(/^COMMENT ON (?:[^';]|'(?:[^']|'')*')*;[ \t]*\n?/gm, "");
+		}
+		if (ignored.has("tablespace")) {
+			definition = definition.replace(/\s+TABLESPACE\s+(?:"(?:[^"]|"")*"|\w+)/g, "");
+		}
+		if (ignored.has("columnOrder") && obj.type === ObjectType.Table) {
+			// Canonical table DDL has one column, constraint or statement per line, so order-insensitive means line-set equality
+			definition = definition
+				.split("\n")
+				.map((line) => line.trim().replace(/,$/, ""))
+				.sort()
+				.join("\n");
+		}
+
+		return definition.trim();
+	}
+
 	/**
 	 * Normalize definition for comparison
 	 */
@@ -902,16 +1512,19 @@ export class SchemaComparison {
 	/**
 	 * Get detailed difference information
 	 */
-	private getDifferenceDetails(source: DatabaseObject, target: DatabaseObject, _mode: "strict" | "lenient"): string[] {
-		const details: string[] = [];
-
-		if (source.definition !== target.definition) {
+	private getDifferenceDetails(
+		source: DatabaseObject,
+		target: DatabaseObject,
+		options: SchemaComparisonOptions,
+		attributeChanges: AttributeChange[] = [],
+	): string[] {
+		const details: string[] = attributeChanges.map((change) => change.description);
+
+		const explainsDefinition = attributeChanges.some((change) => change.kind !== "owner" && change.kind !== "comment");
+		if (source.definition !== target.definition && !explainsDefinition) {
 			details.push("Definition differs");
 		}
-		if (source.owner !== target.owner) {
-			details.push(`Owner differs: ${source.owner} vs ${target.owner}`);
-		}
-		if (source.sizeInBytes !== target.sizeInBytes) {
+		if (!options.ignoreAttributes?.includes("size") && this.sizesDiffer(source, target)) {
 			details.push(`Size differs: ${source.sizeInBytes} vs ${target.sizeInBytes} bytes`);
 		}
 		return details;
@@ -0,0 +1,89 @@
+import { DatabaseObject } from "./SchemaOperations";
+
+/**
+ * Source schema to target schema(s), e.g. `{ "app": "app_v2" }` or `{ "tenant_template": ["tenant_a", "tenant_b"] }`
+ */
+export type SchemaMapping = Record<string, string | string[]>;
+
+export interface SchemaMappingPair {
+	sourceSchema: string;
+	targetSchema: string;
+}
+
+/**
+ * SchemaMapper - Lines up objects that live in differently named schemas on each side of a comparison
+ * Target objects are rewritten into the source schema's namespace so the normal identity matching applies
+ */
+export class SchemaMapper {
+	/**
+	 * Flatten a mapping into one pair per source/target combination
+	 */
+	static toPairs(mapping: SchemaMapping): SchemaMappingPair[] {
+		return Object.entries(mapping).flatMap(([sourceSchema, targets]) =>
+			(Array.isArray(targets) ? targets : [targets]).map((targetSchema) => ({ sourceSchema, targetSchema })),
+		);
+	}
+
+	/**
+	 * Copy an object into another schema, rewriting schema-qualified references in its definition and properties
+	 */
+	remapObject(obj: DatabaseObject, fromSchema: string, toSchema: string): DatabaseObject {
+		if (fromSchema === toSchema) {
+			return obj;
+		}
+
+		return {
+			...obj,
+			id: obj.id.startsWith(`${fromSchema}.`) ? `${toSchema}${obj.id.slice(fromSchema.length)}` : obj.id,
+			schema: toSchema,
+			definition: SchemaMapper.rewriteQualifiedNames(obj.definition || "", fromSchema, toSchema),
+			properties: this.rewriteValue(obj.properties, fromSchema, toSchema),
+			dependencies: (obj.dependencies || []).map((dependency) =>
+				SchemaMapper.rewriteQualifiedNames(dependency, fromSchema, toSchema),
+			),
+		};
+	}
+
+	/**
+	 * Replace `from.` and `"from".` qualifiers with the other schema name.
+	 * Unquoted identifiers fold to lower case in PostgreSQL, so the unquoted form matches case-insensitively.
+	 */
+	static rewriteQualifiedNames(sql: string, fromSchema: string, toSchema: string): string {
+		if (!sql || fromSchema === toSchema) {
+			return sql;
+		}
+
+		const replacement = /^[a-z_][a-z0-9_$]*$/.test(toSchema) ? toSchema : `"${toSchema.replace(/"/g, '""')}"`;
+		const quoted = new RegExp(`"${SchemaMapper.escapeRegExp(fromSchema.replace(/"/g, '""'))}"\\.`, "g");
+		let rewritten = sql.replace(quoted, () => `${replacement}.`);
+
+		if (/^[a-z_][a-z0-9_$]*$/.test(fromSchema)) {
+			const unquoted = new RegExp(`(^|[^\\w$".])${SchemaMapper.escapeRegExp(fromSchema)}\\.`, "gi");
+			rewritten = rewritten.replace(unquoted, (_match, prefix: string) => `${prefix}${replacement}.`);
+		}
+
+		return rewritten;
+	}
+
+	/**
+	 * Rewrite every string inside a properties value, e.g. column defaults like `nextval('app.seq'::regclass)`
+	 */
+	private rewriteValue(value: any, fromSchema: string, toSchema: string): any {
+		if (typeof value === "string") {
+			return SchemaMapper.rewriteQualifiedNames(value, fromSchema, toSchema);
+		}
+		if (Array.isArray(value)) {
+			return value.map((item) => this.rewriteValue(item, fromSchema, toSchema));
+		}
+		if (value && typeof value === "object" && !(value instanceof Date)) {
+			return Object.fromEntries(
+				Object.entries(value).map(([key, item]) => [key, this.rewriteValue(item, fromSchema, toSchema)]),
+			);
+		}
+		return value;
+	}
+
+	private static escapeRegExp(value: string): string {
+		return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	}
+}
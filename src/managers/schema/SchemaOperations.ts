@@ -17,18 +17,90 @@ export interface DatabaseObject {
 	dependencies: string[];
 }
 
+export interface TableColumnDefinition {
+	name: string;
+	position: number;
+	dataType: string;
+	notNull: boolean;
+	defaultValue?: string;
+	identity?: "ALWAYS" | "BY DEFAULT";
+	generated?: "STORED";
+	isLocal: boolean;
+	collation?: string;
+	storage?: string;
+	description?: string;
+}
+
+export interface TableConstraintDefinition {
+	name: string;
+	type: "p" | "u" | "c" | "f" | "x";
+	definition: string;
+	isLocal: boolean;
+}
+
+export interface ViewColumnDefinition {
+	name: string;
+	dataType: string;
+}
+
+export interface ForeignTableColumnDefinition {
+	name: string;
+	dataType: string;
+	notNull: boolean;
+	options: string[];
+}
+
+/**
+ * One privilege held by a role on an object, as listed in the object's ACL
+ */
+export interface PrivilegeGrant {
+	/** Quoted role name, or PUBLIC */
+	grantee: string;
+	/** Privilege keyword such as SELECT or EXECUTE */
+	privilege: string;
+	grantable: boolean;
+	/** Column the privilege is limited to, for column-level grants */
+	column?: string;
+}
+
 export enum ObjectType {
 	Table = "table",
 	View = "view",
+	MaterializedView = "materialized_view",
 	Function = "function",
+	Procedure = "procedure",
+	Aggregate = "aggregate",
+	Operator = "operator",
 	Sequence = "sequence",
 	Type = "type",
+	Domain = "domain",
+	Enum = "enum",
+	Collation = "collation",
 	Index = "index",
 	Trigger = "trigger",
 	Constraint = "constraint",
+	Policy = "policy",
+	Rule = "rule",
+	ForeignTable = "foreign_table",
+	ForeignServer = "foreign_server",
+	Extension = "extension",
+	Publication = "publication",
+	Subscription = "subscription",
+	EventTrigger = "event_trigger",
+	DefaultPrivileges = "default_privileges",
 	Schema = "schema",
 }
 
+/**
+ * Object types that belong to the database rather than a schema; their objects carry an empty schema
+ */
+export const DATABASE_LEVEL_OBJECT_TYPES: string[] = [
+	ObjectType.ForeignServer,
+	ObjectType.Publication,
+	ObjectType.Subscription,
+	ObjectType.EventTrigger,
+];
+
 export interface SchemaCache {
 	connectionId: string;
 	objects: DatabaseObject[];
@@ -260,6 +332,17 @@ export class SchemaOperations {
 		return objects;
 	}
 
+	/**
+	 * Drop a connection's cached objects, so the next read sees DDL applied since they were cached
+	 */
+	invalidateCache(connectionId: string): void {
+		for (const key of this.schemaCache.keys()) {
+			if (key.startsWith(`${connectionId}:`)) {
+				this.schemaCache.delete(key);
+			}
+		}
+	}
+
 	/**
 	 * Map .NET object type to local type
 	 */
@@ -318,18 +401,64 @@ export class SchemaOperations {
 				const indexes = await this.getIndexesAsync(handle, schemaFilter, undefined, dotNetConnection);
 				const triggers = await this.getTriggersAsync(handle, schemaFilter, undefined, dotNetConnection);
 				const constraints = await this.getConstraintsAsync(handle, schemaFilter, undefined, dotNetConnection);
+				const materializedViews = await this.getMaterializedViewsAsync(
+					handle,
+					schemaFilter,
+					undefined,
+					dotNetConnection,
+				);
+				const procedures = await this.getProceduresAsync(handle, schemaFilter, undefined, dotNetConnection);
+				const aggregates = await this.getAggregatesAsync(handle, schemaFilter, undefined, dotNetConnection);
+				const operators = await this.getOperatorsAsync(handle, schemaFilter, undefined, dotNetConnection);
+				const domains = await this.getDomainsAsync(handle, schemaFilter, undefined, dotNetConnection);
+				const enums = await this.getEnumsAsync(handle, schemaFilter, undefined, dotNetConnection);
+				const collations = await this.getCollationsAsync(handle, schemaFilter, undefined, dotNetConnection);
+				const extensions = await this.getExtensionsAsync(handle, schemaFilter, undefined, dotNetConnection);
+				const policies = await this.getPoliciesAsync(handle, schemaFilter, undefined, dotNetConnection);
+				const rules = await this.getRulesAsync(handle, schemaFilter, undefined, dotNetConnection);
+				const foreignTables = await this.getForeignTablesAsync(handle, schemaFilter, undefined, dotNetConnection);
+				const defaultPrivileges = await this.getDefaultPrivilegesAsync(
+					handle,
+					schemaFilter,
+					undefined,
+					dotNetConnection,
+				);
+
+				// Database-level objects are only listed when no schema filter is applied
+				const databaseObjects = schemaFilter
+					? []
+					: [
+							...(await this.getForeignServersAsync(handle, dotNetConnection)),
+							...(await this.getPublicationsAsync(handle, dotNetConnection)),
+							...(await this.getSubscriptionsAsync(handle, dotNetConnection)),
+							...(await this.getEventTriggersAsync(handle, dotNetConnection)),
+						];
 
 				objects.push(
 					...schemas,
+					...extensions,
 					...tables,
 					...views,
+					...materializedViews,
 					...functions,
+					...procedures,
+					...aggregates,
+					...operators,
 					...sequences,
 					...types,
+					...domains,
+					...enums,
+					...collations,
 					...indexes,
 					...triggers,
 					...constraints,
+					...policies,
+					...rules,
+					...foreignTables,
+					...defaultPrivileges,
+					...databaseObjects,
 				);
+				await this.attachPrivilegesAsync(handle, objects, schemaFilter);
 
 				Logger.info("Retrieved database objects from connection", "getDatabaseObjectsFromConnection", {
 					connectionId,
@@ -361,39 +490,399 @@ export class SchemaOperations {
 	): Promise<DatabaseObject[]> {
 		const query = `
       SELECT
+        c.oid::text AS table_oid,
         c.relname AS table_name,
         n.nspname AS table_schema,
+        c.relkind AS relkind,
+        c.relpersistence AS persistence,
+        c.relispartition AS is_partition,
+        c.reloptions AS reloptions,
+        pg_get_partkeydef(c.oid) AS partition_key,
+        pg_get_expr(c.relpartbound, c.oid) AS partition_bound,
+        ts.spcname AS tablespace,
+        c.relreplident AS replica_identity,
+        c.relrowsecurity AS row_security,
+        c.relforcerowsecurity AS force_row_security,
         pg_total_relation_size(c.oid) AS size_bytes,
         pg_get_userbyid(c.relowner) AS owner,
         obj_description(c.oid, 'pg_class') AS description,
-        c.reltuples AS estimated_row_count
+        c.reltuples AS estimated_row_count,
+        (
+          SELECT json_agg(json_build_object('schema', pn.nspname, 'name', pc.relname) ORDER BY i.inhseqno)
+          FROM pg_inherits i
+          JOIN pg_class pc ON pc.oid = i.inhparent
+          JOIN pg_namespace pn ON pn.oid = pc.relnamespace
+          WHERE i.inhrelid = c.oid
+        ) AS parents
       FROM pg_class c
       JOIN pg_namespace n ON n.oid = c.relnamespace
-      WHERE c.relkind = 'r'
+      LEFT JOIN pg_tablespace ts ON ts.oid = c.reltablespace
+      WHERE c.relkind IN ('r', 'p')
         AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
         AND ($1::text IS NULL OR n.nspname = $1)
       ORDER BY n.nspname, c.relname
     `;
 
 		const result = await handle.connection.query(query, [schemaFilter]);
+		const columnsByTable = await this.getTableColumnDefinitionsAsync(handle, schemaFilter);
+		const constraintsByTable = await this.getTableConstraintDefinitionsAsync(handle, schemaFilter);
+		const indexFlagsByTable = await this.getTableIndexFlagsAsync(handle, schemaFilter);
+
+		return result.rows.map((row: any) => {
+			const parents: { schema: string; name: string }[] = row.parents || [];
+			const columns = columnsByTable.get(row.table_oid) || [];
+			const constraints = constraintsByTable.get(row.table_oid) || [];
+			const indexFlags = indexFlagsByTable.get(row.table_oid) || {};
+
+			return {
+				id: `${row.table_schema}.${row.table_name}`,
+				name: row.table_name,
+				schema: row.table_schema,
+				type: ObjectType.Table,
+				database: connectionInfo.database,
+				owner: row.owner,
+				sizeInBytes: parseInt(row.size_bytes) || undefined,
+				definition: this.buildTableDefinition(row, parents, columns, constraints, indexFlags),
+				properties: {
+					description: row.description,
+					estimatedRowCount: parseFloat(row.estimated_row_count) || 0,
+					isPartitioned: row.relkind === "p",
+					isPartition: row.is_partition,
+					partitionKey: row.partition_key || undefined,
+					partitionBound: row.partition_bound || undefined,
+					parents: parents.map((parent) => `${parent.schema}.${parent.name}`),
+					tablespace: row.tablespace || undefined,
+					storageParameters: row.reloptions || [],
+					rowSecurity: row.row_security,
+					forceRowSecurity: row.force_row_security,
+					columns,
+					constraints,
+				},
+				createdAt: new Date(),
+				modifiedAt: undefined,
+				dependencies: parents.map((parent) => `${parent.schema}.${parent.name}`),
+			};
+		});
+	}
+
+	/**
+	 * Load column definitions for every table, keyed by table OID
+	 */
+	private async getTableColumnDefinitionsAsync(
+		handle: any,
+		schemaFilter: string | undefined,
+	): Promise<Map<string, TableColumnDefinition[]>> {
+		const query = `
+      SELECT
+        a.attrelid::text AS table_oid,
+        a.attname AS column_name,
+        a.attnum AS position,
+        pg_catalog.format_type(a.atttypid, a.atttypmod) AS data_type,
+        a.attnotnull AS not_null,
+        pg_get_expr(d.adbin, d.adrelid) AS default_expr,
+        a.attidentity AS identity,
+        a.attgenerated AS generated,
+        a.attislocal AS is_local,
+        CASE WHEN a.attcollation <> t.typcollation THEN co.collname END AS collation,
+        CASE WHEN a.attstorage <> t.typstorage THEN a.attstorage END AS storage,
+        col_description(a.attrelid, a.attnum) AS description
+      FROM pg_attribute a
+      JOIN pg_class c ON c.oid = a.attrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      JOIN pg_type t ON t.oid = a.atttypid
+      LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+      LEFT JOIN pg_collation co ON co.oid = a.attcollation
+      WHERE c.relkind IN ('r', 'p')
+        AND a.attnum > 0
+        AND NOT a.attisdropped
+        AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        AND ($1::text IS NULL OR n.nspname = $1)
+      ORDER BY a.attrelid, a.attnum
+    `;
+
+		const result = await handle.connection.query(query, [schemaFilter]);
+		const columnsByTable = new Map<string, TableColumnDefinition[]>();
+
+		for (const row of result.rows) {
+			const columns = columnsByTable.get(row.table_oid) || [];
+			columns.push({
+				name: row.column_name,
+				position: row.position,
+				dataType: row.data_type,
+				notNull: row.not_null,
+				defaultValue: row.default_expr || undefined,
+				identity: row.identity === "a" ? "ALWAYS" : row.identity === "d" ? "BY DEFAULT" : undefined,
+				generated: row.generated === "s" ? "STORED" : undefined,
+				isLocal: row.is_local,
+				collation: row.collation || undefined,
+				storage: this.mapStorageMode(row.storage),
+				description: row.description || undefined,
+			});
+			columnsByTable.set(row.table_oid, columns);
+		}
 
-		return result.rows.map((row: any) => ({
-			id: `${row.table_schema}.${row.table_name}`,
-			name: row.table_name,
-			schema: row.table_schema,
-			type: ObjectType.Table,
-			database: connectionInfo.database,
-			owner: row.owner,
-			sizeInBytes: parseInt(row.size_bytes) || undefined,
-			definition: `CREATE TABLE "${row.table_schema}"."${row.table_name}" (...);`,
-			properties: {
-				description: row.description,
-				estimatedRowCount: parseFloat(row.estimated_row_count) || 0,
-			},
-			createdAt: new Date(),
-			modifiedAt: undefined,
-			dependencies: [],
-		}));
+		return columnsByTable;
+	}
+
+	/**
+	 * Load table-level constraint definitions for every table, keyed by table OID
+	 */
+	private async getTableConstraintDefinitionsAsync(
+		handle: any,
+		schemaFilter: string | undefined,
+	): Promise<Map<string, TableConstraintDefinition[]>> {
+		const query = `
+      SELECT
+        con.conrelid::text AS table_oid,
+        con.conname AS constraint_name,
+        con.contype AS constraint_type,
+        pg_get_constraintdef(con.oid, true) AS definition,
+        con.conislocal AS is_local
+      FROM pg_constraint con
+      JOIN pg_class c ON c.oid = con.conrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE c.relkind IN ('r', 'p')
+        AND con.contype IN ('p', 'u', 'c', 'f', 'x')
+        AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        AND ($1::text IS NULL OR n.nspname = $1)
+      ORDER BY con.conrelid, con.conname
+    `;
+
+		const result = await handle.connection.query(query, [schemaFilter]);
+		const constraintsByTable = new Map<string, TableConstraintDefinition[]>();
+
+		for (const row of result.rows) {
+			const constraints = constraintsByTable.get(row.table_oid) || [];
+			constraints.push({
+				name: row.constraint_name,
+				type: row.constraint_type,
+				definition: row.definition,
+				isLocal: row.is_local,
+			});
+			constraintsByTable.set(row.table_oid, constraints);
+		}
+
+		return constraintsByTable;
+	}
+
+	/**
+	 * Load the clustering and replica identity indexes for every table, keyed by table OID
+	 */
+	private async getTableIndexFlagsAsync(
+		handle: any,
+		schemaFilter: string | undefined,
+	): Promise<Map<string, { clusterIndex?: string; replicaIdentityIndex?: string }>> {
+		const query = `
+      SELECT
+        i.indrelid::text AS table_oid,
+        ic.relname AS index_name,
+        i.indisclustered AS is_clustered,
+        i.indisreplident AS is_replica_identity
+      FROM pg_index i
+      JOIN pg_class ic ON ic.oid = i.indexrelid
+      JOIN pg_class c ON c.oid = i.indrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE (i.indisclustered OR i.indisreplident)
+        AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        AND ($1::text IS NULL OR n.nspname = $1)
+    `;
+
+		const result = await handle.connection.query(query, [schemaFilter]);
+		const flagsByTable = new Map<string, { clusterIndex?: string; replicaIdentityIndex?: string }>();
+
+		for (const row of result.rows) {
+			const flags = flagsByTable.get(row.table_oid) || {};
+			if (row.is_clustered) {
+				flags.clusterIndex = row.index_name;
+			}
+			if (row.is_replica_identity) {
+				flags.replicaIdentityIndex = row.index_name;
+			}
+			flagsByTable.set(row.table_oid, flags);
+		}
+
+		return flagsByTable;
+	}
+
+	/**
+	 * Build a canonical CREATE TABLE statement from catalog metadata.
+	 * Also used for tables read from SQL files, so both sides of a folder comparison share one format.
+	 * Output is deterministic so two databases with the same structure produce identical text.
+	 */
+	buildTableDefinition(
+		table: any,
+		parentTables: { schema: string; name: string }[],
+		columns: TableColumnDefinition[],
+		constraints: TableConstraintDefinition[],
+		indexFlags: { clusterIndex?: string; replicaIdentityIndex?: string },
+	): string {
+		const qualifiedName = `${this.quoteIdentifier(table.table_schema)}.${this.quoteIdentifier(table.table_name)}`;
+		const parents = parentTables.map(
+			(parent) => `${this.quoteIdentifier(parent.schema)}.${this.quoteIdentifier(parent.name)}`,
+		);
+		const persistence = table.persistence === "u" ? "UNLOGGED " : "";
+		const statements: string[] = [];
+
+		// Partitions inherit their columns from the parent, so only local constraints are listed
+		const localColumns = table.is_partition ? [] : columns.filter((col) => col.isLocal);
+		const localConstraints = constraints.filter((con) => con.isLocal);
+
+		const elements: string[] = [
+			...localColumns.map((col) => `    ${this.buildColumnDefinition(col)}`),
+			...localConstraints.map((con) => `    CONSTRAINT ${this.quoteIdentifier(con.name)} ${con.definition}`),
+		];
+
+		let createStatement: string;
+		if (table.is_partition && parents.length > 0) {
+			createStatement = `CREATE ${persistence}TABLE ${qualifiedName} PARTITION OF ${parents[0]}`;
+			if (elements.length > 0) {
+				createStatement += ` (\n${elements.join(",\n")}\n)`;
+			}
+			createStatement += ` ${table.partition_bound}`;
+		} else {
+			createStatement = `CREATE ${persistence}TABLE ${qualifiedName} (\n${elements.join(",\n")}\n)`;
+			if (parents.length > 0) {
+				createStatement += ` INHERITS (${parents.join(", ")})`;
+			}
+		}
+
+		if (table.partition_key) {
+			createStatement += ` PARTITION BY ${table.partition_key}`;
+		}
+		if (table.reloptions && table.reloptions.length > 0) {
+			createStatement += `\nWITH (${[...table.reloptions].sort().join(", ")})`;
+		}
+		if (table.tablespace) {
+			createStatement += `\nTABLESPACE ${this.quoteIdentifier(table.tablespace)}`;
+		}
+		statements.push(`${createStatement};`);
+
+		for (const col of columns) {
+			if (col.storage) {
+				statements.push(
+					`ALTER TABLE ONLY ${qualifiedName} ALTER COLUMN ${this.quoteIdentifier(col.name)} SET STORAGE ${col.storage};`,
+				);
+			}
+		}
+
+		if (indexFlags.clusterIndex) {
+			statements.push(`ALTER TABLE ${qualifiedName} CLUSTER ON ${this.quoteIdentifier(indexFlags.clusterIndex)};`);
+		}
+
+		const replicaIdentity = this.buildReplicaIdentityClause(table.replica_identity, indexFlags.replicaIdentityIndex);
+		if (replicaIdentity) {
+			statements.push(`ALTER TABLE ${qualifiedName} REPLICA IDENTITY ${replicaIdentity};`);
+		}
+
+		if (table.row_security) {
+			statements.push(`ALTER TABLE ${qualifiedName} ENABLE ROW LEVEL SECURITY;`);
+		}
+		if (table.force_row_security) {
+			statements.push(`ALTER TABLE ${qualifiedName} FORCE ROW LEVEL SECURITY;`);
+		}
+
+		if (table.description) {
+			statements.push(`COMMENT ON TABLE ${qualifiedName} IS ${this.quoteLiteral(table.description)};`);
+		}
+		for (const col of columns) {
+			if (col.description) {
+				statements.push(
+					`COMMENT ON COLUMN ${qualifiedName}.${this.quoteIdentifier(col.name)} IS ${this.quoteLiteral(col.description)};`,
+				);
+			}
+		}
+
+		return statements.join("\n");
+	}
+
+	/**
+	 * Build a single column definition line for CREATE TABLE
+	 */
+	private buildColumnDefinition(column: TableColumnDefinition): string {
+		let definition = `${this.quoteIdentifier(column.name)} ${column.dataType}`;
+
+		if (column.collation) {
+			definition += ` COLLATE ${this.quoteIdentifier(column.collation)}`;
+		}
+		if (column.generated && column.defaultValue) {
+			definition += ` GENERATED ALWAYS AS (${column.defaultValue}) ${column.generated}`;
+		} else if (column.identity) {
+			definition += ` GENERATED ${column.identity} AS IDENTITY`;
+		} else if (column.defaultValue) {
+			definition += ` DEFAULT ${column.defaultValue}`;
+		}
+		if (column.notNull) {
+			definition += " NOT NULL";
+		}
+
+		return definition;
+	}
+
+	/**
+	 * Map pg_attribute.attstorage codes to their DDL keyword
+	 */
+	private mapStorageMode(storage: string | null): string | undefined {
+		const storageMap: { [key: string]: string } = {
+			p: "PLAIN",
+			e: "EXTERNAL",
+			m: "MAIN",
+			x: "EXTENDED",
+		};
+		return storage ? storageMap[storage] : undefined;
+	}
+
+	/**
+	 * Build the REPLICA IDENTITY clause when it differs from the default
+	 */
+	private buildReplicaIdentityClause(replicaIdentity: string, indexName?: string): string | undefined {
+		switch (replicaIdentity) {
+			case "n":
+				return "NOTHING";
+			case "f":
+				return "FULL";
+			case "i":
+				return indexName ? `USING INDEX ${this.quoteIdentifier(indexName)}` : undefined;
+			default:
+				return undefined;
+		}
+	}
+
+	/**
+	 * Quote an identifier for use in generated DDL
+	 */
+	private quoteIdentifier(identifier: string): string {
+		return `"${identifier.replace(/"/g, '""')}"`;
+	}
+
+	/**
+	 * Quote a string literal for use in generated DDL
+	 */
+	private quoteLiteral(value: string): string {
+		return `'${value.replace(/'/g, "''")}'`;
+	}
+
+	/**
+	 * Map pg_proc.provolatile codes to their DDL keyword
+	 */
+	private mapFunctionVolatility(volatility: string): string {
+		const volatilityMap: { [key: string]: string } = {
+			i: "IMMUTABLE",
+			s: "STABLE",
+			v: "VOLATILE",
+		};
+		return volatilityMap[volatility] || "VOLATILE";
+	}
+
+	/**
+	 * Map pg_proc.proparallel codes to their DDL keyword
+	 */
+	private mapFunctionParallel(parallel: string): string {
+		const parallelMap: { [key: string]: string } = {
+			s: "SAFE",
+			r: "RESTRICTED",
+			u: "UNSAFE",
+		};
+		return parallelMap[parallel] || "UNSAFE";
 	}
 
 	private async getViewsAsync(
@@ -408,7 +897,12 @@ export class SchemaOperations {
         v.table_schema,
         v.view_definition,
         pg_get_userbyid(c.relowner) AS owner,
-        obj_description(c.oid, 'pg_class') AS description
+        obj_description(c.oid, 'pg_class') AS description,
+        (
+          SELECT json_agg(json_build_object('name', a.attname, 'dataType', format_type(a.atttypid, a.atttypmod)) ORDER BY a.attnum)
+          FROM pg_attribute a
+          WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+        ) AS columns
       FROM information_schema.views v
       JOIN pg_class c ON c.relname = v.table_name
       JOIN pg_namespace n ON n.oid = c.relnamespace AND n.nspname = v.table_schema
@@ -429,6 +923,7 @@ export class SchemaOperations {
 			definition: row.view_definition || "",
 			properties: {
 				description: row.description,
+				columns: (row.columns || []) as ViewColumnDefinition[],
 			},
 			createdAt: new Date(),
 			modifiedAt: undefined,
@@ -448,12 +943,21 @@ export class SchemaOperations {
         n.nspname AS function_schema,
         pg_get_function_identity_arguments(p.oid) AS identity_arguments,
         pg_get_functiondef(p.oid) AS function_definition,
+        pg_get_function_result(p.oid) AS return_type,
+        l.lanname AS language,
+        p.provolatile AS volatility,
+        p.prosecdef AS security_definer,
+        p.proisstrict AS is_strict,
+        p.proparallel AS parallel,
+        md5(p.prosrc) AS body_hash,
         pg_get_userbyid(p.proowner) AS owner,
         obj_description(p.oid) AS description
       FROM pg_proc p
       JOIN pg_namespace n ON p.pronamespace = n.oid
+      JOIN pg_language l ON l.oid = p.prolang
       WHERE p.prokind = 'f'
         AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        AND ${this.notExtensionMember("p.oid", "pg_proc")}
         AND ($1::text IS NULL OR n.nspname = $1)
       ORDER BY n.nspname, p.proname
     `;
@@ -471,6 +975,13 @@ export class SchemaOperations {
 			properties: {
 				signature: row.identity_arguments,
 				description: row.description,
+				returnType: row.return_type,
+				language: row.language,
+				volatility: this.mapFunctionVolatility(row.volatility),
+				securityDefiner: row.security_definer,
+				strict: row.is_strict,
+				parallel: this.mapFunctionParallel(row.parallel),
+				bodyHash: row.body_hash,
 			},
 			createdAt: new Date(),
 			modifiedAt: undefined,
@@ -488,10 +999,18 @@ export class SchemaOperations {
       SELECT
         c.relname as sequence_name,
         n.nspname as sequence_schema,
+        format_type(s.seqtypid, NULL) as data_type,
+        s.seqstart::text as start_value,
+        s.seqincrement::text as increment,
+        s.seqmin::text as min_value,
+        s.seqmax::text as max_value,
+        s.seqcache::text as cache_size,
+        s.seqcycle as cycle,
         pg_get_userbyid(c.relowner) AS owner,
         obj_description(c.oid, 'pg_class') as description
       FROM pg_class c
       JOIN pg_namespace n ON c.relnamespace = n.oid
+      JOIN pg_sequence s ON s.seqrelid = c.oid
       WHERE c.relkind = 'S'
         AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
         AND ($1::text IS NULL OR n.nspname = $1)
@@ -507,9 +1026,19 @@ export class SchemaOperations {
 			type: ObjectType.Sequence,
 			database: connectionInfo.database,
 			owner: row.owner,
-			definition: `CREATE SEQUENCE "${row.sequence_schema}"."${row.sequence_name}";`,
+			definition:
+				`CREATE SEQUENCE ${this.quoteIdentifier(row.sequence_schema)}.${this.quoteIdentifier(row.sequence_name)}` +
+				` AS ${row.data_type} INCREMENT BY ${row.increment} MINVALUE ${row.min_value} MAXVALUE ${row.max_value}` +
+				` START WITH ${row.start_value} CACHE ${row.cache_size}${row.cycle ? " CYCLE" : " NO CYCLE"};`,
 			properties: {
 				description: row.description,
+				dataType: row.data_type,
+				startValue: row.start_value,
+				increment: row.increment,
+				minValue: row.min_value,
+				maxValue: row.max_value,
+				cacheSize: row.cache_size,
+				cycle: row.cycle,
 			},
 			createdAt: new Date(),
 			modifiedAt: undefined,
@@ -527,12 +1056,20 @@ export class SchemaOperations {
       SELECT
         t.typname as type_name,
         n.nspname as type_schema,
+        (
+          SELECT json_agg(json_build_object('name', a.attname, 'dataType', format_type(a.atttypid, a.atttypmod)) ORDER BY a.attnum)
+          FROM pg_attribute a
+          WHERE a.attrelid = t.typrelid AND a.attnum > 0 AND NOT a.attisdropped
+        ) AS attributes,
         pg_get_userbyid(t.typowner) AS owner,
         obj_description(t.oid) as description
       FROM pg_type t
       JOIN pg_namespace n ON t.typnamespace = n.oid
+      JOIN pg_class c ON c.oid = t.typrelid
       WHERE n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
-        AND t.typtype IN ('c', 'd', 'e')
+        AND t.typtype = 'c'
+        AND c.relkind = 'c'
+        AND ${this.notExtensionMember("t.oid", "pg_type")}
         AND ($1 IS NULL OR n.nspname = $1)
       ORDER BY n.nspname, t.typname
     `;
@@ -546,9 +1083,14 @@ export class SchemaOperations {
 			type: ObjectType.Type,
 			database: connectionInfo.database,
 			owner: row.owner,
-			definition: `CREATE TYPE "${row.type_schema}"."${row.type_name}" (...);`,
+			definition: `CREATE TYPE ${this.quoteIdentifier(row.type_schema)}.${this.quoteIdentifier(row.type_name)} AS (${(
+				(row.attributes || []) as ViewColumnDefinition[]
+			)
+				.map((attr) => `${this.quoteIdentifier(attr.name)} ${attr.dataType}`)
+				.join(", ")});`,
 			properties: {
 				description: row.description,
+				attributes: (row.attributes || []) as ViewColumnDefinition[],
 			},
 			createdAt: new Date(),
 			modifiedAt: undefined,
@@ -567,10 +1109,26 @@ export class SchemaOperations {
         c.relname as index_name,
         t.relname as table_name,
         n.nspname as index_schema,
+        pg_get_indexdef(c.oid) as index_definition,
+        am.amname as index_method,
+        i.indisunique as is_unique,
+        i.indisprimary as is_primary,
+        pg_get_expr(i.indpred, i.indrelid) as predicate,
+        ARRAY(
+          SELECT pg_get_indexdef(c.oid, k, true)
+          FROM generate_series(1, i.indnkeyatts) k
+          ORDER BY k
+        ) as key_columns,
+        ARRAY(
+          SELECT pg_get_indexdef(c.oid, k, true)
+          FROM generate_series(i.indnkeyatts + 1, i.indnatts) k
+          ORDER BY k
+        ) as include_columns,
         pg_get_userbyid(c.relowner) AS owner,
         obj_description(c.oid, 'pg_class') as description
       FROM pg_class c
       JOIN pg_index i ON c.oid = i.indexrelid
+      JOIN pg_am am ON am.oid = c.relam
       JOIN pg_class t ON i.indrelid = t.oid
       JOIN pg_namespace n ON c.relnamespace = n.oid
       JOIN pg_namespace tn ON t.relnamespace = tn.oid
@@ -589,10 +1147,16 @@ export class SchemaOperations {
 			type: ObjectType.Index,
 			database: connectionInfo.database,
 			owner: row.owner,
-			definition: `CREATE INDEX "${row.index_name}" ON "${row.index_schema}"."${row.table_name}" (...);`,
+			definition: `${row.index_definition};`,
 			properties: {
 				tableName: row.table_name,
 				description: row.description,
+				method: row.index_method,
+				isUnique: row.is_unique,
+				isPrimary: row.is_primary,
+				predicate: row.predicate || undefined,
+				keyColumns: row.key_columns || [],
+				includeColumns: row.include_columns || [],
 			},
 			createdAt: new Date(),
 			modifiedAt: undefined,
@@ -611,11 +1175,28 @@ export class SchemaOperations {
         t.tgname as trigger_name,
         c.relname as table_name,
         n.nspname as trigger_schema,
-        pg_get_userbyid(t.tgowner) AS owner,
+        pg_get_triggerdef(t.oid) as trigger_definition,
+        CASE
+          WHEN t.tgtype::int & 2 <> 0 THEN 'BEFORE'
+          WHEN t.tgtype::int & 64 <> 0 THEN 'INSTEAD OF'
+          ELSE 'AFTER'
+        END as timing,
+        array_remove(ARRAY[
+          CASE WHEN t.tgtype::int & 4 <> 0 THEN 'INSERT' END,
+          CASE WHEN t.tgtype::int & 16 <> 0 THEN 'UPDATE' END,
+          CASE WHEN t.tgtype::int & 8 <> 0 THEN 'DELETE' END,
+          CASE WHEN t.tgtype::int & 32 <> 0 THEN 'TRUNCATE' END
+        ], NULL) as events,
+        CASE WHEN t.tgtype::int & 1 <> 0 THEN 'ROW' ELSE 'STATEMENT' END as level,
+        fn.nspname || '.' || p.proname as function_name,
+        t.tgenabled as enabled,
+        pg_get_userbyid(c.relowner) AS owner,
         obj_description(t.oid) as description
       FROM pg_trigger t
       JOIN pg_class c ON t.tgrelid = c.oid
       JOIN pg_namespace n ON c.relnamespace = n.oid
+      JOIN pg_proc p ON p.oid = t.tgfoid
+      JOIN pg_namespace fn ON fn.oid = p.pronamespace
       WHERE NOT t.tgisinternal
         AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
         AND ($1 IS NULL OR n.nspname = $1)
@@ -631,10 +1212,15 @@ export class SchemaOperations {
 			type: ObjectType.Trigger,
 			database: connectionInfo.database,
 			owner: row.owner,
-			definition: `CREATE TRIGGER "${row.trigger_name}" ...;`,
+			definition: `${row.trigger_definition};`,
 			properties: {
 				tableName: row.table_name,
 				description: row.description,
+				timing: row.timing,
+				events: row.events || [],
+				level: row.level,
+				functionName: row.function_name,
+				enabled: row.enabled !== "D",
 			},
 			createdAt: new Date(),
 			modifiedAt: undefined,
@@ -721,6 +1307,1089 @@ export class SchemaOperations {
 		}));
 	}
 
+	private async getMaterializedViewsAsync(
+		handle: any,
+		schemaFilter: string | undefined,
+		cancellationToken: AbortSignal | undefined,
+		connectionInfo: ConnectionInfo,
+	): Promise<DatabaseObject[]> {
+		const query = `
+      SELECT
+        c.relname AS view_name,
+        n.nspname AS view_schema,
+        pg_get_viewdef(c.oid, true) AS view_query,
+        c.relispopulated AS is_populated,
+        c.reloptions AS reloptions,
+        ts.spcname AS tablespace,
+        pg_total_relation_size(c.oid) AS size_bytes,
+        pg_get_userbyid(c.relowner) AS owner,
+        obj_description(c.oid, 'pg_class') AS description,
+        (
+          SELECT json_agg(json_build_object('name', a.attname, 'dataType', format_type(a.atttypid, a.atttypmod)) ORDER BY a.attnum)
+          FROM pg_attribute a
+          WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+        ) AS columns
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      LEFT JOIN pg_tablespace ts ON ts.oid = c.reltablespace
+      WHERE c.relkind = 'm'
+        AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        AND ${this.notExtensionMember("c.oid", "pg_class")}
+        AND ($1::text IS NULL OR n.nspname = $1)
+      ORDER BY n.nspname, c.relname
+    `;
+
+		const result = await handle.connection.query(query, [schemaFilter]);
+
+		return result.rows.map((row: any) => {
+			const viewQuery = (row.view_query || "").trim().replace(/;\s*$/, "");
+			let definition = `CREATE MATERIALIZED VIEW ${this.quoteIdentifier(row.view_schema)}.${this.quoteIdentifier(row.view_name)}`;
+			if (row.reloptions && row.reloptions.length > 0) {
+				definition += `\nWITH (${[...row.reloptions].sort().join(", ")})`;
+			}
+			if (row.tablespace) {
+				definition += `\nTABLESPACE ${this.quoteIdentifier(row.tablespace)}`;
+			}
+			definition += `\nAS\n${viewQuery}\nWITH ${row.is_populated ? "DATA" : "NO DATA"};`;
+
+			return {
+				id: `${row.view_schema}.${row.view_name}`,
+				name: row.view_name,
+				schema: row.view_schema,
+				type: ObjectType.MaterializedView,
+				database: connectionInfo.database,
+				owner: row.owner,
+				sizeInBytes: parseInt(row.size_bytes) || undefined,
+				definition,
+				properties: {
+					description: row.description,
+					query: viewQuery,
+					columns: (row.columns || []) as ViewColumnDefinition[],
+					tablespace: row.tablespace || undefined,
+					storageParameters: row.reloptions || [],
+					isPopulated: row.is_populated,
+				},
+				createdAt: new Date(),
+				modifiedAt: undefined,
+				dependencies: [],
+			};
+		});
+	}
+
+	private async getProceduresAsync(
+		handle: any,
+		schemaFilter: string | undefined,
+		cancellationToken: AbortSignal | undefined,
+		connectionInfo: ConnectionInfo,
+	): Promise<DatabaseObject[]> {
+		const query = `
+      SELECT
+        p.proname AS procedure_name,
+        n.nspname AS procedure_schema,
+        pg_get_function_identity_arguments(p.oid) AS identity_arguments,
+        pg_get_functiondef(p.oid) AS procedure_definition,
+        l.lanname AS language,
+        p.prosecdef AS security_definer,
+        md5(p.prosrc) AS body_hash,
+        pg_get_userbyid(p.proowner) AS owner,
+        obj_description(p.oid, 'pg_proc') AS description
+      FROM pg_proc p
+      JOIN pg_namespace n ON p.pronamespace = n.oid
+      JOIN pg_language l ON l.oid = p.prolang
+      WHERE p.prokind = 'p'
+        AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        AND ${this.notExtensionMember("p.oid", "pg_proc")}
+        AND ($1::text IS NULL OR n.nspname = $1)
+      ORDER BY n.nspname, p.proname
+    `;
+
+		const result = await handle.connection.query(query, [schemaFilter]);
+
+		return result.rows.map((row: any) => ({
+			id: `${row.procedure_schema}.${row.procedure_name}`,
+			name: row.procedure_name,
+			schema: row.procedure_schema,
+			type: ObjectType.Procedure,
+			database: connectionInfo.database,
+			owner: row.owner,
+			definition: row.procedure_definition || "",
+			properties: {
+				signature: row.identity_arguments,
+				description: row.description,
+				language: row.language,
+				securityDefiner: row.security_definer,
+				bodyHash: row.body_hash,
+			},
+			createdAt: new Date(),
+			modifiedAt: undefined,
+			dependencies: [],
+		}));
+	}
+
+	private async getAggregatesAsync(
+		handle: any,
+		schemaFilter: string | undefined,
+		cancellationToken: AbortSignal | undefined,
+		connectionInfo: ConnectionInfo,
+	): Promise<DatabaseObject[]> {
+		const query = `
+      SELECT
+        p.proname AS aggregate_name,
+        n.nspname AS aggregate_schema,
+        pg_get_function_identity_arguments(p.oid) AS identity_arguments,
+        ${this.qualifiedFunctionName("a.aggtransfn")} AS transition_function,
+        format_type(a.aggtranstype, NULL) AS state_type,
+        ${this.qualifiedFunctionName("a.aggfinalfn")} AS final_function,
+        ${this.qualifiedFunctionName("a.aggcombinefn")} AS combine_function,
+        a.agginitval AS initial_condition,
+        (SELECT o.oprname FROM pg_operator o WHERE o.oid = a.aggsortop) AS sort_operator,
+        pg_get_userbyid(p.proowner) AS owner,
+        obj_description(p.oid, 'pg_proc') AS description
+      FROM pg_proc p
+      JOIN pg_aggregate a ON a.aggfnoid = p.oid
+      JOIN pg_namespace n ON p.pronamespace = n.oid
+      WHERE p.prokind = 'a'
+        AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        AND ${this.notExtensionMember("p.oid", "pg_proc")}
+        AND ($1::text IS NULL OR n.nspname = $1)
+      ORDER BY n.nspname, p.proname
+    `;
+
+		const result = await handle.connection.query(query, [schemaFilter]);
+
+		return result.rows.map((row: any) => {
+			const clauses = [`SFUNC = ${row.transition_function}`, `STYPE = ${row.state_type}`];
+			if (row.final_function) {
+				clauses.push(`FINALFUNC = ${row.final_function}`);
+			}
+			if (row.combine_function) {
+				clauses.push(`COMBINEFUNC = ${row.combine_function}`);
+			}
+			if (row.initial_condition !== null) {
+				clauses.push(`INITCOND = ${this.quoteLiteral(row.initial_condition)}`);
+			}
+			if (row.sort_operator) {
+				clauses.push(`SORTOP = ${row.sort_operator}`);
+			}
+
+			return {
+				id: `${row.aggregate_schema}.${row.aggregate_name}`,
+				name: row.aggregate_name,
+				schema: row.aggregate_schema,
+				type: ObjectType.Aggregate,
+				database: connectionInfo.database,
+				owner: row.owner,
+				definition: `CREATE AGGREGATE ${this.quoteIdentifier(row.aggregate_schema)}.${this.quoteIdentifier(row.aggregate_name)}(${row.identity_arguments || "*"}) (\n    ${clauses.join(",\n    ")}\n);`,
+				properties: {
+					signature: row.identity_arguments,
+					description: row.description,
+					transitionFunction: row.transition_function,
+					stateType: row.state_type,
+					finalFunction: row.final_function || undefined,
+					combineFunction: row.combine_function || undefined,
+					initialCondition: row.initial_condition ?? undefined,
+					sortOperator: row.sort_operator || undefined,
+				},
+				createdAt: new Date(),
+				modifiedAt: undefined,
+				dependencies: [],
+			};
+		});
+	}
+
+	private async getOperatorsAsync(
+		handle: any,
+		schemaFilter: string | undefined,
+		cancellationToken: AbortSignal | undefined,
+		connectionInfo: ConnectionInfo,
+	): Promise<DatabaseObject[]> {
+		const query = `
+      SELECT
+        o.oprname AS operator_name,
+        n.nspname AS operator_schema,
+        CASE WHEN o.oprleft = 0 THEN NULL ELSE format_type(o.oprleft, NULL) END AS left_type,
+        CASE WHEN o.oprright = 0 THEN NULL ELSE format_type(o.oprright, NULL) END AS right_type,
+        format_type(o.oprresult, NULL) AS result_type,
+        ${this.qualifiedFunctionName("o.oprcode")} AS function_name,
+        (SELECT quote_ident(cn.nspname) || '.' || c.oprname FROM pg_operator c JOIN pg_namespace cn ON cn.oid = c.oprnamespace WHERE c.oid = o.oprcom) AS commutator,
+        (SELECT quote_ident(ngn.nspname) || '.' || ng.oprname FROM pg_operator ng JOIN pg_namespace ngn ON ngn.oid = ng.oprnamespace WHERE ng.oid = o.oprnegate) AS negator,
+        ${this.qualifiedFunctionName("o.oprrest")} AS restrict_function,
+        ${this.qualifiedFunctionName("o.oprjoin")} AS join_function,
+        o.oprcanhash AS hashes,
+        o.oprcanmerge AS merges,
+        pg_get_userbyid(o.oprowner) AS owner,
+        obj_description(o.oid, 'pg_operator') AS description
+      FROM pg_operator o
+      JOIN pg_namespace n ON n.oid = o.oprnamespace
+      WHERE n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        AND ${this.notExtensionMember("o.oid", "pg_operator")}
+        AND ($1::text IS NULL OR n.nspname = $1)
+      ORDER BY n.nspname, o.oprname
+    `;
+
+		const result = await handle.connection.query(query, [schemaFilter]);
+
+		return result.rows.map((row: any) => {
+			const clauses = [`FUNCTION = ${row.function_name}`];
+			if (row.left_type) {
+				clauses.push(`LEFTARG = ${row.left_type}`);
+			}
+			if (row.right_type) {
+				clauses.push(`RIGHTARG = ${row.right_type}`);
+			}
+			if (row.commutator) {
+				clauses.push(`COMMUTATOR = OPERATOR(${row.commutator})`);
+			}
+			if (row.negator) {
+				clauses.push(`NEGATOR = OPERATOR(${row.negator})`);
+			}
+			if (row.restrict_function) {
+				clauses.push(`RESTRICT = ${row.restrict_function}`);
+			}
+			if (row.join_function) {
+				clauses.push(`JOIN = ${row.join_function}`);
+			}
+			if (row.hashes) {
+				clauses.push("HASHES");
+			}
+			if (row.merges) {
+				clauses.push("MERGES");
+			}
+
+			return {
+				id: `${row.operator_schema}.${row.operator_name}`,
+				name: row.operator_name,
+				schema: row.operator_schema,
+				type: ObjectType.Operator,
+				database: connectionInfo.database,
+				owner: row.owner,
+				definition: `CREATE OPERATOR ${this.quoteIdentifier(row.operator_schema)}.${row.operator_name} (\n    ${clauses.join(",\n    ")}\n);`,
+				properties: {
+					signature: `${row.left_type || "NONE"}, ${row.right_type || "NONE"}`,
+					description: row.description,
+					resultType: row.result_type,
+					functionName: row.function_name,
+					commutator: row.commutator || undefined,
+					negator: row.negator || undefined,
+					restrictFunction: row.restrict_function || undefined,
+					joinFunction: row.join_function || undefined,
+					hashes: row.hashes,
+					merges: row.merges,
+				},
+				createdAt: new Date(),
+				modifiedAt: undefined,
+				dependencies: [],
+			};
+		});
+	}
+
+	private async getDomainsAsync(
+		handle: any,
+		schemaFilter: string | undefined,
+		cancellationToken: AbortSignal | undefined,
+		connectionInfo: ConnectionInfo,
+	): Promise<DatabaseObject[]> {
+		const query = `
+      SELECT
+        t.typname AS domain_name,
+        n.nspname AS domain_schema,
+        format_type(t.typbasetype, t.typtypmod) AS base_type,
+        t.typnotnull AS not_null,
+        t.typdefault AS default_value,
+        CASE WHEN t.typcollation <> bt.typcollation THEN co.collname END AS collation,
+        (
+          SELECT json_agg(json_build_object('name', con.conname, 'definition', pg_get_constraintdef(con.oid, true)) ORDER BY con.conname)
+          FROM pg_constraint con
+          WHERE con.contypid = t.oid AND con.contype = 'c'
+        ) AS constraints,
+        pg_get_userbyid(t.typowner) AS owner,
+        obj_description(t.oid, 'pg_type') AS description
+      FROM pg_type t
+      JOIN pg_namespace n ON n.oid = t.typnamespace
+      JOIN pg_type bt ON bt.oid = t.typbasetype
+      LEFT JOIN pg_collation co ON co.oid = t.typcollation
+      WHERE t.typtype = 'd'
+        AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        AND ${this.notExtensionMember("t.oid", "pg_type")}
+        AND ($1::text IS NULL OR n.nspname = $1)
+      ORDER BY n.nspname, t.typname
+    `;
+
+		const result = await handle.connection.query(query, [schemaFilter]);
+
+		return result.rows.map((row: any) => {
+			const constraints: TableConstraintDefinition[] = (row.constraints || []).map(
+				(con: { name: string; definition: string }) => ({
+					name: con.name,
+					type: "c",
+					definition: con.definition,
+					isLocal: true,
+				}),
+			);
+			let definition = `CREATE DOMAIN ${this.quoteIdentifier(row.domain_schema)}.${this.quoteIdentifier(row.domain_name)} AS ${row.base_type}`;
+			if (row.collation) {
+				definition += ` COLLATE ${this.quoteIdentifier(row.collation)}`;
+			}
+			if (row.default_value) {
+				definition += ` DEFAULT ${row.default_value}`;
+			}
+			if (row.not_null) {
+				definition += " NOT NULL";
+			}
+			for (const con of constraints) {
+				definition += `\n    CONSTRAINT ${this.quoteIdentifier(con.name)} ${con.definition}`;
+			}
+
+			return {
+				id: `${row.domain_schema}.${row.domain_name}`,
+				name: row.domain_name,
+				schema: row.domain_schema,
+				type: ObjectType.Domain,
+				database: connectionInfo.database,
+				owner: row.owner,
+				definition: `${definition};`,
+				properties: {
+					description: row.description,
+					baseType: row.base_type,
+					notNull: row.not_null,
+					defaultValue: row.default_value || undefined,
+					collation: row.collation || undefined,
+					constraints,
+				},
+				createdAt: new Date(),
+				modifiedAt: undefined,
+				dependencies: [],
+			};
+		});
+	}
+
+	private async getEnumsAsync(
+		handle: any,
+		schemaFilter: string | undefined,
+		cancellationToken: AbortSignal | undefined,
+		connectionInfo: ConnectionInfo,
+	): Promise<DatabaseObject[]> {
+		const query = `
+      SELECT
+        t.typname AS enum_name,
+        n.nspname AS enum_schema,
+        ARRAY(SELECT e.enumlabel FROM pg_enum e WHERE e.enumtypid = t.oid ORDER BY e.enumsortorder) AS enum_values,
+        pg_get_userbyid(t.typowner) AS owner,
+        obj_description(t.oid, 'pg_type') AS description
+      FROM pg_type t
+      JOIN pg_namespace n ON n.oid = t.typnamespace
+      WHERE t.typtype = 'e'
+        AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        AND ${this.notExtensionMember("t.oid", "pg_type")}
+        AND ($1::text IS NULL OR n.nspname = $1)
+      ORDER BY n.nspname, t.typname
+    `;
+
+		const result = await handle.connection.query(query, [schemaFilter]);
+
+		return result.rows.map((row: any) => {
+			const values: string[] = row.enum_values || [];
+			return {
+				id: `${row.enum_schema}.${row.enum_name}`,
+				name: row.enum_name,
+				schema: row.enum_schema,
+				type: ObjectType.Enum,
+				database: connectionInfo.database,
+				owner: row.owner,
+				definition: `CREATE TYPE ${this.quoteIdentifier(row.enum_schema)}.${this.quoteIdentifier(row.enum_name)} AS ENUM (${values.map((value) => this.quoteLiteral(value)).join(", ")});`,
+				properties: {
+					description: row.description,
+					values,
+				},
+				createdAt: new Date(),
+				modifiedAt: undefined,
+				dependencies: [],
+			};
+		});
+	}
+
+	private async getCollationsAsync(
+		handle: any,
+		schemaFilter: string | undefined,
+		cancellationToken: AbortSignal | undefined,
+		connectionInfo: ConnectionInfo,
+	): Promise<DatabaseObject[]> {
+		// The ICU locale column was renamed across versions, so it is read through to_jsonb
+		const query = `
+      SELECT
+        co.collname AS collation_name,
+        n.nspname AS collation_schema,
+        co.collprovider AS provider,
+        COALESCE(to_jsonb(co) ->> 'colllocale', to_jsonb(co) ->> 'colliculocale') AS locale,
+        co.collcollate AS lc_collate,
+        co.collctype AS lc_ctype,
+        co.collisdeterministic AS deterministic,
+        pg_get_userbyid(co.collowner) AS owner,
+        obj_description(co.oid, 'pg_collation') AS description
+      FROM pg_collation co
+      JOIN pg_namespace n ON n.oid = co.collnamespace
+      WHERE n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        AND ${this.notExtensionMember("co.oid", "pg_collation")}
+        AND ($1::text IS NULL OR n.nspname = $1)
+      ORDER BY n.nspname, co.collname
+    `;
+
+		const result = await handle.connection.query(query, [schemaFilter]);
+		const providerMap: { [key: string]: string } = { c: "libc", i: "icu", b: "builtin", d: "default" };
+
+		return result.rows.map((row: any) => {
+			const provider = providerMap[row.provider] || row.provider;
+			const locale =
+				provider === "libc"
+					? `LC_COLLATE = ${this.quoteLiteral(row.lc_collate || "")}, LC_CTYPE = ${this.quoteLiteral(row.lc_ctype || "")}`
+					: `LOCALE = ${this.quoteLiteral(row.locale || row.lc_collate || "")}`;
+			const deterministic = row.deterministic === false ? ", DETERMINISTIC = false" : "";
+
+			return {
+				id: `${row.collation_schema}.${row.collation_name}`,
+				name: row.collation_name,
+				schema: row.collation_schema,
+				type: ObjectType.Collation,
+				database: connectionInfo.database,
+				owner: row.owner,
+				definition: `CREATE COLLATION ${this.quoteIdentifier(row.collation_schema)}.${this.quoteIdentifier(row.collation_name)} (PROVIDER = ${provider}, ${locale}${deterministic});`,
+				properties: {
+					description: row.description,
+					provider,
+					locale,
+					deterministic: row.deterministic !== false,
+				},
+				createdAt: new Date(),
+				modifiedAt: undefined,
+				dependencies: [],
+			};
+		});
+	}
+
+	private async getExtensionsAsync(
+		handle: any,
+		schemaFilter: string | undefined,
+		cancellationToken: AbortSignal | undefined,
+		connectionInfo: ConnectionInfo,
+	): Promise<DatabaseObject[]> {
+		const query = `
+      SELECT
+        e.extname AS extension_name,
+        n.nspname AS extension_schema,
+        e.extversion AS version,
+        e.extrelocatable AS relocatable,
+        pg_get_userbyid(e.extowner) AS owner,
+        obj_description(e.oid, 'pg_extension') AS description
+      FROM pg_extension e
+      JOIN pg_namespace n ON n.oid = e.extnamespace
+      WHERE n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        AND ($1::text IS NULL OR n.nspname = $1)
+      ORDER BY e.extname
+    `;
+
+		const result = await handle.connection.query(query, [schemaFilter]);
+
+		return result.rows.map((row: any) => ({
+			id: `${row.extension_schema}.${row.extension_name}`,
+			name: row.extension_name,
+			schema: row.extension_schema,
+			type: ObjectType.Extension,
+			database: connectionInfo.database,
+			owner: row.owner,
+			definition: `CREATE EXTENSION IF NOT EXISTS ${this.quoteIdentifier(row.extension_name)} WITH SCHEMA ${this.quoteIdentifier(row.extension_schema)} VERSION ${this.quoteLiteral(row.version)};`,
+			properties: {
+				description: row.description,
+				version: row.version,
+				relocatable: row.relocatable,
+			},
+			createdAt: new Date(),
+			modifiedAt: undefined,
+			dependencies: [],
+		}));
+	}
+
+	private async getPoliciesAsync(
+		handle: any,
+		schemaFilter: string | undefined,
+		cancellationToken: AbortSignal | undefined,
+		connectionInfo: ConnectionInfo,
+	): Promise<DatabaseObject[]> {
+		const query = `
+      SELECT
+        pol.polname AS policy_name,
+        c.relname AS table_name,
+        n.nspname AS policy_schema,
+        CASE pol.polcmd
+          WHEN 'r' THEN 'SELECT'
+          WHEN 'a' THEN 'INSERT'
+          WHEN 'w' THEN 'UPDATE'
+          WHEN 'd' THEN 'DELETE'
+          ELSE 'ALL'
+        END AS command,
+        pol.polpermissive AS permissive,
+        ARRAY(
+          SELECT CASE WHEN r.roleid = 0 THEN 'PUBLIC' ELSE quote_ident(pg_get_userbyid(r.roleid)) END
+          FROM unnest(pol.polroles) AS r(roleid)
+          ORDER BY 1
+        ) AS roles,
+        pg_get_expr(pol.polqual, pol.polrelid) AS using_expression,
+        pg_get_expr(pol.polwithcheck, pol.polrelid) AS check_expression,
+        pg_get_userbyid(c.relowner) AS owner,
+        obj_description(pol.oid, 'pg_policy') AS description
+      FROM pg_policy pol
+      JOIN pg_class c ON c.oid = pol.polrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        AND ($1::text IS NULL OR n.nspname = $1)
+      ORDER BY n.nspname, c.relname, pol.polname
+    `;
+
+		const result = await handle.connection.query(query, [schemaFilter]);
+
+		return result.rows.map((row: any) => {
+			let definition =
+				`CREATE POLICY ${this.quoteIdentifier(row.policy_name)} ON ${this.quoteIdentifier(row.policy_schema)}.${this.quoteIdentifier(row.table_name)}` +
+				` AS ${row.permissive ? "PERMISSIVE" : "RESTRICTIVE"} FOR ${row.command} TO ${(row.roles || []).join(", ")}`;
+			if (row.using_expression) {
+				definition += ` USING (${row.using_expression})`;
+			}
+			if (row.check_expression) {
+				definition += ` WITH CHECK (${row.check_expression})`;
+			}
+
+			return {
+				id: `${row.policy_schema}.${row.table_name}.${row.policy_name}`,
+				name: row.policy_name,
+				schema: row.policy_schema,
+				type: ObjectType.Policy,
+				database: connectionInfo.database,
+				owner: row.owner,
+				definition: `${definition};`,
+				properties: {
+					tableName: row.table_name,
+					description: row.description,
+					command: row.command,
+					permissive: row.permissive,
+					roles: row.roles || [],
+					usingExpression: row.using_expression || undefined,
+					checkExpression: row.check_expression || undefined,
+				},
+				createdAt: new Date(),
+				modifiedAt: undefined,
+				dependencies: [],
+			};
+		});
+	}
+
+	private async getRulesAsync(
+		handle: any,
+		schemaFilter: string | undefined,
+		cancellationToken: AbortSignal | undefined,
+		connectionInfo: ConnectionInfo,
+	): Promise<DatabaseObject[]> {
+		const query = `
+      SELECT
+        r.rulename AS rule_name,
+        c.relname AS table_name,
+        n.nspname AS rule_schema,
+        pg_get_ruledef(r.oid) AS rule_definition,
+        r.ev_enabled AS enabled,
+        pg_get_userbyid(c.relowner) AS owner,
+        obj_description(r.oid, 'pg_rewrite') AS description
+      FROM pg_rewrite r
+      JOIN pg_class c ON c.oid = r.ev_class
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE r.rulename <> '_RETURN'
+        AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        AND ($1::text IS NULL OR n.nspname = $1)
+      ORDER BY n.nspname, c.relname, r.rulename
+    `;
+
+		const result = await handle.connection.query(query, [schemaFilter]);
+
+		return result.rows.map((row: any) => ({
+			id: `${row.rule_schema}.${row.table_name}.${row.rule_name}`,
+			name: row.rule_name,
+			schema: row.rule_schema,
+			type: ObjectType.Rule,
+			database: connectionInfo.database,
+			owner: row.owner,
+			definition: `${(row.rule_definition || "").trim().replace(/;\s*$/, "")};`,
+			properties: {
+				tableName: row.table_name,
+				description: row.description,
+				enabled: row.enabled !== "D",
+			},
+			createdAt: new Date(),
+			modifiedAt: undefined,
+			dependencies: [],
+		}));
+	}
+
+	private async getForeignTablesAsync(
+		handle: any,
+		schemaFilter: string | undefined,
+		cancellationToken: AbortSignal | undefined,
+		connectionInfo: ConnectionInfo,
+	): Promise<DatabaseObject[]> {
+		const query = `
+      SELECT
+        c.relname AS table_name,
+        n.nspname AS table_schema,
+        s.srvname AS server_name,
+        ft.ftoptions AS options,
+        (
+          SELECT json_agg(json_build_object(
+            'name', a.attname,
+            'dataType', format_type(a.atttypid, a.atttypmod),
+            'notNull', a.attnotnull,
+            'options', COALESCE(a.attfdwoptions, ARRAY[]::text[])
+          ) ORDER BY a.attnum)
+          FROM pg_attribute a
+          WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+        ) AS columns,
+        pg_get_userbyid(c.relowner) AS owner,
+        obj_description(c.oid, 'pg_class') AS description
+      FROM pg_foreign_table ft
+      JOIN pg_class c ON c.oid = ft.ftrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      JOIN pg_foreign_server s ON s.oid = ft.ftserver
+      WHERE n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        AND ${this.notExtensionMember("c.oid", "pg_class")}
+        AND ($1::text IS NULL OR n.nspname = $1)
+      ORDER BY n.nspname, c.relname
+    `;
+
+		const result = await handle.connection.query(query, [schemaFilter]);
+
+		return result.rows.map((row: any) => {
+			const columns: ForeignTableColumnDefinition[] = row.columns || [];
+			const columnLines = columns.map(
+				(col) =>
+					`    ${this.quoteIdentifier(col.name)} ${col.dataType}${this.buildOptionsClause(col.options, " ")}${col.notNull ? " NOT NULL" : ""}`,
+			);
+
+			return {
+				id: `${row.table_schema}.${row.table_name}`,
+				name: row.table_name,
+				schema: row.table_schema,
+				type: ObjectType.ForeignTable,
+				database: connectionInfo.database,
+				owner: row.owner,
+				definition:
+					`CREATE FOREIGN TABLE ${this.quoteIdentifier(row.table_schema)}.${this.quoteIdentifier(row.table_name)} (\n${columnLines.join(",\n")}\n)` +
+					` SERVER ${this.quoteIdentifier(row.server_name)}${this.buildOptionsClause(row.options, "\n")};`,
+				properties: {
+					description: row.description,
+					serverName: row.server_name,
+					options: row.options || [],
+					columns,
+				},
+				createdAt: new Date(),
+				modifiedAt: undefined,
+				dependencies: [],
+			};
+		});
+	}
+
+	private async getForeignServersAsync(handle: any, connectionInfo: ConnectionInfo): Promise<DatabaseObject[]> {
+		const query = `
+      SELECT
+        s.srvname AS server_name,
+        w.fdwname AS wrapper_name,
+        s.srvtype AS server_type,
+        s.srvversion AS server_version,
+        s.srvoptions AS options,
+        pg_get_userbyid(s.srvowner) AS owner,
+        obj_description(s.oid, 'pg_foreign_server') AS description
+      FROM pg_foreign_server s
+      JOIN pg_foreign_data_wrapper w ON w.oid = s.srvfdw
+      ORDER BY s.srvname
+    `;
+
+		const result = await handle.connection.query(query);
+
+		return result.rows.map((row: any) => {
+			let definition = `CREATE SERVER ${this.quoteIdentifier(row.server_name)}`;
+			if (row.server_type) {
+				definition += ` TYPE ${this.quoteLiteral(row.server_type)}`;
+			}
+			if (row.server_version) {
+				definition += ` VERSION ${this.quoteLiteral(row.server_version)}`;
+			}
+			definition += ` FOREIGN DATA WRAPPER ${this.quoteIdentifier(row.wrapper_name)}${this.buildOptionsClause(row.options, " ")};`;
+
+			return {
+				id: row.server_name,
+				name: row.server_name,
+				schema: "",
+				type: ObjectType.ForeignServer,
+				database: connectionInfo.database,
+				owner: row.owner,
+				definition,
+				properties: {
+					description: row.description,
+					wrapperName: row.wrapper_name,
+					serverType: row.server_type || undefined,
+					version: row.server_version || undefined,
+					options: row.options || [],
+				},
+				createdAt: new Date(),
+				modifiedAt: undefined,
+				dependencies: [],
+			};
+		});
+	}
+
+	private async getPublicationsAsync(handle: any, connectionInfo: ConnectionInfo): Promise<DatabaseObject[]> {
+		const query = `
+      SELECT
+        p.pubname AS publication_name,
+        p.puballtables AS all_tables,
+        array_remove(ARRAY[
+          CASE WHEN p.pubinsert THEN 'insert' END,
+          CASE WHEN p.pubupdate THEN 'update' END,
+          CASE WHEN p.pubdelete THEN 'delete' END,
+          CASE WHEN p.pubtruncate THEN 'truncate' END
+        ], NULL) AS operations,
+        ARRAY(
+          SELECT quote_ident(pt.schemaname) || '.' || quote_ident(pt.tablename)
+          FROM pg_publication_tables pt
+          WHERE pt.pubname = p.pubname AND NOT p.puballtables
+          ORDER BY 1
+        ) AS tables,
+        pg_get_userbyid(p.pubowner) AS owner,
+        obj_description(p.oid, 'pg_publication') AS description
+      FROM pg_publication p
+      ORDER BY p.pubname
+    `;
+
+		const result = await handle.connection.query(query);
+
+		return result.rows.map((row: any) => {
+			const tables: string[] = row.tables || [];
+			const operations: string[] = row.operations || [];
+			let definition = `CREATE PUBLICATION ${this.quoteIdentifier(row.publication_name)}`;
+			if (row.all_tables) {
+				definition += " FOR ALL TABLES";
+			} else if (tables.length > 0) {
+				definition += ` FOR TABLE ${tables.join(", ")}`;
+			}
+			definition += ` WITH (publish = ${this.quoteLiteral(operations.join(", "))});`;
+
+			return {
+				id: row.publication_name,
+				name: row.publication_name,
+				schema: "",
+				type: ObjectType.Publication,
+				database: connectionInfo.database,
+				owner: row.owner,
+				definition,
+				properties: {
+					description: row.description,
+					allTables: row.all_tables,
+					operations,
+					tables,
+				},
+				createdAt: new Date(),
+				modifiedAt: undefined,
+				dependencies: tables,
+			};
+		});
+	}
+
+	private async getSubscriptionsAsync(handle: any, connectionInfo: ConnectionInfo): Promise<DatabaseObject[]> {
+		// subconninfo is readable only by superusers, so the connection string is never extracted
+		const query = `
+      SELECT
+        s.subname AS subscription_name,
+        s.subenabled AS enabled,
+        s.subpublications AS publications,
+        s.subslotname AS slot_name,
+        pg_get_userbyid(s.subowner) AS owner,
+        obj_description(s.oid, 'pg_subscription') AS description
+      FROM pg_subscription s
+      WHERE s.subdbid = (SELECT d.oid FROM pg_database d WHERE d.datname = current_database())
+      ORDER BY s.subname
+    `;
+
+		const result = await handle.connection.query(query);
+
+		return result.rows.map((row: any) => {
+			const publications: string[] = row.publications || [];
+			const options = [`enabled = ${row.enabled ? "true" : "false"}`];
+			if (row.slot_name) {
+				options.push(`slot_name = ${this.quoteLiteral(row.slot_name)}`);
+			}
+
+			return {
+				id: row.subscription_name,
+				name: row.subscription_name,
+				schema: "",
+				type: ObjectType.Subscription,
+				database: connectionInfo.database,
+				owner: row.owner,
+				definition:
+					"-- Connection strings are not readable from the catalog; fill in CONNECTION before running\n" +
+					`CREATE SUBSCRIPTION ${this.quoteIdentifier(row.subscription_name)} CONNECTION '' PUBLICATION ${publications.map((pub) => this.quoteIdentifier(pub)).join(", ")} WITH (${options.join(", ")});`,
+				properties: {
+					description: row.description,
+					enabled: row.enabled,
+					publications,
+					slotName: row.slot_name || undefined,
+				},
+				createdAt: new Date(),
+				modifiedAt: undefined,
+				dependencies: [],
+			};
+		});
+	}
+
+	private async getEventTriggersAsync(handle: any, connectionInfo: ConnectionInfo): Promise<DatabaseObject[]> {
+		const query = `
+      SELECT
+        e.evtname AS event_trigger_name,
+        e.evtevent AS event,
+        ${this.qualifiedFunctionName("e.evtfoid")} AS function_name,
+        COALESCE(e.evttags, ARRAY[]::text[]) AS tags,
+        e.evtenabled AS enabled,
+        pg_get_userbyid(e.evtowner) AS owner,
+        obj_description(e.oid, 'pg_event_trigger') AS description
+      FROM pg_event_trigger e
+      WHERE ${this.notExtensionMember("e.oid", "pg_event_trigger")}
+      ORDER BY e.evtname
+    `;
+
+		const result = await handle.connection.query(query);
+
+		return result.rows.map((row: any) => {
+			const tags: string[] = row.tags || [];
+			const name = this.quoteIdentifier(row.event_trigger_name);
+			let definition = `CREATE EVENT TRIGGER ${name} ON ${row.event}`;
+			if (tags.length > 0) {
+				definition += ` WHEN TAG IN (${tags.map((tag) => this.quoteLiteral(tag)).join(", ")})`;
+			}
+			definition += ` EXECUTE FUNCTION ${row.function_name}();`;
+			if (row.enabled === "D") {
+				definition += `\nALTER EVENT TRIGGER ${name} DISABLE;`;
+			}
+
+			return {
+				id: row.event_trigger_name,
+				name: row.event_trigger_name,
+				schema: "",
+				type: ObjectType.EventTrigger,
+				database: connectionInfo.database,
+				owner: row.owner,
+				definition,
+				properties: {
+					description: row.description,
+					event: row.event,
+					tags,
+					functionName: row.function_name,
+					enabled: row.enabled !== "D",
+				},
+				createdAt: new Date(),
+				modifiedAt: undefined,
+				dependencies: [],
+			};
+		});
+	}
+
+	/**
+	 * Read the ACLs of relations, columns, routines, schemas, types and foreign servers and attach them
+	 * to the matching objects as properties.privileges. NULL ACLs are expanded to the built-in defaults,
+	 * and the owner's own entries are left out because ownership already implies them.
+	 */
+	private async attachPrivilegesAsync(
+		handle: any,
+		objects: DatabaseObject[],
+		schemaFilter: string | undefined,
+	): Promise<void> {
+		const query = `
+      WITH acls AS (
+        SELECT 'relation' AS catalog, n.nspname AS object_schema, c.relname AS object_name,
+          NULL::text AS signature, NULL::text AS column_name, c.relowner AS owner_oid,
+          COALESCE(c.relacl, acldefault(CASE WHEN c.relkind = 'S' THEN 's' ELSE 'r' END::"char", c.relowner)) AS acl
+        FROM pg_class c
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE c.relkind IN ('r', 'p', 'v', 'm', 'S', 'f')
+        UNION ALL
+        SELECT 'relation', n.nspname, c.relname, NULL, a.attname, c.relowner, a.attacl
+        FROM pg_attribute a
+        JOIN pg_class c ON c.oid = a.attrelid
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE a.attacl IS NOT NULL AND a.attnum > 0 AND NOT a.attisdropped
+        UNION ALL
+        SELECT 'routine', n.nspname, p.proname, pg_get_function_identity_arguments(p.oid), NULL, p.proowner,
+          COALESCE(p.proacl, acldefault('f', p.proowner))
+        FROM pg_proc p
+        JOIN pg_namespace n ON n.oid = p.pronamespace
+        UNION ALL
+        SELECT 'schema', n.nspname, n.nspname, NULL, NULL, n.nspowner, COALESCE(n.nspacl, acldefault('n', n.nspowner))
+        FROM pg_namespace n
+        UNION ALL
+        SELECT 'type', n.nspname, t.typname, NULL, NULL, t.typowner, COALESCE(t.typacl, acldefault('T', t.typowner))
+        FROM pg_type t
+        JOIN pg_namespace n ON n.oid = t.typnamespace
+        WHERE t.typtype IN ('d', 'e', 'c')
+        UNION ALL
+        SELECT 'server', '', s.srvname, NULL, NULL, s.srvowner, COALESCE(s.srvacl, acldefault('S', s.srvowner))
+        FROM pg_foreign_server s
+      )
+      SELECT
+        a.catalog,
+        a.object_schema,
+        a.object_name,
+        a.signature,
+        a.column_name,
+        CASE WHEN x.grantee = 0 THEN 'PUBLIC' ELSE quote_ident(pg_get_userbyid(x.grantee)) END AS grantee,
+        x.privilege_type,
+        x.is_grantable
+      FROM acls a
+      CROSS JOIN LATERAL aclexplode(a.acl) x
+      WHERE x.grantee <> a.owner_oid
+        AND a.object_schema NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        AND ($1::text IS NULL OR a.object_schema = $1)
+      ORDER BY a.catalog, a.object_schema, a.object_name, a.column_name NULLS FIRST, 6, x.privilege_type
+    `;
+
+		const catalogs: Record<string, string> = {
+			[ObjectType.Table]: "relation",
+			[ObjectType.View]: "relation",
+			[ObjectType.MaterializedView]: "relation",
+			[ObjectType.Sequence]: "relation",
+			[ObjectType.ForeignTable]: "relation",
+			[ObjectType.Function]: "routine",
+			[ObjectType.Procedure]: "routine",
+			[ObjectType.Aggregate]: "routine",
+			[ObjectType.Schema]: "schema",
+			[ObjectType.Type]: "type",
+			[ObjectType.Domain]: "type",
+			[ObjectType.Enum]: "type",
+			[ObjectType.ForeignServer]: "server",
+		};
+		const aclKey = (catalog: string, schema: string, name: string, signature?: string | null) =>
+			`${catalog}|${schema}|${name}|${signature ?? ""}`;
+
+		const grantsByObject = new Map<string, PrivilegeGrant[]>();
+		const result = await handle.connection.query(query, [schemaFilter]);
+		for (const row of result.rows) {
+			const key = aclKey(row.catalog, row.object_schema, row.object_name, row.signature);
+			const grants = grantsByObject.get(key) || [];
+			grants.push({
+				grantee: row.grantee,
+				privilege: row.privilege_type,
+				grantable: row.is_grantable,
+				...(row.column_name ? { column: row.column_name } : {}),
+			});
+			grantsByObject.set(key, grants);
+		}
+
+		for (const obj of objects) {
+			const catalog = catalogs[obj.type];
+			if (catalog) {
+				obj.properties.privileges =
+					grantsByObject.get(aclKey(catalog, obj.schema, obj.name, obj.properties?.signature)) || [];
+			}
+		}
+	}
+
+	private async getDefaultPrivilegesAsync(
+		handle: any,
+		schemaFilter: string | undefined,
+		cancellationToken: AbortSignal | undefined,
+		connectionInfo: ConnectionInfo,
+	): Promise<DatabaseObject[]> {
+		const query = `
+      SELECT
+        pg_get_userbyid(d.defaclrole) AS role_name,
+        COALESCE(n.nspname, '') AS schema_name,
+        CASE d.defaclobjtype
+          WHEN 'r' THEN 'TABLES'
+          WHEN 'S' THEN 'SEQUENCES'
+          WHEN 'f' THEN 'FUNCTIONS'
+          WHEN 'T' THEN 'TYPES'
+          WHEN 'n' THEN 'SCHEMAS'
+        END AS object_class,
+        ARRAY(
+          SELECT json_build_object(
+            'grantee', CASE WHEN x.grantee = 0 THEN 'PUBLIC' ELSE quote_ident(pg_get_userbyid(x.grantee)) END,
+            'privilege', x.privilege_type,
+            'grantable', x.is_grantable
+          )
+          FROM aclexplode(d.defaclacl) x
+          WHERE x.grantee <> d.defaclrole
+        ) AS privileges
+      FROM pg_default_acl d
+      LEFT JOIN pg_namespace n ON n.oid = d.defaclnamespace
+      WHERE $1::text IS NULL OR n.nspname = $1
+      ORDER BY 1, 2, 3
+    `;
+
+		const result = await handle.connection.query(query, [schemaFilter]);
+
+		return result.rows.map((row: any) => {
+			// Sort by name rather than role OID so both sides list grants in the same order
+			const privileges: PrivilegeGrant[] = (row.privileges || []).sort(
+				(a: PrivilegeGrant, b: PrivilegeGrant) =>
+					a.grantee.localeCompare(b.grantee) || a.privilege.localeCompare(b.privilege),
+			);
+			const prefix = `ALTER DEFAULT PRIVILEGES FOR ROLE ${this.quoteIdentifier(row.role_name)}${row.schema_name ? ` IN SCHEMA ${this.quoteIdentifier(row.schema_name)}` : ""}`;
+
+			return {
+				id: `${row.schema_name}.${row.role_name}:${row.object_class.toLowerCase()}`,
+				name: `${row.role_name}:${row.object_class.toLowerCase()}`,
+				schema: row.schema_name,
+				type: ObjectType.DefaultPrivileges,
+				database: connectionInfo.database,
+				owner: row.role_name,
+				definition: privileges
+					.map(
+						(grant) =>
+							`${prefix} GRANT ${grant.privilege} ON ${row.object_class} TO ${grant.grantee}${grant.grantable ? " WITH GRANT OPTION" : ""};`,
+					)
+					.join("\n"),
+				properties: {
+					role: row.role_name,
+					objectClass: row.object_class,
+					privileges,
+				},
+				createdAt: new Date(),
+				modifiedAt: undefined,
+				dependencies: [],
+			};
+		});
+	}
+
+	/**
+	 * SQL condition that skips objects created by an extension; the extension itself stands in for them
+	 */
+	private notExtensionMember(oidColumn: string, catalog: string): string {
+		return `NOT EXISTS (SELECT 1 FROM pg_depend dep WHERE dep.classid = '${catalog}'::regclass AND dep.objid = ${oidColumn} AND dep.deptype = 'e')`;
+	}
+
+	/**
+	 * SQL expression for the schema-qualified name of a function referenced by OID, or NULL when unset
+	 */
+	private qualifiedFunctionName(oidColumn: string): string {
+		return `(SELECT quote_ident(fn.nspname) || '.' || quote_ident(f.proname) FROM pg_proc f JOIN pg_namespace fn ON fn.oid = f.pronamespace WHERE f.oid = ${oidColumn})`;
+	}
+
+	/**
+	 * Build an OPTIONS (...) clause from catalog `key=value` option arrays
+	 */
+	private buildOptionsClause(options: string[] | null, separator: string): string {
+		if (!options || options.length === 0) {
+			return "";
+		}
+		const entries = options.map((option) => {
+			const index = option.indexOf("=");
+			return `${this.quoteIdentifier(option.substring(0, index))} ${this.quoteLiteral(option.substring(index + 1))}`;
+		});
+		return `${separator}OPTIONS (${entries.join(", ")})`;
+	}
+
 	/**
 	 * Dispose of resources
 	 */
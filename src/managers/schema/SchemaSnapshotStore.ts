@@ -0,0 +1,173 @@
+import { createHash } from "crypto";
+import { Logger } from "@/utils/Logger";
+import { DatabaseObject } from "./SchemaOperations";
+import { SqlDirectoryReference } from "./SqlSchemaDirectory";
+
+/**
+ * Current on-disk format version for schema snapshot files.
+ * Bump when the file layout changes in a way older readers cannot handle.
+ */
+export const SCHEMA_SNAPSHOT_FORMAT_VERSION = 1;
+
+export type SnapshotObject = Omit<DatabaseObject, "createdAt" | "modifiedAt" | "sizeInBytes">;
+
+export interface SchemaSnapshotFile {
+	formatVersion: number;
+	connectionId: string;
+	connectionName?: string;
+	database: string;
+	capturedAt: string;
+	schemaHash: string;
+	objectCount: number;
+	objects: SnapshotObject[];
+}
+
+export interface SchemaSnapshotReference {
+	snapshotPath: string;
+}
+
+/**
+ * A comparison side is a live connection ID, a saved snapshot file or a folder of SQL files
+ */
+export type SchemaComparisonSource = string | SchemaSnapshotReference | SqlDirectoryReference;
+
+export interface LoadedSchemaSnapshot {
+	snapshot: SchemaSnapshotFile;
+	objects: DatabaseObject[];
+}
+
+/**
+ * SchemaSnapshotStore - Reads and writes offline schema snapshot files
+ * Snapshots are plain JSON so they can be committed to source control and diffed in review
+ */
+export class SchemaSnapshotStore {
+	/**
+	 * Save a connection's object catalog to a snapshot file
+	 */
+	async saveSnapshot(
+		filePath: string,
+		objects: DatabaseObject[],
+		metadata: { connectionId: string; connectionName?: string; database: string },
+	): Promise<SchemaSnapshotFile> {
+		try {
+			const fs = require("fs").promises;
+			const path = require("path");
+
+			const snapshotObjects = this.sortObjects(objects).map((obj) => this.toSnapshotObject(obj));
+			const snapshot: SchemaSnapshotFile = {
+				formatVersion: SCHEMA_SNAPSHOT_FORMAT_VERSION,
+				connectionId: metadata.connectionId,
+				connectionName: metadata.connectionName,
+				database: metadata.database,
+				capturedAt: new Date().toISOString(),
+				schemaHash: this.computeSchemaHash(snapshotObjects),
+				objectCount: snapshotObjects.length,
+				objects: snapshotObjects,
+			};
+
+			await fs.mkdir(path.dirname(filePath), { recursive: true });
+			await fs.writeFile(filePath, `${JSON.stringify(snapshot, null, 2)}\n`, "utf8");
+
+			Logger.info("Schema snapshot saved", "saveSnapshot", {
+				filePath,
+				connectionId: metadata.connectionId,
+				objectCount: snapshot.objectCount,
+			});
+
+			return snapshot;
+		} catch (error) {
+			Logger.error("Failed to save schema snapshot", error as Error, "saveSnapshot", { filePath });
+			throw error;
+		}
+	}
+
+	/**
+	 * Load a snapshot file and rehydrate its objects for comparison
+	 */
+	async loadSnapshot(filePath: string): Promise<LoadedSchemaSnapshot> {
+		try {
+			const fs = require("fs").promises;
+			const content = await fs.readFile(filePath, "utf8");
+			const snapshot = JSON.parse(content) as SchemaSnapshotFile;
+
+			if (!snapshot || typeof snapshot.formatVersion !== "number" || !Array.isArray(snapshot.objects)) {
+				throw new Error(`${filePath} is not a valid schema snapshot file`);
+			}
+			if (snapshot.formatVersion > SCHEMA_SNAPSHOT_FORMAT_VERSION) {
+				throw new Error(
+					`Snapshot format version ${snapshot.formatVersion} is newer than supported version ${SCHEMA_SNAPSHOT_FORMAT_VERSION}`,
+				);
+			}
+
+			const actualHash = this.computeSchemaHash(snapshot.objects);
+			if (snapshot.schemaHash && snapshot.schemaHash !== actualHash) {
+				Logger.warn("Schema snapshot hash mismatch - file may have been edited by hand", "loadSnapshot", {
+					filePath,
+					expectedHash: snapshot.schemaHash,
+					actualHash,
+				});
+			}
+
+			const capturedAt = new Date(snapshot.capturedAt);
+			const objects: DatabaseObject[] = snapshot.objects.map((obj) => ({
+				...obj,
+				properties: obj.properties || {},
+				dependencies: obj.dependencies || [],
+				createdAt: capturedAt,
+				modifiedAt: undefined,
+			}));
+
+			Logger.info("Schema snapshot loaded", "loadSnapshot", {
+				filePath,
+				connectionId: snapshot.connectionId,
+				objectCount: objects.length,
+			});
+
+			return { snapshot, objects };
+		} catch (error) {
+			Logger.error("Failed to load schema snapshot", error as Error, "loadSnapshot", { filePath });
+			throw error;
+		}
+	}
+
+	/**
+	 * Check whether a comparison source refers to a snapshot file
+	 */
+	static isSnapshotReference(source: SchemaComparisonSource): source is SchemaSnapshotReference {
+		return (
+			typeof source === "object" &&
+			source !== null &&
+			typeof (source as SchemaSnapshotReference).snapshotPath === "string"
+		);
+	}
+
+	/**
+	 * Strip fields that change on every fetch, including the table size and row estimate, so snapshot files
+	 * stay stable in source control
+	 */
+	private toSnapshotObject(obj: DatabaseObject): SnapshotObject {
+		const { createdAt: _createdAt, modifiedAt: _modifiedAt, sizeInBytes: _sizeInBytes, ...rest } = obj;
+		const { estimatedRowCount: _estimatedRowCount, ...properties } = rest.properties || {};
+		return { ...rest, properties };
+	}
+
+	/**
+	 * Sort objects by identity so the same catalog always serializes identically
+	 */
+	private sortObjects<T extends { type: string; schema: string; name: string }>(objects: T[]): T[] {
+		return [...objects].sort((a, b) =>
+			`${a.type}:${a.schema}:${a.name}`.localeCompare(`${b.type}:${b.schema}:${b.name}`),
+		);
+	}
+
+	/**
+	 * Hash object identities and definitions for change detection
+	 */
+	private computeSchemaHash(objects: SnapshotObject[]): string {
+		const hash = createHash("sha256");
+		for (const obj of this.sortObjects(objects)) {
+			hash.update(`${obj.type}:${obj.schema}:${obj.name}:${obj.definition || ""}|`);
+		}
+		return hash.digest("hex");
+	}
+}
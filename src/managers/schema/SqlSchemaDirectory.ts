@@ -0,0 +1,1911 @@
+import { Parser } from "node-sql-parser";
+import { Logger } from "@/utils/Logger";
+import { SchemaDifference } from "./SchemaComparison";
+import {
+	DatabaseObject,
+	ObjectType,
+	SchemaOperations,
+	TableColumnDefinition,
+	TableConstraintDefinition,
+	ViewColumnDefinition,
+} from "./SchemaOperations";
+
+export interface SqlDirectoryReference {
+	sqlDirectory: string;
+}
+
+/**
+ * A statement that could not be turned into an object, or an object that could not be written back
+ */
+export interface SqlDirectoryIssue {
+	file: string;
+	statement: string;
+	reason: string;
+}
+
+export interface LoadedSqlDirectory {
+	objects: DatabaseObject[];
+	issues: SqlDirectoryIssue[];
+	fileCount: number;
+}
+
+export interface SqlDirectoryWriteResult {
+	written: string[];
+	deleted: string[];
+	skipped: SqlDirectoryIssue[];
+}
+
+interface SqlToken {
+	kind: "word" | "quoted" | "string" | "group" | "symbol";
+	text: string;
+	start: number;
+	end: number;
+}
+
+interface SqlStatement {
+	file: string;
+	text: string;
+	/** Range in the file covering the statement and its terminating semicolon */
+	start: number;
+	end: number;
+}
+
+interface TableDraft {
+	row: any;
+	parents: { schema: string; name: string }[];
+	columns: TableColumnDefinition[];
+	constraints: TableConstraintDefinition[];
+	indexFlags: { clusterIndex?: string; replicaIdentityIndex?: string };
+	statements: SqlStatement[];
+}
+
+/**
+ * Folder, relative to the schema folder, that holds each object type in the canonical layout
+ */
+const OBJECT_TYPE_FOLDERS: Record<string, string> = {
+	[ObjectType.Table]: "tables",
+	[ObjectType.View]: "views",
+	[ObjectType.MaterializedView]: "materialized_views",
+	[ObjectType.Function]: "functions",
+	[ObjectType.Procedure]: "procedures",
+	[ObjectType.Sequence]: "sequences",
+	[ObjectType.Type]: "types",
+	[ObjectType.Enum]: "types",
+	[ObjectType.Domain]: "domains",
+	[ObjectType.Collation]: "collations",
+	[ObjectType.Index]: "indexes",
+	[ObjectType.Trigger]: "triggers",
+	[ObjectType.Policy]: "policies",
+	[ObjectType.Rule]: "rules",
+	[ObjectType.Extension]: "extensions",
+	[ObjectType.Schema]: "",
+};
+
+/**
+ * Object types a SQL folder can describe; comparisons against a folder leave other types out
+ */
+export const SQL_DIRECTORY_OBJECT_TYPES: string[] = [...Object.keys(OBJECT_TYPE_FOLDERS), ObjectType.Constraint];
+
+/**
+ * COMMENT ON keyword for each object type that keeps its comment outside its definition
+ */
+const COMMENT_KEYWORDS: Record<string, string> = {
+	[ObjectType.View]: "VIEW",
+	[ObjectType.MaterializedView]: "MATERIALIZED VIEW",
+	[ObjectType.Function]: "FUNCTION",
+	[ObjectType.Procedure]: "PROCEDURE",
+	[ObjectType.Sequence]: "SEQUENCE",
+	[ObjectType.Type]: "TYPE",
+	[ObjectType.Enum]: "TYPE",
+	[ObjectType.Domain]: "DOMAIN",
+	[ObjectType.Collation]: "COLLATION",
+	[ObjectType.Index]: "INDEX",
+	[ObjectType.Trigger]: "TRIGGER",
+	[ObjectType.Policy]: "POLICY",
+	[ObjectType.Rule]: "RULE",
+	[ObjectType.Extension]: "EXTENSION",
+	[ObjectType.Schema]: "SCHEMA",
+};
+
+/**
+ * Spellings accepted in DDL, mapped to the name format_type() reports
+ */
+const DATA_TYPE_ALIASES: Record<string, string> = {
+	int: "integer",
+	int4: "integer",
+	integer: "integer",
+	int8: "bigint",
+	bigint: "bigint",
+	int2: "smallint",
+	smallint: "smallint",
+	bool: "boolean",
+	boolean: "boolean",
+	float8: "double precision",
+	"double precision": "double precision",
+	float4: "real",
+	real: "real",
+	varchar: "character varying",
+	"character varying": "character varying",
+	char: "character",
+	character: "character",
+	decimal: "numeric",
+	numeric: "numeric",
+	varbit: "bit varying",
+	"bit varying": "bit varying",
+};
+
+const ZONED_TYPE_ALIASES: Record<string, [string, string]> = {
+	timestamp: ["timestamp", "without"],
+	timestamptz: ["timestamp", "with"],
+	time: ["time", "without"],
+	timetz: ["time", "with"],
+};
+
+const SERIAL_TYPES: Record<string, string> = {
+	smallserial: "smallint",
+	serial2: "smallint",
+	serial: "integer",
+	serial4: "integer",
+	bigserial: "bigint",
+	serial8: "bigint",
+};
+
+const INTEGER_TYPE_BOUNDS: Record<string, [string, string]> = {
+	smallint: ["-32768", "32767"],
+	integer: ["-2147483648", "2147483647"],
+	bigint: ["-9223372036854775808", "9223372036854775807"],
+};
+
+/**
+ * Keywords that end a column's data type or default expression
+ */
+const COLUMN_CLAUSE_KEYWORDS = new Set([
+	"COLLATE",
+	"DEFAULT",
+	"NOT",
+	"NULL",
+	"GENERATED",
+	"CONSTRAINT",
+	"PRIMARY",
+	"UNIQUE",
+	"CHECK",
+	"REFERENCES",
+]);
+
+/**
+ * Statements that are valid in a schema folder but describe nothing this comparison models
+ */
+const IGNORED_STATEMENT_PATTERN =
+	/^(?:GRANT|REVOKE|SET|RESET|BEGIN|COMMIT|START\s+TRANSACTION|SELECT\s+pg_catalog\.set_config|ALTER\s+DEFAULT\s+PRIVILEGES|ALTER\s+\w+(?:\s+\w+)?\s+.+\s+OWNER\s+TO|ALTER\s+SEQUENCE\s+.+\s+OWNED\s+BY)\b/is;
+
+/**
+ * SqlSchemaDirectory - Reads a folder of DDL files as a comparison source and writes database objects back to it
+ * DDL is read with a PostgreSQL-aware tokenizer because node-sql-parser rejects identity columns, INHERITS,
+ * storage parameters and dollar-quoted bodies; the parser is still used to find the tables a view reads.
+ * Tables, sequences, enums and composite types are rebuilt in the same canonical form SchemaOperations
+ * extracts, so unchanged objects compare equal. Other objects keep their statement text as their definition.
+ */
+export class SqlSchemaDirectory {
+	private schemaOperations: SchemaOperations;
+	private sqlParser: Parser;
+
+	constructor(schemaOperations: SchemaOperations) {
+		this.schemaOperations = schemaOperations;
+		this.sqlParser = new Parser();
+	}
+
+	/**
+	 * Check whether a comparison source refers to a folder of SQL files
+	 */
+	static isSqlDirectoryReference(source: unknown): source is SqlDirectoryReference {
+		return (
+			typeof source === "object" &&
+			source !== null &&
+			typeof (source as SqlDirectoryReference).sqlDirectory === "string"
+		);
+	}
+
+	/**
+	 * Parse every .sql file below a directory into database objects
+	 */
+	async loadDirectory(directory: string): Promise<LoadedSqlDirectory> {
+		const { objects, issues, fileCount } = await this.readDirectory(directory);
+
+		for (const issue of issues) {
+			Logger.warn("Skipped SQL statement", "loadDirectory", issue);
+		}
+		Logger.info("SQL schema folder loaded", "loadDirectory", {
+			directory,
+			fileCount,
+			objectCount: objects.length,
+			skippedStatements: issues.length,
+		});
+
+		return { objects, issues, fileCount };
+	}
+
+	/**
+	 * Bring a SQL folder in line with a database, given the differences from comparing the folder (source)
+	 * to the database (target). Changed objects are rewritten where the folder defines them, new objects
+	 * get a file in the canonical `<schema>/<type>/<name>.sql` layout, and files left without statements are deleted.
+	 */
+	async applyDifferences(
+		directory: string,
+		differences: SchemaDifference[],
+		databaseObjects: DatabaseObject[],
+	): Promise<SqlDirectoryWriteResult> {
+		const fs = require("fs").promises;
+		const path = require("path");
+
+		const loaded = await this.readDirectory(directory);
+		const folderObjects = new Map(loaded.objects.map((obj) => [this.getObjectKey(obj), obj]));
+		const databaseObjectMap = new Map(databaseObjects.map((obj) => [this.getObjectKey(obj), obj]));
+		const edits = new Map<string, Array<{ start: number; end: number; text: string }>>();
+		const appends = new Map<string, string[]>();
+		const skipped: SqlDirectoryIssue[] = [];
+
+		const replaceStatements = (statements: SqlStatement[], text: string) => {
+			statements.forEach((statement, index) => {
+				const fileEdits = edits.get(statement.file) || [];
+				fileEdits.push({ start: statement.start, end: statement.end, text: index === 0 ? text : "" });
+				edits.set(statement.file, fileEdits);
+			});
+		};
+
+		for (const difference of differences) {
+			if (difference.category === "privileges") {
+				continue;
+			}
+			const key = this.getDifferenceKey(difference, difference.objectName);
+			const databaseObj = databaseObjectMap.get(key);
+
+			if (databaseObj && this.isImplicitDatabaseObject(databaseObj, databaseObjects)) {
+				continue;
+			}
+			if (difference.type !== "Removed" && (!databaseObj || OBJECT_TYPE_FOLDERS[databaseObj.type] === undefined)) {
+				skipped.push({
+					file: "",
+					statement: `${difference.objectType} ${difference.schema}.${difference.objectName}`,
+					reason: `${difference.objectType} objects are not stored in SQL folders`,
+				});
+				continue;
+			}
+
+			const folderObj =
+				difference.type === "Renamed"
+					? folderObjects.get(this.getDifferenceKey(difference, difference.previousName || ""))
+					: folderObjects.get(key);
+			const statements = folderObj ? this.getStatements(folderObj) : [];
+
+			if (difference.type === "Removed") {
+				replaceStatements(statements, "");
+			} else if (statements.length > 0) {
+				replaceStatements(statements, this.toFileStatements(databaseObj!));
+			} else {
+				const filePath = this.getCanonicalPath(databaseObj!);
+				appends.set(filePath, [...(appends.get(filePath) || []), this.toFileStatements(databaseObj!)]);
+			}
+		}
+
+		const written: string[] = [];
+		const deleted: string[] = [];
+
+		for (const [file, fileEdits] of Array.from(edits)) {
+			const filePath = path.join(directory, file);
+			let content: string = await fs.readFile(filePath, "utf8");
+			for (const edit of fileEdits.sort((a, b) => b.start - a.start)) {
+				const end = edit.text === "" ? this.skipLineBreak(content, edit.end) : edit.end;
+				content = content.slice(0, edit.start) + edit.text + content.slice(end);
+			}
+			const additions = appends.get(file);
+			if (additions) {
+				content = `${content.trimEnd()}\n\n${additions.join("\n\n")}\n`;
+				appends.delete(file);
+			}
+
+			if (this.splitStatements(content, file).length === 0) {
+				await fs.unlink(filePath);
+				deleted.push(file);
+			} else {
+				await fs.writeFile(filePath, content, "utf8");
+				written.push(file);
+			}
+		}
+
+		for (const [file, additions] of Array.from(appends)) {
+			const filePath = path.join(directory, file);
+			await fs.mkdir(path.dirname(filePath), { recursive: true });
+			let existing = "";
+			try {
+				existing = `${(await fs.readFile(filePath, "utf8")).trimEnd()}\n\n`;
+			} catch (error) {
+				if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+					throw error;
+				}
+			}
+			await fs.writeFile(filePath, `${existing}${additions.join("\n\n")}\n`, "utf8");
+			written.push(file);
+		}
+
+		Logger.info("SQL schema folder updated", "applyDifferences", {
+			directory,
+			written: written.length,
+			deleted: deleted.length,
+			skipped: skipped.length,
+		});
+
+		return { written: written.sort(), deleted: deleted.sort(), skipped };
+	}
+
+	/**
+	 * Path, relative to the folder root, that a new object is written to
+	 */
+	getCanonicalPath(obj: DatabaseObject): string {
+		const safe = (value: string) => value.replace(/[^A-Za-z0-9_.-]/g, "_");
+		if (obj.type === ObjectType.Schema) {
+			return `${safe(obj.name)}/schema.sql`;
+		}
+		const tablePrefix =
+			obj.type !== ObjectType.Index && obj.properties?.tableName ? `${safe(obj.properties.tableName)}.` : "";
+		return `${safe(obj.schema)}/${OBJECT_TYPE_FOLDERS[obj.type]}/${tablePrefix}${safe(obj.name)}.sql`;
+	}
+
+	private async readDirectory(directory: string): Promise<LoadedSqlDirectory> {
+		const fs = require("fs").promises;
+		const path = require("path");
+		const files = await this.listSqlFiles(directory, "");
+		const statements: SqlStatement[] = [];
+
+		for (const file of files) {
+			const content: string = await fs.readFile(path.join(directory, file), "utf8");
+			statements.push(...this.splitStatements(content, file));
+		}
+
+		const { objects, issues } = this.buildObjects(statements);
+		return { objects, issues, fileCount: files.length };
+	}
+
+	/**
+	 * Recursively list .sql files as sorted forward-slash paths relative to the root
+	 */
+	private async listSqlFiles(root: string, relative: string): Promise<string[]> {
+		const fs = require("fs").promises;
+		const path = require("path");
+		const entries = await fs.readdir(path.join(root, relative), { withFileTypes: true });
+		const files: string[] = [];
+
+		for (const entry of entries) {
+			if (entry.name.startsWith(".") || entry.name === "node_modules") {
+				continue;
+			}
+			const entryPath = relative ? `${relative}/${entry.name}` : entry.name;
+			if (entry.isDirectory()) {
+				files.push(...(await this.listSqlFiles(root, entryPath)));
+			} else if (entry.isFile() && entry.name.toLowerCase().endsWith(".sql")) {
+				files.push(entryPath);
+			}
+		}
+
+		return files.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+	}
+
+	/**
+	 * Turn statements into objects. Tables are built last so ALTER TABLE and COMMENT ON statements
+	 * can appear in any file, before or after the CREATE TABLE they apply to.
+	 */
+	private buildObjects(statements: SqlStatement[]): { objects: DatabaseObject[]; issues: SqlDirectoryIssue[] } {
+		const issues: SqlDirectoryIssue[] = [];
+		const tables = new Map<string, TableDraft>();
+		const objects: DatabaseObject[] = [];
+		const followUps: Array<{ statement: SqlStatement; tokens: SqlToken[] }> = [];
+		const statementsByObject = new Map<DatabaseObject, SqlStatement[]>();
+		const issue = (statement: SqlStatement, reason: string) =>
+			issues.push({ file: statement.file, statement: this.summarize(statement.text), reason });
+
+		for (const statement of statements) {
+			const tokens = this.tokenize(statement.text);
+			const header = tokens
+				.slice(0, 4)
+				.map((token) => this.keyword(token))
+				.join(" ");
+
+			if (IGNORED_STATEMENT_PATTERN.test(statement.text)) {
+				continue;
+			}
+			if (/^ALTER (?:TABLE|INDEX)\b/.test(header) || /^COMMENT ON\b/.test(header)) {
+				followUps.push({ statement, tokens });
+				continue;
+			}
+			if (!header.startsWith("CREATE ")) {
+				issue(statement, "Only CREATE, ALTER TABLE and COMMENT ON statements are read");
+				continue;
+			}
+
+			try {
+				if (/^CREATE (?:(?:GLOBAL|LOCAL) )?(?:UNLOGGED |TEMP |TEMPORARY )?TABLE\b/.test(header)) {
+					const draft = this.parseCreateTable(tokens, statement);
+					const key = `${draft.row.table_schema}.${draft.row.table_name}`;
+					if (tables.has(key)) {
+						issue(statement, `Table ${key} is defined more than once`);
+						continue;
+					}
+					tables.set(key, draft);
+					continue;
+				}
+
+				const obj = this.parseCreateStatement(tokens, statement);
+				if (!obj) {
+					issue(statement, "Unsupported CREATE statement");
+					continue;
+				}
+				if (objects.some((existing) => this.getObjectKey(existing) === this.getObjectKey(obj))) {
+					issue(statement, `${obj.type} ${obj.schema}.${obj.name} is defined more than once`);
+					continue;
+				}
+				objects.push(obj);
+				statementsByObject.set(obj, [statement]);
+			} catch (error) {
+				issue(statement, (error as Error).message);
+			}
+		}
+
+		for (const { statement, tokens } of followUps) {
+			try {
+				const reason =
+					this.keyword(tokens[0]) === "COMMENT"
+						? this.applyComment(tokens, tables, objects)
+						: this.applyAlterTable(tokens, statement, tables);
+				if (reason) {
+					issue(statement, reason);
+				}
+			} catch (error) {
+				issue(statement, (error as Error).message);
+			}
+		}
+
+		this.resolveInheritance(tables);
+
+		const tableObjects: DatabaseObject[] = [];
+		for (const draft of Array.from(tables.values())) {
+			const table = this.buildTableObject(draft);
+			tableObjects.push(table, ...this.buildImplicitObjects(draft, objects));
+			statementsByObject.set(table, draft.statements);
+		}
+
+		// Schemas that objects live in exist even when no file creates them
+		const allObjects = [...tableObjects, ...objects];
+		const declaredSchemas = new Set(allObjects.filter((obj) => obj.type === ObjectType.Schema).map((obj) => obj.name));
+		for (const schema of Array.from(new Set(allObjects.map((obj) => obj.schema)))) {
+			if (schema && !declaredSchemas.has(schema)) {
+				allObjects.push(this.createObject(ObjectType.Schema, schema, schema, `CREATE SCHEMA "${schema}";`, {}, ""));
+			}
+		}
+
+		for (const [obj, objectStatements] of Array.from(statementsByObject)) {
+			this.statementLocations.set(obj, objectStatements);
+		}
+
+		return { objects: allObjects, issues };
+	}
+
+	/**
+	 * Where each loaded object is defined; implicit objects such as constraints and serial sequences have none
+	 */
+	private statementLocations = new WeakMap<DatabaseObject, SqlStatement[]>();
+
+	private getStatements(obj: DatabaseObject): SqlStatement[] {
+		return this.statementLocations.get(obj) || [];
+	}
+
+	/**
+	 * Parse a CREATE statement for anything other than a table
+	 */
+	private parseCreateStatement(tokens: SqlToken[], statement: SqlStatement): DatabaseObject | undefined {
+		let index = 1;
+		if (this.keyword(tokens[index]) === "OR" && this.keyword(tokens[index + 1]) === "REPLACE") {
+			index += 2;
+		}
+		while (["TEMP", "TEMPORARY", "RECURSIVE", "TRUSTED", "PROCEDURAL"].includes(this.keyword(tokens[index]))) {
+			index++;
+		}
+		const kind = this.keyword(tokens[index]);
+		const text = statement.text;
+
+		switch (kind) {
+			case "SCHEMA": {
+				index = this.skipIfNotExists(tokens, index + 1);
+				const name =
+					this.keyword(tokens[index]) === "AUTHORIZATION"
+						? this.identifierValue(tokens[index + 1])
+						: this.identifierValue(tokens[index]);
+				return this.createObject(
+					ObjectType.Schema,
+					name,
+					name,
+					`CREATE SCHEMA ${this.quoteIdentifier(name)};`,
+					{},
+					statement.file,
+				);
+			}
+
+			case "EXTENSION": {
+				index = this.skipIfNotExists(tokens, index + 1);
+				const name = this.identifierValue(tokens[index]);
+				const schemaIndex = tokens.findIndex((token, position) => position > index && this.keyword(token) === "SCHEMA");
+				const versionIndex = tokens.findIndex(
+					(token, position) => position > index && this.keyword(token) === "VERSION",
+				);
+				const schema = schemaIndex > 0 ? this.identifierValue(tokens[schemaIndex + 1]) : "public";
+				const version = versionIndex > 0 ? this.literalValue(tokens[versionIndex + 1]) : undefined;
+				const head = `CREATE EXTENSION IF NOT EXISTS ${this.quoteIdentifier(name)} WITH SCHEMA ${this.quoteIdentifier(schema)}`;
+				// Without a pinned version only the definition text can be compared
+				return version !== undefined
+					? this.createObject(
+							ObjectType.Extension,
+							name,
+							schema,
+							`${head} VERSION ${this.quoteLiteral(version)};`,
+							{ version },
+							statement.file,
+						)
+					: this.createObject(ObjectType.Extension, name, schema, `${head};`, { definitionOnly: true }, statement.file);
+			}
+
+			case "VIEW": {
+				const { schema, name, next } = this.readQualifiedName(tokens, index + 1);
+				const asIndex = tokens.findIndex((token, position) => position >= next && this.keyword(token) === "AS");
+				if (asIndex < 0) {
+					throw new Error("CREATE VIEW without AS");
+				}
+				const query = text.slice(tokens[asIndex].end).trim();
+				// Views are extracted as their query alone, the way pg_get_viewdef returns it
+				const view = this.createObject(
+					ObjectType.View,
+					name,
+					schema,
+					`${query};`,
+					{ definitionOnly: true },
+					statement.file,
+				);
+				view.dependencies = this.getQueryDependencies(query, schema);
+				return view;
+			}
+
+			case "MATERIALIZED": {
+				const { schema, name } = this.readQualifiedName(tokens, this.skipIfNotExists(tokens, index + 2));
+				const asIndex = tokens.findIndex((token) => this.keyword(token) === "AS");
+				const view = this.createObject(
+					ObjectType.MaterializedView,
+					name,
+					schema,
+					`${text};`,
+					{ definitionOnly: true },
+					statement.file,
+				);
+				if (asIndex > 0) {
+					view.dependencies = this.getQueryDependencies(
+						text.slice(tokens[asIndex].end).replace(/\s+WITH\s+(?:NO\s+)?DATA\s*$/i, ""),
+						schema,
+					);
+				}
+				return view;
+			}
+
+			case "FUNCTION":
+			case "PROCEDURE": {
+				const { schema, name, next } = this.readQualifiedName(tokens, index + 1);
+				const argumentGroup = tokens[next];
+				if (argumentGroup?.kind !== "group") {
+					throw new Error(`${kind} ${name} has no argument list`);
+				}
+				const type = kind === "FUNCTION" ? ObjectType.Function : ObjectType.Procedure;
+				// pg_get_functiondef output carries no terminating semicolon
+				return this.createObject(
+					type,
+					name,
+					schema,
+					text,
+					{ signature: this.getIdentityArguments(argumentGroup.text, type), definitionOnly: true },
+					statement.file,
+				);
+			}
+
+			case "SEQUENCE": {
+				const { schema, name, next } = this.readQualifiedName(tokens, this.skipIfNotExists(tokens, index + 1));
+				return this.buildSequenceObject(schema, name, this.parseSequenceOptions(tokens, next), statement.file);
+			}
+
+			case "TYPE": {
+				const { schema, name, next } = this.readQualifiedName(tokens, index + 1);
+				const qualifiedName = `${this.quoteIdentifier(schema)}.${this.quoteIdentifier(name)}`;
+				if (this.keyword(tokens[next]) === "AS" && this.keyword(tokens[next + 1]) === "ENUM") {
+					const values = this.tokenize(this.groupContent(tokens[next + 2]))
+						.filter((token) => token.kind === "string")
+						.map((token) => this.literalValue(token) as string);
+					return this.createObject(
+						ObjectType.Enum,
+						name,
+						schema,
+						`CREATE TYPE ${qualifiedName} AS ENUM (${values.map((value) => this.quoteLiteral(value)).join(", ")});`,
+						{ values },
+						statement.file,
+					);
+				}
+				if (this.keyword(tokens[next]) === "AS" && tokens[next + 1]?.kind === "group") {
+					const attributes: ViewColumnDefinition[] = this.splitTopLevel(this.groupContent(tokens[next + 1])).map(
+						(element) => {
+							const elementTokens = this.tokenize(element);
+							const collateIndex = elementTokens.findIndex((token) => this.keyword(token) === "COLLATE");
+							const typeEnd = collateIndex > 0 ? elementTokens[collateIndex - 1].end : element.length;
+							return {
+								name: this.identifierValue(elementTokens[0]),
+								dataType: this.normalizeDataType(element.slice(elementTokens[1]?.start ?? 0, typeEnd)).dataType,
+							};
+						},
+					);
+					return this.createObject(
+						ObjectType.Type,
+						name,
+						schema,
+						`CREATE TYPE ${qualifiedName} AS (${attributes.map((attr) => `${this.quoteIdentifier(attr.name)} ${attr.dataType}`).join(", ")});`,
+						{ attributes, definitionOnly: true },
+						statement.file,
+					);
+				}
+				return undefined;
+			}
+
+			case "DOMAIN":
+			case "COLLATION": {
+				const { schema, name } = this.readQualifiedName(tokens, this.skipIfNotExists(tokens, index + 1));
+				const type = kind === "DOMAIN" ? ObjectType.Domain : ObjectType.Collation;
+				return this.createObject(type, name, schema, `${text};`, { definitionOnly: true }, statement.file);
+			}
+
+			case "UNIQUE":
+			case "INDEX": {
+				const isUnique = kind === "UNIQUE";
+				index = isUnique ? index + 2 : index + 1;
+				if (this.keyword(tokens[index]) === "CONCURRENTLY") {
+					index++;
+				}
+				index = this.skipIfNotExists(tokens, index);
+				const name = this.identifierValue(tokens[index]);
+				if (this.keyword(tokens[index + 1]) !== "ON") {
+					throw new Error("Indexes need an explicit name");
+				}
+				index += 2;
+				const only = this.keyword(tokens[index]) === "ONLY";
+				const table = this.readQualifiedName(tokens, only ? index + 1 : index);
+				let restIndex = table.next;
+				let method = "btree";
+				if (this.keyword(tokens[restIndex]) === "USING") {
+					method = this.identifierValue(tokens[restIndex + 1]);
+					restIndex += 2;
+				}
+				// Rebuild the header the way pg_get_indexdef prints it so unchanged indexes compare equal
+				const definition =
+					`CREATE ${isUnique ? "UNIQUE " : ""}INDEX ${this.quoteIdentifierIfNeeded(name)} ON ${only ? "ONLY " : ""}` +
+					`${this.quoteIdentifierIfNeeded(table.schema)}.${this.quoteIdentifierIfNeeded(table.name)} USING ${method} ` +
+					`${text.slice(tokens[restIndex]?.start ?? text.length).trim()};`;
+				return this.createObject(
+					ObjectType.Index,
+					name,
+					table.schema,
+					definition,
+					{ tableName: table.name, isUnique, method, definitionOnly: true },
+					statement.file,
+				);
+			}
+
+			case "CONSTRAINT":
+			case "TRIGGER":
+			case "POLICY":
+			case "RULE": {
+				const nameIndex = kind === "CONSTRAINT" ? index + 2 : index + 1;
+				const name = this.identifierValue(tokens[nameIndex]);
+				const onIndex = tokens.findIndex(
+					(token, position) =>
+						position > nameIndex &&
+						(kind === "RULE" ? this.keyword(token) === "TO" : this.keyword(token) === "ON") &&
+						(kind !== "TRIGGER" || this.isTriggerTableReference(tokens, position)),
+				);
+				if (onIndex < 0) {
+					throw new Error(`${kind} ${name} has no table`);
+				}
+				const table = this.readQualifiedName(tokens, onIndex + 1);
+				const type = kind === "POLICY" ? ObjectType.Policy : kind === "RULE" ? ObjectType.Rule : ObjectType.Trigger;
+				return this.createObject(
+					type,
+					name,
+					table.schema,
+					`${text};`,
+					{ tableName: table.name, definitionOnly: true },
+					statement.file,
+				);
+			}
+
+			default:
+				return undefined;
+		}
+	}
+
+	/**
+	 * A trigger's ON is followed by the table; ON also appears in events such as UPDATE OF col ON
+	 */
+	private isTriggerTableReference(tokens: SqlToken[], position: number): boolean {
+		const previous = tokens.slice(0, position).map((token) => this.keyword(token));
+		return previous.some((word) => ["INSERT", "UPDATE", "DELETE", "TRUNCATE"].includes(word));
+	}
+
+	/**
+	 * Parse CREATE TABLE into the catalog row shape SchemaOperations builds definitions from
+	 */
+	private parseCreateTable(tokens: SqlToken[], statement: SqlStatement): TableDraft {
+		let index = 1;
+		let persistence = "p";
+		while (this.keyword(tokens[index]) !== "TABLE") {
+			if (this.keyword(tokens[index]) === "UNLOGGED") {
+				persistence = "u";
+			}
+			index++;
+		}
+		const { schema, name, next } = this.readQualifiedName(tokens, this.skipIfNotExists(tokens, index + 1));
+		const text = statement.text;
+		const draft: TableDraft = {
+			row: {
+				table_schema: schema,
+				table_name: name,
+				persistence,
+				is_partition: false,
+				partition_key: null,
+				partition_bound: null,
+				reloptions: null,
+				tablespace: null,
+				replica_identity: "d",
+				row_security: false,
+				force_row_security: false,
+				description: null,
+			},
+			parents: [],
+			columns: [],
+			constraints: [],
+			indexFlags: {},
+			statements: [statement],
+		};
+
+		index = next;
+		if (this.keyword(tokens[index]) === "PARTITION" && this.keyword(tokens[index + 1]) === "OF") {
+			const parent = this.readQualifiedName(tokens, index + 2);
+			draft.parents.push({ schema: parent.schema, name: parent.name });
+			draft.row.is_partition = true;
+			index = parent.next;
+			if (tokens[index]?.kind === "group") {
+				this.parseTableElements(draft, this.groupContent(tokens[index]));
+				index++;
+			}
+			const boundEnd = this.findKeyword(tokens, index, ["PARTITION", "WITH", "TABLESPACE", "USING"]);
+			draft.row.partition_bound = text.slice(tokens[index].start, tokens[boundEnd - 1].end);
+			index = boundEnd;
+		} else {
+			if (tokens[index]?.kind !== "group") {
+				throw new Error(`Table ${schema}.${name} has no column list`);
+			}
+			this.parseTableElements(draft, this.groupContent(tokens[index]));
+			index++;
+			if (this.keyword(tokens[index]) === "INHERITS") {
+				draft.parents = this.splitTopLevel(this.groupContent(tokens[index + 1])).map((parent) => {
+					const reference = this.readQualifiedName(this.tokenize(parent), 0);
+					return { schema: reference.schema, name: reference.name };
+				});
+				index += 2;
+			}
+		}
+
+		while (index < tokens.length) {
+			const word = this.keyword(tokens[index]);
+			if (word === "PARTITION" && this.keyword(tokens[index + 1]) === "BY") {
+				const keyEnd = this.findKeyword(tokens, index + 2, ["WITH", "TABLESPACE", "USING"]);
+				draft.row.partition_key = text.slice(tokens[index + 2].start, tokens[keyEnd - 1].end);
+				index = keyEnd;
+			} else if (word === "WITH" && tokens[index + 1]?.kind === "group") {
+				draft.row.reloptions = this.splitTopLevel(this.groupContent(tokens[index + 1])).map((option) =>
+					option.replace(/\s*=\s*/, "=").toLowerCase(),
+				);
+				index += 2;
+			} else if (word === "TABLESPACE") {
+				draft.row.tablespace = this.identifierValue(tokens[index + 1]);
+				index += 2;
+			} else {
+				index++;
+			}
+		}
+
+		return draft;
+	}
+
+	/**
+	 * Parse the column and constraint list of CREATE TABLE
+	 */
+	private parseTableElements(draft: TableDraft, content: string): void {
+		for (const element of this.splitTopLevel(content)) {
+			const tokens = this.tokenize(element);
+			const first = this.keyword(tokens[0]);
+			if (["CONSTRAINT", "PRIMARY", "UNIQUE", "CHECK", "FOREIGN", "EXCLUDE"].includes(first)) {
+				this.addConstraint(draft, element, tokens);
+			} else if (first === "LIKE") {
+				throw new Error("CREATE TABLE ... LIKE is not supported in SQL folders");
+			} else {
+				this.addColumn(draft, element, tokens);
+			}
+		}
+	}
+
+	/**
+	 * Add a table constraint, naming it the way PostgreSQL does when the DDL leaves the name out
+	 */
+	private addConstraint(draft: TableDraft, element: string, tokens: SqlToken[]): void {
+		let name: string | undefined;
+		let definitionStart = 0;
+		if (this.keyword(tokens[0]) === "CONSTRAINT") {
+			name = this.identifierValue(tokens[1]);
+			definitionStart = 2;
+		}
+		const definition = element.slice(tokens[definitionStart].start).replace(/\s+/g, " ").trim();
+		const kind = this.keyword(tokens[definitionStart]);
+		const type = ({ PRIMARY: "p", UNIQUE: "u", CHECK: "c", FOREIGN: "f", EXCLUDE: "x" } as const)[
+			kind as "PRIMARY" | "UNIQUE" | "CHECK" | "FOREIGN" | "EXCLUDE"
+		];
+		const columnGroup = tokens.slice(definitionStart).find((token) => token.kind === "group");
+		const columns =
+			type === "c" || type === "x" || !columnGroup
+				? []
+				: this.splitTopLevel(this.groupContent(columnGroup)).map((column) =>
+						this.identifierValue(this.tokenize(column)[0]),
+					);
+		const table = draft.row.table_name;
+		const defaultName = {
+			p: `${table}_pkey`,
+			u: `${table}_${columns.join("_")}_key`,
+			c: `${table}_check`,
+			f: `${table}_${columns.join("_")}_fkey`,
+			x: `${table}_excl`,
+		}[type];
+
+		if (type === "p") {
+			for (const column of draft.columns.filter((col) => columns.includes(col.name))) {
+				column.notNull = true;
+			}
+		}
+		draft.constraints.push({ name: name || defaultName, type, definition, isLocal: true });
+	}
+
+	/**
+	 * Add a column, moving inline PRIMARY KEY, UNIQUE, CHECK and REFERENCES clauses to table constraints
+	 */
+	private addColumn(draft: TableDraft, element: string, tokens: SqlToken[]): void {
+		const name = this.identifierValue(tokens[0]);
+		let index = 1;
+		while (index < tokens.length && !COLUMN_CLAUSE_KEYWORDS.has(this.keyword(tokens[index]))) {
+			index++;
+		}
+		if (index === 1) {
+			throw new Error(`Column ${name} has no data type`);
+		}
+		const { dataType, serial } = this.normalizeDataType(element.slice(tokens[1].start, tokens[index - 1].end));
+		const column: TableColumnDefinition = {
+			name,
+			position: draft.columns.length + 1,
+			dataType,
+			notNull: false,
+			isLocal: true,
+		};
+		const table = draft.row.table_name;
+		let constraintName: string | undefined;
+
+		while (index < tokens.length) {
+			const word = this.keyword(tokens[index]);
+			if (word === "COLLATE") {
+				column.collation = this.readQualifiedName(tokens, index + 1).name;
+				index = this.readQualifiedName(tokens, index + 1).next;
+			} else if (word === "DEFAULT") {
+				const end = this.findKeyword(tokens, index + 2, Array.from(COLUMN_CLAUSE_KEYWORDS));
+				column.defaultValue = element.slice(tokens[index + 1].start, tokens[end - 1].end);
+				index = end;
+			} else if (word === "NOT" && this.keyword(tokens[index + 1]) === "NULL") {
+				column.notNull = true;
+				index += 2;
+			} else if (word === "NULL") {
+				index++;
+			} else if (word === "GENERATED") {
+				const identity = this.keyword(tokens[index + 1]) === "ALWAYS" ? "ALWAYS" : "BY DEFAULT";
+				index += identity === "ALWAYS" ? 3 : 4;
+				if (tokens[index]?.kind === "group") {
+					column.generated = "STORED";
+					column.defaultValue = this.groupContent(tokens[index]).trim();
+					index += 2;
+				} else {
+					column.identity = identity;
+					column.notNull = true;
+					index += tokens[index + 1]?.kind === "group" ? 2 : 1;
+				}
+			} else if (word === "CONSTRAINT") {
+				constraintName = this.identifierValue(tokens[index + 1]);
+				index += 2;
+			} else {
+				const end = this.findKeyword(tokens, index + 1, Array.from(COLUMN_CLAUSE_KEYWORDS));
+				const clause = element.slice(tokens[index].start, tokens[end - 1].end).replace(/\s+/g, " ");
+				const quotedName = this.quoteIdentifierIfNeeded(name);
+				if (word === "PRIMARY") {
+					column.notNull = true;
+					draft.constraints.push({
+						name: constraintName || `${table}_pkey`,
+						type: "p",
+						definition: `PRIMARY KEY (${quotedName})`,
+						isLocal: true,
+					});
+				} else if (word === "UNIQUE") {
+					draft.constraints.push({
+						name: constraintName || `${table}_${name}_key`,
+						type: "u",
+						definition: `UNIQUE (${quotedName})`,
+						isLocal: true,
+					});
+				} else if (word === "CHECK") {
+					draft.constraints.push({
+						name: constraintName || `${table}_${name}_check`,
+						type: "c",
+						definition: clause,
+						isLocal: true,
+					});
+				} else if (word === "REFERENCES") {
+					draft.constraints.push({
+						name: constraintName || `${table}_${name}_fkey`,
+						type: "f",
+						definition: `FOREIGN KEY (${quotedName}) ${clause}`,
+						isLocal: true,
+					});
+				} else {
+					throw new Error(`Unexpected "${tokens[index].text}" in column ${name}`);
+				}
+				constraintName = undefined;
+				index = end;
+			}
+		}
+
+		if (serial) {
+			const sequenceName = `${table}_${name}_seq`;
+			const sequenceReference =
+				draft.row.table_schema === "public"
+					? this.quoteIdentifierIfNeeded(sequenceName)
+					: `${this.quoteIdentifierIfNeeded(draft.row.table_schema)}.${this.quoteIdentifierIfNeeded(sequenceName)}`;
+			column.defaultValue = `nextval('${sequenceReference.replace(/'/g, "''")}'::regclass)`;
+			column.notNull = true;
+			column.storage = undefined;
+		}
+		draft.columns.push(column);
+	}
+
+	/**
+	 * Apply an ALTER TABLE statement to the table it targets
+	 * @returns A reason when part of the statement could not be applied
+	 */
+	private applyAlterTable(
+		tokens: SqlToken[],
+		statement: SqlStatement,
+		tables: Map<string, TableDraft>,
+	): string | undefined {
+		if (this.keyword(tokens[1]) === "INDEX") {
+			return "ALTER INDEX is not read from SQL folders";
+		}
+		let index = 2;
+		if (this.keyword(tokens[index]) === "IF" && this.keyword(tokens[index + 1]) === "EXISTS") {
+			index += 2;
+		}
+		if (this.keyword(tokens[index]) === "ONLY") {
+			index++;
+		}
+		const { schema, name, next } = this.readQualifiedName(tokens, index);
+		const draft = tables.get(`${schema}.${name}`);
+		if (!draft) {
+			return `Table ${schema}.${name} is not created by any file`;
+		}
+		draft.statements.push(statement);
+
+		const text = statement.text;
+		const actions = this.splitTopLevel(text.slice(tokens[next]?.start ?? text.length));
+		for (const action of actions) {
+			const actionTokens = this.tokenize(action);
+			const words = actionTokens.map((token) => this.keyword(token));
+			const sentence = words.join(" ");
+
+			if (words[0] === "ADD" && ["CONSTRAINT", "PRIMARY", "UNIQUE", "CHECK", "FOREIGN", "EXCLUDE"].includes(words[1])) {
+				this.addConstraint(
+					draft,
+					action.slice(actionTokens[1].start),
+					this.tokenize(action.slice(actionTokens[1].start)),
+				);
+			} else if (words[0] === "ADD") {
+				const columnStart = words[1] === "COLUMN" ? 2 : 1;
+				const columnText = action.slice(actionTokens[columnStart].start);
+				this.addColumn(draft, columnText, this.tokenize(columnText));
+			} else if (words[0] === "ALTER") {
+				const columnIndex = words[1] === "COLUMN" ? 2 : 1;
+				const columnName = this.identifierValue(actionTokens[columnIndex]);
+				const column = draft.columns.find((col) => col.name === columnName);
+				if (!column) {
+					return `Column ${columnName} is not defined on ${schema}.${name}`;
+				}
+				const clause = words.slice(columnIndex + 1).join(" ");
+				if (clause.startsWith("SET STORAGE")) {
+					column.storage = words[columnIndex + 3];
+				} else if (clause.startsWith("SET DEFAULT")) {
+					column.defaultValue = action.slice(actionTokens[columnIndex + 3].start).trim();
+				} else if (clause.startsWith("SET NOT NULL")) {
+					column.notNull = true;
+				} else if (clause.startsWith("ADD GENERATED")) {
+					column.identity = words[columnIndex + 3] === "ALWAYS" ? "ALWAYS" : "BY DEFAULT";
+					column.notNull = true;
+				} else {
+					return `Unsupported column change: ${this.summarize(action)}`;
+				}
+			} else if (sentence.startsWith("CLUSTER ON")) {
+				draft.indexFlags.clusterIndex = this.identifierValue(actionTokens[2]);
+			} else if (sentence.startsWith("REPLICA IDENTITY")) {
+				const mode = words[2];
+				draft.row.replica_identity = mode === "FULL" ? "f" : mode === "NOTHING" ? "n" : mode === "USING" ? "i" : "d";
+				if (mode === "USING") {
+					draft.indexFlags.replicaIdentityIndex = this.identifierValue(actionTokens[4]);
+				}
+			} else if (sentence === "ENABLE ROW LEVEL SECURITY") {
+				draft.row.row_security = true;
+			} else if (sentence === "FORCE ROW LEVEL SECURITY") {
+				draft.row.force_row_security = true;
+			} else if (words[0] !== "OWNER") {
+				return `Unsupported ALTER TABLE action: ${this.summarize(action)}`;
+			}
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Apply COMMENT ON to the table, column or object it names
+	 * @returns A reason when the commented object is unknown
+	 */
+	private applyComment(
+		tokens: SqlToken[],
+		tables: Map<string, TableDraft>,
+		objects: DatabaseObject[],
+	): string | undefined {
+		const isIndex = tokens.findIndex((token) => this.keyword(token) === "IS");
+		if (isIndex < 0) {
+			return "COMMENT ON without IS";
+		}
+		const value = this.literalValue(tokens[isIndex + 1]) ?? null;
+		const kind = this.keyword(tokens[2]);
+		const nameIndex = kind === "MATERIALIZED" ? 4 : 3;
+
+		if (kind === "TABLE" || kind === "COLUMN") {
+			const parts = this.readIdentifierChain(tokens, nameIndex);
+			const columnName = kind === "COLUMN" ? parts.pop() : undefined;
+			const tableName = parts.pop() || "";
+			const schema = parts.pop() || "public";
+			const draft = tables.get(`${schema}.${tableName}`);
+			if (!draft) {
+				return `Table ${schema}.${tableName} is not created by any file`;
+			}
+			if (columnName === undefined) {
+				draft.row.description = value;
+				return undefined;
+			}
+			const column = draft.columns.find((col) => col.name === columnName);
+			if (!column) {
+				return `Column ${columnName} is not defined on ${schema}.${tableName}`;
+			}
+			column.description = value ?? undefined;
+			return undefined;
+		}
+
+		const keyword = kind === "MATERIALIZED" ? "MATERIALIZED VIEW" : kind;
+		const types = Object.keys(COMMENT_KEYWORDS).filter((type) => COMMENT_KEYWORDS[type] === keyword);
+		const target = this.readQualifiedName(tokens, nameIndex);
+		const onIndex = target.next;
+		const tableName = this.keyword(tokens[onIndex]) === "ON" ? this.readQualifiedName(tokens, onIndex + 1) : undefined;
+		const matches = objects.filter(
+			(obj) =>
+				types.includes(obj.type) &&
+				obj.name === target.name &&
+				(tableName
+					? obj.properties?.tableName === tableName.name && obj.schema === tableName.schema
+					: obj.type === ObjectType.Schema || obj.type === ObjectType.Extension || obj.schema === target.schema),
+		);
+		const signature =
+			tokens[onIndex]?.kind === "group" ? this.getIdentityArguments(tokens[onIndex].text, types[0]) : undefined;
+		const match =
+			matches.find((obj) => signature === undefined || obj.properties?.signature === signature) || matches[0];
+		if (!match) {
+			return `${keyword} ${target.schema}.${target.name} is not created by any file`;
+		}
+		match.properties.description = value;
+		return undefined;
+	}
+
+	/**
+	 * Inherited columns and CHECK constraints appear on child tables and partitions in the catalog
+	 */
+	private resolveInheritance(tables: Map<string, TableDraft>): void {
+		const resolved = new Set<TableDraft>();
+		const resolve = (draft: TableDraft) => {
+			if (resolved.has(draft)) {
+				return;
+			}
+			resolved.add(draft);
+			const inheritedColumns: TableColumnDefinition[] = [];
+			for (const reference of draft.parents) {
+				const parent = tables.get(`${reference.schema}.${reference.name}`);
+				if (!parent) {
+					continue;
+				}
+				resolve(parent);
+				for (const column of parent.columns) {
+					if (!inheritedColumns.some((col) => col.name === column.name)) {
+						inheritedColumns.push({ ...column, isLocal: false, description: undefined, identity: undefined });
+					}
+				}
+				for (const constraint of parent.constraints.filter((con) => con.type === "c")) {
+					if (!draft.constraints.some((con) => con.name === constraint.name)) {
+						draft.constraints.push({ ...constraint, isLocal: false });
+					}
+				}
+			}
+			if (inheritedColumns.length === 0) {
+				return;
+			}
+			const localColumns = draft.columns.filter(
+				(col) => !inheritedColumns.some((inherited) => inherited.name === col.name),
+			);
+			const mergedColumns = inheritedColumns.map((inherited) => {
+				const local = draft.columns.find((col) => col.name === inherited.name);
+				return local ? { ...inherited, ...local, isLocal: !draft.row.is_partition } : inherited;
+			});
+			draft.columns = [...mergedColumns, ...localColumns].map((col, index) => ({ ...col, position: index + 1 }));
+		};
+
+		for (const draft of Array.from(tables.values())) {
+			resolve(draft);
+		}
+	}
+
+	private buildTableObject(draft: TableDraft): DatabaseObject {
+		const row = draft.row;
+		const constraints = [...draft.constraints].sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+		const parents = draft.parents.map((parent) => `${parent.schema}.${parent.name}`);
+		const table = this.createObject(
+			ObjectType.Table,
+			row.table_name,
+			row.table_schema,
+			this.schemaOperations.buildTableDefinition(row, draft.parents, draft.columns, constraints, draft.indexFlags),
+			{
+				description: row.description,
+				isPartitioned: !!row.partition_key,
+				isPartition: row.is_partition,
+				partitionKey: row.partition_key || undefined,
+				partitionBound: row.partition_bound || undefined,
+				parents,
+				tablespace: row.tablespace || undefined,
+				storageParameters: row.reloptions || [],
+				rowSecurity: row.row_security,
+				forceRowSecurity: row.force_row_security,
+				columns: draft.columns,
+				constraints,
+			},
+			draft.statements[0].file,
+		);
+		table.dependencies = parents;
+		return table;
+	}
+
+	/**
+	 * Objects the database creates alongside a table: constraint entries, indexes backing primary key
+	 * and unique constraints, and the sequences behind serial and identity columns
+	 */
+	private buildImplicitObjects(draft: TableDraft, declared: DatabaseObject[]): DatabaseObject[] {
+		const schema = draft.row.table_schema;
+		const table = draft.row.table_name;
+		const file = draft.statements[0].file;
+		const implicit: DatabaseObject[] = [];
+
+		for (const constraint of draft.constraints) {
+			implicit.push(
+				this.createObject(
+					ObjectType.Constraint,
+					constraint.name,
+					schema,
+					`ALTER TABLE "${schema}"."${table}" ADD CONSTRAINT "${constraint.name}" ...;`,
+					{ tableName: table, constraintType: constraint.type },
+					file,
+				),
+			);
+			if (constraint.type === "p" || constraint.type === "u") {
+				const columns = constraint.definition.replace(/^(?:PRIMARY KEY|UNIQUE)\s*/i, "");
+				implicit.push(
+					this.createObject(
+						ObjectType.Index,
+						constraint.name,
+						schema,
+						`CREATE UNIQUE INDEX ${this.quoteIdentifierIfNeeded(constraint.name)} ON ${this.quoteIdentifierIfNeeded(schema)}.${this.quoteIdentifierIfNeeded(table)} USING btree ${columns};`,
+						{ tableName: table, isUnique: true, isPrimary: constraint.type === "p", definitionOnly: true },
+						file,
+					),
+				);
+			}
+		}
+
+		for (const column of draft.columns.filter((col) => col.isLocal)) {
+			const sequenceName = `${table}_${column.name}_seq`;
+			const ownsSequence =
+				column.identity !== undefined ||
+				(column.defaultValue?.includes(`${this.quoteIdentifierIfNeeded(sequenceName)}'::regclass`) ?? false);
+			const declaredSequence = declared.some(
+				(obj) => obj.type === ObjectType.Sequence && obj.schema === schema && obj.name === sequenceName,
+			);
+			if (ownsSequence && !declaredSequence && INTEGER_TYPE_BOUNDS[column.dataType]) {
+				implicit.push(
+					this.buildSequenceObject(
+						schema,
+						sequenceName,
+						this.parseSequenceOptions(this.tokenize(`AS ${column.dataType}`), 0),
+						file,
+					),
+				);
+			}
+		}
+
+		return implicit;
+	}
+
+	/**
+	 * Read CREATE SEQUENCE options, filling in the defaults PostgreSQL applies
+	 */
+	private parseSequenceOptions(tokens: SqlToken[], start: number): Record<string, any> {
+		let dataType = "bigint";
+		let increment: string | undefined;
+		let minValue: string | undefined;
+		let maxValue: string | undefined;
+		let startValue: string | undefined;
+		let cacheSize = "1";
+		let cycle = false;
+
+		const readNumber = (index: number): { value: string; next: number } =>
+			tokens[index]?.text === "-"
+				? { value: `-${tokens[index + 1].text}`, next: index + 2 }
+				: { value: tokens[index].text, next: index + 1 };
+
+		let index = start;
+		while (index < tokens.length) {
+			const word = this.keyword(tokens[index]);
+			if (word === "AS") {
+				dataType = this.normalizeDataType(tokens[index + 1].text).dataType;
+				index += 2;
+			} else if (word === "INCREMENT") {
+				const value = readNumber(this.keyword(tokens[index + 1]) === "BY" ? index + 2 : index + 1);
+				increment = value.value;
+				index = value.next;
+			} else if (word === "MINVALUE" || word === "MAXVALUE" || word === "CACHE") {
+				const value = readNumber(index + 1);
+				if (word === "MINVALUE") {
+					minValue = value.value;
+				} else if (word === "MAXVALUE") {
+					maxValue = value.value;
+				} else {
+					cacheSize = value.value;
+				}
+				index = value.next;
+			} else if (word === "START") {
+				const value = readNumber(this.keyword(tokens[index + 1]) === "WITH" ? index + 2 : index + 1);
+				startValue = value.value;
+				index = value.next;
+			} else if (word === "NO") {
+				index += 2;
+			} else if (word === "CYCLE") {
+				cycle = true;
+				index++;
+			} else {
+				index++;
+			}
+		}
+
+		const bounds = INTEGER_TYPE_BOUNDS[dataType] || INTEGER_TYPE_BOUNDS.bigint;
+		const ascending = !(increment || "1").startsWith("-");
+		const min = minValue ?? (ascending ? "1" : bounds[0]);
+		const max = maxValue ?? (ascending ? bounds[1] : "-1");
+		return {
+			dataType,
+			increment: increment || "1",
+			minValue: min,
+			maxValue: max,
+			startValue: startValue ?? (ascending ? min : max),
+			cacheSize,
+			cycle,
+		};
+	}
+
+	private buildSequenceObject(
+		schema: string,
+		name: string,
+		options: Record<string, any>,
+		file: string,
+	): DatabaseObject {
+		return this.createObject(
+			ObjectType.Sequence,
+			name,
+			schema,
+			`CREATE SEQUENCE ${this.quoteIdentifier(schema)}.${this.quoteIdentifier(name)}` +
+				` AS ${options.dataType} INCREMENT BY ${options.increment} MINVALUE ${options.minValue} MAXVALUE ${options.maxValue}` +
+				` START WITH ${options.startValue} CACHE ${options.cacheSize}${options.cycle ? " CYCLE" : " NO CYCLE"};`,
+			{ description: undefined, ...options },
+			file,
+		);
+	}
+
+	private createObject(
+		type: ObjectType,
+		name: string,
+		schema: string,
+		definition: string,
+		properties: Record<string, any>,
+		file: string,
+	): DatabaseObject {
+		const tableName = properties.tableName && type !== ObjectType.Index ? `${properties.tableName}.` : "";
+		return {
+			id: type === ObjectType.Schema ? name : `${schema}.${tableName}${name}`,
+			name,
+			type,
+			schema,
+			database: "",
+			owner: "",
+			definition,
+			properties: { description: undefined, ...properties, sourceFile: file },
+			createdAt: new Date(),
+			modifiedAt: undefined,
+			dependencies: [],
+		};
+	}
+
+	/**
+	 * Tables a view query reads, as schema-qualified IDs
+	 */
+	private getQueryDependencies(query: string, defaultSchema: string): string[] {
+		try {
+			const tables = this.sqlParser.tableList(query, { database: "postgresql" });
+			return Array.from(
+				new Set(
+					tables.map((entry) => {
+						const [, schema, table] = entry.split("::");
+						return `${schema && schema !== "null" ? schema : defaultSchema}.${table}`;
+					}),
+				),
+			);
+		} catch (error) {
+			Logger.debug("Could not read view dependencies", "getQueryDependencies", { error: String(error) });
+			return [];
+		}
+	}
+
+	/**
+	 * Identity arguments as pg_get_function_identity_arguments prints them: no defaults, no OUT arguments of functions
+	 */
+	private getIdentityArguments(argumentList: string, type: string): string {
+		return this.splitTopLevel(argumentList.slice(1, -1))
+			.map((argument) => {
+				const withoutDefault = argument.replace(/\s+(?:DEFAULT\b|=)[\s\S]*$/i, "").trim();
+				const tokens = this.tokenize(withoutDefault);
+				let index = 0;
+				let mode = "";
+				if (["IN", "OUT", "INOUT", "VARIADIC"].includes(this.keyword(tokens[0]))) {
+					mode = this.keyword(tokens[0]);
+					index = 1;
+				}
+				if (mode === "OUT" && type === ObjectType.Function) {
+					return undefined;
+				}
+				const rest = withoutDefault.slice(tokens[index]?.start ?? withoutDefault.length);
+				const restTokens = tokens.slice(index);
+				const typeOnly =
+					restTokens.length === 1 ||
+					/^(?:double\s+precision|character\s+varying|bit\s+varying|timestamp|time|interval)\b/i.test(rest) ||
+					restTokens[1]?.kind === "group" ||
+					restTokens[1]?.text === "[" ||
+					restTokens[1]?.text === ".";
+				const argumentName = typeOnly ? "" : `${this.quoteIdentifierIfNeeded(this.identifierValue(restTokens[0]))} `;
+				const dataType = this.normalizeDataType(
+					typeOnly ? rest : rest.slice(restTokens[1].start - restTokens[0].start),
+				).dataType;
+				return `${mode && mode !== "IN" ? `${mode} ` : ""}${argumentName}${dataType}`;
+			})
+			.filter((argument): argument is string => argument !== undefined)
+			.join(", ");
+	}
+
+	/**
+	 * Normalize a type as written in DDL to the spelling format_type() reports
+	 */
+	private normalizeDataType(raw: string): { dataType: string; serial: boolean } {
+		const text = raw.replace(/\s+/g, " ").trim();
+		const arrayMatch = /^(.*?)((?:\s*\[\s*\d*\s*\])*)$/.exec(text);
+		const base = (arrayMatch?.[1] || text).trim();
+		const suffix = arrayMatch?.[2] ? "[]" : "";
+
+		const zoned = /^(timestamp|time)\s*(\(\s*\d+\s*\))?\s+(with|without) time zone$/i.exec(base);
+		if (zoned) {
+			return {
+				dataType: `${zoned[1].toLowerCase()}${(zoned[2] || "").replace(/\s+/g, "")} ${zoned[3].toLowerCase()} time zone${suffix}`,
+				serial: false,
+			};
+		}
+
+		const simple = /^([A-Za-z_][A-Za-z0-9_ ]*?)\s*(\([^)]*\))?$/.exec(base);
+		if (!simple) {
+			// Quoted or schema-qualified type; format_type leaves out schemas on the search path
+			const parts = this.readIdentifierChain(this.tokenize(base), 0);
+			const name = parts.filter((part, index) => !(index === 0 && parts.length > 1 && part === "public"));
+			return {
+				dataType: `${name.map((part) => this.quoteIdentifierIfNeeded(part)).join(".")}${suffix}`,
+				serial: false,
+			};
+		}
+
+		const name = simple[1].toLowerCase();
+		const modifier = (simple[2] || "").replace(/\s+/g, "");
+		if (SERIAL_TYPES[name]) {
+			return { dataType: SERIAL_TYPES[name], serial: true };
+		}
+		if (ZONED_TYPE_ALIASES[name]) {
+			const [zonedBase, zone] = ZONED_TYPE_ALIASES[name];
+			return { dataType: `${zonedBase}${modifier} ${zone} time zone${suffix}`, serial: false };
+		}
+		if (name === "float") {
+			const precision = parseInt(modifier.slice(1, -1), 10);
+			return { dataType: `${precision > 0 && precision <= 24 ? "real" : "double precision"}${suffix}`, serial: false };
+		}
+		if ((name === "char" || name === "character") && !modifier) {
+			return { dataType: `character(1)${suffix}`, serial: false };
+		}
+		return { dataType: `${DATA_TYPE_ALIASES[name] || name}${modifier}${suffix}`, serial: false };
+	}
+
+	/**
+	 * The statements written to a file for one database object
+	 */
+	private toFileStatements(obj: DatabaseObject): string {
+		const definition = (obj.definition || "").trim().replace(/;\s*$/, "");
+		const statements = [
+			obj.type === ObjectType.View && !/^CREATE\b/i.test(definition)
+				? `CREATE OR REPLACE VIEW ${this.quoteIdentifier(obj.schema)}.${this.quoteIdentifier(obj.name)} AS\n${definition};`
+				: `${definition};`,
+		];
+
+		const keyword = COMMENT_KEYWORDS[obj.type];
+		if (keyword && obj.properties?.description) {
+			let reference = [ObjectType.Schema, ObjectType.Extension].includes(obj.type)
+				? this.quoteIdentifier(obj.name)
+				: `${this.quoteIdentifier(obj.schema)}.${this.quoteIdentifier(obj.name)}`;
+			if (obj.type === ObjectType.Function || obj.type === ObjectType.Procedure) {
+				reference += `(${obj.properties.signature || ""})`;
+			} else if (obj.properties?.tableName && obj.type !== ObjectType.Index) {
+				reference = `${this.quoteIdentifier(obj.name)} ON ${this.quoteIdentifier(obj.schema)}.${this.quoteIdentifier(obj.properties.tableName)}`;
+			}
+			statements.push(`COMMENT ON ${keyword} ${reference} IS ${this.quoteLiteral(obj.properties.description)};`);
+		}
+
+		return statements.join("\n");
+	}
+
+	/**
+	 * Objects the database creates on its own, which live in their table's file rather than one of their own
+	 */
+	private isImplicitDatabaseObject(obj: DatabaseObject, databaseObjects: DatabaseObject[]): boolean {
+		if (obj.type === ObjectType.Constraint) {
+			return true;
+		}
+		if (obj.type === ObjectType.Index) {
+			return databaseObjects.some(
+				(other) =>
+					other.type === ObjectType.Constraint &&
+					other.schema === obj.schema &&
+					other.name === obj.name &&
+					["p", "u", "x"].includes(other.properties?.constraintType),
+			);
+		}
+		if (obj.type === ObjectType.Sequence) {
+			return databaseObjects.some(
+				(other) =>
+					other.type === ObjectType.Table &&
+					other.schema === obj.schema &&
+					(other.properties?.columns || []).some(
+						(col: TableColumnDefinition) =>
+							`${other.name}_${col.name}_seq` === obj.name &&
+							(col.identity !== undefined || (col.defaultValue || "").includes("nextval(")),
+					),
+			);
+		}
+		return false;
+	}
+
+	/**
+	 * Identity used to pair objects with differences; matches SchemaComparison's object key
+	 */
+	private getObjectKey(obj: DatabaseObject): string {
+		return this.buildKey(obj.type, obj.schema, obj.name, obj.properties?.tableName, obj.properties?.signature);
+	}
+
+	private getDifferenceKey(difference: SchemaDifference, name: string): string {
+		return this.buildKey(difference.objectType, difference.schema, name, difference.tableName, difference.signature);
+	}
+
+	private buildKey(type: string, schema: string, name: string, tableName?: string, signature?: string): string {
+		const table = type !== ObjectType.Index && tableName ? `${tableName}.` : "";
+		return `${type}:${schema}:${table}${name}${signature !== undefined ? `(${signature})` : ""}`;
+	}
+
+	/**
+	 * Split file content into statements at top-level semicolons. Dollar-quoted bodies, strings, comments
+	 * and BEGIN ATOMIC ... END function bodies never split a statement.
+	 */
+	private splitStatements(content: string, file: string): SqlStatement[] {
+		const statements: SqlStatement[] = [];
+		let start = -1;
+		let depth = 0;
+		let atomicDepth = 0;
+		let previousWord = "";
+		let index = 0;
+
+		const finish = (end: number, terminated: boolean) => {
+			if (start >= 0) {
+				statements.push({
+					file,
+					text: content.slice(start, end).trim(),
+					start,
+					end: terminated ? end + 1 : end,
+				});
+			}
+			start = -1;
+			previousWord = "";
+		};
+
+		while (index < content.length) {
+			const char = content[index];
+			if (/\s/.test(char)) {
+				index++;
+				continue;
+			}
+			const commentEnd = this.skipComment(content, index);
+			if (commentEnd > index) {
+				index = commentEnd;
+				continue;
+			}
+			if (start < 0) {
+				start = index;
+			}
+			const quotedEnd = this.skipQuoted(content, index);
+			if (quotedEnd > index) {
+				index = quotedEnd;
+				continue;
+			}
+
+			const word = /^[A-Za-z_][A-Za-z0-9_$]*/.exec(content.slice(index, index + 64))?.[0];
+			if (word) {
+				const upper = word.toUpperCase();
+				if (upper === "ATOMIC" && previousWord === "BEGIN") {
+					atomicDepth++;
+				} else if (atomicDepth > 0 && upper === "CASE") {
+					atomicDepth++;
+				} else if (atomicDepth > 0 && upper === "END") {
+					atomicDepth--;
+				}
+				previousWord = upper;
+				index += word.length;
+				continue;
+			}
+
+			if (char === "(") {
+				depth++;
+			} else if (char === ")") {
+				depth = Math.max(0, depth - 1);
+			} else if (char === ";" && depth === 0 && atomicDepth === 0) {
+				finish(index, true);
+			}
+			index++;
+		}
+		finish(content.length, false);
+
+		return statements.filter((statement) => statement.text.length > 0);
+	}
+
+	/**
+	 * Break one statement into words, quoted identifiers, strings, parenthesized groups and symbols
+	 */
+	private tokenize(sql: string): SqlToken[] {
+		const tokens: SqlToken[] = [];
+		let index = 0;
+
+		while (index < sql.length) {
+			const char = sql[index];
+			if (/\s/.test(char)) {
+				index++;
+				continue;
+			}
+			const commentEnd = this.skipComment(sql, index);
+			if (commentEnd > index) {
+				index = commentEnd;
+				continue;
+			}
+
+			const start = index;
+			const quotedEnd = this.skipQuoted(sql, index);
+			if (quotedEnd > index) {
+				tokens.push({
+					kind: char === '"' ? "quoted" : "string",
+					text: sql.slice(start, quotedEnd),
+					start,
+					end: quotedEnd,
+				});
+				index = quotedEnd;
+				continue;
+			}
+
+			if (char === "(") {
+				let depth = 0;
+				while (index < sql.length) {
+					const skipped = Math.max(this.skipComment(sql, index), this.skipQuoted(sql, index));
+					if (skipped > index) {
+						index = skipped;
+						continue;
+					}
+					if (sql[index] === "(") {
+						depth++;
+					} else if (sql[index] === ")") {
+						depth--;
+						if (depth === 0) {
+							index++;
+							break;
+						}
+					}
+					index++;
+				}
+				tokens.push({ kind: "group", text: sql.slice(start, index), start, end: index });
+				continue;
+			}
+
+			const word = /^[A-Za-z0-9_$]+/.exec(sql.slice(index, index + 256))?.[0];
+			if (word) {
+				tokens.push({ kind: "word", text: word, start, end: index + word.length });
+				index += word.length;
+				continue;
+			}
+
+			tokens.push({ kind: "symbol", text: char, start, end: index + 1 });
+			index++;
+		}
+
+		return tokens;
+	}
+
+	/**
+	 * Index just past a comment starting at index, or index itself when there is none
+	 */
+	private skipComment(sql: string, index: number): number {
+		if (sql.startsWith("--", index)) {
+			const end = sql.indexOf("\n", index);
+			return end < 0 ? sql.length : end + 1;
+		}
+		if (sql.startsWith("/*", index)) {
+			let depth = 0;
+			let position = index;
+			while (position < sql.length) {
+				if (sql.startsWith("/*", position)) {
+					depth++;
+					position += 2;
+				} else if (sql.startsWith("*/", position)) {
+					depth--;
+					position += 2;
+					if (depth === 0) {
+						return position;
+					}
+				} else {
+					position++;
+				}
+			}
+			return sql.length;
+		}
+		return index;
+	}
+
+	/**
+	 * Index just past a string, quoted identifier or dollar-quoted body starting at index, or index itself
+	 */
+	private skipQuoted(sql: string, index: number): number {
+		const char = sql[index];
+		const escapeString =
+			(char === "E" || char === "e") && sql[index + 1] === "'" && !/[A-Za-z0-9_$]/.test(sql[index - 1] || "");
+
+		if (char === "'" || char === '"' || escapeString) {
+			const quote = escapeString ? "'" : char;
+			let position = escapeString ? index + 2 : index + 1;
+			while (position < sql.length) {
+				if (escapeString && sql[position] === "\\") {
+					position += 2;
+					continue;
+				}
+				if (sql[position] === quote) {
+					if (sql[position + 1] === quote) {
+						position += 2;
+						continue;
+					}
+					return position + 1;
+				}
+				position++;
+			}
+			return sql.length;
+		}
+
+		if (char === "$" && !/[A-Za-z0-9_$]/.test(sql[index - 1] || "")) {
+			const tag = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(index, index + 64))?.[0];
+			if (tag) {
+				const end = sql.indexOf(tag, index + tag.length);
+				return end < 0 ? sql.length : end + tag.length;
+			}
+		}
+
+		return index;
+	}
+
+	/**
+	 * Split a list at top-level commas
+	 */
+	private splitTopLevel(content: string): string[] {
+		const parts: string[] = [];
+		let depth = 0;
+		let start = 0;
+		let index = 0;
+
+		while (index < content.length) {
+			const skipped = Math.max(this.skipComment(content, index), this.skipQuoted(content, index));
+			if (skipped > index) {
+				index = skipped;
+				continue;
+			}
+			const char = content[index];
+			if (char === "(") {
+				depth++;
+			} else if (char === ")") {
+				depth--;
+			} else if (char === "," && depth === 0) {
+				parts.push(content.slice(start, index));
+				start = index + 1;
+			}
+			index++;
+		}
+		parts.push(content.slice(start));
+
+		return parts.map((part) => part.trim()).filter((part) => part.length > 0);
+	}
+
+	/**
+	 * Read `name` or `schema.name`; unqualified names resolve to public
+	 */
+	private readQualifiedName(tokens: SqlToken[], index: number): { schema: string; name: string; next: number } {
+		const parts = this.readIdentifierChain(tokens, index);
+		if (parts.length === 0) {
+			throw new Error("Expected an object name");
+		}
+		return {
+			schema: parts.length > 1 ? parts[parts.length - 2] : "public",
+			name: parts[parts.length - 1],
+			next: index + parts.length * 2 - 1,
+		};
+	}
+
+	private readIdentifierChain(tokens: SqlToken[], index: number): string[] {
+		const parts: string[] = [];
+		let position = index;
+		while (tokens[position] && (tokens[position].kind === "word" || tokens[position].kind === "quoted")) {
+			parts.push(this.identifierValue(tokens[position]));
+			if (tokens[position + 1]?.text !== ".") {
+				break;
+			}
+			position += 2;
+		}
+		return parts;
+	}
+
+	private skipIfNotExists(tokens: SqlToken[], index: number): number {
+		return this.keyword(tokens[index]) === "IF" &&
+			this.keyword(tokens[index + 1]) === "NOT" &&
+			this.keyword(tokens[index + 2]) === "EXISTS"
+			? index + 3
+			: index;
+	}
+
+	/**
+	 * Index of the first token from start that is one of the keywords, or the token count
+	 */
+	private findKeyword(tokens: SqlToken[], start: number, keywords: string[]): number {
+		for (let index = start; index < tokens.length; index++) {
+			if (keywords.includes(this.keyword(tokens[index]))) {
+				return index;
+			}
+		}
+		return tokens.length;
+	}
+
+	private keyword(token: SqlToken | undefined): string {
+		return token?.kind === "word" ? token.text.toUpperCase() : "";
+	}
+
+	/**
+	 * Unquoted identifiers fold to lower case; quoted ones keep their case
+	 */
+	private identifierValue(token: SqlToken | undefined): string {
+		if (!token) {
+			throw new Error("Expected an identifier");
+		}
+		return token.kind === "quoted" ? token.text.slice(1, -1).replace(/""/g, '"') : token.text.toLowerCase();
+	}
+
+	private literalValue(token: SqlToken | undefined): string | undefined {
+		if (!token || this.keyword(token) === "NULL") {
+			return undefined;
+		}
+		if (token.kind !== "string") {
+			return token.text;
+		}
+		if (token.text.startsWith("$")) {
+			const tag = token.text.slice(0, token.text.indexOf("$", 1) + 1);
+			return token.text.slice(tag.length, -tag.length);
+		}
+		if (/^[Ee]'/.test(token.text)) {
+			return token.text
+				.slice(2, -1)
+				.replace(/''/g, "'")
+				.replace(/\\(.)/g, (_match, escaped: string) => ({ n: "\n", t: "\t", r: "\r" })[escaped] ?? escaped);
+		}
+		return token.text.slice(1, -1).replace(/''/g, "'");
+	}
+
+	private groupContent(token: SqlToken | undefined): string {
+		if (token?.kind !== "group") {
+			throw new Error("Expected a parenthesized list");
+		}
+		return token.text.slice(1, -1);
+	}
+
+	/**
+	 * Drop the line break after a removed statement so deletions leave no blank gaps
+	 */
+	private skipLineBreak(content: string, index: number): number {
+		const match = /^[ \t]*\r?\n/.exec(content.slice(index));
+		return match ? index + match[0].length : index;
+	}
+
+	private summarize(sql: string): string {
+		const line = sql.replace(/\s+/g, " ").trim();
+		return line.length > 80 ? `${line.slice(0, 77)}...` : line;
+	}
+
+	private quoteIdentifier(identifier: string): string {
+		return `"${identifier.replace(/"/g, '""')}"`;
+	}
+
+	/**
+	 * Quote an identifier only when PostgreSQL would, matching pg_get_indexdef and pg_get_constraintdef output
+	 */
+	private quoteIdentifierIfNeeded(identifier: string): string {
+		return /^[a-z_][a-z0-9_$]*$/.test(identifier) ? identifier : this.quoteIdentifier(identifier);
+	}
+
+	private quoteLiteral(value: string): string {
+		return `'${value.replace(/'/g, "''")}'`;
+	}
+}
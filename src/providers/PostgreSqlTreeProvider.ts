@@ -1,6 +1,7 @@
 import * as vscode from "vscode";
 import { ConnectionManager, DatabaseConnection } from "@/managers/ConnectionManager";
 import { ModularSchemaManager } from "@/managers/schema";
+import { AppliedMigration, MigrationLedger } from "@/managers/schema/MigrationLedger";
 import { DatabaseObject, ObjectType } from "@/managers/schema/SchemaOperations";
 import { ExtensionInitializer } from "@/utils/ExtensionInitializer";
 import { Logger } from "@/utils/Logger";
@@ -16,6 +17,7 @@ export class PostgreSqlTreeProvider implements vscode.TreeDataProvider<TreeItem>
 	constructor(
 		private connectionManager: ConnectionManager,
 		private schemaManager: ModularSchemaManager,
+		private migrationLedger?: MigrationLedger,
 	) {
 		Logger.debug("PostgreSqlTreeProvider constructor called", "PostgreSqlTreeProvider.constructor");
 		this.refresh();
@@ -157,6 +159,8 @@ export class PostgreSqlTreeProvider implements vscode.TreeDataProvider<TreeItem>
 					return this.getDatabaseItems(_treeItem.connectionId);
 				case "database":
 					return this.getSchemaItems(_treeItem.connectionId);
+				case "migrationHistory":
+					return this.getMigrationHistoryItems(_treeItem.connectionId);
 				case "schema":
 					return this.getObjectItems(_treeItem.connectionId, _treeItem.schemaName);
 				case "table":
@@ -267,7 +271,7 @@ export class PostgreSqlTreeProvider implements vscode.TreeDataProvider<TreeItem>
 			return [];
 		}
 
-		return [
+		const items = [
 			new TreeItem(
 				connection.database,
 				"database",
@@ -282,6 +286,103 @@ export class PostgreSqlTreeProvider implements vscode.TreeDataProvider<TreeItem>
 				"PostgreSQL database",
 			),
 		];
+
+		if (this.migrationLedger) {
+			items.push(
+				new TreeItem(
+					"Migration History",
+					"migrationHistory",
+					new vscode.ThemeIcon("history"),
+					vscode.TreeItemCollapsibleState.Collapsed,
+					undefined,
+					`Migrations recorded in the ledger table of ${connection.database}`,
+					connectionId,
+					undefined,
+					undefined,
+					"migrationHistory",
+				),
+			);
+		}
+
+		return items;
+	}
+
+	private async getMigrationHistoryItems(connectionId: string): Promise<TreeItem[]> {
+		let history: AppliedMigration[];
+		try {
+			history = (await this.migrationLedger?.getHistory(connectionId)) || [];
+		} catch (error) {
+			Logger.warn("Failed to load migration history", "getMigrationHistoryItems", {
+				connectionId,
+				error: (error as Error).message,
+			});
+			return [
+				new TreeItem(
+					"Unable to read migration history",
+					"migrationHistoryError",
+					new vscode.ThemeIcon("warning"),
+					vscode.TreeItemCollapsibleState.None,
+					undefined,
+					(error as Error).message,
+					connectionId,
+				),
+			];
+		}
+
+		if (history.length === 0) {
+			return [
+				new TreeItem(
+					"No migrations applied yet",
+					"migrationHistoryEmpty",
+					new vscode.ThemeIcon("info"),
+					vscode.TreeItemCollapsibleState.None,
+					undefined,
+					"Migrations executed from this extension are recorded here",
+					connectionId,
+				),
+			];
+		}
+
+		return history.map((entry) => {
+			const icon =
+				entry.outcome === "completed"
+					? new vscode.ThemeIcon("pass", new vscode.ThemeColor("testing.iconPassed"))
+					: entry.outcome === "running" || entry.outcome === "rolling_back"
+						? new vscode.ThemeIcon("sync~spin")
+						: entry.rolledBackAt
+							? new vscode.ThemeIcon("discard")
+							: new vscode.ThemeIcon("error", new vscode.ThemeColor("testing.iconFailed"));
+
+			const tooltip = [
+				`Migration: ${entry.name}`,
+				`Script ID: ${entry.scriptId}`,
+				`Outcome: ${entry.outcome.replace("_", " ")}`,
+				`Applied by: ${entry.appliedBy} (database user ${entry.databaseUser})`,
+				`Started: ${entry.startedAt.toLocaleString()}`,
+				...(entry.finishedAt ? [`Finished: ${entry.finishedAt.toLocaleString()}`] : []),
+				...(entry.executionTimeMs !== undefined ? [`Duration: ${entry.executionTimeMs} ms`] : []),
+				`Steps: ${entry.stepCount}${entry.failedSteps > 0 ? ` (${entry.failedSteps} failed)` : ""}`,
+				...(entry.rolledBackAt ? [`Rolled back: ${entry.rolledBackAt.toLocaleString()}`] : []),
+				`Checksum: ${entry.checksum}`,
+				...(entry.errorMessage ? ["", `Error: ${entry.errorMessage}`] : []),
+			].join("\n");
+
+			return new TreeItem(
+				entry.name,
+				"appliedMigration",
+				icon,
+				vscode.TreeItemCollapsibleState.None,
+				undefined,
+				tooltip,
+				connectionId,
+				undefined,
+				entry.scriptId,
+				entry.outcome === "completed" && entry.rollbackSteps?.length
+					? "appliedMigrationReversible"
+					: "appliedMigration",
+				`${entry.outcome.replace("_", " ")} • ${entry.startedAt.toLocaleString()} • ${entry.appliedBy}`,
+			);
+		});
 	}
 
 	private async getSchemaItems(connectionId: string): Promise<TreeItem[]> {
@@ -506,6 +607,10 @@ export class PostgreSqlTreeProvider implements vscode.TreeDataProvider<TreeItem>
 				return new vscode.ThemeIcon("database");
 			case "view":
 				return new vscode.ThemeIcon("eye");
+			case "materialized_view":
+				return new vscode.ThemeIcon("eye-closed");
+			case "foreign_table":
+				return new vscode.ThemeIcon("link-external");
 			case "function":
 				return new vscode.ThemeIcon("symbol-function");
 			case "procedure":
@@ -518,6 +623,23 @@ export class PostgreSqlTreeProvider implements vscode.TreeDataProvider<TreeItem>
 				return new vscode.ThemeIcon("symbol-value");
 			case "collation":
 				return new vscode.ThemeIcon("symbol-string");
+			case "aggregate":
+			case "operator":
+				return new vscode.ThemeIcon("symbol-operator");
+			case "enum":
+				return new vscode.ThemeIcon("symbol-enum");
+			case "policy":
+				return new vscode.ThemeIcon("shield");
+			case "rule":
+				return new vscode.ThemeIcon("law");
+			case "foreign_server":
+				return new vscode.ThemeIcon("server");
+			case "publication":
+				return new vscode.ThemeIcon("broadcast");
+			case "subscription":
+				return new vscode.ThemeIcon("rss");
+			case "event_trigger":
+				return new vscode.ThemeIcon("zap");
 			case "extension":
 				return new vscode.ThemeIcon("package");
 			case "role":
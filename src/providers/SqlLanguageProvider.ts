@@ -0,0 +1,568 @@
+import * as vscode from "vscode";
+import { NativeFunctionMetadata } from "@/core/PostgreSqlConnectionManager";
+import { ConnectionManager } from "@/managers/ConnectionManager";
+import { SqlCatalog, SqlCatalogRelation, SqlCatalogService } from "@/services/SqlCatalogService";
+import { SqlStatement, SqlStatementAnalyzer, SqlToken } from "@/services/SqlStatementAnalyzer";
+import { Logger } from "@/utils/Logger";
+
+const SQL_SELECTOR: vscode.DocumentSelector = [{ language: "sql" }, { language: "postgresql" }];
+
+/** Delay after the last keystroke before a document is checked again */
+const DIAGNOSTICS_DEBOUNCE_MS = 500;
+/** Larger documents are not checked as you type */
+const MAX_DIAGNOSTICS_LENGTH = 1024 * 1024;
+
+/** Columns every table has without declaring them */
+const SYSTEM_COLUMNS = new Set(["ctid", "xmin", "xmax", "cmin", "cmax", "tableoid", "oid"]);
+
+const RELATION_KIND_LABELS: Record<SqlCatalogRelation["kind"], string> = {
+	table: "table",
+	view: "view",
+	materialized_view: "materialized view",
+	foreign_table: "foreign table",
+};
+
+/**
+ * SqlLanguageProvider - Completion, hover, signature help and diagnostics for SQL documents, backed by the
+ * catalog of the connection the document is associated with
+ */
+export class SqlLanguageProvider
+	implements vscode.CompletionItemProvider, vscode.HoverProvider, vscode.SignatureHelpProvider, vscode.Disposable
+{
+	private diagnostics: vscode.DiagnosticCollection;
+	private documentConnections = new Map<string, string>();
+	private pendingDiagnostics = new Map<string, NodeJS.Timeout>();
+	private disposables: vscode.Disposable[] = [];
+
+	constructor(
+		private connectionManager: ConnectionManager,
+		private catalogService: SqlCatalogService,
+	) {
+		this.diagnostics = vscode.languages.createDiagnosticCollection("postgresql-sql");
+	}
+
+	/**
+	 * Register the providers and the document listeners that keep diagnostics current
+	 */
+	register(): void {
+		this.disposables.push(
+			this.diagnostics,
+			vscode.languages.registerCompletionItemProvider(SQL_SELECTOR, this, ".", " ", "'", ","),
+			vscode.languages.registerHoverProvider(SQL_SELECTOR, this),
+			vscode.languages.registerSignatureHelpProvider(SQL_SELECTOR, this, "(", ","),
+			vscode.workspace.onDidOpenTextDocument((document) => this.scheduleDiagnostics(document)),
+			vscode.workspace.onDidChangeTextDocument((event) => this.scheduleDiagnostics(event.document)),
+			vscode.workspace.onDidCloseTextDocument((document) => this.clearDocument(document)),
+			vscode.workspace.onDidChangeConfiguration((event) => {
+				if (event.affectsConfiguration("postgresql-schema-sync")) {
+					vscode.workspace.textDocuments.forEach((document) => this.scheduleDiagnostics(document));
+				}
+			}),
+		);
+		vscode.workspace.textDocuments.forEach((document) => this.scheduleDiagnostics(document));
+		Logger.info("SQL language provider registered", "SqlLanguageProvider");
+	}
+
+	/**
+	 * Use a connection's catalog for one document, reloading the catalog so recent schema changes show up
+	 */
+	async setDocumentConnection(document: vscode.TextDocument, connectionId: string): Promise<void> {
+		this.documentConnections.set(document.uri.toString(), connectionId);
+		await this.catalogService.getCatalog(connectionId, true);
+		this.scheduleDiagnostics(document);
+	}
+
+	/**
+	 * The connection whose catalog a document is checked against: the one chosen for the document, else the
+	 * detected connection, else the only connection there is
+	 */
+	getDocumentConnectionId(document: vscode.TextDocument): string | undefined {
+		const connections = this.connectionManager.getConnections();
+		const candidates = [
+			this.documentConnections.get(document.uri.toString()),
+			vscode.workspace.getConfiguration().get<string>("postgresql-schema-sync.detectedConnection"),
+		];
+		const connectionId = candidates.find((id) => id && connections.some((connection) => connection.id === id));
+		return connectionId ?? (connections.length === 1 ? connections[0].id : undefined);
+	}
+
+	async provideCompletionItems(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+	): Promise<vscode.CompletionItem[] | undefined> {
+		if (
+			!vscode.workspace
+				.getConfiguration("postgresql-schema-sync.queryEditor")
+				.get<boolean>("autoComplete.enabled", true)
+		) {
+			return undefined;
+		}
+		const catalog = await this.getDocumentCatalog(document);
+		if (!catalog) {
+			return undefined;
+		}
+
+		const text = document.getText();
+		const offset = document.offsetAt(position);
+		const context = SqlStatementAnalyzer.getCompletionContext(text, offset);
+		const statement = SqlStatementAnalyzer.statementAt(SqlStatementAnalyzer.analyze(text), offset);
+		if (!statement) {
+			return undefined;
+		}
+
+		switch (context.kind) {
+			case "member":
+				return this.completeMember(catalog, statement, context.qualifier);
+			case "relation":
+				return this.completeRelations(catalog, statement);
+			case "enum_value": {
+				const labels = this.findEnumLabels(catalog, statement, context.column);
+				if (!labels) {
+					return this.completeExpression(catalog, statement);
+				}
+				return labels.map((label, index) => {
+					const item = new vscode.CompletionItem(label, vscode.CompletionItemKind.EnumMember);
+					item.insertText = context.insideString ? label : `'${label.replace(/'/g, "''")}'`;
+					item.sortText = String(index).padStart(4, "0");
+					if (context.insideString) {
+						item.range = new vscode.Range(document.positionAt(offset - context.prefix.length), position);
+					}
+					return item;
+				});
+			}
+			case "expression":
+				return this.completeExpression(catalog, statement);
+			default:
+				return undefined;
+		}
+	}
+
+	async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+		const catalog = await this.getDocumentCatalog(document);
+		if (!catalog) {
+			return undefined;
+		}
+
+		const text = document.getText();
+		const offset = document.offsetAt(position);
+		const statement = SqlStatementAnalyzer.statementAt(SqlStatementAnalyzer.analyze(text), offset);
+		const code = statement?.tokens.filter((token) => token.type !== "comment") ?? [];
+		const index = code.findIndex((token) => token.start <= offset && offset <= token.end);
+		const token = code[index];
+		if (!statement || !token || (token.type !== "word" && token.type !== "quoted")) {
+			return undefined;
+		}
+
+		const range = new vscode.Range(document.positionAt(token.start), document.positionAt(token.end));
+		const qualifier = code[index - 1]?.text === "." ? code[index - 2] : undefined;
+		const qualifierSchema = qualifier && code[index - 3]?.text === "." ? code[index - 4]?.value : undefined;
+		const markdown = this.describeToken(catalog, statement, code, index, token, qualifier, qualifierSchema);
+		return markdown ? new vscode.Hover(markdown, range) : undefined;
+	}
+
+	async provideSignatureHelp(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+	): Promise<vscode.SignatureHelp | undefined> {
+		const call = SqlStatementAnalyzer.findCallAt(document.getText(), document.offsetAt(position));
+		if (!call) {
+			return undefined;
+		}
+		const catalog = await this.getDocumentCatalog(document);
+		const overloads = catalog ? SqlCatalogService.findFunctions(catalog, call.name, call.schema) : [];
+		if (overloads.length === 0) {
+			return undefined;
+		}
+
+		const help = new vscode.SignatureHelp();
+		help.signatures = overloads.map((fn) => {
+			const parameters = SqlCatalogService.listInputParameters(fn).map(SqlCatalogService.formatParameter);
+			const signature = new vscode.SignatureInformation(`${fn.name}(${parameters.join(", ")}) → ${fn.returnType}`);
+			signature.documentation = new vscode.MarkdownString(`\`${fn.schema}\` · ${fn.language}`);
+			signature.parameters = parameters.map((parameter) => new vscode.ParameterInformation(parameter));
+			return signature;
+		});
+		// Prefer the first overload that takes at least as many arguments as are being written
+		const matching = overloads.findIndex((fn) => SqlCatalogService.listInputParameters(fn).length > call.argumentIndex);
+		help.activeSignature = Math.max(matching, 0);
+		help.activeParameter = call.argumentIndex;
+		return help;
+	}
+
+	dispose(): void {
+		this.pendingDiagnostics.forEach((timer) => clearTimeout(timer));
+		this.pendingDiagnostics.clear();
+		this.disposables.forEach((disposable) => disposable.dispose());
+		this.disposables = [];
+	}
+
+	private async getDocumentCatalog(document: vscode.TextDocument): Promise<SqlCatalog | undefined> {
+		const connectionId = this.getDocumentConnectionId(document);
+		if (!connectionId) {
+			return undefined;
+		}
+		try {
+			return await this.catalogService.getCatalog(connectionId);
+		} catch (error) {
+			Logger.warn("SQL catalog unavailable", "SqlLanguageProvider", {
+				connectionId,
+				error: (error as Error).message,
+			});
+			return undefined;
+		}
+	}
+
+	private completeMember(catalog: SqlCatalog, statement: SqlStatement, qualifier: string[]): vscode.CompletionItem[] {
+		const items: vscode.CompletionItem[] = [];
+		const [first, second] = qualifier;
+
+		if (qualifier.length === 1) {
+			for (const relation of this.resolveTables(catalog, statement, first)) {
+				items.push(...relation.columns.map((column) => this.createColumnItem(relation, column)));
+			}
+			if (catalog.schemas.includes(first)) {
+				for (const relation of catalog.relations.values()) {
+					if (relation.schema === first) {
+						items.push(this.createRelationItem(relation));
+					}
+				}
+				for (const [key, overloads] of catalog.functions) {
+					if (key.startsWith(`${first}.`)) {
+						items.push(this.createFunctionItem(overloads));
+					}
+				}
+			}
+		} else if (qualifier.length === 2) {
+			const relation =
+				this.resolveTables(catalog, statement, second, first)[0] ??
+				SqlCatalogService.findRelation(catalog, second, first);
+			items.push(...(relation?.columns.map((column) => this.createColumnItem(relation, column)) ?? []));
+		}
+		return items;
+	}
+
+	private completeRelations(catalog: SqlCatalog, statement: SqlStatement): vscode.CompletionItem[] {
+		const items = SqlCatalogService.listVisibleRelations(catalog).map((relation) => this.createRelationItem(relation));
+		for (const schema of catalog.schemas) {
+			const item = new vscode.CompletionItem(schema, vscode.CompletionItemKind.Module);
+			item.detail = "schema";
+			item.sortText = `2${schema}`;
+			items.push(item);
+		}
+		for (const cteName of statement.cteNames) {
+			const item = new vscode.CompletionItem(cteName, vscode.CompletionItemKind.Reference);
+			item.detail = "WITH query";
+			item.sortText = `0${cteName}`;
+			items.push(item);
+		}
+		return items;
+	}
+
+	private completeExpression(catalog: SqlCatalog, statement: SqlStatement): vscode.CompletionItem[] {
+		const items: vscode.CompletionItem[] = [];
+		const seenColumns = new Set<string>();
+		for (const table of statement.tables) {
+			const qualifier = table.alias ?? table.name;
+			if (qualifier) {
+				const item = new vscode.CompletionItem(qualifier, vscode.CompletionItemKind.Reference);
+				item.detail = table.alias ? `alias of ${table.schema ? `${table.schema}.` : ""}${table.name}` : "table";
+				item.sortText = `1${qualifier}`;
+				items.push(item);
+			}
+		}
+		for (const relation of this.listStatementRelations(catalog, statement)) {
+			for (const column of relation.columns) {
+				if (!seenColumns.has(column.name)) {
+					seenColumns.add(column.name);
+					items.push(this.createColumnItem(relation, column));
+				}
+			}
+		}
+
+		for (const schema of catalog.searchPath) {
+			for (const [key, overloads] of catalog.functions) {
+				if (key.startsWith(`${schema}.`)) {
+					items.push(this.createFunctionItem(overloads));
+				}
+			}
+		}
+		return items;
+	}
+
+	private createColumnItem(
+		relation: SqlCatalogRelation,
+		column: SqlCatalogRelation["columns"][number],
+	): vscode.CompletionItem {
+		const item = new vscode.CompletionItem(column.name, vscode.CompletionItemKind.Field);
+		item.detail = `${column.dataType}${column.nullable ? "" : " NOT NULL"} · ${relation.schema}.${relation.name}`;
+		item.insertText = this.quoteIdentifier(column.name);
+		item.sortText = `0${column.name}`;
+		return item;
+	}
+
+	private createRelationItem(relation: SqlCatalogRelation): vscode.CompletionItem {
+		const item = new vscode.CompletionItem(
+			relation.name,
+			relation.kind === "table" ? vscode.CompletionItemKind.Class : vscode.CompletionItemKind.Interface,
+		);
+		item.detail = `${RELATION_KIND_LABELS[relation.kind]} · ${relation.schema}`;
+		item.documentation = relation.comment;
+		item.insertText = this.quoteIdentifier(relation.name);
+		// Catalog relations after the user's own
+		item.sortText = `${relation.system ? 3 : 1}${relation.name}`;
+		return item;
+	}
+
+	private createFunctionItem(overloads: NativeFunctionMetadata[]): vscode.CompletionItem {
+		const [fn] = overloads;
+		const item = new vscode.CompletionItem(fn.name, vscode.CompletionItemKind.Function);
+		item.detail = `${SqlCatalogService.formatSignature(fn)}${overloads.length > 1 ? ` (+${overloads.length - 1} overloads)` : ""}`;
+		item.insertText = new vscode.SnippetString(`${this.quoteIdentifier(fn.name)}($0)`);
+		item.command = { command: "editor.action.triggerParameterHints", title: "Show parameters" };
+		item.sortText = `${fn.schema === "pg_catalog" ? 4 : 2}${fn.name}`;
+		return item;
+	}
+
+	/**
+	 * Catalog relations a qualifier may stand for in a statement; CTEs and subqueries have no catalog entry
+	 */
+	private resolveTables(
+		catalog: SqlCatalog,
+		statement: SqlStatement,
+		qualifier: string,
+		qualifierSchema?: string,
+	): SqlCatalogRelation[] {
+		return SqlStatementAnalyzer.findQualifiedTables(statement, qualifier, qualifierSchema)
+			.filter((table) => table.kind === "relation")
+			.map((table) => SqlCatalogService.findRelation(catalog, table.name, table.schema))
+			.filter((relation): relation is SqlCatalogRelation => !!relation);
+	}
+
+	private findEnumLabels(
+		catalog: SqlCatalog,
+		statement: SqlStatement,
+		target: { qualifier?: string; column: string },
+	): string[] | undefined {
+		const relations = target.qualifier
+			? this.resolveTables(catalog, statement, target.qualifier)
+			: this.listStatementRelations(catalog, statement);
+		for (const relation of relations) {
+			const enumType = relation.columns.find((column) => column.name === target.column)?.enumType;
+			if (enumType) {
+				return catalog.enums.get(enumType);
+			}
+		}
+		return undefined;
+	}
+
+	private describeToken(
+		catalog: SqlCatalog,
+		statement: SqlStatement,
+		code: SqlToken[],
+		index: number,
+		token: SqlToken,
+		qualifier?: SqlToken,
+		qualifierSchema?: string,
+	): vscode.MarkdownString | undefined {
+		// Function call
+		if (code[index + 1]?.text === "(") {
+			const overloads = SqlCatalogService.findFunctions(catalog, token.value, qualifier?.value);
+			if (overloads.length > 0) {
+				const markdown = new vscode.MarkdownString();
+				markdown.appendCodeblock(overloads.map(SqlCatalogService.formatSignature).join("\n"), "sql");
+				markdown.appendMarkdown(`${overloads[0].language} function`);
+				return markdown;
+			}
+		}
+
+		// Table name in FROM, JOIN and the like, or an alias of one
+		const table = statement.tables.find(
+			(reference) =>
+				reference.kind === "relation" &&
+				((token.end === reference.end && token.value === reference.name) ||
+					(!qualifier && reference.alias === token.value)),
+		);
+		const tableRelation = table && SqlCatalogService.findRelation(catalog, table.name, table.schema);
+		if (tableRelation) {
+			return this.describeRelation(tableRelation);
+		}
+
+		if (qualifier) {
+			// schema.relation
+			if (catalog.schemas.includes(qualifier.value) && !qualifierSchema) {
+				const relation = SqlCatalogService.findRelation(catalog, token.value, qualifier.value);
+				if (relation && this.resolveTables(catalog, statement, qualifier.value).length === 0) {
+					return this.describeRelation(relation);
+				}
+			}
+			// alias.column
+			for (const relation of this.resolveTables(catalog, statement, qualifier.value, qualifierSchema)) {
+				const column = relation.columns.find((candidate) => candidate.name === token.value);
+				if (column) {
+					return this.describeColumn(catalog, relation, column);
+				}
+			}
+			return undefined;
+		}
+
+		// Unqualified column of a relation in scope
+		for (const relation of this.listStatementRelations(catalog, statement)) {
+			const column = relation.columns.find((candidate) => candidate.name === token.value);
+			if (column) {
+				return this.describeColumn(catalog, relation, column);
+			}
+		}
+		return undefined;
+	}
+
+	private listStatementRelations(catalog: SqlCatalog, statement: SqlStatement): SqlCatalogRelation[] {
+		return statement.tables
+			.filter((table) => table.kind === "relation")
+			.map((table) => SqlCatalogService.findRelation(catalog, table.name, table.schema))
+			.filter((relation): relation is SqlCatalogRelation => !!relation);
+	}
+
+	private describeRelation(relation: SqlCatalogRelation): vscode.MarkdownString {
+		const markdown = new vscode.MarkdownString();
+		markdown.appendMarkdown(`**${relation.schema}.${relation.name}** · ${RELATION_KIND_LABELS[relation.kind]}\n\n`);
+		if (relation.comment) {
+			markdown.appendText(`${relation.comment}\n\n`);
+		}
+		markdown.appendCodeblock(
+			relation.columns
+				.map((column) => `${column.name} ${column.dataType}${column.nullable ? "" : " NOT NULL"}`)
+				.join("\n"),
+			"sql",
+		);
+		return markdown;
+	}
+
+	private describeColumn(
+		catalog: SqlCatalog,
+		relation: SqlCatalogRelation,
+		column: SqlCatalogRelation["columns"][number],
+	): vscode.MarkdownString {
+		const markdown = new vscode.MarkdownString();
+		markdown.appendCodeblock(
+			`${relation.schema}.${relation.name}.${column.name} ${column.dataType}${column.nullable ? "" : " NOT NULL"}`,
+			"sql",
+		);
+		const labels = column.enumType ? catalog.enums.get(column.enumType) : undefined;
+		if (labels) {
+			markdown.appendMarkdown(`Values: ${labels.map((label) => `\`${label}\``).join(", ")}`);
+		}
+		return markdown;
+	}
+
+	private scheduleDiagnostics(document: vscode.TextDocument): void {
+		if (!vscode.languages.match(SQL_SELECTOR, document)) {
+			return;
+		}
+		const key = document.uri.toString();
+		clearTimeout(this.pendingDiagnostics.get(key));
+		this.pendingDiagnostics.set(
+			key,
+			setTimeout(() => {
+				this.pendingDiagnostics.delete(key);
+				this.updateDiagnostics(document).catch((error) =>
+					Logger.error("Failed to check SQL document", error as Error, "SqlLanguageProvider"),
+				);
+			}, DIAGNOSTICS_DEBOUNCE_MS),
+		);
+	}
+
+	/**
+	 * Warn about relations, schemas and qualified columns the catalog does not have. Unqualified columns are
+	 * left alone: without a full parser they cannot be told apart from output aliases and function parameters.
+	 */
+	private async updateDiagnostics(document: vscode.TextDocument): Promise<void> {
+		const enabled = vscode.workspace
+			.getConfiguration("postgresql-schema-sync.queryEditor")
+			.get<boolean>("diagnostics.enabled", true);
+		const text = document.getText();
+		if (!enabled || document.isClosed || text.length > MAX_DIAGNOSTICS_LENGTH) {
+			this.diagnostics.delete(document.uri);
+			return;
+		}
+		const catalog = await this.getDocumentCatalog(document);
+		if (!catalog || document.isClosed) {
+			this.diagnostics.delete(document.uri);
+			return;
+		}
+
+		const diagnostics: vscode.Diagnostic[] = [];
+		const createdRelations = new Set<string>();
+		const createdSchemas = new Set<string>();
+		const warn = (start: number, end: number, message: string) => {
+			const diagnostic = new vscode.Diagnostic(
+				new vscode.Range(document.positionAt(start), document.positionAt(end)),
+				message,
+				vscode.DiagnosticSeverity.Warning,
+			);
+			diagnostic.source = "postgresql";
+			diagnostics.push(diagnostic);
+		};
+
+		for (const statement of SqlStatementAnalyzer.analyze(text)) {
+			statement.createdSchemas.forEach((schema) => createdSchemas.add(schema));
+			statement.createdRelations.forEach((relation) => createdRelations.add(relation));
+
+			for (const table of statement.tables) {
+				if (table.kind !== "relation" || createdRelations.has(table.name)) {
+					continue;
+				}
+				if (table.schema && !catalog.schemas.includes(table.schema) && !createdSchemas.has(table.schema)) {
+					warn(table.start, table.end, `Schema "${table.schema}" does not exist`);
+				} else if (
+					!SqlCatalogService.findRelation(catalog, table.name, table.schema) &&
+					!createdSchemas.has(table.schema ?? "")
+				) {
+					warn(
+						table.start,
+						table.end,
+						table.schema
+							? `Relation "${table.schema}.${table.name}" does not exist`
+							: `Relation "${table.name}" does not exist on the search path (${catalog.searchPath.join(", ")})`,
+					);
+				}
+			}
+
+			for (const column of statement.columns) {
+				const tables = SqlStatementAnalyzer.findQualifiedTables(statement, column.qualifier, column.qualifierSchema);
+				// Only judge columns whose qualifier certainly names catalog relations
+				if (tables.length === 0 || tables.some((table) => table.kind !== "relation")) {
+					continue;
+				}
+				const relations = tables.map((table) => SqlCatalogService.findRelation(catalog, table.name, table.schema));
+				if (relations.some((relation) => !relation) || SYSTEM_COLUMNS.has(column.column)) {
+					continue;
+				}
+				if (!relations.some((relation) => relation!.columns.some((candidate) => candidate.name === column.column))) {
+					const relation = relations[0]!;
+					warn(
+						column.start,
+						column.end,
+						`Column "${column.column}" does not exist on ${relation.schema}.${relation.name}`,
+					);
+				}
+			}
+		}
+
+		this.diagnostics.set(document.uri, diagnostics);
+	}
+
+	private clearDocument(document: vscode.TextDocument): void {
+		const key = document.uri.toString();
+		clearTimeout(this.pendingDiagnostics.get(key));
+		this.pendingDiagnostics.delete(key);
+		this.documentConnections.delete(key);
+		this.diagnostics.delete(document.uri);
+	}
+
+	/**
+	 * Quote an identifier when PostgreSQL would otherwise fold or reject it
+	 */
+	private quoteIdentifier(name: string): string {
+		return /^[a-z_][a-z0-9_$]*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+	}
+}
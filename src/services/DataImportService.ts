@@ -1,6 +1,10 @@
 import { Parser } from "node-sql-parser";
 import * as vscode from "vscode";
-import { PostgreSqlConnectionManager } from "@/core/PostgreSqlConnectionManager";
+import {
+	PostgreSqlConnectionManager,
+	QueryCancellationToken,
+	QueryCancelledError,
+} from "@/core/PostgreSqlConnectionManager";
 import { ConnectionManager } from "@/managers/ConnectionManager";
 import { ExtensionInitializer } from "@/utils/ExtensionInitializer";
 import { Logger } from "@/utils/Logger";
@@ -921,6 +925,24 @@ export class DataImportService {
 				// Execute import via .NET service
 				const result = await this.performImport(job, columnMapping, operationIndicator.cancellationToken?.token);
 
+				if (result.cancelled) {
+					job.status = "cancelled";
+					job.importedRows = result.importedRows;
+					job.errorRows = result.errorRows;
+					job.completedAt = new Date();
+					this.importJobs.set(jobId, job);
+					this.importHistory.unshift(job);
+					this.activeImports.delete(jobId);
+					statusBarProvider.updateOperation(`import-${jobId}`, "cancelled", {
+						message: `Import cancelled after ${job.importedRows} rows`,
+					});
+					vscode.window.showWarningMessage(
+						`Import cancelled: ${job.importedRows} row(s) imported before the cancel remain in ${job.targetSchema}.${job.targetTable}`,
+					);
+					Logger.info("Import job cancelled", "executeImportJob", { jobId, importedRows: job.importedRows });
+					return;
+				}
+
 				// Step 3: Finalize
 				statusBarProvider.updateOperationStep(`import-${jobId}`, 1, "completed");
 				statusBarProvider.updateOperationStep(`import-${jobId}`, 2, "running", {
@@ -1133,14 +1155,19 @@ export class DataImportService {
 
 		return null;
 	}
+	/**
+	 * Insert the file's rows in batches, each on its own pooled client. Cancelling stops the running batch on
+	 * the server and no further batch starts; the batches inserted before it stay in the table.
+	 */
 	private async performImport(
 		job: ImportJob,
 		columnMapping: ColumnMapping[],
-		token: any,
+		token?: QueryCancellationToken,
 	): Promise<{
 		importedRows: number;
 		skippedRows: number;
 		errorRows: number;
+		cancelled?: boolean;
 	}> {
 		try {
 			// Get connection for import
@@ -1192,10 +1219,12 @@ export class DataImportService {
 			let importedRows = 0;
 			let skippedRows = 0;
 			let errorRows = 0;
+			let cancelled = false;
 
 			// Process in batches
 			for (let i = 0; i < rows.length; i += batchSize) {
-				if (token.isCancellationRequested) {
+				if (token?.isCancellationRequested) {
+					cancelled = true;
 					break;
 				}
 
@@ -1212,7 +1241,12 @@ export class DataImportService {
 					// Execute batch via native service - use PostgreSqlConnectionManager
 					const result = await this.dotNetService.createConnection(dotNetConnection).then(async (handle) => {
 						try {
-							const queryResult = await handle.connection.query(sql);
+							const queryResult = await this.dotNetService.runCancellable(
+								dotNetConnection,
+								handle.connection,
+								token,
+								() => handle.connection.query(sql),
+							);
 							return { rowCount: queryResult.rowCount, executionTime: 0 };
 						} finally {
 							handle.release();
@@ -1226,6 +1260,11 @@ export class DataImportService {
 					job.progress = Math.round(progress);
 					this.importJobs.set(job.id, job);
 				} catch (batchError) {
+					// A cancelled batch is not an error row, and continueOnError does not carry on past it
+					if (batchError instanceof QueryCancelledError) {
+						cancelled = true;
+						break;
+					}
 					errorRows += batch.length;
 
 					if (!job.options.continueOnError) {
@@ -1240,6 +1279,7 @@ export class DataImportService {
 				importedRows,
 				skippedRows,
 				errorRows,
+				cancelled,
 			};
 		} catch (error) {
 			Logger.error("Failed to perform import", error as Error);
@@ -0,0 +1,296 @@
+/**
+ * Why a plan node is highlighted in the plan view
+ */
+export type PlanNodeFlag = "expensive" | "row_estimate_miss" | "large_seq_scan" | "disk_sort";
+
+export interface PlanNodeWarning {
+	flag: PlanNodeFlag;
+	message: string;
+}
+
+/**
+ * One node of an EXPLAIN (FORMAT JSON) plan. Actual values are only present when the plan was analyzed.
+ */
+export interface ExecutionPlanNode {
+	/** Position of the node in a depth-first walk of the plan, starting at 0 for the root */
+	id: number;
+	depth: number;
+	nodeType: string;
+	parentRelationship?: string;
+	relationName?: string;
+	schema?: string;
+	alias?: string;
+	indexName?: string;
+	joinType?: string;
+	/** Filter, index, join or hash condition, whichever the node has */
+	condition?: string;
+	startupCost: number;
+	totalCost: number;
+	planRows: number;
+	planWidth: number;
+	actualStartupTime?: number;
+	/** Per loop, in milliseconds, as PostgreSQL reports it */
+	actualTotalTime?: number;
+	/** Per loop, as PostgreSQL reports it */
+	actualRows?: number;
+	actualLoops?: number;
+	rowsRemovedByFilter?: number;
+	sortMethod?: string;
+	sortSpaceType?: string;
+	sortSpaceUsedKb?: number;
+	sharedHitBlocks?: number;
+	sharedReadBlocks?: number;
+	tempReadBlocks?: number;
+	tempWrittenBlocks?: number;
+	/** Time over all loops including children; the total cost when the plan was not analyzed */
+	inclusiveWeight: number;
+	/** inclusiveWeight minus the children's, never below zero */
+	exclusiveWeight: number;
+	/** exclusiveWeight as a share of the whole plan, between 0 and 1 */
+	exclusiveShare: number;
+	/** Actual rows divided by estimated rows; below 1 when the planner overestimated */
+	estimateFactor?: number;
+	/** Estimated row count of the scanned table, from pg_class */
+	relationRows?: number;
+	/** Remaining scalar properties of the node, for the detail view */
+	properties: Record<string, string | number | boolean>;
+	warnings: PlanNodeWarning[];
+	children: ExecutionPlanNode[];
+}
+
+export interface ExecutionPlan {
+	root: ExecutionPlanNode;
+	analyzed: boolean;
+	buffers: boolean;
+	planningTime?: number;
+	executionTime?: number;
+	/** Unit of inclusiveWeight and exclusiveWeight */
+	weightUnit: "ms" | "cost";
+	nodeCount: number;
+	warningCount: number;
+}
+
+export interface ExecutionPlanParseOptions {
+	analyzed: boolean;
+	buffers: boolean;
+	/** Estimated row counts keyed by schema-qualified relation name */
+	relationRows?: Map<string, number>;
+}
+
+/** Nodes above this share of the plan are highlighted, at most EXPENSIVE_NODE_LIMIT of them */
+const EXPENSIVE_NODE_SHARE = 0.1;
+const EXPENSIVE_NODE_LIMIT = 3;
+/** Actual and estimated rows further apart than this factor, in either direction, count as a miss */
+const ROW_ESTIMATE_MISS_FACTOR = 10;
+/** Sequential scans of tables with at least this many rows are highlighted */
+const LARGE_TABLE_ROWS = 100000;
+
+/** Keys mapped onto ExecutionPlanNode fields, or too noisy to list among the properties */
+const MAPPED_PROPERTIES = new Set([
+	"Node Type",
+	"Parent Relationship",
+	"Relation Name",
+	"Schema",
+	"Alias",
+	"Index Name",
+	"Join Type",
+	"Startup Cost",
+	"Total Cost",
+	"Plan Rows",
+	"Plan Width",
+	"Actual Startup Time",
+	"Actual Total Time",
+	"Actual Rows",
+	"Actual Loops",
+	"Rows Removed by Filter",
+	"Sort Method",
+	"Sort Space Type",
+	"Sort Space Used",
+	"Shared Hit Blocks",
+	"Shared Read Blocks",
+	"Temp Read Blocks",
+	"Temp Written Blocks",
+	"Plans",
+	"Output",
+]);
+
+const CONDITION_PROPERTIES = ["Index Cond", "Hash Cond", "Merge Cond", "Join Filter", "Recheck Cond", "Filter"];
+
+/**
+ * ExecutionPlanParser - Turns EXPLAIN (FORMAT JSON) output into a typed node tree and flags the nodes worth
+ * a look: the most expensive ones, row estimates that missed, sequential scans of large tables and sorts
+ * that spilled to disk
+ */
+export class ExecutionPlanParser {
+	/**
+	 * Schema-qualified names of the relations the plan scans; unqualified when EXPLAIN ran without VERBOSE
+	 */
+	static listRelations(output: unknown): string[] {
+		const relations = new Set<string>();
+		const visit = (plan: Record<string, any>) => {
+			if (plan["Relation Name"]) {
+				relations.add(ExecutionPlanParser.relationKey(plan["Relation Name"], plan.Schema));
+			}
+			for (const child of plan.Plans || []) {
+				visit(child);
+			}
+		};
+		visit(ExecutionPlanParser.unwrap(output).Plan);
+		return Array.from(relations);
+	}
+
+	static relationKey(relationName: string, schema?: string): string {
+		return schema ? `${schema}.${relationName}` : relationName;
+	}
+
+	/**
+	 * Parse EXPLAIN (FORMAT JSON) output, as returned by node-postgres or as JSON text
+	 * @throws Error if the output is not a JSON plan
+	 */
+	static parse(output: unknown, options: ExecutionPlanParseOptions): ExecutionPlan {
+		const explained = ExecutionPlanParser.unwrap(output);
+		let nextId = 0;
+
+		const build = (plan: Record<string, any>, depth: number): ExecutionPlanNode => {
+			const node: ExecutionPlanNode = {
+				id: nextId++,
+				depth,
+				nodeType: String(plan["Node Type"]),
+				parentRelationship: plan["Parent Relationship"],
+				relationName: plan["Relation Name"],
+				schema: plan.Schema,
+				alias: plan.Alias,
+				indexName: plan["Index Name"],
+				joinType: plan["Join Type"],
+				condition: CONDITION_PROPERTIES.map((key) => plan[key]).find((value) => typeof value === "string"),
+				startupCost: Number(plan["Startup Cost"]) || 0,
+				totalCost: Number(plan["Total Cost"]) || 0,
+				planRows: Number(plan["Plan Rows"]) || 0,
+				planWidth: Number(plan["Plan Width"]) || 0,
+				actualStartupTime: plan["Actual Startup Time"],
+				actualTotalTime: plan["Actual Total Time"],
+				actualRows: plan["Actual Rows"],
+				actualLoops: plan["Actual Loops"],
+				rowsRemovedByFilter: plan["Rows Removed by Filter"],
+				sortMethod: plan["Sort Method"],
+				sortSpaceType: plan["Sort Space Type"],
+				sortSpaceUsedKb: plan["Sort Space Used"],
+				sharedHitBlocks: plan["Shared Hit Blocks"],
+				sharedReadBlocks: plan["Shared Read Blocks"],
+				tempReadBlocks: plan["Temp Read Blocks"],
+				tempWrittenBlocks: plan["Temp Written Blocks"],
+				inclusiveWeight: 0,
+				exclusiveWeight: 0,
+				exclusiveShare: 0,
+				properties: ExecutionPlanParser.collectProperties(plan),
+				warnings: [],
+				children: [],
+			};
+			node.children = (plan.Plans || []).map((child: Record<string, any>) => build(child, depth + 1));
+
+			node.inclusiveWeight = options.analyzed ? (node.actualTotalTime ?? 0) * (node.actualLoops ?? 1) : node.totalCost;
+			const childWeight = node.children.reduce((sum, child) => sum + child.inclusiveWeight, 0);
+			node.exclusiveWeight = Math.max(0, node.inclusiveWeight - childWeight);
+			return node;
+		};
+
+		const root = build(explained.Plan, 0);
+		const nodes = ExecutionPlanParser.flatten(root);
+		const totalWeight = nodes.reduce((sum, node) => sum + node.exclusiveWeight, 0);
+		for (const node of nodes) {
+			node.exclusiveShare = totalWeight > 0 ? node.exclusiveWeight / totalWeight : 0;
+			ExecutionPlanParser.flagNode(node, options);
+		}
+
+		const expensive = nodes
+			.filter((node) => node.exclusiveShare >= EXPENSIVE_NODE_SHARE)
+			.sort((a, b) => b.exclusiveShare - a.exclusiveShare)
+			.slice(0, EXPENSIVE_NODE_LIMIT);
+		for (const node of expensive) {
+			node.warnings.unshift({
+				flag: "expensive",
+				message: `${Math.round(node.exclusiveShare * 100)}% of the plan's ${options.analyzed ? "time" : "cost"} is spent in this node`,
+			});
+		}
+
+		return {
+			root,
+			analyzed: options.analyzed,
+			buffers: options.buffers,
+			planningTime: explained["Planning Time"],
+			executionTime: explained["Execution Time"],
+			weightUnit: options.analyzed ? "ms" : "cost",
+			nodeCount: nodes.length,
+			warningCount: nodes.reduce((sum, node) => sum + node.warnings.length, 0),
+		};
+	}
+
+	/**
+	 * Every node of the tree in depth-first order
+	 */
+	static flatten(root: ExecutionPlanNode): ExecutionPlanNode[] {
+		return [root, ...root.children.flatMap((child) => ExecutionPlanParser.flatten(child))];
+	}
+
+	private static unwrap(output: unknown): Record<string, any> {
+		const parsed = typeof output === "string" ? JSON.parse(output) : output;
+		const explained = Array.isArray(parsed) ? parsed[0] : parsed;
+		if (!explained || typeof explained !== "object" || !explained.Plan) {
+			throw new Error("EXPLAIN output is not a JSON plan");
+		}
+		return explained;
+	}
+
+	private static collectProperties(plan: Record<string, any>): Record<string, string | number | boolean> {
+		const properties: Record<string, string | number | boolean> = {};
+		for (const [key, value] of Object.entries(plan)) {
+			if (MAPPED_PROPERTIES.has(key)) {
+				continue;
+			}
+			if (Array.isArray(value)) {
+				properties[key] = value.join(", ");
+			} else if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+				properties[key] = value;
+			}
+		}
+		return properties;
+	}
+
+	private static flagNode(node: ExecutionPlanNode, options: ExecutionPlanParseOptions): void {
+		// A node that never ran has no actual rows to compare
+		if (options.analyzed && node.actualRows !== undefined && (node.actualLoops ?? 0) > 0) {
+			node.estimateFactor = Math.max(node.actualRows, 1) / Math.max(node.planRows, 1);
+			if (node.estimateFactor >= ROW_ESTIMATE_MISS_FACTOR || node.estimateFactor <= 1 / ROW_ESTIMATE_MISS_FACTOR) {
+				node.warnings.push({
+					flag: "row_estimate_miss",
+					message:
+						node.estimateFactor > 1
+							? `${node.actualRows} rows, ${Math.round(node.estimateFactor)}x more than the ${node.planRows} estimated`
+							: `${node.actualRows} rows, ${Math.round(1 / node.estimateFactor)}x fewer than the ${node.planRows} estimated`,
+				});
+			}
+		}
+
+		if (node.nodeType === "Seq Scan" && node.relationName) {
+			node.relationRows = options.relationRows?.get(ExecutionPlanParser.relationKey(node.relationName, node.schema));
+			const scannedRows =
+				node.relationRows ??
+				(options.analyzed
+					? ((node.actualRows ?? 0) + (node.rowsRemovedByFilter ?? 0)) * (node.actualLoops ?? 1)
+					: node.planRows);
+			if (scannedRows >= LARGE_TABLE_ROWS) {
+				node.warnings.push({
+					flag: "large_seq_scan",
+					message: `Sequential scan of ${node.relationName} (about ${Math.round(scannedRows).toLocaleString()} rows)${node.rowsRemovedByFilter ? `, ${node.rowsRemovedByFilter} row(s) removed by the filter per loop` : ""}`,
+				});
+			}
+		}
+
+		if (node.sortSpaceType === "Disk" || /external/i.test(node.sortMethod || "")) {
+			node.warnings.push({
+				flag: "disk_sort",
+				message: `Sort spilled to disk (${node.sortMethod}${node.sortSpaceUsedKb !== undefined ? `, ${node.sortSpaceUsedKb} kB` : ""}); raising work_mem may keep it in memory`,
+			});
+		}
+	}
+}
@@ -0,0 +1,154 @@
+import { FieldDef } from "pg";
+import { ConnectionHandle } from "@/core/PostgreSqlConnectionManager";
+import { Logger } from "@/utils/Logger";
+import { SqlStatementAnalyzer } from "./SqlStatementAnalyzer";
+
+/** Statements DECLARE CURSOR accepts, by their first keyword */
+const CURSOR_STATEMENTS = new Set(["select", "values", "table", "with"]);
+
+/** Keywords of data-modifying statements, which DECLARE rejects inside a WITH or as its main query */
+const DATA_MODIFYING_KEYWORDS = new Set(["insert", "update", "delete", "merge"]);
+
+/** Words before UPDATE in a locking clause such as FOR UPDATE or FOR NO KEY UPDATE */
+const LOCKING_CLAUSE_WORDS = new Set(["for", "key"]);
+
+let cursorSequence = 0;
+
+/** Wraps every statement the cursor runs, e.g. so a cancellation can stop it */
+type CursorStatementGuard = <T>(statement: () => Promise<T>) => Promise<T>;
+
+/**
+ * QueryCursor - A server-side cursor over the rows of one query, fetched in pages on a client that stays checked
+ * out, inside a transaction, until the cursor is closed. Rows come back as arrays in column order.
+ */
+export class QueryCursor {
+	private fetched = 0;
+	private exhausted = false;
+	private closed = false;
+	private columns: FieldDef[] = [];
+
+	private constructor(
+		private handle: ConnectionHandle,
+		private name: string,
+		private guard: CursorStatementGuard,
+	) {}
+
+	/**
+	 * The single query of the text, without its trailing semicolon and comments, when it can run behind a cursor.
+	 * Decided from the text alone, so a statement is never run twice: `SELECT ... INTO` and WITH queries that
+	 * modify data run without a cursor, and every other query is declared as one, its errors going to the user.
+	 */
+	static findCursorStatement(sql: string): string | undefined {
+		const statements = SqlStatementAnalyzer.analyze(sql)
+			.map((statement) => statement.tokens.filter((token) => token.type !== "comment"))
+			.filter((code) => code.length > 0);
+		if (statements.length !== 1 || !CURSOR_STATEMENTS.has(statements[0][0].value)) {
+			return undefined;
+		}
+		const code = statements[0];
+		const words = code.filter((token) => token.type === "word").map((token) => token.value);
+		const modifiesData = words.some(
+			(word, index) =>
+				word === "into" ||
+				(DATA_MODIFYING_KEYWORDS.has(word) && !(word === "update" && LOCKING_CLAUSE_WORDS.has(words[index - 1]))),
+		);
+		return modifiesData ? undefined : sql.slice(code[0].start, code[code.length - 1].end);
+	}
+
+	/**
+	 * Declare a cursor for the query on the handle's client. The handle belongs to the cursor from here on and is
+	 * released by close, also when opening fails.
+	 * @returns undefined when the text is not a query a cursor can run; the caller should execute it normally
+	 * @throws The error DECLARE failed with, such as a syntax error in the query
+	 */
+	static async open(
+		handle: ConnectionHandle,
+		sql: string,
+		values?: unknown[],
+		guard: CursorStatementGuard = (statement) => statement(),
+	): Promise<QueryCursor | undefined> {
+		const statement = QueryCursor.findCursorStatement(sql);
+		if (!statement) {
+			handle.release();
+			return undefined;
+		}
+
+		const cursor = new QueryCursor(handle, `pgss_cursor_${++cursorSequence}`, guard);
+		try {
+			await handle.connection.query("BEGIN");
+			await guard(() => handle.connection.query(`DECLARE ${cursor.name} NO SCROLL CURSOR FOR ${statement}`, values));
+			return cursor;
+		} catch (error) {
+			await cursor.close();
+			throw error;
+		}
+	}
+
+	/** Columns of the result; known after the first fetch */
+	get fields(): FieldDef[] {
+		return this.columns;
+	}
+
+	get fetchedCount(): number {
+		return this.fetched;
+	}
+
+	/** Every row has been fetched */
+	get done(): boolean {
+		return this.exhausted;
+	}
+
+	get isClosed(): boolean {
+		return this.closed;
+	}
+
+	/**
+	 * Fetch up to count further rows. Fewer rows than asked for means the cursor is exhausted.
+	 * A failed fetch aborts the transaction, so the cursor is closed before the error is thrown.
+	 */
+	async fetch(count: number): Promise<any[][]> {
+		if (this.closed) {
+			throw new Error("The query's cursor is closed; run the query again");
+		}
+		if (this.exhausted) {
+			return [];
+		}
+
+		const pageSize = Math.max(1, Math.floor(count));
+		try {
+			const result = await this.guard(() =>
+				this.handle.connection.query({
+					text: `FETCH FORWARD ${pageSize} FROM ${this.name}`,
+					rowMode: "array",
+				}),
+			);
+			this.columns = result.fields;
+			this.fetched += result.rows.length;
+			this.exhausted = result.rows.length < pageSize;
+			return result.rows;
+		} catch (error) {
+			await this.close();
+			throw error;
+		}
+	}
+
+	/**
+	 * End the transaction and return the client to the pool. Safe to call more than once.
+	 * The transaction is committed, as a plain run of the query would be; after an error that ends it as a rollback.
+	 */
+	async close(): Promise<void> {
+		if (this.closed) {
+			return;
+		}
+		this.closed = true;
+		try {
+			await this.handle.connection.query("COMMIT");
+		} catch (error) {
+			Logger.warn("Failed to end the cursor's transaction", "QueryCursor.close", {
+				error: (error as Error).message,
+			});
+		} finally {
+			this.handle.release();
+		}
+	}
+}
@@ -1,8 +1,16 @@
-import { PostgreSqlConnectionManager } from "@/core/PostgreSqlConnectionManager";
+import { FieldDef, PoolClient } from "pg";
+import {
+	PostgreSqlConnectionManager,
+	QueryCancellationToken,
+	QueryCancelledError,
+} from "@/core/PostgreSqlConnectionManager";
 import { ConnectionManager } from "@/managers/ConnectionManager";
 import { SchemaOperations } from "@/managers/schema/SchemaOperations";
 import { getUUId } from "@/utils/helper";
 import { Logger } from "@/utils/Logger";
+import { ExecutionPlan, ExecutionPlanParser } from "./ExecutionPlanParser";
+import { QueryCursor } from "./QueryCursor";
+import { QueryParameters, QueryParameterValue } from "./QueryParameters";
 
 interface QueryResult {
 	id: string;
@@ -11,8 +19,12 @@ interface QueryResult {
 	rowCount: number;
 	columns: QueryColumn[];
 	rows: any[][];
+	/** The query has rows beyond maxRows that were not fetched */
+	hasMore?: boolean;
 	error?: string;
-	executionPlan?: string;
+	/** The user cancelled the query; error holds the reason */
+	cancelled?: boolean;
+	executionPlan?: ExecutionPlan;
 	timestamp: Date;
 }
 
@@ -24,10 +36,34 @@ interface QueryColumn {
 
 interface QueryOptions {
 	timeout?: number;
+	/** Queries are read through a cursor and stop after this many rows; other statements are unaffected */
 	maxRows?: number;
+	/** Attach the planner's estimated plan; the statement is not run a second time */
 	includeExecutionPlan?: boolean;
+	/** Values for the statement's `$n` or `:name` placeholders, keyed by placeholder; bound, never interpolated */
+	parameters?: Record<string, QueryParameterValue>;
 }
 
+interface ExplainOptions {
+	/** Runs the statement to collect actual times and row counts */
+	analyze?: boolean;
+	/** Adds shared and temp block counts; only with analyze */
+	buffers?: boolean;
+	parameters?: Record<string, QueryParameterValue>;
+	cancellationToken?: QueryCancellationToken;
+}
+
+type ExportFormat = "csv" | "json" | "excel";
+
+interface ExportOptions {
+	parameters?: Record<string, QueryParameterValue>;
+	/** Called after each batch written with the number of rows so far */
+	onProgress?: (rowCount: number) => void;
+}
+
+/** Rows fetched and written per batch when exporting */
+const EXPORT_BATCH_SIZE = 5000;
+
 interface IntelliSenseSuggestion {
 	label: string;
 	kind: "table" | "column" | "function" | "keyword" | "schema";
@@ -77,7 +113,7 @@ export class QueryExecutionService {
 		connectionId: string,
 		query: string,
 		options: QueryOptions = {},
-		_cancellationToken?: any,
+		cancellationToken?: QueryCancellationToken,
 	): Promise<QueryResult> {
 		const startTime = Date.now();
 
@@ -98,28 +134,46 @@ export class QueryExecutionService {
 				throw new Error("Failed to create connection info");
 			}
 
+			const bound = options.parameters ? QueryParameters.bind(query, options.parameters) : undefined;
+
+			// Only the first maxRows rows of a query are fetched, so a large result never has to fit in memory
+			const cursor = options.maxRows
+				? await this.openCursor(connectionId, query, options.parameters, cancellationToken)
+				: undefined;
+
 			// Execute query via native service using pooled connection
-			const dotNetResult = await this.dotNetService.createConnection(dotNetConnection).then(async (handle) => {
-				try {
-					const queryResult = await handle.connection.query(query);
-					return {
-						rowCount: queryResult.rowCount,
-						columns: queryResult.fields.map((field) => ({
-							name: field.name,
-							type: field.dataTypeID.toString(),
-							nullable: true, // Simplified
-						})),
-						rows: queryResult.rows,
-						error: undefined,
-						executionPlan: undefined,
-					};
-				} finally {
-					handle.release();
-				}
-			});
+			const dotNetResult = cursor
+				? await this.readFirstRows(cursor, options.maxRows!)
+				: await this.dotNetService.createConnection(dotNetConnection).then(async (handle) => {
+						try {
+							const queryResult = await this.dotNetService.runCancellable(
+								dotNetConnection,
+								handle.connection,
+								cancellationToken,
+								() => (bound ? handle.connection.query(bound.text, bound.values) : handle.connection.query(query)),
+							);
+							return {
+								rowCount: queryResult.rowCount,
+								columns: this.toColumns(queryResult.fields),
+								rows: queryResult.rows,
+								hasMore: false,
+								error: undefined,
+							};
+						} finally {
+							handle.release();
+						}
+					});
 
 			const executionTime = Date.now() - startTime;
 
+			// Statements EXPLAIN does not accept, such as DDL, simply come back without a plan
+			const executionPlan = options.includeExecutionPlan
+				? await this.explainQuery(connectionId, query, { parameters: options.parameters }).catch((error) => {
+						Logger.debug("No execution plan for query", "executeQuery", { error: (error as Error).message });
+						return undefined;
+					})
+				: undefined;
+
 			// Convert .NET result to local format
 			const result: QueryResult = {
 				id: `query_${getUUId()}`,
@@ -132,22 +186,29 @@ export class QueryExecutionService {
 					nullable: col.nullable,
 				})),
 				rows: dotNetResult.rows,
+				hasMore: dotNetResult.hasMore,
 				error: dotNetResult.error,
-				executionPlan: dotNetResult.executionPlan,
+				executionPlan,
 				timestamp: new Date(),
 			};
 
 			Logger.info("Query executed successfully", "executeQuery", {
 				connectionId,
 				rowCount: result.rowCount,
+				hasMore: result.hasMore,
 				executionTime: result.executionTime,
 			});
 
 			return result;
 		} catch (error) {
 			const executionTime = Date.now() - startTime;
+			const cancelled = error instanceof QueryCancelledError;
 
-			Logger.error("Query execution failed", error as Error);
+			if (cancelled) {
+				Logger.info("Query cancelled", "executeQuery", { connectionId, executionTime });
+			} else {
+				Logger.error("Query execution failed", error as Error);
+			}
 
 			// Return error result
 			return {
@@ -158,11 +219,177 @@ export class QueryExecutionService {
 				columns: [],
 				rows: [],
 				error: (error as Error).message,
+				cancelled,
 				timestamp: new Date(),
 			};
 		}
 	}
 
+	/**
+	 * Open a server-side cursor for a query so its rows can be fetched page by page. The cursor holds a pooled
+	 * client and an open transaction until it is closed, so callers must close it when done.
+	 * @param cancellationToken - Cancels whichever of the cursor's statements is running, for as long as it is open
+	 * @returns undefined when the statement is not a query a cursor can run, such as DML; use executeQuery instead
+	 * @throws QueryCancelledError when the token is cancelled while the cursor is declared
+	 */
+	async openCursor(
+		connectionId: string,
+		query: string,
+		parameters?: Record<string, QueryParameterValue>,
+		cancellationToken?: QueryCancellationToken,
+	): Promise<QueryCursor | undefined> {
+		this.ensureInitialized();
+
+		const bound = parameters ? QueryParameters.bind(query, parameters) : undefined;
+		const text = bound ? bound.text : query;
+		if (!QueryCursor.findCursorStatement(text)) {
+			return undefined;
+		}
+
+		const dotNetConnection = await this.connectionManager.toDotNetConnection(connectionId);
+		if (!dotNetConnection) {
+			throw new Error("Failed to create connection info");
+		}
+
+		const handle = await this.dotNetService.createConnection(dotNetConnection);
+		const cursor = await QueryCursor.open(handle, text, bound?.values, (statement) =>
+			this.dotNetService.runCancellable(dotNetConnection, handle.connection, cancellationToken, statement),
+		);
+		Logger.debug("Query cursor opened", "openCursor", { connectionId, opened: !!cursor });
+		return cursor;
+	}
+
+	/**
+	 * Fetch one row more than needed to know whether rows remain, then close the cursor
+	 */
+	private async readFirstRows(cursor: QueryCursor, maxRows: number) {
+		try {
+			const rows = await cursor.fetch(maxRows + 1);
+			return {
+				rowCount: Math.min(rows.length, maxRows),
+				columns: this.toColumns(cursor.fields),
+				rows: rows.slice(0, maxRows),
+				hasMore: rows.length > maxRows,
+				error: undefined,
+			};
+		} finally {
+			await cursor.close();
+		}
+	}
+
+	/**
+	 * Columns of a result as the query editor shows them
+	 */
+	toColumns(fields: FieldDef[]): QueryColumn[] {
+		return fields.map((field) => ({
+			name: field.name,
+			type: field.dataTypeID.toString(),
+			nullable: true, // Simplified
+		}));
+	}
+
+	/**
+	 * Run work on one pooled client that stays checked out until the work settles.
+	 * Unlike executeQuery, statement errors are thrown, so the caller can manage its own transaction.
+	 * @param cancellationToken - Cancels the statement the client is running; work with several statements
+	 * should also check the token between them
+	 * @throws QueryCancelledError when the work fails after the token was cancelled
+	 */
+	async withPinnedClient<T>(
+		connectionId: string,
+		work: (client: PoolClient) => Promise<T>,
+		cancellationToken?: QueryCancellationToken,
+	): Promise<T> {
+		this.ensureInitialized();
+
+		const dotNetConnection = await this.connectionManager.toDotNetConnection(connectionId);
+		if (!dotNetConnection) {
+			throw new Error("Failed to create connection info");
+		}
+
+		const handle = await this.dotNetService.createConnection(dotNetConnection);
+		try {
+			return await this.dotNetService.runCancellable(dotNetConnection, handle.connection, cancellationToken, () =>
+				work(handle.connection),
+			);
+		} finally {
+			handle.release();
+		}
+	}
+
+	/**
+	 * Run EXPLAIN (FORMAT JSON) for one statement and parse the plan.
+	 * With analyze the statement really runs, inside a transaction that is always rolled back so its writes are discarded.
+	 */
+	async explainQuery(connectionId: string, query: string, options: ExplainOptions = {}): Promise<ExecutionPlan> {
+		const statement = query.trim().replace(/;\s*$/, "");
+		const explainOptions = ["FORMAT JSON", "VERBOSE"];
+		if (options.analyze) {
+			explainOptions.push("ANALYZE");
+			if (options.buffers) {
+				explainOptions.push("BUFFERS");
+			}
+		}
+
+		Logger.info("Explaining query", "explainQuery", { connectionId, options: explainOptions });
+
+		const bound = options.parameters ? QueryParameters.bind(statement, options.parameters) : undefined;
+
+		return this.withPinnedClient(
+			connectionId,
+			async (client) => {
+				const explainSql = `EXPLAIN (${explainOptions.join(", ")}) ${bound ? bound.text : statement}`;
+				const explain = async () => (await client.query(explainSql, bound?.values)).rows[0]?.["QUERY PLAN"];
+				let output: unknown;
+				if (options.analyze) {
+					await client.query("BEGIN");
+					try {
+						output = await explain();
+					} finally {
+						await client.query("ROLLBACK");
+					}
+				} else {
+					output = await explain();
+				}
+
+				return ExecutionPlanParser.parse(output, {
+					analyzed: !!options.analyze,
+					buffers: !!(options.analyze && options.buffers),
+					relationRows: await this.getRelationRowEstimates(client, ExecutionPlanParser.listRelations(output)),
+				});
+			},
+			options.cancellationToken,
+		);
+	}
+
+	/**
+	 * Planner row estimates of the given schema-qualified relations; tables never analyzed are left out
+	 */
+	private async getRelationRowEstimates(client: PoolClient, relations: string[]): Promise<Map<string, number>> {
+		const estimates = new Map<string, number>();
+		if (relations.length === 0) {
+			return estimates;
+		}
+
+		try {
+			const result = await client.query(
+				`SELECT n.nspname || '.' || c.relname AS relation, c.reltuples::bigint AS row_estimate
+				 FROM pg_class c
+				 JOIN pg_namespace n ON n.oid = c.relnamespace
+				 WHERE n.nspname || '.' || c.relname = ANY($1) AND c.reltuples >= 0`,
+				[relations],
+			);
+			for (const row of result.rows) {
+				estimates.set(row.relation, Number(row.row_estimate));
+			}
+		} catch (error) {
+			Logger.warn("Failed to read table row estimates", "getRelationRowEstimates", {
+				error: (error as Error).message,
+			});
+		}
+		return estimates;
+	}
+
 	async getIntelliSense(
 		connectionId: string,
 		_query: string,
@@ -223,7 +450,10 @@ export class QueryExecutionService {
 		}
 	}
 
-	async exportResults(result: QueryResult, format: "csv" | "json" | "excel", filePath: string): Promise<void> {
+	/**
+	 * Write a result that is already in memory to a file, in batches
+	 */
+	async exportResults(result: QueryResult, format: ExportFormat, filePath: string): Promise<void> {
 		try {
 			Logger.info("Exporting query results", "exportResults", {
 				format,
@@ -231,25 +461,12 @@ export class QueryExecutionService {
 				rowCount: result.rowCount,
 			});
 
-			let content: string;
-
-			switch (format) {
-				case "csv":
-					content = this.generateCSV(result);
-					break;
-				case "json":
-					content = this.generateJSON(result);
-					break;
-				case "excel":
-					// For now, export as CSV with Excel-friendly formatting
-					content = this.generateCSV(result, "\t");
-					break;
-				default:
-					throw new Error(`Unsupported export format: ${format}`);
+			async function* batches() {
+				for (let start = 0; start < result.rows.length; start += EXPORT_BATCH_SIZE) {
+					yield result.rows.slice(start, start + EXPORT_BATCH_SIZE);
+				}
 			}
-
-			const fs = require("fs").promises;
-			await fs.writeFile(filePath, content, "utf8");
+			await this.writeExport(filePath, format, result.columns, batches());
 
 			Logger.info("Results exported successfully", "exportResults", {
 				filePath,
@@ -260,35 +477,136 @@ export class QueryExecutionService {
 		}
 	}
 
-	private generateCSV(result: QueryResult, delimiter: string = ","): string {
-		const lines: string[] = [];
+	/**
+	 * Run a query and stream every row of it to a file. Queries are read through a cursor a batch at a time,
+	 * so the full result is never held in memory; other statements are run and exported normally.
+	 * @returns The number of rows written
+	 */
+	async exportQuery(
+		connectionId: string,
+		query: string,
+		format: ExportFormat,
+		filePath: string,
+		options: ExportOptions = {},
+	): Promise<number> {
+		Logger.info("Exporting query", "exportQuery", { connectionId, format, filePath });
+
+		const cursor = await this.openCursor(connectionId, query, options.parameters);
+		if (!cursor) {
+			const result = await this.executeQuery(connectionId, query, { parameters: options.parameters });
+			if (result.error) {
+				throw new Error(result.error);
+			}
+			await this.exportResults(result, format, filePath);
+			return result.rows.length;
+		}
+
+		try {
+			const first = await cursor.fetch(EXPORT_BATCH_SIZE);
+			async function* batches() {
+				yield first;
+				while (!cursor!.done) {
+					yield await cursor!.fetch(EXPORT_BATCH_SIZE);
+				}
+			}
+			const rowCount = await this.writeExport(
+				filePath,
+				format,
+				this.toColumns(cursor.fields),
+				batches(),
+				options.onProgress,
+			);
 
-		// Add headers
-		const headers = result.columns.map((col) => `"${col.name}"`).join(delimiter);
-		lines.push(headers);
+			Logger.info("Query exported successfully", "exportQuery", { filePath, rowCount });
+			return rowCount;
+		} catch (error) {
+			Logger.error("Failed to export query", error as Error);
+			throw error;
+		} finally {
+			await cursor.close();
+		}
+	}
 
-		// Add data rows
-		result.rows.forEach((row) => {
-			const values = row.map((cell) => {
-				const cellStr = cell !== null ? String(cell) : "";
-				// Escape quotes and wrap in quotes if contains delimiter or quotes
-				return cellStr.includes(delimiter) || cellStr.includes('"') ? `"${cellStr.replace(/"/g, '""')}"` : cellStr;
-			});
-			lines.push(values.join(delimiter));
+	/**
+	 * Write batches of rows through a file stream, waiting for the stream to drain so memory stays bounded
+	 */
+	private async writeExport(
+		filePath: string,
+		format: ExportFormat,
+		columns: QueryColumn[],
+		batches: AsyncIterable<any[]>,
+		onProgress?: (rowCount: number) => void,
+	): Promise<number> {
+		const fs = require("fs");
+		const { once } = require("events");
+
+		const stream = fs.createWriteStream(filePath, { encoding: "utf8" });
+		let streamError: Error | undefined;
+		stream.on("error", (error: Error) => {
+			streamError = error;
 		});
+		const write = async (chunk: string) => {
+			if (streamError) {
+				throw streamError;
+			}
+			if (!stream.write(chunk)) {
+				await once(stream, "drain");
+			}
+		};
+
+		// "excel" is written as tab-separated values, which Excel opens directly
+		const delimiter = format === "excel" ? "\t" : ",";
+		let rowCount = 0;
+		try {
+			await write(format === "json" ? "[" : columns.map((column) => `"${column.name}"`).join(delimiter));
+			for await (const rows of batches) {
+				let chunk = "";
+				for (const row of rows) {
+					const values = this.toValues(row, columns);
+					chunk +=
+						format === "json"
+							? `${rowCount === 0 ? "" : ","}\n  ${this.formatJsonRow(columns, values)}`
+							: `\n${this.formatDelimitedRow(values, delimiter)}`;
+					rowCount++;
+				}
+				await write(chunk);
+				onProgress?.(rowCount);
+			}
+			if (format === "json") {
+				await write(rowCount > 0 ? "\n]\n" : "]\n");
+			}
 
-		return lines.join("\n");
+			stream.end();
+			await once(stream, "finish");
+			return rowCount;
+		} catch (error) {
+			stream.destroy();
+			throw error;
+		}
 	}
 
-	private generateJSON(result: QueryResult): string {
-		const data = result.rows.map((row) => {
-			const obj: any = {};
-			result.columns.forEach((col, index) => {
-				obj[col.name] = row[index];
-			});
-			return obj;
-		});
+	/**
+	 * Rows of node-postgres results are objects unless fetched as arrays
+	 */
+	private toValues(row: any, columns: QueryColumn[]): any[] {
+		return Array.isArray(row) ? row : columns.map((column) => row[column.name]);
+	}
 
-		return JSON.stringify(data, null, 2);
+	private formatDelimitedRow(values: any[], delimiter: string): string {
+		return values
+			.map((cell) => {
+				const cellStr = cell !== null && cell !== undefined ? String(cell) : "";
+				// Escape quotes and wrap in quotes if contains delimiter, quotes or line breaks
+				return /["\r\n]/.test(cellStr) || cellStr.includes(delimiter) ? `"${cellStr.replace(/"/g, '""')}"` : cellStr;
+			})
+			.join(delimiter);
+	}
+
+	private formatJsonRow(columns: QueryColumn[], values: any[]): string {
+		const obj: any = {};
+		columns.forEach((col, index) => {
+			obj[col.name] = values[index];
+		});
+		return JSON.stringify(obj);
 	}
 }
@@ -0,0 +1,214 @@
+import { SqlStatementAnalyzer, SqlToken } from "./SqlStatementAnalyzer";
+
+/**
+ * How an entered value is checked and converted before it is bound. The server still infers the parameter's
+ * type from the statement; the type here only decides what input is accepted.
+ */
+export type QueryParameterType =
+	| "text"
+	| "integer"
+	| "numeric"
+	| "boolean"
+	| "date"
+	| "timestamp"
+	| "uuid"
+	| "json"
+	| "null";
+
+export interface QueryParameterValue {
+	type: QueryParameterType;
+	/** As entered; ignored for null */
+	value: string;
+}
+
+/**
+ * A placeholder of a statement: positional `$1` or named `:name`
+ */
+export interface QueryParameter {
+	/** `$1` or `:name`, also the key its value is stored under */
+	placeholder: string;
+	style: "positional" | "named";
+	/** Position for `$n`; order of first appearance for named parameters */
+	index: number;
+	occurrences: number;
+}
+
+export interface BoundQuery {
+	/** Named placeholders rewritten to positional ones */
+	text: string;
+	values: unknown[];
+}
+
+export const QUERY_PARAMETER_TYPES: QueryParameterType[] = [
+	"text",
+	"integer",
+	"numeric",
+	"boolean",
+	"date",
+	"timestamp",
+	"uuid",
+	"json",
+	"null",
+];
+
+/** A Map, so input such as "constructor" cannot match an Object.prototype key */
+const BOOLEAN_VALUES = new Map<string, boolean>([
+	["true", true],
+	["t", true],
+	["yes", true],
+	["y", true],
+	["on", true],
+	["1", true],
+	["false", false],
+	["f", false],
+	["no", false],
+	["n", false],
+	["off", false],
+	["0", false],
+]);
+
+/**
+ * QueryParameters - Finds the bind placeholders of a statement and turns entered values into the positional
+ * values node-postgres binds, so values are never spliced into the SQL text
+ */
+export class QueryParameters {
+	/**
+	 * Placeholders outside strings, quoted identifiers and comments, ordered by position or first appearance
+	 * @throws Error if a statement mixes `$n` and `:name` placeholders
+	 */
+	static detect(sql: string): QueryParameter[] {
+		const parameters = new Map<string, QueryParameter>();
+
+		for (const token of QueryParameters.findPlaceholders(sql)) {
+			const existing = parameters.get(token.text);
+			if (existing) {
+				existing.occurrences++;
+				continue;
+			}
+			const positional = token.text.startsWith("$");
+			parameters.set(token.text, {
+				placeholder: token.text,
+				style: positional ? "positional" : "named",
+				index: positional ? Number(token.text.slice(1)) : parameters.size + 1,
+				occurrences: 1,
+			});
+		}
+
+		const detected = Array.from(parameters.values());
+		if (new Set(detected.map((parameter) => parameter.style)).size > 1) {
+			throw new Error("A statement cannot mix $n and :name parameters");
+		}
+		return detected.sort((a, b) => a.index - b.index);
+	}
+
+	/**
+	 * Rewrite named placeholders to `$n` and convert every value
+	 * @throws Error if a placeholder has no value or a value does not match its type
+	 */
+	static bind(sql: string, values: Record<string, QueryParameterValue>): BoundQuery {
+		const parameters = QueryParameters.detect(sql);
+		const missing = parameters.filter((parameter) => !values[parameter.placeholder]);
+		if (missing.length > 0) {
+			throw new Error(`No value given for ${missing.map((parameter) => parameter.placeholder).join(", ")}`);
+		}
+
+		const convert = (parameter: QueryParameter) => {
+			const entry = values[parameter.placeholder];
+			const error = QueryParameters.validate(entry.type, entry.value);
+			if (error) {
+				throw new Error(`${parameter.placeholder}: ${error}`);
+			}
+			return QueryParameters.convert(entry);
+		};
+
+		if (parameters.length === 0 || parameters[0].style === "positional") {
+			// $n may skip numbers; the server still expects one value per position up to the highest
+			const highest = parameters.length > 0 ? parameters[parameters.length - 1].index : 0;
+			const bound: unknown[] = new Array(highest).fill(null);
+			for (const parameter of parameters) {
+				bound[parameter.index - 1] = convert(parameter);
+			}
+			return { text: sql, values: bound };
+		}
+
+		const positions = new Map(parameters.map((parameter) => [parameter.placeholder, parameter.index]));
+		let text = "";
+		let last = 0;
+		for (const token of QueryParameters.findPlaceholders(sql)) {
+			text += `${sql.slice(last, token.start)}$${positions.get(token.text)}`;
+			last = token.end;
+		}
+		return { text: text + sql.slice(last), values: parameters.map(convert) };
+	}
+
+	/**
+	 * @returns Why the value is not acceptable for the type, or undefined when it is
+	 */
+	static validate(type: QueryParameterType, value: string): string | undefined {
+		const trimmed = value.trim();
+		switch (type) {
+			case "integer":
+				return /^[+-]?\d+$/.test(trimmed) ? undefined : "Expected a whole number";
+			case "numeric":
+				return /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/.test(trimmed) ? undefined : "Expected a number";
+			case "boolean":
+				return BOOLEAN_VALUES.has(trimmed.toLowerCase()) ? undefined : "Expected true or false";
+			case "date":
+				return /^\d{4}-\d{2}-\d{2}$/.test(trimmed) && !Number.isNaN(Date.parse(trimmed))
+					? undefined
+					: "Expected a date as YYYY-MM-DD";
+			case "timestamp":
+				return !Number.isNaN(Date.parse(trimmed)) ? undefined : "Expected a timestamp such as 2024-01-31 13:45:00";
+			case "uuid":
+				return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(trimmed)
+					? undefined
+					: "Expected a UUID";
+			case "json":
+				try {
+					JSON.parse(value);
+					return undefined;
+				} catch (error) {
+					return `Invalid JSON: ${(error as Error).message}`;
+				}
+			default:
+				return undefined;
+		}
+	}
+
+	/**
+	 * The value handed to node-postgres. Numbers stay strings so bigint and numeric values keep their precision.
+	 */
+	static convert(entry: QueryParameterValue): unknown {
+		switch (entry.type) {
+			case "null":
+				return null;
+			case "boolean":
+				return BOOLEAN_VALUES.get(entry.value.trim().toLowerCase());
+			case "integer":
+			case "numeric":
+			case "date":
+			case "timestamp":
+			case "uuid":
+				return entry.value.trim();
+			default:
+				return entry.value;
+		}
+	}
+
+	private static findPlaceholders(sql: string): SqlToken[] {
+		const tokens = SqlStatementAnalyzer.tokenize(sql).filter((token) => token.type !== "comment");
+		return tokens.filter((token, position) => {
+			if (token.type !== "parameter") {
+				return false;
+			}
+			// Array slices such as arr[1:n] or arr[i:n] are not named parameters
+			const previous = tokens[position - 1];
+			return !(
+				token.text.startsWith(":") &&
+				previous &&
+				(previous.type === "number" ||
+					((previous.type === "word" || previous.type === "quoted") && previous.end === token.start))
+			);
+		});
+	}
+}
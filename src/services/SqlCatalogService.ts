@@ -0,0 +1,295 @@
+import { FunctionParameter, NativeFunctionMetadata } from "@/core/PostgreSqlConnectionManager";
+import { Logger } from "@/utils/Logger";
+import { QueryExecutionService } from "./QueryExecutionService";
+
+export interface SqlCatalogColumn {
+	name: string;
+	dataType: string;
+	nullable: boolean;
+	/** Schema-qualified enum type of the column, when it is one */
+	enumType?: string;
+}
+
+export interface SqlCatalogRelation {
+	schema: string;
+	name: string;
+	kind: "table" | "view" | "materialized_view" | "foreign_table";
+	columns: SqlCatalogColumn[];
+	comment?: string;
+	/** Relations of pg_catalog and information_schema */
+	system: boolean;
+}
+
+/**
+ * The names of one database that SQL editing needs, loaded in a handful of catalog queries
+ */
+export interface SqlCatalog {
+	connectionId: string;
+	loadedAt: Date;
+	/** Effective search path, pg_catalog included, in resolution order */
+	searchPath: string[];
+	schemas: string[];
+	/** Keyed by schema-qualified name */
+	relations: Map<string, SqlCatalogRelation>;
+	/** Labels in sort order, keyed by schema-qualified type name */
+	enums: Map<string, string[]>;
+	/** Overloads share a key, keyed by schema-qualified name */
+	functions: Map<string, NativeFunctionMetadata[]>;
+}
+
+/** Catalogs older than this are reloaded on the next request */
+const CATALOG_TTL_MS = 5 * 60 * 1000;
+
+const RELATION_KINDS: Record<string, SqlCatalogRelation["kind"]> = {
+	r: "table",
+	p: "table",
+	v: "view",
+	m: "materialized_view",
+	f: "foreign_table",
+};
+
+const ARGUMENT_MODES: Record<string, FunctionParameter["mode"]> = {
+	i: "IN",
+	v: "IN",
+	o: "OUT",
+	t: "OUT",
+	b: "INOUT",
+};
+
+/**
+ * SqlCatalogService - Loads and caches the relations, columns, enums and functions of a connection for the SQL
+ * language provider, and resolves unqualified names through the connection's search path
+ */
+export class SqlCatalogService {
+	private catalogs = new Map<string, SqlCatalog>();
+	private loading = new Map<string, Promise<SqlCatalog>>();
+
+	constructor(private queryService: QueryExecutionService) {}
+
+	/**
+	 * The catalog of a connection, loaded once and shared by concurrent callers until it expires
+	 */
+	async getCatalog(connectionId: string, forceRefresh = false): Promise<SqlCatalog> {
+		const cached = this.catalogs.get(connectionId);
+		if (cached && !forceRefresh && Date.now() - cached.loadedAt.getTime() < CATALOG_TTL_MS) {
+			return cached;
+		}
+
+		const pending = this.loading.get(connectionId);
+		if (pending) {
+			return pending;
+		}
+
+		const load = this.loadCatalog(connectionId)
+			.then((catalog) => {
+				this.catalogs.set(connectionId, catalog);
+				return catalog;
+			})
+			.finally(() => this.loading.delete(connectionId));
+		this.loading.set(connectionId, load);
+		return load;
+	}
+
+	/**
+	 * Resolve a relation name the way PostgreSQL does: a qualified name directly, otherwise the first search path
+	 * schema that has it. Identifiers are expected already case-folded.
+	 */
+	static findRelation(catalog: SqlCatalog, name: string, schema?: string): SqlCatalogRelation | undefined {
+		if (schema) {
+			return catalog.relations.get(`${schema}.${name}`);
+		}
+		for (const searchSchema of catalog.searchPath) {
+			const relation = catalog.relations.get(`${searchSchema}.${name}`);
+			if (relation) {
+				return relation;
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Every overload of a function, resolved like findRelation
+	 */
+	static findFunctions(catalog: SqlCatalog, name: string, schema?: string): NativeFunctionMetadata[] {
+		if (schema) {
+			return catalog.functions.get(`${schema}.${name}`) ?? [];
+		}
+		for (const searchSchema of catalog.searchPath) {
+			const overloads = catalog.functions.get(`${searchSchema}.${name}`);
+			if (overloads) {
+				return overloads;
+			}
+		}
+		return [];
+	}
+
+	/**
+	 * Relations reachable without a schema qualifier; a name found earlier on the search path hides later ones
+	 */
+	static listVisibleRelations(catalog: SqlCatalog): SqlCatalogRelation[] {
+		const visible = new Map<string, SqlCatalogRelation>();
+		for (const searchSchema of catalog.searchPath) {
+			for (const relation of catalog.relations.values()) {
+				if (relation.schema === searchSchema && !visible.has(relation.name)) {
+					visible.set(relation.name, relation);
+				}
+			}
+		}
+		return Array.from(visible.values());
+	}
+
+	/**
+	 * Format a function signature as `schema.name(arg type, ...) → result`
+	 */
+	static formatSignature(fn: NativeFunctionMetadata): string {
+		return `${fn.schema}.${fn.name}(${SqlCatalogService.listInputParameters(fn)
+			.map(SqlCatalogService.formatParameter)
+			.join(", ")}) → ${fn.returnType}`;
+	}
+
+	/**
+	 * Parameters a caller passes: IN and INOUT ones
+	 */
+	static listInputParameters(fn: NativeFunctionMetadata): FunctionParameter[] {
+		return fn.parameters.filter((parameter) => parameter.mode !== "OUT");
+	}
+
+	static formatParameter(parameter: FunctionParameter): string {
+		const mode = parameter.mode === "INOUT" ? "INOUT " : "";
+		return parameter.name ? `${mode}${parameter.name} ${parameter.dataType}` : `${mode}${parameter.dataType}`;
+	}
+
+	private async loadCatalog(connectionId: string): Promise<SqlCatalog> {
+		const startTime = Date.now();
+		const catalog = await this.queryService.withPinnedClient(connectionId, async (client) => {
+			const searchPathResult = await client.query(`
+				SELECT s.schema_name
+				FROM unnest(current_schemas(true)) WITH ORDINALITY AS s(schema_name, position)
+				ORDER BY s.position
+			`);
+			const schemaResult = await client.query(`
+				SELECT nspname AS schema_name
+				FROM pg_namespace
+				WHERE nspname NOT LIKE 'pg_toast%' AND nspname NOT LIKE 'pg_temp_%'
+				ORDER BY nspname
+			`);
+			const relationResult = await client.query(`
+				SELECT
+					n.nspname AS schema_name,
+					c.relname AS relation_name,
+					c.relkind,
+					obj_description(c.oid, 'pg_class') AS comment,
+					a.attname AS column_name,
+					format_type(a.atttypid, a.atttypmod) AS data_type,
+					NOT a.attnotnull AS is_nullable,
+					CASE WHEN t.typtype = 'e' THEN tn.nspname || '.' || t.typname END AS enum_type
+				FROM pg_class c
+				JOIN pg_namespace n ON n.oid = c.relnamespace
+				LEFT JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+				LEFT JOIN pg_type t ON t.oid = a.atttypid
+				LEFT JOIN pg_namespace tn ON tn.oid = t.typnamespace
+				WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f')
+					AND n.nspname NOT LIKE 'pg_toast%'
+					AND n.nspname NOT LIKE 'pg_temp_%'
+				ORDER BY n.nspname, c.relname, a.attnum
+			`);
+			const enumResult = await client.query(`
+				SELECT n.nspname || '.' || t.typname AS enum_type, e.enumlabel AS label
+				FROM pg_enum e
+				JOIN pg_type t ON t.oid = e.enumtypid
+				JOIN pg_namespace n ON n.oid = t.typnamespace
+				ORDER BY n.nspname, t.typname, e.enumsortorder
+			`);
+			const functionResult = await client.query(`
+				SELECT
+					n.nspname AS schema_name,
+					p.proname AS name,
+					l.lanname AS language,
+					pg_get_function_result(p.oid) AS return_type,
+					COALESCE(p.proargnames, ARRAY[]::text[]) AS argument_names,
+					COALESCE(p.proargmodes::text[], ARRAY[]::text[]) AS argument_modes,
+					ARRAY(
+						SELECT format_type(a.type_oid, NULL)
+						FROM unnest(COALESCE(p.proallargtypes, p.proargtypes::oid[])) WITH ORDINALITY AS a(type_oid, position)
+						ORDER BY a.position
+					) AS argument_types
+				FROM pg_proc p
+				JOIN pg_namespace n ON n.oid = p.pronamespace
+				JOIN pg_language l ON l.oid = p.prolang
+				WHERE n.nspname NOT LIKE 'pg_toast%' AND n.nspname NOT LIKE 'pg_temp_%'
+				ORDER BY n.nspname, p.proname
+			`);
+
+			const relations = new Map<string, SqlCatalogRelation>();
+			for (const row of relationResult.rows) {
+				const key = `${row.schema_name}.${row.relation_name}`;
+				let relation = relations.get(key);
+				if (!relation) {
+					relation = {
+						schema: row.schema_name,
+						name: row.relation_name,
+						kind: RELATION_KINDS[row.relkind] ?? "table",
+						columns: [],
+						comment: row.comment ?? undefined,
+						system: row.schema_name === "pg_catalog" || row.schema_name === "information_schema",
+					};
+					relations.set(key, relation);
+				}
+				if (row.column_name) {
+					relation.columns.push({
+						name: row.column_name,
+						dataType: row.data_type,
+						nullable: row.is_nullable,
+						enumType: row.enum_type ?? undefined,
+					});
+				}
+			}
+
+			const enums = new Map<string, string[]>();
+			for (const row of enumResult.rows) {
+				const labels = enums.get(row.enum_type) ?? [];
+				labels.push(row.label);
+				enums.set(row.enum_type, labels);
+			}
+
+			const functions = new Map<string, NativeFunctionMetadata[]>();
+			for (const row of functionResult.rows) {
+				const key = `${row.schema_name}.${row.name}`;
+				const overloads = functions.get(key) ?? [];
+				overloads.push({
+					name: row.name,
+					schema: row.schema_name,
+					// Full definitions are not needed for editing and are expensive to fetch for every function
+					definition: "",
+					language: row.language,
+					returnType: row.return_type,
+					parameters: (row.argument_types as string[]).map((dataType, index) => ({
+						name: row.argument_names[index] || "",
+						dataType,
+						mode: ARGUMENT_MODES[row.argument_modes[index]] ?? "IN",
+					})),
+				});
+				functions.set(key, overloads);
+			}
+
+			return {
+				connectionId,
+				loadedAt: new Date(),
+				searchPath: searchPathResult.rows.map((row) => row.schema_name),
+				schemas: schemaResult.rows.map((row) => row.schema_name),
+				relations,
+				enums,
+				functions,
+			};
+		});
+
+		Logger.info("SQL catalog loaded", "loadCatalog", {
+			connectionId,
+			relationCount: catalog.relations.size,
+			functionCount: catalog.functions.size,
+			enumCount: catalog.enums.size,
+			duration: Date.now() - startTime,
+		});
+		return catalog;
+	}
+}
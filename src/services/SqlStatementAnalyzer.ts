@@ -0,0 +1,758 @@
+export type SqlTokenType =
+	| "word"
+	| "quoted"
+	| "string"
+	| "number"
+	| "parameter"
+	| "operator"
+	| "punctuation"
+	| "comment";
+
+export interface SqlToken {
+	type: SqlTokenType;
+	text: string;
+	start: number;
+	end: number;
+	/** Identifier as PostgreSQL resolves it: unquoted words fold to lower case, quoted ones keep their case */
+	value: string;
+	/** Strings and quoted identifiers whose closing quote is missing, as while typing */
+	unterminated?: boolean;
+}
+
+/**
+ * A relation a statement reads or writes, with the alias it is known by
+ * cte: a WITH query of the statement; derived: a subquery or function in FROM, whose columns are unknown
+ */
+export interface SqlTableReference {
+	kind: "relation" | "cte" | "derived";
+	schema?: string;
+	name: string;
+	alias?: string;
+	start: number;
+	end: number;
+}
+
+/**
+ * A qualified column such as `u.email` or `public.users.email`
+ */
+export interface SqlColumnReference {
+	qualifier: string;
+	qualifierSchema?: string;
+	column: string;
+	start: number;
+	end: number;
+}
+
+export interface SqlStatement {
+	start: number;
+	end: number;
+	tokens: SqlToken[];
+	tables: SqlTableReference[];
+	columns: SqlColumnReference[];
+	cteNames: string[];
+	/** Tables and views the statement creates, so later statements of the script may use them */
+	createdRelations: string[];
+	createdSchemas: string[];
+}
+
+/**
+ * What the cursor is positioned on, for completion
+ * member: after `qualifier.`; relation: where a table name goes; enum_value: where a value for an enum column goes
+ */
+export type SqlCompletionContext =
+	| { kind: "member"; qualifier: string[]; prefix: string }
+	| { kind: "relation"; prefix: string }
+	| { kind: "enum_value"; column: { qualifier?: string; column: string }; insideString: boolean; prefix: string }
+	| { kind: "expression"; prefix: string }
+	| { kind: "none" };
+
+export interface SqlFunctionCall {
+	schema?: string;
+	name: string;
+	/** Zero-based index of the argument the cursor is in */
+	argumentIndex: number;
+	openParen: number;
+}
+
+/** Keywords after which a relation name follows */
+const RELATION_KEYWORDS = new Set(["from", "join", "update", "into", "using", "table"]);
+
+/** Keywords that start a clause of a statement */
+const CLAUSE_KEYWORDS = new Set([
+	"select",
+	"delete",
+	"from",
+	"join",
+	"on",
+	"using",
+	"where",
+	"group",
+	"order",
+	"having",
+	"limit",
+	"set",
+	"values",
+	"returning",
+	"window",
+]);
+
+/** Keywords that can never be a table alias */
+const RESERVED_WORDS = new Set([
+	"all",
+	"and",
+	"as",
+	"by",
+	"cross",
+	"except",
+	"fetch",
+	"for",
+	"from",
+	"full",
+	"group",
+	"having",
+	"inner",
+	"intersect",
+	"into",
+	"join",
+	"lateral",
+	"left",
+	"limit",
+	"natural",
+	"not",
+	"offset",
+	"on",
+	"or",
+	"order",
+	"outer",
+	"returning",
+	"right",
+	"select",
+	"set",
+	"tablesample",
+	"union",
+	"using",
+	"values",
+	"where",
+	"window",
+	"with",
+	"default",
+	"do",
+	"when",
+	"then",
+	"else",
+	"end",
+	"of",
+	"only",
+	"overriding",
+]);
+
+/**
+ * SqlStatementAnalyzer - Tokenizes SQL text and finds, per statement, the relations in scope with their aliases
+ * and the qualified column references. The analysis is lexical: it tolerates incomplete SQL while typing and
+ * treats every relation of a statement as visible anywhere in that statement.
+ */
+export class SqlStatementAnalyzer {
+	/**
+	 * Split SQL text into tokens. Whitespace is dropped; comments are kept so positions can be checked against them.
+	 */
+	static tokenize(text: string): SqlToken[] {
+		const tokens: SqlToken[] = [];
+		let index = 0;
+		const push = (type: SqlTokenType, start: number, end: number, value?: string, unterminated?: boolean) => {
+			const tokenText = text.slice(start, end);
+			tokens.push({ type, text: tokenText, start, end, value: value ?? tokenText, unterminated });
+		};
+
+		while (index < text.length) {
+			const char = text[index];
+			const next = text[index + 1];
+
+			if (/\s/.test(char)) {
+				index++;
+			} else if (char === "-" && next === "-") {
+				const end = text.indexOf("\n", index);
+				push("comment", index, end === -1 ? text.length : end);
+				index = end === -1 ? text.length : end;
+			} else if (char === "/" && next === "*") {
+				// Block comments nest in PostgreSQL
+				let depth = 1;
+				let position = index + 2;
+				while (position < text.length && depth > 0) {
+					if (text.startsWith("/*", position)) {
+						depth++;
+						position += 2;
+					} else if (text.startsWith("*/", position)) {
+						depth--;
+						position += 2;
+					} else {
+						position++;
+					}
+				}
+				push("comment", index, position);
+				index = position;
+			} else if (char === "'" || ((char === "E" || char === "e") && next === "'")) {
+				const quoteStart = char === "'" ? index : index + 1;
+				const escapes = quoteStart !== index;
+				let position = quoteStart + 1;
+				let closed = false;
+				while (position < text.length) {
+					if (escapes && text[position] === "\\") {
+						position += 2;
+					} else if (text[position] === "'" && text[position + 1] === "'") {
+						position += 2;
+					} else if (text[position] === "'") {
+						position++;
+						closed = true;
+						break;
+					} else {
+						position++;
+					}
+				}
+				const end = Math.min(position, text.length);
+				push("string", index, end, text.slice(quoteStart + 1, closed ? end - 1 : end).replace(/''/g, "'"), !closed);
+				index = end;
+			} else if (char === '"') {
+				let position = index + 1;
+				let closed = false;
+				while (position < text.length) {
+					if (text[position] === '"' && text[position + 1] === '"') {
+						position += 2;
+					} else if (text[position] === '"') {
+						position++;
+						closed = true;
+						break;
+					} else {
+						position++;
+					}
+				}
+				push(
+					"quoted",
+					index,
+					position,
+					text.slice(index + 1, closed ? position - 1 : position).replace(/""/g, '"'),
+					!closed,
+				);
+				index = position;
+			} else if (char === "$" && /[A-Za-z_$]/.test(next ?? "")) {
+				const tag = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(text.slice(index));
+				if (tag) {
+					const close = text.indexOf(tag[0], index + tag[0].length);
+					const end = close === -1 ? text.length : close + tag[0].length;
+					push("string", index, end, text.slice(index + tag[0].length, close === -1 ? end : close), close === -1);
+					index = end;
+				} else {
+					push("operator", index, index + 1);
+					index++;
+				}
+			} else if (char === "$" && /[0-9]/.test(next ?? "")) {
+				const match = /^\$[0-9]+/.exec(text.slice(index))!;
+				push("parameter", index, index + match[0].length);
+				index += match[0].length;
+			} else if (char === ":" && /[A-Za-z_]/.test(next ?? "") && text[index - 1] !== ":") {
+				const match = /^:[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(index))!;
+				push("parameter", index, index + match[0].length);
+				index += match[0].length;
+			} else if (/[A-Za-z_\u0080-\uffff]/.test(char)) {
+				const match = /^[A-Za-z_\u0080-\uffff][A-Za-z0-9_$\u0080-\uffff]*/.exec(text.slice(index))!;
+				push("word", index, index + match[0].length, match[0].toLowerCase());
+				index += match[0].length;
+			} else if (/[0-9]/.test(char) || (char === "." && /[0-9]/.test(next ?? ""))) {
+				const match = /^([0-9]*\.?[0-9]+([eE][+-]?[0-9]+)?|[0-9]+\.)/.exec(text.slice(index))!;
+				push("number", index, index + match[0].length);
+				index += match[0].length;
+			} else if ("(),;.[]".includes(char)) {
+				push("punctuation", index, index + 1);
+				index++;
+			} else {
+				// Operators never contain ":", so "=:name" stays an operator and a parameter
+				const match = /^(::|:|[+\-*/<>=~!@#%^&|`?]+)/.exec(text.slice(index));
+				const length = match ? match[0].length : 1;
+				push("operator", index, index + length);
+				index += length;
+			}
+		}
+		return tokens;
+	}
+
+	/**
+	 * Split SQL text into statements and collect the relations and qualified columns of each
+	 */
+	static analyze(text: string): SqlStatement[] {
+		const statements: SqlStatement[] = [];
+		let current: SqlToken[] = [];
+		let start = 0;
+		for (const token of SqlStatementAnalyzer.tokenize(text)) {
+			if (token.type === "punctuation" && token.text === ";") {
+				statements.push(SqlStatementAnalyzer.analyzeStatement(current, start, token.start));
+				current = [];
+				start = token.end;
+			} else {
+				current.push(token);
+			}
+		}
+		statements.push(SqlStatementAnalyzer.analyzeStatement(current, start, text.length));
+		return statements;
+	}
+
+	/**
+	 * The statement containing an offset; a cursor right after a semicolon belongs to the next statement
+	 */
+	static statementAt(statements: SqlStatement[], offset: number): SqlStatement | undefined {
+		return statements.find((statement) => offset >= statement.start && offset <= statement.end);
+	}
+
+	/**
+	 * The relations a qualifier may name: those aliased by it, otherwise those referenced by that name without an
+	 * alias. Subqueries can reuse an alias, so there may be several.
+	 */
+	static findQualifiedTables(
+		statement: SqlStatement,
+		qualifier: string,
+		qualifierSchema?: string,
+	): SqlTableReference[] {
+		if (!qualifierSchema) {
+			const aliased = statement.tables.filter((table) => table.alias === qualifier);
+			if (aliased.length > 0) {
+				return aliased;
+			}
+		}
+		return statement.tables.filter(
+			(table) =>
+				!table.alias &&
+				table.name === qualifier &&
+				(!qualifierSchema || !table.schema || table.schema === qualifierSchema),
+		);
+	}
+
+	/**
+	 * Work out what belongs at the cursor
+	 */
+	static getCompletionContext(text: string, offset: number): SqlCompletionContext {
+		const tokens = SqlStatementAnalyzer.tokenize(text);
+		const current = tokens.find((token) => token.start < offset && offset <= token.end);
+
+		if (current?.type === "comment" || (current?.type === "quoted" && !current.unterminated)) {
+			return { kind: "none" };
+		}
+		if (current?.type === "string") {
+			if (!current.unterminated && offset === current.end) {
+				return { kind: "none" };
+			}
+			const code = tokens.filter((token) => token.type !== "comment");
+			const column = SqlStatementAnalyzer.findComparedColumn(code, code.indexOf(current));
+			const prefix = text.slice(current.start + (current.text.startsWith("'") ? 1 : 2), offset);
+			return column ? { kind: "enum_value", column, insideString: true, prefix } : { kind: "none" };
+		}
+
+		const isPrefix = current && (current.type === "word" || current.type === "quoted") && offset === current.end;
+		const prefix = isPrefix ? current.value : "";
+		const before = tokens.filter(
+			(token) => token.end <= (isPrefix ? current.start : offset) && token.type !== "comment",
+		);
+		const previous = before[before.length - 1];
+
+		if (previous?.text === ".") {
+			const qualifier: string[] = [];
+			let position = before.length - 2;
+			while (position >= 0 && (before[position].type === "word" || before[position].type === "quoted")) {
+				qualifier.unshift(before[position].value);
+				if (before[position - 1]?.text !== ".") {
+					break;
+				}
+				position -= 2;
+			}
+			return qualifier.length > 0 ? { kind: "member", qualifier, prefix } : { kind: "none" };
+		}
+
+		if (
+			previous?.type === "word" &&
+			RELATION_KEYWORDS.has(previous.value) &&
+			SqlStatementAnalyzer.introducesRelation(before, before.length - 1)
+		) {
+			return { kind: "relation", prefix };
+		}
+		if (previous?.text === "," && SqlStatementAnalyzer.isInFromList(before, before.length - 1)) {
+			return { kind: "relation", prefix };
+		}
+
+		const column = SqlStatementAnalyzer.findComparedColumn(before, before.length);
+		if (column) {
+			return { kind: "enum_value", column, insideString: false, prefix };
+		}
+		return { kind: "expression", prefix };
+	}
+
+	/**
+	 * The function call whose argument list contains the cursor, if any
+	 */
+	static findCallAt(text: string, offset: number): SqlFunctionCall | undefined {
+		const tokens = SqlStatementAnalyzer.tokenize(text).filter(
+			(token) => token.end <= offset && token.type !== "comment",
+		);
+		let depth = 0;
+		let commas = 0;
+		for (let index = tokens.length - 1; index >= 0; index--) {
+			const token = tokens[index];
+			if (token.text === ";") {
+				return undefined;
+			}
+			if (token.text === ")") {
+				depth++;
+			} else if (token.text === "(") {
+				if (depth > 0) {
+					depth--;
+					continue;
+				}
+				const name = tokens[index - 1];
+				if (!name || (name.type !== "word" && name.type !== "quoted")) {
+					return undefined;
+				}
+				const schema = tokens[index - 2]?.text === "." ? tokens[index - 3] : undefined;
+				return {
+					schema: schema && (schema.type === "word" || schema.type === "quoted") ? schema.value : undefined,
+					name: name.value,
+					argumentIndex: commas,
+					openParen: token.start,
+				};
+			} else if (token.text === "," && depth === 0) {
+				commas++;
+			}
+		}
+		return undefined;
+	}
+
+	private static analyzeStatement(tokens: SqlToken[], start: number, end: number): SqlStatement {
+		const statement: SqlStatement = {
+			start,
+			end,
+			tokens,
+			tables: [],
+			columns: [],
+			cteNames: [],
+			createdRelations: [],
+			createdSchemas: [],
+		};
+		const code = tokens.filter((token) => token.type !== "comment");
+		for (let index = 0; index < code.length; index++) {
+			const token = code[index];
+			const introducesRelation =
+				token.type === "word" &&
+				RELATION_KEYWORDS.has(token.value) &&
+				token.value !== "table" &&
+				SqlStatementAnalyzer.introducesRelation(code, index);
+			// FROM a, b lists more relations, also after a JOIN ... ON condition
+			if (introducesRelation || (token.text === "," && SqlStatementAnalyzer.isInFromList(code, index))) {
+				const reference = SqlStatementAnalyzer.readTableReference(
+					code,
+					index + 1,
+					statement.cteNames,
+					token.text === "," || token.value === "from" || token.value === "join",
+				);
+				if (reference) {
+					statement.tables.push(reference.table);
+				}
+				continue;
+			}
+			if (token.type !== "word" && token.type !== "quoted") {
+				continue;
+			}
+
+			// WITH [RECURSIVE] name [(columns)] AS (...), name AS (...)
+			if (
+				["with", "recursive", ","].includes(code[index - 1]?.value ?? "") &&
+				SqlStatementAnalyzer.isCteName(code, index)
+			) {
+				statement.cteNames.push(token.value);
+				continue;
+			}
+
+			if (token.type === "word" && token.value === "create") {
+				const created = SqlStatementAnalyzer.findCreatedObject(code, index);
+				if (created?.kind === "schema") {
+					statement.createdSchemas.push(created.name);
+				} else if (created) {
+					statement.createdRelations.push(created.name);
+				}
+				continue;
+			}
+		}
+
+		const isTableName = (token: SqlToken) =>
+			statement.tables.some((table) => table.name && token.start >= table.start && token.end <= table.end);
+
+		// Qualified names outside relation references: alias.column or schema.table.column
+		for (let index = 0; index < code.length; index++) {
+			const token = code[index];
+			if (isTableName(token) || (token.type !== "word" && token.type !== "quoted") || code[index + 1]?.text !== ".") {
+				continue;
+			}
+			const parts = [token];
+			let position = index + 1;
+			while (
+				code[position]?.text === "." &&
+				(code[position + 1]?.type === "word" || code[position + 1]?.type === "quoted")
+			) {
+				parts.push(code[position + 1]);
+				position += 2;
+			}
+			index = position - 1;
+			// A following parenthesis makes it a function call; a type cast makes it a type name
+			if (parts.length < 2 || code[position]?.text === "(" || code[index - parts.length * 2 + 1]?.text === "::") {
+				continue;
+			}
+			const column = parts[parts.length - 1];
+			const qualifier = parts[parts.length - 2];
+			statement.columns.push({
+				qualifier: qualifier.value,
+				qualifierSchema: parts.length > 2 ? parts[parts.length - 3].value : undefined,
+				column: column.value,
+				start: column.start,
+				end: column.end,
+			});
+		}
+
+		return statement;
+	}
+
+	private static isCteName(code: SqlToken[], index: number): boolean {
+		const name = code[index];
+		if (!name || (name.type !== "word" && name.type !== "quoted")) {
+			return false;
+		}
+		let position = index + 1;
+		if (code[position]?.text === "(") {
+			const close = code.findIndex((token, tokenIndex) => tokenIndex > position && token.text === ")");
+			if (close === -1) {
+				return false;
+			}
+			position = close + 1;
+		}
+		return (
+			code[position]?.value === "as" &&
+			(code[position + 1]?.text === "(" ||
+				code[position + 1]?.value === "materialized" ||
+				code[position + 1]?.value === "not")
+		);
+	}
+
+	private static findCreatedObject(
+		code: SqlToken[],
+		index: number,
+	): { kind: "relation" | "schema"; name: string } | undefined {
+		let position = index + 1;
+		const modifiers = new Set([
+			"or",
+			"replace",
+			"temp",
+			"temporary",
+			"unlogged",
+			"global",
+			"local",
+			"materialized",
+			"recursive",
+			"foreign",
+		]);
+		while (code[position] && modifiers.has(code[position].value)) {
+			position++;
+		}
+		const objectType = code[position]?.value;
+		if (objectType !== "table" && objectType !== "view" && objectType !== "schema") {
+			return undefined;
+		}
+		position++;
+		if (
+			code[position]?.value === "if" &&
+			code[position + 1]?.value === "not" &&
+			code[position + 2]?.value === "exists"
+		) {
+			position += 3;
+		}
+		const name = code[position];
+		if (!name || (name.type !== "word" && name.type !== "quoted")) {
+			return undefined;
+		}
+		if (objectType === "schema") {
+			return { kind: "schema", name: name.value };
+		}
+		return {
+			kind: "relation",
+			name: code[position + 1]?.text === "." && code[position + 2] ? code[position + 2].value : name.value,
+		};
+	}
+
+	/**
+	 * Whether a FROM, JOIN, UPDATE, INTO or USING keyword is followed by a relation here.
+	 * FROM inside EXTRACT(... FROM x), IS DISTINCT FROM and similar, and UPDATE in FOR UPDATE or ON UPDATE, are not.
+	 */
+	private static introducesRelation(code: SqlToken[], index: number): boolean {
+		const keyword = code[index].value;
+		const previous = code[index - 1]?.value;
+		switch (keyword) {
+			case "join":
+				return true;
+			case "from":
+				return (
+					previous !== "distinct" &&
+					["select", "delete"].includes(SqlStatementAnalyzer.findClauseKeyword(code, index, true) ?? "")
+				);
+			case "update":
+				// Only a statement-level UPDATE, not FOR UPDATE, ON UPDATE, DO UPDATE or GRANT UPDATE
+				return (
+					previous === undefined ||
+					previous === ")" ||
+					["explain", "analyze", "verbose", "instead", "also"].includes(previous)
+				);
+			case "into":
+				return previous === "insert" || previous === "merge";
+			case "using":
+				// DELETE FROM t USING u and MERGE INTO t USING u, not JOIN ... USING (id) or USING btree
+				return (
+					SqlStatementAnalyzer.findClauseKeyword(code, index, true) === "from" ||
+					(code[0]?.value === "merge" && !code.slice(0, index).some((token) => token.value === "using"))
+				);
+			case "table":
+				return previous === "lock" || previous === "truncate" || previous === "alter";
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Whether a comma separates relations of a FROM list
+	 */
+	private static isInFromList(code: SqlToken[], commaIndex: number): boolean {
+		return ["from", "join", "on", "using"].includes(
+			SqlStatementAnalyzer.findClauseKeyword(code, commaIndex, true) ?? "",
+		);
+	}
+
+	/**
+	 * The nearest clause keyword before an index at the same parenthesis depth
+	 * @param skipSelf - Look past the keyword at index itself
+	 */
+	private static findClauseKeyword(code: SqlToken[], index: number, skipSelf = false): string | undefined {
+		let depth = 0;
+		for (let position = skipSelf ? index - 1 : index; position >= 0; position--) {
+			const token = code[position];
+			if (token.text === ")") {
+				depth++;
+			} else if (token.text === "(") {
+				if (depth === 0) {
+					return undefined;
+				}
+				depth--;
+			} else if (depth === 0 && token.type === "word" && CLAUSE_KEYWORDS.has(token.value)) {
+				return token.value;
+			}
+		}
+		return undefined;
+	}
+
+	private static readTableReference(
+		code: SqlToken[],
+		index: number,
+		cteNames: string[],
+		allowFunctions: boolean,
+	): { table: SqlTableReference; next: number } | undefined {
+		let position = index;
+		while (code[position]?.value === "only" || code[position]?.value === "lateral") {
+			position++;
+		}
+		const first = code[position];
+		if (!first) {
+			return undefined;
+		}
+
+		let table: SqlTableReference;
+		if (first.text === "(") {
+			// Subquery: skip to the matching parenthesis
+			let depth = 0;
+			let close = position;
+			for (; close < code.length; close++) {
+				if (code[close].text === "(") {
+					depth++;
+				} else if (code[close].text === ")" && --depth === 0) {
+					break;
+				}
+			}
+			table = { kind: "derived", name: "", start: first.start, end: code[Math.min(close, code.length - 1)].end };
+			position = close + 1;
+		} else if ((first.type === "word" && !RESERVED_WORDS.has(first.value)) || first.type === "quoted") {
+			const qualified =
+				code[position + 1]?.text === "." &&
+				code[position + 2] &&
+				(code[position + 2].type === "word" || code[position + 2].type === "quoted");
+			const nameToken = qualified ? code[position + 2] : first;
+			position += qualified ? 3 : 1;
+			if (allowFunctions && code[position]?.text === "(") {
+				// Set-returning function in FROM
+				let depth = 0;
+				for (; position < code.length; position++) {
+					if (code[position].text === "(") {
+						depth++;
+					} else if (code[position].text === ")" && --depth === 0) {
+						break;
+					}
+				}
+				position++;
+				table = { kind: "derived", name: nameToken.value, start: first.start, end: nameToken.end };
+			} else {
+				table = {
+					kind: !qualified && cteNames.includes(nameToken.value) ? "cte" : "relation",
+					schema: qualified ? first.value : undefined,
+					name: nameToken.value,
+					start: first.start,
+					end: nameToken.end,
+				};
+			}
+		} else {
+			return undefined;
+		}
+
+		if (code[position]?.value === "as") {
+			position++;
+		}
+		const alias = code[position];
+		if (alias && ((alias.type === "word" && !RESERVED_WORDS.has(alias.value)) || alias.type === "quoted")) {
+			table.alias = alias.value;
+			position++;
+			// Column aliases: AS t(a, b)
+			if (code[position]?.text === "(") {
+				const close = code.findIndex((token, tokenIndex) => tokenIndex > position && token.text === ")");
+				position = close === -1 ? code.length : close + 1;
+			}
+		}
+		return { table, next: position };
+	}
+
+	/**
+	 * The column an enum value would be compared with or assigned to: `col = '`, `col IN ('a', '`, `SET col = `
+	 */
+	private static findComparedColumn(
+		tokens: SqlToken[],
+		index: number,
+	): { qualifier?: string; column: string } | undefined {
+		let position = index - 1;
+		// Inside an IN list, walk back over the values already written
+		while (tokens[position] && (tokens[position].type === "string" || tokens[position].text === ",")) {
+			position--;
+		}
+		if (tokens[position]?.text === "(" && tokens[position - 1]?.value === "in") {
+			position -= 2;
+			if (tokens[position]?.value === "not") {
+				position--;
+			}
+		} else if (tokens[position]?.type === "operator" && ["=", "<>", "!="].includes(tokens[position].text)) {
+			position--;
+		} else {
+			return undefined;
+		}
+
+		const column = tokens[position];
+		if (!column || (column.type !== "word" && column.type !== "quoted") || RESERVED_WORDS.has(column.value)) {
+			return undefined;
+		}
+		const qualifier = tokens[position - 1]?.text === "." ? tokens[position - 2] : undefined;
+		return { qualifier: qualifier?.value, column: column.value };
+	}
+}
@@ -3,11 +3,13 @@ import { PostgreSqlConnectionManager } from "@/core/PostgreSqlConnectionManager"
 import { ValidationFramework } from "@/core/ValidationFramework";
 import { EnhancedStatusBarProvider } from "@/providers/EnhancedStatusBarProvider";
 import { PostgreSqlTreeProvider } from "@/providers/PostgreSqlTreeProvider";
+import { SqlLanguageProvider } from "@/providers/SqlLanguageProvider";
 import { DataImportService } from "@/services/DataImportService";
 import { PerformanceAlertSystem } from "@/services/PerformanceAlertSystem";
 import { PerformanceMonitorService } from "@/services/PerformanceMonitorService";
 import { QueryExecutionService } from "@/services/QueryExecutionService";
 import { ReportingService } from "@/services/ReportingService";
+import { SqlCatalogService } from "@/services/SqlCatalogService";
 import { Logger } from "@/utils/Logger";
 import { ConnectionManagementView } from "@/views/legacy/ConnectionManagementView";
 import { DashboardView } from "@/views/legacy/DashboardView";
@@ -18,16 +20,19 @@ import { MigrationPreviewView } from "@/views/legacy/MigrationPreviewView";
 import { NotificationManager } from "@/views/legacy/NotificationManager";
 import { QueryAnalyticsView } from "@/views/legacy/QueryAnalyticsView";
 import { QueryEditorView } from "@/views/legacy/QueryEditorView";
+import { QueryParameterPrompt } from "@/views/legacy/QueryParameterPrompt";
 import { SchemaBrowserView } from "@/views/legacy/SchemaBrowserView";
 import { SchemaComparisonView } from "@/views/legacy/SchemaComparisonView";
 import { SettingsView } from "@/views/legacy/SettingsView";
 import { ConnectionManager } from "../managers/ConnectionManager";
 import { ModularSchemaManager } from "../managers/schema";
+import { DEFAULT_MIGRATION_LEDGER_LOCATION, MigrationLedger } from "../managers/schema/MigrationLedger";
 
 export interface ExtensionComponents {
 	connectionManager: ConnectionManager;
 	schemaManager: ModularSchemaManager;
 	treeProvider: PostgreSqlTreeProvider;
+	migrationLedger: MigrationLedger;
 	treeView?: vscode.TreeView<any>;
 	enhancedStatusBarProvider?: EnhancedStatusBarProvider;
 	dashboardView?: DashboardView;
@@ -49,6 +54,8 @@ export interface ExtensionComponents {
 	enhancedTreeProvider?: any;
 	reportingService?: ReportingService;
 	driftReportView?: DriftReportView;
+	sqlLanguageProvider?: SqlLanguageProvider;
+	queryParameterPrompt?: QueryParameterPrompt;
 }
 
 export class ExtensionInitializer {
@@ -69,18 +76,37 @@ export class ExtensionInitializer {
 			const validationFramework = new ValidationFramework();
 			Logger.debug("✅ ValidationFramework created", "initializeCoreComponents");
 
+			// Ledger location is read on every use so settings changes apply without a reload
+			const migrationLedger = new MigrationLedger(queryExecutionService, () => {
+				const config = vscode.workspace.getConfiguration("postgresql-schema-sync.migration");
+				return {
+					schema: config.get<string>("ledgerSchema") || DEFAULT_MIGRATION_LEDGER_LOCATION.schema,
+					table: config.get<string>("ledgerTable") || DEFAULT_MIGRATION_LEDGER_LOCATION.table,
+				};
+			});
+
 			Logger.debug("Creating ModularSchemaManager instance", "initializeCoreComponents");
-			const schemaManager = new ModularSchemaManager(connectionManager, queryExecutionService, validationFramework);
+			const schemaManager = new ModularSchemaManager(
+				connectionManager,
+				queryExecutionService,
+				validationFramework,
+				migrationLedger.getLocation,
+			);
 			Logger.debug("✅ ModularSchemaManager created", "initializeCoreComponents");
 
 			Logger.debug("Creating PostgreSqlTreeProvider instance", "initializeCoreComponents");
-			const treeProvider = new PostgreSqlTreeProvider(connectionManager, schemaManager);
+			const treeProvider = new PostgreSqlTreeProvider(connectionManager, schemaManager, migrationLedger);
 			Logger.debug("✅ PostgreSqlTreeProvider created", "initializeCoreComponents");
 
+			// Bind parameter values are remembered per SQL file and query tab for this workspace
+			const queryParameterPrompt = new QueryParameterPrompt(context.workspaceState);
+
 			const components: ExtensionComponents = {
 				connectionManager,
 				schemaManager,
 				treeProvider,
+				migrationLedger,
+				queryParameterPrompt,
 			};
 
 			Logger.info("✅ Core extension components initialized successfully", "initializeCoreComponents", {
@@ -175,7 +201,10 @@ export class ExtensionInitializer {
 				})(),
 				(async () => {
 					const t0 = Date.now();
-					const comp = new SchemaComparisonView(coreComponents.connectionManager);
+					const comp = new SchemaComparisonView(
+						coreComponents.connectionManager,
+						coreComponents.migrationLedger.getLocation,
+					);
 					componentTimings.SchemaComparisonView = Date.now() - t0;
 					return comp;
 				})(),
@@ -205,7 +234,12 @@ export class ExtensionInitializer {
 			const [queryEditorView, performanceAlertSystem, queryAnalyticsView] = await Promise.all([
 				(async () => {
 					const t0 = Date.now();
-					const comp = new QueryEditorView(coreComponents.connectionManager, queryExecutionService);
+					const comp = new QueryEditorView(
+						coreComponents.connectionManager,
+						queryExecutionService,
+						undefined,
+						coreComponents.queryParameterPrompt,
+					);
 					componentTimings.QueryEditorView = Date.now() - t0;
 					return comp;
 				})(),
@@ -333,6 +367,27 @@ export class ExtensionInitializer {
 			throw error;
 		}
 	}
+	static registerSqlLanguageProvider(
+		components: ExtensionComponents,
+		context: vscode.ExtensionContext,
+	): SqlLanguageProvider {
+		try {
+			Logger.info("Registering SQL language provider");
+			const queryExecutionService =
+				components.queryExecutionService ?? new QueryExecutionService(components.connectionManager);
+			const provider = new SqlLanguageProvider(
+				components.connectionManager,
+				new SqlCatalogService(queryExecutionService),
+			);
+			provider.register();
+			context.subscriptions.push(provider);
+			Logger.info("SQL language provider registered successfully");
+			return provider;
+		} catch (error) {
+			Logger.error("Failed to register SQL language provider", error as Error);
+			throw error;
+		}
+	}
 	static initializeComponent<T>(componentName: string, factory: () => T, required: boolean = false): T | undefined {
 		try {
 			Logger.debug(`Initializing component: ${componentName}`);
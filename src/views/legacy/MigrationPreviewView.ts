@@ -1,5 +1,6 @@
 import * as vscode from "vscode";
 import { ConnectionInfo } from "@/core/PostgreSqlConnectionManager";
+import { MigrationStep, PostgresLockMode, PreflightCheck } from "@/managers/schema/MigrationTypes";
 import { Logger } from "@/utils/Logger";
 
 export interface MigrationPreviewData {
@@ -15,6 +16,9 @@ export interface MigrationPreviewData {
 	previewOptions: MigrationPreviewOptions;
 	riskAssessment: RiskAssessment;
 	executionPlan: ExecutionStep[];
+	lockTimeline: LockTimelineEntry[];
+	/** Pre-flight checks of the generated steps, with the rows they found when the preview was generated */
+	preflightChecks: PreflightCheck[];
 	createdAt: string;
 }
 
@@ -36,7 +40,7 @@ export interface RiskAssessment {
 }
 
 export interface RiskFactor {
-	type: "data_loss" | "downtime" | "dependency" | "performance" | "security";
+	type: "data_loss" | "data_compatibility" | "downtime" | "dependency" | "performance" | "security";
 	severity: "low" | "medium" | "high" | "critical";
 	description: string;
 	mitigation?: string;
@@ -53,6 +57,23 @@ export interface ExecutionStep {
 	rollbackSql?: string;
 }
 
+/**
+ * A generated migration step placed on the lock timeline, timed by the cumulative step estimates
+ */
+export interface LockTimelineEntry {
+	stepOrder: number;
+	name: string;
+	startSeconds: number;
+	durationSeconds: number;
+	lockMode?: PostgresLockMode;
+	blocksReads: boolean;
+	blocksWrites: boolean;
+	rewritesTable: boolean;
+	scansTable: boolean;
+	transactional: boolean;
+	relations: { name: string; estimatedRows?: number; totalBytes?: number }[];
+}
+
 export class MigrationPreviewView {
 	private panel: vscode.WebviewPanel | undefined;
 	private previewData: MigrationPreviewData | undefined;
@@ -68,19 +89,25 @@ export class MigrationPreviewView {
 			createdAt: string;
 		},
 		targetConnection?: ConnectionInfo,
+		steps?: MigrationStep[],
 	): Promise<void> {
 		try {
 			Logger.info("Opening migration preview view");
 
 			if (migrationScript && targetConnection) {
-				await this.generatePreview(migrationScript, targetConnection, {
-					dryRun: true,
-					stopOnError: true,
-					transactionMode: "all_or_nothing",
-					backupBeforeExecution: true,
-					parallelExecution: false,
-					maxExecutionTime: 300,
-				});
+				await this.generatePreview(
+					migrationScript,
+					targetConnection,
+					{
+						dryRun: true,
+						stopOnError: true,
+						transactionMode: "all_or_nothing",
+						backupBeforeExecution: true,
+						parallelExecution: false,
+						maxExecutionTime: 300,
+					},
+					steps,
+				);
 			}
 
 			this.panel = vscode.window.createWebviewPanel(
@@ -130,6 +157,7 @@ export class MigrationPreviewView {
 		},
 		targetConnection: ConnectionInfo,
 		options: MigrationPreviewOptions,
+		steps?: MigrationStep[],
 	): Promise<void> {
 		try {
 			Logger.info("Generating migration preview", "generatePreview", {
@@ -155,7 +183,7 @@ export class MigrationPreviewView {
 				}
 
 				// Generate preview data
-				this.previewData = await this.generatePreviewData(migrationScript, targetConnection, options);
+				this.previewData = await this.generatePreviewData(migrationScript, targetConnection, options, steps);
 
 				progress.report({ increment: 50, message: "Assessing risks..." });
 
@@ -191,6 +219,7 @@ export class MigrationPreviewView {
 		},
 		targetConnection: ConnectionInfo,
 		options?: MigrationPreviewOptions,
+		steps: MigrationStep[] = [],
 	): Promise<MigrationPreviewData> {
 		const defaultOptions: MigrationPreviewOptions = {
 			dryRun: true,
@@ -206,8 +235,13 @@ export class MigrationPreviewView {
 		// Parse SQL script to generate execution plan
 		const executionPlan = this.parseExecutionPlan(migrationScript.sqlScript);
 
+		// Place the generated steps on a timeline of the locks they hold
+		const lockTimeline = this.buildLockTimeline(steps);
+
+		const preflightChecks = steps.flatMap((step) => step.preflightChecks || []);
+
 		// Generate risk assessment
-		const riskAssessment = this.assessMigrationRisk(migrationScript, executionPlan);
+		const riskAssessment = this.assessMigrationRisk(migrationScript, executionPlan, lockTimeline, preflightChecks);
 
 		return {
 			id: `preview-${Date.now()}`,
@@ -216,10 +250,46 @@ export class MigrationPreviewView {
 			previewOptions,
 			riskAssessment,
 			executionPlan,
+			lockTimeline,
+			preflightChecks,
 			createdAt: new Date().toISOString(),
 		};
 	}
 
+	private buildLockTimeline(steps: MigrationStep[]): LockTimelineEntry[] {
+		let startSeconds = 0;
+		return [...steps]
+			.sort((a, b) => a.order - b.order)
+			.map((step) => {
+				const entry: LockTimelineEntry = {
+					stepOrder: step.order,
+					name: step.name,
+					startSeconds,
+					durationSeconds: Math.max(1, step.estimatedDuration || 0),
+					lockMode: step.lockImpact?.lockMode,
+					blocksReads: step.lockImpact?.blocksReads ?? false,
+					blocksWrites: step.lockImpact?.blocksWrites ?? false,
+					rewritesTable: step.lockImpact?.rewritesTable ?? false,
+					scansTable: step.lockImpact?.scansTable ?? false,
+					transactional: step.transactional !== false,
+					relations: step.lockImpact?.relations ?? [],
+				};
+				startSeconds += entry.durationSeconds;
+				return entry;
+			});
+	}
+
+	private formatBytes(bytes: number): string {
+		const units = ["B", "KB", "MB", "GB", "TB"];
+		let value = bytes;
+		let unit = 0;
+		while (value >= 1024 && unit < units.length - 1) {
+			value /= 1024;
+			unit++;
+		}
+		return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+	}
+
 	private generateUniqueId(prefix: string): string {
 		const timestamp = Date.now();
 		const random = Math.random().toString(36).substring(2, 8);
@@ -307,6 +377,8 @@ export class MigrationPreviewView {
 			createdAt: string;
 		},
 		executionPlan: ExecutionStep[],
+		lockTimeline: LockTimelineEntry[] = [],
+		preflightChecks: PreflightCheck[] = [],
 	): RiskAssessment {
 		const riskFactors: RiskFactor[] = [];
 		let overallRisk: RiskAssessment["overallRisk"] = "low";
@@ -351,6 +423,46 @@ export class MigrationPreviewView {
 			}
 		}
 
+		// Check for steps that hold write-blocking locks while rewriting or scanning a table
+		for (const entry of lockTimeline) {
+			if (!entry.blocksWrites || (!entry.rewritesTable && !entry.scansTable)) {
+				continue;
+			}
+			const largest = Math.max(0, ...entry.relations.map((relation) => relation.totalBytes ?? 0));
+			const severity: RiskFactor["severity"] = largest >= 100 * 1024 * 1024 ? "high" : "medium";
+			riskFactors.push({
+				type: "downtime",
+				severity,
+				description: `Step ${entry.stepOrder} holds ${entry.lockMode} on ${entry.relations.map((relation) => relation.name).join(", ")} while it ${entry.rewritesTable ? "rewrites" : "scans"} the table, blocking ${entry.blocksReads ? "reads and writes" : "writes"}${largest > 0 ? ` (${this.formatBytes(largest)})` : ""}`,
+				mitigation: "Schedule the step in a maintenance window or generate the migration with the online DDL profile",
+			});
+			if (severity === "high" && overallRisk !== "critical") {
+				overallRisk = "high";
+			} else if (overallRisk === "low") {
+				overallRisk = "medium";
+			}
+		}
+
+		// Check for existing rows the migration would fail on, and checks that could not verify the data
+		for (const check of preflightChecks) {
+			if (!this.isFailingPreflightCheck(check)) {
+				continue;
+			}
+			riskFactors.push({
+				type: "data_compatibility",
+				severity: "high",
+				description: check.result?.error
+					? `${check.description}: could not run (${check.result.error})`
+					: `${check.description}: ${check.result?.violationCount.toLocaleString()} row(s)`,
+				mitigation: check.result?.error
+					? "Check the data by hand before executing, or acknowledge the check to execute anyway"
+					: "Fix the offending rows before executing, or acknowledge the check to execute anyway",
+			});
+			if (overallRisk !== "critical") {
+				overallRisk = "high";
+			}
+		}
+
 		// Check for dependency risks
 		if (executionPlan.length > 10) {
 			riskFactors.push({
@@ -422,6 +534,128 @@ export class MigrationPreviewView {
 		});
 	}
 
+	private generateLockTimelineHtml(lockTimeline: LockTimelineEntry[]): string {
+		const last = lockTimeline[lockTimeline.length - 1];
+		const totalSeconds = Math.max(1, last.startSeconds + last.durationSeconds);
+
+		const rows = lockTimeline
+			.map((entry) => {
+				const severity = entry.blocksReads
+					? "lock-all"
+					: entry.blocksWrites
+						? "lock-writes"
+						: entry.lockMode
+							? "lock-weak"
+							: "lock-none";
+				const effects = [
+					entry.blocksReads ? "blocks reads and writes" : entry.blocksWrites ? "blocks writes" : "",
+					entry.rewritesTable ? "rewrites table" : entry.scansTable ? "scans table" : "",
+					entry.transactional ? "" : "outside transaction",
+				].filter((effect) => effect);
+				const relations = entry.relations
+					.map(
+						(relation) =>
+							`${relation.name}${relation.totalBytes !== undefined ? ` (${this.formatBytes(relation.totalBytes)}${relation.estimatedRows !== undefined ? `, ~${relation.estimatedRows.toLocaleString()} rows` : ""})` : ""}`,
+					)
+					.join(", ");
+
+				return `
+                                <div class="lock-row" title="${this.escapeHtml(relations)}">
+                                    <div class="lock-label">${entry.stepOrder}. ${this.escapeHtml(entry.name)}</div>
+                                    <div class="lock-track">
+                                        <div class="lock-bar ${severity}" style="left: ${(entry.startSeconds / totalSeconds) * 100}%; width: ${(entry.durationSeconds / totalSeconds) * 100}%;"></div>
+                                    </div>
+                                    <div>
+                                        <div>${entry.lockMode || "No lock on existing tables"}</div>
+                                        <div class="lock-detail">${effects.join(" • ")}</div>
+                                    </div>
+                                </div>`;
+			})
+			.join("");
+
+		return `
+                    <!-- Lock Timeline -->
+                    <div class="preview-card" style="margin-bottom: 20px;">
+                        <div class="card-header">
+                            <div class="card-title">Lock Timeline (~${totalSeconds}s estimated)</div>
+                        </div>
+                        <div class="card-content">${rows}
+                        </div>
+                    </div>`;
+	}
+
+	private generatePreflightChecksHtml(preflightChecks: PreflightCheck[]): string {
+		const rows = preflightChecks
+			.map((check) => {
+				const result = check.result;
+				const status = !result
+					? "Not run"
+					: result.error
+						? `Could not run: ${this.escapeHtml(result.error)}`
+						: result.violationCount > 0
+							? `${result.violationCount.toLocaleString()} offending row(s)`
+							: "No offending rows";
+				const columns = result?.sampleRows.length ? Object.keys(result.sampleRows[0]) : [];
+				const sample =
+					columns.length > 0
+						? `
+                                    <table class="preflight-sample">
+                                        <tr>${columns.map((column) => `<th>${this.escapeHtml(column)}</th>`).join("")}</tr>
+                                        ${result?.sampleRows
+																					.map(
+																						(row) =>
+																							`<tr>${columns.map((column) => `<td>${this.escapeHtml(this.formatSampleValue(row[column]))}</td>`).join("")}</tr>`,
+																					)
+																					.join("")}
+                                    </table>`
+						: "";
+
+				return `
+                                <div class="preflight-check ${this.isFailingPreflightCheck(check) ? "preflight-failed" : ""}">
+                                    <div>Step ${this.escapeHtml(check.stepId.replace(/^step_/, ""))}: ${this.escapeHtml(check.description)}</div>
+                                    <div class="lock-detail">${status}</div>${sample}
+                                </div>`;
+			})
+			.join("");
+		const violations = preflightChecks.filter((check) => this.isFailingPreflightCheck(check)).length;
+
+		return `
+                    <!-- Pre-flight Data Checks -->
+                    <div class="preview-card" style="margin-bottom: 20px;">
+                        <div class="card-header">
+                            <div class="card-title">Pre-flight Data Checks (${violations > 0 ? `${violations} failing` : "all passed"})</div>
+                        </div>
+                        <div class="card-content">${rows}
+                        </div>
+                    </div>`;
+	}
+
+	/**
+	 * Checks that found offending rows, or could not run and so verified nothing; both block execution
+	 */
+	private isFailingPreflightCheck(check: PreflightCheck): boolean {
+		return (check.result?.violationCount ?? 0) > 0 || !!check.result?.error;
+	}
+
+	private formatSampleValue(value: unknown): string {
+		if (value === null || value === undefined) {
+			return "NULL";
+		}
+		if (value instanceof Date) {
+			return value.toISOString();
+		}
+		return typeof value === "object" ? JSON.stringify(value) : String(value);
+	}
+
+	private escapeHtml(value: string): string {
+		return value
+			.replace(/&/g, "&amp;")
+			.replace(/</g, "&lt;")
+			.replace(/>/g, "&gt;")
+			.replace(/"/g, "&quot;")
+			.replace(/'/g, "&#39;");
+	}
+
 	private async generatePreviewHtml(data?: MigrationPreviewData): Promise<string> {
 		if (!data) {
 			return this.generateEmptyStateHtml();
@@ -701,6 +935,70 @@ export class MigrationPreviewView {
                         color: var(--vscode-button-foreground);
                     }
 
+                    .lock-row {
+                        display: grid;
+                        grid-template-columns: 220px 1fr 180px;
+                        align-items: center;
+                        gap: 10px;
+                        padding: 4px 0;
+                        font-size: 12px;
+                    }
+
+                    .lock-track {
+                        position: relative;
+                        height: 14px;
+                        background: var(--vscode-input-background);
+                        border-radius: 3px;
+                    }
+
+                    .lock-bar {
+                        position: absolute;
+                        top: 0;
+                        height: 100%;
+                        min-width: 3px;
+                        border-radius: 3px;
+                    }
+
+                    .lock-none { background: var(--vscode-descriptionForeground); opacity: 0.4; }
+                    .lock-weak { background: var(--vscode-gitDecoration-addedResourceForeground); }
+                    .lock-writes { background: var(--vscode-gitDecoration-modifiedResourceForeground); }
+                    .lock-all { background: var(--vscode-gitDecoration-deletedResourceForeground); }
+
+                    .lock-label {
+                        overflow: hidden;
+                        text-overflow: ellipsis;
+                        white-space: nowrap;
+                    }
+
+                    .lock-detail {
+                        color: var(--vscode-descriptionForeground);
+                        font-size: 11px;
+                    }
+
+                    .preflight-check {
+                        padding: 6px 0 6px 8px;
+                        border-left: 3px solid var(--vscode-gitDecoration-addedResourceForeground);
+                        margin-bottom: 6px;
+                    }
+
+                    .preflight-failed {
+                        border-left-color: var(--vscode-gitDecoration-deletedResourceForeground);
+                    }
+
+                    .preflight-sample {
+                        margin-top: 6px;
+                        border-collapse: collapse;
+                        font-family: var(--vscode-editor-font-family);
+                        font-size: 11px;
+                    }
+
+                    .preflight-sample th,
+                    .preflight-sample td {
+                        border: 1px solid var(--vscode-panel-border);
+                        padding: 2px 6px;
+                        text-align: left;
+                    }
+
                     @media (max-width: 768px) {
                         .preview-grid {
                             grid-template-columns: 1fr;
@@ -796,6 +1094,10 @@ export class MigrationPreviewView {
                         </div>
                     </div>
 
+                    ${data.lockTimeline.length > 0 ? this.generateLockTimelineHtml(data.lockTimeline) : ""}
+
+                    ${data.preflightChecks.length > 0 ? this.generatePreflightChecksHtml(data.preflightChecks) : ""}
+
                     <div class="preview-grid">
                         <!-- Execution Plan -->
                         <div class="preview-card">
@@ -1061,7 +1363,34 @@ export class MigrationPreviewView {
 				}
 			}
 
-			await vscode.commands.executeCommand("postgresql.executeMigration", previewData.migrationScript);
+			// Offending rows, and checks that could not run, block execution unless the user accepts that the
+			// migration may fail on them
+			const violations = (previewData.preflightChecks || []).filter((check) => this.isFailingPreflightCheck(check));
+			if (violations.length > 0) {
+				const acknowledge = "Acknowledge and Execute";
+				const choice = await vscode.window.showWarningMessage(
+					`${violations.length} pre-flight check(s) found rows this migration would fail on, or could not run.`,
+					{
+						modal: true,
+						detail: violations
+							.map((check) =>
+								check.result?.error
+									? `• ${check.description}: could not run (${check.result.error})`
+									: `• ${check.description}: ${check.result?.violationCount} row(s)`,
+							)
+							.join("\n"),
+					},
+					acknowledge,
+				);
+				if (choice !== acknowledge) {
+					return;
+				}
+			}
+
+			await vscode.commands.executeCommand("postgresql.executeMigration", {
+				...previewData.migrationScript,
+				acknowledgePreflight: violations.length > 0,
+			});
 		} catch (error) {
 			Logger.error("Failed to proceed with migration", error as Error, "proceedWithMigration");
 			vscode.window.showErrorMessage("Failed to execute migration");
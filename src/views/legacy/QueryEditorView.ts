@@ -1,8 +1,14 @@
 import * as vscode from "vscode";
+import { QueryCancelledError } from "@/core/PostgreSqlConnectionManager";
 import { ConnectionManager } from "@/managers/ConnectionManager";
+import { ExecutionPlan, ExecutionPlanNode, ExecutionPlanParser, PlanNodeFlag } from "@/services/ExecutionPlanParser";
+import { QueryCursor } from "@/services/QueryCursor";
 import { QueryExecutionService } from "@/services/QueryExecutionService";
+import { QueryParameters, QueryParameterValue } from "@/services/QueryParameters";
 import { ErrorHandler } from "@/utils/ErrorHandler";
+import { getUUId } from "@/utils/helper";
 import { Logger } from "@/utils/Logger";
+import { QueryParameterPrompt } from "./QueryParameterPrompt";
 
 export interface QueryTab {
 	id: string;
@@ -13,6 +19,8 @@ export interface QueryTab {
 	createdAt: Date;
 	lastExecuted?: Date;
 	executionResults?: QueryResult[];
+	/** Plan from the last Explain; shown instead of the results until the query runs again */
+	executionPlan?: ExecutionPlan;
 }
 
 export interface QueryResult {
@@ -22,8 +30,14 @@ export interface QueryResult {
 	rowCount: number;
 	columns: QueryColumn[];
 	rows: any[][];
+	/** Rows remain on the server beyond those loaded */
+	hasMore?: boolean;
+	/** Values the query ran with, so an export can run it again */
+	parameters?: Record<string, QueryParameterValue>;
 	error?: string;
-	executionPlan?: string;
+	/** Stopped on the server at the user's request; shown apart from errors */
+	cancelled?: boolean;
+	executionPlan?: ExecutionPlan;
 	timestamp: Date;
 }
 
@@ -33,6 +47,29 @@ export interface QueryColumn {
 	nullable: boolean;
 }
 
+const PLAN_FLAG_LABELS: Record<PlanNodeFlag, string> = {
+	expensive: "Expensive",
+	row_estimate_miss: "Estimate miss",
+	large_seq_scan: "Seq scan",
+	disk_sort: "Disk sort",
+};
+
+/** Rows fetched per page of the results grid */
+const RESULT_PAGE_SIZE = 500;
+/** Rows a result keeps in memory; beyond this the rest is only reachable through an export */
+const MAX_LOADED_ROWS = 50000;
+/**
+ * Open cursors hold a connection and a transaction whose locks block DDL and vacuum on the queried tables,
+ * so one left unread this long is closed
+ */
+const CURSOR_IDLE_MS = 30 * 1000;
+
+interface ResultCursor {
+	cursor: QueryCursor;
+	idleTimer: NodeJS.Timeout;
+	fetching: boolean;
+}
+
 export class QueryEditorView {
 	private context?: vscode.ExtensionContext;
 	private connectionManager: ConnectionManager;
@@ -42,14 +79,19 @@ export class QueryEditorView {
 	private webviewPanel?: vscode.WebviewPanel;
 	private queryHistory: string[] = [];
 	private favorites: string[] = [];
+	private parameterPrompt: QueryParameterPrompt;
+	/** Cursors of results with more rows to fetch, keyed by result id */
+	private resultCursors: Map<string, ResultCursor> = new Map();
 
 	constructor(
 		connectionManager: ConnectionManager,
 		queryExecutionService: QueryExecutionService,
 		context?: vscode.ExtensionContext,
+		parameterPrompt?: QueryParameterPrompt,
 	) {
 		this.connectionManager = connectionManager;
 		this.queryExecutionService = queryExecutionService;
+		this.parameterPrompt = parameterPrompt ?? new QueryParameterPrompt(context?.workspaceState);
 		if (context) {
 			this.context = context;
 			this.loadQueryHistory();
@@ -76,6 +118,7 @@ export class QueryEditorView {
 
 				this.webviewPanel.onDidDispose(() => {
 					this.webviewPanel = undefined;
+					this.closeResultCursors();
 				});
 
 				this.setupMessageHandler();
@@ -144,6 +187,10 @@ export class QueryEditorView {
 						await this.executeQuery(message.query, message.tabId);
 						break;
 
+					case "explainQuery":
+						await this.explainQuery(message.query, message.tabId, !!message.analyze);
+						break;
+
 					case "updateQuery":
 						this.updateQuery(message.tabId, message.query);
 						break;
@@ -171,6 +218,10 @@ export class QueryEditorView {
 						await this.exportResults(message.resultId, message.format);
 						break;
 
+					case "fetchMoreRows":
+						await this.fetchMoreRows(message.resultId);
+						break;
+
 					case "clearHistory":
 						this.clearHistory();
 						break;
@@ -202,10 +253,16 @@ export class QueryEditorView {
 				return;
 			}
 
+			const parameters = await this.promptForParameters(tab, query);
+			if (!parameters) {
+				return;
+			}
+
 			Logger.info("Executing query", "executeQuery", {
 				tabId,
 				connectionId: tab.connectionId,
 				queryLength: query.length,
+				parameterCount: Object.keys(parameters).length,
 			});
 
 			// Show progress with cancellation support
@@ -219,14 +276,10 @@ export class QueryEditorView {
 					progress.report({ increment: 0, message: "Executing query..." });
 
 					try {
-						const result = await this.queryExecutionService.executeQuery(
+						const result = await this.runQuery(
 							tab.connectionId!,
 							query,
-							{
-								timeout: 30000,
-								maxRows: 1000,
-								includeExecutionPlan: true,
-							},
+							Object.keys(parameters).length > 0 ? parameters : undefined,
 							token,
 						);
 
@@ -236,16 +289,25 @@ export class QueryEditorView {
 						});
 
 						// Update tab with execution info
+						this.closeResultCursors(tab.executionResults);
 						tab.lastExecuted = new Date();
 						tab.executionResults = [result];
+						tab.executionPlan = undefined;
 						this.tabs.set(tabId, tab);
 
 						// Add to history
 						this.addToHistory(query);
 
+						if (result.cancelled) {
+							Logger.info("Query cancelled", "executeQuery", { tabId, executionTime: result.executionTime });
+							await this.updateWebviewContent();
+							vscode.window.showInformationMessage(`Query cancelled after ${result.executionTime}ms`);
+							return;
+						}
+
 						progress.report({
 							increment: 100,
-							message: `Query completed (${result.rowCount} rows)`,
+							message: `Query completed (${this.formatRowCount(result)} rows)`,
 						});
 
 						// Update webview
@@ -254,7 +316,7 @@ export class QueryEditorView {
 						// Show success message with row count
 						vscode.window
 							.showInformationMessage(
-								`Query executed successfully: ${result.rowCount} rows returned in ${result.executionTime}ms`,
+								`Query executed successfully: ${this.formatRowCount(result)} rows returned in ${result.executionTime}ms`,
 								"View Results",
 								"Export Results",
 							)
@@ -295,6 +357,7 @@ export class QueryEditorView {
 							timestamp: new Date(),
 						};
 
+						this.closeResultCursors(tab.executionResults);
 						tab.executionResults = [errorResult];
 						this.tabs.set(tabId, tab);
 
@@ -328,6 +391,228 @@ export class QueryEditorView {
 		}
 	}
 
+	/**
+	 * Run a query and load its first page of rows through a cursor that stays open for the next pages.
+	 * Statements a cursor cannot run, such as DML, are executed normally. Cancelling the token stops the
+	 * statement on the server and yields a cancelled result.
+	 */
+	private async runQuery(
+		connectionId: string,
+		query: string,
+		parameters: Record<string, QueryParameterValue> | undefined,
+		token: vscode.CancellationToken,
+	): Promise<QueryResult> {
+		const startTime = Date.now();
+		let cursor: QueryCursor | undefined;
+		let rows: any[][];
+		try {
+			cursor = await this.queryExecutionService.openCursor(connectionId, query, parameters, token);
+			if (!cursor) {
+				return this.queryExecutionService.executeQuery(connectionId, query, { timeout: 30000, parameters }, token);
+			}
+			rows = await cursor.fetch(RESULT_PAGE_SIZE);
+		} catch (error) {
+			if (!(error instanceof QueryCancelledError)) {
+				throw error;
+			}
+			return {
+				id: `cancelled_${getUUId()}`,
+				query,
+				executionTime: Date.now() - startTime,
+				rowCount: 0,
+				columns: [],
+				rows: [],
+				error: error.message,
+				cancelled: true,
+				timestamp: new Date(),
+			};
+		}
+
+		const result: QueryResult = {
+			id: `query_${getUUId()}`,
+			query,
+			executionTime: Date.now() - startTime,
+			rowCount: rows.length,
+			columns: this.queryExecutionService.toColumns(cursor.fields),
+			rows,
+			hasMore: !cursor.done,
+			parameters,
+			timestamp: new Date(),
+		};
+
+		if (cursor.done) {
+			await cursor.close();
+		} else {
+			this.resultCursors.set(result.id, {
+				cursor,
+				idleTimer: this.startCursorIdleTimer(result.id),
+				fetching: false,
+			});
+		}
+		return result;
+	}
+
+	/**
+	 * Load the next page of a result and append it to the grid without redrawing the editor
+	 */
+	private async fetchMoreRows(resultId: string): Promise<void> {
+		const result = this.findResult(resultId)?.result;
+		const entry = this.resultCursors.get(resultId);
+		if (!result || !entry || entry.fetching) {
+			if (result && !entry) {
+				this.postRows(result, []);
+			}
+			return;
+		}
+
+		entry.fetching = true;
+		clearTimeout(entry.idleTimer);
+		try {
+			const offset = result.rows.length;
+			const rows = await entry.cursor.fetch(Math.min(RESULT_PAGE_SIZE, MAX_LOADED_ROWS - offset));
+			result.rows.push(...rows);
+			result.rowCount = result.rows.length;
+			result.hasMore = !entry.cursor.done;
+
+			if (entry.cursor.done || result.rows.length >= MAX_LOADED_ROWS) {
+				this.closeResultCursors([result]);
+			} else {
+				entry.idleTimer = this.startCursorIdleTimer(resultId);
+			}
+			this.postRows(result, rows, offset);
+		} catch (error) {
+			Logger.error("Failed to fetch more rows", error as Error);
+			this.closeResultCursors([result]);
+			this.postRows(result, []);
+			vscode.window.showErrorMessage(`Failed to fetch more rows: ${(error as Error).message}`);
+		} finally {
+			entry.fetching = false;
+		}
+	}
+
+	private postRows(result: QueryResult, rows: any[][], offset = 0): void {
+		this.webviewPanel?.webview.postMessage({
+			command: "appendRows",
+			resultId: result.id,
+			html: this.generateResultRowsHtml(rows, result.columns, offset),
+			summary: this.generateResultsSummary(result),
+			rowCount: this.formatRowCount(result),
+			canFetchMore: this.resultCursors.has(result.id),
+		});
+	}
+
+	private startCursorIdleTimer(resultId: string): NodeJS.Timeout {
+		return setTimeout(() => {
+			Logger.info("Closing idle result cursor", "startCursorIdleTimer", { resultId });
+			const result = this.findResult(resultId)?.result;
+			this.closeResultCursors(result ? [result] : undefined);
+			if (result) {
+				this.postRows(result, []);
+			}
+		}, CURSOR_IDLE_MS);
+	}
+
+	/**
+	 * Close the open cursors of the given results, or of every result, returning their connections to the pool
+	 */
+	private closeResultCursors(results?: QueryResult[]): void {
+		const ids = results ? results.map((result) => result.id) : Array.from(this.resultCursors.keys());
+		for (const id of ids) {
+			const entry = this.resultCursors.get(id);
+			if (entry) {
+				clearTimeout(entry.idleTimer);
+				this.resultCursors.delete(id);
+				entry.cursor.close();
+			}
+		}
+	}
+
+	private findResult(resultId: string): { tab: QueryTab; result: QueryResult } | undefined {
+		for (const tab of this.tabs.values()) {
+			const result = tab.executionResults?.find((r) => r.id === resultId);
+			if (result) {
+				return { tab, result };
+			}
+		}
+		return undefined;
+	}
+
+	private formatRowCount(result: QueryResult): string {
+		return `${result.rowCount.toLocaleString()}${result.hasMore ? "+" : ""}`;
+	}
+
+	/**
+	 * Show the plan of the tab's query. EXPLAIN ANALYZE runs the query inside a transaction that is rolled back.
+	 */
+	private async explainQuery(query: string, tabId: string, analyze: boolean): Promise<void> {
+		const tab = this.tabs.get(tabId);
+		if (!tab) {
+			throw new Error(`Tab ${tabId} not found`);
+		}
+
+		if (!tab.connectionId) {
+			vscode.window.showErrorMessage("Please select a database connection for this query tab");
+			return;
+		}
+
+		const parameters = await this.promptForParameters(tab, query);
+		if (!parameters) {
+			return;
+		}
+
+		try {
+			const plan = await vscode.window.withProgress(
+				{
+					location: vscode.ProgressLocation.Notification,
+					title: analyze ? "Running EXPLAIN ANALYZE" : "Running EXPLAIN",
+					cancellable: true,
+				},
+				(_progress, token) =>
+					this.queryExecutionService.explainQuery(tab.connectionId!, query, {
+						analyze,
+						buffers: analyze,
+						parameters: Object.keys(parameters).length > 0 ? parameters : undefined,
+						cancellationToken: token,
+					}),
+			);
+
+			tab.executionPlan = plan;
+			this.tabs.set(tabId, tab);
+			this.addToHistory(query);
+			await this.updateWebviewContent();
+
+			Logger.info("Query explained", "explainQuery", {
+				tabId,
+				analyze,
+				nodeCount: plan.nodeCount,
+				warningCount: plan.warningCount,
+			});
+		} catch (error) {
+			if (error instanceof QueryCancelledError) {
+				vscode.window.showInformationMessage(analyze ? "EXPLAIN ANALYZE cancelled" : "EXPLAIN cancelled");
+				return;
+			}
+			Logger.error("Failed to explain query", error as Error);
+			vscode.window.showErrorMessage(`Failed to explain query: ${(error as Error).message}`);
+		}
+	}
+
+	/**
+	 * Ask for values of the query's bind parameters; values are remembered per tab name
+	 * @returns Values keyed by placeholder, empty when the query has none, or undefined if cancelled
+	 */
+	private async promptForParameters(
+		tab: QueryTab,
+		query: string,
+	): Promise<Record<string, QueryParameterValue> | undefined> {
+		try {
+			return await this.parameterPrompt.promptForValues(`queryEditor:${tab.name}`, QueryParameters.detect(query));
+		} catch (error) {
+			vscode.window.showErrorMessage((error as Error).message);
+			return undefined;
+		}
+	}
+
 	private updateQuery(tabId: string, query: string): void {
 		const tab = this.tabs.get(tabId);
 		if (tab) {
@@ -342,6 +627,7 @@ export class QueryEditorView {
 	}
 
 	private closeTab(tabId: string): void {
+		this.closeResultCursors(this.tabs.get(tabId)?.executionResults);
 		this.tabs.delete(tabId);
 		if (this.activeTabId === tabId) {
 			this.activeTabId = this.tabs.size > 0 ? this.tabs.keys().next().value : undefined;
@@ -449,20 +735,12 @@ export class QueryEditorView {
 	private async exportResults(resultId: string, format: "csv" | "json" | "excel"): Promise<void> {
 		try {
 			// Find result in any tab
-			let targetResult: QueryResult | undefined;
-			for (const tab of this.tabs.values()) {
-				if (tab.executionResults) {
-					targetResult = tab.executionResults.find((r) => r.id === resultId);
-					if (targetResult) {
-						break;
-					}
-				}
-			}
-
-			if (!targetResult) {
+			const found = this.findResult(resultId);
+			if (!found) {
 				vscode.window.showErrorMessage("Query result not found");
 				return;
 			}
+			const { tab, result: targetResult } = found;
 
 			const uri = await vscode.window.showSaveDialog({
 				filters: {
@@ -473,10 +751,30 @@ export class QueryEditorView {
 				defaultUri: vscode.Uri.file(`query_result_${Date.now()}.${format}`),
 			});
 
-			if (uri) {
+			if (!uri) {
+				return;
+			}
+
+			if (!targetResult.hasMore || !tab.connectionId) {
 				await this.queryExecutionService.exportResults(targetResult, format, uri.fsPath);
 				vscode.window.showInformationMessage(`Results exported to ${uri.fsPath}`);
+				return;
 			}
+
+			// Only part of the result is loaded; the query runs again and every row is streamed to the file
+			const rowCount = await vscode.window.withProgress(
+				{
+					location: vscode.ProgressLocation.Notification,
+					title: "Exporting all rows",
+					cancellable: false,
+				},
+				(progress) =>
+					this.queryExecutionService.exportQuery(tab.connectionId!, targetResult.query, format, uri.fsPath, {
+						parameters: targetResult.parameters,
+						onProgress: (written) => progress.report({ message: `${written.toLocaleString()} rows written` }),
+					}),
+			);
+			vscode.window.showInformationMessage(`${rowCount.toLocaleString()} rows exported to ${uri.fsPath}`);
 		} catch (error) {
 			Logger.error("Failed to export results", error as Error);
 			vscode.window.showErrorMessage(`Export failed: ${(error as Error).message}`);
@@ -639,7 +937,7 @@ export class QueryEditorView {
 
                     .results-container {
                         flex: 1;
-                        display: ${activeTab?.executionResults?.length ? "block" : "none"};
+                        display: ${activeTab?.executionResults?.length || activeTab?.executionPlan ? "block" : "none"};
                         border-top: 1px solid var(--vscode-panel-border);
                     }
 
@@ -758,6 +1056,123 @@ export class QueryEditorView {
                     @keyframes spin {
                         to { transform: rotate(360deg); }
                     }
+
+                    .plan-container {
+                        height: 100%;
+                        overflow: auto;
+                        padding: 10px;
+                        font-size: 12px;
+                    }
+
+                    .plan-findings {
+                        margin: 0 0 10px 0;
+                        padding-left: 18px;
+                    }
+
+                    .plan-findings li {
+                        cursor: pointer;
+                        margin-bottom: 2px;
+                    }
+
+                    .plan-node {
+                        margin-left: 16px;
+                        border-left: 1px solid var(--vscode-panel-border);
+                        padding-left: 6px;
+                    }
+
+                    .plan-node > summary {
+                        cursor: pointer;
+                        padding: 3px 4px;
+                        border-radius: 3px;
+                        display: flex;
+                        gap: 8px;
+                        align-items: center;
+                    }
+
+                    .plan-node.selected > summary {
+                        background: var(--vscode-list-activeSelectionBackground);
+                        color: var(--vscode-list-activeSelectionForeground);
+                    }
+
+                    .plan-node-title {
+                        font-weight: bold;
+                    }
+
+                    .plan-node-metrics {
+                        color: var(--vscode-descriptionForeground);
+                    }
+
+                    .plan-share {
+                        width: 60px;
+                        height: 6px;
+                        background: var(--vscode-input-background);
+                        border-radius: 3px;
+                        overflow: hidden;
+                        flex-shrink: 0;
+                    }
+
+                    .plan-share-fill {
+                        height: 100%;
+                        background: var(--vscode-charts-blue);
+                    }
+
+                    .plan-node.flag-expensive > summary .plan-share-fill {
+                        background: var(--vscode-charts-red);
+                    }
+
+                    .plan-badge {
+                        padding: 1px 6px;
+                        border-radius: 8px;
+                        font-size: 10px;
+                        background: var(--vscode-inputValidation-warningBackground);
+                        border: 1px solid var(--vscode-inputValidation-warningBorder);
+                    }
+
+                    .plan-badge.expensive {
+                        background: var(--vscode-inputValidation-errorBackground);
+                        border-color: var(--vscode-inputValidation-errorBorder);
+                    }
+
+                    .plan-node-details {
+                        margin: 2px 0 6px 20px;
+                        color: var(--vscode-descriptionForeground);
+                    }
+
+                    .plan-node-details td {
+                        padding: 1px 8px 1px 0;
+                        border: none;
+                        max-width: 600px;
+                        white-space: normal;
+                    }
+
+                    .plan-flame {
+                        position: relative;
+                        margin-top: 6px;
+                    }
+
+                    .plan-frame {
+                        position: absolute;
+                        height: 20px;
+                        box-sizing: border-box;
+                        border: 1px solid var(--vscode-editor-background);
+                        background: var(--vscode-charts-blue);
+                        color: var(--vscode-editor-background);
+                        font-size: 11px;
+                        line-height: 18px;
+                        padding: 0 4px;
+                        overflow: hidden;
+                        white-space: nowrap;
+                        text-overflow: ellipsis;
+                        cursor: pointer;
+                    }
+
+                    .plan-frame.flagged {
+                        background: var(--vscode-charts-orange);
+                    }
+
+                    .plan-frame.flag-expensive {
+                        background: var(--vscode-charts-red);
+                    }
                 </style>
             </head>
             <body>
@@ -776,6 +1191,8 @@ export class QueryEditorView {
                     </select>
 
                     <button class="btn" onclick="executeQuery()">Execute</button>
+                    <button class="btn btn-secondary" onclick="explainQuery(false)" title="Show the planner's estimated plan">Explain</button>
+                    <button class="btn btn-secondary" onclick="explainQuery(true)" title="Run the query in a rolled back transaction and show the actual plan">Explain Analyze</button>
                     <button class="btn btn-secondary" onclick="formatQuery()">Format</button>
                     <button class="btn btn-secondary" onclick="addToFavorites()">Add to Favorites</button>
 
@@ -813,14 +1230,16 @@ export class QueryEditorView {
                             <div id="autocompleteContainer" class="autocomplete-container"></div>
                         </div>
 
+                        ${activeTab.executionPlan ? this.generateExecutionPlanHtml(activeTab.executionPlan) : ""}
+
                         ${
-													activeTab.executionResults?.length
+													!activeTab.executionPlan && activeTab.executionResults?.length
 														? `
                             <div class="results-container">
                                 <div class="results-header">
                                     <div>
                                         <strong>Query Results</strong>
-                                        (${activeTab.executionResults[0].rowCount} rows, ${activeTab.executionResults[0].executionTime}ms)
+                                        (<span id="resultsRowCount">${this.formatRowCount(activeTab.executionResults[0])}</span> rows, ${activeTab.executionResults[0].executionTime}ms)
                                         ${activeTab.executionResults[0].executionPlan ? '<span title="Execution plan available">📊</span>' : ""}
                                     </div>
                                     <div>
@@ -877,6 +1296,41 @@ export class QueryEditorView {
                         });
                     }
 
+                    function explainQuery(analyze) {
+                        const query = document.getElementById('queryTextarea').value.trim();
+                        if (!query) {
+                            showNotification('Please enter a query to explain', 'warning');
+                            return;
+                        }
+
+                        hideAutocomplete();
+
+                        vscode.postMessage({
+                            command: 'explainQuery',
+                            query: query,
+                            tabId: activeTabId,
+                            analyze: analyze
+                        });
+                    }
+
+                    function showPlanView(view) {
+                        document.getElementById('planTree').style.display = view === 'tree' ? 'block' : 'none';
+                        document.getElementById('planFlame').style.display = view === 'flame' ? 'block' : 'none';
+                    }
+
+                    function selectPlanNode(nodeId) {
+                        showPlanView('tree');
+                        document.querySelectorAll('.plan-node.selected').forEach((node) => node.classList.remove('selected'));
+                        const node = document.getElementById('plan-node-' + nodeId);
+                        if (!node) return;
+                        // Open every collapsed ancestor so the node is visible
+                        for (let parent = node; parent; parent = parent.parentElement.closest('.plan-node')) {
+                            parent.open = true;
+                        }
+                        node.classList.add('selected');
+                        node.scrollIntoView({ block: 'center' });
+                    }
+
                     function updateQuery() {
                         const query = document.getElementById('queryTextarea').value;
                         vscode.postMessage({
@@ -1090,6 +1544,48 @@ export class QueryEditorView {
                         }
                     }
 
+                    // Pages of rows are requested when the Load more button scrolls into view
+                    let fetchingRows = false;
+                    function fetchMoreRows() {
+                        const button = document.getElementById('loadMoreRows');
+                        if (!button || fetchingRows || button.style.display === 'none') {
+                            return;
+                        }
+                        fetchingRows = true;
+                        button.disabled = true;
+                        button.textContent = 'Loading...';
+                        vscode.postMessage({
+                            command: 'fetchMoreRows',
+                            resultId: button.dataset.resultId
+                        });
+                    }
+
+                    function appendRows(message) {
+                        const button = document.getElementById('loadMoreRows');
+                        if (!button || button.dataset.resultId !== message.resultId) {
+                            return;
+                        }
+                        document.querySelector('#resultsTable tbody').insertAdjacentHTML('beforeend', message.html);
+                        document.getElementById('resultsSummary').textContent = message.summary;
+                        const rowCount = document.getElementById('resultsRowCount');
+                        if (rowCount) {
+                            rowCount.textContent = message.rowCount;
+                        }
+                        button.disabled = false;
+                        button.textContent = 'Load more';
+                        button.style.display = message.canFetchMore ? '' : 'none';
+                        fetchingRows = false;
+                    }
+
+                    const loadMoreButton = document.getElementById('loadMoreRows');
+                    if (loadMoreButton && 'IntersectionObserver' in window) {
+                        new IntersectionObserver((entries) => {
+                            if (entries.some((entry) => entry.isIntersecting)) {
+                                fetchMoreRows();
+                            }
+                        }).observe(loadMoreButton);
+                    }
+
                     function exportResults(resultId, format) {
                         vscode.postMessage({
                             command: 'exportResults',
@@ -1146,6 +1642,9 @@ export class QueryEditorView {
                             case 'queryExecuted':
                                 location.reload();
                                 break;
+                            case 'appendRows':
+                                appendRows(message);
+                                break;
                             case 'error':
                                 showNotification(message.message, 'error');
                                 break;
@@ -1224,7 +1723,162 @@ export class QueryEditorView {
         `;
 	}
 
+	/**
+	 * Plan panel with the findings, an expandable node tree and a flame view sized by time or cost
+	 */
+	private generateExecutionPlanHtml(plan: ExecutionPlan): string {
+		const nodes = ExecutionPlanParser.flatten(plan.root);
+
+		const findings = nodes.flatMap((node) =>
+			node.warnings.map(
+				(warning) =>
+					`<li onclick="selectPlanNode(${node.id})"><span class="plan-badge ${warning.flag === "expensive" ? "expensive" : ""}">${PLAN_FLAG_LABELS[warning.flag]}</span> ${this.escapeHtml(this.describePlanNode(node))}: ${this.escapeHtml(warning.message)}</li>`,
+			),
+		);
+		const mode = plan.analyzed ? `EXPLAIN ANALYZE${plan.buffers ? ", BUFFERS" : ""}` : "EXPLAIN";
+		const timing = [
+			plan.planningTime !== undefined ? `planning ${plan.planningTime.toFixed(2)}ms` : "",
+			plan.executionTime !== undefined ? `execution ${plan.executionTime.toFixed(2)}ms` : "",
+		]
+			.filter(Boolean)
+			.join(", ");
+
+		return `
+            <div class="results-container">
+                <div class="results-header">
+                    <div>
+                        <strong>Execution Plan</strong>
+                        (${mode}, ${plan.nodeCount} nodes${timing ? `, ${timing}` : ""})
+                        ${plan.analyzed ? '<span title="The query ran inside a transaction that was rolled back">↩</span>' : ""}
+                    </div>
+                    <div>
+                        <button class="btn btn-secondary" onclick="showPlanView('tree')">Tree</button>
+                        <button class="btn btn-secondary" onclick="showPlanView('flame')">Flame</button>
+                    </div>
+                </div>
+                <div class="plan-container">
+                    ${findings.length > 0 ? `<ul class="plan-findings">${findings.join("")}</ul>` : '<div style="margin-bottom: 10px; color: var(--vscode-descriptionForeground);">No problems found in this plan</div>'}
+                    <div id="planTree">${this.generatePlanNodeHtml(plan.root, plan)}</div>
+                    <div id="planFlame" style="display: none;">${this.generatePlanFlameHtml(plan, nodes)}</div>
+                </div>
+            </div>
+        `;
+	}
+
+	private generatePlanNodeHtml(node: ExecutionPlanNode, plan: ExecutionPlan): string {
+		const flags = node.warnings.map((warning) => `flag-${warning.flag.replace(/_/g, "-")}`).join(" ");
+		const weight =
+			plan.weightUnit === "ms"
+				? `${node.exclusiveWeight.toFixed(2)}ms self, ${node.inclusiveWeight.toFixed(2)}ms total`
+				: `cost ${node.startupCost.toFixed(2)}..${node.totalCost.toFixed(2)}`;
+		const rows =
+			node.actualRows !== undefined
+				? `${node.actualRows} of ${node.planRows} est. rows × ${node.actualLoops ?? 1} loop(s)`
+				: `${node.planRows} est. rows`;
+		const badges = node.warnings
+			.map(
+				(warning) =>
+					`<span class="plan-badge ${warning.flag === "expensive" ? "expensive" : ""}" title="${this.escapeHtml(warning.message)}">${PLAN_FLAG_LABELS[warning.flag]}</span>`,
+			)
+			.join("");
+
+		const details: Array<[string, string | number | boolean | undefined]> = [
+			["Condition", node.condition],
+			["Rows removed by filter", node.rowsRemovedByFilter],
+			["Sort", node.sortMethod ? `${node.sortMethod}, ${node.sortSpaceUsedKb} kB (${node.sortSpaceType})` : undefined],
+			[
+				"Buffers",
+				plan.buffers
+					? `shared hit ${node.sharedHitBlocks ?? 0}, read ${node.sharedReadBlocks ?? 0}; temp read ${node.tempReadBlocks ?? 0}, written ${node.tempWrittenBlocks ?? 0}`
+					: undefined,
+			],
+			["Table rows (estimate)", node.relationRows?.toLocaleString()],
+			...Object.entries(node.properties),
+		];
+		const detailRows = details
+			.filter(([, value]) => value !== undefined && value !== "")
+			.map(([key, value]) => `<tr><td>${this.escapeHtml(key)}</td><td>${this.escapeHtml(String(value))}</td></tr>`)
+			.join("");
+
+		return `
+            <details class="plan-node ${flags}" id="plan-node-${node.id}" open>
+                <summary>
+                    <div class="plan-share" title="${Math.round(node.exclusiveShare * 100)}% of the plan"><div class="plan-share-fill" style="width: ${Math.round(node.exclusiveShare * 100)}%;"></div></div>
+                    <span class="plan-node-title">${this.escapeHtml(this.describePlanNode(node))}</span>
+                    <span class="plan-node-metrics">${weight}; ${rows}</span>
+                    ${badges}
+                </summary>
+                ${detailRows ? `<table class="plan-node-details">${detailRows}</table>` : ""}
+                ${node.children.map((child) => this.generatePlanNodeHtml(child, plan)).join("")}
+            </details>
+        `;
+	}
+
+	/**
+	 * One row per plan depth; each node spans its share of its parent's width
+	 */
+	private generatePlanFlameHtml(plan: ExecutionPlan, nodes: ExecutionPlanNode[]): string {
+		const frames: string[] = [];
+		const place = (node: ExecutionPlanNode, left: number, width: number) => {
+			if (width < 0.05) {
+				return;
+			}
+			const flags = node.warnings.map((warning) => `flag-${warning.flag.replace(/_/g, "-")}`).join(" ");
+			const weight =
+				plan.weightUnit === "ms" ? `${node.inclusiveWeight.toFixed(2)}ms` : `cost ${node.totalCost.toFixed(2)}`;
+			frames.push(
+				`<div class="plan-frame ${node.warnings.length > 0 ? "flagged" : ""} ${flags}" style="left: ${left}%; width: ${width}%; top: ${node.depth * 20}px;" title="${this.escapeHtml(`${this.describePlanNode(node)}: ${weight}`)}" onclick="selectPlanNode(${node.id})">${this.escapeHtml(node.nodeType)}</div>`,
+			);
+
+			// Parallel workers and loops can make the children add up to more than the parent
+			const childWeight = node.children.reduce((sum, child) => sum + child.inclusiveWeight, 0);
+			const scale = width / Math.max(childWeight, node.inclusiveWeight, Number.EPSILON);
+			let offset = left;
+			for (const child of node.children) {
+				place(child, offset, child.inclusiveWeight * scale);
+				offset += child.inclusiveWeight * scale;
+			}
+		};
+		place(plan.root, 0, 100);
+
+		const depth = Math.max(...nodes.map((node) => node.depth)) + 1;
+		return `<div class="plan-flame" style="height: ${depth * 20}px;">${frames.join("")}</div>`;
+	}
+
+	private describePlanNode(node: ExecutionPlanNode): string {
+		let label = node.joinType ? `${node.joinType} ${node.nodeType}` : node.nodeType;
+		if (node.indexName) {
+			label += ` using ${node.indexName}`;
+		}
+		if (node.relationName) {
+			const relation = node.schema ? `${node.schema}.${node.relationName}` : node.relationName;
+			label += ` on ${relation}${node.alias && node.alias !== node.relationName ? ` ${node.alias}` : ""}`;
+		}
+		return label;
+	}
+
+	private escapeHtml(value: string): string {
+		return value
+			.replace(/&/g, "&amp;")
+			.replace(/</g, "&lt;")
+			.replace(/>/g, "&gt;")
+			.replace(/"/g, "&quot;")
+			.replace(/'/g, "&#39;");
+	}
+
 	private generateResultsTable(result: QueryResult): string {
+		if (result.cancelled) {
+			return `
+                <div style="padding: 40px; text-align: center; color: var(--vscode-descriptionForeground);">
+                    <div style="font-size: 48px; margin-bottom: 16px;">⏹</div>
+                    <div>Query cancelled</div>
+                    <div style="font-size: 12px; margin-top: 8px; opacity: 0.7;">
+                        The statement was stopped on the server after ${result.executionTime}ms; run it again to see its results
+                    </div>
+                </div>
+            `;
+		}
+
 		if (result.error) {
 			return `
                 <div class="error">
@@ -1256,51 +1910,65 @@ export class QueryEditorView {
 			)
 			.join("");
 
-		const rows = result.rows
-			.slice(0, 500)
+		return `
+            <table id="resultsTable">
+                <thead><tr>${headers}</tr></thead>
+                <tbody>${this.generateResultRowsHtml(result.rows, result.columns, 0)}</tbody>
+            </table>
+            <div style="padding: 10px; text-align: center; color: var(--vscode-descriptionForeground); font-size: 11px; border-top: 1px solid var(--vscode-panel-border);">
+                <span id="resultsSummary">${this.generateResultsSummary(result)}</span>
+                <button id="loadMoreRows" class="btn btn-secondary" data-result-id="${result.id}" onclick="fetchMoreRows()" style="margin-left: 12px; ${this.resultCursors.has(result.id) ? "" : "display: none;"}">Load more</button>
+                ${result.executionPlan ? `<span style="margin-left: 16px;">📊 Execution plan available</span>` : ""}
+            </div>
+        `;
+	}
+
+	/**
+	 * Table rows for a page of results; offset is the index of the first row, used for row selection
+	 */
+	private generateResultRowsHtml(rows: any[][], columns: QueryColumn[], offset: number): string {
+		return rows
 			.map(
 				(row, rowIndex) =>
-					`<tr onclick="selectRow(${rowIndex})" style="cursor: pointer;">` +
-					row
+					`<tr onclick="selectRow(${offset + rowIndex})" style="cursor: pointer;">` +
+					(Array.isArray(row) ? row : columns.map((column) => (row as any)[column.name]))
 						.map((cell) => {
-							const cellValue = cell !== null ? String(cell) : '<em style="opacity: 0.6;">null</em>';
-							const title = cell !== null ? cellValue : "NULL value";
+							if (cell === null || cell === undefined) {
+								return '<td title="NULL value"><em style="opacity: 0.6;">null</em></td>';
+							}
 
 							// Format different data types
+							const cellValue = String(cell);
 							let formattedValue = cellValue;
-							if (cell !== null) {
-								if (typeof cell === "boolean") {
-									formattedValue = cell ? "✓" : "✗";
-								} else if (cell instanceof Date) {
-									formattedValue = cell.toLocaleString();
-								} else if (typeof cell === "number") {
-									formattedValue = Number(cell).toLocaleString();
-								} else if (cellValue.length > 50) {
-									formattedValue = cellValue.substring(0, 50) + "...";
-								}
+							if (typeof cell === "boolean") {
+								formattedValue = cell ? "✓" : "✗";
+							} else if (cell instanceof Date) {
+								formattedValue = cell.toLocaleString();
+							} else if (typeof cell === "number") {
+								formattedValue = Number(cell).toLocaleString();
+							} else if (cellValue.length > 50) {
+								formattedValue = cellValue.substring(0, 50) + "...";
 							}
 
-							return `<td title="${title.replace(/"/g, '"')}">${formattedValue}</td>`;
+							return `<td title="${this.escapeHtml(cellValue)}">${this.escapeHtml(formattedValue)}</td>`;
 						})
 						.join("") +
 					"</tr>",
 			)
 			.join("");
+	}
 
-		const totalRows = result.rowCount;
-		const displayedRows = Math.min(result.rows.length, 500);
-
-		return `
-            <table id="resultsTable">
-                <thead><tr>${headers}</tr></thead>
-                <tbody>${rows}</tbody>
-            </table>
-            <div style="padding: 10px; text-align: center; color: var(--vscode-descriptionForeground); font-size: 11px; border-top: 1px solid var(--vscode-panel-border);">
-                Showing ${displayedRows.toLocaleString()} of ${totalRows.toLocaleString()} rows
-                ${totalRows > 500 ? " (first 500 rows displayed)" : ""}
-                ${result.executionPlan ? `<span style="margin-left: 16px;">📊 Execution plan available</span>` : ""}
-            </div>
-        `;
+	private generateResultsSummary(result: QueryResult): string {
+		const loaded = `Showing ${result.rows.length.toLocaleString()} rows`;
+		if (!result.hasMore) {
+			return loaded;
+		}
+		if (this.resultCursors.has(result.id)) {
+			return `${loaded}; scroll down or use Load more for the next ${RESULT_PAGE_SIZE} rows`;
+		}
+		return result.rows.length >= MAX_LOADED_ROWS
+			? `${loaded}, the most kept in the editor; export to get every row`
+			: `${loaded}; the query's cursor was closed, run it again or export to get every row`;
 	}
 
 	private loadQueryHistory(): void {
@@ -1362,6 +2030,7 @@ export class QueryEditorView {
 	}
 
 	dispose(): void {
+		this.closeResultCursors();
 		if (this.webviewPanel) {
 			this.webviewPanel.dispose();
 		}
@@ -0,0 +1,161 @@
+import * as vscode from "vscode";
+import {
+	QUERY_PARAMETER_TYPES,
+	QueryParameter,
+	QueryParameters,
+	QueryParameterType,
+	QueryParameterValue,
+} from "@/services/QueryParameters";
+import { Logger } from "@/utils/Logger";
+
+const STORAGE_KEY = "postgresql.queryParameterValues";
+/** Files and query tabs whose values are kept; the least recently used are forgotten first */
+const MAX_REMEMBERED_SOURCES = 100;
+
+const TYPE_DESCRIPTIONS: Record<QueryParameterType, string> = {
+	text: "Any text",
+	integer: "Whole number, bigint range included",
+	numeric: "Decimal number",
+	boolean: "true / false",
+	date: "YYYY-MM-DD",
+	timestamp: "Date and time",
+	uuid: "UUID",
+	json: "JSON document",
+	null: "SQL NULL",
+};
+
+type RememberedValues = Record<string, Record<string, QueryParameterValue>>;
+
+/**
+ * QueryParameterPrompt - Asks for the type and value of each bind parameter of a query and remembers the
+ * answers per SQL file or query tab, so running the same query again only needs a confirmation
+ */
+export class QueryParameterPrompt {
+	private remembered: RememberedValues;
+
+	/**
+	 * @param storage - Where values survive a reload, such as the workspace state; kept in memory without it
+	 */
+	constructor(private storage?: vscode.Memento) {
+		this.remembered = storage?.get<RememberedValues>(STORAGE_KEY) ?? {};
+	}
+
+	/**
+	 * Ask for values of the given parameters
+	 * @param sourceKey - The file URI or query tab the values are remembered for
+	 * @returns Values keyed by placeholder, or undefined if the user cancelled
+	 */
+	async promptForValues(
+		sourceKey: string,
+		parameters: QueryParameter[],
+	): Promise<Record<string, QueryParameterValue> | undefined> {
+		if (parameters.length === 0) {
+			return {};
+		}
+
+		const previous = this.remembered[sourceKey] ?? {};
+		if (parameters.every((parameter) => previous[parameter.placeholder])) {
+			const choice = await vscode.window.showQuickPick(
+				[
+					{
+						label: "$(play) Run with previous values",
+						detail: parameters
+							.map((parameter) => `${parameter.placeholder} = ${this.describe(previous[parameter.placeholder])}`)
+							.join(", "),
+						reuse: true,
+					},
+					{ label: "$(edit) Enter new values", reuse: false },
+				],
+				{ title: "Query Parameters", placeHolder: "This query has bind parameters" },
+			);
+			if (!choice) {
+				return undefined;
+			}
+			if (choice.reuse) {
+				return this.pick(previous, parameters);
+			}
+		}
+
+		const values: Record<string, QueryParameterValue> = { ...previous };
+		for (const [position, parameter] of parameters.entries()) {
+			const entered = await this.promptForValue(
+				parameter,
+				previous[parameter.placeholder],
+				position,
+				parameters.length,
+			);
+			if (!entered) {
+				Logger.info("Query parameter entry cancelled", "promptForValues", { sourceKey });
+				return undefined;
+			}
+			values[parameter.placeholder] = entered;
+		}
+
+		await this.remember(sourceKey, values);
+		return this.pick(values, parameters);
+	}
+
+	private async promptForValue(
+		parameter: QueryParameter,
+		previous: QueryParameterValue | undefined,
+		position: number,
+		total: number,
+	): Promise<QueryParameterValue | undefined> {
+		const title = `Query Parameter ${position + 1} of ${total}: ${parameter.placeholder}`;
+		const preferred = previous?.type ?? "text";
+		const typeItems = [preferred, ...QUERY_PARAMETER_TYPES.filter((type) => type !== preferred)].map((type) => ({
+			label: type,
+			description: TYPE_DESCRIPTIONS[type],
+			type,
+		}));
+		const typeChoice = await vscode.window.showQuickPick(typeItems, {
+			title,
+			placeHolder: `Type of ${parameter.placeholder}`,
+		});
+		if (!typeChoice) {
+			return undefined;
+		}
+		if (typeChoice.type === "null") {
+			return { type: "null", value: "" };
+		}
+
+		const value = await vscode.window.showInputBox({
+			title,
+			prompt: `Value of ${parameter.placeholder} (${typeChoice.type})`,
+			value: previous && previous.type !== "null" ? previous.value : "",
+			validateInput: (input) => QueryParameters.validate(typeChoice.type, input),
+		});
+		return value === undefined ? undefined : { type: typeChoice.type, value };
+	}
+
+	private async remember(sourceKey: string, values: Record<string, QueryParameterValue>): Promise<void> {
+		// Re-inserting moves the source to the end, so the oldest sources come first
+		delete this.remembered[sourceKey];
+		this.remembered[sourceKey] = values;
+		const sources = Object.keys(this.remembered);
+		for (const stale of sources.slice(0, Math.max(0, sources.length - MAX_REMEMBERED_SOURCES))) {
+			delete this.remembered[stale];
+		}
+
+		try {
+			await this.storage?.update(STORAGE_KEY, this.remembered);
+		} catch (error) {
+			Logger.error("Failed to save query parameter values", error as Error);
+		}
+	}
+
+	private pick(
+		values: Record<string, QueryParameterValue>,
+		parameters: QueryParameter[],
+	): Record<string, QueryParameterValue> {
+		return Object.fromEntries(parameters.map((parameter) => [parameter.placeholder, values[parameter.placeholder]]));
+	}
+
+	private describe(entry: QueryParameterValue): string {
+		if (entry.type === "null") {
+			return "NULL";
+		}
+		const shown = entry.value.length > 30 ? `${entry.value.slice(0, 27)}...` : entry.value;
+		return `${entry.type === "text" || entry.type === "json" ? `'${shown}'` : shown} (${entry.type})`;
+	}
+}
@@ -3,6 +3,10 @@ import { ConnectionInfo } from "@/core/PostgreSqlConnectionManager";
 import { ValidationFramework } from "@/core/ValidationFramework";
 import { ConnectionManager } from "@/managers/ConnectionManager";
 import { ModularSchemaManager } from "@/managers/schema";
+import { AttributeChange } from "@/managers/schema/AttributeDiffer";
+import { MigrationLedgerLocation } from "@/managers/schema/MigrationLedger";
+import { SchemaComparisonOptions, ThreeWayDifferenceInfo } from "@/managers/schema/SchemaComparison";
+import { SchemaComparisonSource } from "@/managers/schema/SchemaSnapshotStore";
 import { QueryExecutionService } from "@/services/QueryExecutionService";
 import { Logger } from "@/utils/Logger";
 
@@ -18,14 +22,23 @@ export interface SchemaComparisonData {
 
 export interface SchemaDifference {
 	id: string;
-	type: "Added" | "Removed" | "Modified" | "Moved";
+	type: "Added" | "Removed" | "Modified" | "Moved" | "Renamed";
 	objectType: string;
 	objectName: string;
 	schema: string;
+	targetSchema?: string;
 	sourceDefinition?: string | undefined;
 	targetDefinition?: string | undefined;
 	differenceDetails: string[];
 	severity: "low" | "medium" | "high" | "critical";
+	attributeChanges?: AttributeChange[];
+	previousName?: string;
+	renameConfidence?: number;
+	renameStatus?: "pending" | "confirmed";
+	tableName?: string;
+	signature?: string;
+	category?: "privileges";
+	threeWay?: ThreeWayDifferenceInfo;
 	conflictResolution?: ConflictResolution;
 	impactAnalysis?: ImpactAnalysis;
 }
@@ -100,6 +113,8 @@ export interface ViewDependencyNode {
 
 // Enhanced comparison interfaces for detailed analysis
 export interface EnhancedSchemaComparisonData extends SchemaComparisonData {
+	/** Set for three-way comparisons */
+	baselineName?: string;
 	detailedComparison?: DetailedSchemaComparisonResult;
 	columnComparisons?: Map<string, ColumnComparisonDetail[]>;
 	indexComparisons?: Map<string, IndexComparisonDetail[]>;
@@ -134,11 +149,15 @@ export class SchemaComparisonView {
 	private currentViewMode: ComparisonViewMode;
 	private currentFilter: ComparisonFilter;
 
-	constructor(private connectionManager: ConnectionManager) {
+	constructor(
+		private connectionManager: ConnectionManager,
+		getLedgerLocation?: () => MigrationLedgerLocation,
+	) {
 		this.schemaManager = new ModularSchemaManager(
 			connectionManager,
 			new QueryExecutionService(connectionManager),
 			new ValidationFramework(),
+			getLedgerLocation,
 		);
 		this.currentViewMode = {
 			type: "basic",
@@ -274,6 +293,61 @@ export class SchemaComparisonView {
 		}
 	}
 
+	/**
+	 * Compare two connections against a common baseline and show conflicts separately from one-sided changes
+	 */
+	async performThreeWayComparison(
+		baseline: SchemaComparisonSource,
+		baselineName: string,
+		sourceConnection: ConnectionInfo,
+		targetConnection: ConnectionInfo,
+		options: SchemaComparisonOptions,
+	): Promise<void> {
+		try {
+			Logger.info("Performing three-way schema comparison", "performThreeWayComparison", {
+				baseline: baselineName,
+				source: sourceConnection.name,
+				target: targetConnection.name,
+			});
+
+			const result = await vscode.window.withProgress(
+				{
+					location: vscode.ProgressLocation.Notification,
+					title: `Comparing ${sourceConnection.name} and ${targetConnection.name} against ${baselineName}`,
+					cancellable: false,
+				},
+				() => this.schemaManager.compareThreeWay(baseline, sourceConnection.id, targetConnection.id, options),
+			);
+
+			const comparisonData: EnhancedSchemaComparisonData = {
+				id: result.comparisonId,
+				sourceConnection,
+				targetConnection,
+				baselineName,
+				differences: result.differences as SchemaDifference[],
+				comparisonOptions: {
+					mode: options.mode,
+					ignoreSchemas: options.ignoreSchemas || [],
+					includeSystemObjects: options.includeSystemObjects || false,
+					caseSensitive: true,
+				},
+				createdAt: result.createdAt.toISOString(),
+				executionTime: result.executionTime.toString(),
+			};
+
+			if (this.panel) {
+				this.comparisonData = comparisonData;
+				this.panel.webview.html = await this.generateEnhancedComparisonHtml(this.comparisonData);
+			} else {
+				await this.showComparison(comparisonData);
+			}
+		} catch (error) {
+			Logger.error("Three-way schema comparison failed", error as Error);
+			vscode.window.showErrorMessage(`Three-way schema comparison failed: ${(error as Error).message}`);
+			throw error;
+		}
+	}
+
 	private convertDetailedComparison(
 		detailedResult: any,
 		sourceConnection: ConnectionInfo,
@@ -304,6 +378,12 @@ export class SchemaComparisonView {
 
 		const differencesByType = this.groupDifferencesByType(data.differences);
 		const hasDetailedData = data.detailedComparison !== undefined;
+		const renameReviewHtml = this.generateRenameReviewHtml(data.differences);
+		const attributeChangesHtml = this.generateAttributeChangesHtml(data.differences);
+		const privilegeChangesHtml = this.generatePrivilegeChangesHtml(data.differences);
+		const conflictsHtml = this.generateConflictsHtml(data.differences);
+		const sourceOnlyHtml = this.generateSourceOnlyChangesHtml(data.differences);
+		const conflictCount = data.differences.filter((diff) => diff.threeWay?.origin === "conflict").length;
 
 		return `<!DOCTYPE html>
         <html>
@@ -576,6 +656,64 @@ export class SchemaComparisonView {
                 .btn-secondary:hover {
                     background: var(--vscode-list-hoverBackground);
                 }
+                .rename-row {
+                    display: flex;
+                    justify-content: space-between;
+                    align-items: center;
+                    padding: 10px 15px;
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+                .rename-row:last-child {
+                    border-bottom: none;
+                }
+                .rename-names {
+                    font-family: var(--vscode-editor-font-family, monospace);
+                    font-size: 12px;
+                }
+                .rename-meta {
+                    font-size: 11px;
+                    color: var(--vscode-descriptionForeground);
+                    margin-top: 4px;
+                }
+                .rename-actions {
+                    display: flex;
+                    gap: 8px;
+                    align-items: center;
+                }
+                .attribute-list {
+                    margin: 6px 0 0 0;
+                    padding-left: 18px;
+                    font-size: 12px;
+                }
+                .attribute-kind {
+                    font-family: var(--vscode-editor-font-family, monospace);
+                    font-size: 10px;
+                    color: var(--vscode-descriptionForeground);
+                    margin-right: 6px;
+                }
+                .baseline-badge {
+                    background: var(--vscode-badge-background);
+                    color: var(--vscode-badge-foreground);
+                }
+                .definition-compare {
+                    display: grid;
+                    grid-template-columns: repeat(3, 1fr);
+                    gap: 8px;
+                    margin-top: 6px;
+                }
+                .definition-compare pre {
+                    margin: 2px 0 0 0;
+                    padding: 6px;
+                    max-height: 160px;
+                    overflow: auto;
+                    font-size: 11px;
+                    white-space: pre-wrap;
+                    background: var(--vscode-input-background);
+                }
+                .rename-confirmed {
+                    font-size: 11px;
+                    color: var(--vscode-gitDecoration-addedResourceForeground);
+                }
             </style>
         </head>
         <body>
@@ -584,6 +722,7 @@ export class SchemaComparisonView {
                     <h2>Enhanced Schema Comparison Results</h2>
                     <span class="connection-badge source-badge">Source: ${data.sourceConnection.name}</span>
                     <span class="connection-badge target-badge">Target: ${data.targetConnection.name}</span>
+                    ${data.baselineName ? `<span class="connection-badge baseline-badge">Baseline: ${data.baselineName}</span>` : ""}
                 </div>
                 <div class="view-mode-selector">
                     <button class="view-mode-btn ${
@@ -639,11 +778,32 @@ export class SchemaComparisonView {
                         </div>
                         <div class="summary-label">Modified</div>
                     </div>
+                    <div class="summary-card">
+                        <div class="summary-number" style="color: var(--vscode-gitDecoration-renamedResourceForeground);">
+                            ${differencesByType.Renamed || 0}
+                        </div>
+                        <div class="summary-label">Renamed</div>
+                    </div>
+                    ${
+											data.baselineName
+												? `<div class="summary-card">
+                        <div class="summary-number" style="color: var(--vscode-gitDecoration-conflictingResourceForeground, #e4676b);">
+                            ${conflictCount}
+                        </div>
+                        <div class="summary-label">Conflicts</div>
+                    </div>`
+												: ""
+										}
                     <div class="summary-card">
                         <div class="summary-number">${data.differences.length}</div>
                         <div class="summary-label">Total</div>
                     </div>
                 </div>
+                ${conflictsHtml}
+                ${sourceOnlyHtml}
+                ${renameReviewHtml}
+                ${attributeChangesHtml}
+                ${privilegeChangesHtml}
             </div>
 
             <div class="footer">
@@ -777,6 +937,21 @@ export class SchemaComparisonView {
                     \`;
                 }
 
+                function resolveRename(index, confirmed) {
+                    vscode.postMessage({
+                        command: confirmed ? 'confirmRename' : 'rejectRename',
+                        index: index
+                    });
+                }
+
+                function resolveConflict(index, resolution) {
+                    vscode.postMessage({
+                        command: 'resolveConflict',
+                        index: index,
+                        resolution: resolution
+                    });
+                }
+
                 function exportComparison() {
                     vscode.postMessage({
                         command: 'exportComparison',
@@ -805,6 +980,210 @@ export class SchemaComparisonView {
         `;
 	}
 
+	private generateRenameReviewHtml(differences: SchemaDifference[]): string {
+		const renames = differences.map((diff, index) => ({ diff, index })).filter(({ diff }) => diff.type === "Renamed");
+		if (renames.length === 0) {
+			return "";
+		}
+
+		const rows = renames
+			.map(({ diff, index }) => {
+				const owner = diff.tableName ? `${diff.schema}.${diff.tableName}.` : `${diff.schema}.`;
+				const confidence = Math.round((diff.renameConfidence ?? 0) * 100);
+				const actions =
+					diff.renameStatus === "confirmed"
+						? `<span class="rename-confirmed">Confirmed</span>
+                        <button class="btn btn-secondary" onclick="resolveRename(${index}, false)">Reject</button>`
+						: `<button class="btn btn-primary" onclick="resolveRename(${index}, true)">Confirm</button>
+                        <button class="btn btn-secondary" onclick="resolveRename(${index}, false)">Reject</button>`;
+				return `
+                <div class="rename-row">
+                    <div>
+                        <div class="rename-names">${this.escapeHtml(`${owner}${diff.previousName} → ${diff.objectName}${this.formatTargetSchemaNote(diff)}`)}</div>
+                        <div class="rename-meta">${diff.objectType} • ${confidence}% confidence • ${this.escapeHtml(diff.differenceDetails.join("; "))}</div>
+                    </div>
+                    <div class="rename-actions">
+                        ${actions}
+                    </div>
+                </div>`;
+			})
+			.join("");
+
+		return `
+                <div class="detailed-analysis-section">
+                    <div class="section-header">
+                        <div class="section-title">Detected Renames</div>
+                        <div class="rename-meta">Rejected renames are migrated as a drop and a create</div>
+                    </div>
+                    ${rows}
+                </div>`;
+	}
+
+	/**
+	 * Objects both sides changed since the baseline. They stay out of the migration until the user picks a side.
+	 */
+	private generateConflictsHtml(differences: SchemaDifference[]): string {
+		const conflicts = differences
+			.map((diff, index) => ({ diff, index }))
+			.filter(({ diff }) => diff.threeWay?.origin === "conflict");
+		if (conflicts.length === 0) {
+			return "";
+		}
+
+		const escape = (text?: string) =>
+			(text || "(not present)").replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+		const rows = conflicts
+			.map(({ diff, index }) => {
+				const resolution = diff.threeWay?.resolution;
+				const status = resolution
+					? `<span class="rename-confirmed">${resolution === "take-target" ? "Taking target" : "Keeping source"}</span>`
+					: "";
+				return `
+                <div class="rename-row">
+                    <div style="flex: 1;">
+                        <div class="rename-names">${diff.objectType} ${this.escapeHtml(`${diff.schema}.${diff.objectName}${this.formatTargetSchemaNote(diff)}`)}</div>
+                        <div class="rename-meta">${diff.type} • ${this.escapeHtml(diff.differenceDetails.join("; "))}</div>
+                        <div class="definition-compare">
+                            <div><div class="rename-meta">Baseline</div><pre>${escape(diff.threeWay?.baselineDefinition)}</pre></div>
+                            <div><div class="rename-meta">Source</div><pre>${escape(diff.sourceDefinition)}</pre></div>
+                            <div><div class="rename-meta">Target</div><pre>${escape(diff.targetDefinition)}</pre></div>
+                        </div>
+                    </div>
+                    <div class="rename-actions">
+                        ${status}
+                        <button class="btn btn-secondary" onclick="resolveConflict(${index}, 'keep-source')">Keep Source</button>
+                        <button class="btn btn-primary" onclick="resolveConflict(${index}, 'take-target')">Take Target</button>
+                    </div>
+                </div>`;
+			})
+			.join("");
+
+		return `
+                <div class="detailed-analysis-section">
+                    <div class="section-header">
+                        <div class="section-title">Conflicts</div>
+                        <div class="rename-meta">Changed on both sides since the baseline; unresolved conflicts are left out of the migration</div>
+                    </div>
+                    ${rows}
+                </div>`;
+	}
+
+	/**
+	 * Changes made only on the source since the baseline; migrating them would undo them
+	 */
+	private generateSourceOnlyChangesHtml(differences: SchemaDifference[]): string {
+		const sourceOnly = differences.filter((diff) => diff.threeWay?.origin === "source-only");
+		if (sourceOnly.length === 0) {
+			return "";
+		}
+
+		const rows = sourceOnly
+			.map(
+				(diff) => `
+                <div class="rename-row">
+                    <div>
+                        <div class="rename-names">${diff.objectType} ${this.escapeHtml(`${diff.schema}.${diff.objectName}${this.formatTargetSchemaNote(diff)}`)}</div>
+                        <div class="rename-meta">${this.escapeHtml(diff.differenceDetails.join("; "))}</div>
+                    </div>
+                </div>`,
+			)
+			.join("");
+
+		return `
+                <div class="detailed-analysis-section">
+                    <div class="section-header">
+                        <div class="section-title">Source-only Changes</div>
+                        <div class="rename-meta">Made on the source since the baseline; kept out of the migration</div>
+                    </div>
+                    ${rows}
+                </div>`;
+	}
+
+	/**
+	 * Show both schema names for differences found through a schema mapping
+	 */
+	private formatTargetSchemaNote(diff: SchemaDifference): string {
+		return diff.targetSchema && diff.targetSchema !== diff.schema ? ` (vs ${diff.targetSchema})` : "";
+	}
+
+	private escapeHtml(value: string): string {
+		return value
+			.replace(/&/g, "&amp;")
+			.replace(/</g, "&lt;")
+			.replace(/>/g, "&gt;")
+			.replace(/"/g, "&quot;")
+			.replace(/'/g, "&#39;");
+	}
+
+	private generateAttributeChangesHtml(differences: SchemaDifference[]): string {
+		const modified = differences.filter(
+			(diff) => diff.type === "Modified" && !diff.category && (diff.attributeChanges?.length || 0) > 0,
+		);
+		if (modified.length === 0) {
+			return "";
+		}
+
+		const rows = modified
+			.map((diff) => {
+				const items = (diff.attributeChanges || [])
+					.map(
+						(attr) => `<li><span class="attribute-kind">${attr.kind}</span>${this.escapeHtml(attr.description)}</li>`,
+					)
+					.join("");
+				return `
+                <div class="rename-row">
+                    <div>
+                        <div class="rename-names">${diff.objectType} ${diff.schema}.${diff.objectName}${this.formatTargetSchemaNote(diff)}</div>
+                        <ul class="attribute-list">${items}</ul>
+                    </div>
+                </div>`;
+			})
+			.join("");
+
+		return `
+                <div class="detailed-analysis-section">
+                    <div class="section-header">
+                        <div class="section-title">Changed Attributes</div>
+                    </div>
+                    ${rows}
+                </div>`;
+	}
+
+	/**
+	 * List grants and revokes separately from structural changes so they can be reviewed on their own
+	 */
+	private generatePrivilegeChangesHtml(differences: SchemaDifference[]): string {
+		const privilegeDiffs = differences.filter((diff) => diff.category === "privileges");
+		if (privilegeDiffs.length === 0) {
+			return "";
+		}
+
+		const rows = privilegeDiffs
+			.map((diff) => {
+				const details = diff.attributeChanges?.length
+					? diff.attributeChanges.map((attr) => attr.description)
+					: diff.differenceDetails;
+				const items = details.map((detail) => `<li>${this.escapeHtml(detail)}</li>`).join("");
+				const name = diff.schema ? `${diff.schema}.${diff.objectName}` : diff.objectName;
+				return `
+                <div class="rename-row">
+                    <div>
+                        <div class="rename-names">${diff.objectType} ${this.escapeHtml(`${name}${this.formatTargetSchemaNote(diff)}`)}</div>
+                        <ul class="attribute-list">${items}</ul>
+                    </div>
+                </div>`;
+			})
+			.join("");
+
+		return `
+                <div class="detailed-analysis-section">
+                    <div class="section-header">
+                        <div class="section-title">Privileges</div>
+                    </div>
+                    ${rows}
+                </div>`;
+	}
+
 	private groupDifferencesByType(differences: SchemaDifference[]): Record<string, number> {
 		return differences.reduce(
 			(acc, diff) => {
@@ -863,12 +1242,97 @@ export class SchemaComparisonView {
 			case "generateMigration":
 				await this.generateMigrationFromComparison(message.comparisonData);
 				break;
+			case "confirmRename":
+				await this.resolveRename(message.index, true);
+				break;
+			case "rejectRename":
+				await this.resolveRename(message.index, false);
+				break;
+			case "resolveConflict":
+				await this.resolveConflict(message.index, message.resolution);
+				break;
 			case "startNewComparison":
 				await vscode.commands.executeCommand("postgresql.compareSchemas");
 				break;
 		}
 	}
 
+	private async resolveRename(index: number, confirmed: boolean): Promise<void> {
+		const difference = this.comparisonData?.differences[index];
+		if (!this.comparisonData || !difference || difference.type !== "Renamed") {
+			return;
+		}
+
+		if (confirmed) {
+			difference.renameStatus = "confirmed";
+		} else {
+			this.comparisonData.differences.splice(index, 1, ...this.splitRejectedRename(difference));
+		}
+
+		Logger.info(`Rename ${confirmed ? "confirmed" : "rejected"}`, "resolveRename", {
+			objectType: difference.objectType,
+			previousName: difference.previousName,
+			objectName: difference.objectName,
+		});
+
+		if (this.panel) {
+			this.panel.webview.html = await this.generateEnhancedComparisonHtml(this.comparisonData);
+		}
+	}
+
+	private async resolveConflict(index: number, resolution: "keep-source" | "take-target"): Promise<void> {
+		const difference = this.comparisonData?.differences[index];
+		if (!difference?.threeWay || difference.threeWay.origin !== "conflict") {
+			return;
+		}
+
+		difference.threeWay = { ...difference.threeWay, resolution };
+		Logger.info("Conflict resolved", "resolveConflict", {
+			objectType: difference.objectType,
+			objectName: difference.objectName,
+			resolution,
+		});
+
+		if (this.panel && this.comparisonData) {
+			this.panel.webview.html = await this.generateEnhancedComparisonHtml(this.comparisonData);
+		}
+	}
+
+	/**
+	 * Turn a rejected rename back into the drop and create it was detected from.
+	 * Column renames have no standalone replacement: the owning table's modification already covers them.
+	 */
+	private splitRejectedRename(difference: SchemaDifference): SchemaDifference[] {
+		if (difference.objectType === "column" || !difference.previousName) {
+			return [];
+		}
+
+		const {
+			previousName,
+			renameConfidence: _renameConfidence,
+			renameStatus: _renameStatus,
+			attributeChanges: _attributeChanges,
+			sourceDefinition,
+			targetDefinition,
+			...rest
+		} = difference;
+		return [
+			{
+				...rest,
+				type: "Removed",
+				objectName: previousName,
+				sourceDefinition,
+				differenceDetails: ["Object exists in source but not in target"],
+			},
+			{
+				...rest,
+				type: "Added",
+				targetDefinition,
+				differenceDetails: ["Object exists in target but not in source"],
+			},
+		];
+	}
+
 	private async exportComparison(data: EnhancedSchemaComparisonData): Promise<void> {
 		try {
 			const exportContent = JSON.stringify(data, null, 2);
@@ -892,7 +1356,39 @@ export class SchemaComparisonView {
 
 	private async generateMigrationFromComparison(comparisonData: EnhancedSchemaComparisonData): Promise<void> {
 		try {
-			await vscode.commands.executeCommand("postgresql.generateMigration", comparisonData);
+			const pendingRenames = comparisonData.differences.filter(
+				(diff) => diff.type === "Renamed" && diff.renameStatus !== "confirmed",
+			).length;
+			if (pendingRenames > 0) {
+				const choice = await vscode.window.showWarningMessage(
+					`${pendingRenames} detected rename(s) have not been confirmed. Migrate them as renames?`,
+					{ modal: true },
+					"Migrate as Renames",
+				);
+				if (choice !== "Migrate as Renames") {
+					return;
+				}
+			}
+
+			const unresolvedConflicts = comparisonData.differences.filter(
+				(diff) => diff.threeWay?.origin === "conflict" && !diff.threeWay.resolution,
+			).length;
+			if (unresolvedConflicts > 0) {
+				const choice = await vscode.window.showWarningMessage(
+					`${unresolvedConflicts} conflict(s) have not been resolved and will be left out of the migration.`,
+					{ modal: true },
+					"Generate Without Them",
+				);
+				if (choice !== "Generate Without Them") {
+					return;
+				}
+			}
+
+			await vscode.commands.executeCommand("postgresql.generateMigration", {
+				...comparisonData,
+				sourceConnectionId: comparisonData.sourceConnection.id,
+				targetConnectionId: comparisonData.targetConnection.id,
+			});
 		} catch (error) {
 			Logger.error("Failed to generate migration from comparison", error as Error);
 			vscode.window.showErrorMessage("Failed to generate migration");